@@ -14,7 +14,7 @@ import { ThemeProvider, useTheme } from './src/context/ThemeContext';
 import ErrorBoundary from './src/components/ErrorBoundary';
 
 // Advanced Services
-import IntelligentNotificationService from './src/services/NotificationService';
+import NotificationOrchestrator from './src/services/NotificationOrchestrator';
 import SocialService from './src/services/SocialService';
 import OfflineService from './src/services/OfflineService';
 
@@ -59,12 +59,10 @@ const AppNavigator = () => {
         console.log('🚀 Initializing 5 Pillars of Life Advanced Services...');
         
         // Initialize services
-        const notificationService = IntelligentNotificationService.getInstance();
-        const notificationInit = await notificationService.initialize();
+        const notificationInit = await NotificationOrchestrator.getInstance().initialize();
         
         if (notificationInit) {
           console.log('🔔 Notification Service initialized successfully');
-          await notificationService.scheduleMotivationalMessage();
         } else {
           console.warn('⚠️ Notification permissions not granted');
         }
@@ -0,0 +1,8 @@
+// jest.setup.js - NATIVE MODULE MOCKS SHARED BY EVERY TEST
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock')
+);
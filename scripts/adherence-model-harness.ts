@@ -0,0 +1,96 @@
+// scripts/adherence-model-harness.ts - HEADLESS TRAINING AND EVALUATION OF THE ADHERENCE MODEL
+//
+// Replays seeded persona histories the way the app sees them - one initial fit, then a fit per
+// "launch" as days complete - and scores the network against the cold-start heuristic on the
+// last weeks it never trained on. Also checks that saved weights restore to identical forecasts.
+//
+// Usage: npm run model:harness [-- --days 150 --holdout 28 --seed 17]
+import { generatePersonaHistories } from './fixtures/adherencePersonas';
+import AdherenceModel, { ForecastMetrics, createMemoryModelStore } from '../src/services/AdherenceModel';
+import { buildAdherenceExamples, buildAdherenceHistory } from '../src/utils/adherenceFeatures';
+import { shiftDayKey, toDayKey } from '../src/utils/sessionAnalytics';
+
+const option = (name: string, fallback: number): number => {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index === -1 ? NaN : Number(process.argv[index + 1]);
+  return isFinite(value) ? value : fallback;
+};
+
+const DAYS = option('days', 150);
+const HOLDOUT_DAYS = option('holdout', 28);
+const SEED = option('seed', 17);
+const INITIAL_DAYS = 60;
+const LAUNCH_EVERY_DAYS = 3;
+
+const format = (value: number | null, digits = 3) => (value === null ? '   -  ' : value.toFixed(digits).padStart(6));
+
+const metricsRow = (label: string, metrics: ForecastMetrics) =>
+  `  ${label.padEnd(10)} brier ${format(metrics.brier)}  log-loss ${format(metrics.logLoss)}  ` +
+  `accuracy ${format(metrics.accuracy)}  score MAE ${format(metrics.scoreMae, 1)}`;
+
+const run = async (): Promise<number> => {
+  const end = new Date(2026, 5, 30);
+  let failures = 0;
+
+  for (const persona of generatePersonaHistories(DAYS, end, SEED)) {
+    const history = buildAdherenceHistory(persona.sessions, persona.checkIns);
+    const firstDay = history.firstDay!;
+    const trainEnd = shiftDayKey(persona.lastDay, -HOLDOUT_DAYS);
+    const store = createMemoryModelStore();
+    const model = new AdherenceModel(store);
+
+    console.log(`\n${persona.name}: ${persona.description}`);
+    console.log(`  ${persona.sessions.length} sessions, ${persona.checkIns.length} check-ins, ${firstDay} to ${persona.lastDay}`);
+
+    // Each launch only sees the days completed by then
+    const launches: string[] = [];
+    for (let day = shiftDayKey(firstDay, INITIAL_DAYS); day <= trainEnd; day = shiftDayKey(day, LAUNCH_EVERY_DAYS)) {
+      launches.push(day);
+    }
+    if (launches[launches.length - 1] !== trainEnd) launches.push(trainEnd);
+
+    const started = Date.now();
+    for (const through of launches) {
+      const visible = buildAdherenceHistory(
+        persona.sessions.filter(session => toDayKey(session.date) <= through),
+        persona.checkIns.filter(checkIn => checkIn.day <= through)
+      );
+      await model.train(visible, through);
+    }
+    console.log(`  ${launches.length} fits through ${trainEnd} in ${Date.now() - started}ms (model in use: ${model.usesModel})`);
+
+    const holdout = buildAdherenceExamples(history, shiftDayKey(trainEnd, 1), persona.lastDay);
+    const evaluation = await model.evaluate(holdout);
+    console.log(`  held out ${evaluation.examples} pillar-days, ${evaluation.positives} practised`);
+    console.log(metricsRow('model', evaluation.model));
+    console.log(metricsRow('heuristic', evaluation.heuristic));
+
+    const forecast = await model.forecast(history, persona.lastDay);
+    console.log(`  next day: ${forecast.map(pillar => `${pillar.pillar} ${Math.round(pillar.probability * 100)}% ~${pillar.expectedScore ?? '-'}`).join(', ')}`);
+
+    // A fresh instance over the same store must pick up exactly where this one left off
+    const restored = new AdherenceModel(store);
+    const reloaded = await restored.forecast(history, persona.lastDay);
+    const mismatch = reloaded.some((pillar, index) =>
+      pillar.probability !== forecast[index].probability || pillar.expectedScore !== forecast[index].expectedScore
+    );
+    if (mismatch) {
+      console.error('  FAIL: forecasts changed after restoring saved weights');
+      failures++;
+    } else {
+      console.log('  restored weights give identical forecasts');
+    }
+
+    model.dispose();
+    restored.dispose();
+  }
+
+  return failures;
+};
+
+run()
+  .then(failures => process.exit(failures > 0 ? 1 : 0))
+  .catch(error => {
+    console.error('Adherence harness failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,128 @@
+// scripts/fixtures/adherencePersonas.ts - SEEDED PRACTICE HISTORIES FOR THE ADHERENCE HARNESS
+import type { CheckIn, SessionData } from '../../src/context/AppDataContext';
+import { PILLARS, PillarKey, toDayKey } from '../../src/utils/sessionAnalytics';
+
+export interface PersonaHistory {
+  name: string;
+  description: string;
+  sessions: SessionData[];
+  checkIns: CheckIn[];
+  lastDay: string; // yyyy-MM-dd of the final generated day
+}
+
+interface PersonaDefinition {
+  name: string;
+  description: string;
+  // Chance of practising `pillar` on a day, given the weekday (0 = Sunday), the day index and yesterday's energy (1-5)
+  chance: (pillar: PillarKey, weekday: number, dayIndex: number, energy: number) => number;
+  baseScore: Record<PillarKey, number>;
+  improvementPerWeek: number;
+  hour: number; // usual practice hour
+}
+
+// mulberry32 - small, fast and the same on every machine
+const createRandom = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const PERSONAS: PersonaDefinition[] = [
+  {
+    name: 'weekday-routine',
+    description: 'Body on weekdays, spirit on Sundays, mind most days; skips after low-energy evenings',
+    chance: (pillar, weekday, _dayIndex, energy) => {
+      const weekend = weekday === 0 || weekday === 6;
+      const base: Record<PillarKey, number> = {
+        body: weekend ? 0.15 : 0.85,
+        mind: 0.7,
+        heart: weekend ? 0.6 : 0.2,
+        spirit: weekday === 0 ? 0.85 : 0.1,
+        diet: 0.45
+      };
+      return base[pillar] * (energy <= 2 ? 0.35 : 1);
+    },
+    baseScore: { body: 55, mind: 48, heart: 62, spirit: 40, diet: 58 },
+    improvementPerWeek: 1.2,
+    hour: 7
+  },
+  {
+    name: 'fading-habit',
+    description: 'Keen for two months, then practice tails off',
+    chance: (pillar, weekday, dayIndex) => {
+      const keen = pillar === 'mind' || pillar === 'body' ? 0.8 : 0.35;
+      const fade = dayIndex < 60 ? 1 : Math.max(0.15, 1 - (dayIndex - 60) / 50);
+      return keen * fade * (weekday === 6 ? 0.6 : 1);
+    },
+    baseScore: { body: 62, mind: 50, heart: 45, spirit: 52, diet: 66 },
+    improvementPerWeek: 0.6,
+    hour: 19
+  }
+];
+
+const SESSION_TYPES: Record<PillarKey, SessionData['type']> = {
+  body: 'exercise',
+  mind: 'meditation',
+  heart: 'practice',
+  spirit: 'meditation',
+  diet: 'practice'
+};
+
+const MOODS: SessionData['mood'][] = ['low', 'okay', 'good', 'excellent'];
+
+/**
+ * `days` days of sessions and evening check-ins per persona, ending the day before `end`
+ */
+export const generatePersonaHistories = (days: number, end: Date, seed = 17): PersonaHistory[] =>
+  PERSONAS.map((persona, personaIndex) => {
+    const random = createRandom(seed * 31 + personaIndex);
+    const sessions: SessionData[] = [];
+    const checkIns: CheckIn[] = [];
+    let energy = 3;
+    let lastDay = '';
+
+    for (let index = 0; index < days; index++) {
+      const date = new Date(end.getFullYear(), end.getMonth(), end.getDate() - days + index);
+      const day = toDayKey(date);
+      lastDay = day;
+
+      PILLARS.forEach(pillar => {
+        if (random() >= persona.chance(pillar, date.getDay(), index, energy)) return;
+        const score = persona.baseScore[pillar] + (persona.improvementPerWeek * index) / 7 + (random() - 0.5) * 16;
+        const start = new Date(date);
+        start.setHours(persona.hour, Math.floor(random() * 50));
+        sessions.push({
+          id: `session_${persona.name}_${day}_${pillar}`,
+          pillar,
+          type: SESSION_TYPES[pillar],
+          duration: 10 + Math.round(random() * 20),
+          date: start.toISOString(),
+          score: Math.max(1, Math.min(100, Math.round(score))),
+          mood: MOODS[Math.floor(random() * MOODS.length)]
+        });
+      });
+
+      if (random() < 0.8) {
+        energy = 1 + Math.floor(random() * 5);
+        const mood = Math.max(1, Math.min(5, energy + Math.round(random() * 2 - 1)));
+        checkIns.push({
+          id: `checkin_${day}_evening`,
+          day,
+          slot: 'evening',
+          mood,
+          energy,
+          stress: 6 - mood,
+          gratitude: [],
+          pillarFocus: [],
+          createdAt: date.toISOString(),
+          updatedAt: date.toISOString()
+        });
+      } else {
+        energy = 3;
+      }
+    }
+
+    return { name: persona.name, description: persona.description, sessions, checkIns, lastDay };
+  });
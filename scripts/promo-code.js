@@ -0,0 +1,72 @@
+// scripts/promo-code.js - GENERATE SIGNED PROMO CODES
+// Usage: npm run promo-code -- <CAMPAIGN> <DAYS> <REDEEM BY YYYY-MM-DD> [COUNT]
+//   e.g. PROMO_SIGNING_KEY=... npm run promo-code -- PARTNER 30 2027-01-31 50
+//        npm run promo-code -- --keygen
+// Signs with the Ed25519 private key in PROMO_SIGNING_KEY (32 bytes as hex). The key
+// is only ever read from the environment: keep it in the team's secret store, never
+// in the repo. The matching public key goes in expo.extra.billing.promoPublicKey.
+// The format and signature must match src/utils/promoCodes.ts.
+const crypto = require('crypto');
+
+const MAX_DAYS = 366;
+const MAX_COUNT = 1000;
+const SERIAL_BYTES = 5; // 8 base32 characters
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+// DER headers that turn raw 32-byte Ed25519 keys into what node's crypto accepts
+const PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+const fail = (message) => {
+  console.error(`❌ ${message}`);
+  console.error('Usage: npm run promo-code -- <CAMPAIGN> <DAYS> <REDEEM BY YYYY-MM-DD> [COUNT]');
+  console.error('       npm run promo-code -- --keygen');
+  process.exit(1);
+};
+
+const base32 = (bytes) => {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return output;
+};
+
+if (process.argv[2] === '--keygen') {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const seed = privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(PKCS8_PREFIX.length);
+  const raw = publicKey.export({ format: 'der', type: 'spki' }).subarray(SPKI_PREFIX.length);
+  console.log(`PROMO_SIGNING_KEY=${seed.toString('hex')}`);
+  console.log(`promoPublicKey:   ${raw.toString('hex')}`);
+  process.exit(0);
+}
+
+const [campaign, days, redeemBy, count = '1'] = process.argv.slice(2);
+const signingKey = process.env.PROMO_SIGNING_KEY;
+
+if (!campaign || !/^[A-Za-z0-9]{2,16}$/.test(campaign)) fail('Campaign must be 2-16 letters or digits');
+const dayCount = parseInt(days, 10);
+if (!(dayCount >= 1 && dayCount <= MAX_DAYS)) fail(`Days must be between 1 and ${MAX_DAYS}`);
+if (!/^\d{4}-\d{2}-\d{2}$/.test(redeemBy || '') || isNaN(Date.parse(redeemBy))) fail('Redeem-by must be a YYYY-MM-DD date');
+const codeCount = parseInt(count, 10);
+if (!(codeCount >= 1 && codeCount <= MAX_COUNT)) fail(`Count must be between 1 and ${MAX_COUNT}`);
+if (!/^[0-9a-f]{64}$/i.test(signingKey || '')) fail('Set PROMO_SIGNING_KEY to the 32-byte Ed25519 private key as hex');
+
+const key = crypto.createPrivateKey({
+  key: Buffer.concat([PKCS8_PREFIX, Buffer.from(signingKey, 'hex')]),
+  format: 'der',
+  type: 'pkcs8'
+});
+
+for (let i = 0; i < codeCount; i++) {
+  const body = `${campaign.toUpperCase()}-${dayCount}D-${redeemBy.replace(/-/g, '')}-${base32(crypto.randomBytes(SERIAL_BYTES))}`;
+  const signature = base32(crypto.sign(null, Buffer.from(body), key));
+  console.log(`${body}-${signature}`);
+}
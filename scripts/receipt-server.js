@@ -0,0 +1,226 @@
+// scripts/receipt-server.js - LOCAL STAND-IN FOR THE RECEIPT VERIFICATION SERVER
+// Implements the protocol HttpReceiptVerifier speaks:
+//   POST /receipts/verify { platform, productId, transactionId, receipt } -> ReceiptVerification
+//   POST /receipts/:originalTransactionId/state { autoRenew?, billingIssue?, refunded? } -> { state }
+// and the one HttpPromoRedeemer speaks:
+//   POST /promo/claim { code, claimantId } -> PromoClaim
+// Only fake store receipts can be checked here; App Store and Play receipts need the
+// real server. The state endpoint simulates what the store would report: renewal
+// turned off, failed renewals (the grace period) and refunds, from the moment it's
+// posted. Promo codes are checked against PROMO_PUBLIC_KEY, or
+// expo.extra.billing.promoPublicKey from app.json, and each can be claimed once.
+// State is kept in memory.
+const crypto = require('crypto');
+const http = require('http');
+const path = require('path');
+
+const PORT = parseInt(process.env.RECEIPT_PORT || '8788', 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GRACE_PERIOD_DAYS = 3; // matches src/utils/subscriptionState.ts
+const DEFAULT_STATE = { cancelledAt: null, billingIssueAt: null, refunded: false };
+const states = new Map();
+const claims = new Map();
+
+const PROMO_PUBLIC_KEY = process.env.PROMO_PUBLIC_KEY ||
+  require(path.join(__dirname, '..', 'app.json')).expo.extra?.billing?.promoPublicKey;
+const PROMO_PATTERN = /^([A-Z0-9]{2,16})-(\d{1,3})D-(\d{4})(\d{2})(\d{2})-([A-Z2-7]{8})-([A-Z2-7]{103})$/;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req, handler) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let parsed;
+    try {
+      parsed = JSON.parse(body || '{}');
+    } catch (error) {
+      return handler(null);
+    }
+    handler(parsed);
+  });
+};
+
+// Mirrors addPlanPeriod in src/utils/subscriptionState.ts: Jan 31 + 1 month is Feb 28
+const addPeriod = (time, period) => {
+  const date = new Date(time);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + (period === 'monthly' ? 1 : 12));
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return date.getTime();
+};
+
+const renewsAt = (time, stoppedAt) => !stoppedAt || time < new Date(stoppedAt).getTime();
+
+const parseReceipt = (receipt) => {
+  try {
+    const parsed = JSON.parse(receipt);
+    return parsed && parsed.store === 'fake' && parsed.productId && parsed.originalTransactionId ? parsed : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Mirrors verifyFakeReceipt in src/services/FakeBillingProvider.ts
+const verify = (receipt, now = new Date()) => {
+  const parsed = parseReceipt(receipt);
+  if (!parsed) {
+    return {
+      valid: false,
+      status: 'expired',
+      productId: '',
+      transactionId: '',
+      originalTransactionId: '',
+      purchasedAt: now.toISOString(),
+      expiresAt: null,
+      autoRenew: false,
+      reason: 'Only fake store receipts can be verified locally'
+    };
+  }
+
+  const state = states.get(parsed.originalTransactionId) || DEFAULT_STATE;
+  const base = {
+    valid: true,
+    productId: parsed.productId,
+    transactionId: parsed.transactionId,
+    originalTransactionId: parsed.originalTransactionId,
+    purchasedAt: parsed.purchasedAt
+  };
+
+  if (!parsed.period) {
+    return { ...base, status: state.refunded ? 'refunded' : 'active', expiresAt: null, autoRenew: false };
+  }
+
+  const purchased = new Date(parsed.purchasedAt).getTime();
+  const trialEnds = purchased + parsed.trialDays * DAY_MS;
+  let expires = parsed.trialDays > 0 ? trialEnds : addPeriod(purchased, parsed.period);
+  while (expires <= now.getTime() && renewsAt(expires, state.cancelledAt) && renewsAt(expires, state.billingIssueAt)) {
+    expires = addPeriod(expires, parsed.period);
+  }
+
+  const graceEnds = expires + GRACE_PERIOD_DAYS * DAY_MS;
+  const time = now.getTime();
+  const status = state.refunded ? 'refunded'
+    : time < expires ? (time < trialEnds ? 'trial' : 'active')
+    : !renewsAt(expires, state.billingIssueAt) && renewsAt(expires, state.cancelledAt) && time < graceEnds ? 'grace'
+    : 'expired';
+
+  return {
+    ...base,
+    status,
+    expiresAt: new Date(expires).toISOString(),
+    trialEndsAt: parsed.trialDays > 0 ? new Date(trialEnds).toISOString() : null,
+    graceEndsAt: status === 'grace' ? new Date(graceEnds).toISOString() : null,
+    autoRenew: !state.cancelledAt && !state.refunded
+  };
+};
+
+const base32Decode = (text) => {
+  const bytes = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    buffer = ((buffer << 5) | BASE32_ALPHABET.indexOf(char)) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+// Mirrors verifyPromoCode in src/utils/promoCodes.ts
+const checkPromoCode = (code, now = new Date()) => {
+  const match = code.match(PROMO_PATTERN);
+  if (!match || !PROMO_PUBLIC_KEY) return 'This promo code isn\'t valid.';
+
+  const [, , days, year, month, day, , signature] = match;
+  const publicKey = crypto.createPublicKey({
+    key: Buffer.concat([SPKI_PREFIX, Buffer.from(PROMO_PUBLIC_KEY, 'hex')]),
+    format: 'der',
+    type: 'spki'
+  });
+  const body = code.slice(0, code.length - signature.length - 1);
+  const dayCount = parseInt(days, 10);
+  if (!crypto.verify(null, Buffer.from(body), publicKey, base32Decode(signature)) || dayCount < 1 || dayCount > 366) {
+    return 'This promo code isn\'t valid.';
+  }
+
+  const lastDay = new Date(`${year}-${month}-${day}T23:59:59.999Z`).getTime() + 14 * 60 * 60 * 1000;
+  return now.getTime() > lastDay ? 'This promo code has expired.' : null;
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method !== 'POST') {
+    return send(res, 405, { error: 'Method not allowed' });
+  }
+
+  if (url.pathname === '/receipts/verify') {
+    return readJson(req, body => {
+      if (!body || typeof body.receipt !== 'string') {
+        return send(res, 400, { error: 'receipt must be a string' });
+      }
+      const verification = verify(body.receipt);
+      console.log(`🧾 ${verification.productId || body.productId}: ${verification.valid ? verification.status : verification.reason}`);
+      send(res, 200, verification);
+    });
+  }
+
+  if (url.pathname === '/promo/claim') {
+    return readJson(req, body => {
+      if (!body || typeof body.code !== 'string' || typeof body.claimantId !== 'string' || !body.claimantId) {
+        return send(res, 400, { error: 'code and claimantId must be strings' });
+      }
+      const now = new Date().toISOString();
+      const reason = checkPromoCode(body.code);
+      if (reason) {
+        return send(res, 400, { accepted: false, claimedAt: now, reason });
+      }
+
+      const existing = claims.get(body.code);
+      if (existing && existing.claimantId !== body.claimantId) {
+        console.log(`🎟️  ${body.code.slice(0, 30)}…: already claimed`);
+        return send(res, 409, { accepted: false, claimedAt: existing.claimedAt, reason: 'This promo code has already been used.' });
+      }
+      if (!existing) {
+        claims.set(body.code, { claimantId: body.claimantId, claimedAt: now });
+      }
+      console.log(`🎟️  ${body.code.slice(0, 30)}…: claimed`);
+      send(res, 200, { accepted: true, claimedAt: claims.get(body.code).claimedAt });
+    });
+  }
+
+  const match = url.pathname.match(/^\/receipts\/([^/]+)\/state$/);
+  if (match) {
+    return readJson(req, body => {
+      if (!body) {
+        return send(res, 400, { error: 'Invalid JSON' });
+      }
+      const id = decodeURIComponent(match[1]);
+      const state = { ...(states.get(id) || DEFAULT_STATE) };
+      const now = new Date().toISOString();
+      if (typeof body.autoRenew === 'boolean') state.cancelledAt = body.autoRenew ? null : now;
+      if (typeof body.billingIssue === 'boolean') state.billingIssueAt = body.billingIssue ? now : null;
+      if (typeof body.refunded === 'boolean') state.refunded = body.refunded;
+      states.set(id, state);
+      console.log(`🔧 ${id}: ${JSON.stringify(state)}`);
+      send(res, 200, { state });
+    });
+  }
+
+  send(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧾 Local receipt server listening on http://localhost:${PORT}`);
+});
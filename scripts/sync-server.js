@@ -0,0 +1,54 @@
+// scripts/sync-server.js - LOCAL STAND-IN FOR THE CLOUD SYNC SERVER
+// Implements the protocol HttpSyncTransport speaks:
+//   GET  /sync/changes?deviceId=...&since=<cursor>  -> { changes, cursor }
+//   POST /sync/changes { deviceId, changes }        -> { cursor }
+// Changes are kept in memory; restart the server to start from scratch.
+const http = require('http');
+
+const PORT = parseInt(process.env.SYNC_PORT || '8787', 10);
+const log = [];
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (url.pathname !== '/sync/changes') {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  if (req.method === 'GET') {
+    const since = parseInt(url.searchParams.get('since') || '0', 10) || 0;
+    const deviceId = url.searchParams.get('deviceId');
+    const changes = log.slice(since).filter(change => change.deviceId !== deviceId);
+    return send(res, 200, { changes, cursor: String(log.length) });
+  }
+
+  if (req.method === 'POST') {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        const { changes } = JSON.parse(body || '{}');
+        if (!Array.isArray(changes)) {
+          return send(res, 400, { error: 'changes must be an array' });
+        }
+        log.push(...changes);
+        console.log(`📥 ${changes.length} change(s) received, log size ${log.length}`);
+        send(res, 200, { cursor: String(log.length) });
+      } catch (error) {
+        send(res, 400, { error: 'Invalid JSON' });
+      }
+    });
+    return;
+  }
+
+  send(res, 405, { error: 'Method not allowed' });
+});
+
+server.listen(PORT, () => {
+  console.log(`🔄 Local sync server listening on http://localhost:${PORT}`);
+});
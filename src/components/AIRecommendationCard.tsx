@@ -1,8 +1,11 @@
 // src/components/AIRecommendationCard.tsx - INTELLIGENT RECOMMENDATION UI
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import type { AIRecommendation, RecommendationCategory } from '../services/RecommendationEngine';
+import type { DismissReason, RecommendationFeedback } from '../context/AppDataContext';
+import { DISMISS_REASONS } from '../utils/recommendationFeedback';
 
 const { width } = Dimensions.get('window');
 
@@ -22,29 +25,38 @@ const Colors = {
   diet: '#10B981',
 };
 
+export const CATEGORY_ICONS: Record<RecommendationCategory, keyof typeof Ionicons.glyphMap> = {
+  'getting-started': 'flag',
+  recovery: 'refresh',
+  focus: 'eye',
+  consistency: 'repeat',
+  optimization: 'trending-up',
+  maintenance: 'shield-checkmark',
+  breakthrough: 'rocket',
+  timing: 'time',
+  wellbeing: 'heart'
+};
+
 interface AIRecommendationCardProps {
-  recommendation: {
-    id: string;
-    title: string;
-    description: string;
-    pillar: string;
-    priority: 'low' | 'medium' | 'high' | 'critical';
-    confidence: number;
-    actionPlan: string[];
-    estimatedImpact: number;
-    timeToResult: string;
-    difficulty: 'easy' | 'moderate' | 'challenging';
-    category: 'optimization' | 'maintenance' | 'breakthrough' | 'recovery';
-  };
-  onAccept: (id: string) => void;
-  onDismiss: (id: string) => void;
+  recommendation: AIRecommendation;
+  feedback?: RecommendationFeedback | null; // the open entry, once the user has taken it up or snoozed it
+  onAccept: (recommendation: AIRecommendation) => void;
+  onComplete: (recommendation: AIRecommendation) => void;
+  onSnooze: (recommendation: AIRecommendation) => void;
+  onDismiss: (recommendation: AIRecommendation, reason: DismissReason) => void;
 }
 
 export const AIRecommendationCard: React.FC<AIRecommendationCardProps> = ({
   recommendation,
+  feedback,
   onAccept,
+  onComplete,
+  onSnooze,
   onDismiss
 }) => {
+  const [choosingReason, setChoosingReason] = useState(false);
+  const accepted = feedback?.status === 'accepted';
+
   const getPriorityColor = () => {
     switch (recommendation.priority) {
       case 'critical': return Colors.danger;
@@ -59,15 +71,7 @@ export const AIRecommendationCard: React.FC<AIRecommendationCardProps> = ({
     return Colors[recommendation.pillar as keyof typeof Colors] || Colors.accent;
   };
 
-  const getCategoryIcon = () => {
-    switch (recommendation.category) {
-      case 'optimization': return 'trending-up';
-      case 'maintenance': return 'shield-checkmark';
-      case 'breakthrough': return 'rocket';
-      case 'recovery': return 'refresh';
-      default: return 'bulb';
-    }
-  };
+  const getCategoryIcon = () => CATEGORY_ICONS[recommendation.category] || 'bulb';
 
   const getDifficultyDisplay = () => {
     const icons = {
@@ -90,7 +94,7 @@ export const AIRecommendationCard: React.FC<AIRecommendationCardProps> = ({
         <View style={styles.header}>
           <View style={styles.headerLeft}>
             <View style={[styles.categoryIcon, { backgroundColor: getPillarColor() }]}>
-              <Ionicons name={getCategoryIcon() as any} size={16} color="#FFFFFF" />
+              <Ionicons name={getCategoryIcon()} size={16} color="#FFFFFF" />
             </View>
             <View style={styles.headerText}>
               <Text style={styles.title}>{recommendation.title}</Text>
@@ -109,6 +113,7 @@ export const AIRecommendationCard: React.FC<AIRecommendationCardProps> = ({
 
         {/* Description */}
         <Text style={styles.description}>{recommendation.description}</Text>
+        <Text style={styles.reason}>Why: {recommendation.explanation.reason}</Text>
 
         {/* Metrics Row */}
         <View style={styles.metricsRow}>
@@ -143,21 +148,44 @@ export const AIRecommendationCard: React.FC<AIRecommendationCardProps> = ({
         </View>
 
         {/* Action Buttons */}
-        <View style={styles.actionButtons}>
-          <TouchableOpacity
-            style={styles.dismissButton}
-            onPress={() => onDismiss(recommendation.id)}
-          >
-            <Text style={styles.dismissText}>Not Now</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.acceptButton, { backgroundColor: getPillarColor() }]}
-            onPress={() => onAccept(recommendation.id)}
-          >
-            <Ionicons name="checkmark" size={16} color="#FFFFFF" />
-            <Text style={styles.acceptText}>Start Optimization</Text>
-          </TouchableOpacity>
-        </View>
+        {choosingReason ? (
+          <View style={styles.reasonChips}>
+            {(Object.keys(DISMISS_REASONS) as DismissReason[]).map(reason => (
+              <TouchableOpacity
+                key={reason}
+                style={styles.reasonChip}
+                onPress={() => {
+                  setChoosingReason(false);
+                  onDismiss(recommendation, reason);
+                }}
+              >
+                <Text style={styles.reasonChipText}>{DISMISS_REASONS[reason]}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.reasonChip} onPress={() => setChoosingReason(false)}>
+              <Text style={[styles.reasonChipText, { color: Colors.accent }]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.actionButtons}>
+            <TouchableOpacity
+              style={styles.dismissButton}
+              onPress={() => onSnooze(recommendation)}
+            >
+              <Text style={styles.dismissText}>Not Now</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.dismissButton} onPress={() => setChoosingReason(true)}>
+              <Text style={styles.dismissText}>Dismiss</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.acceptButton, { backgroundColor: accepted ? Colors.success : getPillarColor() }]}
+              onPress={() => (accepted ? onComplete(recommendation) : onAccept(recommendation))}
+            >
+              <Ionicons name={accepted ? 'checkmark-done' : 'checkmark'} size={16} color="#FFFFFF" />
+              <Text style={styles.acceptText}>{accepted ? 'Mark as Done' : 'Start Optimization'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </LinearGradient>
     </View>
   );
@@ -246,6 +274,13 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: Colors.text,
     lineHeight: 20,
+    marginBottom: 8,
+  },
+  reason: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    lineHeight: 18,
+    fontStyle: 'italic',
     marginBottom: 16,
   },
   metricsRow: {
@@ -336,5 +371,22 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '600',
   },
+  reasonChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reasonChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.textSecondary + '40',
+    backgroundColor: Colors.surface,
+  },
+  reasonChipText: {
+    fontSize: 13,
+    color: Colors.text,
+  },
 });
 export default React.memo(AIRecommendationCard);
\ No newline at end of file
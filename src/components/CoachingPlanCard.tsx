@@ -0,0 +1,228 @@
+// src/components/CoachingPlanCard.tsx - MULTI-WEEK COACHING PLAN PROGRESS
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { CoachingPlan, CoachingPlanTask, CoachingPlanWithProgress } from '../context/AppDataContext';
+import type { PlanTaskStatus } from '../utils/coachingPlans';
+
+const Colors = {
+  background: '#F8FAFC',
+  surface: '#FFFFFF',
+  text: '#1F2937',
+  textSecondary: '#6B7280',
+  accent: '#3B82F6',
+  success: '#10B981',
+  warning: '#F59E0B',
+  body: '#EF4444',
+  mind: '#3B82F6',
+  heart: '#EC4899',
+  spirit: '#8B5CF6',
+  diet: '#10B981',
+};
+
+const STATUS_ICONS: Record<PlanTaskStatus, keyof typeof Ionicons.glyphMap> = {
+  done: 'checkmark-circle',
+  due: 'ellipse-outline',
+  upcoming: 'ellipse-outline',
+  missed: 'close-circle',
+  skipped: 'remove-circle-outline'
+};
+
+interface CoachingPlanCardProps {
+  entry: CoachingPlanWithProgress;
+  onStartTask?: (task: CoachingPlanTask) => void;
+  onAbandon?: (plan: CoachingPlan) => void;
+}
+
+const formatDay = (day: string) =>
+  new Date(`${day}T12:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+export const CoachingPlanCard: React.FC<CoachingPlanCardProps> = ({ entry, onStartTask, onAbandon }) => {
+  const { plan, progress } = entry;
+  const color = Colors[plan.pillars[0] as keyof typeof Colors] || Colors.accent;
+  const lastAdaptation = plan.adaptations[plan.adaptations.length - 1];
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <View style={[styles.icon, { backgroundColor: color }]}>
+          <Ionicons name="calendar" size={16} color="#FFFFFF" />
+        </View>
+        <View style={styles.headerText}>
+          <Text style={styles.title} numberOfLines={1}>{plan.title}</Text>
+          <Text style={styles.meta}>
+            {plan.pillars.map(pillar => pillar.toUpperCase()).join(' • ')} • Week {progress.currentWeek} of {plan.weeks}
+          </Text>
+        </View>
+        <Text style={[styles.percent, { color }]}>{progress.percent}%</Text>
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${progress.percent}%`, backgroundColor: color }]} />
+      </View>
+      <Text style={styles.progressText}>
+        {progress.done} of {progress.total} sessions done{progress.missed > 0 ? ` • ${progress.missed} missed` : ''}
+      </Text>
+
+      {!progress.onTrack && (
+        <View style={styles.notice}>
+          <Ionicons name="alert-circle" size={14} color={Colors.warning} />
+          <Text style={styles.noticeText}>You're behind - the plan will adjust to catch you up.</Text>
+        </View>
+      )}
+      {progress.onTrack && lastAdaptation && (
+        <View style={styles.notice}>
+          <Ionicons name="git-branch" size={14} color={Colors.accent} />
+          <Text style={styles.noticeText}>{lastAdaptation.reason}</Text>
+        </View>
+      )}
+
+      {progress.dueToday.length > 0 ? (
+        <View style={styles.tasks}>
+          <Text style={styles.tasksTitle}>Today</Text>
+          {progress.dueToday.map(({ task, status }) => (
+            <TouchableOpacity
+              key={task.id}
+              style={styles.task}
+              disabled={status === 'done' || !onStartTask}
+              onPress={() => onStartTask?.(task)}
+            >
+              <Ionicons
+                name={STATUS_ICONS[status]}
+                size={18}
+                color={status === 'done' ? Colors.success : Colors[task.pillar as keyof typeof Colors] || Colors.accent}
+              />
+              <Text style={[styles.taskText, status === 'done' && styles.taskDone]} numberOfLines={2}>
+                {task.title} • {task.minutes} min
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : progress.nextTask && (
+        <Text style={styles.nextTask}>
+          Next: {progress.nextTask.title} • {formatDay(progress.nextTask.day)}
+        </Text>
+      )}
+
+      {onAbandon && (
+        <TouchableOpacity style={styles.abandonButton} onPress={() => onAbandon(plan)}>
+          <Text style={styles.abandonText}>End plan</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginVertical: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  icon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  meta: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  percent: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.background,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  progressText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 6,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginLeft: 6,
+  },
+  tasks: {
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  tasksTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 6,
+  },
+  task: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  taskText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.text,
+    marginLeft: 8,
+  },
+  taskDone: {
+    color: Colors.textSecondary,
+    textDecorationLine: 'line-through',
+  },
+  nextTask: {
+    fontSize: 13,
+    color: Colors.text,
+    marginTop: 12,
+  },
+  abandonButton: {
+    alignSelf: 'flex-end',
+    marginTop: 10,
+  },
+  abandonText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+});
+
+export default CoachingPlanCard;
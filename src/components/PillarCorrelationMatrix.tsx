@@ -1,80 +1,216 @@
 // src/components/PillarCorrelationMatrix.tsx - CORRELATION HEATMAP BETWEEN PILLARS
-import React from 'react';
-import { View, Text, StyleSheet, Dimensions } from 'react-native';
-import { VictoryChart, VictoryScatter, VictoryAxis } from 'victory-native';
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Dimensions, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { VictoryChart, VictoryScatter, VictoryAxis, VictoryContainer } from 'victory-native';
+import { useAppDataSelectors } from '../context/AppDataContext';
+import AdvancedAnalyticsEngine, {
+  CorrelationCell,
+  CorrelationConfidence,
+  CorrelationVariable,
+  TimeRange
+} from '../utils/AdvancedAnalyticsEngine';
 
 const { width } = Dimensions.get('window');
 
-interface CorrelationData {
-  pillar1: string;
-  pillar2: string;
-  correlation: number;
-  color: string;
+const LABEL_WIDTH = 52;
+const CELL_SIZE = Math.floor((width - 80 - LABEL_WIDTH) / 9);
+
+const SHORT_LABELS: Record<CorrelationVariable, string> = {
+  body: 'BOD',
+  mind: 'MND',
+  heart: 'HRT',
+  spirit: 'SPR',
+  diet: 'DIE',
+  mood: 'MOD',
+  energy: 'ENR',
+  stress: 'STR',
+  sleep: 'SLP'
+};
+
+// Pillars are measured in practice minutes, check-ins on their 1-5 scale
+const UNITS: Record<CorrelationVariable, string> = {
+  body: 'min',
+  mind: 'min',
+  heart: 'min',
+  spirit: 'min',
+  diet: 'min',
+  mood: '1-5',
+  energy: '1-5',
+  stress: '1-5',
+  sleep: '1-5'
+};
+
+const CONFIDENCE_LABELS: Record<CorrelationConfidence, string> = {
+  high: 'High confidence (p < 0.01)',
+  medium: 'Moderate confidence (p < 0.05)',
+  low: 'Low confidence - could be chance'
+};
+
+const cellColor = (cell: CorrelationCell): string => {
+  if (cell.z === null) return '#F3F4F6';
+  const alpha = Math.round(Math.min(1, 0.15 + Math.abs(cell.z) * 0.85) * 255).toString(16).padStart(2, '0');
+  return `${cell.z >= 0 ? '#10B981' : '#EF4444'}${alpha}`;
+};
+
+const describeStrength = (r: number): string => {
+  const magnitude = Math.abs(r);
+  const strength = magnitude >= 0.6 ? 'Strong' : magnitude >= 0.3 ? 'Moderate' : 'Weak';
+  return `${strength} ${r >= 0 ? 'positive' : 'negative'}`;
+};
+
+interface PillarCorrelationMatrixProps {
+  timeRange?: TimeRange;
 }
 
-const PillarCorrelationMatrix: React.FC = () => {
-  // Sample correlation data between pillars
-  const correlationData: CorrelationData[] = [
-    { pillar1: 'BODY', pillar2: 'MIND', correlation: 0.85, color: '#10B981' },
-    { pillar1: 'BODY', pillar2: 'HEART', correlation: 0.72, color: '#3B82F6' },
-    { pillar1: 'BODY', pillar2: 'SPIRIT', correlation: 0.68, color: '#8B5CF6' },
-    { pillar1: 'BODY', pillar2: 'DIET', correlation: 0.91, color: '#EF4444' },
-    { pillar1: 'MIND', pillar2: 'HEART', correlation: 0.78, color: '#EC4899' },
-    { pillar1: 'MIND', pillar2: 'SPIRIT', correlation: 0.82, color: '#F59E0B' },
-    { pillar1: 'MIND', pillar2: 'DIET', correlation: 0.65, color: '#06B6D4' },
-    { pillar1: 'HEART', pillar2: 'SPIRIT', correlation: 0.88, color: '#84CC16' },
-    { pillar1: 'HEART', pillar2: 'DIET', correlation: 0.59, color: '#F97316' },
-    { pillar1: 'SPIRIT', pillar2: 'DIET', correlation: 0.71, color: '#6366F1' },
-  ];
-
-  const chartData = correlationData.map((item, index) => ({
-    x: index + 1,
-    y: item.correlation,
-    fill: item.color,
-    size: item.correlation * 100,
-    label: `${item.pillar1}-${item.pillar2}`,
-  }));
+const PillarCorrelationMatrix: React.FC<PillarCorrelationMatrixProps> = ({ timeRange = '30d' }) => {
+  const { sessions, checkIns } = useAppDataSelectors();
+  const [lag, setLag] = useState(0);
+  const [selectedCell, setSelectedCell] = useState<CorrelationCell | null>(null);
+
+  const matrix = useMemo(
+    () => AdvancedAnalyticsEngine.getInstance().generatePillarCorrelationData(sessions, checkIns, timeRange, lag),
+    [sessions, checkIns, timeRange, lag]
+  );
+
+  // Rows and columns follow the engine's cell order
+  const variables = useMemo(() => {
+    const keys: CorrelationVariable[] = [];
+    matrix.data.forEach(cell => {
+      if (!keys.includes(cell.xKey)) keys.push(cell.xKey);
+    });
+    return keys;
+  }, [matrix]);
+
+  const cellFor = (xKey: CorrelationVariable, yKey: CorrelationVariable) =>
+    matrix.data.find(cell => cell.xKey === xKey && cell.yKey === yKey);
+
+  const isTrivial = (cell: CorrelationCell) => cell.xKey === cell.yKey && cell.lag === 0;
+
+  const renderCell = (cell: CorrelationCell) => (
+    <TouchableOpacity
+      key={`${cell.xKey}-${cell.yKey}`}
+      disabled={cell.z === null || isTrivial(cell)}
+      onPress={() => setSelectedCell(cell)}
+      style={[
+        styles.cell,
+        { backgroundColor: isTrivial(cell) ? '#E5E7EB' : cellColor(cell) },
+        cell.confidence === 'high' && styles.cellHigh,
+        cell.confidence === 'medium' && styles.cellMedium
+      ]}
+    >
+      <Text style={[styles.cellText, cell.confidence === 'low' && styles.cellTextLow]}>
+        {isTrivial(cell) ? '' : cell.z === null ? '·' : cell.z.toFixed(1).replace('0.', '.')}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderDetail = () => {
+    if (!selectedCell || selectedCell.z === null) return null;
+    const { xKey, yKey, lag: cellLag, z, sampleSize, pValue, confidence, points } = selectedCell;
+
+    return (
+      <Modal visible animationType="slide" transparent onRequestClose={() => setSelectedCell(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {cellLag > 0
+                  ? `${selectedCell.x} today → ${selectedCell.y} tomorrow`
+                  : `${selectedCell.x} ↔ ${selectedCell.y}`}
+              </Text>
+              <TouchableOpacity onPress={() => setSelectedCell(null)}>
+                <Ionicons name="close" size={24} color="#6B7280" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView>
+              <VictoryChart
+                width={width - 80}
+                height={240}
+                padding={{ left: 50, top: 20, right: 20, bottom: 50 }}
+                domainPadding={12}
+                containerComponent={<VictoryContainer responsive={false} />}
+              >
+                <VictoryAxis label={`${selectedCell.x} (${UNITS[xKey]})`} style={{ axisLabel: { padding: 32, fontSize: 12 } }} />
+                <VictoryAxis dependentAxis label={`${selectedCell.y} (${UNITS[yKey]})`} style={{ axisLabel: { padding: 36, fontSize: 12 } }} />
+                <VictoryScatter
+                  data={points}
+                  size={5}
+                  style={{ data: { fill: z >= 0 ? '#10B981' : '#EF4444', opacity: 0.7 } }}
+                />
+              </VictoryChart>
+
+              <Text style={styles.detailHeadline}>{describeStrength(z)} correlation (r = {z.toFixed(2)})</Text>
+              <Text style={styles.detailText}>Based on {sampleSize} days · p = {pValue}</Text>
+              {confidence && <Text style={styles.detailText}>{CONFIDENCE_LABELS[confidence]}</Text>}
+              <Text style={styles.detailNote}>
+                Each dot is one day. Correlation shows the two tend to move together, not that one causes the other.
+              </Text>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
 
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Pillar Correlation Analysis</Text>
-      <Text style={styles.subtitle}>How your 5 pillars influence each other</Text>
-      
-      <VictoryChart
-        width={width - 40}
-        height={200}
-        padding={{ left: 60, top: 20, right: 40, bottom: 60 }}
-      >
-        <VictoryAxis dependentAxis tickFormat={() => ''} />
-        <VictoryAxis tickFormat={() => ''} />
-        
-        <VictoryScatter
-          data={chartData}
-          style={{
-            data: { 
-              fill: ({ datum }) => datum.fill,
-              opacity: 0.8,
-            }
-          }}
-          size={({ datum }) => datum.size / 10}
-          animate={{
-            duration: 1000,
-            onLoad: { duration: 500 }
-          }}
-        />
-      </VictoryChart>
-      
+      <Text style={styles.subtitle}>How your pillars and check-ins move together, day by day</Text>
+
+      <View style={styles.lagSelector}>
+        {[{ value: 0, label: 'Same day' }, { value: 1, label: 'Next day' }].map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.lagButton, lag === option.value && styles.lagButtonActive]}
+            onPress={() => setLag(option.value)}
+          >
+            <Text style={[styles.lagText, lag === option.value && styles.lagTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {matrix.isEmpty ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="hourglass-outline" size={28} color="#6B7280" />
+          <Text style={styles.emptyText}>{matrix.emptyMessage}</Text>
+        </View>
+      ) : (
+        <View>
+          <View style={styles.row}>
+            <View style={{ width: LABEL_WIDTH }} />
+            {variables.map(yKey => (
+              <Text key={yKey} style={styles.columnLabel}>{SHORT_LABELS[yKey]}</Text>
+            ))}
+          </View>
+          {variables.map(xKey => (
+            <View key={xKey} style={styles.row}>
+              <Text style={styles.rowLabel}>{SHORT_LABELS[xKey]}</Text>
+              {variables.map(yKey => {
+                const cell = cellFor(xKey, yKey);
+                return cell ? renderCell(cell) : null;
+              })}
+            </View>
+          ))}
+          {lag > 0 && <Text style={styles.axisHint}>Rows are today, columns are the following day</Text>}
+        </View>
+      )}
+
       <View style={styles.legendContainer}>
-        <Text style={styles.legendTitle}>Correlation Strength:</Text>
+        <Text style={styles.legendTitle}>Reading the matrix:</Text>
         <View style={styles.legendRow}>
           <View style={[styles.legendDot, { backgroundColor: '#10B981' }]} />
-          <Text style={styles.legendText}>Strong (0.8+)</Text>
-          <View style={[styles.legendDot, { backgroundColor: '#3B82F6' }]} />
-          <Text style={styles.legendText}>Moderate (0.6-0.8)</Text>
-          <View style={[styles.legendDot, { backgroundColor: '#6B7280' }]} />
-          <Text style={styles.legendText}>Weak (&lt;0.6)</Text>
+          <Text style={styles.legendText}>Move together</Text>
+          <View style={[styles.legendDot, { backgroundColor: '#EF4444' }]} />
+          <Text style={styles.legendText}>Move apart</Text>
+          <View style={[styles.legendDot, { backgroundColor: '#F3F4F6' }]} />
+          <Text style={styles.legendText}>Not enough data</Text>
         </View>
+        <Text style={styles.legendText}>Bold border: high confidence · thin border: moderate · faded: low. Tap a cell for details.</Text>
       </View>
+
+      {renderDetail()}
     </View>
   );
 };
@@ -100,7 +236,86 @@ const styles = StyleSheet.create({
   subtitle: {
     fontSize: 14,
     color: '#6B7280',
-    marginBottom: 20,
+    marginBottom: 16,
+  },
+  lagSelector: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  lagButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    marginRight: 8,
+  },
+  lagButtonActive: {
+    backgroundColor: '#3B82F6',
+  },
+  lagText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  lagTextActive: {
+    color: '#FFFFFF',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowLabel: {
+    width: LABEL_WIDTH,
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  columnLabel: {
+    width: CELL_SIZE,
+    fontSize: 8,
+    fontWeight: '600',
+    color: '#1F2937',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  cell: {
+    width: CELL_SIZE - 2,
+    height: CELL_SIZE - 2,
+    margin: 1,
+    borderRadius: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cellHigh: {
+    borderWidth: 2,
+    borderColor: '#1F2937',
+  },
+  cellMedium: {
+    borderWidth: 1,
+    borderColor: '#6B7280',
+  },
+  cellText: {
+    fontSize: 9,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  cellTextLow: {
+    color: '#9CA3AF',
+  },
+  axisHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
   },
   legendContainer: {
     marginTop: 16,
@@ -118,6 +333,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     flexWrap: 'wrap',
+    marginBottom: 8,
   },
   legendDot: {
     width: 12,
@@ -131,6 +347,46 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginRight: 12,
   },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    flex: 1,
+  },
+  detailHeadline: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginTop: 8,
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  detailNote: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 12,
+  },
 });
 
 export default PillarCorrelationMatrix;
@@ -1,7 +1,7 @@
 import React from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import pillarIntelligence from '../services/pillarIntelligence';
+import { getPillarGuidance } from '../services/recommendationRules';
 
 interface PillarDetailModalProps {
   visible: boolean;
@@ -16,7 +16,7 @@ const PillarDetailModal: React.FC<PillarDetailModalProps> = ({
   pillar, 
   neurogenesisOptimal 
 }) => {
-  const guidance = pillarIntelligence.getPillarGuidance(pillar);
+  const guidance = getPillarGuidance(pillar);
   
   const getPillarColor = (pillarName: string): string => {
     const colors: { [key: string]: string } = {
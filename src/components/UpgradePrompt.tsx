@@ -0,0 +1,195 @@
+// src/components/UpgradePrompt.tsx - LOCKED FEATURE AND GRACE PERIOD PROMPTS
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SubscriptionService } from '../services/SubscriptionService';
+import { ENTITLEMENT_RULES, EntitlementCheck, FREE_PLAN_ID } from '../utils/entitlements';
+
+const Colors = {
+  background: '#F8FAFC',
+  surface: '#FFFFFF',
+  text: '#1F2937',
+  textSecondary: '#6B7280',
+  accent: '#3B82F6',
+  warning: '#F59E0B',
+  spirit: '#8B5CF6',
+};
+
+interface UpgradePromptProps {
+  check: EntitlementCheck;
+  compact?: boolean; // an inline row instead of a full panel
+  onDismiss?: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const UpgradePrompt: React.FC<UpgradePromptProps> = ({ check, compact = false, onDismiss }) => {
+  const [purchasing, setPurchasing] = useState(false);
+  const subscriptions = SubscriptionService.getInstance();
+  const { access } = check;
+  const inGrace = access.status === 'grace';
+
+  // Renew the lapsed plan where there is one, otherwise offer the recommended plan
+  const plans = subscriptions.getSubscriptionPlans();
+  const plan = plans.find(candidate => (inGrace || access.status === 'expired') && candidate.id === access.planId) ||
+    plans.find(candidate => candidate.recommended && candidate.id !== FREE_PLAN_ID);
+  const offer = plan && !inGrace ? subscriptions.getOfferSummary(plan.id) : null;
+  const trialDays = offer && plan?.trialDays;
+
+  const upgrade = async () => {
+    if (!plan) return;
+    setPurchasing(true);
+    try {
+      const result = await subscriptions.purchaseSubscription(plan.id);
+      if (result.status === 'purchased') {
+        const trial = result.subscription?.status === 'trial';
+        Alert.alert('Welcome to Premium', `${plan.name} is ${trial ? 'on a free trial' : 'active'}. Everything is unlocked.`);
+      } else if (result.status === 'failed') {
+        Alert.alert('Purchase Failed', result.error || 'Your purchase could not be completed. You have not been charged.');
+      }
+    } finally {
+      setPurchasing(false);
+    }
+  };
+
+  const action = plan && (
+    <TouchableOpacity style={styles.upgradeButton} onPress={upgrade} disabled={purchasing}>
+      {purchasing ? (
+        <ActivityIndicator size="small" color="#FFFFFF" />
+      ) : (
+        <Text style={styles.upgradeText}>
+          {inGrace ? 'Renew' : trialDays ? `Try ${trialDays} Days Free` : 'Upgrade'}
+          {trialDays ? '' : ` · ${subscriptions.getFormattedPrice(plan.id)}`}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  if (inGrace) {
+    if (!compact) return null;
+    return (
+      <View style={[styles.banner, styles.graceBanner]}>
+        <Ionicons name="time" size={18} color={Colors.warning} />
+        <Text style={styles.bannerText}>
+          Your Premium ended {access.expiresAt ? formatDate(access.expiresAt) : ''}. You keep full access until{' '}
+          {access.graceEndsAt ? formatDate(access.graceEndsAt) : 'soon'}.
+        </Text>
+        {action}
+      </View>
+    );
+  }
+
+  if (check.allowed) return null;
+
+  if (compact) {
+    return (
+      <View style={styles.banner}>
+        <Ionicons name="lock-closed" size={18} color={Colors.spirit} />
+        <Text style={styles.bannerText}>{check.reason}</Text>
+        {action}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.lockIcon}>
+        <Ionicons name="lock-closed" size={28} color="#FFFFFF" />
+      </View>
+      <Text style={styles.title}>Unlock {ENTITLEMENT_RULES[check.feature].label}</Text>
+      <Text style={styles.reason}>{check.reason}</Text>
+      {action}
+      {offer && <Text style={styles.offer}>{offer}. Cancel anytime.</Text>}
+      {onDismiss && (
+        <TouchableOpacity style={styles.dismissButton} onPress={onDismiss}>
+          <Text style={styles.dismissText}>Not Now</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 24,
+    margin: 20,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+  lockIcon: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: Colors.spirit,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  reason: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  upgradeButton: {
+    backgroundColor: Colors.spirit,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+    minWidth: 120,
+  },
+  upgradeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  offer: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  dismissButton: {
+    marginTop: 12,
+    padding: 8,
+  },
+  dismissText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.spirit + '15',
+    borderRadius: 12,
+    padding: 12,
+    marginVertical: 8,
+    gap: 10,
+  },
+  graceBanner: {
+    backgroundColor: Colors.warning + '20',
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.text,
+    lineHeight: 18,
+  },
+});
+
+export default UpgradePrompt;
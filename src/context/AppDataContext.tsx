@@ -1,6 +1,61 @@
 // src/context/AppDataContext.tsx - COMPLETE REAL DATA SYSTEM
-import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useRef, useMemo, useState } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import PersistenceService, { STORAGE_KEYS, normalizeSession } from '../services/PersistenceService';
+import SyncEngine, { AppliedChange, SyncSnapshot, SyncStatus, IDLE_SYNC_STATUS, SYNC_SINGLETON_ID, applySyncChanges } from '../services/SyncEngine';
+import { calculatePillarScores, calculateOverallScore, pillarScoresEqual } from '../utils/pillarScoring';
+import StreakEngine, { StreakSettings, StreakSummary } from '../services/StreakEngine';
+import AchievementEngine, { AchievementProgress } from '../services/AchievementEngine';
+import EventBus from '../services/EventBus';
+import { HealthHistoryStore } from '../services/HealthHistoryStore';
+import { MLPatternRecognition, Pattern, patternToInsight } from '../services/MLPatternRecognition';
+import AdherencePredictor from '../services/AdherencePredictor';
+import NotificationOrchestrator from '../services/NotificationOrchestrator';
+import { registerEventSubscribers } from '../services/eventSubscribers';
+import { DAY_MS, isPillar, toDayKey } from '../utils/sessionAnalytics';
+import {
+  checkInId,
+  findCheckIn,
+  getLinkedCheckIn,
+  linkCheckIn,
+  mergeCheckIns,
+  getDailyCheckInAverages,
+  getWeeklyCheckInAverages
+} from '../utils/checkInAnalytics';
+import {
+  getDailyNutrition,
+  getNutritionHistory,
+  getMealWellbeingHistory,
+  queryMeals,
+  mergeMeals,
+  MealQuery
+} from '../utils/nutritionAnalytics';
+import {
+  feedbackScore,
+  getFeedbackHistory,
+  isOpenFeedback,
+  latestFeedback,
+  linkedSessions,
+  mergeFeedback,
+  DEFAULT_SNOOZE_DAYS
+} from '../utils/recommendationFeedback';
+import type { RecommendationCategory } from '../services/RecommendationEngine';
+import {
+  evaluateCoachingPlan,
+  generateCoachingPlan,
+  mergeCoachingPlans,
+  refreshCoachingPlans,
+  CoachingPlanProgress
+} from '../utils/coachingPlans';
+import {
+  getLatestMeasurement,
+  getMeasurementHistory,
+  getMeasurements,
+  mergeMeasurements,
+  preferredUnit,
+  validateMeasurementInput,
+  MEASUREMENT_TYPES
+} from '../utils/measurements';
 
 // Enhanced Types
 export interface UserProfile {
@@ -50,7 +105,8 @@ export interface Achievement {
   pillar: string;
   rarity: 'common' | 'rare' | 'epic' | 'legendary';
   unlockedDate: string;
-  progress?: number; // for multi-step achievements
+  progress?: number; // 0-100, for multi-step achievements
+  ruleId?: string; // AchievementEngine rule that unlocked it
   isNew?: boolean;
 }
 
@@ -74,12 +130,171 @@ export interface AIInsight {
   isRead?: boolean;
 }
 
+export type CheckInSlot = 'morning' | 'evening';
+
+export interface CheckIn {
+  id: string; // checkin_<day>_<slot> - one per slot per day
+  day: string; // yyyy-MM-dd in the streak home timezone
+  slot: CheckInSlot;
+  mood: number; // 1-5
+  energy: number; // 1-5
+  stress: number; // 1-5
+  sleep?: number; // 1-5, evening only
+  gratitude: string[];
+  intention?: string; // morning
+  reflection?: string; // evening, on the morning intention
+  intentionFulfilled?: number; // 1-5, evening rating of the morning intention
+  pillarFocus: string[];
+  linkedCheckInId?: string; // the other slot of the same day
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CheckInInput = Omit<CheckIn, 'id' | 'day' | 'linkedCheckInId' | 'createdAt' | 'updatedAt'>;
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+export type MealMood = 'energized' | 'satisfied' | 'heavy' | 'light' | 'bloated';
+export type DigestionRating = 'excellent' | 'good' | 'okay' | 'poor';
+
+export interface MealItem {
+  foodId: string; // FOOD_DATABASE id - nutrients are always looked up, never copied
+  servings: number;
+}
+
+export interface MealEntry {
+  id: string;
+  day: string; // yyyy-MM-dd in the streak home timezone
+  date: string;
+  mealType: MealType;
+  items: MealItem[];
+  mood?: MealMood; // how the user felt after eating
+  digestion?: DigestionRating;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MealInput = Pick<MealEntry, 'mealType' | 'items' | 'mood' | 'digestion' | 'notes'>;
+
+export type MeasurementType =
+  | 'weight'
+  | 'height'
+  | 'waist'
+  | 'bloodPressure'
+  | 'restingHeartRate'
+  | 'sleep'
+  | 'bloodOxygen'
+  | 'bodyTemperature'
+  | 'respiratoryRate';
+export type MeasurementUnit = 'kg' | 'lb' | 'cm' | 'in' | 'mmHg' | 'bpm' | 'h' | '%' | '°C' | '°F' | 'breaths/min';
+
+export interface Measurement {
+  id: string;
+  type: MeasurementType;
+  day: string; // yyyy-MM-dd in the streak home timezone
+  date: string; // when it was taken
+  value: number; // in `unit`; systolic for blood pressure
+  secondaryValue?: number; // diastolic for blood pressure
+  unit: MeasurementUnit; // as entered - see utils/measurements for conversions
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MeasurementInput = Pick<Measurement, 'type' | 'value' | 'secondaryValue' | 'unit' | 'notes'>;
+
+export type RecommendationFeedbackStatus = 'accepted' | 'snoozed' | 'dismissed' | 'completed';
+export type DismissReason = 'not-relevant' | 'too-hard' | 'no-time' | 'already-doing' | 'did-not-help';
+
+export interface RecommendationFeedback {
+  id: string; // feedback_<recommendationId>_<timestamp> - one per time the advice is taken up or turned down
+  recommendationId: string; // stable engine id, <ruleId>_<pillar>
+  ruleId: string;
+  title: string;
+  pillar: string;
+  category: RecommendationCategory;
+  status: RecommendationFeedbackStatus;
+  reason?: DismissReason; // dismissed only
+  snoozedUntil?: string;
+  baselineScore: number; // pillar score (overall for general advice) when first acted on
+  outcomeScore?: number; // the same score when completed
+  sessionIds: string[]; // sessions logged while it was in progress, captured on completion
+  acceptedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What feedback needs to know about the recommendation - see toFeedbackTarget
+export type RecommendationFeedbackTarget = Pick<RecommendationFeedback, 'recommendationId' | 'ruleId' | 'title' | 'pillar' | 'category'>;
+
+export interface RecommendationFeedbackOptions {
+  reason?: DismissReason;
+  snoozeDays?: number;
+}
+
+export type PlanSessionType = Exclude<SessionData['type'], 'checkin'>;
+
+export interface CoachingPlanTask {
+  id: string; // <planId>_<original day>_<pillar>
+  day: string; // yyyy-MM-dd, device local
+  week: number; // 1-based plan week `day` falls in
+  pillar: string;
+  sessionType: PlanSessionType; // the kind of session that fits best; any session for the pillar counts
+  minutes: number;
+  title: string;
+  rescheduledFrom?: string; // the day it was originally planned for
+  skipped?: boolean; // dropped when the plan adapted
+}
+
+export interface CoachingPlanAdaptation {
+  day: string;
+  reason: string;
+  rescheduled: number;
+  dropped: number;
+  lightened: number;
+}
+
+export type CoachingPlanStatus = 'active' | 'completed' | 'abandoned';
+
+export interface CoachingPlan {
+  id: string;
+  title: string;
+  summary: string; // the outcome the coaching session promised
+  pillars: string[];
+  recommendationId?: string;
+  startDay: string;
+  endDay: string; // last day, moves out when the plan adapts
+  weeks: number;
+  status: CoachingPlanStatus;
+  tasks: CoachingPlanTask[];
+  adaptations: CoachingPlanAdaptation[];
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What a plan is generated from - a coaching session from AICoachScreen
+export interface CoachingPlanSource {
+  title: string;
+  pillars: string[];
+  actionSteps: string[];
+  expectedOutcome: string;
+  estimatedDuration: string;
+  recommendationId?: string;
+}
+
 export interface AppState {
   userProfile: UserProfile | null;
   pillarScores: PillarProgress;
   sessions: SessionData[];
   achievements: Achievement[];
   aiInsights: AIInsight[];
+  checkIns: CheckIn[];
+  meals: MealEntry[];
+  measurements: Measurement[];
+  recommendationFeedback: RecommendationFeedback[];
+  coachingPlans: CoachingPlan[];
   dailyGoals: {
     sessionTarget: number;
     minutesTarget: number;
@@ -89,10 +304,13 @@ export interface AppState {
     current: number;
     longest: number;
     todayCompleted: boolean;
+    pillars: Record<string, { current: number; longest: number }>;
+    freezeTokens: number;
   };
   isLoading: boolean;
   isInitialized: boolean;
   lastSyncDate: string | null;
+  syncStatus: SyncStatus;
 }
 
 type AppAction = 
@@ -103,8 +321,17 @@ type AppAction =
   | { type: 'ADD_ACHIEVEMENT'; payload: Achievement }
   | { type: 'ADD_AI_INSIGHT'; payload: AIInsight }
   | { type: 'MARK_INSIGHT_READ'; payload: string }
-  | { type: 'UPDATE_STREAK'; payload: number }
+  | { type: 'UPSERT_CHECK_INS'; payload: CheckIn[] }
+  | { type: 'UPSERT_MEALS'; payload: MealEntry[] }
+  | { type: 'REMOVE_MEAL'; payload: string }
+  | { type: 'UPSERT_MEASUREMENTS'; payload: Measurement[] }
+  | { type: 'REMOVE_MEASUREMENT'; payload: string }
+  | { type: 'UPSERT_RECOMMENDATION_FEEDBACK'; payload: RecommendationFeedback[] }
+  | { type: 'UPSERT_COACHING_PLANS'; payload: CoachingPlan[] }
+  | { type: 'UPDATE_STREAK'; payload: StreakSummary }
   | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SYNC_STATUS'; payload: SyncStatus }
+  | { type: 'SYNC_MERGE'; payload: { changes: AppliedChange[]; streaks: StreakSummary } }
   | { type: 'SYNC_COMPLETE'; payload: string };
 
 // Initial State
@@ -114,6 +341,11 @@ const initialState: AppState = {
   sessions: [],
   achievements: [],
   aiInsights: [],
+  checkIns: [],
+  meals: [],
+  measurements: [],
+  recommendationFeedback: [],
+  coachingPlans: [],
   dailyGoals: {
     sessionTarget: 3,
     minutesTarget: 30,
@@ -122,21 +354,14 @@ const initialState: AppState = {
   streakData: {
     current: 0,
     longest: 0,
-    todayCompleted: false
+    todayCompleted: false,
+    pillars: {},
+    freezeTokens: 0
   },
   isLoading: true,
   isInitialized: false,
-  lastSyncDate: null
-};
-
-// Storage Keys
-const STORAGE_KEYS = {
-  USER_PROFILE: 'user_profile',
-  SESSIONS: 'sessions',
-  ACHIEVEMENTS: 'achievements',
-  PILLAR_SCORES: 'pillar_scores',
-  AI_INSIGHTS: 'ai_insights',
-  APP_STATE: 'app_state'
+  lastSyncDate: null,
+  syncStatus: IDLE_SYNC_STATUS
 };
 
 // Reducer
@@ -168,10 +393,6 @@ function appReducer(state: AppState, action: AppAction): AppState {
         dailyGoals: {
           ...state.dailyGoals,
           completed: todayCompleted
-        },
-        streakData: {
-          ...state.streakData,
-          todayCompleted: todayCompleted
         }
       };
     
@@ -182,6 +403,7 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
     
     case 'ADD_ACHIEVEMENT':
+      if (AchievementEngine.isUnlocked(state.achievements, action.payload)) return state;
       return {
         ...state,
         achievements: [{ ...action.payload, isNew: true }, ...state.achievements]
@@ -201,19 +423,67 @@ function appReducer(state: AppState, action: AppAction): AppState {
         )
       };
     
+    case 'UPSERT_CHECK_INS':
+      return {
+        ...state,
+        checkIns: mergeCheckIns(state.checkIns, action.payload)
+      };
+    
+    case 'UPSERT_MEALS':
+      return {
+        ...state,
+        meals: mergeMeals(state.meals, action.payload)
+      };
+    
+    case 'REMOVE_MEAL':
+      return {
+        ...state,
+        meals: state.meals.filter(meal => meal.id !== action.payload)
+      };
+    
+    case 'UPSERT_MEASUREMENTS':
+      return {
+        ...state,
+        measurements: mergeMeasurements(state.measurements, action.payload)
+      };
+    
+    case 'REMOVE_MEASUREMENT':
+      return {
+        ...state,
+        measurements: state.measurements.filter(measurement => measurement.id !== action.payload)
+      };
+    
+    case 'UPSERT_RECOMMENDATION_FEEDBACK':
+      return {
+        ...state,
+        recommendationFeedback: mergeFeedback(state.recommendationFeedback, action.payload)
+      };
+    
+    case 'UPSERT_COACHING_PLANS':
+      return {
+        ...state,
+        coachingPlans: mergeCoachingPlans(state.coachingPlans, action.payload)
+      };
+    
     case 'UPDATE_STREAK':
       return {
         ...state,
-        streakData: {
-          ...state.streakData,
-          current: action.payload,
-          longest: Math.max(state.streakData.longest, action.payload)
-        }
+        streakData: toStreakData(action.payload)
       };
     
     case 'SET_LOADING':
       return { ...state, isLoading: action.payload };
     
+    case 'SYNC_STATUS':
+      return { ...state, syncStatus: action.payload };
+    
+    case 'SYNC_MERGE':
+      return {
+        ...state,
+        ...mergeSyncChanges(state, action.payload.changes, action.payload.streaks),
+        streakData: toStreakData(action.payload.streaks)
+      };
+    
     case 'SYNC_COMPLETE':
       return { ...state, lastSyncDate: action.payload };
     
@@ -224,8 +494,8 @@ function appReducer(state: AppState, action: AppAction): AppState {
 
 // Helper Functions
 const checkTodayGoalCompleted = (sessions: SessionData[], goals: any): boolean => {
-  const today = new Date().toDateString();
-  const todaySessions = sessions.filter(s => new Date(s.date).toDateString() === today);
+  const today = toDayKey(new Date());
+  const todaySessions = sessions.filter(s => toDayKey(s.date) === today);
   
   const sessionCount = todaySessions.length;
   const totalMinutes = todaySessions.reduce((sum, s) => sum + s.duration, 0);
@@ -233,18 +503,115 @@ const checkTodayGoalCompleted = (sessions: SessionData[], goals: any): boolean =
   return sessionCount >= goals.sessionTarget && totalMinutes >= goals.minutesTarget;
 };
 
+const toStreakData = (summary: StreakSummary): AppState['streakData'] => ({
+  current: summary.overall.current,
+  longest: summary.overall.longest,
+  todayCompleted: summary.overall.todayCompleted,
+  pillars: Object.entries(summary.pillars).reduce((acc, [pillar, stats]) => {
+    acc[pillar] = { current: stats.current, longest: stats.longest };
+    return acc;
+  }, {} as AppState['streakData']['pillars']),
+  freezeTokens: summary.freezeTokens
+});
+
+const withStreak = (profile: UserProfile, streaks: StreakSummary): UserProfile => ({
+  ...profile,
+  streak: streaks.overall.current,
+  longestStreak: Math.max(profile.longestStreak || 0, streaks.overall.longest)
+});
+
+const snapshotOf = (state: AppState): SyncSnapshot => ({
+  userProfile: state.userProfile,
+  pillarScores: state.pillarScores,
+  sessions: state.sessions,
+  achievements: state.achievements,
+  aiInsights: state.aiInsights,
+  checkIns: state.checkIns,
+  meals: state.meals,
+  measurements: state.measurements,
+  recommendationFeedback: state.recommendationFeedback,
+  coachingPlans: state.coachingPlans
+});
+
+// Synced changes applied on top of the current data, with scores and streaks to match
+const mergeSyncChanges = (state: AppState, changes: AppliedChange[], streaks: StreakSummary): SyncSnapshot => {
+  const merged = applySyncChanges(snapshotOf(state), changes);
+  const userProfile = merged.userProfile || state.userProfile;
+  return {
+    ...merged,
+    userProfile: userProfile ? withStreak(userProfile, streaks) : null,
+    pillarScores: calculatePillarScores(merged.sessions)
+  };
+};
+
+// Check-ins count as a short session so they feed streaks and pillar scores
+const CHECK_IN_MOODS: SessionData['mood'][] = ['low', 'low', 'okay', 'good', 'excellent'];
+
+const toCheckInSession = (checkIn: CheckIn, date: Date): Omit<SessionData, 'id'> => {
+  const mood = Math.min(5, Math.max(1, Math.round(checkIn.mood)));
+  return {
+    pillar: checkIn.pillarFocus.find(isPillar) || 'mind',
+    type: 'checkin',
+    duration: 2,
+    date: date.toISOString(),
+    score: mood * 20,
+    mood: CHECK_IN_MOODS[mood - 1],
+    notes: `${checkIn.slot === 'morning' ? 'Morning' : 'Evening'} check-in`
+  };
+};
+
+const publishStreakChange = (previous: number, streaks: StreakSummary) => {
+  const { current, longest } = streaks.overall;
+  if (current === previous) return;
+
+  const events = EventBus.getInstance();
+  events.publish('streak.updated', { current, previous, longest });
+  if (current < previous) {
+    events.publish('streak.broken', { previous, longest });
+  }
+};
+
+const publishPlanChanges = (plans: CoachingPlan[]) => {
+  const events = EventBus.getInstance();
+  plans.forEach(plan => {
+    if (plan.status === 'completed') {
+      events.publish('plan.completed', { plan });
+    } else if (plan.adaptations.length > 0) {
+      events.publish('plan.adapted', { plan, adaptation: plan.adaptations[plan.adaptations.length - 1] });
+    }
+  });
+};
+
 // Context
 interface AppDataContextType {
   state: AppState;
   actions: {
     updateUserProfile: (updates: Partial<UserProfile>) => Promise<void>;
-    addSession: (session: Omit<SessionData, 'id'>) => Promise<void>;
+    addSession: (session: Omit<SessionData, 'id'>) => Promise<SessionData>;
     updatePillarScores: (scores: Partial<PillarProgress>) => Promise<void>;
     addAchievement: (achievement: Omit<Achievement, 'id' | 'unlockedDate'>) => Promise<void>;
     addAIInsight: (insight: Omit<AIInsight, 'id' | 'dateGenerated'>) => Promise<void>;
     markInsightRead: (insightId: string) => Promise<void>;
+    saveCheckIn: (checkIn: CheckInInput, date?: Date) => Promise<CheckIn>;
+    updateCheckIn: (checkInId: string, updates: Partial<Omit<CheckInInput, 'slot'>>) => Promise<void>;
+    logMeal: (meal: MealInput, date?: Date) => Promise<MealEntry>;
+    addFoodToMeal: (foodId: string, mealType: MealType, servings?: number, date?: Date) => Promise<MealEntry>;
+    updateMeal: (mealId: string, updates: Partial<MealInput>) => Promise<void>;
+    deleteMeal: (mealId: string) => Promise<void>;
+    logMeasurement: (measurement: MeasurementInput, date?: Date) => Promise<Measurement | null>;
+    updateMeasurement: (measurementId: string, updates: Partial<Omit<MeasurementInput, 'type'>>) => Promise<void>;
+    deleteMeasurement: (measurementId: string) => Promise<void>;
+    recordRecommendationFeedback: (
+      target: RecommendationFeedbackTarget,
+      status: RecommendationFeedbackStatus,
+      options?: RecommendationFeedbackOptions
+    ) => Promise<RecommendationFeedback>;
+    createCoachingPlan: (source: CoachingPlanSource) => Promise<CoachingPlan>;
+    abandonCoachingPlan: (planId: string) => Promise<void>;
     calculateStreak: () => Promise<void>;
+    updateStreakSettings: (updates: Partial<StreakSettings>) => Promise<void>;
     syncData: () => Promise<void>;
+    reloadData: () => Promise<void>;
     clearAllData: () => Promise<void>;
   };
 }
@@ -254,38 +621,118 @@ const AppDataContext = createContext<AppDataContextType | null>(null);
 // Provider Component
 export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(appReducer, initialState);
+  // Latest state for async work that outlives the render it started in
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
   // Initialize data from storage
+  // Services react to domain events instead of being called from each screen
+  useEffect(() => registerEventSubscribers(), []);
+
   useEffect(() => {
     initializeData();
   }, []);
 
+  // Detected behaviour patterns become insights; the ref keeps the handler on current state
+  const patternsRef = useRef<(patterns: Pattern[]) => Promise<void>>(async () => {});
+  useEffect(() => MLPatternRecognition.getInstance().onPatterns(patterns => patternsRef.current(patterns)), []);
+
+  // Mirror sync engine progress into state and sync again after reconnecting
+  const syncRef = useRef<() => Promise<void>>(async () => {});
+  useEffect(() => {
+    const syncEngine = SyncEngine.getInstance();
+    const unsubscribeStatus = syncEngine.subscribe(status => dispatch({ type: 'SYNC_STATUS', payload: status }));
+    dispatch({ type: 'SYNC_STATUS', payload: syncEngine.getStatus() });
+    syncEngine.getPendingCount();
+
+    const unsubscribeReconnect = syncEngine.onReconnect(() => syncRef.current());
+    return () => {
+      unsubscribeStatus();
+      unsubscribeReconnect();
+    };
+  }, []);
+
   const initializeData = async () => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
 
-      // Load all data from AsyncStorage
-      const [userProfile, sessions, achievements, pillarScores, aiInsights] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEYS.USER_PROFILE),
-        AsyncStorage.getItem(STORAGE_KEYS.SESSIONS),
-        AsyncStorage.getItem(STORAGE_KEYS.ACHIEVEMENTS),
-        AsyncStorage.getItem(STORAGE_KEYS.PILLAR_SCORES),
-        AsyncStorage.getItem(STORAGE_KEYS.AI_INSIGHTS)
-      ]);
+      // Load, migrate and validate persisted data
+      const { data } = await PersistenceService.load();
+      const lastSyncDate = await AsyncStorage.getItem(STORAGE_KEYS.LAST_SYNC_DATE);
+
+      // Scores are derived from the session log, so rebuild them to apply decay since last launch
+      const pillarScores = calculatePillarScores(data.sessions);
+      if (!pillarScoresEqual(pillarScores, data.pillarScores)) {
+        await PersistenceService.saveCollection('pillarScores', pillarScores);
+      }
+
+      // Streaks are unbounded and counted in the user's home timezone
+      const streaks = await StreakEngine.getInstance().evaluate(data.sessions);
+      const userProfile = withStreak(data.userProfile || createDefaultUser(), streaks);
+      if (data.userProfile && (userProfile.streak !== data.userProfile.streak || userProfile.longestStreak !== data.userProfile.longestStreak)) {
+        await PersistenceService.saveCollection('userProfile', userProfile);
+      }
+      if (data.userProfile) {
+        publishStreakChange(data.userProfile.streak || 0, streaks);
+      }
+
+      // Unlock anything earned before the current rule set existed
+      let achievements = data.achievements;
+      if (await AchievementEngine.needsBackfill()) {
+        const streakEngine = StreakEngine.getInstance();
+        const backfilled = AchievementEngine.backfill(
+          data.sessions,
+          achievements,
+          await streakEngine.getSettings(),
+          await streakEngine.getFrozenDays()
+        );
+        if (backfilled.length > 0) {
+          achievements = [...backfilled, ...achievements].sort((a, b) =>
+            new Date(b.unlockedDate).getTime() - new Date(a.unlockedDate).getTime()
+          );
+          await PersistenceService.saveCollection('achievements', achievements);
+          for (const achievement of backfilled) {
+            await SyncEngine.getInstance().trackChange('achievements', achievement.id, achievement);
+          }
+        }
+        await AchievementEngine.markBackfilled();
+      }
+
+      // Plans adapt to sessions missed since the last launch and close once they are over
+      const changedPlans = refreshCoachingPlans(data.coachingPlans, data.sessions, toDayKey(new Date()));
+      const coachingPlans = mergeCoachingPlans(data.coachingPlans, changedPlans);
+      if (changedPlans.length > 0) {
+        await PersistenceService.saveCollection('coachingPlans', coachingPlans);
+        for (const plan of changedPlans) {
+          await SyncEngine.getInstance().trackChange('coachingPlans', plan.id, plan);
+        }
+        publishPlanChanges(changedPlans);
+      }
 
       const loadedState: Partial<AppState> = {
-        userProfile: userProfile ? JSON.parse(userProfile) : createDefaultUser(),
-        sessions: sessions ? JSON.parse(sessions) : [],
-        achievements: achievements ? JSON.parse(achievements) : [],
-        pillarScores: pillarScores ? JSON.parse(pillarScores) : { body: 0, mind: 0, heart: 0, spirit: 0, diet: 0 },
-        aiInsights: aiInsights ? JSON.parse(aiInsights) : []
+        userProfile,
+        streakData: toStreakData(streaks),
+        sessions: data.sessions,
+        achievements,
+        pillarScores,
+        aiInsights: data.aiInsights,
+        checkIns: data.checkIns,
+        meals: data.meals,
+        measurements: data.measurements,
+        recommendationFeedback: data.recommendationFeedback,
+        coachingPlans,
+        lastSyncDate
       };
 
       dispatch({ type: 'INIT_SUCCESS', payload: loadedState });
-      
-      // Calculate streak and update profile stats
-      await calculateStreak();
-      
+
+      // Analysis runs in the background, so launch doesn't wait for it
+      MLPatternRecognition.getInstance().rebuild(data.sessions, data.checkIns)
+        .catch(error => console.error('Error rebuilding behaviour log:', error));
+      AdherencePredictor.getInstance().train(data.sessions, data.checkIns)
+        .catch(error => console.error('Error training adherence model:', error));
+      NotificationOrchestrator.getInstance().train(data.sessions, initialState.dailyGoals)
+        .catch(error => console.error('Error planning adaptive reminders:', error));
     } catch (error) {
       console.error('Error initializing data:', error);
       // Initialize with default user if error
@@ -331,88 +778,346 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
       
       if (state.userProfile) {
         const updatedProfile = { ...state.userProfile, ...updates };
-        await AsyncStorage.setItem(STORAGE_KEYS.USER_PROFILE, JSON.stringify(updatedProfile));
+        await PersistenceService.saveCollection('userProfile', updatedProfile);
+        await SyncEngine.getInstance().trackChange('userProfile', SYNC_SINGLETON_ID, updatedProfile);
+        EventBus.getInstance().publish('profile.updated', { profile: updatedProfile });
       }
     },
 
     addSession: async (sessionData: Omit<SessionData, 'id'>) => {
-      const session: SessionData = {
+      const session: SessionData = normalizeSession({
         ...sessionData,
         id: `session_${Date.now()}`
-      };
+      });
 
       dispatch({ type: 'ADD_SESSION', payload: session });
       
-      // Update storage
-      const updatedSessions = [...state.sessions, session];
-      await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(updatedSessions));
+      // Update storage. Read the log through the ref, and move the ref on, so a
+      // second session added before the next render doesn't overwrite this one.
+      const updatedSessions = [...stateRef.current.sessions, session];
+      stateRef.current = { ...stateRef.current, sessions: updatedSessions };
+      await PersistenceService.saveCollection('sessions', updatedSessions);
+      await SyncEngine.getInstance().trackChange('sessions', session.id, session);
+
+      EventBus.getInstance().publish('session.completed', {
+        session,
+        userId: state.userProfile?.id || null,
+        totalSessions: updatedSessions.length
+      });
       
-      // Update pillar scores based on session
-      const pillarBoost = calculatePillarBoost(session);
-      await actions.updatePillarScores({ [session.pillar]: pillarBoost });
+      // Rebuild pillar scores and streaks from the updated session log
+      const pillarScores = calculatePillarScores(updatedSessions);
+      await actions.updatePillarScores(pillarScores);
+      const streaks = await refreshStreaks(updatedSessions);
+      await refreshPlans(updatedSessions);
       
       // Check for achievements
-      await checkSessionAchievements(session);
+      await unlockAchievements(AchievementEngine.evaluate(
+        ['session.completed', 'streak.updated', 'scores.updated'],
+        { session, sessions: updatedSessions, streak: streaks.overall, pillarScores },
+        state.achievements
+      ));
+
+      return session;
     },
 
     updatePillarScores: async (scores: Partial<PillarProgress>) => {
       dispatch({ type: 'UPDATE_PILLAR_SCORES', payload: scores });
       
       const updatedScores = { ...state.pillarScores, ...scores };
-      await AsyncStorage.setItem(STORAGE_KEYS.PILLAR_SCORES, JSON.stringify(updatedScores));
+      await PersistenceService.saveCollection('pillarScores', updatedScores);
+      await SyncEngine.getInstance().trackChange('pillarScores', SYNC_SINGLETON_ID, updatedScores);
     },
 
     addAchievement: async (achievementData: Omit<Achievement, 'id' | 'unlockedDate'>) => {
-      const achievement: Achievement = {
+      await unlockAchievements([{
         ...achievementData,
         id: `achievement_${Date.now()}`,
         unlockedDate: new Date().toISOString()
-      };
-
-      dispatch({ type: 'ADD_ACHIEVEMENT', payload: achievement });
-      
-      const updatedAchievements = [achievement, ...state.achievements];
-      await AsyncStorage.setItem(STORAGE_KEYS.ACHIEVEMENTS, JSON.stringify(updatedAchievements));
+      }]);
     },
 
     addAIInsight: async (insightData: Omit<AIInsight, 'id' | 'dateGenerated'>) => {
-      const insight: AIInsight = {
+      await storeInsights([{
         ...insightData,
         id: `insight_${Date.now()}`,
         dateGenerated: new Date().toISOString()
-      };
-
-      dispatch({ type: 'ADD_AI_INSIGHT', payload: insight });
-      
-      const updatedInsights = [insight, ...state.aiInsights.slice(0, 9)];
-      await AsyncStorage.setItem(STORAGE_KEYS.AI_INSIGHTS, JSON.stringify(updatedInsights));
+      }]);
     },
 
     markInsightRead: async (insightId: string) => {
       dispatch({ type: 'MARK_INSIGHT_READ', payload: insightId });
       
-      const updatedInsights = state.aiInsights.map(insight => 
+      // Through the ref, so an insight added by a background pattern run isn't dropped
+      const updatedInsights = stateRef.current.aiInsights.map(insight => 
         insight.id === insightId ? { ...insight, isRead: true } : insight
       );
-      await AsyncStorage.setItem(STORAGE_KEYS.AI_INSIGHTS, JSON.stringify(updatedInsights));
+      stateRef.current = { ...stateRef.current, aiInsights: updatedInsights };
+      await PersistenceService.saveCollection('aiInsights', updatedInsights);
+
+      const readInsight = updatedInsights.find(insight => insight.id === insightId);
+      if (readInsight) {
+        await SyncEngine.getInstance().trackChange('aiInsights', insightId, readInsight);
+      }
     },
 
-    calculateStreak: async () => {
-      const streak = calculateCurrentStreak(state.sessions);
-      dispatch({ type: 'UPDATE_STREAK', payload: streak });
-      
-      // Update user profile with new streak
-      if (state.userProfile) {
-        await actions.updateUserProfile({ 
-          streak,
-          longestStreak: Math.max(state.userProfile.longestStreak, streak)
-        });
+    // Adds the slot's check-in for the day `date` falls on, or replaces it if already filled in
+    saveCheckIn: async (input: CheckInInput, date: Date = new Date()) => {
+      const day = toDayKey(date, await StreakEngine.getInstance().getSettings());
+      const existing = findCheckIn(stateRef.current.checkIns, day, input.slot);
+      const now = new Date().toISOString();
+
+      const saved = await storeCheckIn({
+        ...input,
+        id: checkInId(day, input.slot),
+        day,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now
+      }, !existing);
+
+      if (!existing) {
+        await actions.addSession(toCheckInSession(saved, date));
       }
+      return saved;
+    },
+
+    updateCheckIn: async (id: string, updates: Partial<Omit<CheckInInput, 'slot'>>) => {
+      const existing = stateRef.current.checkIns.find(checkIn => checkIn.id === id);
+      if (!existing) {
+        console.warn(`Check-in ${id} not found`);
+        return;
+      }
+      await storeCheckIn({ ...existing, ...updates, updatedAt: new Date().toISOString() }, false);
+    },
+
+    // Meals only fill in the nutrition log. They aren't practice sessions, so they
+    // don't move streaks, pillar scores or session analytics.
+    logMeal: async (input: MealInput, date: Date = new Date()) => {
+      const meal = await newMeal(input, date);
+      await storeMeal(meal, true);
+      return meal;
+    },
+
+    /**
+     * Adds to the latest meal of this type on the same day, starting one if there is
+     * none. Used for quick adds: a glass of water, a recipe, a food from the calculator.
+     */
+    addFoodToMeal: async (foodId: string, mealType: MealType, servings: number = 1, date: Date = new Date()) => {
+      const day = toDayKey(date, await StreakEngine.getInstance().getSettings());
+      const existing = [...stateRef.current.meals].reverse().find(meal => meal.day === day && meal.mealType === mealType);
+      if (!existing) {
+        const meal = await newMeal({ mealType, items: [{ foodId, servings }] }, date);
+        await storeMeal(meal, true);
+        return meal;
+      }
+
+      const hasFood = existing.items.some(item => item.foodId === foodId);
+      const meal: MealEntry = {
+        ...existing,
+        items: hasFood
+          ? existing.items.map(item => item.foodId === foodId ? { ...item, servings: item.servings + servings } : item)
+          : [...existing.items, { foodId, servings }],
+        updatedAt: new Date().toISOString()
+      };
+      await storeMeal(meal, false);
+      return meal;
+    },
+
+    // Removing every item deletes the meal
+    updateMeal: async (id: string, updates: Partial<MealInput>) => {
+      const existing = state.meals.find(meal => meal.id === id);
+      if (!existing) {
+        console.warn(`Meal ${id} not found`);
+        return;
+      }
+      if (updates.items && updates.items.length === 0) {
+        await actions.deleteMeal(id);
+        return;
+      }
+      await storeMeal({ ...existing, ...updates, updatedAt: new Date().toISOString() }, false);
+    },
+
+    deleteMeal: async (id: string) => {
+      const existing = state.meals.find(meal => meal.id === id);
+      if (!existing) return;
+
+      dispatch({ type: 'REMOVE_MEAL', payload: id });
+      await PersistenceService.saveCollection('meals', state.meals.filter(meal => meal.id !== id));
+      await SyncEngine.getInstance().trackChange('meals', id, { ...existing, updatedAt: new Date().toISOString() }, true);
+    },
+
+    // Returns null and stores nothing when the value is implausible for its type
+    logMeasurement: async (input: MeasurementInput, date: Date = new Date()) => {
+      const invalid = validateMeasurementInput(input);
+      if (invalid) {
+        console.warn(`Measurement not saved: ${invalid}`);
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const measurement: Measurement = {
+        ...input,
+        id: `measurement_${Date.now()}`,
+        day: toDayKey(date, await StreakEngine.getInstance().getSettings()),
+        date: date.toISOString(),
+        createdAt: now,
+        updatedAt: now
+      };
+      await storeMeasurement(measurement, true);
+      return measurement;
+    },
+
+    updateMeasurement: async (id: string, updates: Partial<Omit<MeasurementInput, 'type'>>) => {
+      const existing = stateRef.current.measurements.find(measurement => measurement.id === id);
+      if (!existing) {
+        console.warn(`Measurement ${id} not found`);
+        return;
+      }
+
+      const updated: Measurement = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+      const invalid = validateMeasurementInput(updated);
+      if (invalid) {
+        console.warn(`Measurement not saved: ${invalid}`);
+        return;
+      }
+      await storeMeasurement(updated, false);
+    },
+
+    deleteMeasurement: async (id: string) => {
+      const existing = stateRef.current.measurements.find(measurement => measurement.id === id);
+      if (!existing) return;
+
+      const measurements = stateRef.current.measurements.filter(measurement => measurement.id !== id);
+      stateRef.current = { ...stateRef.current, measurements };
+      dispatch({ type: 'REMOVE_MEASUREMENT', payload: id });
+      await PersistenceService.saveCollection('measurements', measurements);
+      await SyncEngine.getInstance().trackChange('measurements', id, { ...existing, updatedAt: new Date().toISOString() }, true);
+      EventBus.getInstance().publish('measurement.deleted', { measurement: existing });
+    },
+
+    // Accepting and snoozing keep one entry open; dismissing or completing closes it
+    recordRecommendationFeedback: async (
+      target: RecommendationFeedbackTarget,
+      status: RecommendationFeedbackStatus,
+      options: RecommendationFeedbackOptions = {}
+    ) => {
+      // Read through the ref so quick taps in a row each build on the last
+      const current = stateRef.current;
+      const now = new Date();
+      const latest = latestFeedback(current.recommendationFeedback, target.recommendationId);
+      const score = feedbackScore(target.pillar, current.pillarScores);
+      const base: RecommendationFeedback = latest && isOpenFeedback(latest) ? latest : {
+        id: `feedback_${target.recommendationId}_${now.getTime()}`,
+        recommendationId: target.recommendationId,
+        ruleId: target.ruleId,
+        title: target.title,
+        pillar: target.pillar,
+        category: target.category,
+        status,
+        baselineScore: score,
+        sessionIds: [],
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
+      };
+
+      const feedback: RecommendationFeedback = { ...base, status, updatedAt: now.toISOString() };
+      if (status === 'accepted' && !feedback.acceptedAt) {
+        feedback.acceptedAt = now.toISOString();
+        feedback.baselineScore = score;
+      }
+      if (status === 'snoozed') {
+        feedback.snoozedUntil = new Date(now.getTime() + (options.snoozeDays ?? DEFAULT_SNOOZE_DAYS) * DAY_MS).toISOString();
+      }
+      if (status === 'dismissed') {
+        feedback.reason = options.reason || 'not-relevant';
+      }
+      if (status === 'completed') {
+        feedback.acceptedAt = feedback.acceptedAt || feedback.createdAt;
+        feedback.completedAt = now.toISOString();
+        feedback.outcomeScore = score;
+        feedback.sessionIds = linkedSessions(feedback, current.sessions).map(session => session.id);
+      }
+
+      const recommendationFeedback = mergeFeedback(current.recommendationFeedback, [feedback]);
+      stateRef.current = { ...stateRef.current, recommendationFeedback };
+      dispatch({ type: 'UPSERT_RECOMMENDATION_FEEDBACK', payload: [feedback] });
+      await PersistenceService.saveCollection('recommendationFeedback', recommendationFeedback);
+      await SyncEngine.getInstance().trackChange('recommendationFeedback', feedback.id, feedback);
+      EventBus.getInstance().publish('recommendation.feedback', { feedback });
+      return feedback;
+    },
+
+    // Starts today. A new plan for the same recommendation replaces the one in progress.
+    createCoachingPlan: async (source: CoachingPlanSource) => {
+      const now = new Date();
+      const plan = generateCoachingPlan(
+        source,
+        toDayKey(now),
+        state.userProfile?.preferences?.difficulty || 'beginner',
+        now
+      );
+      const replaced: CoachingPlan[] = source.recommendationId
+        ? stateRef.current.coachingPlans
+            .filter(existing => existing.status === 'active' && existing.recommendationId === source.recommendationId)
+            .map(existing => ({ ...existing, status: 'abandoned', updatedAt: now.toISOString() }))
+        : [];
+
+      await storeCoachingPlans([...replaced, plan]);
+      EventBus.getInstance().publish('plan.created', { plan });
+      return plan;
+    },
+
+    abandonCoachingPlan: async (planId: string) => {
+      const existing = stateRef.current.coachingPlans.find(plan => plan.id === planId);
+      if (!existing || existing.status !== 'active') return;
+      await storeCoachingPlans([{ ...existing, status: 'abandoned', updatedAt: new Date().toISOString() }]);
+    },
+
+    calculateStreak: async () => {
+      const streaks = await refreshStreaks(state.sessions);
+      await unlockAchievements(AchievementEngine.evaluate(
+        'streak.updated',
+        { session: null, sessions: state.sessions, streak: streaks.overall, pillarScores: state.pillarScores },
+        state.achievements
+      ));
+    },
+
+    updateStreakSettings: async (updates: Partial<StreakSettings>) => {
+      await StreakEngine.getInstance().updateSettings(updates);
+      await refreshStreaks(state.sessions);
     },
 
     syncData: async () => {
-      // TODO: Implement cloud sync
-      dispatch({ type: 'SYNC_COMPLETE', payload: new Date().toISOString() });
+      // Pulled changes couldn't be saved over data from a newer app, so they'd be skipped for good
+      if (PersistenceService.isReadOnly()) return;
+      try {
+        const syncEngine = SyncEngine.getInstance();
+        const result = await syncEngine.sync(snapshotOf(stateRef.current));
+        if (!result) return; // offline - changes stay queued
+
+        if (result.changes.length > 0) {
+          const pending = applySyncChanges(snapshotOf(stateRef.current), result.changes);
+          const streaks = await StreakEngine.getInstance().evaluate(pending.sessions);
+
+          // Merge into the data as it is now, so anything logged during the sync is kept
+          const merged = mergeSyncChanges(stateRef.current, result.changes, streaks);
+          dispatch({ type: 'SYNC_MERGE', payload: { changes: result.changes, streaks } });
+          await PersistenceService.persist(merged);
+        }
+
+        // Only now is it safe to move the sync cursor past the pulled changes
+        await syncEngine.commit(result);
+        await AsyncStorage.setItem(STORAGE_KEYS.LAST_SYNC_DATE, result.syncedAt);
+        dispatch({ type: 'SYNC_COMPLETE', payload: result.syncedAt });
+      } catch (error) {
+        console.error('Error syncing data:', error);
+      }
+    },
+
+    reloadData: async () => {
+      StreakEngine.getInstance().invalidate();
+      HealthHistoryStore.getInstance().invalidate();
+      await initializeData();
     },
 
     clearAllData: async () => {
@@ -421,8 +1126,19 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
         AsyncStorage.removeItem(STORAGE_KEYS.SESSIONS),
         AsyncStorage.removeItem(STORAGE_KEYS.ACHIEVEMENTS),
         AsyncStorage.removeItem(STORAGE_KEYS.PILLAR_SCORES),
-        AsyncStorage.removeItem(STORAGE_KEYS.AI_INSIGHTS)
+        AsyncStorage.removeItem(STORAGE_KEYS.AI_INSIGHTS),
+        AsyncStorage.removeItem(STORAGE_KEYS.CHECK_INS),
+        AsyncStorage.removeItem(STORAGE_KEYS.NUTRITION_LOG),
+        AsyncStorage.removeItem(STORAGE_KEYS.MEASUREMENTS),
+        AsyncStorage.removeItem(STORAGE_KEYS.RECOMMENDATION_FEEDBACK),
+        AsyncStorage.removeItem(STORAGE_KEYS.COACHING_PLANS),
+        AsyncStorage.removeItem(STORAGE_KEYS.LAST_SYNC_DATE),
+        PersistenceService.clearQuarantine(),
+        SyncEngine.getInstance().reset(),
+        StreakEngine.getInstance().reset(),
+        AchievementEngine.reset()
       ]);
+      EventBus.getInstance().publish('data.cleared', {});
       
       dispatch({ 
         type: 'INIT_SUCCESS', 
@@ -436,86 +1152,133 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  // Helper functions
-  const calculatePillarBoost = (session: SessionData): number => {
-    const baseBoost = Math.min(session.duration * 0.5, 10); // Max 10 points per session
-    const scoreMultiplier = session.score / 100;
-    const currentScore = state.pillarScores[session.pillar as keyof PillarProgress] || 0;
-    
-    // Diminishing returns as pillar score gets higher
-    const diminishingFactor = Math.max(0.1, 1 - (currentScore / 200));
-    
-    return Math.round(baseBoost * scoreMultiplier * diminishingFactor);
+  syncRef.current = actions.syncData;
+  patternsRef.current = async (patterns: Pattern[]) => {
+    const now = new Date();
+    await storeInsights(patterns.map(pattern => ({
+      ...patternToInsight(pattern),
+      id: `insight_${pattern.id}_${now.getTime()}`,
+      dateGenerated: now.toISOString()
+    })));
   };
 
-  const calculateCurrentStreak = (sessions: SessionData[]): number => {
-    if (sessions.length === 0) return 0;
-    
-    const sortedSessions = sessions
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    
-    let streak = 0;
-    let currentDate = new Date();
-    currentDate.setHours(0, 0, 0, 0);
-    
-    for (let i = 0; i < 30; i++) { // Check last 30 days
-      const dayString = currentDate.toDateString();
-      const hasSessionToday = sortedSessions.some(session => 
-        new Date(session.date).toDateString() === dayString
-      );
-      
-      if (hasSessionToday) {
-        streak++;
-      } else if (i > 0) { // Allow today to be incomplete
-        break;
+  // Helper functions
+  const refreshStreaks = async (sessions: SessionData[]): Promise<StreakSummary> => {
+    const streaks = await StreakEngine.getInstance().evaluate(sessions);
+    dispatch({ type: 'UPDATE_STREAK', payload: streaks });
+    publishStreakChange(state.streakData.current, streaks);
+
+    // Keep the profile's streak fields in step with the engine
+    if (state.userProfile) {
+      const profile = withStreak(state.userProfile, streaks);
+      if (profile.streak !== state.userProfile.streak || profile.longestStreak !== state.userProfile.longestStreak) {
+        await actions.updateUserProfile({ streak: profile.streak, longestStreak: profile.longestStreak });
       }
-      
-      currentDate.setDate(currentDate.getDate() - 1);
     }
-    
-    return streak;
+    return streaks;
   };
 
-  const checkSessionAchievements = async (session: SessionData) => {
-    const achievements = [];
-    
-    // First session achievement
-    if (state.sessions.length === 0) {
-      achievements.push({
-        title: 'First Steps',
-        description: 'Completed your first session!',
-        pillar: 'overall',
-        rarity: 'common' as const
-      });
+  // Persist newly unlocked achievements once each, newest first
+  const unlockAchievements = async (candidates: Achievement[]) => {
+    if (candidates.length === 0) return;
+
+    // Read back from storage so unlocks from earlier calls in the same render are not lost
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.ACHIEVEMENTS);
+    const existing: Achievement[] = stored ? JSON.parse(stored) : state.achievements;
+    const fresh = candidates.filter((candidate, index) =>
+      !AchievementEngine.isUnlocked([...existing, ...candidates.slice(0, index)], candidate)
+    );
+    if (fresh.length === 0) return;
+
+    fresh.forEach(achievement => dispatch({ type: 'ADD_ACHIEVEMENT', payload: achievement }));
+    await PersistenceService.saveCollection('achievements', [...[...fresh].reverse(), ...existing]);
+    for (const achievement of fresh) {
+      await SyncEngine.getInstance().trackChange('achievements', achievement.id, achievement);
+      EventBus.getInstance().publish('achievement.unlocked', { achievement });
     }
-    
-    // Pillar-specific achievements
-    const pillarSessions = state.sessions.filter(s => s.pillar === session.pillar).length + 1;
-    if (pillarSessions === 5 || pillarSessions === 10 || pillarSessions === 25) {
-      achievements.push({
-        title: `${session.pillar.charAt(0).toUpperCase() + session.pillar.slice(1)} Devotee`,
-        description: `Completed ${pillarSessions} ${session.pillar} sessions`,
-        pillar: session.pillar,
-        rarity: pillarSessions >= 25 ? 'epic' as const : pillarSessions >= 10 ? 'rare' as const : 'common' as const
-      });
+  };
+
+  // Save a check-in and keep the morning/evening pair for its day linked to each other.
+  // Goes through the ref like addSession, so two saves before a render both land.
+  const storeCheckIn = async (checkIn: CheckIn, created: boolean): Promise<CheckIn> => {
+    const changed = linkCheckIn(stateRef.current.checkIns, checkIn);
+    const checkIns = mergeCheckIns(stateRef.current.checkIns, changed);
+    stateRef.current = { ...stateRef.current, checkIns };
+    dispatch({ type: 'UPSERT_CHECK_INS', payload: changed });
+
+    await PersistenceService.saveCollection('checkIns', checkIns);
+    for (const record of changed) {
+      await SyncEngine.getInstance().trackChange('checkIns', record.id, record);
     }
-    
-    // Duration achievements
-    if (session.duration >= 30 && !state.achievements.some(a => a.title === 'Marathon Meditator')) {
-      achievements.push({
-        title: 'Marathon Meditator',
-        description: 'Completed a 30+ minute session',
-        pillar: session.pillar,
-        rarity: 'rare' as const
-      });
+    EventBus.getInstance().publish('checkin.saved', { checkIn: changed[0], created });
+    return changed[0];
+  };
+
+  // Newest first, so the first insight given ends up on top; only the latest 10 are kept.
+  // Goes through the ref like addSession, so it can't overwrite an insight being marked read.
+  const storeInsights = async (insights: AIInsight[]) => {
+    [...insights].reverse().forEach(insight => dispatch({ type: 'ADD_AI_INSIGHT', payload: insight }));
+
+    const updatedInsights = [...insights, ...stateRef.current.aiInsights].slice(0, 10);
+    stateRef.current = { ...stateRef.current, aiInsights: updatedInsights };
+    await PersistenceService.saveCollection('aiInsights', updatedInsights);
+    for (const insight of insights.slice(0, 10)) {
+      await SyncEngine.getInstance().trackChange('aiInsights', insight.id, insight);
+      EventBus.getInstance().publish('insight.added', { insight });
     }
-    
-    // Add all achievements
-    for (const achievement of achievements) {
-      await actions.addAchievement(achievement);
+  };
+
+  const newMeal = async (input: MealInput, date: Date): Promise<MealEntry> => {
+    const now = new Date().toISOString();
+    return {
+      ...input,
+      id: `meal_${Date.now()}`,
+      day: toDayKey(date, await StreakEngine.getInstance().getSettings()),
+      date: date.toISOString(),
+      createdAt: now,
+      updatedAt: now
+    };
+  };
+
+  // Goes through the ref like addSession, so quick adds in a row all land in the same log
+  const storeMeal = async (meal: MealEntry, created: boolean) => {
+    const meals = mergeMeals(stateRef.current.meals, [meal]);
+    stateRef.current = { ...stateRef.current, meals };
+    dispatch({ type: 'UPSERT_MEALS', payload: [meal] });
+    await PersistenceService.saveCollection('meals', meals);
+    await SyncEngine.getInstance().trackChange('meals', meal.id, meal);
+    EventBus.getInstance().publish('meal.logged', { meal, created });
+  };
+
+  // Goes through the ref like addSession, so a progress refresh and a plan change can't undo each other
+  const storeCoachingPlans = async (plans: CoachingPlan[]) => {
+    const coachingPlans = mergeCoachingPlans(stateRef.current.coachingPlans, plans);
+    stateRef.current = { ...stateRef.current, coachingPlans };
+    dispatch({ type: 'UPSERT_COACHING_PLANS', payload: plans });
+    await PersistenceService.saveCollection('coachingPlans', coachingPlans);
+    for (const plan of plans) {
+      await SyncEngine.getInstance().trackChange('coachingPlans', plan.id, plan);
     }
   };
 
+  // Progress is derived from the session log; only adaptations and completions are stored
+  const refreshPlans = async (sessions: SessionData[]) => {
+    const changed = refreshCoachingPlans(stateRef.current.coachingPlans, sessions, toDayKey(new Date()));
+    if (changed.length === 0) return;
+    await storeCoachingPlans(changed);
+    publishPlanChanges(changed);
+  };
+
+  // Goes through the ref like addSession, so one write can't drop another made before a render
+  const storeMeasurement = async (measurement: Measurement, created: boolean) => {
+    const measurements = mergeMeasurements(stateRef.current.measurements, [measurement]);
+    stateRef.current = { ...stateRef.current, measurements };
+    dispatch({ type: 'UPSERT_MEASUREMENTS', payload: [measurement] });
+    await PersistenceService.saveCollection('measurements', measurements);
+    await SyncEngine.getInstance().trackChange('measurements', measurement.id, measurement);
+    EventBus.getInstance().publish('measurement.logged', { measurement, created });
+  };
+
   return (
     <AppDataContext.Provider value={{ state, actions }}>
       {children}
@@ -538,19 +1301,174 @@ export const useAppDataSelectors = () => {
   return {
     userProfile: state.userProfile,
     pillarScores: state.pillarScores,
-    overallScore: Object.values(state.pillarScores).reduce((sum, score) => sum + score, 0) / 5,
+    overallScore: calculateOverallScore(state.pillarScores),
     sessions: state.sessions,
-    todaySessions: state.sessions.filter(s => 
-      new Date(s.date).toDateString() === new Date().toDateString()
-    ),
+    todaySessions: state.sessions.filter(s => toDayKey(s.date) === toDayKey(new Date())),
     achievements: state.achievements,
     newAchievements: state.achievements.filter(a => a.isNew),
     aiInsights: state.aiInsights,
     unreadInsights: state.aiInsights.filter(i => !i.isRead),
+    checkIns: state.checkIns,
     dailyGoals: state.dailyGoals,
     streakData: state.streakData,
     isLoading: state.isLoading,
     isInitialized: state.isInitialized,
-    lastSyncDate: state.lastSyncDate
+    lastSyncDate: state.lastSyncDate,
+    syncStatus: state.syncStatus
   };
 };
+
+export const useSyncStatus = () => {
+  const { state } = useAppData();
+
+  return {
+    ...state.syncStatus,
+    lastSyncDate: state.lastSyncDate,
+    isSyncing: state.syncStatus.state === 'syncing',
+    hasPendingChanges: state.syncStatus.pendingChanges > 0
+  };
+};
+
+export const useAchievementProgress = (): AchievementProgress[] => {
+  const { state } = useAppData();
+
+  return useMemo(() => AchievementEngine.getProgress({
+    session: null,
+    sessions: state.sessions,
+    streak: { ...state.streakData, lastActiveDay: null },
+    pillarScores: state.pillarScores
+  }, state.achievements), [state.sessions, state.streakData, state.pillarScores, state.achievements]);
+};
+
+// Day key for now, redone once the home timezone has loaded or the streak moves on
+const useTodayKey = (): string => {
+  const { state } = useAppData();
+  const [today, setToday] = useState<string>(() => toDayKey(new Date()));
+
+  useEffect(() => {
+    let active = true;
+    StreakEngine.getInstance().getSettings().then(settings => {
+      if (active) setToday(toDayKey(new Date(), settings));
+    });
+    return () => {
+      active = false;
+    };
+  }, [state.streakData]);
+
+  return today;
+};
+
+export const useCheckIns = () => {
+  const { state } = useAppData();
+  const today = useTodayKey();
+
+  return useMemo(() => ({
+    checkIns: state.checkIns,
+    today,
+    morning: findCheckIn(state.checkIns, today, 'morning'),
+    evening: findCheckIn(state.checkIns, today, 'evening'),
+    dailyAverages: getDailyCheckInAverages(state.checkIns, 7, today),
+    weeklyAverages: getWeeklyCheckInAverages(state.checkIns, 4, today),
+    getCheckIn: (day: string, slot: CheckInSlot) => findCheckIn(state.checkIns, day, slot),
+    getLinkedCheckIn: (checkIn: CheckIn) => getLinkedCheckIn(state.checkIns, checkIn)
+  }), [state.checkIns, today]);
+};
+
+export const useNutritionLog = () => {
+  const { state } = useAppData();
+  const today = useTodayKey();
+
+  return useMemo(() => ({
+    meals: state.meals,
+    today,
+    todayMeals: state.meals.filter(meal => meal.day === today),
+    todayNutrition: getDailyNutrition(state.meals, today),
+    weeklyNutrition: getNutritionHistory(state.meals, 7, today),
+    wellbeing: getMealWellbeingHistory(state.meals, 14, today),
+    getDay: (day: string) => getDailyNutrition(state.meals, day),
+    query: (query: MealQuery) => queryMeals(state.meals, query)
+  }), [state.meals, today]);
+};
+
+export const useMeasurements = () => {
+  const { state } = useAppData();
+  const today = useTodayKey();
+
+  return useMemo(() => ({
+    measurements: state.measurements,
+    today,
+    latest: MEASUREMENT_TYPES.reduce((acc, type) => {
+      acc[type] = getLatestMeasurement(state.measurements, type);
+      return acc;
+    }, {} as Record<MeasurementType, Measurement | null>),
+    getEntries: (type: MeasurementType) => getMeasurements(state.measurements, type),
+    getUnit: (type: MeasurementType) => preferredUnit(state.measurements, type),
+    getHistory: (type: MeasurementType, days: number, unit?: MeasurementUnit) =>
+      getMeasurementHistory(state.measurements, type, days, today, unit || preferredUnit(state.measurements, type))
+  }), [state.measurements, today]);
+};
+
+export const useRecommendationFeedback = () => {
+  const { state } = useAppData();
+
+  return useMemo(() => ({
+    feedback: state.recommendationFeedback,
+    history: getFeedbackHistory(state.recommendationFeedback, state.sessions),
+    inProgress: state.recommendationFeedback.filter(entry =>
+      entry.status === 'accepted' && latestFeedback(state.recommendationFeedback, entry.recommendationId) === entry
+    ),
+    // The accepted or snoozed entry for a recommendation, if the user is still on it
+    getOpen: (recommendationId: string): RecommendationFeedback | null => {
+      const latest = latestFeedback(state.recommendationFeedback, recommendationId);
+      return latest && isOpenFeedback(latest) ? latest : null;
+    },
+    getLinkedSessions: (feedback: RecommendationFeedback) => linkedSessions(feedback, state.sessions)
+  }), [state.recommendationFeedback, state.sessions]);
+};
+
+export interface CoachingPlanWithProgress {
+  plan: CoachingPlan;
+  progress: CoachingPlanProgress;
+}
+
+/**
+ * Coaching plans with progress checked against the session log.
+ * Pass a pillar to only see plans, and tasks, for that pillar.
+ */
+export const useCoachingPlans = (pillar?: string) => {
+  const { state } = useAppData();
+  const today = useTodayKey();
+
+  return useMemo(() => {
+    const withProgress = (plan: CoachingPlan): CoachingPlanWithProgress => {
+      const progress = evaluateCoachingPlan(plan, state.sessions, today);
+      if (!pillar) return { plan, progress };
+      const tasks = progress.tasks.filter(entry => entry.task.pillar === pillar);
+      const total = tasks.filter(entry => entry.status !== 'skipped').length;
+      const done = tasks.filter(entry => entry.status === 'done').length;
+      return {
+        plan,
+        progress: {
+          ...progress,
+          tasks,
+          total,
+          done,
+          missed: tasks.filter(entry => entry.status === 'missed').length,
+          percent: total > 0 ? Math.round((done / total) * 100) : 0,
+          dueToday: progress.dueToday.filter(entry => entry.task.pillar === pillar),
+          nextTask: progress.tasks.find(entry =>
+            entry.task.pillar === pillar && (entry.status === 'due' || entry.status === 'upcoming')
+          )?.task || null
+        }
+      };
+    };
+    const plans = state.coachingPlans.filter(plan => !pillar || plan.pillars.includes(pillar));
+
+    return {
+      plans,
+      active: plans.filter(plan => plan.status === 'active').map(withProgress),
+      history: plans.filter(plan => plan.status !== 'active'),
+      getProgress: (plan: CoachingPlan) => withProgress(plan).progress
+    };
+  }, [state.coachingPlans, state.sessions, pillar, today]);
+};
@@ -0,0 +1,42 @@
+// src/hooks/useEntitlement.ts - LIVE PLAN LIMITS FOR A FEATURE
+import { useCallback, useEffect, useState } from 'react';
+import EntitlementService from '../services/EntitlementService';
+import type { EntitlementCheck, EntitlementFeature } from '../utils/entitlements';
+
+export interface UseEntitlementResult extends EntitlementCheck {
+  ready: boolean; // false until the subscription has loaded; don't lock anything before then
+  consume: (key?: string) => Promise<boolean>;
+}
+
+export const useEntitlement = (feature: EntitlementFeature): UseEntitlementResult => {
+  const service = EntitlementService.getInstance();
+  const [check, setCheck] = useState<EntitlementCheck>(() => service.check(feature));
+  const [ready, setReady] = useState(service.isReady());
+
+  useEffect(() => {
+    let active = true;
+    const update = () => {
+      if (active) setCheck(service.check(feature));
+    };
+
+    const unsubscribe = service.onChange(update);
+    service.ready()
+      .then(() => {
+        if (!active) return;
+        setReady(true);
+        update();
+      })
+      .catch(error => console.error('Error loading entitlements:', error));
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [feature]);
+
+  const consume = useCallback((key?: string) => service.consume(feature, key), [feature]);
+
+  return { ...check, ready, consume };
+};
+
+export default useEntitlement;
@@ -1,5 +1,5 @@
 // src/screens/AICoachScreen.tsx - COMPLETE AI COACHING SYSTEM
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -15,10 +15,20 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useAppDataSelectors, useAppData } from '../context/AppDataContext';
+import {
+  useAppDataSelectors,
+  useAppData,
+  useCheckIns,
+  useRecommendationFeedback,
+  RecommendationFeedbackTarget
+} from '../context/AppDataContext';
 import { usePerformanceOptimization, PerformanceMonitor } from '../hooks/usePerformanceOptimization';
-import AdvancedAIEngine from '../utils/AdvancedAIEngine';
-import NotificationManager from '../utils/NotificationManager';
+import RecommendationEngine from '../services/RecommendationEngine';
+import CoachConversationService, { CoachConversation } from '../services/CoachConversationService';
+import { buildCoachContext } from '../utils/coachContext';
+import { toFeedbackTarget } from '../utils/recommendationFeedback';
+import { resolvePlanPillars } from '../utils/coachingPlans';
+import NotificationOrchestrator from '../services/NotificationOrchestrator';
 
 const { width } = Dimensions.get('window');
 
@@ -45,6 +55,7 @@ interface CoachingSession {
   pillarFocus: string[];
   confidenceLevel: number;
   estimatedDuration: string;
+  recommendation: RecommendationFeedbackTarget; // what starting the session accepts
 }
 
 interface AIPersonality {
@@ -54,13 +65,6 @@ interface AIPersonality {
   expertise: string[];
 }
 
-interface ChatMessage {
-  id: string;
-  type: 'ai' | 'user';
-  message: string;
-  timestamp: Date;
-}
-
 const AICoachScreen = () => {
   const navigation = useNavigation();
   const fadeAnim = React.useRef(new Animated.Value(0)).current;
@@ -69,16 +73,22 @@ const AICoachScreen = () => {
   const { 
     pillarScores, 
     userProfile, 
-    sessionData, 
+    sessions,
     aiInsights 
   } = useAppDataSelectors();
+  const { checkIns, today } = useCheckIns();
+  const { feedback } = useRecommendationFeedback();
   const { measurePerformance } = usePerformanceOptimization();
-  const aiEngine = AdvancedAIEngine.getInstance();
-  const notificationManager = NotificationManager.getInstance();
+  const recommendationEngine = RecommendationEngine.getInstance();
+  const notifications = NotificationOrchestrator.getInstance();
+  const coach = CoachConversationService.getInstance();
+  const replyController = useRef<AbortController | null>(null);
 
   const [activeCoachingSession, setActiveCoachingSession] = useState<CoachingSession | null>(null);
   const [coachPersonality, setCoachPersonality] = useState<AIPersonality | null>(null);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [conversation, setConversation] = useState<CoachConversation | null>(null);
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamingReply, setStreamingReply] = useState('');
   const [isCoachingActive, setIsCoachingActive] = useState(false);
   const [userInput, setUserInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
@@ -114,18 +124,19 @@ const AICoachScreen = () => {
     initializeAICoach();
   }, [fadeAnim]);
 
+  // Stop streaming into a screen that is no longer there; the conversation is already saved
+  useEffect(() => () => replyController.current?.abort(), []);
+
   const initializeAICoach = async () => {
     try {
       // Generate AI coach personality based on user preferences
-      generateCoachPersonality();
+      const personality = generateCoachPersonality();
       
       // Create personalized coaching session
       generateCoachingSession();
       
-      // Initialize conversation
-      setTimeout(() => {
-        initializeCoachConversation();
-      }, 1000);
+      // Pick up the last conversation, or start one
+      await initializeCoachConversation(personality);
       
     } catch (error) {
       console.error('Error initializing AI Coach:', error);
@@ -184,30 +195,11 @@ const AICoachScreen = () => {
     }
 
     setCoachPersonality(selectedPersonality);
+    return selectedPersonality;
   };
 
   const generateCoachingSession = () => {
-    const userContext = {
-      totalSessions: userProfile.totalSessions,
-      currentStreak: userProfile.streak,
-      preferredTime: '09:00',
-      completionRate: sessionData.completedToday / (sessionData.todaySessions || 1),
-      pillarPreferences: Object.entries(pillarScores)
-        .sort(([,a], [,b]) => (b as number) - (a as number))
-        .slice(0, 2)
-        .map(([pillar]) => pillar),
-      previousSuccess: {},
-      learningStyle: 'mixed' as const,
-      motivationType: 'achievement' as const
-    };
-
-    // Generate AI recommendations using the existing engine
-    const recommendations = aiEngine.analyzeNeuralPatterns(
-      pillarScores,
-      [], // Session history
-      userProfile,
-      userContext
-    );
+    const recommendations = recommendationEngine.generate({ sessions, checkIns, pillarScores, userProfile, today, feedback });
 
     if (recommendations.length > 0) {
       const topRecommendation = recommendations[0];
@@ -217,144 +209,89 @@ const AICoachScreen = () => {
         title: `Personalized Coaching: ${topRecommendation.title}`,
         type: 'guidance',
         priority: topRecommendation.priority,
-        personalizedMessage: generatePersonalizedMessage(topRecommendation),
+        personalizedMessage: `${topRecommendation.explanation.reason} ${topRecommendation.description}`,
         actionSteps: topRecommendation.actionPlan,
         expectedOutcome: `Expected improvement: +${topRecommendation.estimatedImpact}% in ${topRecommendation.pillar} pillar`,
         pillarFocus: [topRecommendation.pillar],
         confidenceLevel: topRecommendation.confidence,
-        estimatedDuration: topRecommendation.timeToResult
+        estimatedDuration: topRecommendation.timeToResult,
+        recommendation: toFeedbackTarget(topRecommendation)
       };
 
       setActiveCoachingSession(coachingSession);
     }
   };
 
-  const generatePersonalizedMessage = (recommendation: any): string => {
-    const messages = {
-      high: [
-        `I've noticed some concerning patterns in your ${recommendation.pillar} optimization. Let's address this immediately to get you back on track.`,
-        `Your ${recommendation.pillar} pillar needs urgent attention. I've created a focused plan to help you recover quickly.`
-      ],
-      medium: [
-        `Great progress overall! I see an opportunity to significantly boost your ${recommendation.pillar} performance.`,
-        `You're doing well, but I've identified a key area where we can accelerate your ${recommendation.pillar} growth.`
-      ],
-      low: [
-        `Excellent work on your optimization journey! Let's fine-tune your ${recommendation.pillar} pillar for even better results.`,
-        `You're performing wonderfully! Here's an advanced technique to enhance your ${recommendation.pillar} mastery.`
-      ]
-    };
-
-    const priorityMessages = messages[recommendation.priority as keyof typeof messages] || messages.medium;
-    return priorityMessages[Math.floor(Math.random() * priorityMessages.length)];
+  const initializeCoachConversation = async (personality: AIPersonality) => {
+    const latest = await coach.getLatestConversation();
+    if (latest) {
+      setConversation(latest);
+      return;
+    }
+
+    const overallScore = Math.round(Object.values(pillarScores).reduce((a, b) => (a as number) + (b as number), 0) / 5);
+    setConversation(await coach.startConversation([
+      personality.greeting,
+      `I've analyzed your progress across all 5 pillars. Your overall neural optimization score is ${overallScore}%. I'm particularly impressed with your ${userProfile.streak}-day consistency streak!`
+    ]));
+  };
+
+  const startNewConversation = async () => {
+    if (isTyping || !coachPersonality) return;
+    const fresh = await coach.startConversation([coachPersonality.greeting]);
+    setConversation(fresh);
   };
 
-  const initializeCoachConversation = () => {
-    if (!coachPersonality) return;
+  const askCoach = async (question: string) => {
+    if (!conversation || isTyping || !question.trim()) return;
 
-    const welcomeMessage: ChatMessage = {
-      id: `msg-${Date.now()}`,
-      type: 'ai',
-      message: coachPersonality.greeting,
-      timestamp: new Date()
-    };
+    const controller = new AbortController();
+    replyController.current = controller;
+    setPendingQuestion(question.trim());
+    setStreamingReply('');
+    setIsTyping(true);
 
-    const analysisMessage: ChatMessage = {
-      id: `msg-${Date.now() + 1}`,
-      type: 'ai',
-      message: `I've analyzed your progress across all 5 pillars. Your overall neural optimization score is ${Math.round(Object.values(pillarScores).reduce((a, b) => (a as number) + (b as number), 0) / 5)}%. I'm particularly impressed with your ${userProfile.streak}-day consistency streak!`,
-      timestamp: new Date()
-    };
+    const recommendations = recommendationEngine.generate(
+      { sessions, checkIns, pillarScores, userProfile, today, feedback },
+      { limit: 1 }
+    );
+    const context = buildCoachContext({ sessions, checkIns, pillarScores, userProfile, aiInsights, recommendations, today });
 
-    setChatMessages([welcomeMessage, analysisMessage]);
+    try {
+      const reply = await coach.sendMessage(conversation.id, question, context, {
+        persona: coachPersonality,
+        signal: controller.signal,
+        onPartial: text => {
+          if (!controller.signal.aborted) setStreamingReply(text);
+        }
+      });
+      if (!controller.signal.aborted) setConversation(reply.conversation);
+    } catch (error) {
+      console.error('Error getting coach reply:', error);
+      if (!controller.signal.aborted) {
+        // The question was saved before the reply failed
+        setConversation(await coach.getConversation(conversation.id));
+        Alert.alert('Coach unavailable', 'Your coach could not reply just now. Please try again in a moment.');
+      }
+    } finally {
+      if (!controller.signal.aborted) {
+        setPendingQuestion(null);
+        setStreamingReply('');
+        setIsTyping(false);
+      }
+      replyController.current = null;
+    }
   };
 
   const sendMessage = () => {
     if (!userInput.trim() || isTyping) return;
-
-    const userMessage: ChatMessage = {
-      id: `msg-${Date.now()}`,
-      type: 'user',
-      message: userInput.trim(),
-      timestamp: new Date()
-    };
-
-    setChatMessages(prev => [...prev, userMessage]);
+    const question = userInput.trim();
     setUserInput('');
-    setIsTyping(true);
-
-    // Simulate AI thinking time
-    setTimeout(() => {
-      const aiResponse = generateAIResponse(userMessage.message);
-      const aiMessage: ChatMessage = {
-        id: `msg-${Date.now() + 1}`,
-        type: 'ai',
-        message: aiResponse,
-        timestamp: new Date()
-      };
-
-      setChatMessages(prev => [...prev, aiMessage]);
-      setIsTyping(false);
-    }, 1500);
+    askCoach(question);
   };
 
   const askQuickQuestion = (question: string) => {
-    const userMessage: ChatMessage = {
-      id: `msg-${Date.now()}`,
-      type: 'user',
-      message: question,
-      timestamp: new Date()
-    };
-
-    setChatMessages(prev => [...prev, userMessage]);
-    setIsTyping(true);
-
-    setTimeout(() => {
-      const aiResponse = generateAIResponse(question);
-      const aiMessage: ChatMessage = {
-        id: `msg-${Date.now() + 1}`,
-        type: 'ai',
-        message: aiResponse,
-        timestamp: new Date()
-      };
-
-      setChatMessages(prev => [...prev, aiMessage]);
-      setIsTyping(false);
-    }, 1200);
-  };
-
-  const generateAIResponse = (question: string): string => {
-    const lowerQuestion = question.toLowerCase();
-    
-    if (lowerQuestion.includes('improve') || lowerQuestion.includes('better')) {
-      const weakestPillar = Object.entries(pillarScores)
-        .sort(([,a], [,b]) => (a as number) - (b as number))[0];
-      
-      return `Based on your current data, I recommend focusing on your ${weakestPillar[0]} pillar (${weakestPillar[1]}%). Start with 15-minute daily sessions and track your progress. Your ${Object.entries(pillarScores).sort(([,a], [,b]) => (b as number) - (a as number))[0][0]} pillar is performing excellently at ${Object.entries(pillarScores).sort(([,a], [,b]) => (b as number) - (a as number))[0][1]}%!`;
-    }
-    
-    if (lowerQuestion.includes('motivation') || lowerQuestion.includes('stuck')) {
-      return `I see you've completed ${userProfile.totalSessions} sessions with a ${userProfile.streak}-day streak! That's incredible dedication. Remember, every expert was once a beginner. Your consistency is building neural pathways that will serve you for life. Small consistent actions create extraordinary results.`;
-    }
-    
-    if (lowerQuestion.includes('diet') || lowerQuestion.includes('nutrition')) {
-      return `Your diet pillar is at ${pillarScores.diet}%. I recommend focusing on traditional Indian vegetarian meals like dal-chawal with seasonal vegetables. The combination provides complete proteins and supports your overall optimization. Try incorporating more leafy greens and reducing processed foods.`;
-    }
-    
-    if (lowerQuestion.includes('meditation') || lowerQuestion.includes('spiritual')) {
-      return `Your spirit pillar shows great potential at ${pillarScores.spirit}%. Try starting with 10-minute mindfulness sessions focusing on breath awareness. Progress gradually to longer practices. The key is consistency over duration - your brain adapts better with regular practice.`;
-    }
-    
-    if (lowerQuestion.includes('exercise') || lowerQuestion.includes('workout')) {
-      return `Your body pillar is at ${pillarScores.body}%. I suggest a balanced approach: 3 days strength training, 2 days cardio, and 2 days recovery/yoga. Listen to your body and focus on form over intensity. Recovery is where the magic happens!`;
-    }
-
-    if (lowerQuestion.includes('stress') || lowerQuestion.includes('overwhelmed')) {
-      return `I understand feeling overwhelmed. Your heart pillar at ${pillarScores.heart}% suggests working on emotional balance. Try the 4-7-8 breathing technique: inhale for 4, hold for 7, exhale for 8. This activates your parasympathetic nervous system and reduces stress hormones.`;
-    }
-    
-    // Default response with personalized insights
-    return `That's a great question! Based on your current optimization patterns, I suggest focusing on consistency across all pillars. Your strongest area is ${Object.entries(pillarScores).sort(([,a], [,b]) => (b as number) - (a as number))[0][0]} at ${Object.entries(pillarScores).sort(([,a], [,b]) => (b as number) - (a as number))[0][1]}%, which is excellent! Use this strength to support growth in other areas.`;
+    askCoach(question);
   };
 
   const startCoachingSession = async () => {
@@ -368,28 +305,40 @@ const AICoachScreen = () => {
       duration: 0,
       improvement: 0
     });
+    actions.recordRecommendationFeedback(activeCoachingSession.recommendation, 'accepted');
+
+    // Turn the session into a dated multi-week plan that tracks itself against logged sessions
+    const plan = await actions.createCoachingPlan({
+      title: activeCoachingSession.title,
+      pillars: resolvePlanPillars(activeCoachingSession.pillarFocus, pillarScores),
+      actionSteps: activeCoachingSession.actionSteps,
+      expectedOutcome: activeCoachingSession.expectedOutcome,
+      estimatedDuration: activeCoachingSession.estimatedDuration,
+      recommendationId: activeCoachingSession.recommendation.recommendationId
+    });
 
     // Schedule notification for coaching reminder
-    await notificationManager.scheduleAchievementNotification(
-      `AI Coaching Session Started: ${activeCoachingSession.title}`,
-      activeCoachingSession.pillarFocus[0] || 'overall'
+    await notifications.sendInsightUpdate(
+      'AI Coaching Session Started',
+      activeCoachingSession.title,
+      activeCoachingSession.pillarFocus[0]
     );
     
     Alert.alert(
       '🤖 AI Coaching Started!',
-      `Beginning personalized coaching session: ${activeCoachingSession.title}. I'll guide you through each step.`,
+      `Beginning personalized coaching session: ${activeCoachingSession.title}. ` +
+        `I've laid it out as a ${plan.weeks}-week plan with ${plan.tasks.length} sessions - you'll find it on your home screen.`,
       [{ text: 'Let\'s Begin!', style: 'default' }]
     );
     
     // Add coaching start message
-    const coachingMessage: ChatMessage = {
-      id: `msg-${Date.now()}`,
-      type: 'ai',
-      message: `🎯 Coaching Session Active!\n\n${activeCoachingSession.personalizedMessage}\n\nLet's work through this together. Ask me anything about the action steps!`,
-      timestamp: new Date()
-    };
-    
-    setChatMessages(prev => [...prev, coachingMessage]);
+    if (conversation) {
+      const updated = await coach.addCoachMessage(
+        conversation.id,
+        `🎯 Coaching Session Active!\n\n${activeCoachingSession.personalizedMessage}\n\nLet's work through this together. Ask me anything about the action steps!`
+      );
+      if (updated) setConversation(updated);
+    }
   };
 
   const renderCoachPersonality = () => (
@@ -481,7 +430,17 @@ const AICoachScreen = () => {
   const renderAIChat = () => (
     <PerformanceMonitor>
       <View style={styles.chatSection}>
-        <Text style={styles.sectionTitle}>Chat with Your AI Coach</Text>
+        <View style={styles.chatHeader}>
+          <Text style={styles.chatTitle}>Chat with Your AI Coach</Text>
+          <TouchableOpacity
+            style={styles.newChatButton}
+            onPress={startNewConversation}
+            disabled={isTyping}
+          >
+            <Ionicons name="add" size={16} color={Colors.spirit} />
+            <Text style={styles.newChatText}>New Chat</Text>
+          </TouchableOpacity>
+        </View>
         
         <ScrollView 
           style={styles.chatContainer} 
@@ -489,33 +448,43 @@ const AICoachScreen = () => {
           showsVerticalScrollIndicator={false}
           ref={(ref) => ref?.scrollToEnd({ animated: true })}
         >
-          {chatMessages.map((message) => (
+          {(conversation?.messages || []).map((message) => (
             <View 
               key={message.id} 
               style={[
                 styles.messageContainer, 
-                message.type === 'ai' ? styles.aiMessage : styles.userMessage
+                message.role === 'assistant' ? styles.aiMessage : styles.userMessage
               ]}
             >
               <Text style={[
                 styles.messageText,
-                message.type === 'ai' ? styles.aiMessageText : styles.userMessageText
+                message.role === 'assistant' ? styles.aiMessageText : styles.userMessageText
               ]}>
-                {message.message}
+                {message.content}
               </Text>
               <Text style={styles.messageTime}>
-                {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
               </Text>
             </View>
           ))}
+
+          {pendingQuestion && (
+            <View style={[styles.messageContainer, styles.userMessage]}>
+              <Text style={[styles.messageText, styles.userMessageText]}>{pendingQuestion}</Text>
+            </View>
+          )}
           
           {isTyping && (
             <View style={[styles.messageContainer, styles.aiMessage]}>
-              <View style={styles.typingIndicator}>
-                <View style={styles.typingDot} />
-                <View style={styles.typingDot} />
-                <View style={styles.typingDot} />
-              </View>
+              {streamingReply ? (
+                <Text style={[styles.messageText, styles.aiMessageText]}>{streamingReply}</Text>
+              ) : (
+                <View style={styles.typingIndicator}>
+                  <View style={styles.typingDot} />
+                  <View style={styles.typingDot} />
+                  <View style={styles.typingDot} />
+                </View>
+              )}
             </View>
           )}
         </ScrollView>
@@ -820,6 +789,32 @@ const styles = StyleSheet.create({
     marginHorizontal: 20,
     marginBottom: 32,
   },
+  chatHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  chatTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  newChatButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.spirit,
+  },
+  newChatText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.spirit,
+    marginLeft: 4,
+  },
   chatContainer: {
     backgroundColor: Colors.surface,
     borderRadius: 16,
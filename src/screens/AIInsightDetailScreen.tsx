@@ -17,7 +17,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useAppDataSelectors, useAppData } from '../context/AppDataContext';
 import { usePerformanceOptimization, PerformanceMonitor } from '../hooks/usePerformanceOptimization';
 import { safeNavigate, safeGet } from '../utils/SafeNavigation';
-import NotificationManager from '../utils/NotificationManager';
+import NotificationOrchestrator from '../services/NotificationOrchestrator';
 
 const { width } = Dimensions.get('window');
 
@@ -64,7 +64,7 @@ const AIInsightDetailScreen = () => {
   const { actions } = useAppData();
   const { aiInsights, pillarScores, userProfile } = useAppDataSelectors();
   const { measurePerformance } = usePerformanceOptimization();
-  const notificationManager = NotificationManager.getInstance();
+  const notifications = NotificationOrchestrator.getInstance();
 
   // Get insight ID from route params
   const insightId = safeGet(route, 'params.insightId', null);
@@ -242,8 +242,9 @@ const AIInsightDetailScreen = () => {
       });
 
       // Notify completion
-      await notificationManager.scheduleAchievementNotification(
-        `Implementation Step Completed: ${step.title}`,
+      await notifications.sendInsightUpdate(
+        'Implementation Step Completed',
+        step.title,
         insightDetail.pillar
       );
 
@@ -272,8 +273,9 @@ const AIInsightDetailScreen = () => {
     });
 
     // Schedule implementation reminder
-    await notificationManager.scheduleAchievementNotification(
-      `AI Implementation Started: ${insightDetail.title}`,
+    await notifications.sendInsightUpdate(
+      'AI Implementation Started',
+      insightDetail.title,
       insightDetail.pillar
     );
 
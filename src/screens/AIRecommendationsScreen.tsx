@@ -13,7 +13,23 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import AIRecommendationEngine from '../services/OptimizedAIEngine';
+import RecommendationEngine, { AIRecommendation, RECOMMENDATION_CATEGORY_LABELS } from '../services/RecommendationEngine';
+import AdherencePredictor from '../services/AdherencePredictor';
+import type { PillarForecast } from '../services/AdherenceModel';
+import EntitlementService from '../services/EntitlementService';
+import { CATEGORY_ICONS } from '../components/AIRecommendationCard';
+import UpgradePrompt from '../components/UpgradePrompt';
+import { useEntitlement } from '../hooks/useEntitlement';
+import {
+  DismissReason,
+  RecommendationFeedbackStatus,
+  RecommendationFeedbackTarget,
+  useAppData,
+  useAppDataSelectors,
+  useCheckIns,
+  useRecommendationFeedback
+} from '../context/AppDataContext';
+import { DISMISS_REASONS, toFeedbackTarget } from '../utils/recommendationFeedback';
 
 const Colors = {
   background: '#F8FAFC',
@@ -31,31 +47,24 @@ const Colors = {
   critical: '#DC2626',
 };
 
-interface Recommendation {
-  id: string;
-  type: 'optimization' | 'timing' | 'focus' | 'balance' | 'habit';
-  priority: 'critical' | 'high' | 'medium' | 'low';
-  title: string;
-  description: string;
-  pillar: 'body' | 'mind' | 'heart' | 'spirit' | 'diet' | 'overall';
-  actionPlan: string[];
-  expectedImpact: number;
-  confidence: number;
-  timeframe: string;
-  category: string;
-}
-
 const AIRecommendationsScreen = () => {
   const navigation = useNavigation();
   const fadeAnim = React.useRef(new Animated.Value(0)).current;
+  const { sessions, pillarScores, userProfile } = useAppDataSelectors();
+  const { checkIns, today } = useCheckIns();
+  const { actions } = useAppData();
+  const { feedback, history, inProgress, getOpen, getLinkedSessions } = useRecommendationFeedback();
+  const recommendationAccess = useEntitlement('aiRecommendations');
   
-  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+  const [recommendations, setRecommendations] = useState<AIRecommendation[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
+  const [forecast, setForecast] = useState<PillarForecast[]>([]);
+  const [dismissingId, setDismissingId] = useState<string | null>(null);
+  const [lockedCount, setLockedCount] = useState(0);
 
   useEffect(() => {
-    initializeAI();
     Animated.timing(fadeAnim, {
       toValue: 1,
       duration: 600,
@@ -63,12 +72,30 @@ const AIRecommendationsScreen = () => {
     }).start();
   }, []);
 
+  useEffect(() => {
+    initializeAI();
+  }, [sessions, checkIns, pillarScores, userProfile, today, feedback, recommendationAccess.access.tier]);
+
+  useEffect(() => {
+    let cancelled = false;
+    AdherencePredictor.getInstance().forecastTomorrow(sessions, checkIns)
+      .then(result => {
+        if (!cancelled) setForecast(result);
+      })
+      .catch(error => console.error('Error forecasting tomorrow:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessions, checkIns]);
+
   const initializeAI = async () => {
     try {
       setLoading(true);
-      await AIRecommendationEngine.initialize();
-      const recs = await AIRecommendationEngine.generateRecommendations();
-      setRecommendations(recs);
+      const recs = RecommendationEngine.getInstance().generate({ sessions, checkIns, pillarScores, userProfile, feedback, today });
+      // Recommendations already shown today stay visible; new ones count against the daily limit
+      const granted = await EntitlementService.getInstance().consumeEach('aiRecommendations', recs.map(rec => rec.id));
+      setRecommendations(recs.filter(rec => granted.includes(rec.id)));
+      setLockedCount(recs.length - granted.length);
     } catch (error) {
       console.error('Error initializing AI:', error);
     } finally {
@@ -82,6 +109,19 @@ const AIRecommendationsScreen = () => {
     setRefreshing(false);
   };
 
+  const respond = async (
+    target: RecommendationFeedbackTarget,
+    status: RecommendationFeedbackStatus,
+    reason?: DismissReason
+  ) => {
+    try {
+      setDismissingId(null);
+      await actions.recordRecommendationFeedback(target, status, { reason });
+    } catch (error) {
+      console.error('Error saving recommendation feedback:', error);
+    }
+  };
+
   const toggleCard = (id: string) => {
     const newExpanded = new Set(expandedCards);
     if (newExpanded.has(id)) {
@@ -114,17 +154,6 @@ const AIRecommendationsScreen = () => {
     return colors[priority] || Colors.accent;
   };
 
-  const getTypeIcon = (type: string) => {
-    const icons: { [key: string]: keyof typeof Ionicons.glyphMap } = {
-      optimization: 'trending-up',
-      timing: 'time',
-      focus: 'eye',
-      balance: 'scale',
-      habit: 'repeat',
-    };
-    return icons[type] || 'bulb';
-  };
-
   const HeaderComponent = () => (
     <View style={styles.header}>
       <TouchableOpacity 
@@ -161,17 +190,142 @@ const AIRecommendationsScreen = () => {
           <Text style={styles.statLabel}>Priority Actions</Text>
         </View>
         <View style={styles.statCard}>
-          <Text style={styles.statValue}>{Math.round(recommendations.reduce((sum, r) => sum + r.expectedImpact, 0))}</Text>
+          <Text style={styles.statValue}>{Math.round(recommendations.reduce((sum, r) => sum + r.estimatedImpact, 0))}</Text>
           <Text style={styles.statLabel}>Total Impact %</Text>
         </View>
       </View>
     </View>
   );
 
-  const renderRecommendation = ({ item }: { item: Recommendation }) => {
+  const ForecastComponent = () => (
+    <View style={styles.statsContainer}>
+      <Text style={styles.statsTitle}>Tomorrow's Outlook</Text>
+      {forecast.map(pillar => (
+        <View key={pillar.pillar} style={styles.forecastRow}>
+          <View style={[styles.forecastDot, { backgroundColor: getPillarColor(pillar.pillar) }]} />
+          <Text style={styles.forecastPillar}>{pillar.pillar.charAt(0).toUpperCase() + pillar.pillar.slice(1)}</Text>
+          <View style={styles.forecastBar}>
+            <View
+              style={[
+                styles.forecastFill,
+                { width: `${Math.round(pillar.probability * 100)}%`, backgroundColor: getPillarColor(pillar.pillar) }
+              ]}
+            />
+          </View>
+          <Text style={styles.forecastValue}>{Math.round(pillar.probability * 100)}%</Text>
+          <Text style={styles.forecastScore}>{pillar.expectedScore !== null ? `~${pillar.expectedScore}` : '—'}</Text>
+        </View>
+      ))}
+      <Text style={styles.forecastNote}>
+        {forecast.some(pillar => pillar.source === 'model')
+          ? 'Chance of practising each pillar and expected score, learned from your history'
+          : 'Based on your recent habits until there is enough history to learn from'}
+      </Text>
+    </View>
+  );
+
+  // Accepted advice the engine no longer suggests can still be finished
+  const unlistedInProgress = inProgress.filter(entry =>
+    !recommendations.some(recommendation => recommendation.id === entry.recommendationId)
+  );
+
+  const InProgressComponent = () => (
+    <View style={styles.statsContainer}>
+      <Text style={styles.statsTitle}>In Progress</Text>
+      {unlistedInProgress.map(entry => {
+        const practised = getLinkedSessions(entry).length;
+        return (
+          <View key={entry.id} style={styles.historyRow}>
+            <Ionicons name="play-circle" size={20} color={getPillarColor(entry.pillar)} />
+            <View style={styles.historyText}>
+              <Text style={styles.historyTitle}>{entry.title}</Text>
+              <Text style={styles.historyDetail}>{practised} session{practised === 1 ? '' : 's'} since you started</Text>
+            </View>
+            <TouchableOpacity onPress={() => respond(entry, 'completed')}>
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const HistoryComponent = () => (
+    <View style={styles.statsContainer}>
+      <Text style={styles.statsTitle}>What Worked For You</Text>
+      {history.slice(0, 10).map(outcome => (
+        <View key={outcome.feedback.id} style={styles.historyRow}>
+          <Ionicons
+            name={outcome.feedback.status === 'dismissed' ? 'close-circle' : outcome.worked ? 'checkmark-circle' : 'remove-circle'}
+            size={20}
+            color={outcome.feedback.status === 'dismissed' ? Colors.textSecondary : outcome.worked ? Colors.success : Colors.warning}
+          />
+          <View style={styles.historyText}>
+            <Text style={styles.historyTitle}>{outcome.feedback.title}</Text>
+            <Text style={styles.historyDetail}>
+              {outcome.feedback.status === 'dismissed'
+                ? `Dismissed: ${DISMISS_REASONS[outcome.feedback.reason || 'not-relevant']}`
+                : `${outcome.scoreChange !== null && outcome.scoreChange !== 0
+                    ? `${outcome.scoreChange > 0 ? '+' : ''}${outcome.scoreChange} ${outcome.feedback.pillar} score`
+                    : 'No score change'} over ${outcome.sessions} session${outcome.sessions === 1 ? '' : 's'}`}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderFeedbackActions = (item: AIRecommendation, pillarColor: string) => {
+    const open = getOpen(item.id);
+    const accepted = open?.status === 'accepted';
+
+    if (dismissingId === item.id) {
+      return (
+        <View style={styles.feedbackContainer}>
+          <Text style={styles.feedbackPrompt}>Why doesn't this fit?</Text>
+          <View style={styles.reasonChips}>
+            {(Object.keys(DISMISS_REASONS) as DismissReason[]).map(reason => (
+              <TouchableOpacity key={reason} style={styles.reasonChip} onPress={() => respond(toFeedbackTarget(item), 'dismissed', reason)}>
+                <Text style={styles.reasonChipText}>{DISMISS_REASONS[reason]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity onPress={() => setDismissingId(null)}>
+            <Text style={styles.feedbackCancel}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.feedbackContainer}>
+        <TouchableOpacity
+          style={[styles.implementButton, { backgroundColor: accepted ? Colors.success : pillarColor }]}
+          onPress={() => respond(toFeedbackTarget(item), accepted ? 'completed' : 'accepted')}
+        >
+          <Ionicons name={accepted ? 'checkmark-done' : 'rocket'} size={20} color="#FFFFFF" />
+          <Text style={styles.implementText}>{accepted ? 'Mark as Done' : 'Start This Plan'}</Text>
+        </TouchableOpacity>
+        <View style={styles.secondaryActions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => respond(toFeedbackTarget(item), 'snoozed')}>
+            <Ionicons name="alarm-outline" size={16} color={Colors.textSecondary} />
+            <Text style={styles.secondaryText}>Remind Me Later</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setDismissingId(item.id)}>
+            <Ionicons name="close" size={16} color={Colors.textSecondary} />
+            <Text style={styles.secondaryText}>Dismiss</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderRecommendation = ({ item }: { item: AIRecommendation }) => {
     const isExpanded = expandedCards.has(item.id);
     const pillarColor = getPillarColor(item.pillar);
     const priorityColor = getPriorityColor(item.priority);
+    const open = getOpen(item.id);
+    const practised = open?.status === 'accepted' ? getLinkedSessions(open).length : 0;
 
     return (
       <TouchableOpacity
@@ -187,11 +341,11 @@ const AIRecommendationsScreen = () => {
           <View style={styles.cardHeader}>
             <View style={styles.cardHeaderLeft}>
               <View style={[styles.typeIcon, { backgroundColor: pillarColor }]}>
-                <Ionicons name={getTypeIcon(item.type)} size={20} color="#FFFFFF" />
+                <Ionicons name={CATEGORY_ICONS[item.category]} size={20} color="#FFFFFF" />
               </View>
               <View style={styles.cardTitleContainer}>
                 <Text style={styles.cardTitle}>{item.title}</Text>
-                <Text style={styles.cardCategory}>{item.category}</Text>
+                <Text style={styles.cardCategory}>{RECOMMENDATION_CATEGORY_LABELS[item.category]}</Text>
               </View>
             </View>
             
@@ -209,12 +363,20 @@ const AIRecommendationsScreen = () => {
 
           {/* Description */}
           <Text style={styles.cardDescription}>{item.description}</Text>
+          {open?.status === 'accepted' && (
+            <View style={[styles.progressBadge, { backgroundColor: pillarColor + '15' }]}>
+              <Ionicons name="play-circle" size={14} color={pillarColor} />
+              <Text style={[styles.progressText, { color: pillarColor }]}>
+                In progress · {practised} session{practised === 1 ? '' : 's'} since you started
+              </Text>
+            </View>
+          )}
 
           {/* Stats Row */}
           <View style={styles.statsRow}>
             <View style={styles.statItem}>
               <Ionicons name="trending-up" size={16} color={Colors.success} />
-              <Text style={styles.statText}>+{item.expectedImpact}% impact</Text>
+              <Text style={styles.statText}>+{item.estimatedImpact}% impact</Text>
             </View>
             <View style={styles.statItem}>
               <Ionicons name="checkmark-circle" size={16} color={Colors.accent} />
@@ -222,13 +384,25 @@ const AIRecommendationsScreen = () => {
             </View>
             <View style={styles.statItem}>
               <Ionicons name="time" size={16} color={Colors.warning} />
-              <Text style={styles.statText}>{item.timeframe}</Text>
+              <Text style={styles.statText}>{item.timeToResult}</Text>
             </View>
           </View>
 
           {/* Expanded Action Plan */}
           {isExpanded && (
             <View style={styles.actionPlanContainer}>
+              <Text style={styles.actionPlanTitle}>Why This Recommendation:</Text>
+              <Text style={styles.explanationText}>{item.explanation.reason}</Text>
+              {item.explanation.signals.map(signal => (
+                <View key={signal.label} style={styles.signalRow}>
+                  <Text style={styles.signalLabel}>{signal.label}</Text>
+                  <Text style={styles.signalValue}>{signal.value}</Text>
+                </View>
+              ))}
+              {item.explanation.basis && (
+                <Text style={styles.explanationBasis}>{item.explanation.basis}</Text>
+              )}
+
               <Text style={styles.actionPlanTitle}>Recommended Action Plan:</Text>
               {item.actionPlan.map((action, index) => (
                 <View key={index} style={styles.actionItem}>
@@ -239,10 +413,7 @@ const AIRecommendationsScreen = () => {
                 </View>
               ))}
               
-              <TouchableOpacity style={[styles.implementButton, { backgroundColor: pillarColor }]}>
-                <Ionicons name="rocket" size={20} color="#FFFFFF" />
-                <Text style={styles.implementText}>Implement This Plan</Text>
-              </TouchableOpacity>
+              {renderFeedbackActions(item, pillarColor)}
             </View>
           )}
         </LinearGradient>
@@ -250,10 +421,24 @@ const AIRecommendationsScreen = () => {
     );
   };
 
+  const UpgradeComponent = () => (
+    <View style={styles.upgradeContainer}>
+      <Text style={styles.upgradeCount}>
+        {lockedCount} more recommendation{lockedCount === 1 ? '' : 's'} waiting for you
+      </Text>
+      <UpgradePrompt check={recommendationAccess} compact />
+    </View>
+  );
+
   const screenData = [
     { id: 'header', type: 'header' },
     { id: 'stats', type: 'stats' },
-    ...recommendations.map(rec => ({ id: rec.id, type: 'recommendation', data: rec }))
+    ...(forecast.length > 0 ? [{ id: 'forecast', type: 'forecast' }] : []),
+    ...(recommendationAccess.access.status === 'grace' ? [{ id: 'grace', type: 'grace' }] : []),
+    ...recommendations.map(rec => ({ id: rec.id, type: 'recommendation', data: rec })),
+    ...(lockedCount > 0 ? [{ id: 'upgrade', type: 'upgrade' }] : []),
+    ...(unlistedInProgress.length > 0 ? [{ id: 'in-progress', type: 'inProgress' }] : []),
+    ...(history.length > 0 ? [{ id: 'history', type: 'history' }] : [])
   ];
 
   const renderItem = ({ item }: any) => {
@@ -262,6 +447,20 @@ const AIRecommendationsScreen = () => {
         return <HeaderComponent />;
       case 'stats':
         return <StatsComponent />;
+      case 'forecast':
+        return <ForecastComponent />;
+      case 'inProgress':
+        return <InProgressComponent />;
+      case 'history':
+        return <HistoryComponent />;
+      case 'upgrade':
+        return <UpgradeComponent />;
+      case 'grace':
+        return (
+          <View style={styles.upgradeContainer}>
+            <UpgradePrompt check={recommendationAccess} compact />
+          </View>
+        );
       case 'recommendation':
         return renderRecommendation({ item: item.data });
       default:
@@ -328,6 +527,15 @@ const styles = StyleSheet.create({
   flatListContent: {
     paddingBottom: 100,
   },
+  upgradeContainer: {
+    marginHorizontal: 20,
+    marginVertical: 8,
+  },
+  upgradeCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
   statsContainer: {
     backgroundColor: Colors.surface,
     margin: 20,
@@ -364,6 +572,53 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     textAlign: 'center',
   },
+  forecastRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  forecastDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  forecastPillar: {
+    width: 56,
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  forecastBar: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+    marginHorizontal: 8,
+  },
+  forecastFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  forecastValue: {
+    width: 40,
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  forecastScore: {
+    width: 36,
+    fontSize: 12,
+    color: Colors.textSecondary,
+    textAlign: 'right',
+  },
+  forecastNote: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
   recommendationCard: {
     marginHorizontal: 20,
     marginBottom: 16,
@@ -459,6 +714,35 @@ const styles = StyleSheet.create({
     color: Colors.text,
     marginBottom: 16,
   },
+  explanationText: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+    marginTop: -8,
+    marginBottom: 8,
+  },
+  signalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  signalLabel: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  signalValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  explanationBasis: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    lineHeight: 18,
+    marginTop: 8,
+    marginBottom: 16,
+  },
   actionItem: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -500,6 +784,92 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFFFFF',
   },
+  progressBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    marginBottom: 12,
+    gap: 6,
+  },
+  progressText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  feedbackContainer: {
+    marginTop: 8,
+  },
+  secondaryActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  secondaryText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  feedbackPrompt: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  reasonChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reasonChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: Colors.surface,
+  },
+  reasonChipText: {
+    fontSize: 13,
+    color: Colors.text,
+  },
+  feedbackCancel: {
+    fontSize: 14,
+    color: Colors.accent,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+    gap: 10,
+  },
+  historyText: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  historyDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  doneText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.success,
+  },
 });
 
 export default AIRecommendationsScreen;
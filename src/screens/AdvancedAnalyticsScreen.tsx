@@ -1,5 +1,5 @@
 // src/screens/AdvancedAnalyticsScreen.tsx - COMPLETE VICTORY CHARTS DASHBOARD
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -32,10 +32,13 @@ import {
 } from 'victory-native';
 
 import { useAppDataSelectors } from '../context/AppDataContext';
-import AdvancedAnalyticsEngine from '../utils/AdvancedAnalyticsEngine';
+import AdvancedAnalyticsEngine, { AnalyticsSeries, ChartDataPoint, TimeRange } from '../utils/AdvancedAnalyticsEngine';
+import PillarCorrelationMatrix from '../components/PillarCorrelationMatrix';
 import { PremiumAnimations, HapticFeedback } from '../utils/AnimationUtils';
 import { PerformanceMonitor } from '../hooks/usePerformanceOptimization';
 import { safeNavigate, safeGet } from '../utils/SafeNavigation';
+import { useEntitlement } from '../hooks/useEntitlement';
+import UpgradePrompt from '../components/UpgradePrompt';
 
 const { width, height } = Dimensions.get('window');
 
@@ -59,36 +62,37 @@ const AdvancedAnalyticsScreen = () => {
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const analyticsEngine = AdvancedAnalyticsEngine.getInstance();
   
-  const { userProfile, sessionData, pillarScores, achievements } = useAppDataSelectors();
+  const { userProfile, sessions, pillarScores, achievements } = useAppDataSelectors();
+  const analyticsAccess = useEntitlement('advancedAnalytics');
   
-  const [selectedTimeRange, setSelectedTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
+  const [selectedTimeRange, setSelectedTimeRange] = useState<TimeRange>('30d');
   const [selectedChart, setSelectedChart] = useState<string | null>(null);
   const [showChartModal, setShowChartModal] = useState(false);
 
-  // Analytics data
-  const [analyticsData, setAnalyticsData] = useState({
+  // Analytics data - recomputed from the session log whenever it changes
+  const analyticsData = useMemo(() => ({
     neuralRadar: analyticsEngine.generateNeuralRadarData(pillarScores),
-    weeklyProgress: analyticsEngine.generateWeeklyProgressData(sessionData),
-    culturalEngagement: analyticsEngine.generateCulturalEngagementData(userProfile),
+    weeklyProgress: analyticsEngine.generateWeeklyProgressData(sessions),
+    pillarMinutes: analyticsEngine.generatePillarMinutesData(sessions, selectedTimeRange),
     achievementTimeline: analyticsEngine.generateAchievementTimelineData(achievements || []),
-    practiceFrequency: analyticsEngine.generatePracticeFrequencyData(),
-    neuralTrends: analyticsEngine.generateNeuralTrendsData(selectedTimeRange),
-    analyticsSummary: analyticsEngine.getAnalyticsSummary(userProfile, sessionData, pillarScores)
-  });
+    practiceFrequency: analyticsEngine.generatePracticeFrequencyData(sessions, selectedTimeRange),
+    neuralTrends: analyticsEngine.generateNeuralTrendsData(sessions, selectedTimeRange),
+    analyticsSummary: analyticsEngine.getAnalyticsSummary(userProfile, sessions, pillarScores, achievements || [], selectedTimeRange)
+  }), [userProfile, sessions, pillarScores, achievements, selectedTimeRange]);
+
+  const pillarEntries = Object.entries(analyticsData.analyticsSummary.pillars);
+  const strongestPillar = [...pillarEntries].sort(([, a], [, b]) => b.score - a.score)[0];
+  const mostImproved = pillarEntries
+    .filter(([, metrics]) => metrics.change !== null)
+    .sort(([, a], [, b]) => (b.change as number) - (a.change as number))[0];
+  const leastConsistent = [...pillarEntries].sort(([, a], [, b]) => a.consistency - b.consistency)[0];
+  const rangeLabel = selectedTimeRange === '7d' ? '7 days' : selectedTimeRange === '30d' ? '30 days' : '90 days';
 
   useEffect(() => {
     PremiumAnimations.createFadeAnimation(fadeAnim, 1, 800).start();
   }, []);
 
-  useEffect(() => {
-    // Update trends when time range changes
-    setAnalyticsData(prev => ({
-      ...prev,
-      neuralTrends: analyticsEngine.generateNeuralTrendsData(selectedTimeRange)
-    }));
-  }, [selectedTimeRange]);
-
-  const handleTimeRangeChange = (range: '7d' | '30d' | '90d') => {
+  const handleTimeRangeChange = (range: TimeRange) => {
     HapticFeedback.light();
     setSelectedTimeRange(range);
   };
@@ -99,6 +103,22 @@ const AdvancedAnalyticsScreen = () => {
     setShowChartModal(true);
   };
 
+  const renderEmptyState = (chart: AnalyticsSeries<any>) => (
+    <View style={styles.emptyState}>
+      <Ionicons name="hourglass-outline" size={28} color={Colors.textSecondary} />
+      <Text style={styles.emptyStateText}>{chart.emptyMessage}</Text>
+    </View>
+  );
+
+  const describeTrend = (chart: AnalyticsSeries<ChartDataPoint>) => {
+    if (chart.isEmpty) return '';
+    const first = chart.data[0].y;
+    const last = chart.data[chart.data.length - 1].y;
+    if (last - first > 2) return `📈 Up ${Math.round(last - first)} points over the last ${rangeLabel}`;
+    if (first - last > 2) return `📉 Down ${Math.round(first - last)} points over the last ${rangeLabel}`;
+    return `➖ Holding steady over the last ${rangeLabel}`;
+  };
+
   const renderHeader = () => (
     <LinearGradient
       colors={[Colors.accent, Colors.spirit]}
@@ -164,6 +184,7 @@ const AdvancedAnalyticsScreen = () => {
         <Ionicons name="expand" size={16} color={Colors.textSecondary} />
       </View>
 
+      {analyticsData.neuralRadar.isEmpty ? renderEmptyState(analyticsData.neuralRadar) : (
       <View style={styles.chartWrapper}>
         <VictoryChart
           theme={VictoryTheme.material}
@@ -188,7 +209,7 @@ const AdvancedAnalyticsScreen = () => {
             }}
           />
           <VictoryArea
-            data={analyticsData.neuralRadar}
+            data={analyticsData.neuralRadar.data}
             animate={{
               duration: 1000,
               onLoad: { duration: 500 }
@@ -203,7 +224,7 @@ const AdvancedAnalyticsScreen = () => {
             }}
           />
           <VictoryScatter
-            data={analyticsData.neuralRadar}
+            data={analyticsData.neuralRadar.data}
             size={4}
             style={{
               data: { fill: Colors.accent }
@@ -211,12 +232,15 @@ const AdvancedAnalyticsScreen = () => {
           />
         </VictoryChart>
       </View>
+      )}
 
-      <View style={styles.chartFooter}>
-        <Text style={styles.chartInsight}>
-          🧠 Spirit pillar showing strongest neural optimization
-        </Text>
-      </View>
+      {!analyticsData.neuralRadar.isEmpty && strongestPillar && (
+        <View style={styles.chartFooter}>
+          <Text style={styles.chartInsight}>
+            🧠 {strongestPillar[0].charAt(0).toUpperCase() + strongestPillar[0].slice(1)} pillar is your strongest at {Math.round(strongestPillar[1].score)}%
+          </Text>
+        </View>
+      )}
     </TouchableOpacity>
   );
 
@@ -231,6 +255,7 @@ const AdvancedAnalyticsScreen = () => {
         <Ionicons name="expand" size={16} color={Colors.textSecondary} />
       </View>
 
+      {analyticsData.weeklyProgress.isEmpty ? renderEmptyState(analyticsData.weeklyProgress) : (
       <View style={styles.chartWrapper}>
         <VictoryChart
           theme={VictoryTheme.material}
@@ -254,7 +279,7 @@ const AdvancedAnalyticsScreen = () => {
             }}
           />
           <VictoryArea
-            data={analyticsData.weeklyProgress}
+            data={analyticsData.weeklyProgress.data}
             animate={{
               duration: 1000,
               onLoad: { duration: 500 }
@@ -269,7 +294,7 @@ const AdvancedAnalyticsScreen = () => {
             }}
           />
           <VictoryScatter
-            data={analyticsData.weeklyProgress}
+            data={analyticsData.weeklyProgress.data}
             size={3}
             style={{
               data: { fill: Colors.success }
@@ -278,39 +303,43 @@ const AdvancedAnalyticsScreen = () => {
           />
         </VictoryChart>
       </View>
+      )}
 
-      <View style={styles.chartFooter}>
-        <Text style={styles.chartInsight}>
-          📈 Consistent upward trend in neural optimization
-        </Text>
-      </View>
+      {!analyticsData.weeklyProgress.isEmpty && (
+        <View style={styles.chartFooter}>
+          <Text style={styles.chartInsight}>
+            📊 {analyticsData.weeklyProgress.data.filter(point => point.y > 0).length} of the last 7 days had sessions
+          </Text>
+        </View>
+      )}
     </TouchableOpacity>
   );
 
-  const renderCulturalEngagementChart = () => (
+  const renderPillarMinutesChart = () => (
     <TouchableOpacity
       style={styles.chartContainer}
-      onPress={() => handleChartPress('cultural-engagement')}
+      onPress={() => handleChartPress('pillar-minutes')}
     >
       <View style={styles.chartHeader}>
-        <Ionicons name="leaf" size={20} color={Colors.spirit} />
-        <Text style={styles.chartTitle}>Cultural Wisdom Engagement</Text>
+        <Ionicons name="time" size={20} color={Colors.spirit} />
+        <Text style={styles.chartTitle}>Practice Minutes by Pillar</Text>
         <Ionicons name="expand" size={16} color={Colors.textSecondary} />
       </View>
 
+      {analyticsData.pillarMinutes.isEmpty ? renderEmptyState(analyticsData.pillarMinutes) : (
       <View style={styles.chartWrapper}>
         <VictoryChart
           theme={VictoryTheme.material}
           domainPadding={{ x: 20 }}
           width={width - 60}
           height={180}
-          padding={{ top: 20, bottom: 60, left: 50, right: 50 }}
+          padding={{ top: 20, bottom: 40, left: 50, right: 50 }}
           containerComponent={<VictoryContainer responsive={false} />}
         >
           <VictoryAxis 
             style={{
               axis: { stroke: Colors.textSecondary },
-              tickLabels: { fontSize: 10, fill: Colors.text, angle: -45 }
+              tickLabels: { fontSize: 10, fill: Colors.text }
             }}
           />
           <VictoryAxis 
@@ -322,7 +351,7 @@ const AdvancedAnalyticsScreen = () => {
             }}
           />
           <VictoryBar
-            data={analyticsData.culturalEngagement}
+            data={analyticsData.pillarMinutes.data}
             animate={{
               duration: 1000,
               onLoad: { duration: 500 }
@@ -340,12 +369,15 @@ const AdvancedAnalyticsScreen = () => {
           />
         </VictoryChart>
       </View>
+      )}
 
-      <View style={styles.chartFooter}>
-        <Text style={styles.chartInsight}>
-          🕉️ Strong engagement across all cultural practices
-        </Text>
-      </View>
+      {!analyticsData.pillarMinutes.isEmpty && (
+        <View style={styles.chartFooter}>
+          <Text style={styles.chartInsight}>
+            ⏱️ {analyticsData.pillarMinutes.data.reduce((sum, point) => sum + point.y, 0)} minutes practised in the last {rangeLabel}
+          </Text>
+        </View>
+      )}
     </TouchableOpacity>
   );
 
@@ -360,9 +392,10 @@ const AdvancedAnalyticsScreen = () => {
         <Ionicons name="expand" size={16} color={Colors.textSecondary} />
       </View>
 
+      {analyticsData.practiceFrequency.isEmpty ? renderEmptyState(analyticsData.practiceFrequency) : (
       <View style={styles.chartWrapper}>
         <VictoryPie
-          data={analyticsData.practiceFrequency}
+          data={analyticsData.practiceFrequency.data}
           width={width - 60}
           height={200}
           animate={{
@@ -379,12 +412,73 @@ const AdvancedAnalyticsScreen = () => {
           containerComponent={<VictoryContainer responsive={false} />}
         />
       </View>
+      )}
 
-      <View style={styles.chartFooter}>
-        <Text style={styles.chartInsight}>
-          🧘 Meditation and yoga showing highest frequency
-        </Text>
+      {!analyticsData.practiceFrequency.isEmpty && (
+        <View style={styles.chartFooter}>
+          <Text style={styles.chartInsight}>
+            🧘 {analyticsData.practiceFrequency.data[0].x} is your most frequent session type
+          </Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderNeuralTrendsChart = () => (
+    <TouchableOpacity
+      style={styles.chartContainer}
+      onPress={() => handleChartPress('neural-trends')}
+    >
+      <View style={styles.chartHeader}>
+        <Ionicons name="pulse" size={20} color={Colors.accent} />
+        <Text style={styles.chartTitle}>Session Score Trend</Text>
+        <Ionicons name="expand" size={16} color={Colors.textSecondary} />
       </View>
+
+      {analyticsData.neuralTrends.isEmpty ? renderEmptyState(analyticsData.neuralTrends) : (
+      <View style={styles.chartWrapper}>
+        <VictoryChart
+          theme={VictoryTheme.material}
+          domain={{ y: [0, 100] }}
+          width={width - 60}
+          height={180}
+          padding={{ top: 20, bottom: 40, left: 50, right: 50 }}
+          containerComponent={<VictoryContainer responsive={false} />}
+        >
+          <VictoryAxis 
+            tickCount={4}
+            style={{
+              axis: { stroke: Colors.textSecondary },
+              tickLabels: { fontSize: 10, fill: Colors.text }
+            }}
+          />
+          <VictoryAxis 
+            dependentAxis
+            style={{
+              axis: { stroke: Colors.textSecondary },
+              tickLabels: { fontSize: 12, fill: Colors.text },
+              grid: { stroke: `${Colors.textSecondary}20`, strokeWidth: 1 }
+            }}
+          />
+          <VictoryLine
+            data={analyticsData.neuralTrends.data}
+            style={{ data: { stroke: Colors.accent, strokeWidth: 2 } }}
+          />
+          <VictoryScatter
+            data={analyticsData.neuralTrends.data}
+            size={3}
+            style={{ data: { fill: Colors.accent } }}
+            labelComponent={<VictoryTooltip />}
+          />
+        </VictoryChart>
+      </View>
+      )}
+
+      {!analyticsData.neuralTrends.isEmpty && (
+        <View style={styles.chartFooter}>
+          <Text style={styles.chartInsight}>{describeTrend(analyticsData.neuralTrends)}</Text>
+        </View>
+      )}
     </TouchableOpacity>
   );
 
@@ -395,37 +489,51 @@ const AdvancedAnalyticsScreen = () => {
         <Text style={styles.insightsTitle}>AI Neural Insights</Text>
       </View>
 
-      <View style={styles.insightsList}>
-        <View style={styles.insightItem}>
-          <View style={[styles.insightIndicator, { backgroundColor: Colors.success }]} />
-          <View style={styles.insightContent}>
-            <Text style={styles.insightTitle}>Spiritual Optimization Peak</Text>
-            <Text style={styles.insightDescription}>
-              Your Spirit pillar is performing exceptionally well with 94% cultural engagement
-            </Text>
-          </View>
-        </View>
-
-        <View style={styles.insightItem}>
-          <View style={[styles.insightIndicator, { backgroundColor: Colors.warning }]} />
-          <View style={styles.insightContent}>
-            <Text style={styles.insightTitle}>Diet Consistency Opportunity</Text>
-            <Text style={styles.insightDescription}>
-              68% consistency in diet practices suggests room for improvement in nutritional habits
-            </Text>
-          </View>
-        </View>
-
-        <View style={styles.insightItem}>
-          <View style={[styles.insightIndicator, { backgroundColor: Colors.accent }]} />
-          <View style={styles.insightContent}>
-            <Text style={styles.insightTitle}>Cultural Integration Success</Text>
-            <Text style={styles.insightDescription}>
-              89% wisdom engagement shows strong connection with Indian cultural practices
-            </Text>
-          </View>
+      {!analyticsData.analyticsSummary.hasData ? (
+        <Text style={styles.emptyStateText}>
+          Complete a few sessions in the last {rangeLabel} to unlock personalised insights.
+        </Text>
+      ) : (
+        <View style={styles.insightsList}>
+          {strongestPillar && (
+            <View style={styles.insightItem}>
+              <View style={[styles.insightIndicator, { backgroundColor: Colors.success }]} />
+              <View style={styles.insightContent}>
+                <Text style={styles.insightTitle}>Strongest Pillar: {strongestPillar[0].toUpperCase()}</Text>
+                <Text style={styles.insightDescription}>
+                  Scored {Math.round(strongestPillar[1].score)}% with {strongestPillar[1].sessions} sessions in the last {rangeLabel}
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {mostImproved && (
+            <View style={styles.insightItem}>
+              <View style={[styles.insightIndicator, { backgroundColor: Colors.accent }]} />
+              <View style={styles.insightContent}>
+                <Text style={styles.insightTitle}>
+                  {(mostImproved[1].change as number) >= 0 ? 'Most Improved' : 'Smallest Decline'}: {mostImproved[0].toUpperCase()}
+                </Text>
+                <Text style={styles.insightDescription}>
+                  Average session score went from {mostImproved[1].previous}% to {mostImproved[1].current}% compared with the previous {rangeLabel}
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {leastConsistent && (
+            <View style={styles.insightItem}>
+              <View style={[styles.insightIndicator, { backgroundColor: Colors.warning }]} />
+              <View style={styles.insightContent}>
+                <Text style={styles.insightTitle}>{leastConsistent[0].toUpperCase()} Consistency Opportunity</Text>
+                <Text style={styles.insightDescription}>
+                  Practised on {leastConsistent[1].consistency}% of days in the last {rangeLabel}
+                </Text>
+              </View>
+            </View>
+          )}
         </View>
-      </View>
+      )}
     </View>
   );
 
@@ -458,7 +566,7 @@ const AdvancedAnalyticsScreen = () => {
               }}
             />
             <VictoryArea
-              data={analyticsData.neuralRadar}
+              data={analyticsData.neuralRadar.data}
               animate={{ duration: 1000 }}
               style={{
                 data: {
@@ -470,7 +578,7 @@ const AdvancedAnalyticsScreen = () => {
               }}
             />
             <VictoryScatter
-              data={analyticsData.neuralRadar}
+              data={analyticsData.neuralRadar.data}
               size={6}
               style={{ data: { fill: Colors.accent } }}
             />
@@ -520,14 +628,21 @@ const AdvancedAnalyticsScreen = () => {
       <Animated.View style={[styles.container, { opacity: fadeAnim }]}>
         {renderHeader()}
         
-        <ScrollView style={styles.content} contentContainerStyle={styles.contentPadding}>
-          {renderTimeRangeSelector()}
-          {renderNeuralRadarChart()}
-          {renderWeeklyProgressChart()}
-          {renderCulturalEngagementChart()}
-          {renderPracticeFrequencyChart()}
-          {renderInsightsSummary()}
-        </ScrollView>
+        {analyticsAccess.ready && !analyticsAccess.allowed ? (
+          <UpgradePrompt check={analyticsAccess} onDismiss={() => navigation.goBack()} />
+        ) : (
+          <ScrollView style={styles.content} contentContainerStyle={styles.contentPadding}>
+            <UpgradePrompt check={analyticsAccess} compact />
+            {renderTimeRangeSelector()}
+            {renderNeuralRadarChart()}
+            {renderWeeklyProgressChart()}
+            {renderNeuralTrendsChart()}
+            {renderPillarMinutesChart()}
+            <PillarCorrelationMatrix timeRange={selectedTimeRange} />
+            {renderPracticeFrequencyChart()}
+            {renderInsightsSummary()}
+          </ScrollView>
+        )}
 
         {renderExpandedChart()}
       </Animated.View>
@@ -655,6 +770,16 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontStyle: 'italic',
   },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
   insightsContainer: {
     backgroundColor: Colors.surface,
     borderRadius: 16,
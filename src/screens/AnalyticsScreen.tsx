@@ -16,6 +16,8 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useAppDataSelectors, useAppData } from '../context/AppDataContext';
 import { usePerformanceOptimization, PerformanceMonitor } from '../hooks/usePerformanceOptimization';
 import { safeNavigate, safeGet } from '../utils/SafeNavigation';
+import { getPillarScoreChange } from '../utils/pillarScoring';
+import { PILLARS, DAY_MS, toDayKey } from '../utils/sessionAnalytics';
 
 const { width } = Dimensions.get('window');
 
@@ -58,9 +60,8 @@ const AnalyticsScreen = () => {
   
   const {
     pillarScores,
-    sessionHistory,
+    sessions: sessionHistory,
     userProfile,
-    sessionData,
     achievements,
     overallScore,
     isInitialized
@@ -77,7 +78,7 @@ const AnalyticsScreen = () => {
     try {
       // Group sessions by date
       const sessionsByDate = sessions.reduce((acc, session) => {
-        const date = new Date(session.date).toDateString();
+        const date = toDayKey(session.date);
         acc[date] = (acc[date] || 0) + 1;
         return acc;
       }, {});
@@ -108,27 +109,15 @@ const AnalyticsScreen = () => {
     }
   }, []);
 
-  const calculatePreviousScore = useCallback((pillar: string, pillarSessions: any[]): number => {
+  const calculateImprovementRate = useCallback((trends: TrendData[], cutoffDate: Date): number => {
     try {
-      if (pillarSessions.length === 0) return safeGet(pillarScores, pillar, 70);
+      if (trends.length === 0) return 0;
       
-      // Calculate what the score would have been without recent improvements
-      const totalImprovement = pillarSessions.reduce((sum, session) => sum + (session.improvement || 0), 0);
-      return Math.max(50, (safeGet(pillarScores, pillar, 70) - totalImprovement));
-    } catch (error) {
-      console.error('Error calculating previous score:', error);
-      return safeGet(pillarScores, pillar, 70);
-    }
-  }, [pillarScores]);
-
-  const calculateImprovementRate = useCallback((sessions: any[], timeRange: string): number => {
-    try {
-      if (sessions.length === 0) return 0;
+      // Average signed score change across pillars, normalised to a week
+      const totalChange = trends.reduce((sum, trend) => sum + (trend.current - trend.previous), 0);
+      const spanDays = Math.max(1, (Date.now() - cutoffDate.getTime()) / DAY_MS);
       
-      const totalImprovement = sessions.reduce((sum, session) => sum + (session.improvement || 0), 0);
-      const timeSpan = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : 365;
-      
-      return Math.round((totalImprovement / timeSpan) * 7); // Weekly improvement rate
+      return Math.round((totalChange / trends.length / spanDays) * 7);
     } catch (error) {
       console.error('Error calculating improvement rate:', error);
       return 0;
@@ -174,44 +163,43 @@ const AnalyticsScreen = () => {
         }
       });
 
-      // Calculate session analytics - SAFE CALCULATIONS
-      const sessionAnalytics: SessionAnalytics = {
-        totalSessions: filteredSessions.length,
-        totalTime: filteredSessions.reduce((sum, session) => sum + (session.duration || 0), 0),
-        averageSession: filteredSessions.length > 0 
-          ? Math.round(filteredSessions.reduce((sum, session) => sum + (session.duration || 0), 0) / filteredSessions.length)
-          : 0,
-        consistencyScore: calculateConsistencyScore(filteredSessions, selectedTimeRange),
-        mostActivePillar: getMostActivePillar(filteredSessions),
-        improvementRate: calculateImprovementRate(filteredSessions, selectedTimeRange)
-      };
-
-      // Calculate pillar trends - SAFE TREND CALCULATION
-      const pillarTrends: TrendData[] = Object.entries(pillarScores || {}).map(([pillar, currentScore]) => {
+      // Calculate pillar trends - score now versus score at the start of the range
+      const pillarTrends: TrendData[] = PILLARS.map(pillar => {
         try {
-          const pillarSessions = filteredSessions.filter(session => session.pillar === pillar);
-          const previousScore = calculatePreviousScore(pillar, pillarSessions);
-          const change = (currentScore as number) - previousScore;
+          const { current, previous, change } = getPillarScoreChange(sessionHistory || [], pillar, cutoffDate, now);
           
           return {
             pillar,
-            current: currentScore as number,
-            previous: previousScore,
+            current,
+            previous,
             trend: change > 2 ? 'up' : change < -2 ? 'down' : 'stable',
             change: Math.abs(change)
           };
         } catch (error) {
           console.error(`Error calculating trend for ${pillar}:`, error);
+          const currentScore = safeGet(pillarScores, pillar, 0);
           return {
             pillar,
-            current: currentScore as number,
-            previous: currentScore as number,
+            current: currentScore,
+            previous: currentScore,
             trend: 'stable' as const,
             change: 0
           };
         }
       });
 
+      // Calculate session analytics - SAFE CALCULATIONS
+      const sessionAnalytics: SessionAnalytics = {
+        totalSessions: filteredSessions.length,
+        totalTime: filteredSessions.reduce((sum, session) => sum + (session.duration || 0), 0),
+        averageSession: filteredSessions.length > 0 
+          ? Math.round(filteredSessions.reduce((sum, session) => sum + (session.duration || 0), 0) / filteredSessions.length)
+          : 0,
+        consistencyScore: calculateConsistencyScore(filteredSessions, selectedTimeRange),
+        mostActivePillar: getMostActivePillar(filteredSessions),
+        improvementRate: calculateImprovementRate(pillarTrends, cutoffDate)
+      };
+
       return { sessionAnalytics, pillarTrends };
     } catch (error) {
       console.error('Error in analyticsData calculation:', error);
@@ -235,7 +223,7 @@ const AnalyticsScreen = () => {
         }))
       };
     }
-  }, [pillarScores, sessionHistory, selectedTimeRange, calculateConsistencyScore, getMostActivePillar, calculatePreviousScore, calculateImprovementRate]);
+  }, [pillarScores, sessionHistory, selectedTimeRange, calculateConsistencyScore, getMostActivePillar, calculateImprovementRate]);
 
   const renderOverviewCards = () => (
     <PerformanceMonitor>
@@ -248,7 +236,7 @@ const AnalyticsScreen = () => {
             <Text style={styles.overviewValue}>{overallScore || 0}%</Text>
             <Text style={styles.overviewLabel}>Overall Score</Text>
             <Text style={styles.overviewTrend}>
-              +{analyticsData.sessionAnalytics.improvementRate}% this week
+              {analyticsData.sessionAnalytics.improvementRate >= 0 ? '+' : ''}{analyticsData.sessionAnalytics.improvementRate}% this week
             </Text>
           </View>
 
@@ -442,7 +430,7 @@ const AnalyticsScreen = () => {
             <Text style={styles.insightTitle}>Improvement Rate</Text>
           </View>
           <Text style={styles.insightValue}>
-            +{analyticsData.sessionAnalytics.improvementRate}%
+            {analyticsData.sessionAnalytics.improvementRate >= 0 ? '+' : ''}{analyticsData.sessionAnalytics.improvementRate}%
           </Text>
           <Text style={styles.insightDescription}>
             Weekly neural optimization improvement rate
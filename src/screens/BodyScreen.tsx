@@ -309,24 +309,7 @@ const BodyScreen = () => {
         notes: `Completed ${activeWorkout.name} workout`
       });
 
-      // Check for achievements
-      const bodySessionsCount = sessions.filter(s => s.pillar === 'body').length + 1;
-      if (bodySessionsCount === 1) {
-        await actions.addAchievement({
-          title: '💪 First Workout',
-          description: 'Completed your first body practice session',
-          pillar: 'body',
-          rarity: 'common'
-        });
-      } else if (bodySessionsCount === 10) {
-        await actions.addAchievement({
-          title: '🏃‍♂️ Fitness Enthusiast',
-          description: 'Completed 10 body practice sessions',
-          pillar: 'body',
-          rarity: 'rare'
-        });
-      }
-
+      // Session-count achievements are unlocked by the achievement engine
       if (activeWorkout.cultural) {
         await actions.addAchievement({
           title: '🕉️ Cultural Warrior',
@@ -342,7 +325,7 @@ const BodyScreen = () => {
         [{ text: 'Amazing!', style: 'default' }]
       );
     }
-  }, [activeWorkout, currentExercise, actions, sessions]);
+  }, [activeWorkout, currentExercise, actions]);
 
   const handleStopWorkout = useCallback(() => {
     Alert.alert(
@@ -8,6 +8,10 @@ import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { PieChart } from 'react-native-chart-kit';
 import GlassPanel from '../components/GlassPanel';
+import { useAppData, useNutritionLog, useMeasurements, MealEntry, MealItem } from '../context/AppDataContext';
+import { getFood, searchFoods, scaleNutrients, FoodItem } from '../utils/foodDatabase';
+import { mealTypeForTime } from '../utils/nutritionAnalytics';
+import { measurementValue } from '../utils/measurements';
 
 const { width } = Dimensions.get('window');
 
@@ -28,27 +32,37 @@ interface MacroProfile {
   fiber: number;
 }
 
+interface UserStats {
+  age: string;
+  height: string; // cm
+  weight: string; // kg
+  gender: string;
+  activityLevel: string;
+  goal: string;
+}
+
 interface NutritionalGoals {
+  bmr: number;
+  tdee: number;
   calories: number;
   macros: MacroProfile;
   hydration: number;
   mealTiming: string[];
 }
 
-interface FoodItem {
-  name: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fats: number;
-  fiber: number;
-  category: string;
+interface LoggedFood {
+  meal: MealEntry;
+  item: MealItem;
+  food: FoodItem;
 }
 
 const CalorieCalculatorScreen = () => {
   const navigation = useNavigation();
+  const { actions } = useAppData();
+  const { todayMeals, todayNutrition } = useNutritionLog();
+  const { latest } = useMeasurements();
   const [activeTab, setActiveTab] = useState('calculator');
-  const [userStats, setUserStats] = useState({
+  const [userStats, setUserStats] = useState<UserStats>({
     age: '',
     height: '',
     weight: '',
@@ -57,7 +71,8 @@ const CalorieCalculatorScreen = () => {
     goal: 'maintain'
   });
   const [results, setResults] = useState<NutritionalGoals | null>(null);
-  const [dailyLog, setDailyLog] = useState<FoodItem[]>([]);
+  const latestWeight = latest.weight ? Math.round(measurementValue(latest.weight, 'kg') * 10) / 10 : null;
+  const latestHeight = latest.height ? Math.round(measurementValue(latest.height, 'cm')) : null;
   const [showFoodDatabase, setShowFoodDatabase] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const fadeAnim = React.useRef(new Animated.Value(0)).current;
@@ -76,19 +91,6 @@ const CalorieCalculatorScreen = () => {
     'gain': { name: 'Muscle Gain', modifier: 0.15, color: Colors.neonBlue }
   };
 
-  const foodDatabase: FoodItem[] = [
-    { name: 'Chicken Breast (100g)', calories: 165, protein: 31, carbs: 0, fats: 3.6, fiber: 0, category: 'Protein' },
-    { name: 'Brown Rice (100g)', calories: 111, protein: 2.6, carbs: 22, fats: 0.9, fiber: 1.8, category: 'Carbs' },
-    { name: 'Avocado (100g)', calories: 160, protein: 2, carbs: 9, fats: 15, fiber: 7, category: 'Fats' },
-    { name: 'Broccoli (100g)', calories: 34, protein: 2.8, carbs: 7, fats: 0.4, fiber: 2.6, category: 'Vegetables' },
-    { name: 'Almonds (30g)', calories: 170, protein: 6, carbs: 6, fats: 15, fiber: 4, category: 'Nuts' },
-    { name: 'Greek Yogurt (100g)', calories: 59, protein: 10, carbs: 3.6, fats: 0.4, fiber: 0, category: 'Protein' },
-    { name: 'Quinoa (100g)', calories: 120, protein: 4.4, carbs: 22, fats: 1.9, fiber: 2.8, category: 'Carbs' },
-    { name: 'Salmon (100g)', calories: 208, protein: 20, carbs: 0, fats: 13, fiber: 0, category: 'Protein' },
-    { name: 'Sweet Potato (100g)', calories: 86, protein: 1.6, carbs: 20, fats: 0.1, fiber: 3, category: 'Carbs' },
-    { name: 'Spinach (100g)', calories: 23, protein: 2.9, carbs: 3.6, fats: 0.4, fiber: 2.2, category: 'Vegetables' }
-  ];
-
   useEffect(() => {
     Animated.timing(fadeAnim, {
       toValue: 1,
@@ -97,18 +99,49 @@ const CalorieCalculatorScreen = () => {
     }).start();
   }, []);
 
-  const calculateNutrition = () => {
-    const { age, height, weight, gender, activityLevel, goal } = userStats;
+  // Pre-fill from the measurement log, and keep a shown plan in step when a new weight is logged
+  useEffect(() => {
+    if (latestWeight === null && latestHeight === null) return;
+
+    const updated = {
+      ...userStats,
+      ...(latestWeight !== null ? { weight: String(latestWeight) } : {}),
+      ...(latestHeight !== null ? { height: String(latestHeight) } : {})
+    };
+    setUserStats(updated);
+    if (results) {
+      setResults(buildNutritionalGoals(updated));
+    }
+  }, [latestWeight, latestHeight]);
+
+  const calculateNutrition = async () => {
+    const { age, height, weight } = userStats;
     
     if (!age || !height || !weight) {
       Alert.alert('Missing Information', 'Please fill in all required fields');
       return;
     }
 
+    setResults(buildNutritionalGoals(userStats));
+
+    // Remember body stats for next time; the measurement log rejects implausible values
+    const weightNum = parseFloat(weight);
+    const heightNum = parseFloat(height);
+    if (latestWeight === null || Math.abs(weightNum - latestWeight) >= 0.1) {
+      await actions.logMeasurement({ type: 'weight', value: weightNum, unit: 'kg' });
+    }
+    if (latestHeight === null || Math.abs(heightNum - latestHeight) >= 1) {
+      await actions.logMeasurement({ type: 'height', value: heightNum, unit: 'cm' });
+    }
+  };
+
+  const buildNutritionalGoals = (stats: UserStats): NutritionalGoals => {
+    const { age, height, weight, gender, activityLevel, goal } = stats;
+
     // Enhanced BMR calculation (Mifflin-St Jeor Equation)
     const ageNum = parseInt(age);
-    const heightNum = parseInt(height);
-    const weightNum = parseInt(weight);
+    const heightNum = parseFloat(height);
+    const weightNum = parseFloat(weight);
     const activityFactor = parseFloat(activityLevel);
 
     let bmr: number;
@@ -159,43 +192,40 @@ const CalorieCalculatorScreen = () => {
       '9:00 PM - Casein protein (if needed)'
     ];
 
-    const nutritionalGoals: NutritionalGoals = {
+    return {
+      bmr: Math.round(bmr),
+      tdee: Math.round(tdee),
       calories,
       macros,
       hydration: Math.round(weightNum * 0.035), // 35ml per kg body weight
       mealTiming
     };
-
-    setResults(nutritionalGoals);
   };
 
-  const addFoodToLog = (food: FoodItem) => {
-    setDailyLog(prev => [...prev, food]);
-    setShowFoodDatabase(false);
-  };
+  // Today's log is shared with the Diet screen, one row per food per meal
+  const dailyLog: LoggedFood[] = todayMeals.flatMap(meal =>
+    meal.items.flatMap(item => {
+      const food = getFood(item.foodId);
+      return food ? [{ meal, item, food }] : [];
+    })
+  );
 
-  const removeFoodFromLog = (index: number) => {
-    setDailyLog(prev => prev.filter((_, i) => i !== index));
+  const addFoodToLog = async (food: FoodItem) => {
+    setShowFoodDatabase(false);
+    await actions.addFoodToMeal(food.id, mealTypeForTime());
   };
 
-  const getTotalNutrition = () => {
-    return dailyLog.reduce((total, food) => ({
-      calories: total.calories + food.calories,
-      protein: total.protein + food.protein,
-      carbs: total.carbs + food.carbs,
-      fats: total.fats + food.fats,
-      fiber: total.fiber + food.fiber
-    }), { calories: 0, protein: 0, carbs: 0, fats: 0, fiber: 0 });
+  const removeFoodFromLog = async ({ meal, item }: LoggedFood) => {
+    await actions.updateMeal(meal.id, {
+      items: meal.items.filter(existing => existing.foodId !== item.foodId)
+    });
   };
 
   const getProgressPercentage = (current: number, target: number) => {
     return Math.min(Math.round((current / target) * 100), 100);
   };
 
-  const filteredFoods = foodDatabase.filter(food =>
-    food.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    food.category.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const filteredFoods = searchFoods(searchQuery);
 
   const macroChartData = results ? [
     { name: 'Protein', population: results.macros.protein, color: Colors.neonRed, legendFontColor: '#333' },
@@ -337,6 +367,14 @@ const CalorieCalculatorScreen = () => {
             <View style={styles.calorieDisplay}>
               <Text style={styles.calorieValue}>{results.calories}</Text>
               <Text style={styles.calorieLabel}>Daily Calories</Text>
+              <Text style={styles.calorieBreakdown}>
+                BMR {results.bmr} · TDEE {results.tdee}
+              </Text>
+              {latest.weight && (
+                <Text style={styles.calorieBreakdown}>
+                  Using {latestWeight} kg logged {new Date(latest.weight.date).toLocaleDateString()}
+                </Text>
+              )}
             </View>
 
             <View style={styles.macroSummary}>
@@ -405,7 +443,7 @@ const CalorieCalculatorScreen = () => {
   );
 
   const renderTrackingTab = () => {
-    const totalNutrition = getTotalNutrition();
+    const totalNutrition = todayNutrition.totals;
     
     return (
       <ScrollView style={styles.tabContent} showsVerticalScrollIndicator={false}>
@@ -413,7 +451,7 @@ const CalorieCalculatorScreen = () => {
           <View style={styles.macroGrid}>
             <MacroCard
               title="Calories"
-              current={totalNutrition.calories}
+              current={Math.round(totalNutrition.calories)}
               target={results.calories}
               unit=""
               color={Colors.neonGreen}
@@ -434,7 +472,7 @@ const CalorieCalculatorScreen = () => {
             />
             <MacroCard
               title="Fats"
-              current={Math.round(totalNutrition.fats)}
+              current={Math.round(totalNutrition.fat)}
               target={results.macros.fats}
               unit="g"
               color={Colors.neonYellow}
@@ -459,19 +497,24 @@ const CalorieCalculatorScreen = () => {
           {dailyLog.length === 0 ? (
             <Text style={styles.emptyLogText}>No foods logged yet. Tap "ADD FOOD" to start tracking!</Text>
           ) : (
-            dailyLog.map((food, index) => (
-              <View key={index} style={styles.foodLogItem}>
-                <View style={styles.foodInfo}>
-                  <Text style={styles.foodName}>{food.name}</Text>
-                  <Text style={styles.foodStats}>
-                    {food.calories} cal • {food.protein}g protein • {food.carbs}g carbs • {food.fats}g fat
-                  </Text>
+            dailyLog.map(logged => {
+              const nutrients = scaleNutrients(logged.food, logged.item.servings);
+              return (
+                <View key={`${logged.meal.id}_${logged.item.foodId}`} style={styles.foodLogItem}>
+                  <View style={styles.foodInfo}>
+                    <Text style={styles.foodName}>
+                      {logged.food.name} ({logged.item.servings} × {logged.food.serving}) • {logged.meal.mealType}
+                    </Text>
+                    <Text style={styles.foodStats}>
+                      {Math.round(nutrients.calories)} cal • {Math.round(nutrients.protein)}g protein • {Math.round(nutrients.carbs)}g carbs • {Math.round(nutrients.fat)}g fat
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => removeFoodFromLog(logged)}>
+                    <Ionicons name="trash" size={20} color={Colors.neonRed} />
+                  </TouchableOpacity>
                 </View>
-                <TouchableOpacity onPress={() => removeFoodFromLog(index)}>
-                  <Ionicons name="trash" size={20} color={Colors.neonRed} />
-                </TouchableOpacity>
-              </View>
-            ))
+              );
+            })
           )}
         </GlassPanel>
       </ScrollView>
@@ -537,17 +580,17 @@ const CalorieCalculatorScreen = () => {
             </GlassPanel>
 
             <ScrollView style={styles.foodList}>
-              {filteredFoods.map((food, index) => (
-                <GlassPanel key={index} style={{ marginHorizontal: 16, marginBottom: 12 }}>
+              {filteredFoods.map(food => (
+                <GlassPanel key={food.id} style={{ marginHorizontal: 16, marginBottom: 12 }}>
                   <TouchableOpacity
                     style={styles.foodItem}
                     onPress={() => addFoodToLog(food)}
                   >
                     <View style={styles.foodDetails}>
-                      <Text style={styles.foodItemName}>{food.name}</Text>
+                      <Text style={styles.foodItemName}>{food.name} ({food.serving})</Text>
                       <Text style={styles.foodCategory}>{food.category}</Text>
                       <Text style={styles.foodNutrition}>
-                        {food.calories} cal • {food.protein}g protein • {food.carbs}g carbs • {food.fats}g fat
+                        {food.calories} cal • {food.protein}g protein • {food.carbs}g carbs • {food.fat}g fat
                       </Text>
                     </View>
                     <Ionicons name="add" size={24} color={Colors.neonGreen} />
@@ -757,6 +800,11 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontFamily: Platform.OS === 'ios' ? 'SF Mono' : 'monospace',
   },
+  calorieBreakdown: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
   macroSummary: {
     flexDirection: 'row',
     justifyContent: 'space-around',
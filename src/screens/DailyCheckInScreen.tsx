@@ -1,11 +1,12 @@
 // src/screens/DailyCheckInScreen.tsx - MORNING & EVENING CHECK-IN SYSTEM
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   View, 
   Text, 
   StyleSheet, 
   TouchableOpacity, 
   ScrollView,
+  TextInput,
   Platform,
   Animated,
   Dimensions
@@ -13,7 +14,7 @@ import {
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useAppDataSelectors, useAppData } from '../context/AppDataContext';
+import { useAppDataSelectors, useAppData, useCheckIns, CheckIn, CheckInInput } from '../context/AppDataContext';
 import { usePerformanceOptimization, PerformanceMonitor } from '../hooks/usePerformanceOptimization';
 import { safeNavigate, safeGet } from '../utils/SafeNavigation';
 
@@ -39,15 +40,33 @@ interface CheckInData {
   gratitude: string[];
   intention: string;
   reflection: string; // evening only
+  intentionFulfilled: number; // 1-5 scale (evening only)
   pillarFocus: string[];
 }
 
+type ScaleKey = 'energy' | 'stress' | 'sleep' | 'intentionFulfilled';
+
+const GRATITUDE_PROMPTS = 3;
+
+const toCheckInData = (checkIn: CheckIn): CheckInData => ({
+  mood: checkIn.mood,
+  energy: checkIn.energy,
+  stress: checkIn.stress,
+  sleep: checkIn.sleep ?? 3,
+  gratitude: checkIn.gratitude,
+  intention: checkIn.intention || '',
+  reflection: checkIn.reflection || '',
+  intentionFulfilled: checkIn.intentionFulfilled ?? 3,
+  pillarFocus: checkIn.pillarFocus
+});
+
 const DailyCheckInScreen = () => {
   const navigation = useNavigation();
   const route = useRoute();
   const fadeAnim = React.useRef(new Animated.Value(0)).current;
   const { actions } = useAppData();
-  const { userProfile, sessionData, isInitialized } = useAppDataSelectors();
+  const { isInitialized } = useAppDataSelectors();
+  const { morning, evening } = useCheckIns();
   const { measurePerformance } = usePerformanceOptimization();
 
   // Check-in type: morning or evening
@@ -61,13 +80,24 @@ const DailyCheckInScreen = () => {
     gratitude: [],
     intention: '',
     reflection: '',
+    intentionFulfilled: 3,
     pillarFocus: []
   });
 
   const [currentStep, setCurrentStep] = useState(0);
 
+  // Reopening a slot that is already filled in edits it instead of starting over
+  const existingCheckIn = checkInType === 'morning' ? morning : evening;
+  const prefilled = useRef(false);
+  useEffect(() => {
+    if (existingCheckIn && !prefilled.current) {
+      prefilled.current = true;
+      setCheckInData(toCheckInData(existingCheckIn));
+    }
+  }, [existingCheckIn]);
+
   const morningSteps = ['mood', 'energy', 'stress', 'intention', 'focus'];
-  const eveningSteps = ['mood', 'energy', 'sleep', 'reflection', 'gratitude'];
+  const eveningSteps = ['mood', 'energy', 'stress', 'sleep', 'reflection', 'gratitude'];
   
   const steps = checkInType === 'morning' ? morningSteps : eveningSteps;
 
@@ -89,34 +119,31 @@ const DailyCheckInScreen = () => {
 
   const completeCheckIn = async () => {
     try {
-      // Save check-in data
-      const checkInEntry = {
-        id: `checkin_${Date.now()}`,
-        type: checkInType,
-        date: new Date().toISOString(),
-        data: checkInData,
-        timestamp: Date.now()
-      };
-
-      // Add as a session for tracking
-      actions.addSession({
-        pillar: 'overall',
-        duration: 5, // 5 minutes for check-in
-        improvement: 1,
-        type: 'checkin'
-      });
-
-      // Add achievement for first check-in
-      if (sessionData.completedToday === 0) {
-        actions.addAchievement({
-          id: `achievement_first_checkin_${Date.now()}`,
-          title: `First ${checkInType.charAt(0).toUpperCase() + checkInType.slice(1)} Check-in!`,
-          description: `Completed your first daily ${checkInType} reflection`,
-          pillar: 'overall',
-          unlockedDate: new Date().toISOString(),
-          rarity: 'common'
-        });
-      }
+      const gratitude = checkInData.gratitude.map(entry => entry.trim()).filter(Boolean);
+      const checkIn: CheckInInput = checkInType === 'morning'
+        ? {
+            slot: 'morning',
+            mood: checkInData.mood,
+            energy: checkInData.energy,
+            stress: checkInData.stress,
+            gratitude,
+            intention: checkInData.intention || undefined,
+            pillarFocus: checkInData.pillarFocus
+          }
+        : {
+            slot: 'evening',
+            mood: checkInData.mood,
+            energy: checkInData.energy,
+            stress: checkInData.stress,
+            sleep: checkInData.sleep,
+            gratitude,
+            reflection: checkInData.reflection.trim() || undefined,
+            intentionFulfilled: morning?.intention ? checkInData.intentionFulfilled : undefined,
+            pillarFocus: checkInData.pillarFocus
+          };
+
+      // Saving also logs a check-in session the first time a slot is filled in
+      await actions.saveCheckIn(checkIn);
 
       // Navigate back with success
       safeNavigate(navigation, 'Home', { checkInCompleted: true });
@@ -157,51 +184,60 @@ const DailyCheckInScreen = () => {
     </View>
   );
 
-  const renderEnergyStep = () => (
-    <View style={styles.stepContainer}>
-      <Text style={styles.stepTitle}>Energy Level</Text>
-      <Text style={styles.stepSubtitle}>How energetic do you feel?</Text>
-      
-      <View style={styles.scaleContainer}>
-        <View style={styles.scaleLabels}>
-          <Text style={styles.scaleLabel}>Low</Text>
-          <Text style={styles.scaleLabel}>High</Text>
-        </View>
-        
-        <View style={styles.scaleOptions}>
-          {[1, 2, 3, 4, 5].map(level => (
-            <TouchableOpacity
-              key={level}
-              style={[
-                styles.scaleOption,
-                checkInData.energy === level && styles.scaleOptionSelected
-              ]}
-              onPress={() => updateCheckInData('energy', level)}
-            >
-              <Text style={[
-                styles.scaleOptionText,
-                checkInData.energy === level && styles.scaleOptionTextSelected
-              ]}>
-                {level}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </View>
+  const renderScaleStep = (
+    key: ScaleKey,
+    title: string,
+    subtitle: string,
+    labels: [string, string],
+    icon: string,
+    higherIsBetter: boolean = true
+  ) => {
+    const value = checkInData[key];
+    const good = higherIsBetter ? value >= 4 : value <= 2;
+    const bad = higherIsBetter ? value <= 2 : value >= 4;
+
+    return (
+      <View style={styles.stepContainer}>
+        <Text style={styles.stepTitle}>{title}</Text>
+        <Text style={styles.stepSubtitle}>{subtitle}</Text>
         
-        <View style={styles.batteryIndicator}>
-          <Ionicons 
-            name="battery-charging" 
-            size={32} 
-            color={
-              checkInData.energy <= 2 ? '#EF4444' :
-              checkInData.energy <= 3 ? '#F59E0B' :
-              '#10B981'
-            } 
-          />
+        <View style={styles.scaleContainer}>
+          <View style={styles.scaleLabels}>
+            <Text style={styles.scaleLabel}>{labels[0]}</Text>
+            <Text style={styles.scaleLabel}>{labels[1]}</Text>
+          </View>
+          
+          <View style={styles.scaleOptions}>
+            {[1, 2, 3, 4, 5].map(level => (
+              <TouchableOpacity
+                key={level}
+                style={[
+                  styles.scaleOption,
+                  value === level && styles.scaleOptionSelected
+                ]}
+                onPress={() => updateCheckInData(key, level)}
+              >
+                <Text style={[
+                  styles.scaleOptionText,
+                  value === level && styles.scaleOptionTextSelected
+                ]}>
+                  {level}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          
+          <View style={styles.batteryIndicator}>
+            <Ionicons 
+              name={icon as any} 
+              size={32} 
+              color={bad ? '#EF4444' : good ? '#10B981' : '#F59E0B'} 
+            />
+          </View>
         </View>
       </View>
-    </View>
-  );
+    );
+  };
 
   const renderIntentionStep = () => (
     <View style={styles.stepContainer}>
@@ -244,6 +280,63 @@ const DailyCheckInScreen = () => {
     </View>
   );
 
+  const renderReflectionStep = () => (
+    <View style={styles.stepContainer}>
+      <Text style={styles.stepTitle}>Reflect on Your Day</Text>
+      <Text style={styles.stepSubtitle}>
+        {morning?.intention ? 'How did your morning intention unfold?' : 'What stood out about today?'}
+      </Text>
+
+      {morning?.intention ? (
+        <View style={styles.linkedIntention}>
+          <Ionicons name="sunny" size={20} color={Colors.warning} />
+          <Text style={styles.linkedIntentionText}>{morning.intention}</Text>
+        </View>
+      ) : null}
+
+      {morning?.intention ? renderScaleStep(
+        'intentionFulfilled',
+        'Intention Fulfilled',
+        'How well did you live it today?',
+        ['Not at all', 'Fully'],
+        'checkmark-circle'
+      ) : null}
+
+      <TextInput
+        style={styles.textArea}
+        value={checkInData.reflection}
+        onChangeText={text => updateCheckInData('reflection', text)}
+        placeholder="Write a few words about your day..."
+        placeholderTextColor={Colors.textSecondary}
+        multiline
+      />
+    </View>
+  );
+
+  const renderGratitudeStep = () => (
+    <View style={styles.stepContainer}>
+      <Text style={styles.stepTitle}>Gratitude</Text>
+      <Text style={styles.stepSubtitle}>कृतज्ञता - What are you grateful for today?</Text>
+
+      <View style={styles.intentionOptions}>
+        {Array.from({ length: GRATITUDE_PROMPTS }, (_, index) => (
+          <TextInput
+            key={index}
+            style={styles.textInput}
+            value={checkInData.gratitude[index] || ''}
+            onChangeText={text => {
+              const gratitude = [...checkInData.gratitude];
+              gratitude[index] = text;
+              updateCheckInData('gratitude', gratitude);
+            }}
+            placeholder={`${index + 1}. I'm grateful for...`}
+            placeholderTextColor={Colors.textSecondary}
+          />
+        ))}
+      </View>
+    </View>
+  );
+
   const renderFocusStep = () => (
     <View style={styles.stepContainer}>
       <Text style={styles.stepTitle}>Today's Pillar Focus</Text>
@@ -295,19 +388,19 @@ const DailyCheckInScreen = () => {
       case 'mood':
         return renderMoodStep();
       case 'energy':
-        return renderEnergyStep();
+        return renderScaleStep('energy', 'Energy Level', 'How energetic do you feel?', ['Low', 'High'], 'battery-charging');
       case 'stress':
-        return renderEnergyStep(); // Same component, different data
+        return renderScaleStep('stress', 'Stress Level', 'How stressed do you feel?', ['Calm', 'Stressed'], 'pulse', false);
       case 'sleep':
-        return renderEnergyStep(); // Same component, different data
+        return renderScaleStep('sleep', 'Sleep Quality', 'How rested have you felt today?', ['Poor', 'Great'], 'moon');
       case 'intention':
         return renderIntentionStep();
       case 'focus':
         return renderFocusStep();
       case 'reflection':
-        return renderIntentionStep(); // Similar component
+        return renderReflectionStep();
       case 'gratitude':
-        return renderIntentionStep(); // Similar component
+        return renderGratitudeStep();
       default:
         return null;
     }
@@ -558,6 +651,45 @@ const styles = StyleSheet.create({
     color: Colors.spirit,
     fontWeight: '500',
   },
+  linkedIntention: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    padding: 16,
+    marginBottom: 24,
+    borderRadius: 12,
+    backgroundColor: `${Colors.warning}15`,
+  },
+  linkedIntentionText: {
+    fontSize: 16,
+    color: Colors.text,
+    marginLeft: 12,
+    flex: 1,
+    lineHeight: 22,
+  },
+  textInput: {
+    width: '100%',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 16,
+    color: Colors.text,
+  },
+  textArea: {
+    width: '100%',
+    minHeight: 120,
+    padding: 16,
+    marginTop: 24,
+    borderRadius: 12,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 16,
+    color: Colors.text,
+    textAlignVertical: 'top',
+  },
   pillarGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -20,7 +20,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 
 // Real Data Integration
-import { useAppData, useAppDataSelectors } from '../context/AppDataContext';
+import { useAppData, useNutritionLog, MealEntry, MealInput, MealItem } from '../context/AppDataContext';
+import { FoodItem, getFood, findFoodForRecipe, searchFoods, WATER_FOOD_ID } from '../utils/foodDatabase';
+import { mealNutrients, mealTypeForTime, MEAL_TYPES } from '../utils/nutritionAnalytics';
 
 // Components
 import ErrorBoundary from '../components/ErrorBoundary';
@@ -56,13 +58,6 @@ interface Recipe {
   description: string;
   ingredients: string[];
   instructions: string[];
-  nutritionalInfo: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber: number;
-  };
   ayurvedicProperties: {
     taste: string[]; // Sweet, Sour, Salty, Pungent, Bitter, Astringent
     energy: 'heating' | 'cooling' | 'neutral';
@@ -73,21 +68,6 @@ interface Recipe {
   image?: string;
 }
 
-interface MealEntry {
-  id: string;
-  date: string;
-  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  foodItems: Array<{
-    name: string;
-    quantity: string;
-    calories: number;
-  }>;
-  totalCalories: number;
-  mood: 'energized' | 'satisfied' | 'heavy' | 'light' | 'bloated';
-  digestion: 'excellent' | 'good' | 'okay' | 'poor';
-  notes?: string;
-}
-
 interface DoshaAssessment {
   vata: number;
   pitta: number;
@@ -108,10 +88,20 @@ interface SeasonalGuidance {
   generalTips: string[];
 }
 
+// Daily targets until personal targets are calculated from body measurements
+const NUTRITION_TARGETS = {
+  calories: 2000,
+  water: 8 // glasses
+};
+
+const formatGrams = (value: number) => `${Math.round(value)}g`;
+
+const recipeNutrition = (recipe: Recipe): FoodItem | undefined => findFoodForRecipe(recipe.id);
+
 const DietScreen = () => {
   const navigation = useNavigation();
   const { actions } = useAppData();
-  const { userProfile, pillarScores, sessions } = useAppDataSelectors();
+  const { meals, todayNutrition } = useNutritionLog();
   
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -121,24 +111,11 @@ const DietScreen = () => {
   // State
   const [selectedTab, setSelectedTab] = useState<'nutrition' | 'recipes' | 'dosha' | 'seasonal'>('nutrition');
   const [showMealModal, setShowMealModal] = useState(false);
-  const [currentMeal, setCurrentMeal] = useState<Partial<MealEntry>>({});
+  const [currentMeal, setCurrentMeal] = useState<Partial<MealInput>>({});
+  const [foodQuery, setFoodQuery] = useState('');
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
   const [showRecipeModal, setShowRecipeModal] = useState(false);
   
-  // Mock nutrition data
-  const [nutritionMetrics] = useState({
-    dailyCalories: 1847,
-    targetCalories: 2000,
-    protein: 78, // grams
-    carbs: 220,
-    fat: 65,
-    fiber: 28,
-    water: 6, // glasses
-    targetWater: 8,
-    digestiveHealth: 82,
-    doshaBalance: 75,
-  });
-
   // Mock dosha assessment
   const [doshaProfile] = useState<DoshaAssessment>({
     vata: 35,
@@ -153,23 +130,8 @@ const DietScreen = () => {
     ]
   });
 
-  // Recent meal entries
-  const [mealEntries, setMealEntries] = useState<MealEntry[]>([
-    {
-      id: 'meal-1',
-      date: new Date().toISOString(),
-      mealType: 'breakfast',
-      foodItems: [
-        { name: 'Upma', quantity: '1 bowl', calories: 180 },
-        { name: 'Coconut Chutney', quantity: '2 tbsp', calories: 45 },
-        { name: 'Green Tea', quantity: '1 cup', calories: 2 }
-      ],
-      totalCalories: 227,
-      mood: 'energized',
-      digestion: 'excellent',
-      notes: 'Traditional South Indian breakfast felt perfect'
-    }
-  ]);
+  // Newest first
+  const mealEntries = [...meals].reverse();
 
   // Recipe library
   const recipeLibrary: Recipe[] = [
@@ -203,13 +165,6 @@ const DietScreen = () => {
         'Let pressure release naturally',
         'Garnish with cilantro and serve hot'
       ],
-      nutritionalInfo: {
-        calories: 245,
-        protein: 8.5,
-        carbs: 45,
-        fat: 3,
-        fiber: 4.5
-      },
       ayurvedicProperties: {
         taste: ['Sweet', 'Astringent'],
         energy: 'neutral',
@@ -256,13 +211,6 @@ const DietScreen = () => {
         'Add cooked dal, simmer 5 minutes',
         'Garnish with cilantro'
       ],
-      nutritionalInfo: {
-        calories: 195,
-        protein: 12,
-        carbs: 28,
-        fat: 5,
-        fiber: 8
-      },
       ayurvedicProperties: {
         taste: ['Sweet', 'Astringent', 'Pungent'],
         energy: 'heating',
@@ -305,13 +253,6 @@ const DietScreen = () => {
         'Add honey when cooled slightly',
         'Drink warm before bedtime'
       ],
-      nutritionalInfo: {
-        calories: 140,
-        protein: 8,
-        carbs: 12,
-        fat: 6,
-        fiber: 0.5
-      },
       ayurvedicProperties: {
         taste: ['Sweet', 'Pungent', 'Bitter'],
         energy: 'heating',
@@ -358,13 +299,6 @@ const DietScreen = () => {
         'Add cooked rice and salt, mix gently',
         'Simmer for 5 minutes, serve hot'
       ],
-      nutritionalInfo: {
-        calories: 320,
-        protein: 6,
-        carbs: 42,
-        fat: 14,
-        fiber: 3
-      },
       ayurvedicProperties: {
         taste: ['Sweet', 'Astringent'],
         energy: 'cooling',
@@ -478,58 +412,41 @@ const DietScreen = () => {
 
   const openMealModal = useCallback(() => {
     setCurrentMeal({
-      id: `meal-${Date.now()}`,
-      date: new Date().toISOString(),
-      mealType: 'breakfast',
-      foodItems: []
+      mealType: mealTypeForTime(),
+      items: []
     });
+    setFoodQuery('');
     setShowMealModal(true);
   }, []);
 
+  const changeServings = useCallback((foodId: string, delta: number) => {
+    setCurrentMeal(prev => {
+      const items = prev.items || [];
+      const existing = items.find(item => item.foodId === foodId);
+      const updated: MealItem[] = existing
+        ? items.map(item => item.foodId === foodId ? { ...item, servings: item.servings + delta } : item)
+        : [...items, { foodId, servings: delta }];
+      return { ...prev, items: updated.filter(item => item.servings > 0) };
+    });
+  }, []);
+
   const saveMealEntry = useCallback(async () => {
-    if (!currentMeal.foodItems || currentMeal.foodItems.length === 0) {
+    if (!currentMeal.items || currentMeal.items.length === 0) {
       Alert.alert('Add Food Items', 'Please add at least one food item to your meal.');
       return;
     }
 
-    const totalCalories = currentMeal.foodItems.reduce((sum, item) => sum + item.calories, 0);
-    
-    const newEntry: MealEntry = {
-      id: currentMeal.id || `meal-${Date.now()}`,
-      date: currentMeal.date || new Date().toISOString(),
-      mealType: currentMeal.mealType || 'breakfast',
-      foodItems: currentMeal.foodItems,
-      totalCalories,
+    const entry = await actions.logMeal({
+      mealType: currentMeal.mealType || mealTypeForTime(),
+      items: currentMeal.items,
       mood: currentMeal.mood || 'satisfied',
       digestion: currentMeal.digestion || 'good',
-      notes: currentMeal.notes || ''
-    };
-
-    setMealEntries(prev => [newEntry, ...prev.slice(0, 19)]); // Keep last 20 entries
-
-    // Add session
-    await actions.addSession({
-      pillar: 'diet',
-      type: 'practice',
-      duration: 5,
-      date: new Date().toISOString(),
-      score: 75 + Math.floor(Math.random() * 25),
-      mood: 'good',
-      notes: `Logged ${newEntry.mealType}: ${newEntry.totalCalories} calories`
+      notes: currentMeal.notes || undefined
     });
+    const totalCalories = Math.round(mealNutrients(entry).calories);
 
-    // Check for achievements
-    const dietSessionsCount = sessions.filter(s => s.pillar === 'diet').length + 1;
-    if (dietSessionsCount === 1) {
-      await actions.addAchievement({
-        title: '🍽️ Nutrition Journey Begins',
-        description: 'Started tracking your nutritional wellness',
-        pillar: 'diet',
-        rarity: 'common'
-      });
-    }
-
-    if (totalCalories > 0 && totalCalories < 300 && newEntry.mood === 'satisfied') {
+    // Session-count achievements are unlocked by the achievement engine
+    if (totalCalories > 0 && totalCalories < 300 && entry.mood === 'satisfied') {
       await actions.addAchievement({
         title: '🌿 Mindful Eating',
         description: 'Practiced portion control and mindful consumption',
@@ -543,10 +460,14 @@ const DietScreen = () => {
     
     Alert.alert(
       '🍽️ Meal Logged!',
-      `Your ${newEntry.mealType} has been recorded. Keep nourishing your body mindfully.`,
+      `Your ${entry.mealType} (${totalCalories} calories) has been recorded. Keep nourishing your body mindfully.`,
       [{ text: 'Annam Brahma 🙏', style: 'default' }]
     );
-  }, [currentMeal, actions, sessions]);
+  }, [currentMeal, actions]);
+
+  const logWaterGlass = useCallback(async () => {
+    await actions.addFoodToMeal(WATER_FOOD_ID, mealTypeForTime());
+  }, [actions]);
 
   const openRecipeModal = useCallback((recipe: Recipe) => {
     setSelectedRecipe(recipe);
@@ -554,15 +475,15 @@ const DietScreen = () => {
   }, []);
 
   const addRecipeToMeal = useCallback(async (recipe: Recipe) => {
-    await actions.addSession({
-      pillar: 'diet',
-      type: 'practice',
-      duration: recipe.cookTime + recipe.prepTime,
-      date: new Date().toISOString(),
-      score: 80 + Math.floor(Math.random() * 20),
-      mood: 'satisfied',
-      notes: `Prepared ${recipe.name} - ${recipe.ayurvedicProperties.effect}`
-    });
+    const food = recipeNutrition(recipe);
+    if (!food) {
+      setShowRecipeModal(false);
+      Alert.alert('🍳 Nothing to Log', `${recipe.name} has no nutrition details yet, so it can't be added to a meal.`);
+      return;
+    }
+
+    const mealType = MEAL_TYPES.find(type => type === recipe.category) || mealTypeForTime();
+    await actions.addFoodToMeal(food.id, mealType);
 
     if (recipe.ayurvedicProperties.effect === 'tridoshic') {
       await actions.addAchievement({
@@ -656,14 +577,14 @@ const DietScreen = () => {
           <View style={styles.calorieHeader}>
             <Text style={styles.calorieTitle}>Daily Calories</Text>
             <Text style={styles.calorieValue}>
-              {nutritionMetrics.dailyCalories} / {nutritionMetrics.targetCalories}
+              {Math.round(todayNutrition.totals.calories)} / {NUTRITION_TARGETS.calories}
             </Text>
           </View>
           <View style={styles.calorieProgress}>
             <View 
               style={[
                 styles.calorieProgressFill, 
-                { width: `${(nutritionMetrics.dailyCalories / nutritionMetrics.targetCalories) * 100}%` }
+                { width: `${Math.min(100, (todayNutrition.totals.calories / NUTRITION_TARGETS.calories) * 100)}%` }
               ]} 
             />
           </View>
@@ -673,42 +594,42 @@ const DietScreen = () => {
       <View style={styles.macroGrid}>
         <View style={styles.macroCard}>
           <Ionicons name="fitness" size={24} color={Colors.danger} />
-          <Text style={styles.macroValue}>{nutritionMetrics.protein}g</Text>
+          <Text style={styles.macroValue}>{formatGrams(todayNutrition.totals.protein)}</Text>
           <Text style={styles.macroLabel}>Protein</Text>
         </View>
         <View style={styles.macroCard}>
           <Ionicons name="nutrition" size={24} color={Colors.warning} />
-          <Text style={styles.macroValue}>{nutritionMetrics.carbs}g</Text>
+          <Text style={styles.macroValue}>{formatGrams(todayNutrition.totals.carbs)}</Text>
           <Text style={styles.macroLabel}>Carbs</Text>
         </View>
         <View style={styles.macroCard}>
           <Ionicons name="water" size={24} color={Colors.accent} />
-          <Text style={styles.macroValue}>{nutritionMetrics.fat}g</Text>
+          <Text style={styles.macroValue}>{formatGrams(todayNutrition.totals.fat)}</Text>
           <Text style={styles.macroLabel}>Fat</Text>
         </View>
         <View style={styles.macroCard}>
           <Ionicons name="leaf" size={24} color={Colors.diet} />
-          <Text style={styles.macroValue}>{nutritionMetrics.fiber}g</Text>
+          <Text style={styles.macroValue}>{formatGrams(todayNutrition.totals.fiber)}</Text>
           <Text style={styles.macroLabel}>Fiber</Text>
         </View>
       </View>
 
-      <View style={styles.hydrationCard}>
+      <TouchableOpacity style={styles.hydrationCard} onPress={logWaterGlass}>
         <Text style={styles.hydrationTitle}>Hydration</Text>
         <View style={styles.waterGlasses}>
-          {Array.from({ length: nutritionMetrics.targetWater }, (_, index) => (
+          {Array.from({ length: NUTRITION_TARGETS.water }, (_, index) => (
             <Ionicons 
               key={index}
-              name={index < nutritionMetrics.water ? "water" : "water-outline"} 
+              name={index < todayNutrition.water ? "water" : "water-outline"} 
               size={24} 
-              color={index < nutritionMetrics.water ? Colors.accent : Colors.textSecondary} 
+              color={index < todayNutrition.water ? Colors.accent : Colors.textSecondary} 
             />
           ))}
         </View>
         <Text style={styles.hydrationCount}>
-          {nutritionMetrics.water} / {nutritionMetrics.targetWater} glasses
+          {todayNutrition.water} / {NUTRITION_TARGETS.water} glasses • tap to add one
         </Text>
-      </View>
+      </TouchableOpacity>
     </View>
   );
 
@@ -729,52 +650,71 @@ const DietScreen = () => {
           <Text style={styles.emptyMealsSubtext}>Log your first meal to begin your wellness journey</Text>
         </View>
       ) : (
-        mealEntries.slice(0, 5).map(entry => (
-          <View key={entry.id} style={styles.mealEntryCard}>
-            <View style={styles.mealEntryHeader}>
-              <View style={styles.mealInfo}>
-                <Text style={styles.mealType}>
-                  {entry.mealType.charAt(0).toUpperCase() + entry.mealType.slice(1)}
-                </Text>
-                <Text style={styles.mealDate}>
-                  {new Date(entry.date).toLocaleDateString()}
-                </Text>
-              </View>
-              <View style={styles.mealCalories}>
-                <Text style={styles.caloriesText}>{entry.totalCalories}</Text>
-                <Text style={styles.caloriesLabel}>calories</Text>
-              </View>
-            </View>
-            
-            <View style={styles.foodItems}>
-              {entry.foodItems.slice(0, 3).map((food, index) => (
-                <Text key={index} style={styles.foodItem}>
-                  • {food.name} ({food.quantity})
-                </Text>
-              ))}
-              {entry.foodItems.length > 3 && (
-                <Text style={styles.moreFoods}>+{entry.foodItems.length - 3} more items</Text>
-              )}
-            </View>
-            
-            <View style={styles.mealMeta}>
+        mealEntries.slice(0, 5).map(entry => renderMealEntry(entry))
+      )}
+    </View>
+  );
+
+  const renderMealEntry = (entry: MealEntry) => {
+    const foods = entry.items.filter(item => item.foodId !== WATER_FOOD_ID);
+    const nutrients = mealNutrients(entry);
+
+    return (
+      <View key={entry.id} style={styles.mealEntryCard}>
+        <View style={styles.mealEntryHeader}>
+          <View style={styles.mealInfo}>
+            <Text style={styles.mealType}>
+              {entry.mealType.charAt(0).toUpperCase() + entry.mealType.slice(1)}
+            </Text>
+            <Text style={styles.mealDate}>
+              {new Date(entry.date).toLocaleDateString()}
+            </Text>
+          </View>
+          <View style={styles.mealCalories}>
+            <Text style={styles.caloriesText}>{Math.round(nutrients.calories)}</Text>
+            <Text style={styles.caloriesLabel}>calories</Text>
+          </View>
+        </View>
+        
+        <View style={styles.foodItems}>
+          {foods.slice(0, 3).map(item => {
+            const food = getFood(item.foodId);
+            return (
+              <Text key={item.foodId} style={styles.foodItem}>
+                • {food?.name || 'Unknown food'} ({item.servings} × {food?.serving || 'serving'})
+              </Text>
+            );
+          })}
+          {foods.length > 3 && (
+            <Text style={styles.moreFoods}>+{foods.length - 3} more items</Text>
+          )}
+          <Text style={styles.moreFoods}>
+            P {formatGrams(nutrients.protein)} • C {formatGrams(nutrients.carbs)} • F {formatGrams(nutrients.fat)} • Fiber {formatGrams(nutrients.fiber)}
+          </Text>
+        </View>
+        
+        {(entry.mood || entry.digestion) && (
+          <View style={styles.mealMeta}>
+            {entry.mood && (
               <Text style={styles.moodText}>
                 Mood: {entry.mood === 'energized' ? '⚡ Energized' :
                       entry.mood === 'satisfied' ? '😊 Satisfied' :
                       entry.mood === 'heavy' ? '😴 Heavy' :
                       entry.mood === 'light' ? '🪶 Light' : '🤢 Bloated'}
               </Text>
+            )}
+            {entry.digestion && (
               <Text style={styles.digestionText}>
                 Digestion: {entry.digestion === 'excellent' ? '🌟 Excellent' :
                           entry.digestion === 'good' ? '✅ Good' :
                           entry.digestion === 'okay' ? '🤷 Okay' : '😣 Poor'}
               </Text>
-            </View>
+            )}
           </View>
-        ))
-      )}
-    </View>
-  );
+        )}
+      </View>
+    );
+  };
 
   const renderRecipeLibrary = () => (
     <View style={styles.recipeContainer}>
@@ -804,12 +744,14 @@ const DietScreen = () => {
             </View>
           </View>
           
-          <View style={styles.nutritionInfo}>
-            <Text style={styles.caloriesPerServing}>{recipe.nutritionalInfo.calories} cal/serving</Text>
-            <Text style={styles.macroInfo}>
-              P: {recipe.nutritionalInfo.protein}g | C: {recipe.nutritionalInfo.carbs}g | F: {recipe.nutritionalInfo.fat}g
-            </Text>
-          </View>
+          {recipeNutrition(recipe) && (
+            <View style={styles.nutritionInfo}>
+              <Text style={styles.caloriesPerServing}>{recipeNutrition(recipe)!.calories} cal/serving</Text>
+              <Text style={styles.macroInfo}>
+                P: {recipeNutrition(recipe)!.protein}g | C: {recipeNutrition(recipe)!.carbs}g | F: {recipeNutrition(recipe)!.fat}g
+              </Text>
+            </View>
+          )}
 
           <View style={styles.ayurvedicInfo}>
             <View style={[styles.doshaEffect, { backgroundColor: getDoshaColor(recipe.ayurvedicProperties.effect) }]}>
@@ -1087,27 +1029,47 @@ const DietScreen = () => {
                 ))}
               </View>
 
-              {/* Simplified Food Entry */}
+              {/* Food Items */}
               <Text style={styles.modalSectionTitle}>Food Items</Text>
+              {(currentMeal.items || []).map(item => {
+                const food = getFood(item.foodId);
+                return (
+                  <View key={item.foodId} style={styles.selectedFood}>
+                    <Text style={styles.selectedFoodName}>
+                      {food?.name} • {item.servings} × {food?.serving}
+                    </Text>
+                    <TouchableOpacity onPress={() => changeServings(item.foodId, -1)}>
+                      <Ionicons name="remove-circle" size={24} color={Colors.textSecondary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => changeServings(item.foodId, 1)}>
+                      <Ionicons name="add-circle" size={24} color={Colors.diet} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
               <TextInput
                 style={styles.foodInput}
-                placeholder="Enter foods eaten (e.g., 'Rice 1 bowl 200 cal, Dal 1 cup 150 cal')"
-                multiline
-                numberOfLines={3}
-                value={(currentMeal.foodItems || []).map(item => 
-                  `${item.name} ${item.quantity} ${item.calories} cal`
-                ).join(', ')}
-                onChangeText={(text) => {
-                  const items = text.split(',').map(item => {
-                    const parts = item.trim().split(' ');
-                    const calories = parseInt(parts[parts.length - 2]) || 0;
-                    const quantity = parts[parts.length - 3] || '1';
-                    const name = parts.slice(0, -2).join(' ') || 'Food item';
-                    return { name, quantity, calories };
-                  }).filter(item => item.name !== 'Food item');
-                  setCurrentMeal(prev => ({ ...prev, foodItems: items }));
-                }}
+                placeholder="Search foods and recipes..."
+                value={foodQuery}
+                onChangeText={setFoodQuery}
               />
+              <View style={styles.foodResults}>
+                {searchFoods(foodQuery).slice(0, 8).map(food => (
+                  <TouchableOpacity
+                    key={food.id}
+                    style={styles.foodResult}
+                    onPress={() => changeServings(food.id, 1)}
+                  >
+                    <View style={styles.foodResultInfo}>
+                      <Text style={styles.selectedFoodName}>{food.name} ({food.serving})</Text>
+                      <Text style={styles.foodResultMeta}>
+                        {food.calories} cal • P {food.protein}g • C {food.carbs}g • F {food.fat}g • Fiber {food.fiber}g
+                      </Text>
+                    </View>
+                    <Ionicons name="add" size={20} color={Colors.diet} />
+                  </TouchableOpacity>
+                ))}
+              </View>
 
               {/* Mood */}
               <Text style={styles.modalSectionTitle}>How do you feel?</Text>
@@ -1191,7 +1153,9 @@ const DietScreen = () => {
                   <View style={styles.recipeModalMeta}>
                     <Text style={styles.recipeModalTime}>⏱️ {selectedRecipe.prepTime + selectedRecipe.cookTime} min</Text>
                     <Text style={styles.recipeModalServings}>🍽️ {selectedRecipe.servings} servings</Text>
-                    <Text style={styles.recipeModalCalories}>🔥 {selectedRecipe.nutritionalInfo.calories} cal/serving</Text>
+                    {recipeNutrition(selectedRecipe) && (
+                      <Text style={styles.recipeModalCalories}>🔥 {recipeNutrition(selectedRecipe)!.calories} cal/serving</Text>
+                    )}
                   </View>
 
                   <Text style={styles.ingredientsTitle}>Ingredients</Text>
@@ -1926,12 +1890,43 @@ const styles = StyleSheet.create({
     padding: 16,
     fontSize: 16,
     color: Colors.text,
-    textAlignVertical: 'top',
-    minHeight: 100,
     borderWidth: 1,
     borderColor: '#E5E7EB',
+    marginBottom: 12,
+  },
+  selectedFood: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: Colors.dietLight,
+  },
+  selectedFoodName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  foodResults: {
     marginBottom: 20,
   },
+  foodResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  foodResultInfo: {
+    flex: 1,
+  },
+  foodResultMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
   moodOptions: {
     flexDirection: 'row',
     flexWrap: 'wrap',
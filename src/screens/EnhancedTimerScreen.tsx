@@ -8,6 +8,10 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Audio } from 'expo-av';
+import { useAppData } from '../context/AppDataContext';
+import type { SessionData as LoggedSession } from '../context/AppDataContext';
+import { useEntitlement } from '../hooks/useEntitlement';
+import UpgradePrompt from '../components/UpgradePrompt';
 
 const { width, height } = Dimensions.get('window');
 
@@ -54,10 +58,18 @@ interface NeuralMetrics {
   overallScore: number;
 }
 
+const TIMER_SESSION_TYPES: Record<string, LoggedSession['type']> = {
+  body: 'exercise',
+  mind: 'meditation'
+};
+
 const EnhancedTimerScreen = () => {
   const navigation = useNavigation();
   const route = useRoute();
   const { pillar, sessionData } = route.params as { pillar: string; sessionData: SessionData };
+  const { actions } = useAppData();
+  const timerAccess = useEntitlement('timerSessions');
+  const sessionLogged = useRef(false);
 
   // Timer State
   const [totalDuration, setTotalDuration] = useState(0);
@@ -353,6 +365,12 @@ const EnhancedTimerScreen = () => {
     }, 1000);
   };
 
+  // Starting needs a timer session left today; it's only counted once the session is logged
+  const beginSession = async () => {
+    if (!timerAccess.allowed) return;
+    await startTimer();
+  };
+
   const pauseTimer = async () => {
     if (timerInterval.current) {
       clearInterval(timerInterval.current);
@@ -393,6 +411,24 @@ const EnhancedTimerScreen = () => {
     
     setIsRunning(false);
     await playSound('complete');
+
+    // Log the finished session once, and count it against the daily timer limit
+    if (!sessionLogged.current) {
+      sessionLogged.current = true;
+      try {
+        const session = await actions.addSession({
+          pillar,
+          type: TIMER_SESSION_TYPES[pillar] || 'practice',
+          duration: Math.round(totalDuration / 60),
+          date: new Date().toISOString(),
+          score: Math.round(neuralMetrics.overallScore),
+          mood: 'good'
+        });
+        await timerAccess.consume(session.id);
+      } catch (error) {
+        console.error('Error logging timer session:', error);
+      }
+    }
     
     // Show completion celebration
     showCompletionCelebration();
@@ -539,8 +575,14 @@ const EnhancedTimerScreen = () => {
 
   const renderControls = () => (
     <View style={styles.controlsContainer}>
-      {!isRunning && !isPaused ? (
-        <TouchableOpacity style={[styles.controlButton, styles.startButton]} onPress={startTimer}>
+      {!isRunning && !isPaused && timerAccess.ready && !timerAccess.allowed ? (
+        <UpgradePrompt check={timerAccess} onDismiss={() => navigation.goBack()} />
+      ) : !isRunning && !isPaused ? (
+        <TouchableOpacity
+          style={[styles.controlButton, styles.startButton]}
+          onPress={beginSession}
+          disabled={!timerAccess.ready}
+        >
           <Ionicons name="play" size={32} color="#FFFFFF" />
           <Text style={styles.controlButtonText}>Begin Session</Text>
         </TouchableOpacity>
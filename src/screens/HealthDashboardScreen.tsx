@@ -2,13 +2,25 @@
 import React, { useState, useEffect } from 'react';
 import {
   View, Text, StyleSheet, ScrollView, TouchableOpacity,
-  Dimensions, Platform, Animated
+  Dimensions, Platform, Animated, Modal, TextInput, Alert
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { LineChart, BarChart } from 'react-native-chart-kit';
 import GlassPanel from '../components/GlassPanel';
 import { AdvancedHealthMetrics } from '../services/AdvancedHealthMetrics';
+import { HealthProvenance } from '../services/HealthHistoryStore';
+import EventBus from '../services/EventBus';
+import UpgradePrompt from '../components/UpgradePrompt';
+import EntitlementService from '../services/EntitlementService';
+import { useEntitlement } from '../hooks/useEntitlement';
+import { useAppData, useMeasurements, Measurement, MeasurementType, MeasurementUnit } from '../context/AppDataContext';
+import {
+  MEASUREMENT_DEFINITIONS,
+  MEASUREMENT_TYPES,
+  formatMeasurement,
+  validateMeasurementInput
+} from '../utils/measurements';
 
 const { width } = Dimensions.get('window');
 
@@ -22,13 +34,44 @@ const Colors = {
   surface: { secondary: '#F8FAFC' }
 };
 
+const PROVENANCE_LABELS: Record<HealthProvenance, string> = {
+  device: 'Device',
+  manual: 'Manual',
+  estimated: 'Estimated'
+};
+
+const MEASUREMENT_CHART_DAYS = 30;
+
+interface MeasurementDraft {
+  type: MeasurementType;
+  unit: MeasurementUnit;
+  value: string;
+  secondaryValue: string;
+  notes: string;
+}
+
+// +1 / -1 when the latest value is above / below the average of the earlier ones
+const trendDirection = (series: (number | null)[]) => {
+  const values = series.filter((value): value is number => value !== null);
+  if (values.length < 2) return 0;
+  const latest = values[values.length - 1];
+  const earlier = values.slice(0, -1);
+  const average = earlier.reduce((sum, value) => sum + value, 0) / earlier.length;
+  return latest > average ? 1 : latest < average ? -1 : 0;
+};
+
 const HealthDashboardScreen = () => {
   const navigation = useNavigation();
   const [healthData, setHealthData] = useState(null);
   const [selectedMetric, setSelectedMetric] = useState('overall');
   const [trends, setTrends] = useState(null);
+  const [chartMeasurement, setChartMeasurement] = useState<MeasurementType>('weight');
+  const [measurementDraft, setMeasurementDraft] = useState<MeasurementDraft | null>(null);
   const fadeAnim = React.useRef(new Animated.Value(0)).current;
   const healthMetrics = AdvancedHealthMetrics.getInstance();
+  const { actions } = useAppData();
+  const { getEntries, getHistory, getUnit } = useMeasurements();
+  const healthAccess = useEntitlement('healthIntegration');
 
   useEffect(() => {
     Animated.timing(fadeAnim, {
@@ -37,12 +80,26 @@ const HealthDashboardScreen = () => {
       useNativeDriver: true,
     }).start();
 
-    loadHealthData();
+    // Low priority so the health history has already taken the change in
+    const bus = EventBus.getInstance();
+    const unsubscribers = [
+      bus.subscribe('measurement.logged', () => loadHealthData(), { label: 'health-dashboard', priority: -10 }),
+      bus.subscribe('measurement.deleted', () => loadHealthData(), { label: 'health-dashboard', priority: -10 })
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
   }, []);
 
+  // Wait for the plan so a premium user's wearable is imported on the first load
+  useEffect(() => {
+    if (healthAccess.ready) loadHealthData();
+  }, [healthAccess.ready, healthAccess.allowed]);
+
   const loadHealthData = async () => {
     try {
-      const assessment = await healthMetrics.generateHealthAssessment();
+      // Manual measurements and check-ins are free; only importing from devices needs the plan
+      const entitlements = EntitlementService.getInstance();
+      await entitlements.ready();
+      const assessment = await healthMetrics.generateHealthAssessment(entitlements.can('healthIntegration'));
       const healthTrends = await healthMetrics.getHealthTrends(14);
       
       setHealthData(assessment);
@@ -52,6 +109,39 @@ const HealthDashboardScreen = () => {
     }
   };
 
+  const openMeasurementForm = (type: MeasurementType) => {
+    setMeasurementDraft({ type, unit: getUnit(type), value: '', secondaryValue: '', notes: '' });
+  };
+
+  const saveMeasurement = async () => {
+    if (!measurementDraft) return;
+
+    const { type, unit, value, secondaryValue, notes } = measurementDraft;
+    const input = {
+      type,
+      unit,
+      value: parseFloat(value),
+      ...(MEASUREMENT_DEFINITIONS[type].secondary ? { secondaryValue: parseFloat(secondaryValue) } : {}),
+      ...(notes.trim() ? { notes: notes.trim() } : {})
+    };
+    const invalid = validateMeasurementInput(input);
+    if (invalid) {
+      Alert.alert('Check the value', invalid);
+      return;
+    }
+
+    await actions.logMeasurement(input);
+    setChartMeasurement(type);
+    setMeasurementDraft(null);
+  };
+
+  const confirmDeleteMeasurement = (measurement: Measurement) => {
+    Alert.alert('Delete entry?', formatMeasurement(measurement), [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => actions.deleteMeasurement(measurement.id) }
+    ]);
+  };
+
   const chartConfig = {
     backgroundGradientFrom: '#ffffff',
     backgroundGradientTo: '#ffffff',
@@ -116,7 +206,22 @@ const HealthDashboardScreen = () => {
   );
 
   const BiometricDisplay = ({ label, value, unit, normal, icon, color }) => {
-    const isNormal = value >= normal.min && value <= normal.max;
+    if (!value) {
+      return (
+        <View style={styles.biometricItem}>
+          <View style={styles.biometricHeader}>
+            <Ionicons name={icon} size={20} color={color} />
+            <Text style={styles.biometricLabel}>{label}</Text>
+          </View>
+          <Text style={[styles.biometricValue, { color: '#999' }]}>—</Text>
+          <Text style={styles.biometricStatus}>No reading yet</Text>
+        </View>
+      );
+    }
+
+    const isBloodPressure = 'systolic' in value;
+    const reading = isBloodPressure ? value.systolic : value;
+    const isNormal = reading.value >= normal.min && reading.value <= normal.max;
     
     return (
       <View style={styles.biometricItem}>
@@ -126,12 +231,14 @@ const HealthDashboardScreen = () => {
         </View>
         <View style={styles.biometricValueContainer}>
           <Text style={[styles.biometricValue, { color: isNormal ? Colors.neonGreen : Colors.neonRed }]}>
-            {typeof value === 'object' ? `${value.systolic}/${value.diastolic}` : value.toFixed(1)}
+            {isBloodPressure
+              ? `${Math.round(value.systolic.value)}/${Math.round(value.diastolic.value)}`
+              : reading.value.toFixed(1)}
           </Text>
           <Text style={styles.biometricUnit}>{unit}</Text>
         </View>
         <Text style={styles.biometricStatus}>
-          {isNormal ? 'Normal' : 'Outside Range'}
+          {isNormal ? 'Normal' : 'Outside Range'} · {PROVENANCE_LABELS[reading.provenance]} · {reading.day.slice(5)}
         </Text>
       </View>
     );
@@ -146,35 +253,49 @@ const HealthDashboardScreen = () => {
     }
   };
 
-  const getMetricData = () => {
-    if (!trends) return { labels: [], datasets: [{ data: [] }] };
-    
-    const labels = Array.from({ length: 14 }, (_, i) => `${i + 1}`);
-    
+  const getMetricSeries = () => {
     switch (selectedMetric) {
       case 'sleep':
-        return {
-          labels,
-          datasets: [{ data: trends.sleepTrend, color: () => Colors.neonBlue }]
-        };
+        return { series: trends.sleepTrend, color: Colors.neonBlue };
       case 'stress':
-        return {
-          labels,
-          datasets: [{ data: trends.stressTrend, color: () => Colors.neonRed }]
-        };
+        return { series: trends.stressTrend, color: Colors.neonRed };
       case 'energy':
-        return {
-          labels,
-          datasets: [{ data: trends.energyTrend, color: () => Colors.neonYellow }]
-        };
+        return { series: trends.energyTrend, color: Colors.neonYellow };
       default:
-        return {
-          labels,
-          datasets: [{ data: trends.overallTrend, color: () => Colors.neonGreen }]
-        };
+        return { series: trends.overallTrend, color: Colors.neonGreen };
     }
   };
 
+  // Days without data are left out rather than drawn as zero
+  const getMetricData = () => {
+    if (!trends) return { labels: [], datasets: [{ data: [] }] };
+
+    const { series, color } = getMetricSeries();
+    const points = trends.days
+      .map((day, index) => ({ day, value: series[index] }))
+      .filter(point => point.value !== null);
+
+    return {
+      labels: points.map(point => point.day.slice(8)),
+      datasets: [{ data: points.map(point => point.value), color: () => color }]
+    };
+  };
+
+  // One point per day with entries; blood pressure draws diastolic as a second line
+  const getMeasurementChartData = () => {
+    const unit = getUnit(chartMeasurement);
+    const points = getHistory(chartMeasurement, MEASUREMENT_CHART_DAYS, unit).filter(point => point.value !== null);
+    const secondary = MEASUREMENT_DEFINITIONS[chartMeasurement].secondary;
+
+    return {
+      labels: points.map(point => point.day.slice(5)),
+      datasets: [
+        { data: points.map(point => point.value), color: () => Colors.neonPurple },
+        ...(secondary ? [{ data: points.map(point => point.secondaryValue ?? 0), color: () => Colors.neonBlue }] : [])
+      ]
+    };
+  };
+
   if (!healthData) {
     return (
       <View style={[styles.container, styles.centerContent]}>
@@ -204,10 +325,11 @@ const HealthDashboardScreen = () => {
           <GlassPanel style={styles.overallScorePanel}>
             <Text style={styles.overallScoreTitle}>Overall Wellness Score</Text>
             <Text style={[styles.overallScoreValue, { color: Colors.neonGreen }]}>
-              {healthData.overallScore}/100
+              {healthData.overallScore === null ? '—' : `${healthData.overallScore}/100`}
             </Text>
             <Text style={styles.overallScoreSubtitle}>
-              {healthData.overallScore >= 85 ? 'Excellent' :
+              {healthData.overallScore === null ? 'Check in or connect a wearable to get a score' :
+               healthData.overallScore >= 85 ? 'Excellent' :
                healthData.overallScore >= 70 ? 'Good' :
                healthData.overallScore >= 55 ? 'Fair' : 'Needs Attention'}
             </Text>
@@ -217,32 +339,32 @@ const HealthDashboardScreen = () => {
           <View style={styles.metricsGrid}>
             <HealthScoreCard
               title="Sleep Quality"
-              score={`${healthData.sleep.sleepScore}/100`}
-              subtitle="Last night"
+              score={healthData.sleep ? `${healthData.sleep.sleepScore}/100` : '—'}
+              subtitle={healthData.sleep ? PROVENANCE_LABELS[healthData.sleep.provenance] : 'No sleep data'}
               icon="bed"
               color={Colors.neonBlue}
-              trend={2}
+              trend={trends ? trendDirection(trends.sleepTrend) : 0}
             />
             <HealthScoreCard
               title="Stress Level"
-              score={`${healthData.stress.stressLevel}/10`}
+              score={healthData.stress.stressLevel === null ? '—' : `${healthData.stress.stressLevel}/10`}
               subtitle="Current state"
               icon="heart-circle"
               color={Colors.neonRed}
-              trend={-1}
+              trend={trends ? trendDirection(trends.stressTrend) : 0}
             />
             <HealthScoreCard
               title="Nutrition Score"
-              score={`${healthData.nutrition.nutritionScore}/100`}
-              subtitle="Today's intake"
+              score={healthData.nutrition ? `${healthData.nutrition.nutritionScore}/100` : '—'}
+              subtitle={healthData.nutrition ? 'Last 7 days of meals' : 'No meals logged'}
               icon="nutrition"
               color={Colors.neonGreen}
-              trend={1}
+              trend={0}
             />
             <HealthScoreCard
               title="HRV"
-              score={`${healthData.stress.hrv}ms`}
-              subtitle="Recovery indicator"
+              score={healthData.stress.hrv ? `${Math.round(healthData.stress.hrv.value)}ms` : '—'}
+              subtitle={healthData.stress.hrv ? PROVENANCE_LABELS[healthData.stress.hrv.provenance] : 'No HRV data'}
               icon="pulse"
               color={Colors.neonPurple}
               trend={0}
@@ -273,7 +395,13 @@ const HealthDashboardScreen = () => {
               ))}
             </View>
 
-            {trends && (
+            {trends && getMetricData().labels.length < 2 && (
+              <Text style={styles.emptyChartText}>
+                Not enough data yet. Daily check-ins and wearable syncs fill this in.
+              </Text>
+            )}
+
+            {trends && getMetricData().labels.length >= 2 && (
               <LineChart
                 data={getMetricData()}
                 width={width - 64}
@@ -287,12 +415,18 @@ const HealthDashboardScreen = () => {
 
           {/* Biometric Details */}
           <GlassPanel style={styles.biometricsPanel}>
-            <Text style={styles.sectionTitle}>💓 Current Biometrics</Text>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>💓 Current Biometrics</Text>
+              <TouchableOpacity style={styles.logVitalsButton} onPress={() => openMeasurementForm('bloodPressure')}>
+                <Ionicons name="add-circle" size={18} color={Colors.neonBlue} />
+                <Text style={styles.logVitalsText}>Log</Text>
+              </TouchableOpacity>
+            </View>
             
             <View style={styles.biometricsGrid}>
               <BiometricDisplay
                 label="Heart Rate"
-                value={healthData.biometrics.heartRate}
+                value={healthData.biometrics.restingHeartRate || healthData.biometrics.heartRate}
                 unit="bpm"
                 normal={{ min: 60, max: 85 }}
                 icon="heart"
@@ -325,40 +459,108 @@ const HealthDashboardScreen = () => {
             </View>
           </GlassPanel>
 
+          {/* Measurements */}
+          <GlassPanel style={styles.biometricsPanel}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>📏 Measurements</Text>
+              <TouchableOpacity style={styles.logVitalsButton} onPress={() => openMeasurementForm(chartMeasurement)}>
+                <Ionicons name="add-circle" size={18} color={Colors.neonBlue} />
+                <Text style={styles.logVitalsText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.measurementChips}>
+              {MEASUREMENT_TYPES.map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.metricButton, styles.measurementChip, chartMeasurement === type && styles.metricButtonActive]}
+                  onPress={() => setChartMeasurement(type)}
+                >
+                  <Text style={[styles.metricButtonText, chartMeasurement === type && styles.metricButtonTextActive]}>
+                    {MEASUREMENT_DEFINITIONS[type].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            {getMeasurementChartData().labels.length < 2 ? (
+              <Text style={styles.emptyChartText}>
+                Log {MEASUREMENT_DEFINITIONS[chartMeasurement].label.toLowerCase()} on two or more days to see a trend.
+              </Text>
+            ) : (
+              <LineChart
+                data={getMeasurementChartData()}
+                width={width - 64}
+                height={200}
+                yAxisSuffix={` ${getUnit(chartMeasurement)}`}
+                chartConfig={{ ...chartConfig, decimalPlaces: MEASUREMENT_DEFINITIONS[chartMeasurement].decimals }}
+                style={styles.chart}
+              />
+            )}
+
+            {getEntries(chartMeasurement).slice(0, 5).map(entry => (
+              <View key={entry.id} style={styles.measurementEntry}>
+                <View style={styles.measurementEntryInfo}>
+                  <Text style={styles.measurementEntryValue}>
+                    {formatMeasurement(entry, getUnit(chartMeasurement))}
+                  </Text>
+                  <Text style={styles.measurementEntryMeta}>
+                    {new Date(entry.date).toLocaleString()}{entry.notes ? ` · ${entry.notes}` : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => confirmDeleteMeasurement(entry)}>
+                  <Ionicons name="trash-outline" size={18} color="#999" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </GlassPanel>
+
           {/* Sleep Analysis */}
           <GlassPanel style={styles.sleepPanel}>
             <Text style={styles.sectionTitle}>😴 Sleep Analysis</Text>
+
+            <UpgradePrompt check={healthAccess} compact />
+
+            {!healthData.sleep && healthAccess.allowed && (
+              <Text style={styles.emptyChartText}>
+                No recent sleep data. Connect a wearable to see your sleep stages.
+              </Text>
+            )}
             
-            <View style={styles.sleepStages}>
-              <View style={styles.sleepStage}>
-                <Text style={styles.sleepStageLabel}>Deep</Text>
-                <Text style={styles.sleepStageValue}>
-                  {healthData.sleep.stages.deep.toFixed(1)}h
-                </Text>
-                <View style={[styles.sleepStageBar, { backgroundColor: Colors.neonBlue }]} />
-              </View>
-              <View style={styles.sleepStage}>
-                <Text style={styles.sleepStageLabel}>Light</Text>
-                <Text style={styles.sleepStageValue}>
-                  {healthData.sleep.stages.light.toFixed(1)}h
-                </Text>
-                <View style={[styles.sleepStageBar, { backgroundColor: Colors.neonGreen }]} />
+            {healthData.sleep?.stages && (
+              <View style={styles.sleepStages}>
+                <View style={styles.sleepStage}>
+                  <Text style={styles.sleepStageLabel}>Deep</Text>
+                  <Text style={styles.sleepStageValue}>
+                    {healthData.sleep.stages.deep.toFixed(1)}h
+                  </Text>
+                  <View style={[styles.sleepStageBar, { backgroundColor: Colors.neonBlue }]} />
+                </View>
+                <View style={styles.sleepStage}>
+                  <Text style={styles.sleepStageLabel}>Light</Text>
+                  <Text style={styles.sleepStageValue}>
+                    {healthData.sleep.stages.light.toFixed(1)}h
+                  </Text>
+                  <View style={[styles.sleepStageBar, { backgroundColor: Colors.neonGreen }]} />
+                </View>
+                <View style={styles.sleepStage}>
+                  <Text style={styles.sleepStageLabel}>REM</Text>
+                  <Text style={styles.sleepStageValue}>
+                    {healthData.sleep.stages.rem.toFixed(1)}h
+                  </Text>
+                  <View style={[styles.sleepStageBar, { backgroundColor: Colors.neonPurple }]} />
+                </View>
               </View>
-              <View style={styles.sleepStage}>
-                <Text style={styles.sleepStageLabel}>REM</Text>
-                <Text style={styles.sleepStageValue}>
-                  {healthData.sleep.stages.rem.toFixed(1)}h
+            )}
+
+            {healthData.sleep && (
+              <View style={styles.sleepSummary}>
+                <Text style={styles.sleepSummaryText}>
+                  Total: {healthData.sleep.duration.toFixed(1)}h | 
+                  Quality: {healthData.sleep.quality}/100 | {PROVENANCE_LABELS[healthData.sleep.provenance]}
                 </Text>
-                <View style={[styles.sleepStageBar, { backgroundColor: Colors.neonPurple }]} />
               </View>
-            </View>
-
-            <View style={styles.sleepSummary}>
-              <Text style={styles.sleepSummaryText}>
-                Total: {healthData.sleep.duration.toFixed(1)}h | 
-                Quality: {healthData.sleep.quality}/100
-              </Text>
-            </View>
+            )}
           </GlassPanel>
 
           {/* Health Insights */}
@@ -380,6 +582,99 @@ const HealthDashboardScreen = () => {
           <View style={{ height: 40 }} />
         </ScrollView>
       </Animated.View>
+
+      <Modal
+        visible={measurementDraft !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setMeasurementDraft(null)}
+      >
+        {measurementDraft && (
+          <View style={styles.modalOverlay}>
+            <GlassPanel style={styles.modalContent}>
+              <Text style={styles.sectionTitle}>Log {MEASUREMENT_DEFINITIONS[measurementDraft.type].label}</Text>
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.measurementChips}>
+                {MEASUREMENT_TYPES.map(type => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.metricButton, styles.measurementChip, measurementDraft.type === type && styles.metricButtonActive]}
+                    onPress={() => openMeasurementForm(type)}
+                  >
+                    <Text style={[styles.metricButtonText, measurementDraft.type === type && styles.metricButtonTextActive]}>
+                      {MEASUREMENT_DEFINITIONS[type].label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <View style={styles.vitalRow}>
+                <Text style={styles.vitalLabel}>
+                  {MEASUREMENT_DEFINITIONS[measurementDraft.type].valueLabel || 'Value'}
+                </Text>
+                <TextInput
+                  style={styles.vitalInput}
+                  keyboardType="decimal-pad"
+                  placeholder={measurementDraft.unit}
+                  placeholderTextColor="#999"
+                  value={measurementDraft.value}
+                  onChangeText={text => setMeasurementDraft(prev => prev && { ...prev, value: text })}
+                />
+              </View>
+
+              {MEASUREMENT_DEFINITIONS[measurementDraft.type].secondary && (
+                <View style={styles.vitalRow}>
+                  <Text style={styles.vitalLabel}>{MEASUREMENT_DEFINITIONS[measurementDraft.type].secondary.label}</Text>
+                  <TextInput
+                    style={styles.vitalInput}
+                    keyboardType="decimal-pad"
+                    placeholder={measurementDraft.unit}
+                    placeholderTextColor="#999"
+                    value={measurementDraft.secondaryValue}
+                    onChangeText={text => setMeasurementDraft(prev => prev && { ...prev, secondaryValue: text })}
+                  />
+                </View>
+              )}
+
+              {MEASUREMENT_DEFINITIONS[measurementDraft.type].units.length > 1 && (
+                <View style={styles.vitalRow}>
+                  <Text style={styles.vitalLabel}>Unit</Text>
+                  <View style={styles.unitSelector}>
+                    {MEASUREMENT_DEFINITIONS[measurementDraft.type].units.map(unit => (
+                      <TouchableOpacity
+                        key={unit}
+                        style={[styles.metricButton, styles.unitButton, measurementDraft.unit === unit && styles.metricButtonActive]}
+                        onPress={() => setMeasurementDraft(prev => prev && { ...prev, unit })}
+                      >
+                        <Text style={[styles.metricButtonText, measurementDraft.unit === unit && styles.metricButtonTextActive]}>
+                          {unit}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              <TextInput
+                style={[styles.vitalInput, styles.notesInput]}
+                placeholder="Notes (optional)"
+                placeholderTextColor="#999"
+                value={measurementDraft.notes}
+                onChangeText={text => setMeasurementDraft(prev => prev && { ...prev, notes: text })}
+              />
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity style={styles.modalButton} onPress={() => setMeasurementDraft(null)}>
+                  <Text style={styles.modalButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.modalButton, styles.modalButtonPrimary]} onPress={saveMeasurement}>
+                  <Text style={[styles.modalButtonText, { color: '#fff' }]}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </GlassPanel>
+          </View>
+        )}
+      </Modal>
     </View>
   );
 };
@@ -526,6 +821,55 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     fontFamily: Platform.OS === 'ios' ? 'SF Mono' : 'monospace',
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  logVitalsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  logVitalsText: {
+    fontSize: 14,
+    color: Colors.neonBlue,
+    marginLeft: 4,
+  },
+  measurementChips: {
+    marginBottom: 16,
+  },
+  measurementChip: {
+    marginRight: 8,
+  },
+  measurementEntry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  measurementEntryInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  measurementEntryValue: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#333',
+    fontFamily: Platform.OS === 'ios' ? 'SF Mono' : 'monospace',
+  },
+  measurementEntryMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  emptyChartText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
   biometricsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -673,6 +1017,65 @@ const styles = StyleSheet.create({
     flex: 1,
     lineHeight: 18,
   },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  modalContent: {
+    padding: 20,
+    margin: 16,
+  },
+  vitalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  vitalLabel: {
+    fontSize: 14,
+    color: '#333',
+  },
+  vitalInput: {
+    width: 120,
+    borderWidth: 1,
+    borderColor: '#DDD',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    textAlign: 'right',
+    color: '#333',
+  },
+  unitSelector: {
+    flexDirection: 'row',
+  },
+  unitButton: {
+    marginLeft: 8,
+  },
+  notesInput: {
+    width: '100%',
+    textAlign: 'left',
+    marginBottom: 12,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 12,
+  },
+  modalButtonPrimary: {
+    backgroundColor: Colors.neonBlue,
+  },
+  modalButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
   noInsightsPanel: {
     padding: 20,
     alignItems: 'center',
@@ -17,10 +17,10 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 
 // REAL DATA CONTEXT
-import { useAppData, useAppDataSelectors } from '../context/AppDataContext';
+import { CoachingPlan, CoachingPlanTask, useAppData, useAppDataSelectors, useCoachingPlans } from '../context/AppDataContext';
+import CoachingPlanCard from '../components/CoachingPlanCard';
 
 // SERVICES
-import IntelligentNotificationService from '../services/NotificationService';
 import SocialService from '../services/SocialService';
 
 const { width } = Dimensions.get('window');
@@ -78,6 +78,7 @@ const HomeScreen = () => {
     isInitialized,
     lastSyncDate
   } = useAppDataSelectors();
+  const { active: activePlans } = useCoachingPlans();
   
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -88,7 +89,6 @@ const HomeScreen = () => {
   const [contentReady, setContentReady] = useState(false);
 
   // Services
-  const notificationService = IntelligentNotificationService.getInstance();
   const socialService = SocialService.getInstance();
 
   // Memoized data
@@ -106,6 +106,7 @@ const HomeScreen = () => {
     { id: 'scoreCard', type: 'scoreCard' },
     { id: 'communitySection', type: 'communitySection' },
     { id: 'aiInsights', type: 'aiInsights' },
+    { id: 'coachingPlan', type: 'coachingPlan' },
     { id: 'pillars', type: 'pillars' },
     { id: 'achievementGallery', type: 'achievementGallery' },
     { id: 'quickActions', type: 'quickActions' },
@@ -154,22 +155,12 @@ const HomeScreen = () => {
     safeNavigate(navigation, 'QuickSessionScreen', { pillar, type: 'beginner' });
   }, [navigation, actions]);
 
-  const handleCheckIn = useCallback(async (type: 'morning' | 'evening') => {
+  const handleCheckIn = useCallback((type: 'morning' | 'evening') => {
     HapticFeedback.medium();
     
-    // Add check-in session
-    await actions.addSession({
-      pillar: 'overall',
-      type: 'checkin',
-      duration: 2,
-      date: new Date().toISOString(),
-      score: Math.floor(Math.random() * 20) + 80,
-      mood: type === 'morning' ? 'good' : 'okay',
-      notes: `${type.charAt(0).toUpperCase() + type.slice(1)} check-in completed`
-    });
-    
+    // The check-in is recorded when the flow is completed
     safeNavigate(navigation, 'DailyCheckInScreen', { type });
-  }, [navigation, actions]);
+  }, [navigation]);
 
   const handleAchievementShare = useCallback(async (achievement: any) => {
     HapticFeedback.medium();
@@ -504,6 +495,53 @@ const HomeScreen = () => {
     </Animated.View>
   ), [fadeAnim, slideAnim, aiInsights, unreadInsights, actions, navigation]);
 
+  // Active coaching plans from the AI coach
+  const handlePlanTask = useCallback((task: CoachingPlanTask) => {
+    HapticFeedback.light();
+    const pillar = pillarData.find(entry => entry.name === task.pillar.toUpperCase());
+    if (pillar) safeNavigate(navigation, pillar.screenName);
+  }, [navigation, pillarData]);
+
+  const handleAbandonPlan = useCallback((plan: CoachingPlan) => {
+    Alert.alert(
+      'End this plan?',
+      `"${plan.title}" will move to your plan history.`,
+      [
+        { text: 'Keep Going', style: 'cancel' },
+        { text: 'End Plan', style: 'destructive', onPress: () => actions.abandonCoachingPlan(plan.id) }
+      ]
+    );
+  }, [actions]);
+
+  const CoachingPlanComponent = useCallback(() => {
+    if (activePlans.length === 0) return null;
+
+    return (
+      <Animated.View
+        style={[
+          styles.aiInsightsSection,
+          {
+            opacity: fadeAnim,
+            transform: [{ translateY: slideAnim }]
+          }
+        ]}
+      >
+        <View style={styles.aiHeader}>
+          <Ionicons name="calendar" size={24} color={Colors.accent} />
+          <Text style={styles.aiTitle}>Your Coaching Plan</Text>
+        </View>
+        {activePlans.map(entry => (
+          <CoachingPlanCard
+            key={entry.plan.id}
+            entry={entry}
+            onStartTask={handlePlanTask}
+            onAbandon={handleAbandonPlan}
+          />
+        ))}
+      </Animated.View>
+    );
+  }, [fadeAnim, slideAnim, activePlans, handlePlanTask, handleAbandonPlan]);
+
   // Pillars with REAL DATA
   const PillarsComponent = useCallback(() => (
     <Animated.View 
@@ -706,6 +744,8 @@ const HomeScreen = () => {
           return <CommunitySection />;
         case 'aiInsights':
           return <AIInsightsComponent />;
+        case 'coachingPlan':
+          return <CoachingPlanComponent />;
         case 'pillars':
           return <PillarsComponent />;
         case 'achievementGallery':
@@ -725,6 +765,7 @@ const HomeScreen = () => {
     ScoreCardComponent,
     CommunitySection,
     AIInsightsComponent,
+    CoachingPlanComponent,
     PillarsComponent,
     AchievementGalleryComponent,
     QuickActionsComponent
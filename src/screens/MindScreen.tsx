@@ -18,6 +18,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 
 // Real Data Integration
 import { useAppData, useAppDataSelectors } from '../context/AppDataContext';
+import { toDayKey } from '../utils/sessionAnalytics';
 
 // Components
 import ErrorBoundary from '../components/ErrorBoundary';
@@ -103,8 +104,7 @@ const MindScreen = () => {
     focusScore: 78,
     memoryScore: 82,
     attentionSpan: 15, // minutes
-    sessionsToday: sessions.filter(s => s.pillar === 'mind' && 
-      new Date(s.date).toDateString() === new Date().toDateString()).length,
+    sessionsToday: sessions.filter(s => s.pillar === 'mind' && toDayKey(s.date) === toDayKey(new Date())).length,
     totalMindSessions: sessions.filter(s => s.pillar === 'mind').length,
     longestFocusStreak: 45, // minutes
   });
@@ -391,26 +391,7 @@ const MindScreen = () => {
       notes: `${focusSession.type} session completed`
     });
 
-    // Check for achievements
-    const mindSessionsCount = sessions.filter(s => s.pillar === 'mind').length + 1;
-    if (mindSessionsCount === 1) {
-      await actions.addAchievement({
-        title: '🧠 Mental Training Begins',
-        description: 'Completed your first mind training session',
-        pillar: 'mind',
-        rarity: 'common'
-      });
-    }
-
-    if (focusSession.duration >= 25) {
-      await actions.addAchievement({
-        title: '⏰ Deep Focus Master',
-        description: 'Completed a 25+ minute focused session',
-        pillar: 'mind',
-        rarity: 'rare'
-      });
-    }
-
+    // Session-count and duration achievements are unlocked by the achievement engine
     Alert.alert(
       '🎉 Session Complete!',
       `Excellent focus! You completed a ${focusSession.duration}-minute ${focusSession.type} session.`,
@@ -418,7 +399,7 @@ const MindScreen = () => {
     );
 
     setFocusSession(null);
-  }, [focusSession, actions, sessions]);
+  }, [focusSession, actions]);
 
   const stopFocusSession = useCallback(() => {
     Alert.alert(
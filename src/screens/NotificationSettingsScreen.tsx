@@ -18,7 +18,9 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useAppDataSelectors, useAppData } from '../context/AppDataContext';
 import { usePerformanceOptimization, PerformanceMonitor } from '../hooks/usePerformanceOptimization';
 import { safeNavigate, safeGet } from '../utils/SafeNavigation';
-import NotificationManager from '../utils/NotificationManager';
+import NotificationOrchestrator from '../services/NotificationOrchestrator';
+import { DEFAULT_NOTIFICATION_SETTINGS, NotificationSettings, minutesToTime } from '../utils/notificationSettings';
+import { UpcomingNotification } from '../utils/notificationPolicy';
 
 const Colors = {
   background: '#F8FAFC',
@@ -32,29 +34,6 @@ const Colors = {
   heart: '#EC4899',
 };
 
-interface NotificationSettings {
-  masterEnabled: boolean;
-  dailyReminders: boolean;
-  dailyTime: string;
-  achievementAlerts: boolean;
-  motivationalQuotes: boolean;
-  weeklyReports: boolean;
-  pillarSpecific: {
-    body: boolean;
-    mind: boolean;
-    heart: boolean;
-    spirit: boolean;
-    diet: boolean;
-  };
-  soundEnabled: boolean;
-  vibrationEnabled: boolean;
-  quietHours: {
-    enabled: boolean;
-    startTime: string;
-    endTime: string;
-  };
-}
-
 const NotificationSettingsScreen = () => {
   const navigation = useNavigation();
   const fadeAnim = React.useRef(new Animated.Value(0)).current;
@@ -66,30 +45,12 @@ const NotificationSettingsScreen = () => {
   } = useAppDataSelectors();
 
   const { measurePerformance } = usePerformanceOptimization();
-  const notificationManager = NotificationManager.getInstance();
-
-  const [settings, setSettings] = useState<NotificationSettings>({
-    masterEnabled: true,
-    dailyReminders: true,
-    dailyTime: '09:00',
-    achievementAlerts: true,
-    motivationalQuotes: true,
-    weeklyReports: true,
-    pillarSpecific: {
-      body: true,
-      mind: true,
-      heart: true,
-      spirit: true,
-      diet: true,
-    },
-    soundEnabled: true,
-    vibrationEnabled: true,
-    quietHours: {
-      enabled: false,
-      startTime: '22:00',
-      endTime: '07:00',
-    }
-  });
+  const notifications = NotificationOrchestrator.getInstance();
+
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [learnedTime, setLearnedTime] = useState<string | null>(null);
+  const [upcoming, setUpcoming] = useState<UpcomingNotification[]>([]);
+  const [showUpcoming, setShowUpcoming] = useState(false);
 
   const [showTimeModal, setShowTimeModal] = useState(false);
   const [timeModalType, setTimeModalType] = useState<'daily' | 'quietStart' | 'quietEnd'>('daily');
@@ -111,30 +72,40 @@ const NotificationSettingsScreen = () => {
 
   const initializeNotificationSettings = async () => {
     try {
-      // Load settings from user profile
+      // Load saved settings; the profile keeps the master switch and reminder time
+      const stored = await notifications.getSettings();
       if (userProfile && userProfile.preferences) {
-        setSettings(prevSettings => ({
-          ...prevSettings,
-          masterEnabled: safeGet(userProfile, 'preferences.notifications', true),
-          dailyTime: safeGet(userProfile, 'preferences.reminderTime', '09:00'),
-        }));
+        setSettings({
+          ...stored,
+          masterEnabled: safeGet(userProfile, 'preferences.notifications', stored.masterEnabled),
+          dailyTime: safeGet(userProfile, 'preferences.reminderTime', stored.dailyTime),
+        });
+      } else {
+        setSettings(stored);
       }
+      await refreshSchedule();
 
       // Check notification permissions
       await checkNotificationPermissions();
 
       // Initialize notification manager if needed
       if (settings.masterEnabled) {
-        await notificationManager.initialize();
+        await notifications.initialize();
       }
     } catch (error) {
       console.error('Error initializing notification settings:', error);
     }
   };
 
+  const refreshSchedule = async () => {
+    const optimal = await notifications.getOptimalNotificationTime();
+    setLearnedTime(optimal.learned ? minutesToTime(optimal.hour * 60 + optimal.minute) : null);
+    setUpcoming(await notifications.getUpcoming());
+  };
+
   const checkNotificationPermissions = async () => {
     try {
-      const hasPermission = await notificationManager.hasPermissions();
+      const hasPermission = await notifications.hasPermissions();
       setPermissionStatus(hasPermission ? 'granted' : 'denied');
     } catch (error) {
       console.error('Error checking permissions:', error);
@@ -144,7 +115,7 @@ const NotificationSettingsScreen = () => {
 
   const requestNotificationPermissions = async () => {
     try {
-      const granted = await notificationManager.requestPermissions();
+      const granted = await notifications.requestPermissions();
       if (granted) {
         setPermissionStatus('granted');
         Alert.alert(
@@ -166,21 +137,19 @@ const NotificationSettingsScreen = () => {
 
   const handleSettingChange = async (key: string, value: any, subKey?: string) => {
     try {
-      let newSettings = { ...settings };
-      
-      if (subKey) {
-        // Handle nested settings
-        (newSettings as any)[key][subKey] = value;
-      } else {
-        // Handle top-level settings
-        (newSettings as any)[key] = value;
-      }
+      const newSettings: NotificationSettings = subKey
+        ? { ...settings, [key]: { ...(settings as any)[key], [subKey]: value } }
+        : { ...settings, [key]: value };
       
       setSettings(newSettings);
 
       // Apply the setting change
       await applyNotificationSetting(key, value, subKey, newSettings);
 
+      // Save, then bring everything scheduled in line with the new settings
+      await notifications.updateSettings(newSettings);
+      await refreshSchedule();
+
       // Update user profile if it's a persistent setting
       if (key === 'masterEnabled' || key === 'dailyTime') {
         actions.updateUserProfile({
@@ -205,13 +174,9 @@ const NotificationSettingsScreen = () => {
             await requestNotificationPermissions();
             return;
           }
-          await notificationManager.initialize();
-          if (newSettings.dailyReminders) {
-            await notificationManager.scheduleDailyReminder(newSettings.dailyTime, true);
-          }
+          await notifications.initialize();
           Alert.alert('🔔 Notifications Enabled', 'Neural optimization notifications are now active!');
         } else {
-          await notificationManager.cancelAllNotifications();
           Alert.alert('🔕 Notifications Disabled', 'All notifications have been turned off.');
         }
         break;
@@ -219,10 +184,8 @@ const NotificationSettingsScreen = () => {
       case 'dailyReminders':
         if (newSettings.masterEnabled) {
           if (value) {
-            await notificationManager.scheduleDailyReminder(newSettings.dailyTime, true);
-            Alert.alert('⏰ Daily Reminders Enabled', `Set for ${newSettings.dailyTime} daily`);
+            Alert.alert('⏰ Daily Reminders Enabled', 'Reminders will arrive shortly before you usually practice');
           } else {
-            await notificationManager.cancelDailyReminder();
             Alert.alert('⏰ Daily Reminders Disabled', 'Daily reminders turned off');
           }
         }
@@ -230,8 +193,12 @@ const NotificationSettingsScreen = () => {
 
       case 'dailyTime':
         if (newSettings.masterEnabled && newSettings.dailyReminders) {
-          await notificationManager.scheduleDailyReminder(value, true);
-          Alert.alert('⏰ Time Updated', `Daily reminders now set for ${value}`);
+          Alert.alert(
+            '⏰ Time Updated',
+            learnedTime
+              ? `Reminders follow your practice times; ${value} is used for pillars without enough history`
+              : `Daily reminders set for ${value} until we learn when you usually practice`
+          );
         }
         break;
 
@@ -245,7 +212,6 @@ const NotificationSettingsScreen = () => {
 
       case 'motivationalQuotes':
         if (value && newSettings.masterEnabled) {
-          await notificationManager.scheduleMotivationalReminder();
           Alert.alert('💪 Motivational Quotes Enabled', 'Daily inspiration activated!');
         }
         break;
@@ -294,7 +260,7 @@ const NotificationSettingsScreen = () => {
         return;
       }
 
-      await notificationManager.scheduleTestNotification();
+      await notifications.sendTestNotification();
       Alert.alert(
         '🧪 Test Notification Sent',
         'Check your notifications to see how they will appear!'
@@ -385,6 +351,23 @@ const NotificationSettingsScreen = () => {
             </View>
             <Ionicons name="chevron-forward" size={16} color={Colors.textSecondary} />
           </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.settingItem}
+            onPress={() => {
+              refreshSchedule();
+              setShowUpcoming(true);
+            }}
+          >
+            <View style={styles.settingInfo}>
+              <Ionicons name="list" size={20} color={Colors.accent} />
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.settingLabel}>Upcoming Notifications</Text>
+                <Text style={styles.settingDescription}>See what's scheduled and why</Text>
+              </View>
+            </View>
+            <Text style={styles.settingValue}>{upcoming.length}</Text>
+          </TouchableOpacity>
         </View>
       </View>
     </PerformanceMonitor>
@@ -401,7 +384,11 @@ const NotificationSettingsScreen = () => {
               <Ionicons name="alarm" size={20} color={Colors.success} />
               <View style={styles.settingTextContainer}>
                 <Text style={styles.settingLabel}>Daily Optimization Reminders</Text>
-                <Text style={styles.settingDescription}>Get reminded to practice neural optimization</Text>
+                <Text style={styles.settingDescription}>
+                  {learnedTime
+                    ? `Timed to your routine, from ${learnedTime} today`
+                    : 'Timed to your routine once a few sessions are logged'}
+                </Text>
               </View>
             </View>
             <Switch
@@ -431,7 +418,7 @@ const NotificationSettingsScreen = () => {
                   styles.settingDescription,
                   (!settings.masterEnabled || !settings.dailyReminders) && styles.disabledText
                 ]}>
-                  Choose when to receive daily reminders
+                  Used until your practice times are learned
                 </Text>
               </View>
             </View>
@@ -447,6 +434,53 @@ const NotificationSettingsScreen = () => {
     </PerformanceMonitor>
   );
 
+  const renderQuietHours = () => {
+    const disabled = !settings.masterEnabled || !settings.quietHours.enabled;
+    return (
+      <PerformanceMonitor>
+        <View style={styles.settingsSection}>
+          <Text style={styles.sectionTitle}>Quiet Hours</Text>
+
+          <View style={styles.settingCard}>
+            <View style={styles.settingItem}>
+              <View style={styles.settingInfo}>
+                <Ionicons name="moon" size={20} color={Colors.spirit} />
+                <View style={styles.settingTextContainer}>
+                  <Text style={styles.settingLabel}>Quiet Hours</Text>
+                  <Text style={styles.settingDescription}>No reminders during these hours</Text>
+                </View>
+              </View>
+              <Switch
+                value={settings.quietHours.enabled}
+                onValueChange={(value) => handleSettingChange('quietHours', value, 'enabled')}
+                trackColor={{ false: '#E5E7EB', true: Colors.spirit }}
+                thumbColor="#FFFFFF"
+                disabled={!settings.masterEnabled}
+              />
+            </View>
+
+            {([['quietStart', 'Starts', settings.quietHours.startTime], ['quietEnd', 'Ends', settings.quietHours.endTime]] as const).map(([type, label, time]) => (
+              <TouchableOpacity
+                key={type}
+                style={styles.settingItem}
+                onPress={() => openTimeModal(type)}
+                disabled={disabled}
+              >
+                <View style={styles.settingInfo}>
+                  <Ionicons name="time" size={20} color={Colors.spirit} />
+                  <View style={styles.settingTextContainer}>
+                    <Text style={[styles.settingLabel, disabled && styles.disabledText]}>{label}</Text>
+                  </View>
+                </View>
+                <Text style={[styles.settingValue, disabled && styles.disabledText]}>{time}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </PerformanceMonitor>
+    );
+  };
+
   const renderNotificationTypes = () => (
     <PerformanceMonitor>
       <View style={styles.settingsSection}>
@@ -664,6 +698,44 @@ const NotificationSettingsScreen = () => {
     </Modal>
   );
 
+  const renderUpcomingModal = () => (
+    <Modal
+      visible={showUpcoming}
+      transparent
+      animationType="slide"
+      onRequestClose={() => setShowUpcoming(false)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Upcoming Notifications</Text>
+
+          <ScrollView style={styles.upcomingList}>
+            {upcoming.length === 0 ? (
+              <Text style={styles.settingDescription}>Nothing is scheduled right now.</Text>
+            ) : upcoming.map(notification => (
+              <View key={notification.identifier} style={styles.upcomingItem}>
+                <Text style={styles.upcomingTitle}>{notification.title}</Text>
+                <Text style={styles.upcomingMeta}>
+                  {new Date(notification.nextAt).toLocaleString()}
+                  {notification.timing.kind === 'daily' ? ' · daily' : notification.timing.kind === 'weekly' ? ' · weekly' : ''}
+                </Text>
+                <Text style={styles.settingDescription}>{notification.reason}</Text>
+                <Text style={styles.upcomingMeta}>{notification.identifier}</Text>
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={styles.modalCloseButton}
+            onPress={() => setShowUpcoming(false)}
+          >
+            <Text style={styles.modalCloseText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+
   if (!isInitialized) {
     return (
       <View style={styles.loadingContainer}>
@@ -701,12 +773,14 @@ const NotificationSettingsScreen = () => {
         {renderPermissionStatus()}
         {renderMasterSettings()}
         {renderDailySettings()}
+        {renderQuietHours()}
         {renderNotificationTypes()}
         {renderPillarSettings()}
         {renderSystemSettings()}
       </ScrollView>
 
       {renderTimeModal()}
+      {renderUpcomingModal()}
     </Animated.View>
   );
 };
@@ -910,6 +984,24 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '600',
   },
+  upcomingList: {
+    marginBottom: 16,
+  },
+  upcomingItem: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  upcomingTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  upcomingMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
   modalCloseButton: {
     alignSelf: 'center',
     paddingVertical: 12,
@@ -3,6 +3,7 @@ import { View, Text, StyleSheet, ScrollView, TextInput, TouchableOpacity, Layout
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { PILLAR_THEMES, isNeurogenesisOptimal } from '../utils/pillarStyles';
+import { useCoachingPlans } from '../context/AppDataContext';
 
 const THEME = PILLAR_THEMES.HEART;
 
@@ -13,6 +14,7 @@ const HeartScreen = () => {
   const [isOptimal, setIsOptimal] = useState(false);
   const [currentTime, setCurrentTime] = useState('');
   const [gaugeLevel, setGaugeLevel] = useState(65);
+  const { active: activePlans } = useCoachingPlans('heart');
 
   useEffect(() => {
     updateStatus();
@@ -61,6 +63,35 @@ const HeartScreen = () => {
     );
   };
 
+  const renderPlanPanel = () => {
+    if (activePlans.length === 0) return null;
+
+    return (
+      <View style={styles.planPanel}>
+        <Text style={styles.inputLabel}>COACHING PLAN</Text>
+        {activePlans.map(({ plan, progress }) => (
+          <View key={plan.id} style={styles.planEntry}>
+            <Text style={styles.planTitle}>{plan.title.toUpperCase()}</Text>
+            <Text style={styles.planMeta}>
+              WEEK {progress.currentWeek}/{plan.weeks} • {progress.done}/{progress.total} DONE
+              {progress.onTrack ? '' : ' • BEHIND'}
+            </Text>
+            {progress.dueToday.map(({ task, status }) => (
+              <Text key={task.id} style={[styles.planTask, status === 'done' && styles.planTaskDone]}>
+                {status === 'done' ? '[x]' : '[ ]'} {task.title} - {task.minutes} MIN
+              </Text>
+            ))}
+            {progress.dueToday.length === 0 && progress.nextTask && (
+              <Text style={styles.planTask}>
+                NEXT {progress.nextTask.day}: {progress.nextTask.title}
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   return (
     <View style={styles.container}>
       {/* Digital Terminal Header */}
@@ -108,6 +139,9 @@ const HeartScreen = () => {
           </View>
         </View>
 
+        {/* Coaching Plan */}
+        {renderPlanPanel()}
+
         {/* Journal Input Section */}
         <View style={styles.inputSection}>
           <Text style={styles.inputLabel}>EMOTIONAL SYSTEM LOG</Text>
@@ -214,6 +248,15 @@ const styles = StyleSheet.create({
   },
   terminalLines: { marginBottom: 8 },
   terminalLine: { height: 1, backgroundColor: '#333', marginBottom: 4, opacity: 0.5 },
+  planPanel: {
+    backgroundColor: '#1A1A1A', borderRadius: 12, padding: 20,
+    borderWidth: 1, borderColor: '#333', marginBottom: 20
+  },
+  planEntry: { borderTopWidth: 1, borderTopColor: '#333', paddingTop: 12, marginTop: 8 },
+  planTitle: { fontSize: 14, fontWeight: '600', color: '#FFFFFF', fontFamily: 'monospace' },
+  planMeta: { fontSize: 10, color: '#888', fontFamily: 'monospace', marginTop: 4, marginBottom: 8 },
+  planTask: { fontSize: 12, color: '#00FF88', fontFamily: 'monospace', marginBottom: 4 },
+  planTaskDone: { color: '#666' },
   inputSection: {
     backgroundColor: '#1A1A1A', borderRadius: 12, padding: 20,
     borderWidth: 1, borderColor: '#333', marginBottom: 20
@@ -15,6 +15,8 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useAppDataSelectors, useAppData } from '../context/AppDataContext';
 import { usePerformanceOptimization, PerformanceMonitor } from '../hooks/usePerformanceOptimization';
 import { safeNavigate, safeGet } from '../utils/SafeNavigation';
+import { useEntitlement } from '../hooks/useEntitlement';
+import UpgradePrompt from '../components/UpgradePrompt';
 
 const { width } = Dimensions.get('window');
 
@@ -57,6 +59,7 @@ const QuickSessionScreen = () => {
   const [isActive, setIsActive] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [sessionStartTime] = useState(Date.now());
+  const timerAccess = useEntitlement('timerSessions');
 
   // Session configurations
   const sessionConfigs = {
@@ -157,7 +160,9 @@ const QuickSessionScreen = () => {
     };
   }, [isActive, timeRemaining]);
 
-  const startStep = () => {
+  const startStep = async () => {
+    // The first step needs a timer session left today; it's only counted once the session is logged
+    if (currentStep === 0 && !timerAccess.allowed) return;
     setTimeRemaining(currentSession[currentStep].duration);
     setIsActive(true);
   };
@@ -175,15 +180,18 @@ const QuickSessionScreen = () => {
   const completeSession = async () => {
     try {
       const totalDuration = Math.round((Date.now() - sessionStartTime) / 1000 / 60); // minutes
-      const improvement = Math.floor(Math.random() * 3) + 2; // 2-4 points improvement
 
-      // Add session to user data
-      actions.addSession({
+      // Add session to user data, and count it against the daily timer limit
+      const session = await actions.addSession({
         pillar: pillar,
+        type: 'practice',
         duration: totalDuration,
-        improvement: improvement,
-        type: 'quick_session'
+        date: new Date().toISOString(),
+        score: 75, // guided sessions aren't rated
+        mood: 'good',
+        notes: 'Quick guided session'
       });
+      await timerAccess.consume(session.id);
 
       // Add achievement for first session
       actions.addAchievement({
@@ -198,8 +206,7 @@ const QuickSessionScreen = () => {
       // Navigate back with success
       safeNavigate(navigation, 'Home', { 
         sessionCompleted: true, 
-        pillar: pillar,
-        improvement: improvement 
+        pillar: pillar
       });
       
     } catch (error) {
@@ -294,10 +301,13 @@ const QuickSessionScreen = () => {
         </View>
 
         <View style={styles.navigationContainer}>
-          {!isActive ? (
+          {!isActive && currentStep === 0 && timerAccess.ready && !timerAccess.allowed ? (
+            <UpgradePrompt check={timerAccess} onDismiss={() => safeNavigate(navigation, 'Home')} />
+          ) : !isActive ? (
             <TouchableOpacity
               style={[styles.actionButton, { backgroundColor: getPillarColor() }]}
               onPress={startStep}
+              disabled={currentStep === 0 && !timerAccess.ready}
             >
               <Ionicons name="play" size={20} color="#FFFFFF" />
               <Text style={styles.actionButtonText}>
@@ -480,26 +480,7 @@ const SpiritScreen = () => {
       notes: `Completed ${session.name} meditation`
     });
 
-    // Check for achievements
-    const spiritSessionsCount = sessions.filter(s => s.pillar === 'spirit').length + 1;
-    if (spiritSessionsCount === 1) {
-      await actions.addAchievement({
-        title: '🕉️ Spiritual Journey Begins',
-        description: 'Completed your first spiritual practice',
-        pillar: 'spirit',
-        rarity: 'common'
-      });
-    }
-
-    if (session.duration >= 20) {
-      await actions.addAchievement({
-        title: '🧘‍♂️ Deep Meditation Master',
-        description: 'Completed a 20+ minute meditation session',
-        pillar: 'spirit',
-        rarity: 'rare'
-      });
-    }
-
+    // Session-count and duration achievements are unlocked by the achievement engine
     if (session.type === 'mantra') {
       await actions.addAchievement({
         title: '📿 Mantra Practitioner',
@@ -514,7 +495,7 @@ const SpiritScreen = () => {
       `Namaste! You have completed ${session.name}. Your consciousness has expanded and your spirit is nourished.`,
       [{ text: 'Om Shanti 🙏', style: 'default' }]
     );
-  }, [activeMeditation, actions, sessions]);
+  }, [activeMeditation, actions]);
 
   const stopMeditation = useCallback(() => {
     Alert.alert(
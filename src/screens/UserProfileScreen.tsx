@@ -9,17 +9,25 @@ import {
   Alert,
   Platform,
   SafeAreaView,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 
 // Real Data Integration
-import { useAppData, useAppDataSelectors } from '../context/AppDataContext';
+import { useAppData, useAppDataSelectors, useSyncStatus } from '../context/AppDataContext';
 
 // Components
 import ErrorBoundary from '../components/ErrorBoundary';
 
+// Services
+import BackupService, { BackupArchive, ImportPreview } from '../services/BackupService';
+import UpgradePrompt from '../components/UpgradePrompt';
+import { SubscriptionService } from '../services/SubscriptionService';
+import { useEntitlement } from '../hooks/useEntitlement';
+
 const Colors = {
   background: '#F8FAFC',
   surface: '#FFFFFF',
@@ -48,8 +56,17 @@ const UserProfileScreen = () => {
     streakData,
     isLoading
   } = useAppDataSelectors();
+  const syncStatus = useSyncStatus();
 
   const [isEditing, setIsEditing] = useState(false);
+  const [passphraseRequest, setPassphraseRequest] = useState<{ purpose: 'export' | 'import'; archive?: BackupArchive } | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const [showExportUpgrade, setShowExportUpgrade] = useState(false);
+  const [showPromoModal, setShowPromoModal] = useState(false);
+  const [promoCode, setPromoCode] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const exportAccess = useEntitlement('exportData');
 
   const handleGoBack = useCallback(() => {
     if (navigation.canGoBack()) {
@@ -87,31 +104,144 @@ const UserProfileScreen = () => {
     });
   }, [actions, userProfile]);
 
+  const runExport = useCallback(async (exportPassphrase?: string) => {
+    setIsBackupBusy(true);
+    try {
+      await BackupService.exportAndShare(exportPassphrase);
+    } catch (error: any) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Export Failed', error?.message || 'Your data could not be exported.');
+    } finally {
+      setIsBackupBusy(false);
+    }
+  }, []);
+
   const handleExportData = useCallback(() => {
+    if (exportAccess.ready && !exportAccess.allowed) {
+      setShowExportUpgrade(true);
+      return;
+    }
     Alert.alert(
       'Export Data',
-      'Your wellness data export will be prepared and shared with you.',
+      'Create a backup of all your wellness data that you can move to a new device.',
       [
         { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Export',
-          onPress: () => {
-            // TODO: Implement actual data export
-            Alert.alert('Success', 'Data export initiated! You will receive your data shortly.');
-          }
-        }
+        { text: 'Encrypted', onPress: () => setPassphraseRequest({ purpose: 'export' }) },
+        { text: 'Export', onPress: () => runExport() }
       ]
     );
+  }, [runExport, exportAccess.ready, exportAccess.allowed]);
+
+  const confirmImport = useCallback((preview: ImportPreview) => {
+    const summary = preview.diffs
+      .filter(diff => diff.added + diff.changed + diff.localOnly > 0)
+      .map(diff => `• ${diff.namespace}: ${diff.added} new, ${diff.changed} changed, ${diff.localOnly} only on this device`)
+      .join('\n');
+
+    const applyImport = async (mode: 'merge' | 'replace') => {
+      setIsBackupBusy(true);
+      try {
+        await BackupService.applyImport(preview, mode);
+        await actions.reloadData();
+        // Backups don't carry premium access; get it back from the store
+        await SubscriptionService.getInstance().restorePurchases();
+        Alert.alert('Import Complete', 'Your backup has been restored.');
+      } catch (error: any) {
+        console.error('Error importing data:', error);
+        Alert.alert('Import Failed', error?.message || 'Your backup could not be restored.');
+      } finally {
+        setIsBackupBusy(false);
+      }
+    };
+
+    Alert.alert(
+      'Restore Backup',
+      `Backup from ${new Date(preview.createdAt).toLocaleDateString()}\n\n${summary || 'No differences from the data on this device.'}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => applyImport('replace') },
+        { text: 'Merge', onPress: () => applyImport('merge') }
+      ]
+    );
+  }, [actions]);
+
+  const previewArchive = useCallback(async (archive: BackupArchive, importPassphrase?: string) => {
+    try {
+      const preview = await BackupService.previewImport(archive, importPassphrase);
+      confirmImport(preview);
+    } catch (error: any) {
+      Alert.alert('Import Failed', error?.message || 'The backup could not be read.');
+    }
+  }, [confirmImport]);
+
+  const handleImportData = useCallback(async () => {
+    try {
+      const archive = await BackupService.pickArchive();
+      if (!archive) return;
+
+      if (archive.encrypted) {
+        setPassphraseRequest({ purpose: 'import', archive });
+      } else {
+        await previewArchive(archive);
+      }
+    } catch (error: any) {
+      Alert.alert('Import Failed', error?.message || 'The selected file could not be opened.');
+    }
+  }, [previewArchive]);
+
+  const handlePassphraseSubmit = useCallback(() => {
+    const request = passphraseRequest;
+    const value = passphrase;
+    setPassphraseRequest(null);
+    setPassphrase('');
+    if (!request || !value) return;
+
+    if (request.purpose === 'export') {
+      runExport(value);
+    } else if (request.archive) {
+      previewArchive(request.archive, value);
+    }
+  }, [passphraseRequest, passphrase, runExport, previewArchive]);
+
+  const closePromoModal = useCallback(() => {
+    setShowPromoModal(false);
+    setPromoCode('');
   }, []);
 
+  const handleRedeemPromo = useCallback(async () => {
+    setIsRedeeming(true);
+    try {
+      const result = await SubscriptionService.getInstance().redeemPromoCode(promoCode);
+      if (!result.redeemed || !result.grant) {
+        Alert.alert('Code Not Accepted', result.error || 'This promo code could not be redeemed.');
+        return;
+      }
+
+      closePromoModal();
+      const { grant } = result;
+      const startsLater = new Date(grant.startsAt).getTime() > Date.now();
+      Alert.alert(
+        'Code Redeemed',
+        `${grant.days} days of Premium ${startsLater ? `start ${new Date(grant.startsAt).toLocaleDateString()}, when your current access ends` : 'start now'}. ` +
+          `They run until ${new Date(grant.endsAt).toLocaleDateString()}.`
+      );
+    } finally {
+      setIsRedeeming(false);
+    }
+  }, [promoCode, closePromoModal]);
+
   const handleSyncData = useCallback(async () => {
-    Alert.alert('Syncing...', 'Your data is being synchronized with the cloud.');
-    
-    // Simulate sync process
-    setTimeout(() => {
-      Alert.alert('Sync Complete', 'Your data has been successfully synchronized.');
-    }, 2000);
-  }, []);
+    if (syncStatus.isSyncing) return;
+    await actions.syncData();
+  }, [actions, syncStatus.isSyncing]);
+
+  const formatSyncLabel = () => {
+    if (syncStatus.state === 'syncing') return `Syncing ${Math.round(syncStatus.progress * 100)}%`;
+    if (syncStatus.state === 'offline') return `Offline • ${syncStatus.pendingChanges} pending`;
+    if (syncStatus.state === 'error') return 'Sync failed';
+    if (!syncStatus.lastSyncDate) return 'Never';
+    return new Date(syncStatus.lastSyncDate).toLocaleString();
+  };
 
   const navigateToCommunity = useCallback(() => {
     navigation.navigate('CommunityScreen' as never);
@@ -303,6 +433,12 @@ const UserProfileScreen = () => {
           <Text style={styles.actionLabel}>AI Wellness Coach</Text>
           <Ionicons name="chevron-forward" size={16} color={Colors.textSecondary} />
         </TouchableOpacity>
+
+        <TouchableOpacity style={styles.actionItem} onPress={() => setShowPromoModal(true)}>
+          <Ionicons name="gift" size={20} color={Colors.warning} />
+          <Text style={styles.actionLabel}>Redeem Promo Code</Text>
+          <Ionicons name="chevron-forward" size={16} color={Colors.textSecondary} />
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -315,15 +451,29 @@ const UserProfileScreen = () => {
       </View>
       
       <View style={styles.actionsCard}>
-        <TouchableOpacity style={styles.actionItem} onPress={handleExportData}>
+        <TouchableOpacity style={styles.actionItem} onPress={handleExportData} disabled={isBackupBusy}>
           <Ionicons name="download" size={20} color={Colors.accent} />
           <Text style={styles.actionLabel}>Export Data</Text>
+          <Ionicons
+            name={exportAccess.ready && !exportAccess.allowed ? 'lock-closed' : 'chevron-forward'}
+            size={16}
+            color={Colors.textSecondary}
+          />
+        </TouchableOpacity>
+        {showExportUpgrade && <UpgradePrompt check={exportAccess} compact />}
+
+        <TouchableOpacity style={styles.actionItem} onPress={handleImportData} disabled={isBackupBusy}>
+          <Ionicons name="cloud-upload" size={20} color={Colors.spirit} />
+          <Text style={styles.actionLabel}>Import Backup</Text>
           <Ionicons name="chevron-forward" size={16} color={Colors.textSecondary} />
         </TouchableOpacity>
 
         <TouchableOpacity style={styles.actionItem} onPress={handleSyncData}>
-          <Ionicons name="sync" size={20} color={Colors.success} />
-          <Text style={styles.actionLabel}>Sync Data</Text>
+          <Ionicons name="sync" size={20} color={syncStatus.state === 'error' ? Colors.danger : Colors.success} />
+          <Text style={styles.actionLabel}>
+            {syncStatus.isSyncing ? 'Syncing...' : 'Sync Data'}
+            {syncStatus.hasPendingChanges && !syncStatus.isSyncing ? ` (${syncStatus.pendingChanges} pending)` : ''}
+          </Text>
           <Ionicons name="chevron-forward" size={16} color={Colors.textSecondary} />
         </TouchableOpacity>
 
@@ -360,7 +510,7 @@ const UserProfileScreen = () => {
         </View>
         <View style={styles.appInfoRow}>
           <Text style={styles.appInfoLabel}>Last Sync</Text>
-          <Text style={styles.appInfoValue}>Just now</Text>
+          <Text style={styles.appInfoValue}>{formatSyncLabel()}</Text>
         </View>
         <View style={styles.appInfoRow}>
           <Text style={styles.appInfoLabel}>Developer</Text>
@@ -376,6 +526,97 @@ const UserProfileScreen = () => {
     </View>
   );
 
+  const renderPassphraseModal = () => (
+    <Modal
+      visible={!!passphraseRequest}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setPassphraseRequest(null)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalCard}>
+          <Text style={styles.modalTitle}>
+            {passphraseRequest?.purpose === 'export' ? 'Protect Backup' : 'Unlock Backup'}
+          </Text>
+          <Text style={styles.modalDescription}>
+            {passphraseRequest?.purpose === 'export'
+              ? 'Choose a passphrase. You will need it to restore this backup.'
+              : 'Enter the passphrase used when this backup was created.'}
+          </Text>
+          <TextInput
+            style={styles.passphraseInput}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder="Passphrase"
+            placeholderTextColor={Colors.textSecondary}
+            secureTextEntry
+            autoFocus
+          />
+          <View style={styles.modalActions}>
+            <TouchableOpacity
+              style={styles.modalButton}
+              onPress={() => {
+                setPassphraseRequest(null);
+                setPassphrase('');
+              }}
+            >
+              <Text style={styles.modalButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.modalButtonPrimary]}
+              onPress={handlePassphraseSubmit}
+              disabled={!passphrase}
+            >
+              <Text style={[styles.modalButtonText, { color: '#FFFFFF' }]}>Continue</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const renderPromoModal = () => (
+    <Modal
+      visible={showPromoModal}
+      transparent
+      animationType="fade"
+      onRequestClose={closePromoModal}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalCard}>
+          <Text style={styles.modalTitle}>Redeem Promo Code</Text>
+          <Text style={styles.modalDescription}>
+            Premium time from a code is added after any subscription you already have.
+          </Text>
+          <TextInput
+            style={styles.passphraseInput}
+            value={promoCode}
+            onChangeText={setPromoCode}
+            placeholder="PARTNER-30D-20270131-..."
+            placeholderTextColor={Colors.textSecondary}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            autoFocus
+          />
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.modalButton} onPress={closePromoModal}>
+              <Text style={styles.modalButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.modalButtonPrimary]}
+              onPress={handleRedeemPromo}
+              disabled={!promoCode.trim() || isRedeeming}
+            >
+              <Text style={[styles.modalButtonText, { color: '#FFFFFF' }]}>
+                {isRedeeming ? 'Checking...' : 'Redeem'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -398,6 +639,8 @@ const UserProfileScreen = () => {
           {renderDataActions()}
           {renderAppInfo()}
         </ScrollView>
+        {renderPassphraseModal()}
+        {renderPromoModal()}
       </SafeAreaView>
     </ErrorBoundary>
   );
@@ -694,6 +937,56 @@ const styles = StyleSheet.create({
     color: Colors.accent,
     fontStyle: 'italic',
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
+  passphraseInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  modalButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  modalButtonPrimary: {
+    backgroundColor: Colors.accent,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
 });
 
 export default UserProfileScreen;
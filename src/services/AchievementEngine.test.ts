@@ -0,0 +1,74 @@
+import type { SessionData } from '../context/AppDataContext';
+import AchievementEngine, { ACHIEVEMENT_RULES } from './AchievementEngine';
+import { StreakSettings } from './StreakEngine';
+
+const SETTINGS: StreakSettings = { homeTimeZone: 'UTC', dayBoundaryHour: 0 };
+
+const session = (id: string, day: string, pillar: string = 'body', overrides: Partial<SessionData> = {}): SessionData => ({
+  id,
+  pillar,
+  type: 'practice',
+  duration: 10,
+  date: `${day}T09:00:00.000Z`,
+  score: 80,
+  mood: 'good',
+  ...overrides
+});
+
+// One session a day from 2026-10-01, skipping the given days of the month
+const dailySessions = (days: number, skip: number[] = []): SessionData[] =>
+  Array.from({ length: days }, (_, index) => index + 1)
+    .filter(day => !skip.includes(day))
+    .map(day => session(`s${day}`, `2026-10-${String(day).padStart(2, '0')}`));
+
+const ruleIds = (sessions: SessionData[], frozenDays: string[] = []) =>
+  AchievementEngine.backfill(sessions, [], SETTINGS, frozenDays).map(achievement => achievement.ruleId);
+
+describe('AchievementEngine.backfill', () => {
+  it('dates each unlock to the session that earned it', () => {
+    const unlocked = AchievementEngine.backfill(dailySessions(5), [], SETTINGS);
+    const byRule = Object.fromEntries(unlocked.map(achievement => [achievement.ruleId, achievement.unlockedDate]));
+
+    expect(byRule.first_steps).toBe('2026-10-01T09:00:00.000Z');
+    expect(byRule.first_body).toBe('2026-10-01T09:00:00.000Z');
+    expect(byRule.devotee_body_5).toBe('2026-10-05T09:00:00.000Z');
+  });
+
+  it('replays sessions in date order whatever order they were logged in', () => {
+    const unlocked = AchievementEngine.backfill([...dailySessions(5)].reverse(), [], SETTINGS);
+    expect(unlocked.find(achievement => achievement.ruleId === 'devotee_body_5')!.unlockedDate)
+      .toBe('2026-10-05T09:00:00.000Z');
+  });
+
+  it('skips achievements that are already unlocked', () => {
+    const existing = AchievementEngine.backfill(dailySessions(1), [], SETTINGS);
+    expect(AchievementEngine.backfill(dailySessions(5), existing, SETTINGS).map(achievement => achievement.ruleId))
+      .not.toContain('first_steps');
+  });
+
+  it('carries a streak across frozen days only', () => {
+    expect(ruleIds(dailySessions(8, [4]))).not.toContain('streak_7');
+    expect(ruleIds(dailySessions(8, [4]), ['2026-10-04'])).toContain('streak_7');
+  });
+
+  it('unlocks one achievement for ten body sessions', () => {
+    expect(ruleIds(dailySessions(10))).toEqual(['first_steps', 'first_body', 'devotee_body_5', 'streak_7', 'devotee_body_10']);
+  });
+
+  it('counts sessions per pillar', () => {
+    const mixed = [
+      ...dailySessions(4),
+      ...[1, 2, 3, 4, 5].map(day => session(`m${day}`, `2026-10-0${day}`, 'mind'))
+    ];
+    const ids = ruleIds(mixed);
+    expect(ids).toContain('devotee_mind_5');
+    expect(ids).not.toContain('devotee_body_5');
+  });
+});
+
+describe('ACHIEVEMENT_RULES', () => {
+  it('has unique ids and titles', () => {
+    expect(new Set(ACHIEVEMENT_RULES.map(rule => rule.id)).size).toBe(ACHIEVEMENT_RULES.length);
+    expect(new Set(ACHIEVEMENT_RULES.map(rule => rule.title)).size).toBe(ACHIEVEMENT_RULES.length);
+  });
+});
@@ -0,0 +1,320 @@
+// src/services/AchievementEngine.ts - DECLARATIVE ACHIEVEMENT RULES
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SessionData, Achievement, PillarProgress } from '../context/AppDataContext';
+import { StreakSettings, StreakStats, extendRun } from './StreakEngine';
+import { createPillarScoreTracker } from '../utils/pillarScoring';
+import { PILLARS, PillarKey, isPillar, toDayKey } from '../utils/sessionAnalytics';
+
+export type AchievementTrigger = 'session.completed' | 'streak.updated' | 'scores.updated';
+
+export interface AchievementContext {
+  session: SessionData | null; // the session that triggered evaluation, if any
+  sessions: SessionData[]; // full history, including `session`
+  streak: StreakStats | null; // overall streak
+  pillarScores: PillarProgress;
+  pillarCounts?: Record<PillarKey, number>; // sessions per pillar, when the caller already keeps count
+}
+
+export interface AchievementRule {
+  id: string;
+  title: string;
+  description: string;
+  pillar: string;
+  rarity: Achievement['rarity'];
+  triggers: AchievementTrigger[];
+  // Single-step rules pass `predicate`; multi-step rules report `measure` towards `target`
+  predicate?: (context: AchievementContext) => boolean;
+  measure?: (context: AchievementContext) => number;
+  target?: number;
+}
+
+export interface AchievementProgress {
+  rule: AchievementRule;
+  progress: number; // 0-100
+  current: number;
+  target: number;
+  unlocked: boolean;
+}
+
+// Bump when rules are added or changed so existing histories are backfilled again
+export const ACHIEVEMENT_RULES_VERSION = 1;
+export const ACHIEVEMENT_ENGINE_STATE_KEY = 'achievement_engine_state';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const pillarSessionCount = (context: AchievementContext, pillar: PillarKey) =>
+  context.pillarCounts?.[pillar] ?? context.sessions.filter(session => session.pillar === pillar).length;
+
+const sessionAtLeast = (pillar: PillarKey | null, minutes: number) => (context: AchievementContext) =>
+  !!context.session && context.session.duration >= minutes && (!pillar || context.session.pillar === pillar);
+
+const FIRST_SESSION_TITLES: Partial<Record<PillarKey, { title: string; description: string }>> = {
+  body: { title: '💪 First Workout', description: 'Completed your first body practice session' },
+  mind: { title: '🧠 Mental Training Begins', description: 'Completed your first mind training session' },
+  spirit: { title: '🕉️ Spiritual Journey Begins', description: 'Completed your first spiritual practice' },
+  diet: { title: '🍽️ Nutrition Journey Begins', description: 'Started tracking your nutritional wellness' }
+};
+
+const DEVOTEE_TIERS: { target: number; suffix: string; rarity: Achievement['rarity'] }[] = [
+  { target: 5, suffix: '', rarity: 'common' },
+  { target: 10, suffix: ' II', rarity: 'rare' },
+  { target: 25, suffix: ' III', rarity: 'epic' }
+];
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: 'first_steps',
+    title: 'First Steps',
+    description: 'Completed your first session!',
+    pillar: 'overall',
+    rarity: 'common',
+    triggers: ['session.completed'],
+    measure: context => context.sessions.length,
+    target: 1
+  },
+  ...PILLARS.filter(pillar => FIRST_SESSION_TITLES[pillar]).map((pillar): AchievementRule => ({
+    id: `first_${pillar}`,
+    ...FIRST_SESSION_TITLES[pillar]!,
+    pillar,
+    rarity: 'common',
+    triggers: ['session.completed'],
+    measure: context => pillarSessionCount(context, pillar),
+    target: 1
+  })),
+  ...PILLARS.flatMap(pillar => DEVOTEE_TIERS.map((tier): AchievementRule => ({
+    id: `devotee_${pillar}_${tier.target}`,
+    title: `${capitalize(pillar)} Devotee${tier.suffix}`,
+    description: `Completed ${tier.target} ${pillar} sessions`,
+    pillar,
+    rarity: tier.rarity,
+    triggers: ['session.completed'],
+    measure: context => pillarSessionCount(context, pillar),
+    target: tier.target
+  }))),
+  {
+    id: 'deep_focus_master',
+    title: '⏰ Deep Focus Master',
+    description: 'Completed a 25+ minute focused session',
+    pillar: 'mind',
+    rarity: 'rare',
+    triggers: ['session.completed'],
+    predicate: sessionAtLeast('mind', 25)
+  },
+  {
+    id: 'deep_meditation_master',
+    title: '🧘‍♂️ Deep Meditation Master',
+    description: 'Completed a 20+ minute meditation session',
+    pillar: 'spirit',
+    rarity: 'rare',
+    triggers: ['session.completed'],
+    predicate: sessionAtLeast('spirit', 20)
+  },
+  {
+    id: 'marathon_meditator',
+    title: 'Marathon Meditator',
+    description: 'Completed a 30+ minute session',
+    pillar: 'overall',
+    rarity: 'rare',
+    triggers: ['session.completed'],
+    predicate: sessionAtLeast(null, 30)
+  },
+  {
+    id: 'streak_7',
+    title: '🔥 Week Warrior',
+    description: 'Practised 7 days in a row',
+    pillar: 'overall',
+    rarity: 'rare',
+    triggers: ['session.completed', 'streak.updated'],
+    measure: context => context.streak?.longest || 0,
+    target: 7
+  },
+  {
+    id: 'streak_30',
+    title: '🌙 Monthly Devotion',
+    description: 'Practised 30 days in a row',
+    pillar: 'overall',
+    rarity: 'epic',
+    triggers: ['session.completed', 'streak.updated'],
+    measure: context => context.streak?.longest || 0,
+    target: 30
+  },
+  {
+    id: 'streak_100',
+    title: '👑 Hundred Day Sadhana',
+    description: 'Practised 100 days in a row',
+    pillar: 'overall',
+    rarity: 'legendary',
+    triggers: ['session.completed', 'streak.updated'],
+    measure: context => context.streak?.longest || 0,
+    target: 100
+  },
+  {
+    id: 'balanced_life',
+    title: '⚖️ Balanced Life',
+    description: 'Brought every pillar to 50% or higher at the same time',
+    pillar: 'overall',
+    rarity: 'epic',
+    triggers: ['session.completed', 'scores.updated'],
+    measure: context => Math.min(...PILLARS.map(pillar => context.pillarScores[pillar] || 0)),
+    target: 50
+  },
+  {
+    id: 'pillar_mastery',
+    title: '🏆 Pillar Mastery',
+    description: 'Raised a single pillar to 90% or higher',
+    pillar: 'overall',
+    rarity: 'legendary',
+    triggers: ['session.completed', 'scores.updated'],
+    measure: context => Math.max(...PILLARS.map(pillar => context.pillarScores[pillar] || 0)),
+    target: 90
+  }
+];
+
+const toAchievement = (rule: AchievementRule, unlockedDate: string): Achievement => ({
+  id: `achievement_${rule.id}`,
+  ruleId: rule.id,
+  title: rule.title,
+  description: rule.description,
+  pillar: rule.pillar,
+  rarity: rule.rarity,
+  unlockedDate,
+  progress: 100
+});
+
+class AchievementEngine {
+  /**
+   * Whether an achievement (or one with the same rule / title, for records
+   * created before rules existed) has already been unlocked
+   */
+  static isUnlocked(achievements: Achievement[], candidate: Pick<Achievement, 'title'> & { ruleId?: string }): boolean {
+    return achievements.some(achievement =>
+      (!!candidate.ruleId && achievement.ruleId === candidate.ruleId) || achievement.title === candidate.title
+    );
+  }
+
+  static progressOf(rule: AchievementRule, context: AchievementContext): AchievementProgress {
+    const target = rule.target ?? 1;
+    const current = rule.measure ? rule.measure(context) : rule.predicate?.(context) ? 1 : 0;
+    return {
+      rule,
+      current,
+      target,
+      progress: Math.min(100, Math.round((current / target) * 100)),
+      unlocked: current >= target
+    };
+  }
+
+  /**
+   * Rules listening to `triggers` that are met now and not yet unlocked
+   * @returns Achievements to add, deduplicated against `achievements`
+   */
+  static evaluate(
+    triggers: AchievementTrigger | AchievementTrigger[],
+    context: AchievementContext,
+    achievements: Achievement[],
+    unlockedDate: string = new Date().toISOString()
+  ): Achievement[] {
+    const active = Array.isArray(triggers) ? triggers : [triggers];
+
+    return ACHIEVEMENT_RULES
+      .filter(rule => rule.triggers.some(trigger => active.includes(trigger)))
+      .filter(rule => !this.isUnlocked(achievements, { ruleId: rule.id, title: rule.title }))
+      .filter(rule => this.progressOf(rule, context).unlocked)
+      .map(rule => toAchievement(rule, unlockedDate));
+  }
+
+  /**
+   * Progress towards every rule, for achievement lists and "next up" hints
+   */
+  static getProgress(context: AchievementContext, achievements: Achievement[]): AchievementProgress[] {
+    return ACHIEVEMENT_RULES.map(rule => {
+      const progress = this.progressOf(rule, context);
+      return this.isUnlocked(achievements, { ruleId: rule.id, title: rule.title })
+        ? { ...progress, progress: 100, unlocked: true }
+        : progress;
+    });
+  }
+
+  /**
+   * Replay the session log in order and unlock anything that was earned
+   * before the rule existed, dated to the session that earned it
+   */
+  static backfill(
+    sessions: SessionData[],
+    achievements: Achievement[],
+    streakSettings: StreakSettings,
+    frozenDays: string[] = []
+  ): Achievement[] {
+    const ordered = sessions
+      .filter(session => !isNaN(new Date(session.date).getTime()))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const frozen = new Set(frozenDays);
+    const unlocked: Achievement[] = [];
+
+    // Counts, streak and scores move forward one session at a time, so the replay stays linear
+    const history: SessionData[] = [];
+    const pillarCounts: Record<PillarKey, number> = { body: 0, mind: 0, heart: 0, spirit: 0, diet: 0 };
+    const scores = createPillarScoreTracker();
+    let run = 0;
+    let longest = 0;
+    let previousDay: string | null = null;
+
+    ordered.forEach(session => {
+      const today = toDayKey(session.date, streakSettings);
+      if (previousDay === null || today > previousDay) {
+        run = extendRun(run, previousDay, today, frozen);
+        longest = Math.max(longest, run);
+        previousDay = today;
+      }
+      history.push(session);
+      if (isPillar(session.pillar)) pillarCounts[session.pillar]++;
+      scores.add(session);
+
+      let pillarScores: PillarProgress | null = null;
+      const streak: StreakStats = { current: run, longest, todayCompleted: true, lastActiveDay: today };
+
+      // Scores are only read back for rules that use them
+      const context: AchievementContext = {
+        session,
+        sessions: history,
+        pillarCounts,
+        streak,
+        get pillarScores() {
+          return pillarScores ??= scores.scores();
+        }
+      };
+
+      unlocked.push(...this.evaluate(
+        ['session.completed', 'streak.updated', 'scores.updated'],
+        context,
+        [...achievements, ...unlocked],
+        session.date
+      ));
+    });
+
+    return unlocked;
+  }
+
+  static async needsBackfill(): Promise<boolean> {
+    try {
+      const stored = await AsyncStorage.getItem(ACHIEVEMENT_ENGINE_STATE_KEY);
+      return !stored || JSON.parse(stored).backfilledVersion < ACHIEVEMENT_RULES_VERSION;
+    } catch (error) {
+      console.error('Error reading achievement engine state:', error);
+      return true;
+    }
+  }
+
+  static async markBackfilled(): Promise<void> {
+    await AsyncStorage.setItem(
+      ACHIEVEMENT_ENGINE_STATE_KEY,
+      JSON.stringify({ backfilledVersion: ACHIEVEMENT_RULES_VERSION })
+    );
+  }
+
+  static async reset(): Promise<void> {
+    await AsyncStorage.removeItem(ACHIEVEMENT_ENGINE_STATE_KEY);
+  }
+}
+
+export default AchievementEngine;
@@ -0,0 +1,388 @@
+// src/services/AdherenceModel.ts - ON-DEVICE NEXT-DAY ADHERENCE AND SCORE MODEL
+import * as tf from '@tensorflow/tfjs';
+import {
+  ADHERENCE_FEATURE_COUNT,
+  ADHERENCE_FEATURE_NAMES,
+  AdherenceExample,
+  AdherenceHistory,
+  adherenceFeatureVector,
+  buildAdherenceExamples
+} from '../utils/adherenceFeatures';
+import { PILLARS, PillarKey, shiftDayKey } from '../utils/sessionAnalytics';
+
+// Plain-array copy of a weight tensor, so it can go through JSON storage
+export interface SerializedTensor {
+  shape: number[];
+  values: number[];
+}
+
+export interface AdherenceModelState {
+  version: 1;
+  featureCount: number; // weights are discarded when the feature layout changes
+  trainedThrough: string | null; // last day whose outcome has been learned from
+  adherenceExamples: number;
+  scoreExamples: number;
+  adherenceWeights: SerializedTensor[] | null;
+  scoreWeights: SerializedTensor[] | null;
+}
+
+/**
+ * Where weights live between launches - AsyncStorage in the app, memory in the harness
+ */
+export interface AdherenceModelStore {
+  load(): Promise<AdherenceModelState | null>;
+  save(state: AdherenceModelState): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type ForecastSource = 'model' | 'heuristic';
+
+export interface PillarForecast {
+  pillar: PillarKey;
+  probability: number; // 0-1, chance of at least one session tomorrow
+  expectedScore: number | null; // 1-100 average session score if practised, null with nothing to go on
+  source: ForecastSource; // of the probability
+  scoreSource: ForecastSource;
+}
+
+export interface TrainingSummary {
+  trainedThrough: string;
+  newExamples: number;
+  adherenceLoss: number | null;
+  scoreLoss: number | null;
+}
+
+export interface ForecastMetrics {
+  brier: number; // mean squared error of the probabilities, lower is better
+  logLoss: number;
+  accuracy: number; // at a 0.5 threshold
+  scoreMae: number | null; // mean absolute score error in points, over practised examples
+}
+
+export interface AdherenceEvaluation {
+  examples: number;
+  positives: number;
+  model: ForecastMetrics;
+  heuristic: ForecastMetrics;
+}
+
+// Roughly three weeks of history before the network's guesses beat the heuristic's
+const MIN_ADHERENCE_EXAMPLES = 21 * PILLARS.length;
+const MIN_SCORE_EXAMPLES = 20;
+
+// The first fit looks back this far; later fits replay a few weeks so new days don't wash out the old
+const MAX_HISTORY_DAYS = 180;
+const REPLAY_DAYS = 28;
+const INITIAL_EPOCHS = 30;
+const INCREMENTAL_EPOCHS = 4;
+const BATCH_SIZE = 32;
+const LEARNING_RATE = 0.01;
+// A few months of one person's days is very little data; weight decay keeps the networks from memorising it
+const ADHERENCE_L2 = 0.01;
+const SCORE_L2 = 0.0005;
+
+const feature = (features: number[], name: typeof ADHERENCE_FEATURE_NAMES[number]) =>
+  features[ADHERENCE_FEATURE_NAMES.indexOf(name)];
+
+/**
+ * Cold-start guess: recent habit, weighted towards the last week and this weekday
+ */
+export const heuristicForecast = (features: number[]): { probability: number; score: number | null } => {
+  const probability =
+    0.45 * feature(features, 'practisedLast7') +
+    0.25 * feature(features, 'sameWeekdayLast4') +
+    0.2 * feature(features, 'practisedLast28') +
+    0.1 * feature(features, 'practisedToday');
+  const recentScore = feature(features, 'recentScore');
+  return {
+    probability: Math.min(0.95, Math.max(0.05, probability)),
+    score: recentScore > 0 ? recentScore : null
+  };
+};
+
+// Scores are learned as a correction to the recent average, which is already a decent guess
+const hasScoreBaseline = (example: AdherenceExample) =>
+  example.score !== null && feature(example.features, 'recentScore') > 0;
+
+const createNetwork = (hiddenUnits: number, output: 'sigmoid' | 'tanh', loss: string, l2: number): tf.Sequential => {
+  const model = tf.sequential();
+  model.add(tf.layers.dense({
+    inputShape: [ADHERENCE_FEATURE_COUNT],
+    units: hiddenUnits,
+    activation: 'relu',
+    kernelRegularizer: tf.regularizers.l2({ l2 })
+  }));
+  model.add(tf.layers.dense({ units: 1, activation: output, kernelRegularizer: tf.regularizers.l2({ l2 }) }));
+  model.compile({ optimizer: tf.train.adam(LEARNING_RATE), loss });
+  return model;
+};
+
+const serializeWeights = (model: tf.LayersModel): SerializedTensor[] =>
+  model.getWeights().map(weight => ({ shape: weight.shape, values: Array.from(weight.dataSync()) }));
+
+const restoreWeights = (model: tf.LayersModel, weights: SerializedTensor[]) => {
+  tf.tidy(() => model.setWeights(weights.map(weight => tf.tensor(weight.values, weight.shape))));
+};
+
+const emptyState = (): AdherenceModelState => ({
+  version: 1,
+  featureCount: ADHERENCE_FEATURE_COUNT,
+  trainedThrough: null,
+  adherenceExamples: 0,
+  scoreExamples: 0,
+  adherenceWeights: null,
+  scoreWeights: null
+});
+
+const metricsFor = (examples: AdherenceExample[], probabilities: number[], scores: (number | null)[]): ForecastMetrics => {
+  let brier = 0;
+  let logLoss = 0;
+  let correct = 0;
+  let scoreError = 0;
+  let scored = 0;
+
+  examples.forEach((example, index) => {
+    const probability = Math.min(1 - 1e-7, Math.max(1e-7, probabilities[index]));
+    brier += Math.pow(probability - example.practised, 2);
+    logLoss -= example.practised ? Math.log(probability) : Math.log(1 - probability);
+    if ((probability >= 0.5 ? 1 : 0) === example.practised) correct++;
+    if (example.score !== null && scores[index] !== null) {
+      scoreError += Math.abs(scores[index]! - example.score) * 100;
+      scored++;
+    }
+  });
+
+  const count = Math.max(1, examples.length);
+  return {
+    brier: brier / count,
+    logLoss: logLoss / count,
+    accuracy: correct / count,
+    scoreMae: scored > 0 ? scoreError / scored : null
+  };
+};
+
+let backendReady: Promise<void> | null = null;
+
+// The CPU backend needs neither a GL context nor native bindings, so the same code runs in the app and in Node
+const ensureBackend = (): Promise<void> => {
+  if (!backendReady) {
+    backendReady = (async () => {
+      if (tf.getBackend() !== 'cpu') await tf.setBackend('cpu');
+      await tf.ready();
+    })();
+  }
+  return backendReady;
+};
+
+/**
+ * Two tiny networks over the same per-day features: one for whether a pillar gets practised tomorrow,
+ * one for how well. Free of React Native so the evaluation harness can drive it under Node.
+ */
+export class AdherenceModel {
+  private state: AdherenceModelState = emptyState();
+  private adherence: tf.Sequential | null = null;
+  private score: tf.Sequential | null = null;
+  private loaded: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private store: AdherenceModelStore) {}
+
+  get trainedThrough(): string | null {
+    return this.state.trainedThrough;
+  }
+
+  get usesModel(): boolean {
+    return this.state.adherenceExamples >= MIN_ADHERENCE_EXAMPLES;
+  }
+
+  /**
+   * Learn from every completed day since the last fit, up to and including `through`
+   */
+  train(history: AdherenceHistory, through: string): Promise<TrainingSummary | null> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      if (!history.firstDay || history.firstDay > through) return null;
+      if (this.state.trainedThrough && this.state.trainedThrough >= through) return null;
+
+      const newFrom = this.state.trainedThrough
+        ? shiftDayKey(this.state.trainedThrough, 1)
+        : shiftDayKey(through, -(MAX_HISTORY_DAYS - 1));
+      const replayFrom = this.state.trainedThrough ? shiftDayKey(newFrom, -REPLAY_DAYS) : newFrom;
+      const examples = buildAdherenceExamples(history, replayFrom, through);
+      const newExamples = examples.filter(example => example.day >= newFrom);
+      const epochs = this.state.trainedThrough ? INCREMENTAL_EPOCHS : INITIAL_EPOCHS;
+
+      const adherenceLoss = await this.fit(
+        this.adherence!,
+        examples.map(example => example.features),
+        examples.map(example => example.practised),
+        epochs
+      );
+      const scored = examples.filter(hasScoreBaseline);
+      const scoreLoss = await this.fit(
+        this.score!,
+        scored.map(example => example.features),
+        scored.map(example => example.score! - feature(example.features, 'recentScore')),
+        epochs
+      );
+
+      this.state = {
+        ...this.state,
+        trainedThrough: through,
+        adherenceExamples: this.state.adherenceExamples + newExamples.length,
+        scoreExamples: this.state.scoreExamples + newExamples.filter(hasScoreBaseline).length,
+        adherenceWeights: serializeWeights(this.adherence!),
+        scoreWeights: serializeWeights(this.score!)
+      };
+      await this.store.save(this.state);
+
+      return { trainedThrough: through, newExamples: newExamples.length, adherenceLoss, scoreLoss };
+    });
+  }
+
+  /**
+   * Tomorrow's outlook for every pillar, from what is known at the end of `today`
+   */
+  forecast(history: AdherenceHistory, today: string): Promise<PillarForecast[]> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      const rows = PILLARS.map(pillar => adherenceFeatureVector(history, today, pillar));
+      const probabilities = this.usesModel ? this.predict(this.adherence!, rows) : null;
+      const scores = this.state.scoreExamples >= MIN_SCORE_EXAMPLES ? this.predictScores(rows) : null;
+
+      return PILLARS.map((pillar, index) => {
+        const fallback = heuristicForecast(rows[index]);
+        const score = scores ? scores[index] : fallback.score;
+        const scoreSource: ForecastSource = scores && score !== null ? 'model' : 'heuristic';
+        return {
+          pillar,
+          probability: Math.round((probabilities ? probabilities[index] : fallback.probability) * 100) / 100,
+          expectedScore: score === null ? null : Math.max(1, Math.min(100, Math.round(score * 100))),
+          source: probabilities ? 'model' : 'heuristic',
+          scoreSource
+        };
+      });
+    });
+  }
+
+  /**
+   * Compare the networks with the heuristic on held-out examples
+   */
+  evaluate(examples: AdherenceExample[]): Promise<AdherenceEvaluation> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      const rows = examples.map(example => example.features);
+      const fallback = rows.map(heuristicForecast);
+      const probabilities = rows.length > 0 ? this.predict(this.adherence!, rows) : [];
+      const scores = rows.length > 0 ? this.predictScores(rows) : [];
+
+      return {
+        examples: examples.length,
+        positives: examples.filter(example => example.practised).length,
+        model: metricsFor(examples, probabilities, scores),
+        heuristic: metricsFor(
+          examples,
+          fallback.map(guess => guess.probability),
+          fallback.map(guess => guess.score)
+        )
+      };
+    });
+  }
+
+  /**
+   * Forget everything learned, e.g. after the user clears their data
+   */
+  reset(): Promise<void> {
+    return this.enqueue(async () => {
+      this.dispose();
+      this.state = emptyState();
+      await this.store.clear();
+    });
+  }
+
+  dispose() {
+    this.adherence?.dispose();
+    this.score?.dispose();
+    this.adherence = null;
+    this.score = null;
+    this.loaded = null;
+  }
+
+  // Training and prediction share the same variables, so they never overlap
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await ensureBackend();
+        this.adherence = createNetwork(12, 'sigmoid', 'binaryCrossentropy', ADHERENCE_L2);
+        this.score = createNetwork(8, 'tanh', 'meanSquaredError', SCORE_L2);
+
+        try {
+          const saved = await this.store.load();
+          if (saved && saved.version === 1 && saved.featureCount === ADHERENCE_FEATURE_COUNT) {
+            if (saved.adherenceWeights) restoreWeights(this.adherence, saved.adherenceWeights);
+            if (saved.scoreWeights) restoreWeights(this.score, saved.scoreWeights);
+            this.state = saved;
+          }
+        } catch (error) {
+          console.error('Error loading adherence model, starting fresh:', error);
+          this.state = emptyState();
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async fit(model: tf.Sequential, rows: number[][], labels: number[], epochs: number): Promise<number | null> {
+    if (rows.length === 0) return null;
+    const xs = tf.tensor2d(rows, [rows.length, ADHERENCE_FEATURE_COUNT]);
+    const ys = tf.tensor2d(labels, [labels.length, 1]);
+    try {
+      const result = await model.fit(xs, ys, { epochs, batchSize: BATCH_SIZE, shuffle: true, verbose: 0 });
+      const losses = result.history.loss as number[];
+      return losses[losses.length - 1];
+    } finally {
+      xs.dispose();
+      ys.dispose();
+    }
+  }
+
+  // Null where the pillar has no recent score to correct
+  private predictScores(rows: number[][]): (number | null)[] {
+    const corrections = this.predict(this.score!, rows);
+    return rows.map((row, index) => {
+      const recentScore = feature(row, 'recentScore');
+      return recentScore > 0 ? recentScore + corrections[index] : null;
+    });
+  }
+
+  private predict(model: tf.Sequential, rows: number[][]): number[] {
+    return tf.tidy(() => {
+      const output = model.predict(tf.tensor2d(rows, [rows.length, ADHERENCE_FEATURE_COUNT])) as tf.Tensor;
+      return Array.from(output.dataSync());
+    });
+  }
+}
+
+/**
+ * In-memory weight store, for the evaluation harness
+ */
+export const createMemoryModelStore = (initial: AdherenceModelState | null = null): AdherenceModelStore => {
+  let saved = initial;
+  return {
+    load: async () => saved,
+    save: async state => {
+      saved = JSON.parse(JSON.stringify(state));
+    },
+    clear: async () => {
+      saved = null;
+    }
+  };
+};
+
+export default AdherenceModel;
@@ -0,0 +1,60 @@
+// src/services/AdherencePredictor.ts - TOMORROW'S PRACTICE OUTLOOK, LEARNED ON DEVICE
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CheckIn, SessionData } from '../context/AppDataContext';
+import { buildAdherenceHistory } from '../utils/adherenceFeatures';
+import { shiftDayKey, toDayKey } from '../utils/sessionAnalytics';
+import AdherenceModel, { AdherenceModelState, AdherenceModelStore, PillarForecast, TrainingSummary } from './AdherenceModel';
+
+// Learned from sessions and check-ins on this device, so it is not part of backups
+export const ADHERENCE_MODEL_KEY = 'adherenceModel';
+
+const asyncStorageStore: AdherenceModelStore = {
+  load: async () => {
+    const raw = await AsyncStorage.getItem(ADHERENCE_MODEL_KEY);
+    return raw ? (JSON.parse(raw) as AdherenceModelState) : null;
+  },
+  save: state => AsyncStorage.setItem(ADHERENCE_MODEL_KEY, JSON.stringify(state)),
+  clear: () => AsyncStorage.removeItem(ADHERENCE_MODEL_KEY)
+};
+
+export class AdherencePredictor {
+  private static instance: AdherencePredictor;
+  private model = new AdherenceModel(asyncStorageStore);
+
+  public static getInstance(): AdherencePredictor {
+    if (!AdherencePredictor.instance) {
+      AdherencePredictor.instance = new AdherencePredictor();
+    }
+    return AdherencePredictor.instance;
+  }
+
+  /**
+   * Fit the model on days completed since it last trained. Today is still open, so it is left out.
+   */
+  async train(sessions: SessionData[], checkIns: CheckIn[], now: Date = new Date()): Promise<TrainingSummary | null> {
+    try {
+      return await this.model.train(buildAdherenceHistory(sessions, checkIns), shiftDayKey(toDayKey(now), -1));
+    } catch (error) {
+      console.error('Error training adherence model:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Likelihood of practising each pillar tomorrow and the score to expect.
+   * Falls back to recent habit until the model has seen enough days.
+   */
+  async forecastTomorrow(sessions: SessionData[], checkIns: CheckIn[], now: Date = new Date()): Promise<PillarForecast[]> {
+    return this.model.forecast(buildAdherenceHistory(sessions, checkIns), toDayKey(now));
+  }
+
+  async reset(): Promise<void> {
+    try {
+      await this.model.reset();
+    } catch (error) {
+      console.error('Error resetting adherence model:', error);
+    }
+  }
+}
+
+export default AdherencePredictor;
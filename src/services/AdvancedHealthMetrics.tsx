@@ -1,17 +1,36 @@
 // src/services/AdvancedHealthMetrics.tsx
-import { WearableIntegration } from './WearableIntegration';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  HealthHistoryStore,
+  HealthHistoryMetric,
+  HealthDayValue,
+  HealthProvenance
+} from './HealthHistoryStore';
+import { shiftDayKey } from './StreakEngine';
+import { STORAGE_KEYS } from './PersistenceService';
+import type { MealEntry } from '../context/AppDataContext';
+import { NutritionAssessment, assessNutrition, getNutritionHistory } from '../utils/nutritionAnalytics';
+
+// A value from the health history store, with where it came from and which day it is for
+export interface TrackedValue {
+  value: number;
+  provenance: HealthProvenance;
+  day: string;
+}
 
 interface BiometricData {
-  heartRate: number;
-  bloodPressure: { systolic: number; diastolic: number };
-  bloodOxygen: number;
-  bodyTemperature: number;
-  respiratoryRate: number;
+  heartRate: TrackedValue | null;
+  restingHeartRate: TrackedValue | null;
+  bloodPressure: { systolic: TrackedValue; diastolic: TrackedValue } | null;
+  bloodOxygen: TrackedValue | null;
+  bodyTemperature: TrackedValue | null;
+  respiratoryRate: TrackedValue | null;
   timestamp: string;
 }
 
 interface SleepAnalysis {
+  day: string;
+  provenance: HealthProvenance;
   duration: number;
   quality: number;
   stages: {
@@ -19,31 +38,20 @@ interface SleepAnalysis {
     light: number;
     rem: number;
     awake: number;
-  };
-  bedtime: string;
-  wakeTime: string;
+  } | null;
   sleepScore: number;
   recommendations: string[];
 }
 
 interface StressMetrics {
-  hrv: number; // Heart Rate Variability
-  stressLevel: number; // 1-10 scale
-  cortisol: number; // estimated
-  recoveryTime: number; // hours
+  hrv: TrackedValue | null; // Heart Rate Variability
+  stressLevel: number | null; // 1-10 scale, null without a check-in or HRV reading
+  cortisol: number | null; // estimated
+  recoveryTime: number | null; // hours
   stressFactors: string[];
   interventions: string[];
 }
 
-interface NutritionInsights {
-  macros: { protein: number; carbs: number; fats: number };
-  micronutrients: { [key: string]: number };
-  hydration: number;
-  nutritionScore: number;
-  deficiencies: string[];
-  recommendations: string[];
-}
-
 interface WellnessInsight {
   id: string;
   category: 'sleep' | 'stress' | 'nutrition' | 'fitness' | 'mental';
@@ -55,10 +63,111 @@ interface WellnessInsight {
   timestamp: string;
 }
 
+export interface HealthTrends {
+  days: string[]; // yyyy-MM-dd, oldest first
+  sleepTrend: (number | null)[]; // 0-100
+  stressTrend: (number | null)[]; // 1-10
+  energyTrend: (number | null)[]; // 0-100
+  overallTrend: (number | null)[]; // 0-100
+}
+
+type DayValues = Partial<Record<HealthHistoryMetric, HealthDayValue>>;
+
+// How far back a reading may be and still count as "current"
+const CURRENT_LOOKBACK_DAYS = {
+  vitals: 30, // manual vitals are logged occasionally
+  device: 2,
+  checkIn: 2
+};
+
+// Nutrition is judged over the last week of logged meals
+const NUTRITION_WINDOW_DAYS = 7;
+
+// Share of the overall score for each component; days missing a component are scored on the rest
+const WELLNESS_WEIGHTS = {
+  sleep: 0.3,
+  stress: 0.2,
+  mood: 0.15,
+  energy: 0.1,
+  activity: 0.15,
+  vitals: 0.1
+};
+
+const DAILY_STEP_GOAL = 8000;
+const DAILY_ACTIVE_MINUTES_GOAL = 30;
+
+// Check-in scales are 1-5
+const ratingToPercent = (rating: number) => ((rating - 1) / 4) * 100;
+const ratingToStressLevel = (rating: number) => rating * 2;
+
+const tracked = (latest: (HealthDayValue & { day: string }) | null): TrackedValue | null =>
+  latest ? { value: latest.value, provenance: latest.provenance, day: latest.day } : null;
+
+/**
+ * Sleep score for a day from stored sleep data: device quality when there is one,
+ * otherwise the evening check-in's sleep rating
+ */
+const sleepScoreOf = (values: DayValues): number | null => {
+  if (values.sleepQuality) return values.sleepQuality.value;
+  if (values.sleepRating) return ratingToPercent(values.sleepRating.value);
+  return null;
+};
+
+const stressLevelOf = (values: DayValues): number | null => {
+  if (values.stress) return ratingToStressLevel(values.stress.value);
+  if (values.hrv) {
+    const hrv = values.hrv.value;
+    if (hrv > 40) return 2; // Low stress
+    if (hrv > 25) return 4; // Mild stress
+    if (hrv < 20) return 8; // High stress
+    return 5;
+  }
+  return null;
+};
+
+/**
+ * Weighted wellness score for one day of stored values
+ * @returns null when the day has nothing to score
+ */
+export const scoreHealthDay = (values: DayValues): number | null => {
+  const components: Array<[number, number | null]> = [];
+
+  components.push([WELLNESS_WEIGHTS.sleep, sleepScoreOf(values)]);
+
+  const stressLevel = stressLevelOf(values);
+  components.push([WELLNESS_WEIGHTS.stress, stressLevel === null ? null : Math.max(0, 100 - stressLevel * 10)]);
+  components.push([WELLNESS_WEIGHTS.mood, values.mood ? ratingToPercent(values.mood.value) : null]);
+  components.push([WELLNESS_WEIGHTS.energy, values.energy ? ratingToPercent(values.energy.value) : null]);
+
+  const activity = [
+    values.steps ? Math.min(100, (values.steps.value / DAILY_STEP_GOAL) * 100) : null,
+    values.activeMinutes ? Math.min(100, (values.activeMinutes.value / DAILY_ACTIVE_MINUTES_GOAL) * 100) : null
+  ].filter((score): score is number => score !== null);
+  components.push([
+    WELLNESS_WEIGHTS.activity,
+    activity.length > 0 ? activity.reduce((sum, score) => sum + score, 0) / activity.length : null
+  ]);
+
+  const heartRate = values.restingHeartRate || values.heartRate;
+  if (heartRate || values.systolic || values.bloodOxygen) {
+    let vitals = 100;
+    if (heartRate && (heartRate.value > 85 || heartRate.value < 50)) vitals -= 20;
+    if (values.systolic && values.systolic.value > 140) vitals -= 30;
+    if (values.bloodOxygen && values.bloodOxygen.value < 95) vitals -= 25;
+    components.push([WELLNESS_WEIGHTS.vitals, vitals]);
+  }
+
+  const scored = components.filter((component): component is [number, number] => component[1] !== null);
+  if (scored.length === 0) return null;
+
+  const totalWeight = scored.reduce((sum, [weight]) => sum + weight, 0);
+  const score = scored.reduce((sum, [weight, value]) => sum + weight * value, 0) / totalWeight;
+  return Math.round(Math.max(0, Math.min(100, score)));
+};
+
 export class AdvancedHealthMetrics {
   private static instance: AdvancedHealthMetrics;
-  private wearableIntegration: WearableIntegration;
-  private healthHistory: BiometricData[] = [];
+  private history: HealthHistoryStore;
   private insights: WellnessInsight[] = [];
 
   public static getInstance(): AdvancedHealthMetrics {
@@ -69,32 +178,41 @@ export class AdvancedHealthMetrics {
   }
 
   constructor() {
-    this.wearableIntegration = WearableIntegration.getInstance();
+    this.history = HealthHistoryStore.getInstance();
   }
 
-  // Comprehensive health assessment
-  async generateHealthAssessment(): Promise<{
-    overallScore: number;
+  /**
+   * Comprehensive health assessment
+   * @param importFromDevice - Pull new wearable data first; off for plans without health integration
+   */
+  async generateHealthAssessment(importFromDevice: boolean = true): Promise<{
+    overallScore: number | null;
     biometrics: BiometricData;
-    sleep: SleepAnalysis;
+    sleep: SleepAnalysis | null;
     stress: StressMetrics;
-    nutrition: NutritionInsights;
+    nutrition: NutritionAssessment | null; // null without meals logged this week
     insights: WellnessInsight[];
   }> {
     
-    const healthMetrics = await this.wearableIntegration.getLatestHealthMetrics();
-    const sleepData = await this.wearableIntegration.getSleepData();
-    
-    const biometrics = await this.analyzeBiometrics(healthMetrics);
-    const sleep = await this.analyzeSleep(sleepData);
-    const stress = await this.analyzeStress(healthMetrics);
+    // Pull the latest wearable data into the store first; everything below reads only from the store
+    if (importFromDevice) {
+      try {
+        await this.history.syncFromWearable();
+      } catch (error) {
+        console.error('Error importing wearable data:', error);
+      }
+    }
+
+    const biometrics = await this.analyzeBiometrics();
+    const sleep = await this.analyzeSleep();
+    const stress = await this.analyzeStress();
     const nutrition = await this.analyzeNutrition();
     
     // Generate AI insights
     const insights = await this.generateHealthInsights(biometrics, sleep, stress, nutrition);
     
     // Calculate overall wellness score
-    const overallScore = this.calculateOverallWellnessScore(biometrics, sleep, stress, nutrition);
+    const overallScore = await this.calculateOverallWellnessScore();
     
     return {
       overallScore,
@@ -106,41 +224,59 @@ export class AdvancedHealthMetrics {
     };
   }
 
-  private async analyzeBiometrics(healthMetrics: any): Promise<BiometricData> {
-    // Simulate comprehensive biometric analysis
+  private async analyzeBiometrics(): Promise<BiometricData> {
+    const latest = async (metric: HealthHistoryMetric, lookbackDays: number) =>
+      tracked(await this.history.getLatest(metric, lookbackDays));
+
+    const [heartRate, restingHeartRate, systolic, diastolic, bloodOxygen, bodyTemperature, respiratoryRate] =
+      await Promise.all([
+        latest('heartRate', CURRENT_LOOKBACK_DAYS.vitals),
+        latest('restingHeartRate', CURRENT_LOOKBACK_DAYS.vitals),
+        latest('systolic', CURRENT_LOOKBACK_DAYS.vitals),
+        latest('diastolic', CURRENT_LOOKBACK_DAYS.vitals),
+        latest('bloodOxygen', CURRENT_LOOKBACK_DAYS.vitals),
+        latest('bodyTemperature', CURRENT_LOOKBACK_DAYS.vitals),
+        latest('respiratoryRate', CURRENT_LOOKBACK_DAYS.vitals)
+      ]);
+
     return {
-      heartRate: healthMetrics.heartRate || 72,
-      bloodPressure: {
-        systolic: 120 + Math.floor(Math.random() * 20),
-        diastolic: 80 + Math.floor(Math.random() * 10)
-      },
-      bloodOxygen: 97 + Math.floor(Math.random() * 3),
-      bodyTemperature: 98.6 + (Math.random() - 0.5),
-      respiratoryRate: 12 + Math.floor(Math.random() * 8),
+      heartRate,
+      restingHeartRate,
+      bloodPressure: systolic && diastolic ? { systolic, diastolic } : null,
+      bloodOxygen,
+      bodyTemperature,
+      respiratoryRate,
       timestamp: new Date().toISOString()
     };
   }
 
-  private async analyzeSleep(sleepData: any): Promise<SleepAnalysis> {
-    if (!sleepData) {
-      return this.generateMockSleepAnalysis();
-    }
+  private async analyzeSleep(): Promise<SleepAnalysis | null> {
+    const hours = await this.history.getLatest('sleepHours', CURRENT_LOOKBACK_DAYS.device);
+    if (!hours) return null;
 
-    const sleepScore = this.calculateSleepScore(sleepData);
-    const recommendations = this.generateSleepRecommendations(sleepData);
+    const values = await this.history.getDay(hours.day);
+    const stages = values.sleepDeep && values.sleepLight && values.sleepRem
+      ? {
+          deep: values.sleepDeep.value,
+          light: values.sleepLight.value,
+          rem: values.sleepRem.value,
+          awake: values.sleepAwake?.value ?? 0
+        }
+      : null;
+    const sleep = { duration: hours.value, stages };
 
     return {
-      duration: sleepData.duration,
-      quality: sleepData.quality,
-      stages: sleepData.stages,
-      bedtime: sleepData.bedtime,
-      wakeTime: sleepData.wakeTime,
-      sleepScore,
-      recommendations
+      day: hours.day,
+      provenance: hours.provenance,
+      duration: hours.value,
+      quality: Math.round(sleepScoreOf(values) ?? 0),
+      stages,
+      sleepScore: this.calculateSleepScore(sleep),
+      recommendations: this.generateSleepRecommendations(sleep)
     };
   }
 
-  private calculateSleepScore(sleepData: any): number {
+  private calculateSleepScore(sleepData: Pick<SleepAnalysis, 'duration' | 'stages'>): number {
     let score = 100;
     
     // Duration scoring
@@ -149,53 +285,57 @@ export class AdvancedHealthMetrics {
     else if (sleepData.duration > 9) score -= 10;
     
     // Quality factors
-    const deepSleepPercentage = (sleepData.stages.deep / sleepData.duration) * 100;
-    if (deepSleepPercentage < 15) score -= 20;
-    else if (deepSleepPercentage > 25) score += 10;
-    
-    const remPercentage = (sleepData.stages.rem / sleepData.duration) * 100;
-    if (remPercentage < 20) score -= 15;
-    else if (remPercentage > 30) score += 5;
+    if (sleepData.stages && sleepData.duration > 0) {
+      const deepSleepPercentage = (sleepData.stages.deep / sleepData.duration) * 100;
+      if (deepSleepPercentage < 15) score -= 20;
+      else if (deepSleepPercentage > 25) score += 10;
+
+      const remPercentage = (sleepData.stages.rem / sleepData.duration) * 100;
+      if (remPercentage < 20) score -= 15;
+      else if (remPercentage > 30) score += 5;
+    }
     
     return Math.max(0, Math.min(100, score));
   }
 
-  private generateSleepRecommendations(sleepData: any): string[] {
+  private generateSleepRecommendations(sleepData: Pick<SleepAnalysis, 'duration' | 'stages'>): string[] {
     const recommendations = [];
     
     if (sleepData.duration < 7) {
       recommendations.push('Aim for 7-9 hours of sleep for optimal neural recovery');
     }
     
-    if (sleepData.stages.deep < sleepData.duration * 0.15) {
+    if (sleepData.stages && sleepData.stages.deep < sleepData.duration * 0.15) {
       recommendations.push('Improve deep sleep with cool room temperature (65-68°F)');
       recommendations.push('Avoid screens 2 hours before bed for better deep sleep');
     }
     
-    if (sleepData.stages.rem < sleepData.duration * 0.20) {
+    if (sleepData.stages && sleepData.stages.rem < sleepData.duration * 0.20) {
       recommendations.push('REM sleep enhancement: maintain consistent sleep schedule');
       recommendations.push('Consider magnesium supplementation for REM optimization');
     }
     
-    const bedtime = new Date(sleepData.bedtime);
-    if (bedtime.getHours() > 23) {
-      recommendations.push('Earlier bedtime (before 11 PM) aligns with circadian rhythms');
-    }
-    
     return recommendations;
   }
 
-  private async analyzeStress(healthMetrics: any): Promise<StressMetrics> {
-    // Calculate stress based on HRV and other markers
-    const hrv = healthMetrics.hrv || 30;
-    let stressLevel = 5; // Default moderate stress
-    
-    if (hrv > 40) stressLevel = 2; // Low stress
-    else if (hrv > 25) stressLevel = 4; // Mild stress
-    else if (hrv < 20) stressLevel = 8; // High stress
-    
+  private async analyzeStress(): Promise<StressMetrics> {
+    // Today's check-in says more than a physiological proxy, so it wins over HRV
+    const [checkIn, hrvReading] = await Promise.all([
+      this.history.getLatest('stress', CURRENT_LOOKBACK_DAYS.checkIn),
+      this.history.getLatest('hrv', CURRENT_LOOKBACK_DAYS.device)
+    ]);
+    const hrv = tracked(hrvReading);
+    const stressLevel = stressLevelOf({
+      ...(checkIn ? { stress: checkIn } : {}),
+      ...(hrvReading ? { hrv: hrvReading } : {})
+    });
+
+    if (stressLevel === null) {
+      return { hrv, stressLevel: null, cortisol: null, recoveryTime: null, stressFactors: [], interventions: [] };
+    }
+
     const cortisol = this.estimateCortisol(stressLevel, new Date().getHours());
-    const recoveryTime = this.calculateRecoveryTime(stressLevel, hrv);
+    const recoveryTime = this.calculateRecoveryTime(stressLevel, hrv ? hrv.value : null);
     
     return {
       hrv,
@@ -221,10 +361,10 @@ export class AdvancedHealthMetrics {
     return Math.max(5, Math.min(30, baseLevel));
   }
 
-  private calculateRecoveryTime(stressLevel: number, hrv: number): number {
+  private calculateRecoveryTime(stressLevel: number, hrv: number | null): number {
     // Recovery time based on stress level and HRV
     const baseRecovery = stressLevel * 2; // hours
-    const hrvAdjustment = hrv > 30 ? -2 : hrv < 20 ? +4 : 0;
+    const hrvAdjustment = hrv === null ? 0 : hrv > 30 ? -2 : hrv < 20 ? +4 : 0;
     
     return Math.max(2, Math.min(24, baseRecovery + hrvAdjustment));
   }
@@ -263,62 +403,28 @@ export class AdvancedHealthMetrics {
     return interventions;
   }
 
-  private async analyzeNutrition(): Promise<NutritionInsights> {
-    // Simulate nutritional analysis based on user data
-    return {
-      macros: {
-        protein: 150 + Math.floor(Math.random() * 50),
-        carbs: 200 + Math.floor(Math.random() * 100),
-        fats: 80 + Math.floor(Math.random() * 40)
-      },
-      micronutrients: {
-        'Vitamin D': 400 + Math.floor(Math.random() * 200),
-        'Vitamin B12': 2.4 + Math.random(),
-        'Iron': 15 + Math.floor(Math.random() * 10),
-        'Magnesium': 300 + Math.floor(Math.random() * 100),
-        'Omega-3': 1.5 + Math.random()
-      },
-      hydration: 2.5 + Math.random(),
-      nutritionScore: 75 + Math.floor(Math.random() * 20),
-      deficiencies: this.identifyNutritionalDeficiencies(),
-      recommendations: this.generateNutritionRecommendations()
-    };
-  }
-
-  private identifyNutritionalDeficiencies(): string[] {
-    const possibleDeficiencies = [
-      'Vitamin D (optimize sun exposure or supplementation)',
-      'Omega-3 fatty acids (increase fish or supplement intake)',
-      'Magnesium (consider supplementation for better sleep)',
-      'B-vitamins (focus on whole grains and leafy greens)'
-    ];
-    
-    // Randomly select 0-2 deficiencies for demo
-    const numDeficiencies = Math.floor(Math.random() * 3);
-    return possibleDeficiencies.slice(0, numDeficiencies);
-  }
-
-  private generateNutritionRecommendations(): string[] {
-    return [
-      'Increase protein intake to 1.6g per kg body weight for optimal recovery',
-      'Time carbohydrate intake around workouts for better performance',
-      'Include anti-inflammatory foods: berries, leafy greens, fatty fish',
-      'Maintain hydration at 35ml per kg body weight daily',
-      'Consider intermittent fasting aligned with circadian rhythms'
-    ];
+  private async analyzeNutrition(): Promise<NutritionAssessment | null> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.NUTRITION_LOG);
+      const meals: MealEntry[] = stored ? JSON.parse(stored) : [];
+      return assessNutrition(getNutritionHistory(meals, NUTRITION_WINDOW_DAYS, await this.history.todayKey()));
+    } catch (error) {
+      console.error('Error analyzing nutrition:', error);
+      return null;
+    }
   }
 
   private async generateHealthInsights(
     biometrics: BiometricData,
-    sleep: SleepAnalysis,
+    sleep: SleepAnalysis | null,
     stress: StressMetrics,
-    nutrition: NutritionInsights
+    nutrition: NutritionAssessment | null
   ): Promise<WellnessInsight[]> {
     
     const insights: WellnessInsight[] = [];
     
     // Sleep insights
-    if (sleep.sleepScore < 70) {
+    if (sleep && sleep.sleepScore < 70) {
       insights.push({
         id: 'sleep_quality_low',
         category: 'sleep',
@@ -332,12 +438,14 @@ export class AdvancedHealthMetrics {
     }
     
     // Stress insights
-    if (stress.stressLevel >= 7) {
+    if (stress.stressLevel !== null && stress.stressLevel >= 7) {
       insights.push({
         id: 'stress_high',
         category: 'stress',
         title: 'Elevated Stress Levels Detected',
-        description: `High stress level (${stress.stressLevel}/10) with low HRV (${stress.hrv}ms) suggests need for immediate stress management.`,
+        description: stress.hrv
+          ? `High stress level (${stress.stressLevel}/10) with HRV of ${Math.round(stress.hrv.value)}ms suggests need for immediate stress management.`
+          : `High stress level (${stress.stressLevel}/10) suggests need for immediate stress management.`,
         severity: 'high',
         actionable: true,
         recommendations: stress.interventions,
@@ -346,12 +454,12 @@ export class AdvancedHealthMetrics {
     }
     
     // Nutrition insights
-    if (nutrition.nutritionScore < 80) {
+    if (nutrition && nutrition.nutritionScore < 80) {
       insights.push({
         id: 'nutrition_optimization',
         category: 'nutrition',
         title: 'Nutrition Optimization Opportunity',
-        description: `Nutrition score of ${nutrition.nutritionScore}/100 suggests potential for dietary improvements.`,
+        description: `Nutrition score of ${nutrition.nutritionScore}/100 over ${nutrition.days} logged day${nutrition.days === 1 ? '' : 's'} suggests potential for dietary improvements.`,
         severity: 'low',
         actionable: true,
         recommendations: nutrition.recommendations,
@@ -360,13 +468,14 @@ export class AdvancedHealthMetrics {
     }
     
     // Biometric insights
-    if (biometrics.heartRate > 85 || biometrics.heartRate < 50) {
+    const heartRate = biometrics.restingHeartRate || biometrics.heartRate;
+    if (heartRate && (heartRate.value > 85 || heartRate.value < 50)) {
       insights.push({
         id: 'heart_rate_abnormal',
         category: 'fitness',
         title: 'Heart Rate Outside Optimal Range',
-        description: `Resting heart rate of ${biometrics.heartRate} bpm may indicate fitness or health considerations.`,
-        severity: biometrics.heartRate > 100 ? 'high' : 'medium',
+        description: `Heart rate of ${Math.round(heartRate.value)} bpm may indicate fitness or health considerations.`,
+        severity: heartRate.value > 100 ? 'high' : 'medium',
         actionable: true,
         recommendations: [
           'Monitor heart rate trends over time',
@@ -380,93 +489,30 @@ export class AdvancedHealthMetrics {
     return insights;
   }
 
-  private calculateOverallWellnessScore(
-    biometrics: BiometricData,
-    sleep: SleepAnalysis,
-    stress: StressMetrics,
-    nutrition: NutritionInsights
-  ): number {
-    
-    // Weighted scoring system
-    const sleepWeight = 0.3;
-    const stressWeight = 0.25;
-    const nutritionWeight = 0.25;
-    const biometricsWeight = 0.2;
-    
-    const sleepScore = sleep.sleepScore;
-    const stressScore = Math.max(0, 100 - (stress.stressLevel * 10));
-    const nutritionScore = nutrition.nutritionScore;
-    
-    // Biometrics scoring (simplified)
-    let biometricsScore = 100;
-    if (biometrics.heartRate > 85 || biometrics.heartRate < 50) biometricsScore -= 20;
-    if (biometrics.bloodPressure.systolic > 140) biometricsScore -= 30;
-    if (biometrics.bloodOxygen < 95) biometricsScore -= 25;
-    
-    const overallScore = (
-      sleepScore * sleepWeight +
-      stressScore * stressWeight +
-      nutritionScore * nutritionWeight +
-      biometricsScore * biometricsWeight
-    );
-    
-    return Math.round(Math.max(0, Math.min(100, overallScore)));
-  }
-
-  private generateMockSleepAnalysis(): SleepAnalysis {
-    return {
-      duration: 7.5,
-      quality: 78,
-      stages: {
-        deep: 1.2,
-        light: 4.8,
-        rem: 1.3,
-        awake: 0.2
-      },
-      bedtime: '2024-01-01T22:30:00Z',
-      wakeTime: '2024-01-02T06:00:00Z',
-      sleepScore: 82,
-      recommendations: [
-        'Maintain consistent sleep schedule',
-        'Optimize bedroom environment for better deep sleep'
-      ]
-    };
+  /**
+   * Today's score, or yesterday's before anything has been recorded today
+   */
+  private async calculateOverallWellnessScore(): Promise<number | null> {
+    const [yesterday, today] = (await this.getHealthTrends(2)).overallTrend;
+    return today ?? yesterday;
   }
 
   // Get health trends over time
-  async getHealthTrends(days: number = 30): Promise<{
-    sleepTrend: number[];
-    stressTrend: number[];
-    energyTrend: number[];
-    overallTrend: number[];
-  }> {
-    
-    // Simulate trend data
-    const trends = {
-      sleepTrend: [],
-      stressTrend: [],
-      energyTrend: [],
-      overallTrend: []
-    };
-    
-    for (let i = 0; i < days; i++) {
-      trends.sleepTrend.push(70 + Math.floor(Math.random() * 25));
-      trends.stressTrend.push(3 + Math.floor(Math.random() * 5));
-      trends.energyTrend.push(60 + Math.floor(Math.random() * 35));
-      trends.overallTrend.push(75 + Math.floor(Math.random() * 20));
-    }
-    
-    return trends;
-  }
+  async getHealthTrends(days: number = 30): Promise<HealthTrends> {
+    const today = await this.history.todayKey();
+    const dayKeys = Array.from({ length: days }, (_, index) => shiftDayKey(today, index - (days - 1)));
+    const dayValues = await Promise.all(dayKeys.map(day => this.history.getDay(day)));
 
-  // Save health data
-  async saveHealthData(data: any): Promise<void> {
-    try {
-      this.healthHistory.push(data);
-      await AsyncStorage.setItem('healthHistory', JSON.stringify(this.healthHistory));
-    } catch (error) {
-      console.error('Error saving health data:', error);
-    }
+    return {
+      days: dayKeys,
+      sleepTrend: dayValues.map(values => {
+        const score = sleepScoreOf(values);
+        return score === null ? null : Math.round(score);
+      }),
+      stressTrend: dayValues.map(values => stressLevelOf(values)),
+      energyTrend: dayValues.map(values => (values.energy ? Math.round(ratingToPercent(values.energy.value)) : null)),
+      overallTrend: dayValues.map(values => scoreHealthDay(values))
+    };
   }
 
   // Get health insights
@@ -0,0 +1,382 @@
+// src/services/BackupService.ts - PORTABLE BACKUP & RESTORE OF ALL USER DATA
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { STORAGE_KEYS, CURRENT_SCHEMA_VERSION } from './PersistenceService';
+import { STREAK_STATE_KEY } from './StreakEngine';
+import AchievementEngine from './AchievementEngine';
+import { HEALTH_HISTORY_KEY } from './HealthHistoryStore';
+import { COACH_CONVERSATIONS_KEY } from './CoachConversationService';
+import { ADAPTIVE_REMINDERS_KEY, NOTIFICATION_SETTINGS_KEY } from './NotificationOrchestrator';
+import {
+  EncryptedPayload,
+  encryptWithPassphrase,
+  decryptWithPassphrase,
+  sha256,
+  toHex
+} from '../utils/crypto';
+
+export const BACKUP_FORMAT = '5pillars-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupNamespace =
+  | 'appData'
+  | 'journal'
+  | 'errorReports'
+  | 'community'
+  | 'health'
+  | 'coach'
+  | 'preferences';
+
+// Raw AsyncStorage values keyed by storage key, grouped by namespace
+export type BackupNamespaces = Partial<Record<BackupNamespace, Record<string, string>>>;
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  schemaVersion: number;
+  encrypted: boolean;
+  checksum: string;
+  namespaces?: BackupNamespaces;
+  payload?: EncryptedPayload;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface NamespaceDiff {
+  namespace: BackupNamespace;
+  added: number;
+  changed: number;
+  unchanged: number;
+  localOnly: number;
+}
+
+export interface ImportPreview {
+  createdAt: string;
+  schemaVersion: number;
+  namespaces: BackupNamespaces;
+  diffs: NamespaceDiff[];
+}
+
+interface NamespaceDefinition {
+  keys?: string[];
+  prefix?: string;
+}
+
+/**
+ * Every AsyncStorage key that holds user data must be listed here,
+ * otherwise it will not survive a device move. Subscriptions and promo grants are
+ * left out on purpose: a backup is just a file the user can edit, so premium access
+ * is rebuilt from the store with restorePurchases instead.
+ */
+export const BACKUP_NAMESPACES: Record<BackupNamespace, NamespaceDefinition> = {
+  appData: {
+    keys: [
+      STORAGE_KEYS.USER_PROFILE,
+      STORAGE_KEYS.SESSIONS,
+      STORAGE_KEYS.ACHIEVEMENTS,
+      STORAGE_KEYS.PILLAR_SCORES,
+      STORAGE_KEYS.AI_INSIGHTS,
+      STORAGE_KEYS.CHECK_INS,
+      STORAGE_KEYS.NUTRITION_LOG,
+      STORAGE_KEYS.MEASUREMENTS,
+      STORAGE_KEYS.RECOMMENDATION_FEEDBACK,
+      STORAGE_KEYS.COACHING_PLANS,
+      STORAGE_KEYS.SCHEMA_VERSION
+    ]
+  },
+  journal: { prefix: '@5PillarsOfLife_' },
+  errorReports: { keys: ['error_reports'] },
+  community: { keys: ['socialFeed', 'activeChallenges'] },
+  health: { keys: [HEALTH_HISTORY_KEY] },
+  coach: { keys: [COACH_CONVERSATIONS_KEY] },
+  preferences: { keys: ['user_theme', 'optimalNotificationTime', STREAK_STATE_KEY, NOTIFICATION_SETTINGS_KEY, ADAPTIVE_REMINDERS_KEY] }
+};
+
+// Helper Functions
+const checksumOf = (namespaces: BackupNamespaces): string => toHex(sha256(JSON.stringify(namespaces)));
+
+const ownsKey = (definition: NamespaceDefinition, key: string): boolean =>
+  definition.keys ? definition.keys.includes(key) : key.startsWith(definition.prefix!);
+
+// Known namespaces and only the keys each one owns, so a file can't write anything else (older backups carried subscriptions)
+const restorableNamespaces = (namespaces: BackupNamespaces): BackupNamespaces =>
+  (Object.keys(namespaces) as BackupNamespace[])
+    .filter(namespace => Object.prototype.hasOwnProperty.call(BACKUP_NAMESPACES, namespace))
+    .reduce((restorable, namespace) => {
+      const values = namespaces[namespace] || {};
+      restorable[namespace] = Object.keys(values)
+        .filter(key => ownsKey(BACKUP_NAMESPACES[namespace], key))
+        .reduce((owned, key) => ({ ...owned, [key]: values[key] }), {} as Record<string, string>);
+      return restorable;
+    }, {} as BackupNamespaces);
+
+const parseValue = (value: string | null | undefined): any => {
+  if (value === null || value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value;
+  }
+};
+
+const recordKey = (record: any): string =>
+  record !== null && typeof record === 'object' && record.id !== undefined ? String(record.id) : JSON.stringify(record);
+
+const diffValues = (incoming: any, local: any) => {
+  const result = { added: 0, changed: 0, unchanged: 0, localOnly: 0 };
+
+  if (Array.isArray(incoming) && Array.isArray(local)) {
+    const localByKey = new Map(local.map(record => [recordKey(record), JSON.stringify(record)]));
+    const incomingKeys = new Set<string>();
+    incoming.forEach(record => {
+      const key = recordKey(record);
+      incomingKeys.add(key);
+      if (!localByKey.has(key)) result.added++;
+      else if (localByKey.get(key) === JSON.stringify(record)) result.unchanged++;
+      else result.changed++;
+    });
+    result.localOnly = [...localByKey.keys()].filter(key => !incomingKeys.has(key)).length;
+    return result;
+  }
+
+  if (local === undefined) result.added++;
+  else if (JSON.stringify(local) === JSON.stringify(incoming)) result.unchanged++;
+  else result.changed++;
+  return result;
+};
+
+// Arrays are unioned by record id (local copy wins); other values keep the local copy when present
+const mergeValues = (incoming: any, local: any): any => {
+  if (local === undefined) return incoming;
+  if (Array.isArray(incoming) && Array.isArray(local)) {
+    const localKeys = new Set(local.map(recordKey));
+    return [...local, ...incoming.filter(record => !localKeys.has(recordKey(record)))];
+  }
+  return local;
+};
+
+export class BackupService {
+  /**
+   * Read every namespace from AsyncStorage
+   * @returns Promise<BackupNamespaces>
+   */
+  static async collectNamespaces(): Promise<BackupNamespaces> {
+    const allKeys = await AsyncStorage.getAllKeys();
+    const namespaces: BackupNamespaces = {};
+
+    for (const namespace of Object.keys(BACKUP_NAMESPACES) as BackupNamespace[]) {
+      const keys = await this.getNamespaceKeys(namespace, allKeys);
+      const pairs = keys.length > 0 ? await AsyncStorage.multiGet(keys) : [];
+      namespaces[namespace] = pairs.reduce((values, [key, value]) => {
+        if (value !== null) values[key] = value;
+        return values;
+      }, {} as Record<string, string>);
+    }
+
+    return namespaces;
+  }
+
+  /**
+   * Build a versioned archive of all user data
+   * @param passphrase - Optional passphrase; when given the data is encrypted
+   * @returns Promise<BackupArchive>
+   */
+  static async createArchive(passphrase?: string): Promise<BackupArchive> {
+    const namespaces = await this.collectNamespaces();
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      encrypted: !!passphrase,
+      checksum: checksumOf(namespaces)
+    };
+
+    if (passphrase) {
+      archive.payload = await encryptWithPassphrase(JSON.stringify(namespaces), passphrase);
+    } else {
+      archive.namespaces = namespaces;
+    }
+
+    return archive;
+  }
+
+  /**
+   * Write an archive to a file and open the system share sheet
+   * @param passphrase - Optional passphrase for encryption
+   * @returns Promise<string> - The file URI that was shared
+   */
+  static async exportAndShare(passphrase?: string): Promise<string> {
+    const archive = await this.createArchive(passphrase);
+    const stamp = archive.createdAt.split('T')[0];
+    const fileUri = `${FileSystem.cacheDirectory}5pillars-backup-${stamp}.json`;
+
+    await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(archive, null, 2));
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(fileUri, {
+      mimeType: 'application/json',
+      dialogTitle: 'Export 5 Pillars backup',
+      UTI: 'public.json'
+    });
+
+    return fileUri;
+  }
+
+  /**
+   * Let the user choose a backup file and parse it
+   * @returns Promise<BackupArchive | null> - null when the picker was cancelled
+   */
+  static async pickArchive(): Promise<BackupArchive | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'text/plain', '*/*'],
+      copyToCacheDirectory: true
+    });
+    if (result.canceled || !result.assets?.length) return null;
+
+    const contents = await FileSystem.readAsStringAsync(result.assets[0].uri);
+    return this.parseArchive(contents);
+  }
+
+  /**
+   * Validate the outer structure of an archive
+   * @param contents - Raw JSON text
+   * @throws Error when the file is not a supported backup
+   */
+  static parseArchive(contents: string): BackupArchive {
+    let archive: any;
+    try {
+      archive = JSON.parse(contents);
+    } catch (error) {
+      throw new Error('Backup file is not valid JSON');
+    }
+
+    if (!archive || archive.format !== BACKUP_FORMAT) {
+      throw new Error('File is not a 5 Pillars backup');
+    }
+    if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+      throw new Error(`Backup version ${archive.version} is not supported by this app version`);
+    }
+    if (archive.encrypted ? !archive.payload : typeof archive.namespaces !== 'object') {
+      throw new Error('Backup file is incomplete');
+    }
+
+    return archive as BackupArchive;
+  }
+
+  /**
+   * Decrypt (if needed) and verify the archive contents
+   * @param archive - Parsed archive
+   * @param passphrase - Required for encrypted archives
+   * @returns BackupNamespaces
+   */
+  static async openArchive(archive: BackupArchive, passphrase?: string): Promise<BackupNamespaces> {
+    let namespaces: BackupNamespaces;
+
+    if (archive.encrypted) {
+      if (!passphrase) throw new Error('This backup is encrypted. A passphrase is required.');
+      namespaces = JSON.parse(await decryptWithPassphrase(archive.payload!, passphrase));
+    } else {
+      namespaces = archive.namespaces!;
+    }
+
+    if (checksumOf(namespaces) !== archive.checksum) {
+      throw new Error('Backup checksum does not match. The file may be corrupted.');
+    }
+
+    return restorableNamespaces(namespaces);
+  }
+
+  /**
+   * Compare an archive with the data currently on the device
+   * @param archive - Parsed archive
+   * @param passphrase - Required for encrypted archives
+   * @returns Promise<ImportPreview>
+   */
+  static async previewImport(archive: BackupArchive, passphrase?: string): Promise<ImportPreview> {
+    const namespaces = await this.openArchive(archive, passphrase);
+    const local = await this.collectNamespaces();
+
+    const diffs = (Object.keys(namespaces) as BackupNamespace[]).map(namespace => {
+      const incomingValues = namespaces[namespace] || {};
+      const localValues = local[namespace] || {};
+      const diff: NamespaceDiff = { namespace, added: 0, changed: 0, unchanged: 0, localOnly: 0 };
+
+      Object.keys(incomingValues).forEach(key => {
+        const result = diffValues(parseValue(incomingValues[key]), parseValue(localValues[key]));
+        diff.added += result.added;
+        diff.changed += result.changed;
+        diff.unchanged += result.unchanged;
+        diff.localOnly += result.localOnly;
+      });
+      diff.localOnly += Object.keys(localValues).filter(key => !(key in incomingValues)).length;
+
+      return diff;
+    });
+
+    return {
+      createdAt: archive.createdAt,
+      schemaVersion: archive.schemaVersion,
+      namespaces,
+      diffs
+    };
+  }
+
+  /**
+   * Apply a previewed archive to local storage.
+   * Callers should reload AppDataContext afterwards so migrations run on the imported data.
+   * @param preview - Result of previewImport
+   * @param mode - 'merge' keeps local records, 'replace' wipes each imported namespace first
+   */
+  static async applyImport(preview: ImportPreview, mode: ImportMode): Promise<void> {
+    const allKeys = await AsyncStorage.getAllKeys();
+
+    for (const namespace of Object.keys(preview.namespaces) as BackupNamespace[]) {
+      const incomingValues = preview.namespaces[namespace] || {};
+
+      if (mode === 'replace') {
+        const localKeys = await this.getNamespaceKeys(namespace, allKeys);
+        if (localKeys.length > 0) await AsyncStorage.multiRemove(localKeys);
+        const writes = Object.entries(incomingValues);
+        if (writes.length > 0) await AsyncStorage.multiSet(writes);
+        continue;
+      }
+
+      const keys = Object.keys(incomingValues);
+      const localPairs = keys.length > 0 ? await AsyncStorage.multiGet(keys) : [];
+      const writes: [string, string][] = localPairs.map(([key, localValue]) => {
+        if (localValue === null) return [key, incomingValues[key]];
+        const merged = mergeValues(parseValue(incomingValues[key]), parseValue(localValue));
+        return [key, typeof merged === 'string' && localValue === merged ? localValue : JSON.stringify(merged)];
+      });
+      if (writes.length > 0) await AsyncStorage.multiSet(writes);
+    }
+
+    // Imported appData may predate the current schema; let PersistenceService migrate it on reload
+    if (preview.namespaces.appData && preview.schemaVersion < CURRENT_SCHEMA_VERSION) {
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(preview.schemaVersion));
+    }
+
+    // Imported sessions haven't been checked against the rules on this device; backfill them on reload
+    if (preview.namespaces.appData) {
+      await AchievementEngine.reset();
+    }
+
+    console.log(`✅ Backup from ${preview.createdAt} imported (${mode})`);
+  }
+
+  private static async getNamespaceKeys(namespace: BackupNamespace, allKeys?: readonly string[]): Promise<string[]> {
+    const definition = BACKUP_NAMESPACES[namespace];
+    if (definition.keys) return [...definition.keys];
+
+    const keys = allKeys || await AsyncStorage.getAllKeys();
+    return keys.filter(key => key.startsWith(definition.prefix!));
+  }
+}
+
+export default BackupService;
@@ -0,0 +1,86 @@
+// src/services/BillingProvider.ts - PLATFORM-NEUTRAL STORE PURCHASE & RECEIPT CONTRACT
+export type BillingProviderId = 'app-store' | 'google-play' | 'fake';
+
+export type BillingPlatform = 'ios' | 'android' | 'fake';
+
+export type SubscriptionStatus = 'trial' | 'active' | 'grace' | 'expired' | 'refunded';
+
+export type StoreProductKind = 'subscription' | 'one-time';
+
+export interface StoreProduct {
+  productId: string;
+  kind: StoreProductKind;
+  title: string;
+  localizedPrice: string;
+  offerToken?: string; // Google Play needs one to start a subscription
+}
+
+/**
+ * A completed store transaction, before the app has verified it. `receipt` is the
+ * App Store receipt or the Play purchase token; the verifier decides what it's worth.
+ */
+export interface StorePurchase {
+  platform: BillingPlatform;
+  productId: string;
+  transactionId: string;
+  receipt: string;
+  purchasedAt: string;
+  native?: unknown; // the platform's own record, needed to finish the transaction
+}
+
+/**
+ * What the verification server says a receipt is worth right now
+ */
+export interface ReceiptVerification {
+  valid: boolean;
+  status: SubscriptionStatus;
+  productId: string;
+  transactionId: string;
+  originalTransactionId: string; // stays the same across renewals
+  purchasedAt: string;
+  expiresAt: string | null; // null for one-time purchases
+  trialEndsAt?: string | null;
+  graceEndsAt?: string | null; // the store is retrying a failed renewal until then
+  autoRenew: boolean;
+  reason?: string; // why an invalid receipt was rejected
+}
+
+/**
+ * A store the app can buy from. Providers only talk to their store - verification,
+ * subscription state and persistence live in SubscriptionService so every store
+ * behaves the same.
+ */
+export interface BillingProvider {
+  readonly id: BillingProviderId;
+  readonly platform: BillingPlatform;
+  isAvailable(): Promise<boolean>;
+  getProducts(productIds: string[], kind: StoreProductKind): Promise<StoreProduct[]>;
+  /**
+   * @returns null when the user cancels the store sheet
+   */
+  purchase(productId: string, kind: StoreProductKind): Promise<StorePurchase | null>;
+  restore(): Promise<StorePurchase[]>;
+  // Tell the store the purchase was delivered; unfinished purchases are redelivered or refunded
+  finish(purchase: StorePurchase, kind: StoreProductKind): Promise<void>;
+  manageSubscriptions(productId: string): Promise<void>;
+}
+
+export interface ReceiptVerifier {
+  verify(purchase: StorePurchase): Promise<ReceiptVerification>;
+}
+
+// What the server says about claiming a promo code
+export interface PromoClaim {
+  accepted: boolean;
+  claimedAt: string;
+  reason?: string; // why the claim was refused
+}
+
+/**
+ * Records promo code redemptions where reinstalling the app can't forget them.
+ * Each code can be claimed once; claiming it again for the same person succeeds
+ * without granting anything new.
+ */
+export interface PromoRedeemer {
+  claim(code: string, claimantId: string): Promise<PromoClaim>;
+}
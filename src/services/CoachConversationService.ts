@@ -0,0 +1,356 @@
+// src/services/CoachConversationService.ts - PERSISTENT, GROUNDED CONVERSATIONS WITH THE COACH
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import Constants from 'expo-constants';
+import { CoachPartialHandler, CoachPromptMessage, CoachProvider, CoachProviderId } from './CoachProvider';
+import OpenAICompatibleCoachProvider from './OpenAICompatibleCoachProvider';
+import RuleCoachProvider from './RuleCoachProvider';
+import { CoachContext, describeCoachContext } from '../utils/coachContext';
+import { CoachMemory, EMPTY_COACH_MEMORY, describeCoachMemory, foldEarlierTurns, rememberMessage } from '../utils/coachMemory';
+import { COACH_SAFETY_RULES, CoachSafetyLevel, applyReplyGuardrails, assessCoachSafety } from '../utils/coachSafety';
+
+export const COACH_CONVERSATIONS_KEY = 'coach_conversations';
+
+export interface CoachMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  provider?: CoachProviderId; // assistant messages only
+  safety?: CoachSafetyLevel; // set on both sides of a guarded exchange
+}
+
+export interface CoachConversation {
+  id: string;
+  title: string;
+  messages: CoachMessage[];
+  memory: CoachMemory;
+  promptStart: number; // index of the first message still sent to the provider
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CoachPersona {
+  name: string;
+  style: string;
+}
+
+export interface CoachSendOptions {
+  persona?: CoachPersona | null;
+  onPartial?: CoachPartialHandler;
+  signal?: AbortSignal;
+}
+
+export interface CoachReply {
+  conversation: CoachConversation;
+  message: CoachMessage;
+  usedFallback: boolean; // the configured provider failed and the offline coach answered
+}
+
+interface PersistedCoachConversations {
+  version: 1;
+  conversations: CoachConversation[];
+}
+
+interface CoachConfig {
+  endpoint?: string;
+  model?: string;
+  apiKey?: string;
+  stream?: boolean;
+}
+
+const MAX_CONVERSATIONS = 20;
+const MAX_STORED_MESSAGES = 200;
+
+// Recent turns sent verbatim; older ones are folded into the conversation's memory
+const PROMPT_WINDOW = 12;
+
+const TITLE_LENGTH = 40;
+
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const titleFrom = (text: string) =>
+  text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : text;
+
+/**
+ * System prompt with the user's data and what the conversation remembers, then the recent turns
+ */
+const buildPrompt = (
+  conversation: CoachConversation,
+  context: CoachContext,
+  persona: CoachPersona | null | undefined
+): CoachPromptMessage[] => {
+  const intro = persona
+    ? `You are ${persona.name}, a ${persona.style} wellness coach in the 5 Pillars of Life app (body, mind, heart, spirit, diet).`
+    : 'You are a wellness coach in the 5 Pillars of Life app (body, mind, heart, spirit, diet).';
+  const memory = describeCoachMemory(conversation.memory);
+
+  const system = [
+    intro,
+    'Reply in at most 120 words, warmly and specifically. Only quote numbers that appear in the user data below; if something is not there, say you do not know.',
+    COACH_SAFETY_RULES,
+    `User data:\n${describeCoachContext(context)}`,
+    memory ? `From earlier in this conversation:\n${memory}` : null
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    { role: 'system', content: system },
+    ...conversation.messages.slice(conversation.promptStart).map(message => ({ role: message.role, content: message.content }))
+  ];
+};
+
+export class CoachConversationService {
+  private static instance: CoachConversationService;
+  private provider: CoachProvider;
+  private fallback: CoachProvider = new RuleCoachProvider();
+  private conversations: CoachConversation[] | null = null;
+
+  public static getInstance(): CoachConversationService {
+    if (!CoachConversationService.instance) {
+      CoachConversationService.instance = new CoachConversationService();
+    }
+    return CoachConversationService.instance;
+  }
+
+  constructor() {
+    const config: CoachConfig = Constants.expoConfig?.extra?.coach || {};
+    this.provider = config.endpoint && config.model
+      ? new OpenAICompatibleCoachProvider({
+          baseUrl: config.endpoint,
+          model: config.model,
+          apiKey: config.apiKey,
+          stream: config.stream ?? true
+        })
+      : this.fallback;
+  }
+
+  setProvider(provider: CoachProvider) {
+    this.provider = provider;
+  }
+
+  getProviderId(): CoachProviderId {
+    return this.provider.id;
+  }
+
+  /**
+   * All conversations, most recently active first
+   */
+  async getConversations(): Promise<CoachConversation[]> {
+    const conversations = await this.load();
+    return [...conversations].sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : -1));
+  }
+
+  async getConversation(id: string): Promise<CoachConversation | null> {
+    const conversations = await this.load();
+    return conversations.find(conversation => conversation.id === id) || null;
+  }
+
+  async getLatestConversation(): Promise<CoachConversation | null> {
+    const [latest] = await this.getConversations();
+    return latest || null;
+  }
+
+  /**
+   * Start an empty conversation. Opening messages are stored as coach turns,
+   * so they stay in the transcript but say nothing about the user.
+   */
+  async startConversation(openingMessages: string[] = []): Promise<CoachConversation> {
+    const now = new Date().toISOString();
+    const conversation: CoachConversation = {
+      id: generateId('conversation'),
+      title: 'New conversation',
+      messages: openingMessages.map(content => ({ id: generateId('msg'), role: 'assistant', content, createdAt: now })),
+      memory: EMPTY_COACH_MEMORY,
+      promptStart: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const conversations = await this.load();
+    await this.save([...conversations, conversation]);
+    return conversation;
+  }
+
+  /**
+   * Add a coach turn without asking the provider, e.g. when a coaching session starts
+   */
+  async addCoachMessage(conversationId: string, content: string): Promise<CoachConversation | null> {
+    const conversation = await this.getConversation(conversationId);
+    if (!conversation) return null;
+
+    const message: CoachMessage = { id: generateId('msg'), role: 'assistant', content, createdAt: new Date().toISOString() };
+    return this.update(this.withMessages(conversation, [message]));
+  }
+
+  /**
+   * Record the user's message, get a reply grounded in `context` and store both.
+   * Urgent and crisis messages never reach the provider; if the provider fails the
+   * offline coach answers instead, so the user always gets a reply.
+   */
+  async sendMessage(
+    conversationId: string,
+    text: string,
+    context: CoachContext,
+    options: CoachSendOptions = {}
+  ): Promise<CoachReply> {
+    const existing = await this.getConversation(conversationId);
+    if (!existing) {
+      throw new Error(`Unknown coach conversation: ${conversationId}`);
+    }
+
+    const content = text.trim();
+    const safety = assessCoachSafety(content);
+    const sentAt = new Date();
+    const userMessage: CoachMessage = {
+      id: generateId('msg'),
+      role: 'user',
+      content,
+      createdAt: sentAt.toISOString(),
+      ...(safety.level !== 'none' ? { safety: safety.level } : {})
+    };
+
+    let conversation = this.withMessages(
+      { ...existing, memory: rememberMessage(existing.memory, content, sentAt) },
+      [userMessage]
+    );
+    if (!existing.messages.some(message => message.role === 'user')) {
+      conversation = { ...conversation, title: titleFrom(content) };
+    }
+    conversation = await this.update(conversation);
+
+    let reply: string;
+    let provider: CoachProviderId = this.provider.id;
+    let usedFallback = false;
+
+    if (safety.reply) {
+      reply = safety.reply;
+      provider = 'rules';
+      options.onPartial?.(reply);
+    } else {
+      const request = {
+        messages: buildPrompt(conversation, context, options.persona),
+        question: content,
+        context,
+        memory: conversation.memory,
+        signal: options.signal
+      };
+
+      try {
+        if (this.provider.id !== 'rules' && !(await this.isOnline())) {
+          throw new Error('Device is offline');
+        }
+        reply = await this.provider.complete(request, options.onPartial);
+      } catch (error) {
+        if (this.provider === this.fallback || options.signal?.aborted) throw error;
+        console.warn('Coach provider failed, answering offline:', error);
+        reply = await this.fallback.complete(request, options.onPartial);
+        provider = this.fallback.id;
+        usedFallback = true;
+      }
+      reply = applyReplyGuardrails(reply, safety);
+    }
+
+    const message: CoachMessage = {
+      id: generateId('msg'),
+      role: 'assistant',
+      content: reply,
+      createdAt: new Date().toISOString(),
+      provider,
+      ...(safety.level !== 'none' ? { safety: safety.level } : {})
+    };
+
+    return { conversation: await this.update(this.withMessages(conversation, [message])), message, usedFallback };
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    const conversations = await this.load();
+    await this.save(conversations.filter(conversation => conversation.id !== id));
+  }
+
+  async clear(): Promise<void> {
+    try {
+      this.conversations = [];
+      await AsyncStorage.removeItem(COACH_CONVERSATIONS_KEY);
+    } catch (error) {
+      console.error('Error clearing coach conversations:', error);
+    }
+  }
+
+  /**
+   * Append messages, trimming stored history and sliding the prompt window forward.
+   * User turns that leave the window are folded into the conversation's memory.
+   */
+  private withMessages(conversation: CoachConversation, added: CoachMessage[]): CoachConversation {
+    let messages = [...conversation.messages, ...added];
+    let promptStart = conversation.promptStart;
+    let memory = conversation.memory;
+
+    const windowStart = Math.max(promptStart, messages.length - PROMPT_WINDOW);
+    if (windowStart > promptStart) {
+      const dropped = messages.slice(promptStart, windowStart).filter(message => message.role === 'user');
+      memory = foldEarlierTurns(memory, dropped.map(message => message.content));
+      promptStart = windowStart;
+    }
+
+    const overflow = messages.length - MAX_STORED_MESSAGES;
+    if (overflow > 0) {
+      messages = messages.slice(overflow);
+      promptStart = Math.max(0, promptStart - overflow);
+    }
+
+    return { ...conversation, messages, memory, promptStart, updatedAt: new Date().toISOString() };
+  }
+
+  private async update(conversation: CoachConversation): Promise<CoachConversation> {
+    const conversations = await this.load();
+    await this.save([...conversations.filter(existing => existing.id !== conversation.id), conversation]);
+    return conversation;
+  }
+
+  private async isOnline(): Promise<boolean> {
+    try {
+      const network = await NetInfo.fetch();
+      return network.isConnected ?? true;
+    } catch (error) {
+      return true;
+    }
+  }
+
+  private async load(): Promise<CoachConversation[]> {
+    if (this.conversations) return this.conversations;
+
+    try {
+      const raw = await AsyncStorage.getItem(COACH_CONVERSATIONS_KEY);
+      const parsed: PersistedCoachConversations | null = raw ? JSON.parse(raw) : null;
+      this.conversations = parsed?.version === 1 && Array.isArray(parsed.conversations)
+        ? parsed.conversations.map(conversation => ({
+            ...conversation,
+            memory: { ...EMPTY_COACH_MEMORY, ...conversation.memory },
+            promptStart: conversation.promptStart || 0
+          }))
+        : [];
+    } catch (error) {
+      console.error('Error loading coach conversations:', error);
+      this.conversations = [];
+    }
+    return this.conversations;
+  }
+
+  /**
+   * Keep the most recently active conversations and write them out
+   */
+  private async save(conversations: CoachConversation[]): Promise<void> {
+    this.conversations = [...conversations]
+      .sort((a, b) => (a.updatedAt < b.updatedAt ? -1 : 1))
+      .slice(-MAX_CONVERSATIONS);
+
+    try {
+      const persisted: PersistedCoachConversations = { version: 1, conversations: this.conversations };
+      await AsyncStorage.setItem(COACH_CONVERSATIONS_KEY, JSON.stringify(persisted));
+    } catch (error) {
+      console.error('Error saving coach conversations:', error);
+    }
+  }
+}
+
+export default CoachConversationService;
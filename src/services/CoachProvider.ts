@@ -0,0 +1,41 @@
+// src/services/CoachProvider.ts - LANGUAGE-MODEL-NEUTRAL COACH REPLY CONTRACT
+import type { CoachContext } from '../utils/coachContext';
+import type { CoachMemory } from '../utils/coachMemory';
+
+export type CoachProviderId = 'openai-compatible' | 'rules';
+
+export type CoachRole = 'system' | 'user' | 'assistant';
+
+export interface CoachPromptMessage {
+  role: CoachRole;
+  content: string;
+}
+
+/**
+ * Everything a provider needs for one reply. `messages` is the ready-made prompt
+ * (system prompt, remembered facts and recent turns) for providers that take text;
+ * `context` and `memory` are the same facts in structured form for providers that don't.
+ */
+export interface CoachCompletionRequest {
+  messages: CoachPromptMessage[];
+  question: string;
+  context: CoachContext;
+  memory: CoachMemory;
+  signal?: AbortSignal;
+}
+
+/**
+ * Called as a reply streams in, with the whole reply so far rather than the latest piece,
+ * so a caller that falls back to another provider mid-reply can simply start over
+ */
+export type CoachPartialHandler = (textSoFar: string) => void;
+
+/**
+ * A source of coach replies. Providers only turn a request into text - safety checks,
+ * memory and persistence live in CoachConversationService so every provider behaves the same.
+ */
+export interface CoachProvider {
+  readonly id: CoachProviderId;
+  isAvailable(): Promise<boolean>;
+  complete(request: CoachCompletionRequest, onPartial?: CoachPartialHandler): Promise<string>;
+}
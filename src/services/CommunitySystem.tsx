@@ -63,6 +63,7 @@ export class CommunitySystem {
   private static instance: CommunitySystem;
   private activeChallenges: Challenge[] = [];
   private socialFeed: SocialPost[] = [];
+  private challengesLoaded: boolean = false;
 
   public static getInstance(): CommunitySystem {
     if (!CommunitySystem.instance) {
@@ -127,6 +128,19 @@ export class CommunitySystem {
     }
   }
 
+  // Credit a completed session to every active challenge the user joined for that pillar
+  async recordSessionProgress(userId: string, pillar: string, points: number): Promise<void> {
+    await this.loadChallenges();
+
+    const matching = this.getUserChallenges(userId).filter(challenge =>
+      challenge.isActive && (challenge.pillar === 'ALL' || challenge.pillar.toLowerCase() === pillar.toLowerCase())
+    );
+
+    for (const challenge of matching) {
+      await this.updateChallengeProgress(challenge.id, userId, points);
+    }
+  }
+
   // Get leaderboard for challenge
   getLeaderboard(challengeId: string, limit: number = 10): LeaderboardEntry[] {
     const challenge = this.activeChallenges.find(c => c.id === challengeId);
@@ -189,7 +203,7 @@ export class CommunitySystem {
 
   // Generate default challenges
   async generateDefaultChallenges(): Promise<void> {
-    const defaultChallenges = [
+    const defaultChallenges: Omit<Challenge, 'id' | 'participants' | 'leaderboard'>[] = [
       {
         title: '21-Day Neural Transformation',
         description: 'Transform your neural pathways with 21 days of consistent pillar optimization',
@@ -240,6 +254,22 @@ export class CommunitySystem {
     }
   }
 
+  private async loadChallenges(): Promise<void> {
+    if (this.challengesLoaded) return;
+    this.challengesLoaded = true;
+
+    try {
+      const stored = await AsyncStorage.getItem('activeChallenges');
+      if (stored) {
+        const known = new Set(this.activeChallenges.map(challenge => challenge.id));
+        const persisted: Challenge[] = JSON.parse(stored);
+        this.activeChallenges = [...this.activeChallenges, ...persisted.filter(challenge => !known.has(challenge.id))];
+      }
+    } catch (error) {
+      console.error('Error loading challenges:', error);
+    }
+  }
+
   private async saveChallenges(): Promise<void> {
     try {
       await AsyncStorage.setItem('activeChallenges', JSON.stringify(this.activeChallenges));
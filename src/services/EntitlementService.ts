@@ -0,0 +1,147 @@
+// src/services/EntitlementService.ts - ENFORCES PLAN LIMITS WITH DAILY USAGE COUNTERS
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SubscriptionService } from './SubscriptionService';
+import {
+  EMPTY_ENTITLEMENT_USAGE,
+  ENTITLEMENT_RULES,
+  EntitlementCheck,
+  EntitlementFeature,
+  EntitlementUsage,
+  SubscriptionAccess,
+  checkEntitlement,
+  recordUsage,
+  resolveAccess
+} from '../utils/entitlements';
+import { toDayKey } from '../utils/sessionAnalytics';
+
+export const ENTITLEMENT_USAGE_KEY = 'entitlement_usage';
+
+type EntitlementListener = () => void;
+
+const generateKey = () => `use_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export class EntitlementService {
+  private static instance: EntitlementService;
+  private subscriptions = SubscriptionService.getInstance();
+  private usage: EntitlementUsage = EMPTY_ENTITLEMENT_USAGE;
+  private loaded: Promise<void> | null = null;
+  private isLoaded = false;
+  private listeners = new Set<EntitlementListener>();
+
+  public static getInstance(): EntitlementService {
+    if (!EntitlementService.instance) {
+      EntitlementService.instance = new EntitlementService();
+    }
+    return EntitlementService.instance;
+  }
+
+  /**
+   * Resolves once usage and the subscription have been read. Until then every
+   * check answers as the free plan, so gate on `isReady()` before locking anything.
+   */
+  ready(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = Promise.all([this.loadUsage(), this.subscriptions.ready()]).then(() => {
+        this.isLoaded = true;
+      });
+    }
+    return this.loaded;
+  }
+
+  isReady(): boolean {
+    return this.isLoaded;
+  }
+
+  getAccess(now: Date = new Date()): SubscriptionAccess {
+    return resolveAccess(this.subscriptions.getCurrentSubscription(), now, this.subscriptions.getPromoGrants());
+  }
+
+  check(feature: EntitlementFeature, now: Date = new Date()): EntitlementCheck {
+    return checkEntitlement(feature, this.getAccess(now), this.usage, toDayKey(now));
+  }
+
+  can(feature: EntitlementFeature): boolean {
+    return this.check(feature).allowed;
+  }
+
+  /**
+   * Uses left today; Infinity when the plan has no limit
+   */
+  remaining(feature: EntitlementFeature): number {
+    return this.check(feature).remaining;
+  }
+
+  /**
+   * Spend one use of a metered feature. Pass the same key again (a session id,
+   * a recommendation id) and it isn't counted twice.
+   * @returns false when today's limit has been reached
+   */
+  async consume(feature: EntitlementFeature, key: string = generateKey()): Promise<boolean> {
+    const granted = await this.consumeEach(feature, [key]);
+    return granted.length > 0;
+  }
+
+  /**
+   * Spend one use per key, in order, until today's limit is reached
+   * @returns The keys that may go ahead
+   */
+  async consumeEach(feature: EntitlementFeature, keys: string[]): Promise<string[]> {
+    await this.ready();
+    const now = new Date();
+    const limit = ENTITLEMENT_RULES[feature][this.getAccess(now).tier];
+    const { usage, granted } = recordUsage(this.usage, feature, keys, limit, toDayKey(now));
+
+    if (usage !== this.usage) {
+      this.usage = usage;
+      await this.saveUsage();
+      this.notify();
+    }
+    return granted;
+  }
+
+  /**
+   * Re-evaluate after the subscription changes
+   */
+  refresh(): void {
+    this.notify();
+  }
+
+  onChange(listener: EntitlementListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in entitlement listener:', error);
+      }
+    });
+  }
+
+  private async loadUsage(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(ENTITLEMENT_USAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : null;
+      if (parsed && typeof parsed.day === 'string' && parsed.used && typeof parsed.used === 'object') {
+        this.usage = parsed;
+      }
+    } catch (error) {
+      console.error('Error loading entitlement usage:', error);
+    }
+  }
+
+  private async saveUsage(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(ENTITLEMENT_USAGE_KEY, JSON.stringify(this.usage));
+    } catch (error) {
+      console.error('Error saving entitlement usage:', error);
+    }
+  }
+}
+
+export default EntitlementService;
@@ -0,0 +1,109 @@
+import type { UserProfile } from '../context/AppDataContext';
+import EventBus from './EventBus';
+
+const profile = (id: string): { profile: UserProfile } => ({
+  profile: {
+    id,
+    name: id,
+    email: `${id}@example.com`,
+    level: 1,
+    totalSessions: 0,
+    streak: 0,
+    longestStreak: 0,
+    joinDate: '2026-10-19T08:00:00.000Z',
+    lastActiveDate: '2026-10-19T08:00:00.000Z',
+    preferences: {
+      onboardingCompleted: true,
+      hasSeenTutorial: true,
+      culturalContent: true,
+      difficulty: 'beginner',
+      preferredPillars: [],
+      reminderTime: '08:00',
+      darkMode: false
+    },
+    stats: {
+      totalMinutes: 0,
+      averageSessionLength: 0,
+      favoriteTimeOfDay: 'morning',
+      mostUsedPillar: 'body',
+      consistencyScore: 0
+    }
+  }
+});
+
+describe('EventBus', () => {
+  const bus = EventBus.getInstance();
+  let unsubscribers: (() => void)[] = [];
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    unsubscribers = [];
+  });
+
+  it('delivers events in publish order, higher priority subscribers first', async () => {
+    const calls: string[] = [];
+    unsubscribers.push(
+      bus.subscribe('profile.updated', ({ profile }) => { calls.push(`low ${profile.id}`); }),
+      bus.subscribe('profile.updated', ({ profile }) => { calls.push(`high ${profile.id}`); }, { priority: 10 })
+    );
+
+    bus.publish('profile.updated', profile('a'));
+    await bus.publish('profile.updated', profile('b'));
+
+    expect(calls).toEqual(['high a', 'low a', 'high b', 'low b']);
+  });
+
+  it('logs a failing subscriber and carries on with the rest', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const reached = jest.fn();
+    unsubscribers.push(
+      bus.subscribe('data.cleared', () => { throw new Error('boom'); }, { label: 'broken', priority: 1 }),
+      bus.subscribe('data.cleared', reached)
+    );
+
+    await expect(bus.publish('data.cleared', {})).resolves.toBeUndefined();
+    expect(reached).toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith('Event subscriber "broken" failed on data.cleared:', expect.any(Error));
+    error.mockRestore();
+  });
+
+  it('lets a subscriber await its own publish without waiting on itself', async () => {
+    const calls: string[] = [];
+    unsubscribers.push(
+      bus.subscribe('data.cleared', async (_, event) => {
+        await bus.publish('profile.updated', profile('reset'), event);
+        calls.push('cleared');
+      }),
+      bus.subscribe('profile.updated', ({ profile }, event) => { calls.push(`profile ${profile.id} at ${event.depth}`); })
+    );
+
+    await bus.publish('data.cleared', {});
+    await bus.publish('profile.updated', profile('next'));
+
+    expect(calls).toEqual(['cleared', 'profile reset at 1', 'profile next at 0']);
+  });
+
+  it('makes a publish from outside the bus wait for its own delivery, even mid-delivery', async () => {
+    const calls: string[] = [];
+    let release: () => void = () => {};
+    const started = new Promise<void>(resolve => {
+      unsubscribers.push(
+        bus.subscribe('data.cleared', () => new Promise<void>(done => {
+          release = done;
+          resolve();
+        })),
+        bus.subscribe('profile.updated', ({ profile }) => { calls.push(`profile ${profile.id}`); })
+      );
+    });
+
+    const cleared = bus.publish('data.cleared', {});
+    await started;
+    const updated = bus.publish('profile.updated', profile('outside')).then(() => calls.push('resolved'));
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(calls).toEqual([]);
+    release();
+    await Promise.all([cleared, updated]);
+    expect(calls).toEqual(['profile outside', 'resolved']);
+  });
+});
@@ -0,0 +1,136 @@
+// src/services/EventBus.ts - TYPED IN-APP DOMAIN EVENTS
+import type {
+  SessionData,
+  Achievement,
+  AIInsight,
+  UserProfile,
+  CheckIn,
+  MealEntry,
+  Measurement,
+  RecommendationFeedback,
+  CoachingPlan,
+  CoachingPlanAdaptation
+} from '../context/AppDataContext';
+import type { UserSubscription } from './SubscriptionService';
+
+export interface AppEventMap {
+  'session.completed': { session: SessionData; userId: string | null; totalSessions: number };
+  'achievement.unlocked': { achievement: Achievement };
+  'streak.updated': { current: number; previous: number; longest: number };
+  'streak.broken': { previous: number; longest: number };
+  'checkin.saved': { checkIn: CheckIn; created: boolean };
+  'meal.logged': { meal: MealEntry; created: boolean };
+  'measurement.logged': { measurement: Measurement; created: boolean };
+  'measurement.deleted': { measurement: Measurement };
+  'recommendation.feedback': { feedback: RecommendationFeedback };
+  'plan.created': { plan: CoachingPlan };
+  'plan.adapted': { plan: CoachingPlan; adaptation: CoachingPlanAdaptation };
+  'plan.completed': { plan: CoachingPlan };
+  'insight.added': { insight: AIInsight };
+  'profile.updated': { profile: UserProfile };
+  'subscription.changed': { subscription: UserSubscription | null };
+  'data.cleared': {};
+}
+
+export type AppEventName = keyof AppEventMap;
+
+export interface AppEvent<E extends AppEventName = AppEventName> {
+  name: E;
+  payload: AppEventMap[E];
+  timestamp: string;
+  depth: number; // 0 when published from outside the bus, +1 for each event published by a subscriber
+}
+
+export type AppEventHandler<E extends AppEventName> = (
+  payload: AppEventMap[E],
+  event: AppEvent<E>
+) => void | Promise<void>;
+
+export interface SubscribeOptions {
+  label?: string; // shows up in error logs
+  priority?: number; // higher runs first, ties run in subscription order
+}
+
+interface Subscription {
+  handler: AppEventHandler<any>;
+  label: string;
+  priority: number;
+  order: number;
+}
+
+/**
+ * Events are delivered one at a time in publish order, and each event reaches its
+ * subscribers sequentially. A throwing subscriber is logged and skipped, so publishing
+ * never fails the action that raised the event.
+ */
+class EventBus {
+  private static instance: EventBus;
+  private subscriptions: Partial<Record<AppEventName, Subscription[]>> = {};
+  private queue: Promise<void> = Promise.resolve();
+  private nextOrder: number = 0;
+
+  public static getInstance(): EventBus {
+    if (!EventBus.instance) {
+      EventBus.instance = new EventBus();
+    }
+    return EventBus.instance;
+  }
+
+  subscribe<E extends AppEventName>(
+    name: E,
+    handler: AppEventHandler<E>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const subscription: Subscription = {
+      handler,
+      label: options.label || `${name}#${this.nextOrder}`,
+      priority: options.priority ?? 0,
+      order: this.nextOrder++
+    };
+
+    this.subscriptions[name] = [...(this.subscriptions[name] || []), subscription]
+      .sort((a, b) => b.priority - a.priority || a.order - b.order);
+
+    return () => {
+      this.subscriptions[name] = (this.subscriptions[name] || []).filter(existing => existing !== subscription);
+    };
+  }
+
+  /**
+   * Queue an event for delivery
+   * @param cause - The event being handled, when a subscriber publishes from its handler
+   * @returns Promise that resolves once every subscriber has handled it (never rejects).
+   * With a cause it resolves straight away instead: the new event can't go out until
+   * the handler publishing it returns, so waiting on it would deadlock the bus.
+   */
+  publish<E extends AppEventName>(name: E, payload: AppEventMap[E], cause?: AppEvent): Promise<void> {
+    const event: AppEvent<E> = {
+      name,
+      payload,
+      timestamp: new Date().toISOString(),
+      depth: cause ? cause.depth + 1 : 0
+    };
+    const delivered = this.queue.then(() => this.deliver(event));
+    this.queue = delivered;
+    return cause ? Promise.resolve() : delivered;
+  }
+
+  listenerCount(name: AppEventName): number {
+    return (this.subscriptions[name] || []).length;
+  }
+
+  private async deliver<E extends AppEventName>(event: AppEvent<E>): Promise<void> {
+    // Snapshot so (un)subscribing during delivery doesn't affect this event
+    const subscribers = [...(this.subscriptions[event.name] || [])];
+
+    for (const subscription of subscribers) {
+      try {
+        await subscription.handler(event.payload, event);
+      } catch (error) {
+        console.error(`Event subscriber "${subscription.label}" failed on ${event.name}:`, error);
+      }
+    }
+  }
+}
+
+export default EventBus;
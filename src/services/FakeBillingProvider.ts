@@ -0,0 +1,261 @@
+// src/services/FakeBillingProvider.ts - IN-MEMORY STORE FOR TESTS, SIMULATORS & DEVELOPMENT
+import {
+  BillingProvider,
+  PromoClaim,
+  PromoRedeemer,
+  ReceiptVerification,
+  ReceiptVerifier,
+  StoreProduct,
+  StoreProductKind,
+  StorePurchase
+} from './BillingProvider';
+import { GRACE_PERIOD_DAYS, addPlanPeriod } from '../utils/subscriptionState';
+
+export type FakeBillingPeriod = 'monthly' | 'yearly';
+
+export interface FakeStoreProduct {
+  productId: string;
+  title: string;
+  price: number;
+  period: FakeBillingPeriod | null; // null for one-time purchases
+  trialDays?: number; // free days before the first charge, for first-time subscribers
+}
+
+export interface FakeBillingOptions {
+  products: FakeStoreProduct[];
+  available?: boolean;
+  cancel?: boolean; // every purchase sheet is dismissed
+  failWith?: string; // every purchase fails with this message
+  now?: () => Date;
+}
+
+/**
+ * Fake receipts carry everything needed to verify them, so scripts/receipt-server.js
+ * can check them without sharing state with the app
+ */
+export interface FakeReceipt {
+  store: 'fake';
+  productId: string;
+  transactionId: string;
+  originalTransactionId: string;
+  purchasedAt: string;
+  period: FakeBillingPeriod | null;
+  trialDays: number;
+}
+
+// What has happened to a subscription since it was bought; renewals due after these fail
+export interface FakeSubscriptionState {
+  cancelledAt: string | null; // auto-renew turned off
+  billingIssueAt: string | null; // payment failing; the store retries through its grace period
+  refunded: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_STATE: FakeSubscriptionState = { cancelledAt: null, billingIssueAt: null, refunded: false };
+
+const addPeriod = (time: number, period: FakeBillingPeriod): number => addPlanPeriod(new Date(time), period).getTime();
+
+export const parseFakeReceipt = (receipt: string): FakeReceipt | null => {
+  try {
+    const parsed = JSON.parse(receipt);
+    return parsed && parsed.store === 'fake' && parsed.productId && parsed.originalTransactionId ? parsed : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const renewsAt = (time: number, stoppedAt: string | null): boolean =>
+  !stoppedAt || time < new Date(stoppedAt).getTime();
+
+/**
+ * Work out what a fake receipt is worth at `now`, renewing it at each period end
+ * until it's cancelled or billing starts failing. scripts/receipt-server.js mirrors this.
+ */
+export const verifyFakeReceipt = (
+  receipt: string,
+  state: FakeSubscriptionState = DEFAULT_STATE,
+  now: Date = new Date()
+): ReceiptVerification => {
+  const parsed = parseFakeReceipt(receipt);
+  if (!parsed) {
+    return {
+      valid: false,
+      status: 'expired',
+      productId: '',
+      transactionId: '',
+      originalTransactionId: '',
+      purchasedAt: now.toISOString(),
+      expiresAt: null,
+      autoRenew: false,
+      reason: 'Not a fake store receipt'
+    };
+  }
+
+  const purchased = new Date(parsed.purchasedAt).getTime();
+  const base = {
+    valid: true,
+    productId: parsed.productId,
+    transactionId: parsed.transactionId,
+    originalTransactionId: parsed.originalTransactionId,
+    purchasedAt: parsed.purchasedAt
+  };
+
+  if (!parsed.period) {
+    return { ...base, status: state.refunded ? 'refunded' : 'active', expiresAt: null, autoRenew: false };
+  }
+
+  const trialEnds = purchased + parsed.trialDays * DAY_MS;
+  let expires = parsed.trialDays > 0 ? trialEnds : addPeriod(purchased, parsed.period);
+  while (expires <= now.getTime() && renewsAt(expires, state.cancelledAt) && renewsAt(expires, state.billingIssueAt)) {
+    expires = addPeriod(expires, parsed.period);
+  }
+
+  const graceEnds = expires + GRACE_PERIOD_DAYS * DAY_MS;
+  const time = now.getTime();
+  const status = state.refunded ? 'refunded'
+    : time < expires ? (time < trialEnds ? 'trial' : 'active')
+    : !renewsAt(expires, state.billingIssueAt) && renewsAt(expires, state.cancelledAt) && time < graceEnds ? 'grace'
+    : 'expired';
+
+  return {
+    ...base,
+    status,
+    expiresAt: new Date(expires).toISOString(),
+    trialEndsAt: parsed.trialDays > 0 ? new Date(trialEnds).toISOString() : null,
+    graceEndsAt: status === 'grace' ? new Date(graceEnds).toISOString() : null,
+    autoRenew: !state.cancelledAt && !state.refunded
+  };
+};
+
+/**
+ * A store that never leaves the device. It also verifies its own receipts and
+ * records promo claims, so it works without a verification server; use the
+ * simulate* methods to exercise renewals, billing failures and refunds.
+ */
+export class FakeBillingProvider implements BillingProvider, ReceiptVerifier, PromoRedeemer {
+  readonly id = 'fake' as const;
+  readonly platform = 'fake' as const;
+  private options: FakeBillingOptions;
+  private purchases: StorePurchase[] = [];
+  private states = new Map<string, FakeSubscriptionState>();
+  private finished = new Set<string>();
+  private claims = new Map<string, { claimantId: string; claimedAt: string }>();
+  private sequence = 0;
+  private trialUsed = false;
+
+  constructor(options: FakeBillingOptions) {
+    this.options = options;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.options.available ?? true;
+  }
+
+  async getProducts(productIds: string[], kind: StoreProductKind): Promise<StoreProduct[]> {
+    return this.options.products
+      .filter(product => productIds.includes(product.productId) && (product.period ? 'subscription' : 'one-time') === kind)
+      .map(product => ({
+        productId: product.productId,
+        kind,
+        title: product.title,
+        localizedPrice: `$${product.price.toFixed(2)}`
+      }));
+  }
+
+  async purchase(productId: string, kind: StoreProductKind): Promise<StorePurchase | null> {
+    if (this.options.cancel) return null;
+    if (this.options.failWith) throw new Error(this.options.failWith);
+
+    const product = this.options.products.find(candidate => candidate.productId === productId);
+    if (!product) throw new Error(`Unknown product ${productId}`);
+
+    const now = this.now();
+    const transactionId = `fake_${now.getTime()}_${++this.sequence}`;
+    const receipt: FakeReceipt = {
+      store: 'fake',
+      productId,
+      transactionId,
+      originalTransactionId: transactionId,
+      purchasedAt: now.toISOString(),
+      period: product.period,
+      // Like the real stores, only one trial per customer
+      trialDays: product.period && !this.trialUsed ? product.trialDays || 0 : 0
+    };
+    const purchase: StorePurchase = {
+      platform: 'fake',
+      productId,
+      transactionId,
+      receipt: JSON.stringify(receipt),
+      purchasedAt: receipt.purchasedAt
+    };
+
+    this.trialUsed = this.trialUsed || receipt.trialDays > 0;
+    this.purchases.push(purchase);
+    this.states.set(transactionId, { ...DEFAULT_STATE });
+    return purchase;
+  }
+
+  async restore(): Promise<StorePurchase[]> {
+    return this.purchases.filter(purchase => !this.stateOf(purchase.transactionId).refunded);
+  }
+
+  async finish(purchase: StorePurchase, kind: StoreProductKind): Promise<void> {
+    this.finished.add(purchase.transactionId);
+  }
+
+  // There is no store page to open; turning renewal off is what the user would do there
+  async manageSubscriptions(productId: string): Promise<void> {
+    this.purchases
+      .filter(purchase => purchase.productId === productId)
+      .forEach(purchase => this.simulateCancellation(purchase.transactionId));
+  }
+
+  async verify(purchase: StorePurchase): Promise<ReceiptVerification> {
+    const parsed = parseFakeReceipt(purchase.receipt);
+    return verifyFakeReceipt(purchase.receipt, parsed ? this.stateOf(parsed.originalTransactionId) : undefined, this.now());
+  }
+
+  async claim(code: string, claimantId: string): Promise<PromoClaim> {
+    const existing = this.claims.get(code);
+    if (existing) {
+      return existing.claimantId === claimantId
+        ? { accepted: true, claimedAt: existing.claimedAt }
+        : { accepted: false, claimedAt: existing.claimedAt, reason: 'This promo code has already been used.' };
+    }
+
+    const claimedAt = this.now().toISOString();
+    this.claims.set(code, { claimantId, claimedAt });
+    return { accepted: true, claimedAt };
+  }
+
+  isFinished(transactionId: string): boolean {
+    return this.finished.has(transactionId);
+  }
+
+  simulateRefund(originalTransactionId: string): void {
+    this.simulate(originalTransactionId, { refunded: true });
+  }
+
+  simulateBillingIssue(originalTransactionId: string): void {
+    this.simulate(originalTransactionId, { billingIssueAt: this.now().toISOString() });
+  }
+
+  simulateCancellation(originalTransactionId: string): void {
+    this.simulate(originalTransactionId, { cancelledAt: this.now().toISOString() });
+  }
+
+  private simulate(originalTransactionId: string, change: Partial<FakeSubscriptionState>): void {
+    this.states.set(originalTransactionId, { ...this.stateOf(originalTransactionId), ...change });
+  }
+
+  private stateOf(originalTransactionId: string): FakeSubscriptionState {
+    return this.states.get(originalTransactionId) || DEFAULT_STATE;
+  }
+
+  private now(): Date {
+    return this.options.now ? this.options.now() : new Date();
+  }
+}
+
+export default FakeBillingProvider;
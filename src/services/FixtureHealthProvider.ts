@@ -0,0 +1,168 @@
+// src/services/FixtureHealthProvider.ts - DETERMINISTIC HEALTH DATA FOR TESTS & EMULATORS
+import {
+  HealthDataProvider,
+  HealthMetric,
+  HealthPermissions,
+  HealthReadRange,
+  HealthSample,
+  QuantityMetric,
+  SleepSession,
+  permissionsFor
+} from './HealthDataProvider';
+
+export interface FixtureHealthOptions {
+  seed?: number;
+  available?: boolean;
+  permissions?: Partial<HealthPermissions>; // defaults to every metric granted
+}
+
+interface FixtureRange {
+  min: number;
+  max: number;
+  hourly: boolean; // one sample per waking hour, otherwise one per morning
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Waking hours in UTC, so fixtures don't depend on the machine's timezone
+const WAKE_HOUR = 7;
+const SLEEP_HOUR = 22;
+
+const FIXTURE_RANGES: Record<QuantityMetric, FixtureRange> = {
+  heartRate: { min: 62, max: 92, hourly: true },
+  steps: { min: 150, max: 1100, hourly: true },
+  activeMinutes: { min: 0, max: 12, hourly: true },
+  calories: { min: 40, max: 140, hourly: true },
+  hrv: { min: 28, max: 58, hourly: false },
+  restingHeartRate: { min: 54, max: 68, hourly: false },
+  vo2Max: { min: 40, max: 46, hourly: false }
+};
+
+// One night's stages in order: 7h05m in bed with a single 10-minute wake-up
+const NIGHT_PATTERN: Array<{ stage: 'light' | 'deep' | 'rem' | 'awake'; minutes: number }> = [
+  { stage: 'light', minutes: 30 },
+  { stage: 'deep', minutes: 60 },
+  { stage: 'light', minutes: 60 },
+  { stage: 'rem', minutes: 30 },
+  { stage: 'awake', minutes: 10 },
+  { stage: 'light', minutes: 70 },
+  { stage: 'deep', minutes: 30 },
+  { stage: 'rem', minutes: 40 },
+  { stage: 'light', minutes: 60 },
+  { stage: 'rem', minutes: 35 }
+];
+
+const METRIC_SALT: Record<QuantityMetric, number> = {
+  heartRate: 1,
+  steps: 2,
+  activeMinutes: 3,
+  calories: 4,
+  hrv: 5,
+  restingHeartRate: 6,
+  vo2Max: 7
+};
+
+/**
+ * Pseudo-random value in [0, 1) from integer inputs (mulberry32 over a mixed key),
+ * so the same seed and timestamp always produce the same reading
+ */
+const noise = (seed: number, salt: number, slot: number): number => {
+  let t = (seed ^ Math.imul(salt, 0x9e3779b1) ^ Math.imul(slot, 0x85ebca6b)) >>> 0;
+  t = (t + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hourSlots = (range: HealthReadRange): number[] => {
+  const first = Math.ceil(range.from.getTime() / HOUR_MS);
+  const last = Math.floor(range.to.getTime() / HOUR_MS);
+  return Array.from({ length: Math.max(0, last - first + 1) }, (_, index) => first + index);
+};
+
+/**
+ * Synthetic but stable data: readings depend only on the seed and the hour they fall in,
+ * so repeated and overlapping reads return identical samples with identical ids.
+ */
+export class FixtureHealthProvider implements HealthDataProvider {
+  readonly id = 'fixture' as const;
+  private seed: number;
+  private available: boolean;
+  private permissions: HealthPermissions;
+
+  constructor(options: FixtureHealthOptions = {}) {
+    this.seed = options.seed ?? 5;
+    this.available = options.available ?? true;
+    this.permissions = { ...permissionsFor('granted'), ...options.permissions };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  async requestPermissions(metrics: HealthMetric[]): Promise<HealthPermissions> {
+    metrics.forEach(metric => {
+      if (this.permissions[metric] === 'notDetermined') this.permissions[metric] = 'granted';
+    });
+    return this.getPermissions();
+  }
+
+  async getPermissions(): Promise<HealthPermissions> {
+    return this.available ? { ...this.permissions } : permissionsFor('unavailable');
+  }
+
+  async readSamples(metric: QuantityMetric, range: HealthReadRange): Promise<HealthSample[]> {
+    const fixture = FIXTURE_RANGES[metric];
+
+    return hourSlots(range)
+      .filter(slot => {
+        const hour = new Date(slot * HOUR_MS).getUTCHours();
+        return fixture.hourly ? hour >= WAKE_HOUR && hour < SLEEP_HOUR : hour === WAKE_HOUR;
+      })
+      .map(slot => {
+        const start = new Date(slot * HOUR_MS);
+        const end = fixture.hourly ? new Date((slot + 1) * HOUR_MS - 1) : start;
+        const value = fixture.min + noise(this.seed, METRIC_SALT[metric], slot) * (fixture.max - fixture.min);
+
+        return {
+          id: `fixture_${metric}_${start.toISOString()}`,
+          metric,
+          value: Math.round(value),
+          startDate: start.toISOString(),
+          endDate: end.toISOString()
+        };
+      })
+      .filter(sample => sample.endDate <= range.to.toISOString());
+  }
+
+  async readSleepSessions(range: HealthReadRange): Promise<SleepSession[]> {
+    const firstDay = Math.floor(range.from.getTime() / DAY_MS);
+    const lastDay = Math.floor(range.to.getTime() / DAY_MS);
+    const sessions: SleepSession[] = [];
+
+    for (let day = firstDay; day <= lastDay; day++) {
+      // Bedtime drifts up to 45 minutes after 22:30 the evening before
+      const bedtimeOffset = Math.round(noise(this.seed, 11, day) * 45) * 60 * 1000;
+      let cursor = day * DAY_MS - 1.5 * HOUR_MS + bedtimeOffset;
+      const segments = NIGHT_PATTERN.map(({ stage, minutes }) => {
+        const startDate = new Date(cursor).toISOString();
+        cursor += minutes * 60 * 1000;
+        return { stage, startDate, endDate: new Date(cursor).toISOString() };
+      });
+
+      const session = {
+        id: `fixture_sleep_${segments[0].startDate}`,
+        startDate: segments[0].startDate,
+        endDate: segments[segments.length - 1].endDate,
+        segments
+      };
+      // Only finished nights, like a real store that writes the session on waking
+      if (session.endDate >= range.from.toISOString() && session.endDate <= range.to.toISOString()) {
+        sessions.push(session);
+      }
+    }
+
+    return sessions;
+  }
+}
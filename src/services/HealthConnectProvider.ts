@@ -0,0 +1,194 @@
+// src/services/HealthConnectProvider.ts - ANDROID HEALTH CONNECT SOURCE
+import {
+  getSdkStatus,
+  initialize,
+  requestPermission,
+  getGrantedPermissions,
+  readRecords,
+  SdkAvailabilityStatus,
+  SleepStageType
+} from 'react-native-health-connect';
+import type { Permission, RecordType, RecordResult } from 'react-native-health-connect';
+import {
+  HealthDataProvider,
+  HealthMetric,
+  HealthPermissions,
+  HealthReadRange,
+  HealthSample,
+  QuantityMetric,
+  SleepSession,
+  SleepStage,
+  permissionsFor,
+  toIsoDate
+} from './HealthDataProvider';
+
+const RECORD_TYPES: Record<HealthMetric, RecordType> = {
+  heartRate: 'HeartRate',
+  steps: 'Steps',
+  activeMinutes: 'ExerciseSession',
+  calories: 'ActiveCaloriesBurned',
+  hrv: 'HeartRateVariabilityRmssd',
+  restingHeartRate: 'RestingHeartRate',
+  vo2Max: 'Vo2Max',
+  sleep: 'SleepSession'
+};
+
+const SLEEP_STAGES: Record<number, SleepStage> = {
+  [SleepStageType.UNKNOWN]: 'asleep',
+  [SleepStageType.AWAKE]: 'awake',
+  [SleepStageType.SLEEPING]: 'asleep',
+  [SleepStageType.OUT_OF_BED]: 'awake',
+  [SleepStageType.LIGHT]: 'light',
+  [SleepStageType.DEEP]: 'deep',
+  [SleepStageType.REM]: 'rem',
+  7: 'awake' // AWAKE_IN_BED, not in the library's constants yet
+};
+
+const minutesBetween = (startTime: string, endTime: string) =>
+  Math.max(0, new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000;
+
+const recordId = (record: { metadata?: { id?: string } }, fallback: string) => record.metadata?.id || fallback;
+
+/**
+ * Health Connect can't distinguish "never asked" from "declined", so a metric only
+ * reports as denied after this session asked for it and it wasn't granted.
+ */
+export class HealthConnectProvider implements HealthDataProvider {
+  readonly id = 'health-connect' as const;
+  private initialized = false;
+  private requested = new Set<HealthMetric>();
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      if ((await getSdkStatus()) !== SdkAvailabilityStatus.SDK_AVAILABLE) return false;
+      this.initialized = this.initialized || (await initialize());
+      return this.initialized;
+    } catch (error) {
+      console.error('Error initializing Health Connect:', error);
+      return false;
+    }
+  }
+
+  async requestPermissions(metrics: HealthMetric[]): Promise<HealthPermissions> {
+    if (!(await this.isAvailable())) return permissionsFor('unavailable');
+
+    try {
+      await requestPermission(
+        metrics.map(metric => ({ accessType: 'read', recordType: RECORD_TYPES[metric] }))
+      );
+      metrics.forEach(metric => this.requested.add(metric));
+    } catch (error) {
+      console.error('Error requesting Health Connect permissions:', error);
+    }
+    return this.getPermissions();
+  }
+
+  async getPermissions(): Promise<HealthPermissions> {
+    if (!this.initialized) return permissionsFor('unavailable');
+
+    const granted = new Set(
+      (await getGrantedPermissions())
+        .filter((permission: Permission) => permission.accessType === 'read')
+        .map((permission: Permission) => permission.recordType)
+    );
+    const permissions = permissionsFor('notDetermined');
+
+    (Object.keys(RECORD_TYPES) as HealthMetric[]).forEach(metric => {
+      if (granted.has(RECORD_TYPES[metric])) permissions[metric] = 'granted';
+      else if (this.requested.has(metric)) permissions[metric] = 'denied';
+    });
+    return permissions;
+  }
+
+  async readSamples(metric: QuantityMetric, range: HealthReadRange): Promise<HealthSample[]> {
+    const sample = (id: string, value: number, startDate: string, endDate: string): HealthSample => ({
+      id,
+      metric,
+      value,
+      startDate: toIsoDate(startDate),
+      endDate: toIsoDate(endDate)
+    });
+
+    switch (metric) {
+      case 'heartRate':
+        // One record holds a series of readings; each becomes its own sample
+        return (await this.readAll('HeartRate', range)).flatMap(record =>
+          record.samples.map(reading =>
+            sample(`${recordId(record, record.startTime)}_${reading.time}`, reading.beatsPerMinute, reading.time, reading.time)
+          )
+        );
+      case 'steps':
+        return (await this.readAll('Steps', range)).map(record =>
+          sample(recordId(record, `steps_${record.startTime}`), record.count, record.startTime, record.endTime)
+        );
+      case 'activeMinutes':
+        return (await this.readAll('ExerciseSession', range)).map(record =>
+          sample(
+            recordId(record, `exercise_${record.startTime}`),
+            minutesBetween(record.startTime, record.endTime),
+            record.startTime,
+            record.endTime
+          )
+        );
+      case 'calories':
+        return (await this.readAll('ActiveCaloriesBurned', range)).map(record =>
+          sample(recordId(record, `calories_${record.startTime}`), record.energy.inKilocalories, record.startTime, record.endTime)
+        );
+      case 'hrv':
+        return (await this.readAll('HeartRateVariabilityRmssd', range)).map(record =>
+          sample(recordId(record, `hrv_${record.time}`), record.heartRateVariabilityMillis, record.time, record.time)
+        );
+      case 'restingHeartRate':
+        return (await this.readAll('RestingHeartRate', range)).map(record =>
+          sample(recordId(record, `resting_${record.time}`), record.beatsPerMinute, record.time, record.time)
+        );
+      case 'vo2Max':
+        return (await this.readAll('Vo2Max', range)).map(record =>
+          sample(recordId(record, `vo2max_${record.time}`), record.vo2MillilitersPerMinuteKilogram, record.time, record.time)
+        );
+    }
+  }
+
+  async readSleepSessions(range: HealthReadRange): Promise<SleepSession[]> {
+    return (await this.readAll('SleepSession', range)).map(record => {
+      const startDate = toIsoDate(record.startTime);
+      const endDate = toIsoDate(record.endTime);
+      const stages = record.stages || [];
+
+      return {
+        id: recordId(record, `sleep_${startDate}`),
+        startDate,
+        endDate,
+        // Sessions without stage data still count as time asleep
+        segments: stages.length > 0
+          ? stages.map(stage => ({
+              stage: SLEEP_STAGES[stage.stage] || 'asleep',
+              startDate: toIsoDate(stage.startTime),
+              endDate: toIsoDate(stage.endTime)
+            }))
+          : [{ stage: 'asleep', startDate, endDate }]
+      };
+    });
+  }
+
+  private async readAll<T extends RecordType>(recordType: T, range: HealthReadRange): Promise<RecordResult<T>[]> {
+    const records: RecordResult<T>[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await readRecords(recordType, {
+        timeRangeFilter: {
+          operator: 'between',
+          startTime: range.from.toISOString(),
+          endTime: range.to.toISOString()
+        },
+        ascendingOrder: true,
+        pageToken
+      });
+      records.push(...page.records);
+      pageToken = page.pageToken || undefined;
+    } while (pageToken);
+
+    return records;
+  }
+}
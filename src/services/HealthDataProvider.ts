@@ -0,0 +1,233 @@
+// src/services/HealthDataProvider.ts - PLATFORM-NEUTRAL HEALTH DATA CONTRACT & NORMALISATION
+export interface HealthMetrics {
+  heartRate?: number;
+  steps?: number;
+  sleepHours?: number;
+  activeMinutes?: number;
+  calories?: number;
+  hrv?: number; // Heart Rate Variability
+  restingHeartRate?: number;
+  vo2Max?: number;
+}
+
+export interface SleepData {
+  bedtime: string;
+  wakeTime: string;
+  duration: number;
+  quality: number;
+  stages: {
+    deep: number;
+    light: number;
+    rem: number;
+    awake: number;
+  };
+}
+
+export type HealthProviderId = 'healthkit' | 'health-connect' | 'fixture';
+
+export type HealthMetric =
+  | 'heartRate'
+  | 'steps'
+  | 'activeMinutes'
+  | 'calories'
+  | 'hrv'
+  | 'restingHeartRate'
+  | 'vo2Max'
+  | 'sleep';
+
+export type QuantityMetric = Exclude<HealthMetric, 'sleep'>;
+
+export const HEALTH_METRICS: HealthMetric[] = [
+  'heartRate',
+  'steps',
+  'activeMinutes',
+  'calories',
+  'hrv',
+  'restingHeartRate',
+  'vo2Max',
+  'sleep'
+];
+
+export type HealthPermissionStatus = 'granted' | 'denied' | 'notDetermined' | 'unavailable';
+
+export type HealthPermissions = Record<HealthMetric, HealthPermissionStatus>;
+
+/**
+ * One reading in the units the app uses everywhere:
+ * bpm (heartRate, restingHeartRate), count (steps), minutes (activeMinutes),
+ * kcal (calories), ms (hrv) and mL/kg/min (vo2Max)
+ */
+export interface HealthSample {
+  id: string; // stable across reads, so overlapping syncs dedupe
+  metric: QuantityMetric;
+  value: number;
+  startDate: string;
+  endDate: string;
+}
+
+export type SleepStage = 'deep' | 'light' | 'rem' | 'awake' | 'asleep' | 'inBed';
+
+export interface SleepSegment {
+  stage: SleepStage; // 'asleep' when the source doesn't know the stage
+  startDate: string;
+  endDate: string;
+}
+
+export interface SleepSession {
+  id: string;
+  startDate: string;
+  endDate: string;
+  segments: SleepSegment[];
+}
+
+export interface HealthReadRange {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * A source of health data. Providers only translate their platform's records into
+ * samples and sleep sessions - caching, incremental sync and summaries live in
+ * WearableIntegration so every platform behaves the same.
+ */
+export interface HealthDataProvider {
+  readonly id: HealthProviderId;
+  isAvailable(): Promise<boolean>;
+  requestPermissions(metrics: HealthMetric[]): Promise<HealthPermissions>;
+  getPermissions(): Promise<HealthPermissions>;
+  readSamples(metric: QuantityMetric, range: HealthReadRange): Promise<HealthSample[]>;
+  readSleepSessions(range: HealthReadRange): Promise<SleepSession[]>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Totals add up over the window; everything else reports its most recent reading
+const SUMMED_METRICS: QuantityMetric[] = ['steps', 'activeMinutes', 'calories'];
+
+// Stage split used when a source only reports "asleep"
+const ESTIMATED_STAGE_SHARE = { deep: 0.15, light: 0.6, rem: 0.25 };
+
+// A gap longer than this between sleep segments starts a new session
+const SLEEP_SESSION_GAP_MS = HOUR_MS;
+
+export const permissionsFor = (status: HealthPermissionStatus): HealthPermissions =>
+  HEALTH_METRICS.reduce((acc, metric) => {
+    acc[metric] = status;
+    return acc;
+  }, {} as HealthPermissions);
+
+const spanHours = (startDate: string, endDate: string) =>
+  Math.max(0, new Date(endDate).getTime() - new Date(startDate).getTime()) / HOUR_MS;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Platforms format timestamps differently; samples always store UTC ISO strings so they sort and compare as text
+export const toIsoDate = (value: string | Date): string => new Date(value).toISOString();
+
+export const calculateSleepQuality = (duration: number, interruptions: number): number => {
+  // Simple sleep quality calculation based on duration and interruptions
+  let quality = 100;
+
+  // Penalize for too short or too long sleep
+  if (duration < 6) {
+    quality -= (6 - duration) * 10;
+  } else if (duration > 9) {
+    quality -= (duration - 9) * 5;
+  }
+
+  // Penalize for interruptions
+  quality -= Math.max(0, (interruptions - 1) * 5);
+
+  return Math.max(0, Math.min(100, quality));
+};
+
+/**
+ * Group loose sleep segments (e.g. HealthKit category samples) into nightly sessions
+ */
+export const groupSleepSegments = (segments: SleepSegment[], idPrefix: string): SleepSession[] => {
+  const sorted = [...segments].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  const sessions: SleepSession[] = [];
+
+  sorted.forEach(segment => {
+    const current = sessions[sessions.length - 1];
+    const gap = current
+      ? new Date(segment.startDate).getTime() - new Date(current.endDate).getTime()
+      : Infinity;
+
+    if (current && gap <= SLEEP_SESSION_GAP_MS) {
+      current.segments.push(segment);
+      if (segment.endDate > current.endDate) current.endDate = segment.endDate;
+    } else {
+      sessions.push({
+        id: `${idPrefix}_${segment.startDate}`,
+        startDate: segment.startDate,
+        endDate: segment.endDate,
+        segments: [segment]
+      });
+    }
+  });
+
+  return sessions;
+};
+
+/**
+ * Normalise a sleep session into SleepData. Duration is time asleep in hours;
+ * in-bed time only counts when the source recorded nothing else.
+ */
+export const toSleepData = (session: SleepSession): SleepData => {
+  const hours: Record<SleepStage, number> = { deep: 0, light: 0, rem: 0, awake: 0, asleep: 0, inBed: 0 };
+  session.segments.forEach(segment => {
+    hours[segment.stage] += spanHours(segment.startDate, segment.endDate);
+  });
+
+  const hasStages = hours.deep > 0 || hours.light > 0 || hours.rem > 0;
+  const recordedSleep = hours.deep + hours.light + hours.rem + hours.asleep;
+  const asleep = recordedSleep > 0 || hours.awake > 0 ? recordedSleep : hours.inBed;
+  const stages = hasStages
+    ? { deep: hours.deep, light: hours.light + hours.asleep, rem: hours.rem, awake: hours.awake }
+    : {
+        deep: asleep * ESTIMATED_STAGE_SHARE.deep,
+        light: asleep * ESTIMATED_STAGE_SHARE.light,
+        rem: asleep * ESTIMATED_STAGE_SHARE.rem,
+        awake: hours.awake
+      };
+  const interruptions = session.segments.filter(segment => segment.stage === 'awake').length + 1;
+
+  return {
+    bedtime: session.startDate,
+    wakeTime: session.endDate,
+    duration: asleep,
+    quality: calculateSleepQuality(asleep, interruptions),
+    stages
+  };
+};
+
+/**
+ * Collapse samples into HealthMetrics for a window: totals for steps, active minutes
+ * and calories, the latest reading for everything else
+ */
+export const summariseHealthMetrics = (
+  samples: HealthSample[],
+  sleep: SleepData | null,
+  range: HealthReadRange
+): HealthMetrics => {
+  const from = range.from.toISOString();
+  const to = range.to.toISOString();
+  const inRange = samples.filter(sample => sample.endDate >= from && sample.startDate <= to);
+  const metrics: HealthMetrics = {};
+
+  HEALTH_METRICS.forEach(metric => {
+    if (metric === 'sleep') return;
+    const values = inRange
+      .filter(sample => sample.metric === metric)
+      .sort((a, b) => a.endDate.localeCompare(b.endDate));
+    if (values.length === 0) return;
+
+    metrics[metric] = SUMMED_METRICS.includes(metric)
+      ? Math.round(values.reduce((sum, sample) => sum + sample.value, 0))
+      : Math.round(values[values.length - 1].value);
+  });
+
+  if (sleep) metrics.sleepHours = round1(sleep.duration);
+  return metrics;
+};
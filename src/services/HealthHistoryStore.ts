@@ -0,0 +1,320 @@
+// src/services/HealthHistoryStore.ts - DAILY HEALTH TIME SERIES WITH PROVENANCE
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CheckIn, Measurement } from '../context/AppDataContext';
+import StreakEngine from './StreakEngine';
+import { WearableIntegration } from './WearableIntegration';
+import type { HealthMetrics, SleepData } from './HealthDataProvider';
+import { measurementValue } from '../utils/measurements';
+import { dayKeyRange, shiftDayKey, toDayKey } from '../utils/sessionAnalytics';
+
+export const HEALTH_HISTORY_KEY = 'healthHistory';
+
+export type HealthProvenance = 'device' | 'manual' | 'estimated';
+
+export type HealthHistoryMetric =
+  // wearable
+  | 'heartRate'
+  | 'restingHeartRate'
+  | 'hrv'
+  | 'steps'
+  | 'activeMinutes'
+  | 'calories'
+  | 'vo2Max'
+  | 'sleepHours'
+  | 'sleepQuality'
+  | 'sleepDeep'
+  | 'sleepLight'
+  | 'sleepRem'
+  | 'sleepAwake'
+  // check-ins, 1-5
+  | 'mood'
+  | 'energy'
+  | 'stress'
+  | 'sleepRating'
+  // logged measurements
+  | 'systolic'
+  | 'diastolic'
+  | 'bloodOxygen'
+  | 'bodyTemperature' // °F
+  | 'respiratoryRate';
+
+export interface HealthReading {
+  value: number;
+  provenance: HealthProvenance;
+  recordedAt: string;
+}
+
+/**
+ * One metric's value for a day. When several sources report the same metric, only
+ * the most trusted provenance counts and its readings are averaged.
+ */
+export interface HealthDayValue {
+  value: number;
+  provenance: HealthProvenance;
+  readings: number;
+}
+
+export interface HealthSeriesPoint {
+  day: string;
+  value: HealthDayValue | null;
+}
+
+export interface LatestHealthValue extends HealthDayValue {
+  day: string;
+}
+
+// Readings per metric, keyed by source (provider id, check-in id, measurement id)
+type HealthDayBucket = Partial<Record<HealthHistoryMetric, Record<string, HealthReading>>>;
+
+interface PersistedHealthHistory {
+  version: 1;
+  days: Record<string, HealthDayBucket>;
+}
+
+// What the user typed beats what a device measured, which beats anything inferred
+const PROVENANCE_PRIORITY: HealthProvenance[] = ['manual', 'device', 'estimated'];
+
+const RETENTION_DAYS = 366;
+
+// Wearable caches only hold the last two days, so only these are (re)imported
+const WEARABLE_IMPORT_DAYS = 2;
+
+const WEARABLE_METRICS: Array<keyof HealthMetrics> = [
+  'heartRate',
+  'restingHeartRate',
+  'hrv',
+  'steps',
+  'activeMinutes',
+  'calories',
+  'vo2Max',
+  'sleepHours'
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const resolveDayValue = (readings: Record<string, HealthReading> | undefined): HealthDayValue | null => {
+  const all = Object.values(readings || {});
+  const provenance = PROVENANCE_PRIORITY.find(candidate => all.some(reading => reading.provenance === candidate));
+  if (!provenance) return null;
+
+  const values = all.filter(reading => reading.provenance === provenance).map(reading => reading.value);
+  return {
+    value: round2(values.reduce((sum, value) => sum + value, 0) / values.length),
+    provenance,
+    readings: values.length
+  };
+};
+
+// Body-composition measurements (weight, height, waist) have their own log and don't score a day
+const measurementReadings = (measurement: Measurement): Partial<Record<HealthHistoryMetric, number>> => {
+  switch (measurement.type) {
+    case 'bloodPressure':
+      return { systolic: measurement.value, diastolic: measurement.secondaryValue };
+    case 'restingHeartRate':
+      return { restingHeartRate: measurement.value };
+    case 'sleep':
+      return { sleepHours: measurement.value };
+    case 'bloodOxygen':
+      return { bloodOxygen: measurement.value };
+    case 'bodyTemperature':
+      return { bodyTemperature: measurementValue(measurement, '°F') };
+    case 'respiratoryRate':
+      return { respiratoryRate: measurement.value };
+    default:
+      return {};
+  }
+};
+
+const sleepReadings = (sleep: SleepData): Partial<Record<HealthHistoryMetric, number>> => ({
+  sleepQuality: sleep.quality,
+  sleepDeep: sleep.stages.deep,
+  sleepLight: sleep.stages.light,
+  sleepRem: sleep.stages.rem,
+  sleepAwake: sleep.stages.awake
+});
+
+/**
+ * The only place AdvancedHealthMetrics and the health dashboard read from.
+ * Days are keyed in the streak engine's home timezone so they line up with
+ * check-ins, meals and streaks.
+ */
+export class HealthHistoryStore {
+  private static instance: HealthHistoryStore;
+  private days: Record<string, HealthDayBucket> | null = null;
+
+  public static getInstance(): HealthHistoryStore {
+    if (!HealthHistoryStore.instance) {
+      HealthHistoryStore.instance = new HealthHistoryStore();
+    }
+    return HealthHistoryStore.instance;
+  }
+
+  async todayKey(date: Date = new Date()): Promise<string> {
+    return toDayKey(date, await StreakEngine.getInstance().getSettings());
+  }
+
+  /**
+   * Set one source's readings for a day, replacing what that source reported before
+   */
+  async record(
+    day: string,
+    sourceId: string,
+    values: Partial<Record<HealthHistoryMetric, number>>,
+    provenance: HealthProvenance,
+    recordedAt: string = new Date().toISOString()
+  ): Promise<void> {
+    const days = await this.load();
+    const bucket = days[day] || {};
+
+    (Object.keys(values) as HealthHistoryMetric[]).forEach(metric => {
+      const value = values[metric];
+      if (typeof value !== 'number' || !isFinite(value)) return;
+      bucket[metric] = { ...bucket[metric], [sourceId]: { value, provenance, recordedAt } };
+    });
+
+    days[day] = bucket;
+    await this.save();
+  }
+
+  /**
+   * Drop everything one source reported for a day, e.g. a deleted measurement
+   */
+  async removeSource(day: string, sourceId: string): Promise<void> {
+    const days = await this.load();
+    const bucket = days[day];
+    if (!bucket) return;
+
+    (Object.keys(bucket) as HealthHistoryMetric[]).forEach(metric => {
+      const { [sourceId]: removed, ...rest } = bucket[metric] || {};
+      if (!removed) return;
+      if (Object.keys(rest).length > 0) bucket[metric] = rest;
+      else delete bucket[metric];
+    });
+
+    await this.save();
+  }
+
+  async recordMeasurement(measurement: Measurement): Promise<void> {
+    const values = measurementReadings(measurement);
+    if (Object.keys(values).length === 0) return;
+    await this.record(measurement.day, measurement.id, values, 'manual', measurement.updatedAt);
+  }
+
+  async recordCheckIn(checkIn: CheckIn): Promise<void> {
+    await this.record(checkIn.day, checkIn.id, {
+      mood: checkIn.mood,
+      energy: checkIn.energy,
+      stress: checkIn.stress,
+      ...(typeof checkIn.sleep === 'number' ? { sleepRating: checkIn.sleep } : {})
+    }, 'manual', checkIn.updatedAt);
+  }
+
+  /**
+   * Import today's and yesterday's wearable summaries. Fixture data is synthetic,
+   * so it is stored as estimated rather than device data.
+   */
+  async syncFromWearable(now: Date = new Date()): Promise<void> {
+    const wearable = WearableIntegration.getInstance();
+    const settings = await StreakEngine.getInstance().getSettings();
+    const today = toDayKey(now, settings);
+
+    for (let offset = WEARABLE_IMPORT_DAYS - 1; offset >= 0; offset--) {
+      const day = shiftDayKey(today, -offset);
+      const range = dayKeyRange(day, settings);
+      const { metrics, sleep } = await wearable.getMetricsForRange({
+        from: range.from,
+        to: range.to < now ? range.to : now
+      });
+
+      const sourceId = wearable.getProviderId();
+      if (!sourceId) return;
+      const provenance: HealthProvenance = sourceId === 'fixture' ? 'estimated' : 'device';
+      const values: Partial<Record<HealthHistoryMetric, number>> = {};
+      WEARABLE_METRICS.forEach(metric => {
+        if (metrics[metric] !== undefined) values[metric] = metrics[metric];
+      });
+
+      await this.record(day, sourceId, { ...values, ...(sleep ? sleepReadings(sleep) : {}) }, provenance);
+    }
+  }
+
+  async getDay(day: string): Promise<Partial<Record<HealthHistoryMetric, HealthDayValue>>> {
+    const bucket = (await this.load())[day] || {};
+    const values: Partial<Record<HealthHistoryMetric, HealthDayValue>> = {};
+
+    (Object.keys(bucket) as HealthHistoryMetric[]).forEach(metric => {
+      const value = resolveDayValue(bucket[metric]);
+      if (value) values[metric] = value;
+    });
+    return values;
+  }
+
+  /**
+   * One point per day for the `days` days ending at `today`, oldest first; null where nothing was recorded
+   */
+  async getSeries(metric: HealthHistoryMetric, days: number, today?: string): Promise<HealthSeriesPoint[]> {
+    const all = await this.load();
+    const end = today || await this.todayKey();
+
+    return Array.from({ length: days }, (_, index) => {
+      const day = shiftDayKey(end, index - (days - 1));
+      return { day, value: resolveDayValue(all[day]?.[metric]) };
+    });
+  }
+
+  /**
+   * Most recent day value within `lookbackDays` of today
+   */
+  async getLatest(metric: HealthHistoryMetric, lookbackDays: number = 30): Promise<LatestHealthValue | null> {
+    const series = await this.getSeries(metric, lookbackDays);
+    for (let index = series.length - 1; index >= 0; index--) {
+      const { day, value } = series[index];
+      if (value) return { day, ...value };
+    }
+    return null;
+  }
+
+  // Drop the cached days so the next read picks up storage written elsewhere (e.g. a restore)
+  invalidate() {
+    this.days = null;
+  }
+
+  async clear(): Promise<void> {
+    this.days = {};
+    try {
+      await AsyncStorage.removeItem(HEALTH_HISTORY_KEY);
+    } catch (error) {
+      console.error('Error clearing health history:', error);
+    }
+  }
+
+  private async load(): Promise<Record<string, HealthDayBucket>> {
+    if (this.days) return this.days;
+
+    try {
+      const stored = await AsyncStorage.getItem(HEALTH_HISTORY_KEY);
+      const parsed = stored ? JSON.parse(stored) : null;
+      // Older builds stored a flat array of generated vitals here, which is discarded
+      this.days = parsed && parsed.version === 1 && parsed.days ? parsed.days : {};
+    } catch (error) {
+      console.error('Error loading health history:', error);
+      this.days = {};
+    }
+    return this.days!;
+  }
+
+  private async save(): Promise<void> {
+    const days = await this.load();
+    const cutoff = shiftDayKey(await this.todayKey(), -RETENTION_DAYS);
+    Object.keys(days).forEach(day => {
+      if (day < cutoff) delete days[day];
+    });
+
+    try {
+      const persisted: PersistedHealthHistory = { version: 1, days };
+      await AsyncStorage.setItem(HEALTH_HISTORY_KEY, JSON.stringify(persisted));
+    } catch (error) {
+      console.error('Error saving health history:', error);
+    }
+  }
+}
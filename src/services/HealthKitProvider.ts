@@ -0,0 +1,163 @@
+// src/services/HealthKitProvider.ts - APPLE HEALTHKIT SOURCE (iOS)
+import AppleHealthKit from 'react-native-health';
+import {
+  HealthDataProvider,
+  HealthMetric,
+  HealthPermissions,
+  HealthReadRange,
+  HealthSample,
+  QuantityMetric,
+  SleepSegment,
+  SleepSession,
+  SleepStage,
+  groupSleepSegments,
+  permissionsFor,
+  toIsoDate
+} from './HealthDataProvider';
+
+interface HealthKitValue {
+  id?: string;
+  value: number;
+  startDate: string;
+  endDate: string;
+}
+
+interface HealthKitSleepValue {
+  id?: string;
+  value: string;
+  startDate: string;
+  endDate: string;
+}
+
+type HealthKitCallback<T> = (error: string | null, results: T) => void;
+type HealthKitMethod<T> = (options: any, callback: HealthKitCallback<T>) => void;
+
+const PERMISSIONS = AppleHealthKit.Constants.Permissions;
+
+const METRIC_PERMISSIONS: Record<HealthMetric, string> = {
+  heartRate: PERMISSIONS.HeartRate,
+  steps: PERMISSIONS.StepCount,
+  activeMinutes: PERMISSIONS.AppleExerciseTime,
+  calories: PERMISSIONS.ActiveEnergyBurned,
+  hrv: PERMISSIONS.HeartRateVariability,
+  restingHeartRate: PERMISSIONS.RestingHeartRate,
+  vo2Max: PERMISSIONS.Vo2Max,
+  sleep: PERMISSIONS.SleepAnalysis
+};
+
+const SAMPLE_QUERIES: Record<QuantityMetric, HealthKitMethod<HealthKitValue[]>> = {
+  heartRate: AppleHealthKit.getHeartRateSamples,
+  steps: AppleHealthKit.getDailyStepCountSamples,
+  activeMinutes: AppleHealthKit.getAppleExerciseTime,
+  calories: AppleHealthKit.getActiveEnergyBurned,
+  hrv: AppleHealthKit.getHeartRateVariabilitySamples,
+  restingHeartRate: AppleHealthKit.getRestingHeartRateSamples,
+  vo2Max: AppleHealthKit.getVo2MaxSamples
+};
+
+// HealthKit reports HRV (SDNN) in seconds; the app works in milliseconds
+const VALUE_SCALE: Partial<Record<QuantityMetric, number>> = { hrv: 1000 };
+
+// CORE is what Apple calls light sleep
+const SLEEP_STAGES: Record<string, SleepStage> = {
+  INBED: 'inBed',
+  ASLEEP: 'asleep',
+  AWAKE: 'awake',
+  CORE: 'light',
+  DEEP: 'deep',
+  REM: 'rem'
+};
+
+const call = <T>(method: HealthKitMethod<T>, options: any): Promise<T> =>
+  new Promise((resolve, reject) => {
+    method(options, (error, results) => (error ? reject(new Error(error)) : resolve(results)));
+  });
+
+/**
+ * HealthKit never tells an app whether read access was denied - denied metrics just
+ * return no samples. Any metric the user has been asked about therefore reports as granted.
+ */
+export class HealthKitProvider implements HealthDataProvider {
+  readonly id = 'healthkit' as const;
+  private requested = new Set<HealthMetric>();
+
+  async isAvailable(): Promise<boolean> {
+    // The native module is missing from builds without the react-native-health plugin, e.g. Expo Go
+    if (typeof AppleHealthKit.isAvailable !== 'function') return false;
+
+    try {
+      return await new Promise<boolean>((resolve, reject) => {
+        AppleHealthKit.isAvailable((error: string | null, available: boolean) =>
+          (error ? reject(new Error(error)) : resolve(available))
+        );
+      });
+    } catch (error) {
+      console.error('Error checking HealthKit availability:', error);
+      return false;
+    }
+  }
+
+  async requestPermissions(metrics: HealthMetric[]): Promise<HealthPermissions> {
+    const read = metrics.map(metric => METRIC_PERMISSIONS[metric]);
+
+    try {
+      await call(AppleHealthKit.initHealthKit, { permissions: { read, write: [] } });
+      metrics.forEach(metric => this.requested.add(metric));
+    } catch (error) {
+      console.error('Error requesting HealthKit permissions:', error);
+      const permissions = await this.getPermissions();
+      metrics.forEach(metric => {
+        permissions[metric] = 'denied';
+      });
+      return permissions;
+    }
+
+    return this.getPermissions();
+  }
+
+  async getPermissions(): Promise<HealthPermissions> {
+    const permissions = permissionsFor('notDetermined');
+    this.requested.forEach(metric => {
+      permissions[metric] = 'granted';
+    });
+    return permissions;
+  }
+
+  async readSamples(metric: QuantityMetric, range: HealthReadRange): Promise<HealthSample[]> {
+    const results = await call(SAMPLE_QUERIES[metric], {
+      startDate: range.from.toISOString(),
+      endDate: range.to.toISOString(),
+      ascending: true,
+      // Hourly step buckets rather than one total per day
+      ...(metric === 'steps' ? { period: 60 } : {})
+    });
+    const scale = VALUE_SCALE[metric] ?? 1;
+
+    return (results || []).map(result => ({
+      id: result.id || `healthkit_${metric}_${toIsoDate(result.startDate)}`,
+      metric,
+      value: result.value * scale,
+      startDate: toIsoDate(result.startDate),
+      endDate: toIsoDate(result.endDate)
+    }));
+  }
+
+  async readSleepSessions(range: HealthReadRange): Promise<SleepSession[]> {
+    // The library's typings say sleep values are numbers; at runtime they are stage names
+    const getSleepSamples = AppleHealthKit.getSleepSamples as unknown as HealthKitMethod<HealthKitSleepValue[]>;
+    const results = await call(getSleepSamples, {
+      startDate: range.from.toISOString(),
+      endDate: range.to.toISOString()
+    });
+
+    const segments: SleepSegment[] = (results || [])
+      .filter(result => SLEEP_STAGES[result.value])
+      .map(result => ({
+        stage: SLEEP_STAGES[result.value],
+        startDate: toIsoDate(result.startDate),
+        endDate: toIsoDate(result.endDate)
+      }));
+
+    return groupSleepSegments(segments, 'healthkit_sleep');
+  }
+}
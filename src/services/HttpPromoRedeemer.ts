@@ -0,0 +1,33 @@
+// src/services/HttpPromoRedeemer.ts - PROMO CODE CLAIMS AGAINST THE VERIFICATION SERVER
+import { PromoClaim, PromoRedeemer } from './BillingProvider';
+
+/**
+ * The server records each promo claim, so a code can't be redeemed again after a
+ * reinstall or on another device. Codes redeemed offline are claimed here later.
+ * `npm run receipt-server` answers these too.
+ */
+export class HttpPromoRedeemer implements PromoRedeemer {
+  constructor(private baseUrl: string, private timeoutMs: number = 15000) {}
+
+  async claim(code: string, claimantId: string): Promise<PromoClaim> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${this.baseUrl}/promo/claim`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, claimantId }),
+        signal: controller.signal
+      });
+      // Refusals come back as 4xx with a reason the user can read
+      if (!response.ok && (response.status < 400 || response.status >= 500)) {
+        throw new Error(`Promo server responded with ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export default HttpPromoRedeemer;
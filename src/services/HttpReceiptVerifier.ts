@@ -0,0 +1,36 @@
+// src/services/HttpReceiptVerifier.ts - RECEIPT CHECKS AGAINST THE VERIFICATION SERVER
+import { ReceiptVerification, ReceiptVerifier, StorePurchase } from './BillingProvider';
+
+/**
+ * Receipts are only trusted once the server has checked them with the store.
+ * Run `npm run receipt-server` for a local stand-in that understands fake store receipts.
+ */
+export class HttpReceiptVerifier implements ReceiptVerifier {
+  constructor(private baseUrl: string, private timeoutMs: number = 15000) {}
+
+  async verify(purchase: StorePurchase): Promise<ReceiptVerification> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${this.baseUrl}/receipts/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          platform: purchase.platform,
+          productId: purchase.productId,
+          transactionId: purchase.transactionId,
+          receipt: purchase.receipt
+        }),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`Receipt server responded with ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export default HttpReceiptVerifier;
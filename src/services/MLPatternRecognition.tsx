@@ -1,11 +1,21 @@
 // src/services/MLPatternRecognition.tsx
-interface UserBehaviorData {
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AIInsight, CheckIn, SessionData } from '../context/AppDataContext';
+import StreakEngine from './StreakEngine';
+import { pearsonCorrelation, toDayKey } from '../utils/sessionAnalytics';
+
+// Rebuilt from sessions and check-ins on launch, so it is not part of backups
+export const BEHAVIOR_LOG_KEY = 'behaviorPatterns';
+
+export interface UserBehaviorData {
+  id: string; // the session it came from
+  day: string; // yyyy-MM-dd in the streak home timezone
   timestamp: string;
   pillar: string;
   duration: number;
   performance: number;
-  mood: number;
-  energy: number;
+  mood: number; // 1-10
+  energy: number; // 1-10
   context: {
     timeOfDay: number;
     dayOfWeek: number;
@@ -14,19 +24,72 @@ interface UserBehaviorData {
   };
 }
 
-interface Pattern {
+export interface Pattern {
   id: string;
   type: 'temporal' | 'performance' | 'mood' | 'energy';
   confidence: number;
   description: string;
   insights: string[];
   recommendations: string[];
+  pillar?: string;
+}
+
+export type PatternListener = (patterns: Pattern[]) => void | Promise<void>;
+
+interface CheckInLevels {
+  day: string;
+  mood: number; // 1-10
+  energy: number; // 1-10
+}
+
+interface PersistedBehaviorLog {
+  version: 1;
+  entries: UserBehaviorData[];
+  checkIns: Record<string, CheckInLevels>; // by check-in id
+  surfaced: Record<string, string>; // pattern id -> description it was last surfaced with
 }
 
+const MOOD_SCALE: Record<SessionData['mood'], number> = {
+  excellent: 9,
+  good: 7,
+  okay: 5,
+  low: 3
+};
+
+const RETENTION_DAYS = 90;
+const MAX_ENTRIES = 1000;
+const MIN_ENTRIES_FOR_ANALYSIS = 10;
+
+// Sessions tend to arrive in bursts (a check-in adds one too), so analysis waits for them to settle
+const ANALYSIS_DELAY_MS = 3000;
+
+const emptyLog = (): PersistedBehaviorLog => ({ version: 1, entries: [], checkIns: {}, surfaced: {} });
+
+// Check-ins rate mood and energy 1-5, the behaviour log uses 1-10
+const toTenPointScale = (rating: number) => Math.min(10, Math.max(1, rating * 2));
+
+/**
+ * Turn a detected pattern into the insight shown on the home screen and coach
+ */
+export const patternToInsight = (pattern: Pattern): Omit<AIInsight, 'id' | 'dateGenerated'> => ({
+  title: pattern.description,
+  description: pattern.insights.join('. '),
+  pillar: pattern.pillar || 'overall',
+  confidence: pattern.confidence,
+  priority: pattern.id === 'pillar_opportunity' || pattern.confidence >= 0.85 ? 'high'
+    : pattern.confidence >= 0.78 ? 'medium'
+    : 'low',
+  actionPlan: pattern.recommendations
+});
+
 export class MLPatternRecognition {
   private static instance: MLPatternRecognition;
   private behaviorData: UserBehaviorData[] = [];
   private patterns: Pattern[] = [];
+  private log: PersistedBehaviorLog | null = null;
+  private listeners: PatternListener[] = [];
+  private analysisTimer: ReturnType<typeof setTimeout> | null = null;
+  private dirty: boolean = true;
 
   public static getInstance(): MLPatternRecognition {
     if (!MLPatternRecognition.instance) {
@@ -35,20 +98,187 @@ export class MLPatternRecognition {
     return MLPatternRecognition.instance;
   }
 
-  addBehaviorData(data: UserBehaviorData): void {
-    this.behaviorData.push(data);
-    
-    // Keep only last 90 days of data
-    const ninetyDaysAgo = new Date();
-    ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
-    
-    this.behaviorData = this.behaviorData.filter(
-      item => new Date(item.timestamp) > ninetyDaysAgo
-    );
+  /**
+   * Called with patterns that are new, or whose finding changed, since they were last surfaced
+   * @returns Function that removes the listener
+   */
+  onPatterns(listener: PatternListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Replace the log with the given history, e.g. on launch or after a restore.
+   * Check-in sessions are left out; their check-ins supply mood and energy instead.
+   */
+  async rebuild(sessions: SessionData[], checkIns: CheckIn[]): Promise<void> {
+    const log = await this.load();
+    const settings = await StreakEngine.getInstance().getSettings();
+
+    log.checkIns = {};
+    checkIns.forEach(checkIn => {
+      log.checkIns[checkIn.id] = this.checkInLevels(checkIn);
+    });
+    log.entries = sessions
+      .filter(session => session.type !== 'checkin')
+      .map(session => this.toBehaviorData(session, toDayKey(session.date, settings)));
+
+    await this.commit();
+  }
+
+  async recordSession(session: SessionData): Promise<void> {
+    if (session.type === 'checkin') return;
+    const day = toDayKey(session.date, await StreakEngine.getInstance().getSettings());
+    await this.addBehaviorData(this.toBehaviorData(session, day));
+  }
+
+  async recordCheckIn(checkIn: CheckIn): Promise<void> {
+    const log = await this.load();
+    log.checkIns[checkIn.id] = this.checkInLevels(checkIn);
+    log.entries = log.entries.map(entry => entry.day === checkIn.day ? this.withCheckIns(entry) : entry);
+    await this.commit();
+  }
+
+  /**
+   * Add or replace (by id) one entry of the behaviour log
+   */
+  async addBehaviorData(data: UserBehaviorData): Promise<void> {
+    const log = await this.load();
+    log.entries = [...log.entries.filter(entry => entry.id !== data.id), this.withCheckIns(data)];
+    await this.commit();
+  }
+
+  async clear(): Promise<void> {
+    if (this.analysisTimer) clearTimeout(this.analysisTimer);
+    this.analysisTimer = null;
+    this.log = emptyLog();
+    this.behaviorData = [];
+    this.patterns = [];
+    try {
+      await AsyncStorage.removeItem(BEHAVIOR_LOG_KEY);
+    } catch (error) {
+      console.error('Error clearing behaviour log:', error);
+    }
+  }
+
+  private toBehaviorData(session: SessionData, day: string): UserBehaviorData {
+    const date = new Date(session.date);
+    const mood = MOOD_SCALE[session.mood] ?? 5;
+    return this.withCheckIns({
+      id: session.id,
+      day,
+      timestamp: session.date,
+      pillar: session.pillar,
+      duration: session.duration,
+      performance: session.score,
+      mood,
+      energy: mood,
+      context: {
+        timeOfDay: date.getHours(),
+        dayOfWeek: date.getDay()
+      }
+    });
+  }
+
+  private checkInLevels(checkIn: CheckIn): CheckInLevels {
+    return { day: checkIn.day, mood: toTenPointScale(checkIn.mood), energy: toTenPointScale(checkIn.energy) };
+  }
+
+  // What the user reported in the day's check-ins beats what we infer from a session's mood
+  private withCheckIns(entry: UserBehaviorData): UserBehaviorData {
+    const levels = Object.values(this.log?.checkIns || {}).filter(checkIn => checkIn.day === entry.day);
+    if (levels.length === 0) return entry;
+
+    const averageOf = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    return {
+      ...entry,
+      mood: averageOf(levels.map(checkIn => checkIn.mood)),
+      energy: averageOf(levels.map(checkIn => checkIn.energy))
+    };
+  }
+
+  // Prune, persist and queue a background analysis run
+  private async commit(): Promise<void> {
+    const log = await this.load();
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+
+    log.entries = log.entries
+      .filter(entry => new Date(entry.timestamp) > cutoff)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(-MAX_ENTRIES);
+    const oldestDay = log.entries[0]?.day;
+    Object.keys(log.checkIns).forEach(id => {
+      if (!oldestDay || log.checkIns[id].day < oldestDay) delete log.checkIns[id];
+    });
+
+    this.behaviorData = log.entries;
+    this.dirty = true;
+    await this.save();
+    this.scheduleAnalysis();
+  }
+
+  private scheduleAnalysis(): void {
+    if (this.analysisTimer) return;
+    this.analysisTimer = setTimeout(() => {
+      this.analysisTimer = null;
+      this.runAnalysis().catch(error => console.error('Error analysing behaviour patterns:', error));
+    }, ANALYSIS_DELAY_MS);
+  }
+
+  private async runAnalysis(): Promise<void> {
+    if (!this.dirty) return;
+    this.dirty = false;
+
+    if (this.behaviorData.length < MIN_ENTRIES_FOR_ANALYSIS) {
+      this.patterns = [];
+      return;
+    }
+    this.analyzePatterns();
+
+    // Nobody to show them to yet; they stay unsurfaced until the app is listening
+    if (this.listeners.length === 0) return;
+
+    const log = await this.load();
+    const fresh = this.getPatterns().filter(pattern => log.surfaced[pattern.id] !== pattern.description);
+    if (fresh.length === 0) return;
+
+    fresh.forEach(pattern => {
+      log.surfaced[pattern.id] = pattern.description;
+    });
+    await this.save();
 
-    // Trigger pattern analysis if we have enough data
-    if (this.behaviorData.length >= 10) {
-      this.analyzePatterns();
+    for (const listener of this.listeners) {
+      try {
+        await listener(fresh);
+      } catch (error) {
+        console.error('Pattern listener failed:', error);
+      }
+    }
+  }
+
+  private async load(): Promise<PersistedBehaviorLog> {
+    if (this.log) return this.log;
+
+    try {
+      const stored = await AsyncStorage.getItem(BEHAVIOR_LOG_KEY);
+      const parsed = stored ? JSON.parse(stored) : null;
+      this.log = parsed && parsed.version === 1 ? { ...emptyLog(), ...parsed } : emptyLog();
+    } catch (error) {
+      console.error('Error loading behaviour log:', error);
+      this.log = emptyLog();
+    }
+    this.behaviorData = this.log!.entries;
+    return this.log!;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(BEHAVIOR_LOG_KEY, JSON.stringify(await this.load()));
+    } catch (error) {
+      console.error('Error saving behaviour log:', error);
     }
   }
 
@@ -185,6 +415,7 @@ export class MLPatternRecognition {
       this.patterns.push({
         id: 'pillar_strength',
         type: 'performance',
+        pillar: strongestPillar,
         confidence: 0.82,
         description: `${strongestPillar} pillar shows exceptional performance`,
         insights: [
@@ -204,6 +435,7 @@ export class MLPatternRecognition {
       this.patterns.push({
         id: 'pillar_opportunity',
         type: 'performance',
+        pillar: weakestPillar,
         confidence: 0.75,
         description: `${weakestPillar} pillar needs focused attention`,
         insights: [
@@ -292,18 +524,9 @@ export class MLPatternRecognition {
     }
   }
 
+  // Same coefficient the analytics correlation matrix uses; no variance counts as no correlation
   private calculateCorrelation(x: number[], y: number[]): number {
-    const n = x.length;
-    const sumX = x.reduce((sum, val) => sum + val, 0);
-    const sumY = y.reduce((sum, val) => sum + val, 0);
-    const sumXY = x.reduce((sum, val, i) => sum + val * y[i], 0);
-    const sumXX = x.reduce((sum, val) => sum + val * val, 0);
-    const sumYY = y.reduce((sum, val) => sum + val * val, 0);
-
-    const numerator = n * sumXY - sumX * sumY;
-    const denominator = Math.sqrt((n * sumXX - sumX * sumX) * (n * sumYY - sumY * sumY));
-
-    return denominator === 0 ? 0 : numerator / denominator;
+    return pearsonCorrelation(x, y) ?? 0;
   }
 
   getPatterns(): Pattern[] {
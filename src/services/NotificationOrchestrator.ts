@@ -0,0 +1,632 @@
+// src/services/NotificationOrchestrator.ts - OWNS EVERY NOTIFICATION THE APP SCHEDULES
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SessionData } from '../context/AppDataContext';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationSettings,
+  normalizeNotificationSettings,
+  timeToMinutes
+} from '../utils/notificationSettings';
+import {
+  NotificationNamespace,
+  NotificationRecord,
+  NotificationTiming,
+  UpcomingNotification,
+  allowedBySettings,
+  namespaceOf,
+  notificationId,
+  placeOutsideQuietHours,
+  upcomingNotifications
+} from '../utils/notificationPolicy';
+import {
+  DailyGoalTargets,
+  EMPTY_ENGAGEMENT,
+  PendingReminder,
+  PlannedReminder,
+  ReminderEngagement,
+  ReminderTarget,
+  earliestReminderMinute,
+  learnPracticeWindows,
+  planReminders,
+  settleReminders
+} from '../utils/reminderTiming';
+import { PillarKey, isPillar } from '../utils/sessionAnalytics';
+
+export const NOTIFICATION_SETTINGS_KEY = 'notificationSettings';
+export const ADAPTIVE_REMINDERS_KEY = 'adaptiveReminders';
+export const NOTIFICATION_REGISTRY_KEY = 'notificationRegistry';
+
+const CHANNEL_ID = 'neural-optimization';
+
+export interface NotificationRequest {
+  identifier: string; // built with notificationId(), so it carries its namespace
+  title: string;
+  body: string;
+  reason: string; // shown in the upcoming notifications list
+  timing: NotificationTiming;
+  pillar?: PillarKey | null;
+  data?: Record<string, any>;
+  ignoreQuietHours?: boolean; // only for notifications the user asked for just now
+}
+
+// What has been scheduled and how the user responded, so back-off survives restarts
+interface AdaptiveReminderState {
+  engagement: Partial<Record<ReminderTarget, ReminderEngagement>>;
+  pending: PendingReminder[];
+}
+
+const PILLAR_REMINDERS: Record<ReminderTarget, { title: string; body: string }> = {
+  body: { title: '💪 Your movement window is coming up', body: 'This is about when you usually train. A short session keeps the momentum going.' },
+  mind: { title: '🧠 Time to focus', body: 'You usually do your mind practice around now. Ready for a session?' },
+  heart: { title: '❤️ A moment for your heart', body: 'This is your usual time for heart practice. Take a few minutes to connect.' },
+  spirit: { title: '🌟 Your quiet time is near', body: 'You usually make space for spirit practice about now.' },
+  diet: { title: '🥗 Nourish yourself', body: 'Around now is when you usually check in on your nutrition.' },
+  all: { title: '🧠 Neural Optimization Time', body: 'Ready to enhance your 5 pillars? Your brain is primed for growth!' }
+};
+
+const PILLAR_EMOJIS: Record<PillarKey | 'overall', string> = {
+  body: '💪',
+  mind: '🧠',
+  heart: '❤️',
+  spirit: '🌟',
+  diet: '🥗',
+  overall: '🏆'
+};
+
+const MOTIVATIONAL_MESSAGES = [
+  { sanskrit: 'योगः कर्मसु कौशलम्', translation: 'Yoga is skill in action' },
+  { sanskrit: 'सत्यमेव जयते', translation: 'Truth alone triumphs' },
+  { sanskrit: 'वसुधैव कुटुम्बकम्', translation: 'The world is one family' }
+];
+
+const DEFAULT_GOALS: DailyGoalTargets = { sessionTarget: 3, minutesTarget: 30 };
+
+/**
+ * The one place notifications are scheduled from. Each one gets a namespaced
+ * identifier and a registry entry saying why it was scheduled, and every request
+ * passes through the user's NotificationSettings: the master switch, the toggle
+ * for its kind, per-pillar toggles and quiet hours.
+ */
+export class NotificationOrchestrator {
+  private static instance: NotificationOrchestrator;
+  private settings: NotificationSettings = DEFAULT_NOTIFICATION_SETTINGS;
+  private registry: NotificationRecord[] = [];
+  private loaded: Promise<void> | null = null;
+  private sessions: SessionData[] = [];
+  private goals: DailyGoalTargets = DEFAULT_GOALS;
+  private rescheduling: Promise<PlannedReminder[]> = Promise.resolve([]);
+  private responseSubscription: Notifications.Subscription | null = null;
+
+  public static getInstance(): NotificationOrchestrator {
+    if (!NotificationOrchestrator.instance) {
+      NotificationOrchestrator.instance = new NotificationOrchestrator();
+    }
+    return NotificationOrchestrator.instance;
+  }
+
+  // Resolves once settings and the registry have been read
+  ready(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = Promise.all([this.loadSettings(), this.loadRegistry()]).then(() => undefined);
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Set up notification handling, ask for permission and bring everything
+   * scheduled in line with the current settings
+   * @returns Whether notifications are allowed
+   */
+  async initialize(): Promise<boolean> {
+    await this.ready();
+
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowAlert: true,
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: this.settings.soundEnabled,
+        shouldSetBadge: false,
+      }),
+    });
+    this.listenForResponses();
+
+    try {
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: '5 Pillars Neural Optimization',
+          importance: Notifications.AndroidImportance.HIGH,
+          vibrationPattern: [0, 250, 250, 250],
+          lightColor: '#3B82F6',
+          description: 'Neural optimization reminders and achievements',
+        });
+      }
+
+      await this.removeUnnamespaced();
+      const granted = Device.isDevice ? await this.requestPermissions() : await this.hasPermissions();
+      if (!granted) {
+        console.warn('Notification permissions not granted');
+      }
+      return granted;
+    } catch (error) {
+      console.error('Error initializing notifications:', error);
+      return false;
+    }
+  }
+
+  async hasPermissions(): Promise<boolean> {
+    try {
+      const { status } = await Notifications.getPermissionsAsync();
+      return status === 'granted';
+    } catch (error) {
+      console.error('Error checking notification permissions:', error);
+      return false;
+    }
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    try {
+      const { status: existingStatus } = await Notifications.getPermissionsAsync();
+      const status = existingStatus === 'granted'
+        ? existingStatus
+        : (await Notifications.requestPermissionsAsync()).status;
+      if (status !== 'granted') return false;
+
+      await this.applySettings();
+      return true;
+    } catch (error) {
+      console.error('Error requesting notification permissions:', error);
+      return false;
+    }
+  }
+
+  async getSettings(): Promise<NotificationSettings> {
+    await this.ready();
+    return this.settings;
+  }
+
+  // Save settings and bring every scheduled notification in line with them
+  async updateSettings(settings: NotificationSettings): Promise<void> {
+    await this.ready();
+    this.settings = normalizeNotificationSettings(settings);
+    try {
+      await AsyncStorage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+    }
+    await this.applySettings();
+  }
+
+  /**
+   * Schedule a notification, replacing any with the same identifier. Requests the
+   * settings don't allow are dropped, and anything landing in quiet hours waits
+   * until they end.
+   * @returns The identifier, or null when nothing was scheduled
+   */
+  async schedule(request: NotificationRequest, now: Date = new Date()): Promise<string | null> {
+    await this.ready();
+    const namespace = namespaceOf(request.identifier);
+    if (!namespace) {
+      throw new Error(`Notification identifier "${request.identifier}" has no namespace`);
+    }
+
+    const pillar = request.pillar || null;
+    if (!allowedBySettings(this.settings, namespace, pillar)) {
+      await this.cancel(request.identifier);
+      return null;
+    }
+    if (!(await this.hasPermissions())) return null;
+
+    const timing = request.ignoreQuietHours
+      ? request.timing
+      : placeOutsideQuietHours(request.timing, this.settings.quietHours, now);
+    if (timing.kind === 'at' && new Date(timing.date!).getTime() <= now.getTime()) return null;
+
+    try {
+      await Notifications.scheduleNotificationAsync({
+        identifier: request.identifier,
+        content: {
+          title: request.title,
+          body: request.body,
+          data: { ...(request.data || {}), namespace, pillar },
+          sound: this.settings.soundEnabled,
+          categoryIdentifier: CHANNEL_ID,
+        },
+        trigger: this.triggerFor(timing),
+      });
+    } catch (error) {
+      console.error(`Error scheduling notification ${request.identifier}:`, error);
+      return null;
+    }
+
+    // Immediate notifications are gone as soon as they're shown; nothing to track
+    if (timing.kind !== 'now') {
+      await this.remember({
+        identifier: request.identifier,
+        namespace,
+        title: request.title,
+        body: request.body,
+        reason: request.reason,
+        pillar,
+        timing,
+        data: request.data || {},
+        scheduledAt: now.toISOString()
+      });
+    }
+    return request.identifier;
+  }
+
+  async cancel(identifier: string): Promise<void> {
+    await this.cancelIdentifiers([identifier]);
+  }
+
+  async cancelNamespace(namespace: NotificationNamespace): Promise<void> {
+    const scheduled = await this.scheduledIdentifiers();
+    await this.cancelIdentifiers([
+      ...scheduled.filter(identifier => namespaceOf(identifier) === namespace),
+      ...this.registry.filter(record => record.namespace === namespace).map(record => record.identifier)
+    ]);
+  }
+
+  /**
+   * Everything still to come, soonest first, with why it was scheduled.
+   * Entries for notifications that have already been shown are dropped.
+   */
+  async getUpcoming(now: Date = new Date()): Promise<UpcomingNotification[]> {
+    await this.ready();
+    const scheduled = new Set(await this.scheduledIdentifiers());
+    const live = this.registry.filter(record => scheduled.has(record.identifier));
+    if (live.length !== this.registry.length) {
+      this.registry = live;
+      await this.saveRegistry();
+    }
+    return upcomingNotifications(this.registry, now);
+  }
+
+  async sendAchievement(achievement: string, pillar?: string): Promise<void> {
+    const emoji = PILLAR_EMOJIS[pillar as keyof typeof PILLAR_EMOJIS] || PILLAR_EMOJIS.overall;
+    await this.schedule({
+      identifier: notificationId('achievement', Date.now()),
+      title: `${emoji} Neural Achievement Unlocked!`,
+      body: `Outstanding! You've mastered: ${achievement}. Your optimization journey is inspiring!`,
+      reason: `Achievement unlocked: ${achievement}`,
+      timing: { kind: 'now' },
+      pillar: isPillar(pillar) ? pillar : null,
+      data: { type: 'achievement', achievement }
+    });
+  }
+
+  // Progress on coaching sessions and recommendations the user is working through
+  async sendInsightUpdate(title: string, body: string, pillar?: string): Promise<void> {
+    const emoji = PILLAR_EMOJIS[pillar as keyof typeof PILLAR_EMOJIS] || '⚡';
+    await this.schedule({
+      identifier: notificationId('insight', Date.now()),
+      title: `${emoji} ${title}`,
+      body,
+      reason: title,
+      timing: { kind: 'now' },
+      pillar: isPillar(pillar) ? pillar : null,
+      data: { type: 'insight' }
+    });
+  }
+
+  async sendStreakBroken(previous: number): Promise<void> {
+    await this.schedule({
+      identifier: notificationId('streak', 'broken'),
+      title: '🌱 Start a new streak today',
+      body: `Your ${previous}-day streak has ended. One short session is all it takes to begin again.`,
+      reason: `A ${previous}-day streak ended`,
+      timing: { kind: 'now' },
+      data: { type: 'streak_broken', previous }
+    });
+  }
+
+  async sendTestNotification(): Promise<void> {
+    await this.schedule({
+      identifier: notificationId('test', 'preview'),
+      title: '🧪 Test Notification',
+      body: 'This is how your 5 Pillars notifications will appear.',
+      reason: 'Sent from notification settings',
+      timing: { kind: 'now' },
+      data: { type: 'test' },
+      ignoreQuietHours: true
+    });
+  }
+
+  /**
+   * The earliest reminder time for a day, learned from completed sessions.
+   * Until there's enough history it falls back to a time set by hand, then the
+   * reminder time from notification settings.
+   */
+  async getOptimalNotificationTime(date: Date = new Date()): Promise<{ hour: number; minute: number; learned: boolean }> {
+    const settings = await this.getSettings();
+    const learned = earliestReminderMinute(learnPracticeWindows(this.sessions, date), settings, date.getDay());
+    if (learned !== null) {
+      return { hour: Math.floor(learned / 60), minute: learned % 60, learned: true };
+    }
+
+    const fallback = await this.getFallbackMinute(settings);
+    return { hour: Math.floor(fallback / 60), minute: fallback % 60, learned: false };
+  }
+
+  /**
+   * Learn from the full session history and plan reminders from it.
+   * Call once the app's data has loaded.
+   */
+  async train(sessions: SessionData[], goals: DailyGoalTargets = DEFAULT_GOALS): Promise<PlannedReminder[]> {
+    this.sessions = sessions;
+    this.goals = goals;
+    this.listenForResponses();
+    return this.rescheduleReminders();
+  }
+
+  // A completed session can shift the learned windows and settle today's reminders
+  async recordSession(session: SessionData): Promise<PlannedReminder[]> {
+    this.sessions = [...this.sessions.filter(existing => existing.id !== session.id), session];
+    return this.rescheduleReminders();
+  }
+
+  async clear(): Promise<void> {
+    this.sessions = [];
+    try {
+      await AsyncStorage.removeItem(ADAPTIVE_REMINDERS_KEY);
+    } catch (error) {
+      console.error('Error clearing adaptive reminders:', error);
+    }
+    await this.rescheduleReminders();
+  }
+
+  /**
+   * Replace the practice-time reminders with a fresh plan. Runs one at a time,
+   * and leaves other namespaces alone.
+   */
+  rescheduleReminders(now: Date = new Date()): Promise<PlannedReminder[]> {
+    this.rescheduling = this.rescheduling
+      .catch(() => [])
+      .then(() => this.replan(now));
+    return this.rescheduling;
+  }
+
+  // Recurring notifications follow their toggles; anything scheduled earlier is re-checked
+  private async applySettings(now: Date = new Date()): Promise<void> {
+    await this.ready();
+    for (const record of [...this.registry]) {
+      const placed = placeOutsideQuietHours(record.timing, this.settings.quietHours, now);
+      if (!allowedBySettings(this.settings, record.namespace, record.pillar)) {
+        await this.cancel(record.identifier);
+      } else if (record.namespace !== 'reminder' && JSON.stringify(placed) !== JSON.stringify(record.timing)) {
+        await this.schedule({ ...record, timing: placed }, now);
+      }
+    }
+
+    await this.scheduleWeeklyReport();
+    await this.scheduleDailyWisdom();
+    await this.rescheduleReminders(now);
+  }
+
+  private async scheduleWeeklyReport(): Promise<void> {
+    await this.schedule({
+      identifier: notificationId('weekly', 'progress'),
+      title: '📊 Weekly Neural Progress Report',
+      body: 'Your optimization journey this week has been remarkable! Check your analytics for detailed insights.',
+      reason: 'Weekly reports are on',
+      timing: { kind: 'weekly', weekday: 1, hour: 9, minute: 0 },
+      data: { type: 'weekly-progress' }
+    });
+  }
+
+  private async scheduleDailyWisdom(): Promise<void> {
+    const message = MOTIVATIONAL_MESSAGES[Math.floor(Math.random() * MOTIVATIONAL_MESSAGES.length)];
+    await this.schedule({
+      identifier: notificationId('motivation', 'daily'),
+      title: '✨ Daily Wisdom',
+      body: `${message.sanskrit}\n"${message.translation}"`,
+      reason: 'Motivational quotes are on',
+      timing: { kind: 'daily', hour: 12, minute: 0 },
+      data: { type: 'motivation', message }
+    });
+  }
+
+  private async replan(now: Date): Promise<PlannedReminder[]> {
+    try {
+      const settings = await this.getSettings();
+      const state = await this.loadReminderState();
+      const settled = settleReminders(state.pending, state.engagement, this.sessions, now);
+
+      const planned = planReminders({
+        windows: learnPracticeWindows(this.sessions, now),
+        settings,
+        engagement: settled.engagement,
+        sessions: this.sessions,
+        goals: this.goals,
+        fallbackMinute: await this.getFallbackMinute(settings),
+        now
+      });
+
+      await this.cancelNamespace('reminder');
+      const scheduled: PlannedReminder[] = [];
+      for (const reminder of planned) {
+        const copy = PILLAR_REMINDERS[reminder.target];
+        const identifier = await this.schedule({
+          identifier: reminder.identifier,
+          title: copy.title,
+          body: copy.body,
+          reason: reminder.basis === 'default'
+            ? 'Daily reminder at your chosen time, until practice times are learned'
+            : `You usually start ${reminder.target} practice around now (learned from ${reminder.basis === 'weekday' ? 'this weekday' : 'all your sessions'})`,
+          timing: { kind: 'at', date: reminder.fireAt },
+          pillar: reminder.target === 'all' ? null : reminder.target,
+          data: { type: 'adaptive-reminder', target: reminder.target, fireAt: reminder.fireAt }
+        }, now);
+        if (identifier) scheduled.push(reminder);
+      }
+
+      await this.saveReminderState({
+        engagement: settled.engagement,
+        pending: [
+          ...settled.pending,
+          ...scheduled.map(({ identifier, target, fireAt }) => ({ identifier, target, fireAt }))
+        ]
+      });
+      return scheduled;
+    } catch (error) {
+      console.error('Error scheduling adaptive reminders:', error);
+      return [];
+    }
+  }
+
+  private triggerFor(timing: NotificationTiming): Notifications.NotificationTriggerInput {
+    switch (timing.kind) {
+      case 'at':
+        return { type: Notifications.SchedulableTriggerInputTypes.DATE, date: new Date(timing.date!), channelId: CHANNEL_ID };
+      case 'daily':
+        return { type: Notifications.SchedulableTriggerInputTypes.DAILY, hour: timing.hour!, minute: timing.minute!, channelId: CHANNEL_ID };
+      case 'weekly':
+        // expo-notifications counts weekdays from 1 (Sunday)
+        return {
+          type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+          weekday: timing.weekday! + 1,
+          hour: timing.hour!,
+          minute: timing.minute!,
+          channelId: CHANNEL_ID
+        };
+      default:
+        return null;
+    }
+  }
+
+  private async getFallbackMinute(settings: NotificationSettings): Promise<number> {
+    try {
+      const storedTime = await AsyncStorage.getItem('optimalNotificationTime');
+      if (storedTime) {
+        const { hour, minute } = JSON.parse(storedTime);
+        if (Number.isInteger(hour) && Number.isInteger(minute)) return hour * 60 + minute;
+      }
+    } catch (error) {
+      console.error('Error getting optimal notification time:', error);
+    }
+    return timeToMinutes(settings.dailyTime) ?? 9 * 60;
+  }
+
+  /**
+   * Notifications scheduled before everything went through here have bare
+   * identifiers ('daily-reminder', 'motivation-0'); nothing would ever replace or
+   * cancel them, so they go
+   */
+  private async removeUnnamespaced(): Promise<void> {
+    const scheduled = await this.scheduledIdentifiers();
+    await this.cancelIdentifiers(scheduled.filter(identifier => !namespaceOf(identifier)));
+  }
+
+  private async scheduledIdentifiers(): Promise<string[]> {
+    try {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      return scheduled.map(notification => notification.identifier);
+    } catch (error) {
+      console.error('Error getting scheduled notifications:', error);
+      return [];
+    }
+  }
+
+  private async cancelIdentifiers(identifiers: string[]): Promise<void> {
+    const unique = Array.from(new Set(identifiers));
+    if (unique.length === 0) return;
+
+    try {
+      await Promise.all(unique.map(identifier => Notifications.cancelScheduledNotificationAsync(identifier)));
+    } catch (error) {
+      console.error('Error cancelling notifications:', error);
+    }
+    await this.forget(unique);
+  }
+
+  // Opening a practice reminder counts as acting on it, which resets its back-off
+  private listenForResponses(): void {
+    if (this.responseSubscription) return;
+    this.responseSubscription = Notifications.addNotificationResponseReceivedListener(response => {
+      const data = response.notification.request.content.data as { type?: string; target?: string } | undefined;
+      if (data?.type !== 'adaptive-reminder' || !data.target) return;
+      const target = data.target as ReminderTarget;
+      if (target !== 'all' && !isPillar(target)) return;
+
+      this.loadReminderState()
+        .then(state => this.saveReminderState({
+          ...state,
+          engagement: {
+            ...state.engagement,
+            [target]: { ...(state.engagement[target] || EMPTY_ENGAGEMENT), ignored: 0, lastOpenedAt: new Date().toISOString() }
+          }
+        }))
+        .catch(error => console.error('Error recording reminder response:', error));
+    });
+  }
+
+  private async remember(record: NotificationRecord): Promise<void> {
+    this.registry = [...this.registry.filter(existing => existing.identifier !== record.identifier), record];
+    await this.saveRegistry();
+  }
+
+  private async forget(identifiers: string[]): Promise<void> {
+    const remaining = this.registry.filter(record => !identifiers.includes(record.identifier));
+    if (remaining.length === this.registry.length) return;
+    this.registry = remaining;
+    await this.saveRegistry();
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(NOTIFICATION_SETTINGS_KEY);
+      if (stored) {
+        this.settings = normalizeNotificationSettings(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.error('Error loading notification settings:', error);
+    }
+  }
+
+  private async loadRegistry(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(NOTIFICATION_REGISTRY_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      this.registry = Array.isArray(parsed)
+        ? parsed.filter(record => record && typeof record.identifier === 'string' && namespaceOf(record.identifier))
+        : [];
+    } catch (error) {
+      console.error('Error loading notification registry:', error);
+    }
+  }
+
+  private async saveRegistry(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(NOTIFICATION_REGISTRY_KEY, JSON.stringify(this.registry));
+    } catch (error) {
+      console.error('Error saving notification registry:', error);
+    }
+  }
+
+  private async loadReminderState(): Promise<AdaptiveReminderState> {
+    try {
+      const stored = await AsyncStorage.getItem(ADAPTIVE_REMINDERS_KEY);
+      const parsed = stored ? JSON.parse(stored) : null;
+      if (parsed && Array.isArray(parsed.pending) && parsed.engagement && typeof parsed.engagement === 'object') {
+        return parsed;
+      }
+    } catch (error) {
+      console.error('Error loading adaptive reminders:', error);
+    }
+    return { engagement: {}, pending: [] };
+  }
+
+  private async saveReminderState(state: AdaptiveReminderState): Promise<void> {
+    try {
+      await AsyncStorage.setItem(ADAPTIVE_REMINDERS_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('Error saving adaptive reminders:', error);
+    }
+  }
+}
+
+export default NotificationOrchestrator;
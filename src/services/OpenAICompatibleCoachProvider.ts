@@ -0,0 +1,197 @@
+// src/services/OpenAICompatibleCoachProvider.ts - COACH REPLIES FROM ANY OPENAI-STYLE CHAT ENDPOINT
+import { CoachCompletionRequest, CoachPartialHandler, CoachProvider } from './CoachProvider';
+
+export interface OpenAICompatibleCoachOptions {
+  baseUrl: string; // up to and including the version, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string; // local servers usually need none
+  stream?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number; // without any response data
+}
+
+interface ServerSentEvents {
+  events: string[];
+  rest: string; // an incomplete event still waiting for more data
+}
+
+/**
+ * Split a text/event-stream buffer into complete `data:` payloads
+ */
+export const parseServerSentEvents = (buffer: string): ServerSentEvents => {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+  const events = blocks
+    .map(block =>
+      block
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n')
+    )
+    .filter(Boolean);
+  return { events, rest };
+};
+
+export class OpenAICompatibleCoachProvider implements CoachProvider {
+  readonly id = 'openai-compatible' as const;
+  private options: Required<Omit<OpenAICompatibleCoachOptions, 'apiKey'>> & { apiKey?: string };
+
+  constructor(options: OpenAICompatibleCoachOptions) {
+    this.options = {
+      stream: true,
+      temperature: 0.6,
+      maxTokens: 400,
+      timeoutMs: 30000,
+      ...options,
+      baseUrl: options.baseUrl.replace(/\/+$/, '')
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(this.options.baseUrl && this.options.model);
+  }
+
+  async complete(request: CoachCompletionRequest, onPartial?: CoachPartialHandler): Promise<string> {
+    const body = {
+      model: this.options.model,
+      messages: request.messages,
+      temperature: this.options.temperature,
+      max_tokens: this.options.maxTokens,
+      stream: this.options.stream
+    };
+
+    const reply = this.options.stream
+      ? await this.streamCompletion(body, request.signal, onPartial)
+      : await this.requestCompletion(body, request.signal);
+
+    if (!reply.trim()) {
+      throw new Error('Coach endpoint returned an empty reply');
+    }
+    return reply.trim();
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {})
+    };
+  }
+
+  private async requestCompletion(body: object, signal?: AbortSignal): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    try {
+      const response = await fetch(`${this.options.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`Coach endpoint responded with ${response.status}`);
+      }
+      const json = await response.json();
+      return json?.choices?.[0]?.message?.content || '';
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * React Native's fetch can't read a body incrementally, but XMLHttpRequest reports
+   * progress with the text received so far, which is enough to follow an event stream
+   */
+  private streamCompletion(body: object, signal?: AbortSignal, onPartial?: CoachPartialHandler): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      let consumed = 0;
+      let pending = '';
+      let reply = '';
+      let settled = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+        if (error) reject(error);
+        else resolve(reply);
+      };
+      const abort = () => {
+        xhr.abort();
+        finish(new Error('Coach reply cancelled'));
+      };
+      const armTimeout = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          xhr.abort();
+          finish(new Error('Coach endpoint timed out'));
+        }, this.options.timeoutMs);
+      };
+
+      const handleEvents = (events: string[]) => {
+        events.forEach(event => {
+          if (event === '[DONE]') return;
+          try {
+            const delta = JSON.parse(event)?.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string' && delta) {
+              reply += delta;
+              onPartial?.(reply);
+            }
+          } catch (error) {
+            // Keep-alive comments and vendor extensions aren't JSON; skip them
+          }
+        });
+      };
+      const consume = () => {
+        const text = xhr.responseText || '';
+        const { events, rest } = parseServerSentEvents(pending + text.slice(consumed));
+        consumed = text.length;
+        pending = rest;
+        handleEvents(events);
+      };
+
+      xhr.open('POST', `${this.options.baseUrl}/chat/completions`);
+      Object.entries(this.headers()).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+
+      xhr.onprogress = () => {
+        armTimeout();
+        if (xhr.status >= 200 && xhr.status < 300) consume();
+      };
+      xhr.onload = () => {
+        if (xhr.status < 200 || xhr.status >= 300) {
+          finish(new Error(`Coach endpoint responded with ${xhr.status}`));
+          return;
+        }
+        consume();
+        // The last event may arrive without its closing blank line
+        if (pending.trim()) handleEvents(parseServerSentEvents(`${pending}\n\n`).events);
+        // Servers that ignore `stream` answer with a single JSON completion
+        if (!reply && (xhr.responseText || '').trimStart().startsWith('{')) {
+          try {
+            reply = JSON.parse(xhr.responseText)?.choices?.[0]?.message?.content || '';
+            if (reply) onPartial?.(reply);
+          } catch (error) {
+            // Not a completion either; the empty reply is reported by complete()
+          }
+        }
+        finish();
+      };
+      xhr.onerror = () => finish(new Error('Coach endpoint could not be reached'));
+
+      signal?.addEventListener('abort', abort);
+      armTimeout();
+      xhr.send(JSON.stringify(body));
+    });
+  }
+}
+
+export default OpenAICompatibleCoachProvider;
@@ -1,140 +0,0 @@
-// src/services/OptimizedAIEngine.ts - COMPLETE OPTIMIZED AI ENGINE
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-interface UserData {
-  pillarScores: {
-    body: number[];
-    mind: number[];
-    heart: number[];
-    spirit: number[];
-    diet: number[];
-  };
-  sessionTimes: string[];
-  sessionDurations: number[];
-  mood: number[];
-  energy: number[];
-  sleep: number[];
-  timestamps: string[];
-}
-
-interface Recommendation {
-  id: string;
-  type: 'optimization' | 'timing' | 'focus' | 'balance' | 'habit';
-  priority: 'critical' | 'high' | 'medium' | 'low';
-  title: string;
-  description: string;
-  pillar: 'body' | 'mind' | 'heart' | 'spirit' | 'diet' | 'overall';
-  actionPlan: string[];
-  expectedImpact: number;
-  confidence: number;
-  timeframe: string;
-  category: string;
-}
-
-class OptimizedAIEngine {
-  private userData: UserData = {
-    pillarScores: { body: [], mind: [], heart: [], spirit: [], diet: [] },
-    sessionTimes: [],
-    sessionDurations: [],
-    mood: [],
-    energy: [],
-    sleep: [],
-    timestamps: []
-  };
-
-  async initialize() {
-    await this.loadUserData();
-  }
-
-  private async loadUserData() {
-    try {
-      const storedData = await AsyncStorage.getItem('neuralOptimizationData');
-      if (storedData) {
-        this.userData = JSON.parse(storedData);
-      } else {
-        this.userData = this.generateSampleData();
-        await this.saveUserData();
-      }
-    } catch (error) {
-      console.error('Error loading user data:', error);
-      this.userData = this.generateSampleData();
-    }
-  }
-
-  private async saveUserData() {
-    try {
-      await AsyncStorage.setItem('neuralOptimizationData', JSON.stringify(this.userData));
-    } catch (error) {
-      console.error('Error saving user data:', error);
-    }
-  }
-
-  async generateRecommendations(): Promise<Recommendation[]> {
-    await this.loadUserData();
-    
-    const recommendations: Recommendation[] = [];
-    
-    // Generate sample recommendations for each pillar
-    const pillars = ['body', 'mind', 'heart', 'spirit', 'diet'] as const;
-    
-    pillars.forEach(pillar => {
-      recommendations.push({
-        id: `${pillar}_optimization_${Date.now()}`,
-        type: 'optimization',
-        priority: 'high',
-        title: `Enhance ${pillar.toUpperCase()} Performance`,
-        description: `Your ${pillar} pillar shows potential for growth through targeted optimization techniques.`,
-        pillar: pillar,
-        actionPlan: [
-          `Focus on daily ${pillar} exercises`,
-          `Track progress consistently`,
-          `Adjust based on results`,
-          `Maintain consistency`
-        ],
-        expectedImpact: Math.floor(Math.random() * 20 + 10),
-        confidence: 0.85,
-        timeframe: '2-3 weeks',
-        category: `${pillar.charAt(0).toUpperCase() + pillar.slice(1)} Enhancement`
-      });
-    });
-
-    return recommendations.slice(0, 5);
-  }
-
-  private generateSampleData(): UserData {
-    const days = 30;
-    const data: UserData = {
-      pillarScores: { body: [], mind: [], heart: [], spirit: [], diet: [] },
-      sessionTimes: [],
-      sessionDurations: [],
-      mood: [],
-      energy: [],
-      sleep: [],
-      timestamps: []
-    };
-
-    for (let i = 0; i < days; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      data.timestamps.push(date.toISOString());
-      data.pillarScores.body.push(Math.floor(Math.random() * 30 + 70));
-      data.pillarScores.mind.push(Math.floor(Math.random() * 25 + 75));
-      data.pillarScores.heart.push(Math.floor(Math.random() * 35 + 65));
-      data.pillarScores.spirit.push(Math.floor(Math.random() * 28 + 72));
-      data.pillarScores.diet.push(Math.floor(Math.random() * 32 + 68));
-      
-      data.mood.push(Math.floor(Math.random() * 10 + 1));
-      data.energy.push(Math.floor(Math.random() * 10 + 1));
-      data.sleep.push(Math.floor(Math.random() * 3 + 6));
-      
-      const hour = Math.floor(Math.random() * 12 + 7);
-      data.sessionTimes.push(`${hour}:${Math.floor(Math.random() * 60)}`);
-      data.sessionDurations.push(Math.floor(Math.random() * 45 + 15));
-    }
-
-    return data;
-  }
-}
-
-export default new OptimizedAIEngine();
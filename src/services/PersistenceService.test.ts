@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import PersistenceService, { CURRENT_SCHEMA_VERSION, STORAGE_KEYS } from './PersistenceService';
+
+const session = (overrides: Record<string, any> = {}) => ({
+  id: 'session_1',
+  pillar: 'body',
+  type: 'exercise',
+  duration: 20,
+  date: '2026-10-01T08:00:00.000Z',
+  score: 80,
+  mood: 'good',
+  ...overrides
+});
+
+const stored = async (key: string) => JSON.parse((await AsyncStorage.getItem(key))!);
+
+describe('PersistenceService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('migrations', () => {
+    it('lifts unversioned data to the current schema and writes it back', async () => {
+      await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify([
+        { pillar: 'Body', type: 'exercise', duration: 20, date: '2026-10-01T08:00:00.000Z', score: 80, mood: 'great' }
+      ]));
+      await AsyncStorage.setItem(STORAGE_KEYS.PILLAR_SCORES, JSON.stringify({ Body: 10, Mind: 0, Heart: 0, Spirit: 0, Diet: 0 }));
+
+      const result = await PersistenceService.load();
+
+      expect(result.migratedFrom).toBe(0);
+      expect(result.quarantined).toEqual([]);
+      expect(result.data.sessions).toEqual([expect.objectContaining({
+        id: `session_legacy_0_${new Date('2026-10-01T08:00:00.000Z').getTime()}`,
+        pillar: 'body',
+        mood: 'okay'
+      })]);
+      expect(result.data.pillarScores.body).toBe(10);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe(String(CURRENT_SCHEMA_VERSION));
+      expect(await stored(STORAGE_KEYS.SESSIONS)).toEqual(result.data.sessions);
+    });
+
+    it('leaves data from a newer app untouched and never lowers its schema version', async () => {
+      const newer = String(CURRENT_SCHEMA_VERSION + 1);
+      const sessions = [session(), session({ id: 'session_2', type: 'future-type' })];
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, newer);
+      await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+
+      const result = await PersistenceService.load();
+
+      expect(result.data.sessions.map(s => s.id)).toEqual(['session_1']);
+      expect(result.schemaVersion).toBe(CURRENT_SCHEMA_VERSION + 1);
+      expect(await stored(STORAGE_KEYS.SESSIONS)).toEqual(sessions);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.QUARANTINE)).toBeNull();
+
+      await PersistenceService.persist(result.data);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe(newer);
+    });
+
+    it('refuses later writes that would drop records a newer app wrote', async () => {
+      const sessions = [session(), session({ id: 'session_2', type: 'future-type' })];
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION + 1));
+      await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+
+      const result = await PersistenceService.load();
+      expect(PersistenceService.isReadOnly()).toBe(true);
+
+      await PersistenceService.saveCollection('sessions', [...result.data.sessions, { ...result.data.sessions[0], id: 'session_3' }]);
+      await PersistenceService.persist(result.data);
+      expect(await stored(STORAGE_KEYS.SESSIONS)).toEqual(sessions);
+
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION));
+      await PersistenceService.load();
+      await PersistenceService.saveCollection('sessions', []);
+      expect(await stored(STORAGE_KEYS.SESSIONS)).toEqual([]);
+    });
+  });
+
+  describe('quarantine', () => {
+    it('moves malformed records aside and keeps the valid ones', async () => {
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION));
+      await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify([session(), session({ id: 'bad', duration: -5 })]));
+      await AsyncStorage.setItem(STORAGE_KEYS.ACHIEVEMENTS, '{not json');
+
+      const result = await PersistenceService.load();
+
+      expect(result.data.sessions.map(s => s.id)).toEqual(['session_1']);
+      expect(result.quarantined.map(record => [record.collection, record.reason])).toEqual([
+        ['achievements', 'unparseable JSON'],
+        ['sessions', 'session.duration is invalid']
+      ]);
+      expect(await PersistenceService.getQuarantinedRecords()).toEqual(result.quarantined);
+      expect((await stored(STORAGE_KEYS.SESSIONS)).map((s: any) => s.id)).toEqual(['session_1']);
+    });
+
+    it('keeps every record already in quarantine', async () => {
+      const existing = Array.from({ length: 150 }, (_, index) => ({ id: `old_${index}` }));
+      await AsyncStorage.setItem(STORAGE_KEYS.QUARANTINE, JSON.stringify(existing));
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION));
+      await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify([session({ id: 'bad', score: 'high' })]));
+
+      await PersistenceService.load();
+
+      const quarantined = await PersistenceService.getQuarantinedRecords();
+      expect(quarantined).toHaveLength(151);
+      expect(quarantined[0].record.id).toBe('bad');
+    });
+
+    it('does not rewrite stored data when the quarantine cannot be saved', async () => {
+      const sessions = [session(), session({ id: 'bad', mood: 42 })];
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION));
+      await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+      await AsyncStorage.setItem(STORAGE_KEYS.QUARANTINE, 'corrupt');
+
+      const result = await PersistenceService.load();
+
+      expect(result.data.sessions.map(s => s.id)).toEqual(['session_1']);
+      expect(await stored(STORAGE_KEYS.SESSIONS)).toEqual(sessions);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.QUARANTINE)).toBe('corrupt');
+    });
+  });
+});
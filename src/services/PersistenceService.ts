@@ -0,0 +1,542 @@
+// src/services/PersistenceService.ts - VERSIONED PERSISTENCE WITH SCHEMA MIGRATIONS
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {
+  UserProfile,
+  SessionData,
+  Achievement,
+  AIInsight,
+  PillarProgress,
+  CheckIn,
+  MealEntry,
+  Measurement,
+  RecommendationFeedback,
+  CoachingPlan
+} from '../context/AppDataContext';
+import { MEASUREMENT_DEFINITIONS } from '../utils/measurements';
+
+// Storage Keys
+export const STORAGE_KEYS = {
+  USER_PROFILE: 'user_profile',
+  SESSIONS: 'sessions',
+  ACHIEVEMENTS: 'achievements',
+  PILLAR_SCORES: 'pillar_scores',
+  AI_INSIGHTS: 'ai_insights',
+  CHECK_INS: 'check_ins',
+  NUTRITION_LOG: 'nutrition_log',
+  MEASUREMENTS: 'measurements',
+  RECOMMENDATION_FEEDBACK: 'recommendation_feedback',
+  COACHING_PLANS: 'coaching_plans',
+  APP_STATE: 'app_state',
+  SCHEMA_VERSION: 'schema_version',
+  LAST_SYNC_DATE: 'last_sync_date',
+  QUARANTINE: 'quarantined_records'
+};
+
+/**
+ * Bump this whenever a persisted shape changes and append a matching
+ * entry to MIGRATIONS below.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export const PILLAR_KEYS: (keyof PillarProgress)[] = ['body', 'mind', 'heart', 'spirit', 'diet'];
+
+const SESSION_TYPES: SessionData['type'][] = ['meditation', 'exercise', 'practice', 'checkin'];
+const SESSION_MOODS: SessionData['mood'][] = ['excellent', 'good', 'okay', 'low'];
+const RARITIES: Achievement['rarity'][] = ['common', 'rare', 'epic', 'legendary'];
+const PRIORITIES: AIInsight['priority'][] = ['low', 'medium', 'high'];
+const CHECK_IN_SLOTS: CheckIn['slot'][] = ['morning', 'evening'];
+const MEAL_TYPES: MealEntry['mealType'][] = ['breakfast', 'lunch', 'dinner', 'snack'];
+const FEEDBACK_STATUSES: RecommendationFeedback['status'][] = ['accepted', 'snoozed', 'dismissed', 'completed'];
+const PLAN_STATUSES: CoachingPlan['status'][] = ['active', 'completed', 'abandoned'];
+
+// As stored. Collections are only checked against these types after migrating and validating.
+export interface PersistedData {
+  userProfile: UserProfile | null;
+  sessions: SessionData[];
+  achievements: Achievement[];
+  pillarScores: PillarProgress | null;
+  aiInsights: AIInsight[];
+  checkIns: CheckIn[];
+  meals: MealEntry[];
+  measurements: Measurement[];
+  recommendationFeedback: RecommendationFeedback[];
+  coachingPlans: CoachingPlan[];
+}
+
+export interface LoadedData {
+  userProfile: UserProfile | null;
+  sessions: SessionData[];
+  achievements: Achievement[];
+  pillarScores: PillarProgress;
+  aiInsights: AIInsight[];
+  checkIns: CheckIn[];
+  meals: MealEntry[];
+  measurements: Measurement[];
+  recommendationFeedback: RecommendationFeedback[];
+  coachingPlans: CoachingPlan[];
+}
+
+export type PersistedCollection = keyof PersistedData;
+
+export interface QuarantinedRecord {
+  id: string;
+  collection: PersistedCollection;
+  record: any;
+  reason: string;
+  schemaVersion: number;
+  quarantinedAt: string;
+}
+
+export interface LoadResult {
+  data: LoadedData;
+  quarantined: QuarantinedRecord[];
+  migratedFrom: number;
+  schemaVersion: number;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: PersistedData) => PersistedData;
+}
+
+const COLLECTION_KEYS: Record<PersistedCollection, string> = {
+  userProfile: STORAGE_KEYS.USER_PROFILE,
+  sessions: STORAGE_KEYS.SESSIONS,
+  achievements: STORAGE_KEYS.ACHIEVEMENTS,
+  pillarScores: STORAGE_KEYS.PILLAR_SCORES,
+  aiInsights: STORAGE_KEYS.AI_INSIGHTS,
+  checkIns: STORAGE_KEYS.CHECK_INS,
+  meals: STORAGE_KEYS.NUTRITION_LOG,
+  measurements: STORAGE_KEYS.MEASUREMENTS,
+  recommendationFeedback: STORAGE_KEYS.RECOMMENDATION_FEEDBACK,
+  coachingPlans: STORAGE_KEYS.COACHING_PLANS
+};
+
+const EMPTY_SCORES: PillarProgress = { body: 0, mind: 0, heart: 0, spirit: 0, diet: 0 };
+
+// Helper Functions
+const isObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isString = (value: any): boolean => typeof value === 'string';
+
+const isFiniteNumber = (value: any): boolean => typeof value === 'number' && isFinite(value);
+
+const isDateString = (value: any): boolean => isString(value) && !isNaN(new Date(value).getTime());
+
+const parseVersion = (stored: string | null): number => (stored ? parseInt(stored, 10) || 0 : 0);
+
+const isDayKey = (value: any): boolean => isString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const ensureArray = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+const normalizePillar = (pillar: any): any => (isString(pillar) ? pillar.toLowerCase() : pillar);
+
+/**
+ * Coerce a session into the current shape (lowercase pillar, known mood).
+ * Applied by migration v2 and on every new session write.
+ */
+export const normalizeSession = <T extends { pillar?: any; mood?: any }>(session: T): T => ({
+  ...session,
+  pillar: normalizePillar(session.pillar),
+  mood: SESSION_MOODS.includes(session.mood) ? session.mood : 'okay'
+});
+
+// Migrations - ordered, each one lifts data from `version - 1` to `version`
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Give legacy records stable ids',
+    migrate: (data) => ({
+      ...data,
+      sessions: ensureArray(data.sessions).map((session, index) =>
+        isObject(session) && !session.id
+          ? { ...session, id: `session_legacy_${index}_${new Date(session.date).getTime() || 0}` }
+          : session
+      ),
+      achievements: ensureArray(data.achievements).map((achievement, index) =>
+        isObject(achievement) && !achievement.id
+          ? { ...achievement, id: `achievement_legacy_${index}` }
+          : achievement
+      ),
+      aiInsights: ensureArray(data.aiInsights).map((insight, index) =>
+        isObject(insight) && !insight.id
+          ? { ...insight, id: `insight_legacy_${index}` }
+          : insight
+      )
+    })
+  },
+  {
+    version: 2,
+    description: 'Lowercase pillar keys and map unknown session moods to okay',
+    migrate: (data) => ({
+      ...data,
+      sessions: ensureArray(data.sessions).map(session =>
+        isObject(session) ? normalizeSession(session) : session
+      ),
+      achievements: ensureArray(data.achievements).map(achievement =>
+        isObject(achievement) ? { ...achievement, pillar: normalizePillar(achievement.pillar) } : achievement
+      ),
+      aiInsights: ensureArray(data.aiInsights).map(insight =>
+        isObject(insight) ? { ...insight, pillar: normalizePillar(insight.pillar) } : insight
+      ),
+      pillarScores: isObject(data.pillarScores)
+        ? Object.keys(data.pillarScores).reduce((scores, key) => {
+            scores[key.toLowerCase() as keyof PillarProgress] = data.pillarScores![key as keyof PillarProgress];
+            return scores;
+          }, {} as PillarProgress)
+        : data.pillarScores
+    })
+  }
+];
+
+// Validators - return a reason string when the record does not match the current types
+const validateUserProfile = (profile: any): string | null => {
+  if (!isObject(profile)) return 'profile is not an object';
+  if (!isString(profile.id) || !profile.id) return 'profile.id missing';
+  if (!isString(profile.name)) return 'profile.name missing';
+  if (!isFiniteNumber(profile.level)) return 'profile.level is not a number';
+  if (!isFiniteNumber(profile.totalSessions)) return 'profile.totalSessions is not a number';
+  if (!isDateString(profile.joinDate)) return 'profile.joinDate is not a date';
+  if (!isObject(profile.preferences)) return 'profile.preferences missing';
+  if (!isObject(profile.stats)) return 'profile.stats missing';
+  return null;
+};
+
+const validateSession = (session: any): string | null => {
+  if (!isObject(session)) return 'session is not an object';
+  if (!isString(session.id) || !session.id) return 'session.id missing';
+  if (!isString(session.pillar) || !session.pillar) return 'session.pillar missing';
+  if (!SESSION_TYPES.includes(session.type)) return `session.type "${session.type}" is unknown`;
+  if (!isFiniteNumber(session.duration) || session.duration < 0) return 'session.duration is invalid';
+  if (!isDateString(session.date)) return 'session.date is not a date';
+  if (!isFiniteNumber(session.score)) return 'session.score is not a number';
+  if (!SESSION_MOODS.includes(session.mood)) return `session.mood "${session.mood}" is unknown`;
+  return null;
+};
+
+const validateAchievement = (achievement: any): string | null => {
+  if (!isObject(achievement)) return 'achievement is not an object';
+  if (!isString(achievement.id) || !achievement.id) return 'achievement.id missing';
+  if (!isString(achievement.title) || !achievement.title) return 'achievement.title missing';
+  if (!RARITIES.includes(achievement.rarity)) return `achievement.rarity "${achievement.rarity}" is unknown`;
+  if (!isDateString(achievement.unlockedDate)) return 'achievement.unlockedDate is not a date';
+  return null;
+};
+
+const validateInsight = (insight: any): string | null => {
+  if (!isObject(insight)) return 'insight is not an object';
+  if (!isString(insight.id) || !insight.id) return 'insight.id missing';
+  if (!isString(insight.title)) return 'insight.title missing';
+  if (!PRIORITIES.includes(insight.priority)) return `insight.priority "${insight.priority}" is unknown`;
+  if (!Array.isArray(insight.actionPlan)) return 'insight.actionPlan is not an array';
+  if (!isDateString(insight.dateGenerated)) return 'insight.dateGenerated is not a date';
+  return null;
+};
+
+const validateCheckIn = (checkIn: any): string | null => {
+  if (!isObject(checkIn)) return 'check-in is not an object';
+  if (!isString(checkIn.id) || !checkIn.id) return 'checkIn.id missing';
+  if (!isDayKey(checkIn.day)) return 'checkIn.day is not a yyyy-MM-dd key';
+  if (!CHECK_IN_SLOTS.includes(checkIn.slot)) return `checkIn.slot "${checkIn.slot}" is unknown`;
+  const invalid = ['mood', 'energy', 'stress'].filter(key => !isFiniteNumber(checkIn[key]));
+  if (invalid.length > 0) return `checkIn ${invalid.join(', ')} not a number`;
+  if (!Array.isArray(checkIn.gratitude)) return 'checkIn.gratitude is not an array';
+  if (!Array.isArray(checkIn.pillarFocus)) return 'checkIn.pillarFocus is not an array';
+  if (!isDateString(checkIn.updatedAt)) return 'checkIn.updatedAt is not a date';
+  return null;
+};
+
+const validateMeal = (meal: any): string | null => {
+  if (!isObject(meal)) return 'meal is not an object';
+  if (!isString(meal.id) || !meal.id) return 'meal.id missing';
+  if (!isDayKey(meal.day)) return 'meal.day is not a yyyy-MM-dd key';
+  if (!isDateString(meal.date)) return 'meal.date is not a date';
+  if (!MEAL_TYPES.includes(meal.mealType)) return `meal.mealType "${meal.mealType}" is unknown`;
+  if (!Array.isArray(meal.items)) return 'meal.items is not an array';
+  if (!meal.items.every((item: any) => isObject(item) && isString(item.foodId) && isFiniteNumber(item.servings))) {
+    return 'meal.items has an invalid item';
+  }
+  if (!isDateString(meal.updatedAt)) return 'meal.updatedAt is not a date';
+  return null;
+};
+
+const validateMeasurement = (measurement: any): string | null => {
+  if (!isObject(measurement)) return 'measurement is not an object';
+  if (!isString(measurement.id) || !measurement.id) return 'measurement.id missing';
+  const definition = MEASUREMENT_DEFINITIONS[measurement.type];
+  if (!definition) return `measurement.type "${measurement.type}" is unknown`;
+  if (!isDayKey(measurement.day)) return 'measurement.day is not a yyyy-MM-dd key';
+  if (!isDateString(measurement.date)) return 'measurement.date is not a date';
+  if (!isFiniteNumber(measurement.value)) return 'measurement.value is not a number';
+  if (definition.secondary && !isFiniteNumber(measurement.secondaryValue)) return 'measurement.secondaryValue is not a number';
+  if (!definition.units.includes(measurement.unit)) return `measurement.unit "${measurement.unit}" is unknown`;
+  if (!isDateString(measurement.updatedAt)) return 'measurement.updatedAt is not a date';
+  return null;
+};
+
+const validateRecommendationFeedback = (feedback: any): string | null => {
+  if (!isObject(feedback)) return 'feedback is not an object';
+  if (!isString(feedback.id) || !feedback.id) return 'feedback.id missing';
+  if (!isString(feedback.recommendationId) || !feedback.recommendationId) return 'feedback.recommendationId missing';
+  if (!FEEDBACK_STATUSES.includes(feedback.status)) return `feedback.status "${feedback.status}" is unknown`;
+  if (!isFiniteNumber(feedback.baselineScore)) return 'feedback.baselineScore is not a number';
+  if (!Array.isArray(feedback.sessionIds)) return 'feedback.sessionIds is not an array';
+  if (!isDateString(feedback.updatedAt)) return 'feedback.updatedAt is not a date';
+  return null;
+};
+
+const validateCoachingPlan = (plan: any): string | null => {
+  if (!isObject(plan)) return 'plan is not an object';
+  if (!isString(plan.id) || !plan.id) return 'plan.id missing';
+  if (!PLAN_STATUSES.includes(plan.status)) return `plan.status "${plan.status}" is unknown`;
+  if (!isDayKey(plan.startDay) || !isDayKey(plan.endDay)) return 'plan.startDay or plan.endDay is not a yyyy-MM-dd key';
+  if (!Array.isArray(plan.pillars)) return 'plan.pillars is not an array';
+  if (!Array.isArray(plan.tasks)) return 'plan.tasks is not an array';
+  if (!plan.tasks.every((task: any) => isObject(task) && isString(task.id) && isDayKey(task.day) && isFiniteNumber(task.minutes))) {
+    return 'plan.tasks has an invalid task';
+  }
+  if (!Array.isArray(plan.adaptations)) return 'plan.adaptations is not an array';
+  if (!isDateString(plan.updatedAt)) return 'plan.updatedAt is not a date';
+  return null;
+};
+
+const validatePillarScores = (scores: any): string | null => {
+  if (!isObject(scores)) return 'pillar scores is not an object';
+  const invalid = PILLAR_KEYS.filter(key => !isFiniteNumber(scores[key]));
+  return invalid.length > 0 ? `pillar scores missing ${invalid.join(', ')}` : null;
+};
+
+export class PersistenceService {
+  // Set by load when the stored data was written by a newer version of the app
+  private static storedSchemaIsNewer: boolean = false;
+
+  /**
+   * Apply every migration newer than `fromVersion`, in order
+   * @param data - Raw parsed data
+   * @param fromVersion - Schema version the data was written with
+   * @returns PersistedData lifted to CURRENT_SCHEMA_VERSION
+   */
+  static migrate(data: PersistedData, fromVersion: number): PersistedData {
+    return MIGRATIONS
+      .filter(migration => migration.version > fromVersion)
+      .sort((a, b) => a.version - b.version)
+      .reduce((current, migration) => migration.migrate(current), data);
+  }
+
+  /**
+   * Load, migrate and validate all AppDataContext collections.
+   * Malformed records are moved into quarantine instead of being dropped.
+   * @returns Promise<LoadResult>
+   */
+  static async load(): Promise<LoadResult> {
+    const collections = Object.keys(COLLECTION_KEYS) as PersistedCollection[];
+    const [storedVersion, ...rawValues] = await Promise.all([
+      AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION),
+      ...collections.map(collection => AsyncStorage.getItem(COLLECTION_KEYS[collection]))
+    ]);
+
+    const fromVersion = parseVersion(storedVersion);
+    const quarantined: QuarantinedRecord[] = [];
+    const quarantine = (collection: PersistedCollection, record: any, reason: string) => {
+      quarantined.push({
+        id: `quarantine_${Date.now()}_${quarantined.length}`,
+        collection,
+        record,
+        reason,
+        schemaVersion: fromVersion,
+        quarantinedAt: new Date().toISOString()
+      });
+    };
+
+    // Parse each collection independently so one corrupt key doesn't take the others down
+    const parsed = {} as Record<PersistedCollection, any>;
+    collections.forEach((collection, index) => {
+      const value = rawValues[index];
+      if (value === null || value === undefined) {
+        parsed[collection] = collection === 'userProfile' || collection === 'pillarScores' ? null : [];
+        return;
+      }
+      try {
+        parsed[collection] = JSON.parse(value);
+      } catch (error) {
+        quarantine(collection, value, 'unparseable JSON');
+        parsed[collection] = collection === 'userProfile' || collection === 'pillarScores' ? null : [];
+      }
+    });
+    const raw = parsed as PersistedData;
+
+    this.storedSchemaIsNewer = fromVersion > CURRENT_SCHEMA_VERSION;
+    if (this.storedSchemaIsNewer) {
+      console.warn(`⚠️ Stored schema v${fromVersion} is newer than app schema v${CURRENT_SCHEMA_VERSION}, saving is off`);
+    }
+    const migrated = fromVersion < CURRENT_SCHEMA_VERSION ? this.migrate(raw, fromVersion) : raw;
+
+    // Validate against current types
+    const filterValid = <T>(collection: PersistedCollection, records: any, validator: (record: any) => string | null): T[] => {
+      if (records !== null && !Array.isArray(records)) {
+        quarantine(collection, records, `${collection} is not an array`);
+        return [];
+      }
+      return ensureArray(records).filter(record => {
+        const reason = validator(record);
+        if (reason) quarantine(collection, record, reason);
+        return !reason;
+      });
+    };
+
+    let userProfile: UserProfile | null = null;
+    if (migrated.userProfile !== null) {
+      const reason = validateUserProfile(migrated.userProfile);
+      if (reason) {
+        quarantine('userProfile', migrated.userProfile, reason);
+      } else {
+        userProfile = migrated.userProfile;
+      }
+    }
+
+    let pillarScores: PillarProgress = { ...EMPTY_SCORES };
+    if (migrated.pillarScores !== null) {
+      const reason = validatePillarScores(migrated.pillarScores);
+      if (reason) {
+        quarantine('pillarScores', migrated.pillarScores, reason);
+      } else {
+        pillarScores = PILLAR_KEYS.reduce((scores, key) => {
+          scores[key] = migrated.pillarScores[key];
+          return scores;
+        }, { ...EMPTY_SCORES });
+      }
+    }
+
+    const data: LoadedData = {
+      userProfile,
+      sessions: filterValid<SessionData>('sessions', migrated.sessions, validateSession),
+      achievements: filterValid<Achievement>('achievements', migrated.achievements, validateAchievement),
+      pillarScores,
+      aiInsights: filterValid<AIInsight>('aiInsights', migrated.aiInsights, validateInsight),
+      checkIns: filterValid<CheckIn>('checkIns', migrated.checkIns, validateCheckIn),
+      meals: filterValid<MealEntry>('meals', migrated.meals, validateMeal),
+      measurements: filterValid<Measurement>('measurements', migrated.measurements, validateMeasurement),
+      recommendationFeedback: filterValid<RecommendationFeedback>(
+        'recommendationFeedback',
+        migrated.recommendationFeedback,
+        validateRecommendationFeedback
+      ),
+      coachingPlans: filterValid<CoachingPlan>('coachingPlans', migrated.coachingPlans, validateCoachingPlan)
+    };
+
+    // Write back whenever the stored shape changed, but only once the quarantine is safely
+    // stored. Data from a newer app is never rewritten: records this version can't read are
+    // skipped for now and left for the app that wrote them.
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      if (quarantined.length > 0) {
+        console.warn(`⚠️ Skipped ${quarantined.length} record(s) written by a newer version of the app`);
+      }
+    } else if (fromVersion < CURRENT_SCHEMA_VERSION || quarantined.length > 0) {
+      try {
+        if (quarantined.length > 0) {
+          await this.addToQuarantine(quarantined);
+          console.warn(`⚠️ Quarantined ${quarantined.length} malformed record(s)`);
+        }
+        await this.persist(data);
+      } catch (error) {
+        console.error('Error quarantining records, stored data left as it was:', error);
+      }
+    }
+
+    return {
+      data,
+      quarantined,
+      migratedFrom: fromVersion,
+      schemaVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION)
+    };
+  }
+
+  /**
+   * Persist loaded collections together with the current schema version. A newer
+   * stored version is kept, so a newer app still knows which migrations it ran.
+   * @param data - Validated data to write
+   */
+  static async persist(data: LoadedData): Promise<void> {
+    if (this.refuseWrite('app data')) return;
+    const storedVersion = parseVersion(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION));
+    const writes: [string, string][] = [
+      [STORAGE_KEYS.SESSIONS, JSON.stringify(data.sessions)],
+      [STORAGE_KEYS.ACHIEVEMENTS, JSON.stringify(data.achievements)],
+      [STORAGE_KEYS.PILLAR_SCORES, JSON.stringify(data.pillarScores)],
+      [STORAGE_KEYS.AI_INSIGHTS, JSON.stringify(data.aiInsights)],
+      [STORAGE_KEYS.CHECK_INS, JSON.stringify(data.checkIns)],
+      [STORAGE_KEYS.NUTRITION_LOG, JSON.stringify(data.meals)],
+      [STORAGE_KEYS.MEASUREMENTS, JSON.stringify(data.measurements)],
+      [STORAGE_KEYS.RECOMMENDATION_FEEDBACK, JSON.stringify(data.recommendationFeedback)],
+      [STORAGE_KEYS.COACHING_PLANS, JSON.stringify(data.coachingPlans)],
+      [STORAGE_KEYS.SCHEMA_VERSION, String(Math.max(storedVersion, CURRENT_SCHEMA_VERSION))]
+    ];
+    if (data.userProfile) {
+      writes.push([STORAGE_KEYS.USER_PROFILE, JSON.stringify(data.userProfile)]);
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEYS.USER_PROFILE);
+    }
+    await AsyncStorage.multiSet(writes);
+  }
+
+  /**
+   * Save one collection as a whole. Refused while the stored data comes from a newer
+   * app, since this version would drop the records it couldn't read.
+   * @param collection - Collection to write
+   * @param value - Its full, current contents
+   */
+  static async saveCollection<C extends PersistedCollection>(collection: C, value: LoadedData[C]): Promise<void> {
+    if (this.refuseWrite(collection)) return;
+    await AsyncStorage.setItem(COLLECTION_KEYS[collection], JSON.stringify(value));
+  }
+
+  /**
+   * Whether saving is off because the stored data comes from a newer version of the app
+   * @returns boolean
+   */
+  static isReadOnly(): boolean {
+    return this.storedSchemaIsNewer;
+  }
+
+  private static refuseWrite(what: string): boolean {
+    if (this.storedSchemaIsNewer) {
+      console.warn(`⚠️ Not saving ${what}: stored data is from a newer version of the app`);
+    }
+    return this.storedSchemaIsNewer;
+  }
+
+  /**
+   * Get all records currently held in quarantine (newest first)
+   * @returns Promise<QuarantinedRecord[]>
+   */
+  static async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.QUARANTINE);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading quarantined records:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove every quarantined record
+   */
+  static async clearQuarantine(): Promise<void> {
+    await AsyncStorage.removeItem(STORAGE_KEYS.QUARANTINE);
+  }
+
+  // Nothing is trimmed, and a quarantine that can't be read is never overwritten - this throws instead
+  private static async addToQuarantine(records: QuarantinedRecord[]): Promise<void> {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.QUARANTINE);
+    const existing: QuarantinedRecord[] = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(existing)) {
+      throw new Error('Stored quarantine is not a list');
+    }
+    await AsyncStorage.setItem(STORAGE_KEYS.QUARANTINE, JSON.stringify([...records, ...existing]));
+  }
+}
+
+export default PersistenceService;
@@ -0,0 +1,194 @@
+// src/services/RecommendationEngine.ts - ONE RECOMMENDATION PIPELINE FOR EVERY SCREEN
+import {
+  extractRecommendationFeatures,
+  RecommendationFeatures,
+  RecommendationInput
+} from '../utils/recommendationFeatures';
+import type { PillarKey } from '../utils/sessionAnalytics';
+import { RECOMMENDATION_RULES, RECOMMENDATION_SCORERS } from './recommendationRules';
+
+export type RecommendationPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export type RecommendationCategory =
+  | 'getting-started'
+  | 'recovery'
+  | 'focus'
+  | 'consistency'
+  | 'optimization'
+  | 'maintenance'
+  | 'breakthrough'
+  | 'timing'
+  | 'wellbeing';
+
+export const RECOMMENDATION_CATEGORY_LABELS: Record<RecommendationCategory, string> = {
+  'getting-started': 'Getting Started',
+  recovery: 'Recovery',
+  focus: 'Pillar Focus',
+  consistency: 'Consistency',
+  optimization: 'Optimization',
+  maintenance: 'Mastery',
+  breakthrough: 'Breakthrough',
+  timing: 'Timing',
+  wellbeing: 'Wellbeing'
+};
+
+export interface RecommendationSignal {
+  label: string; // e.g. "Mind score"
+  value: string; // e.g. "42, down 1.2/day"
+}
+
+export interface RecommendationExplanation {
+  ruleId: string;
+  reason: string; // why it applies to this user right now
+  basis?: string; // the general rationale behind the advice
+  signals: RecommendationSignal[]; // the features that triggered the rule
+  scores: Record<string, number>; // multiplier each scorer applied, by scorer id
+}
+
+export interface AIRecommendation {
+  id: string;
+  title: string;
+  description: string;
+  pillar: PillarKey | 'overall';
+  priority: RecommendationPriority;
+  category: RecommendationCategory;
+  confidence: number; // 0-1
+  actionPlan: string[];
+  estimatedImpact: number; // expected score points gained
+  timeToResult: string;
+  difficulty: 'easy' | 'moderate' | 'challenging';
+  score: number; // ranking score after every scorer
+  explanation: RecommendationExplanation;
+}
+
+// What a rule proposes; the engine assigns the id and ranks it
+export type RecommendationDraft = Omit<AIRecommendation, 'id' | 'score' | 'explanation'> & {
+  explanation: Omit<RecommendationExplanation, 'ruleId' | 'scores'>;
+};
+
+export interface RecommendationRule {
+  id: string;
+  evaluate: (features: RecommendationFeatures) => RecommendationDraft[];
+}
+
+/**
+ * Scorers rank drafts: each returns a multiplier (1 = no opinion) that is applied to the draft's confidence
+ */
+export interface RecommendationScorer {
+  id: string;
+  score: (draft: RecommendationDraft, features: RecommendationFeatures) => number;
+}
+
+export interface RecommendationOptions {
+  limit?: number;
+  pillar?: PillarKey | 'overall'; // only recommendations for this pillar
+}
+
+export interface RecommendationResult {
+  recommendations: AIRecommendation[];
+  features: RecommendationFeatures;
+}
+
+const DEFAULT_LIMIT = 5;
+
+export class RecommendationEngine {
+  private static instance: RecommendationEngine;
+  private rules: RecommendationRule[] = [...RECOMMENDATION_RULES];
+  private scorers: RecommendationScorer[] = [...RECOMMENDATION_SCORERS];
+
+  public static getInstance(): RecommendationEngine {
+    if (!RecommendationEngine.instance) {
+      RecommendationEngine.instance = new RecommendationEngine();
+    }
+    return RecommendationEngine.instance;
+  }
+
+  /**
+   * Add a rule stage, replacing any rule with the same id
+   * @returns Function that removes it again
+   */
+  addRule(rule: RecommendationRule): () => void {
+    this.rules = [...this.rules.filter(existing => existing.id !== rule.id), rule];
+    return () => {
+      this.rules = this.rules.filter(existing => existing !== rule);
+    };
+  }
+
+  /**
+   * Add a scorer stage, replacing any scorer with the same id
+   * @returns Function that removes it again
+   */
+  addScorer(scorer: RecommendationScorer): () => void {
+    this.scorers = [...this.scorers.filter(existing => existing.id !== scorer.id), scorer];
+    return () => {
+      this.scorers = this.scorers.filter(existing => existing !== scorer);
+    };
+  }
+
+  generate(input: RecommendationInput, options: RecommendationOptions = {}): AIRecommendation[] {
+    return this.analyze(input, options).recommendations;
+  }
+
+  /**
+   * Extract features, run every rule, rank the drafts and keep the best one per pillar and category.
+   * Advice the user dismissed, snoozed or recently completed is left out.
+   */
+  analyze(input: RecommendationInput, options: RecommendationOptions = {}): RecommendationResult {
+    const features = extractRecommendationFeatures(input);
+    const drafts: RecommendationDraft[] = [];
+    const ruleIds: string[] = [];
+
+    this.rules.forEach(rule => {
+      try {
+        rule.evaluate(features).forEach(draft => {
+          drafts.push(draft);
+          ruleIds.push(rule.id);
+        });
+      } catch (error) {
+        console.error(`Recommendation rule "${rule.id}" failed:`, error);
+      }
+    });
+
+    const ranked = drafts
+      .map((draft, index) => this.rank(draft, ruleIds[index], features))
+      .filter(recommendation => !options.pillar || recommendation.pillar === options.pillar)
+      .filter(recommendation => !features.feedback.hiddenIds.includes(recommendation.id))
+      .sort((a, b) => b.score - a.score);
+
+    const seen = new Set<string>();
+    const recommendations = ranked.filter(recommendation => {
+      const key = `${recommendation.pillar}:${recommendation.category}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    return { recommendations: recommendations.slice(0, options.limit ?? DEFAULT_LIMIT), features };
+  }
+
+  private rank(draft: RecommendationDraft, ruleId: string, features: RecommendationFeatures): AIRecommendation {
+    const scores: Record<string, number> = {};
+    let score = draft.confidence;
+
+    this.scorers.forEach(scorer => {
+      try {
+        const multiplier = scorer.score(draft, features);
+        if (!isFinite(multiplier)) return;
+        scores[scorer.id] = Math.round(multiplier * 100) / 100;
+        score *= multiplier;
+      } catch (error) {
+        console.error(`Recommendation scorer "${scorer.id}" failed:`, error);
+      }
+    });
+
+    return {
+      ...draft,
+      // Stable across runs, so feedback and dismissals can refer to it
+      id: `${ruleId}_${draft.pillar}`,
+      score: Math.round(score * 1000) / 1000,
+      explanation: { ...draft.explanation, ruleId, scores }
+    };
+  }
+}
+
+export default RecommendationEngine;
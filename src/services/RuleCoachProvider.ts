@@ -0,0 +1,142 @@
+// src/services/RuleCoachProvider.ts - DETERMINISTIC OFFLINE COACH REPLIES
+import { CoachCompletionRequest, CoachPartialHandler, CoachProvider } from './CoachProvider';
+import type { CoachContext } from '../utils/coachContext';
+import type { CoachMemory } from '../utils/coachMemory';
+import { PillarKey } from '../utils/sessionAnalytics';
+
+export interface RuleCoachOptions {
+  chunkDelayMs?: number; // pause between streamed words; 0 emits the reply at once
+}
+
+interface CoachTopic {
+  id: string;
+  keywords: string[];
+  reply: (context: CoachContext, memory: CoachMemory) => string;
+}
+
+const PILLAR_TIPS: Record<PillarKey, string> = {
+  body: 'A balanced week is three days of strength, two of cardio and two of recovery or yoga - form first, intensity later.',
+  mind: 'Short focused blocks work better than long ones: try 25 minutes of single-tasking followed by a 5-minute break.',
+  heart: 'Try the 4-7-8 breath: in for 4, hold for 7, out for 8. A few rounds settles the nervous system.',
+  spirit: 'Start with 10 minutes of breath-focused mindfulness and lengthen it gradually - regularity matters more than duration.',
+  diet: 'Build meals around dal, seasonal vegetables and whole grains, add leafy greens where you can and cut back on processed food.'
+};
+
+const scoreOf = (context: CoachContext, pillar: PillarKey) =>
+  `your ${pillar} pillar is at ${context.pillarScores[pillar]}%`;
+
+const weekOf = (context: CoachContext, pillar: PillarKey) => {
+  const count = context.sessionsThisWeek[pillar];
+  return count === 0 ? 'with no sessions this week' : `with ${count} session${count === 1 ? '' : 's'} this week`;
+};
+
+const pillarReply = (pillar: PillarKey) => (context: CoachContext) =>
+  `Right now ${scoreOf(context, pillar)}, ${weekOf(context, pillar)}. ${PILLAR_TIPS[pillar]}`;
+
+// Checked in order; the first topic with a matching keyword answers
+const TOPICS: CoachTopic[] = [
+  {
+    id: 'improve',
+    keywords: ['improve', 'better', 'progress', 'next step', 'what should i'],
+    reply: context => {
+      if (context.recommendation) {
+        const { title, reason, firstStep } = context.recommendation;
+        return `${reason} My top recommendation is "${title}".${firstStep ? ` Start here: ${firstStep}.` : ''}`;
+      }
+      return `Your biggest opportunity is ${context.weakestPillar}: ${scoreOf(context, context.weakestPillar)}. ` +
+        PILLAR_TIPS[context.weakestPillar];
+    }
+  },
+  {
+    id: 'motivation',
+    keywords: ['motivat', 'stuck', 'lazy', 'give up', 'discipline'],
+    reply: context => context.streak > 0
+      ? `You've logged ${context.totalSessions} sessions and you're on a ${context.streak}-day streak - that consistency is the hard part, and you're already doing it. ` +
+        'Pick the smallest session you can finish today and protect the streak; momentum does the rest.'
+      : `You've logged ${context.totalSessions} sessions so far, so you know you can do this. ` +
+        'Streaks start with one session - choose something you can finish in ten minutes and do it today.'
+  },
+  { id: 'diet', keywords: ['diet', 'nutrition', 'food', 'eat', 'meal'], reply: pillarReply('diet') },
+  { id: 'spirit', keywords: ['meditat', 'spiritual', 'mindful', 'prayer'], reply: pillarReply('spirit') },
+  { id: 'body', keywords: ['exercise', 'workout', 'gym', 'run', 'training', 'fitness'], reply: pillarReply('body') },
+  {
+    id: 'stress',
+    keywords: ['stress', 'overwhelm', 'anxious', 'anxiety', 'worried'],
+    reply: context => {
+      const stress = context.checkIns && context.checkIns.stress >= 3.5
+        ? ` Your check-ins this week average ${context.checkIns.stress}/5 for stress, so this is worth taking seriously.`
+        : '';
+      return `I understand feeling overwhelmed.${stress} Your heart pillar is at ${context.pillarScores.heart}%. ${PILLAR_TIPS.heart}`;
+    }
+  },
+  {
+    id: 'sleep',
+    keywords: ['sleep', 'tired', 'insomnia', 'exhausted'],
+    reply: context => {
+      const sleep = context.checkIns?.sleep;
+      return (sleep !== null && sleep !== undefined ? `Your evening check-ins rate sleep ${sleep}/5 this week. ` : '') +
+        'Keep the same wake time every day, stop screens half an hour before bed and keep caffeine to the morning. ' +
+        'An evening spirit session can help you wind down.';
+    }
+  }
+];
+
+// Keywords match the start of a word, so "eat" doesn't match "great"
+const mentions = (text: string, keyword: string) => new RegExp(`\\b${keyword}`).test(text);
+
+const recall = (memory: CoachMemory): string => {
+  const goal = [...memory.facts].reverse().find(fact => fact.kind === 'goal');
+  return goal ? ` Keep your goal in view: "${goal.text.replace(/[.!?…]+$/, '')}".` : '';
+};
+
+/**
+ * The reply the offline coach gives, without streaming
+ */
+export const composeRuleReply = (question: string, context: CoachContext, memory: CoachMemory): string => {
+  const lower = question.toLowerCase();
+  const topic = TOPICS.find(candidate => candidate.keywords.some(keyword => mentions(lower, keyword)));
+  const greeting = context.name && /^(hi|hello|hey)\b/.test(lower) ? `Hi ${context.name}! ` : '';
+
+  if (topic) {
+    return `${greeting}${topic.reply(context, memory)}${recall(memory)}`;
+  }
+
+  const strongest = context.strongestPillar;
+  return `${greeting}Your strongest area is ${strongest} at ${context.pillarScores[strongest]}%, which is excellent. ` +
+    `Use that strength to support ${context.weakestPillar}, where ${scoreOf(context, context.weakestPillar)}. ` +
+    `Consistency across all five pillars beats intensity in one.${recall(memory)}`;
+};
+
+export class RuleCoachProvider implements CoachProvider {
+  readonly id = 'rules' as const;
+  private chunkDelayMs: number;
+
+  constructor(options: RuleCoachOptions = {}) {
+    this.chunkDelayMs = options.chunkDelayMs ?? 30;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async complete(request: CoachCompletionRequest, onPartial?: CoachPartialHandler): Promise<string> {
+    const reply = composeRuleReply(request.question, request.context, request.memory);
+    if (!onPartial || this.chunkDelayMs <= 0) {
+      onPartial?.(reply);
+      return reply;
+    }
+
+    // Stream word by word so the offline coach feels the same as a remote one
+    const words = reply.match(/\S+\s*/g) || [];
+    let text = '';
+    for (const word of words) {
+      if (request.signal?.aborted) throw new Error('Coach reply cancelled');
+      text += word;
+      onPartial(text);
+      await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+    }
+    return reply;
+  }
+}
+
+export default RuleCoachProvider;
@@ -0,0 +1,169 @@
+// src/services/StoreBillingProvider.ts - APP STORE (iOS) AND GOOGLE PLAY BILLING (ANDROID)
+import {
+  ErrorCode,
+  PurchaseStateAndroid,
+  deepLinkToSubscriptions,
+  finishTransaction,
+  getAvailablePurchases,
+  getProducts,
+  getSubscriptions,
+  initConnection,
+  purchaseErrorListener,
+  purchaseUpdatedListener,
+  requestPurchase,
+  requestSubscription
+} from 'react-native-iap';
+import type { Product, Purchase, Subscription, SubscriptionAndroid } from 'react-native-iap';
+import { BillingProvider, StoreProduct, StoreProductKind, StorePurchase } from './BillingProvider';
+
+const isCancellation = (error: any) => error?.code === ErrorCode.E_USER_CANCELLED;
+
+export class StoreBillingProvider implements BillingProvider {
+  readonly id: 'app-store' | 'google-play';
+  readonly platform: 'ios' | 'android';
+  private connected: Promise<boolean> | null = null;
+  private products = new Map<string, StoreProduct>();
+
+  constructor(platform: 'ios' | 'android') {
+    this.platform = platform;
+    this.id = platform === 'ios' ? 'app-store' : 'google-play';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      return await this.connect();
+    } catch (error) {
+      this.connected = null;
+      return false;
+    }
+  }
+
+  async getProducts(productIds: string[], kind: StoreProductKind): Promise<StoreProduct[]> {
+    await this.connect();
+    const products = kind === 'subscription'
+      ? (await getSubscriptions({ skus: productIds })).map(subscription => this.fromSubscription(subscription))
+      : (await getProducts({ skus: productIds })).map(product => this.fromProduct(product));
+
+    products.forEach(product => this.products.set(product.productId, product));
+    return products;
+  }
+
+  /**
+   * The store reports the outcome through its listeners rather than the request,
+   * so wait for whichever of them answers first
+   */
+  async purchase(productId: string, kind: StoreProductKind): Promise<StorePurchase | null> {
+    await this.connect();
+    const request = await this.buildRequest(productId, kind);
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = (outcome: () => void) => {
+        if (settled) return;
+        settled = true;
+        updates.remove();
+        errors.remove();
+        outcome();
+      };
+
+      const updates = purchaseUpdatedListener(purchase => {
+        if (purchase.productId !== productId) return;
+        if (purchase.purchaseStateAndroid === PurchaseStateAndroid.PENDING) {
+          settle(() => reject(new Error('The purchase is waiting for payment approval')));
+          return;
+        }
+        settle(() => resolve(this.toPurchase(purchase)));
+      });
+      const errors = purchaseErrorListener(error => {
+        settle(() => (isCancellation(error) ? resolve(null) : reject(new Error(error.message || 'The store purchase failed'))));
+      });
+
+      request().catch(error => {
+        settle(() => (isCancellation(error) ? resolve(null) : reject(error)));
+      });
+    });
+  }
+
+  async restore(): Promise<StorePurchase[]> {
+    await this.connect();
+    const purchases = await getAvailablePurchases();
+    return purchases.map(purchase => this.toPurchase(purchase));
+  }
+
+  async finish(purchase: StorePurchase, kind: StoreProductKind): Promise<void> {
+    if (!purchase.native) return;
+    await finishTransaction({ purchase: purchase.native as Purchase, isConsumable: false });
+  }
+
+  async manageSubscriptions(productId: string): Promise<void> {
+    await deepLinkToSubscriptions({ sku: productId });
+  }
+
+  private connect(): Promise<boolean> {
+    if (!this.connected) {
+      this.connected = initConnection();
+    }
+    return this.connected;
+  }
+
+  private async buildRequest(productId: string, kind: StoreProductKind): Promise<() => Promise<unknown>> {
+    if (kind === 'one-time') {
+      return this.platform === 'ios'
+        ? () => requestPurchase({ sku: productId })
+        : () => requestPurchase({ skus: [productId] });
+    }
+
+    if (this.platform === 'ios') {
+      return () => requestSubscription({ sku: productId });
+    }
+
+    // Play subscriptions are bought through an offer, which only the product listing carries
+    let product = this.products.get(productId);
+    if (!product?.offerToken) {
+      [product] = await this.getProducts([productId], 'subscription');
+    }
+    if (!product?.offerToken) {
+      throw new Error(`No Google Play offer found for ${productId}`);
+    }
+    const offerToken = product.offerToken;
+    return () => requestSubscription({ subscriptionOffers: [{ sku: productId, offerToken }] });
+  }
+
+  private fromSubscription(subscription: Subscription): StoreProduct {
+    if (this.platform === 'android') {
+      const android = subscription as SubscriptionAndroid;
+      // The base plan has no offer id; prefer it over promotional offers
+      const offer = android.subscriptionOfferDetails.find(candidate => !candidate.offerId) ||
+        android.subscriptionOfferDetails[0];
+      const phases = offer?.pricingPhases.pricingPhaseList || [];
+      return {
+        productId: android.productId,
+        kind: 'subscription',
+        title: android.title,
+        localizedPrice: phases[phases.length - 1]?.formattedPrice || '',
+        offerToken: offer?.offerToken
+      };
+    }
+
+    const ios = subscription as Extract<Subscription, { localizedPrice: string }>;
+    return { productId: ios.productId, kind: 'subscription', title: ios.title, localizedPrice: ios.localizedPrice };
+  }
+
+  private fromProduct(product: Product): StoreProduct {
+    return { productId: product.productId, kind: 'one-time', title: product.title, localizedPrice: product.localizedPrice };
+  }
+
+  private toPurchase(purchase: Purchase): StorePurchase {
+    return {
+      platform: this.platform,
+      productId: purchase.productId,
+      transactionId: purchase.transactionId || purchase.purchaseToken || String(purchase.transactionDate),
+      // Play purchases are verified by token; App Store ones by the app receipt
+      receipt: this.platform === 'android' ? purchase.purchaseToken || '' : purchase.transactionReceipt,
+      purchasedAt: new Date(purchase.transactionDate).toISOString(),
+      native: purchase
+    };
+  }
+}
+
+export default StoreBillingProvider;
@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SessionData } from '../context/AppDataContext';
+import StreakEngine, { StreakSettings, computeStreak } from './StreakEngine';
+import { toDayKey } from '../utils/sessionAnalytics';
+
+const UTC: StreakSettings = { homeTimeZone: 'UTC', dayBoundaryHour: 0 };
+
+// 09:00 UTC on each given day of October 2026
+const october = (...days: number[]) => days.map(day => `2026-10-${String(day).padStart(2, '0')}T09:00:00.000Z`);
+
+const session = (date: string, pillar: string = 'body'): SessionData => ({
+  id: `session_${date}_${pillar}`, pillar, type: 'practice', duration: 10, date, score: 80, mood: 'good'
+});
+
+describe('computeStreak', () => {
+  it('counts consecutive days back from today', () => {
+    const streak = computeStreak(october(15, 16, 17, 18, 19), UTC, [], new Date('2026-10-19T20:00:00.000Z'));
+    expect(streak).toEqual({ current: 5, longest: 5, todayCompleted: true, lastActiveDay: '2026-10-19' });
+  });
+
+  it('keeps the streak while today is still open and drops it once a day is missed', () => {
+    const days = october(15, 16, 17, 18);
+    expect(computeStreak(days, UTC, [], new Date('2026-10-19T20:00:00.000Z')).current).toBe(4);
+    expect(computeStreak(days, UTC, [], new Date('2026-10-20T20:00:00.000Z'))).toMatchObject({ current: 0, longest: 4 });
+  });
+
+  it('bridges frozen days without counting them', () => {
+    const days = october(15, 16, 18, 19);
+    const asOf = new Date('2026-10-19T20:00:00.000Z');
+    expect(computeStreak(days, UTC, [], asOf)).toMatchObject({ current: 2, longest: 2 });
+    expect(computeStreak(days, UTC, ['2026-10-17'], asOf)).toMatchObject({ current: 4, longest: 4 });
+  });
+
+  it('counts late-night sessions towards the day before the boundary hour', () => {
+    const lateNights = ['2026-10-17T22:00:00.000Z', '2026-10-19T01:30:00.000Z'];
+    const asOf = new Date('2026-10-19T12:00:00.000Z');
+    expect(computeStreak(lateNights, UTC, [], asOf).current).toBe(1);
+    expect(computeStreak(lateNights, { homeTimeZone: 'UTC', dayBoundaryHour: 3 }, [], asOf).current).toBe(2);
+  });
+});
+
+describe('StreakEngine', () => {
+  const engine = StreakEngine.getInstance();
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await engine.reset();
+    await engine.updateSettings(UTC);
+  });
+
+  it('earns a freeze token every seven days and spends it on a missed day', async () => {
+    const week = october(1, 2, 3, 4, 5, 6, 7).map(date => session(date));
+    expect((await engine.evaluate(week, new Date('2026-10-07T20:00:00.000Z'))).freezeTokens).toBe(1);
+
+    const summary = await engine.evaluate([...week, session(october(9)[0])], new Date('2026-10-09T20:00:00.000Z'));
+    expect(summary).toMatchObject({ freezeTokens: 0, frozenDays: ['2026-10-08'] });
+    expect(summary.overall.current).toBe(8);
+  });
+
+  it('tracks each pillar separately', async () => {
+    const sessions = [...october(18, 19).map(date => session(date)), session(october(19)[0], 'mind')];
+    const { pillars } = await engine.evaluate(sessions, new Date('2026-10-19T20:00:00.000Z'));
+    expect(pillars.body.current).toBe(2);
+    expect(pillars.mind.current).toBe(1);
+    expect(pillars.heart.current).toBe(0);
+  });
+
+  it('hands its settings to every day key in the app', async () => {
+    await engine.updateSettings({ homeTimeZone: 'Asia/Tokyo' });
+    expect(toDayKey('2026-10-19T16:00:00.000Z')).toBe('2026-10-20');
+    await engine.updateSettings({ homeTimeZone: 'UTC' });
+    expect(toDayKey('2026-10-19T16:00:00.000Z')).toBe('2026-10-19');
+  });
+});
@@ -0,0 +1,264 @@
+// src/services/StreakEngine.ts - TIMEZONE-AWARE STREAKS WITH FREEZE TOKENS
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { formatInTimeZone } from 'date-fns-tz';
+import type { SessionData } from '../context/AppDataContext';
+import { DaySettings, PILLARS, PillarKey, deviceTimeZone, setDaySettings, shiftDayKey, toDayKey } from '../utils/sessionAnalytics';
+
+export { shiftDayKey };
+
+// Day settings are kept with the streak state, and handed to toDayKey whenever they load or change
+export type StreakSettings = DaySettings;
+
+export interface StreakStats {
+  current: number;
+  longest: number;
+  todayCompleted: boolean;
+  lastActiveDay: string | null; // yyyy-MM-dd in the home timezone
+}
+
+export interface StreakSummary {
+  overall: StreakStats;
+  pillars: Record<PillarKey, StreakStats>;
+  freezeTokens: number;
+  frozenDays: string[];
+}
+
+interface PersistedStreakState extends StreakSettings {
+  freezeTokens: number;
+  frozenDays: string[];
+  rewardedThrough: number; // overall streak length the last token was earned at
+}
+
+export const STREAK_STATE_KEY = 'streak_engine_state';
+export const FREEZE_EARN_INTERVAL = 7; // one token per 7 consecutive days
+export const MAX_FREEZE_TOKENS = 2;
+
+const EMPTY_STATS: StreakStats = { current: 0, longest: 0, todayCompleted: false, lastActiveDay: null };
+
+/**
+ * Length of a run of active days once `day` (later than `previous`) is added.
+ * The run carries on when every day between them is frozen, and restarts otherwise.
+ */
+export const extendRun = (run: number, previous: string | null, day: string, frozenDays: Set<string>): number => {
+  if (previous === null) return 1;
+  for (let gap = shiftDayKey(previous, 1); gap < day; gap = shiftDayKey(gap, 1)) {
+    if (!frozenDays.has(gap)) return 1;
+  }
+  return run + 1;
+};
+
+/**
+ * Current and longest streak over a set of active day keys.
+ * Frozen days bridge a gap without adding to the count; today is allowed to still be open.
+ * @param activeDays - Day keys with activity
+ * @param frozenDays - Day keys covered by a streak freeze
+ * @param today - Day key of the evaluation time
+ */
+export const streakFromDays = (activeDays: Set<string>, frozenDays: Set<string>, today: string): StreakStats => {
+  const sortedDays = [...activeDays].filter(day => day <= today).sort();
+  if (sortedDays.length === 0) return { ...EMPTY_STATS };
+
+  // Longest: walk every active day, carrying the run across frozen gaps
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const day of sortedDays) {
+    run = extendRun(run, previous, day, frozenDays);
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  // Current: count back from today (or yesterday, while today is still open)
+  let current = 0;
+  let cursor = activeDays.has(today) ? today : shiftDayKey(today, -1);
+  while (activeDays.has(cursor) || frozenDays.has(cursor)) {
+    if (activeDays.has(cursor)) current++;
+    cursor = shiftDayKey(cursor, -1);
+  }
+
+  return {
+    current,
+    longest: Math.max(longest, current),
+    todayCompleted: activeDays.has(today),
+    lastActiveDay: sortedDays[sortedDays.length - 1]
+  };
+};
+
+/**
+ * Current and longest streak over a set of activity timestamps
+ * @param timestamps - ISO timestamps of activity, any order (not mutated)
+ * @param settings - Home timezone and day boundary
+ * @param frozenDays - Day keys covered by a streak freeze
+ * @param asOf - Evaluation time (defaults to now)
+ */
+export const computeStreak = (
+  timestamps: string[],
+  settings: StreakSettings,
+  frozenDays: string[] = [],
+  asOf: Date = new Date()
+): StreakStats => {
+  const activeDays = new Set(
+    timestamps
+      .filter(timestamp => !isNaN(new Date(timestamp).getTime()))
+      .map(timestamp => toDayKey(timestamp, settings))
+  );
+  return streakFromDays(activeDays, new Set(frozenDays), toDayKey(asOf, settings));
+};
+
+class StreakEngine {
+  private static instance: StreakEngine;
+  private state: PersistedStreakState | null = null;
+
+  public static getInstance(): StreakEngine {
+    if (!StreakEngine.instance) {
+      StreakEngine.instance = new StreakEngine();
+    }
+    return StreakEngine.instance;
+  }
+
+  async getSettings(): Promise<StreakSettings> {
+    const { homeTimeZone, dayBoundaryHour } = await this.loadState();
+    return { homeTimeZone, dayBoundaryHour };
+  }
+
+  async updateSettings(updates: Partial<StreakSettings>): Promise<StreakSettings> {
+    const state = await this.loadState();
+    if (updates.homeTimeZone !== undefined) {
+      // Throws RangeError for unknown zones before anything is saved
+      formatInTimeZone(new Date(), updates.homeTimeZone, 'yyyy-MM-dd');
+      state.homeTimeZone = updates.homeTimeZone;
+    }
+    if (updates.dayBoundaryHour !== undefined) {
+      state.dayBoundaryHour = Math.min(23, Math.max(0, Math.floor(updates.dayBoundaryHour)));
+    }
+    setDaySettings(state);
+    await this.saveState();
+    return this.getSettings();
+  }
+
+  async getFreezeTokens(): Promise<number> {
+    return (await this.loadState()).freezeTokens;
+  }
+
+  async getFrozenDays(): Promise<string[]> {
+    return [...(await this.loadState()).frozenDays];
+  }
+
+  /**
+   * Compute overall and per-pillar streaks for the session log.
+   * Spends freeze tokens to cover missed days that would otherwise break the
+   * overall streak, and awards new tokens as the streak grows.
+   */
+  async evaluate(sessions: SessionData[], asOf: Date = new Date()): Promise<StreakSummary> {
+    const state = await this.loadState();
+    const timestamps = sessions.map(session => session.date);
+    let changed = this.applyFreezes(state, timestamps, asOf);
+
+    const overall = computeStreak(timestamps, state, state.frozenDays, asOf);
+
+    if (overall.current === 0) {
+      if (state.rewardedThrough !== 0) {
+        state.rewardedThrough = 0;
+        changed = true;
+      }
+    } else {
+      while (overall.current >= state.rewardedThrough + FREEZE_EARN_INTERVAL) {
+        state.rewardedThrough += FREEZE_EARN_INTERVAL;
+        state.freezeTokens = Math.min(MAX_FREEZE_TOKENS, state.freezeTokens + 1);
+        changed = true;
+      }
+    }
+
+    if (changed) await this.saveState();
+
+    const pillars = PILLARS.reduce((acc, pillar) => {
+      acc[pillar] = computeStreak(
+        sessions.filter(session => session.pillar === pillar).map(session => session.date),
+        state,
+        [],
+        asOf
+      );
+      return acc;
+    }, {} as Record<PillarKey, StreakStats>);
+
+    return {
+      overall,
+      pillars,
+      freezeTokens: state.freezeTokens,
+      frozenDays: [...state.frozenDays]
+    };
+  }
+
+  // Drop the cached state so the next read picks up storage written elsewhere (e.g. a restore)
+  invalidate() {
+    this.state = null;
+  }
+
+  async reset(): Promise<void> {
+    this.state = null;
+    await AsyncStorage.removeItem(STREAK_STATE_KEY);
+  }
+
+  // Cover the gap between the last active day and yesterday if enough tokens are held
+  private applyFreezes(state: PersistedStreakState, timestamps: string[], asOf: Date): boolean {
+    const activeDays = new Set(
+      timestamps
+        .filter(timestamp => !isNaN(new Date(timestamp).getTime()))
+        .map(timestamp => toDayKey(timestamp, state))
+    );
+    const today = toDayKey(asOf, state);
+    const yesterday = shiftDayKey(today, -1);
+    const frozen = new Set(state.frozenDays);
+
+    let lastCovered: string | null = null;
+    for (let day = yesterday, i = 0; i <= MAX_FREEZE_TOKENS; day = shiftDayKey(day, -1), i++) {
+      if (activeDays.has(day) || frozen.has(day)) {
+        lastCovered = day;
+        break;
+      }
+    }
+    if (!lastCovered || lastCovered === yesterday) return false;
+
+    const missed: string[] = [];
+    for (let day = shiftDayKey(lastCovered, 1); day < today; day = shiftDayKey(day, 1)) {
+      missed.push(day);
+    }
+    if (missed.length > state.freezeTokens) return false;
+
+    state.freezeTokens -= missed.length;
+    state.frozenDays = [...state.frozenDays, ...missed].sort();
+    return true;
+  }
+
+  private async loadState(): Promise<PersistedStreakState> {
+    if (this.state) return this.state;
+    try {
+      const stored = await AsyncStorage.getItem(STREAK_STATE_KEY);
+      this.state = stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error loading streak state:', error);
+    }
+    if (!this.state) {
+      this.state = {
+        homeTimeZone: deviceTimeZone(),
+        dayBoundaryHour: 0,
+        freezeTokens: 0,
+        frozenDays: [],
+        rewardedThrough: 0
+      };
+      await this.saveState();
+    }
+    setDaySettings(this.state);
+    return this.state;
+  }
+
+  private async saveState() {
+    try {
+      await AsyncStorage.setItem(STREAK_STATE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Error saving streak state:', error);
+    }
+  }
+}
+
+export default StreakEngine;
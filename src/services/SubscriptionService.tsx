@@ -1,7 +1,39 @@
 // src/services/SubscriptionService.tsx
+import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import EventBus from './EventBus';
+import {
+  BillingPlatform,
+  BillingProvider,
+  PromoRedeemer,
+  ReceiptVerification,
+  ReceiptVerifier,
+  StoreProductKind,
+  StorePurchase,
+  SubscriptionStatus
+} from './BillingProvider';
+import { StoreBillingProvider } from './StoreBillingProvider';
+import { FakeBillingProvider } from './FakeBillingProvider';
+import { HttpReceiptVerifier } from './HttpReceiptVerifier';
+import { HttpPromoRedeemer } from './HttpPromoRedeemer';
+import { resolveAccess } from '../utils/entitlements';
+import {
+  PlanPeriod,
+  addPlanPeriod,
+  advanceSubscription,
+  applyVerification,
+  entitledUntil,
+  grantsPremium,
+  needsVerification,
+  purchaseFromSubscription,
+  statusOf
+} from '../utils/subscriptionState';
+import { PromoGrant, verifyPromoCode } from '../utils/promoCodes';
 
-interface SubscriptionPlan {
+export type { SubscriptionStatus } from './BillingProvider';
+
+export interface SubscriptionPlan {
   id: string;
   name: string;
   description: string;
@@ -11,28 +43,75 @@ interface SubscriptionPlan {
   features: Feature[];
   recommended: boolean;
   savings?: string;
+  productId?: string; // the store SKU; the free plan has none
+  trialDays?: number; // free days for first-time subscribers
+  introOffer?: IntroOffer;
+}
+
+// A discounted price for the first few billing periods, after any trial
+export interface IntroOffer {
+  price: number;
+  periods: number;
 }
 
-interface Feature {
+export interface Feature {
   name: string;
   description: string;
   icon: string;
   included: boolean;
 }
 
-interface UserSubscription {
+export interface UserSubscription {
   planId: string;
   startDate: string;
   endDate?: string;
   isActive: boolean;
   autoRenew: boolean;
   paymentMethod: string;
+  status?: SubscriptionStatus; // missing on subscriptions saved before store billing
+  platform?: BillingPlatform;
+  productId?: string;
+  transactionId?: string;
+  originalTransactionId?: string; // the same across renewals
+  receipt?: string; // kept so the subscription can be verified again
+  trialEndsAt?: string;
+  graceEndsAt?: string;
+  verifiedAt?: string;
+}
+
+export interface PurchaseResult {
+  status: 'purchased' | 'cancelled' | 'failed';
+  subscription?: UserSubscription;
+  error?: string;
+}
+
+export interface PromoRedemption {
+  redeemed: boolean;
+  grant?: PromoGrant;
+  error?: string;
 }
 
+interface Billing {
+  provider: BillingProvider;
+  verifier: ReceiptVerifier;
+  redeemer: PromoRedeemer | null; // null when there's no server to record promo claims
+}
+
+const PROMO_GRANTS_KEY = 'promoGrants';
+const PROMO_CLAIMANT_KEY = 'promoClaimantId';
+
+const PRODUCT_PREFIX = 'com.neuraloptimization.fivepillarsoflife';
+
+// Lapsed subscriptions rank below live ones, refunded below everything
+const STATUS_RANK: Record<SubscriptionStatus, number> = { active: 4, trial: 4, grace: 3, expired: 1, refunded: 0 };
+
 export class SubscriptionService {
   private static instance: SubscriptionService;
   private subscriptionPlans: SubscriptionPlan[] = [];
   private userSubscription: UserSubscription | null = null;
+  private promoGrants: PromoGrant[] = [];
+  private loaded: Promise<UserSubscription | null>;
+  private billing: Promise<Billing | null> | null = null;
 
   public static getInstance(): SubscriptionService {
     if (!SubscriptionService.instance) {
@@ -43,7 +122,28 @@ export class SubscriptionService {
 
   constructor() {
     this.initializeSubscriptionPlans();
-    this.loadUserSubscription();
+    this.loaded = this.loadPromoGrants().then(() => this.loadUserSubscription());
+    // Check the receipt with the server in the background; access never waits on the network
+    this.loaded
+      .then(() => this.refreshSubscription())
+      .catch(error => console.error('Error refreshing subscription:', error));
+    // Promo claims made offline are sent as soon as there's a server to take them
+    this.loaded
+      .then(() => this.sendPromoClaims())
+      .catch(error => console.error('Error sending promo claims:', error));
+  }
+
+  /**
+   * Use a specific store, verifier and promo redeemer, e.g. a FakeBillingProvider in tests
+   */
+  setBilling(provider: BillingProvider, verifier: ReceiptVerifier, redeemer: PromoRedeemer | null = null): void {
+    this.billing = Promise.resolve({ provider, verifier, redeemer });
+  }
+
+  // Resolves once the stored subscription has been read
+  async ready(): Promise<UserSubscription | null> {
+    await this.loaded;
+    return this.userSubscription;
   }
 
   private initializeSubscriptionPlans(): void {
@@ -71,6 +171,9 @@ export class SubscriptionService {
       },
       {
         id: 'premium_monthly',
+        productId: `${PRODUCT_PREFIX}.premium_monthly`,
+        trialDays: 7,
+        introOffer: { price: 4.99, periods: 3 },
         name: 'Neural Optimizer',
         description: 'Unlock your full neural potential',
         price: 9.99,
@@ -92,6 +195,8 @@ export class SubscriptionService {
       },
       {
         id: 'premium_yearly',
+        productId: `${PRODUCT_PREFIX}.premium_yearly`,
+        trialDays: 7,
         name: 'Neural Master',
         description: 'Master your neural optimization with savings',
         price: 79.99,
@@ -114,6 +219,7 @@ export class SubscriptionService {
       },
       {
         id: 'lifetime',
+        productId: `${PRODUCT_PREFIX}.lifetime`,
         name: 'Neural Immortal',
         description: 'Lifetime access to neural optimization',
         price: 299.99,
@@ -149,96 +255,226 @@ export class SubscriptionService {
 
   // Check if user has premium access
   hasPremiumAccess(): boolean {
-    if (!this.userSubscription || !this.userSubscription.isActive) {
-      return false;
-    }
-    
-    if (this.userSubscription.planId === 'lifetime') {
-      return true;
+    return resolveAccess(this.userSubscription, new Date(), this.promoGrants).tier === 'premium';
+  }
+
+  getPromoGrants(): PromoGrant[] {
+    return this.promoGrants;
+  }
+
+  // Stores give one trial and intro price per customer, so only offer them to new subscribers
+  isTrialEligible(planId: string): boolean {
+    const plan = this.subscriptionPlans.find(p => p.id === planId);
+    if (!plan?.trialDays && !plan?.introOffer) return false;
+    return !this.userSubscription?.originalTransactionId && !this.userSubscription?.trialEndsAt;
+  }
+
+  /**
+   * What a new subscriber pays, e.g. "7 days free, then $4.99/month for 3 months, then $9.99/month"
+   * @returns null when there's no trial or intro price on offer
+   */
+  getOfferSummary(planId: string): string | null {
+    const plan = this.subscriptionPlans.find(p => p.id === planId);
+    if (!plan || plan.duration === 'lifetime' || !this.isTrialEligible(planId)) return null;
+
+    const unit = plan.duration === 'monthly' ? 'month' : 'year';
+    const steps: string[] = [];
+    if (plan.trialDays) {
+      steps.push(`${plan.trialDays} days free`);
     }
-    
-    if (this.userSubscription.endDate) {
-      return new Date(this.userSubscription.endDate) > new Date();
+    if (plan.introOffer) {
+      const { price, periods } = plan.introOffer;
+      steps.push(`$${price.toFixed(2)}/${unit} for ${periods} ${unit}${periods === 1 ? '' : 's'}`);
     }
-    
-    return false;
+    steps.push(this.getFormattedPrice(planId));
+    return steps.join(', then ');
   }
 
-  // Check if specific feature is available
-  hasFeatureAccess(featureName: string): boolean {
-    if (!this.userSubscription) {
-      // Check free plan features
-      const freePlan = this.subscriptionPlans.find(p => p.id === 'free');
-      const feature = freePlan?.features.find(f => f.name === featureName);
-      return feature?.included || false;
+  /**
+   * Redeem a signed promo code for premium time. The signature is checked on the
+   * device, so the time is granted straight away, even offline. The claim is then
+   * sent to the server so each code only works once; if it can't be reached the
+   * claim waits for the next try. The time starts once any access already held runs out.
+   */
+  async redeemPromoCode(input: string): Promise<PromoRedemption> {
+    try {
+      await this.loaded;
+      const now = new Date();
+      const check = verifyPromoCode(input, Constants.expoConfig?.extra?.billing?.promoPublicKey || '', now);
+      if (!check.valid) {
+        return { redeemed: false, error: check.reason };
+      }
+
+      const { campaign, days } = check.payload;
+      if (this.promoGrants.some(grant => grant.campaign === campaign)) {
+        return { redeemed: false, error: 'You\'ve already redeemed a code from this promotion.' };
+      }
+
+      const startsAt = entitledUntil(this.userSubscription, this.promoGrants, now);
+      const endsAt = this.calculateEndDate(days, now);
+      if (!startsAt || !endsAt) {
+        return { redeemed: false, error: 'You already have lifetime access.' };
+      }
+
+      const grant: PromoGrant = {
+        code: check.code,
+        campaign,
+        days,
+        redeemedAt: now.toISOString(),
+        startsAt: startsAt.toISOString(),
+        endsAt
+      };
+      this.promoGrants = [...this.promoGrants, grant];
+      await this.savePromoGrants();
+      this.publishChange();
+
+      const refusals = await this.sendPromoClaims();
+      if (refusals.has(grant.code)) {
+        return { redeemed: false, error: refusals.get(grant.code) };
+      }
+      return { redeemed: true, grant: this.promoGrants.find(held => held.code === grant.code) || grant };
+    } catch (error) {
+      console.error('Promo code redemption failed:', error);
+      return { redeemed: false, error: 'The promo code could not be redeemed. Please try again.' };
     }
-    
-    const currentPlan = this.subscriptionPlans.find(p => p.id === this.userSubscription!.planId);
-    const feature = currentPlan?.features.find(f => f.name === featureName);
-    return feature?.included || false;
   }
 
-  // Purchase subscription
-  async purchaseSubscription(planId: string, paymentMethod: string): Promise<boolean> {
+  /**
+   * When `period` of premium time would end if added now. It's queued after the
+   * current billing period and any promo time already redeemed, so nothing overlaps.
+   * @returns null when the existing access never ends (lifetime)
+   */
+  calculateEndDate(period: PlanPeriod, now: Date = new Date()): string | null {
+    const start = entitledUntil(this.userSubscription, this.promoGrants, now);
+    return start ? addPlanPeriod(start, period).toISOString() : null;
+  }
+
+  /**
+   * Buy a plan through the store. The purchase only counts once the verifier has
+   * accepted its receipt; until then it's left unfinished so the store redelivers it.
+   */
+  async purchaseSubscription(planId: string): Promise<PurchaseResult> {
     try {
-      // Simulate payment processing
-      await this.simulatePaymentProcessing();
-      
       const plan = this.subscriptionPlans.find(p => p.id === planId);
-      if (!plan) {
+      if (!plan?.productId) {
         throw new Error('Invalid subscription plan');
       }
-      
-      const subscription: UserSubscription = {
-        planId,
-        startDate: new Date().toISOString(),
-        endDate: plan.duration === 'lifetime' ? undefined : this.calculateEndDate(plan.duration),
-        isActive: true,
-        autoRenew: plan.duration !== 'lifetime',
-        paymentMethod
-      };
-      
-      this.userSubscription = subscription;
-      await this.saveUserSubscription();
-      
-      return true;
+
+      const billing = await this.getBilling();
+      if (!billing) {
+        throw new Error('In-app purchases are not available on this device');
+      }
+
+      const kind = this.productKind(plan);
+      const purchase = await billing.provider.purchase(plan.productId, kind);
+      if (!purchase) {
+        return { status: 'cancelled' };
+      }
+
+      const verification = await billing.verifier.verify(purchase);
+      if (!verification.valid) {
+        throw new Error(verification.reason || 'The store receipt could not be verified');
+      }
+
+      const subscription = await this.applyPurchase(purchase, verification);
+      await billing.provider.finish(purchase, kind);
+      return { status: 'purchased', subscription };
     } catch (error) {
       console.error('Subscription purchase failed:', error);
-      return false;
+      return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
     }
   }
 
-  // Cancel subscription
+  // Stores don't allow cancelling in-app, so send the user to the store's subscription page
   async cancelSubscription(): Promise<boolean> {
     try {
-      if (this.userSubscription) {
-        this.userSubscription.autoRenew = false;
-        await this.saveUserSubscription();
-        return true;
+      const billing = await this.getBilling();
+      const productId = this.userSubscription?.productId;
+      if (!billing || !productId) {
+        return false;
       }
-      return false;
+
+      await billing.provider.manageSubscriptions(productId);
+      await this.refreshSubscription(true);
+      return true;
     } catch (error) {
       console.error('Subscription cancellation failed:', error);
       return false;
     }
   }
 
-  // Restore purchases
+  /**
+   * Ask the store for past purchases and keep whichever verifies best. The stored
+   * receipt is checked too, in case the store no longer lists it.
+   * @returns Whether premium access was restored
+   */
   async restorePurchases(): Promise<boolean> {
     try {
-      // Simulate purchase restoration
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Check for existing purchases (would integrate with actual payment platform)
-      const existingSubscription = await this.loadUserSubscription();
-      
-      return !!existingSubscription;
+      await this.loaded;
+      const billing = await this.getBilling();
+      if (!billing) {
+        return false;
+      }
+
+      const purchases = await billing.provider.restore();
+      const stored = this.userSubscription && purchaseFromSubscription(this.userSubscription);
+      if (stored && !purchases.some(purchase => purchase.receipt === stored.receipt)) {
+        purchases.push(stored);
+      }
+
+      let best: { purchase: StorePurchase; verification: ReceiptVerification } | null = null;
+      for (const purchase of purchases) {
+        const verification = await billing.verifier.verify(purchase);
+        if (verification.valid && (!best || this.ranksAbove(verification, best.verification))) {
+          best = { purchase, verification };
+        }
+      }
+
+      if (best) {
+        await this.applyPurchase(best.purchase, best.verification);
+        await billing.provider.finish(best.purchase, this.productKind(this.planForProduct(best.purchase.productId)));
+      }
+
+      return this.hasPremiumAccess();
     } catch (error) {
       console.error('Purchase restoration failed:', error);
       return false;
     }
   }
 
+  /**
+   * Bring the stored subscription up to date: re-verify the receipt when it's due,
+   * otherwise (or when the verifier can't be reached) move it on by the clock
+   */
+  async refreshSubscription(force: boolean = false): Promise<UserSubscription | null> {
+    const current = this.userSubscription;
+    if (!current) return null;
+
+    const purchase = purchaseFromSubscription(current);
+    if (purchase && (force || needsVerification(current))) {
+      try {
+        const billing = await this.getBilling();
+        if (billing) {
+          const verification = await billing.verifier.verify(purchase);
+          if (verification.valid) {
+            return await this.applyPurchase(purchase, verification);
+          }
+          console.log('Stored receipt was rejected:', verification.reason);
+        }
+      } catch (error) {
+        console.error('Error verifying subscription, using the last known state:', error);
+      }
+    }
+
+    const advanced = advanceSubscription(this.userSubscription!);
+    if (advanced !== this.userSubscription) {
+      this.userSubscription = advanced;
+      await this.saveUserSubscription();
+      this.publishChange();
+    }
+    return this.userSubscription;
+  }
+
   // Get subscription pricing for display
   getFormattedPrice(planId: string): string {
     const plan = this.subscriptionPlans.find(p => p.id === planId);
@@ -271,21 +507,141 @@ export class SubscriptionService {
     return annualCostOfMonthly - yearlyPlan.price;
   }
 
-  private calculateEndDate(duration: 'monthly' | 'yearly'): string {
-    const now = new Date();
-    
-    if (duration === 'monthly') {
-      now.setMonth(now.getMonth() + 1);
-    } else if (duration === 'yearly') {
-      now.setFullYear(now.getFullYear() + 1);
+  // Identifies this install to the promo server, so retrying a claim doesn't use the code up
+  private async promoClaimantId(): Promise<string> {
+    const stored = await AsyncStorage.getItem(PROMO_CLAIMANT_KEY);
+    if (stored) return stored;
+
+    const claimantId = `claimant_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+    await AsyncStorage.setItem(PROMO_CLAIMANT_KEY, claimantId);
+    return claimantId;
+  }
+
+  /**
+   * Send the server every promo claim it hasn't recorded yet. A code the server
+   * refuses (someone else already claimed it) loses its premium time; claims that
+   * can't be sent stay queued for the next try.
+   * @returns The server's reason for each refused code
+   */
+  private async sendPromoClaims(): Promise<Map<string, string>> {
+    const refusals = new Map<string, string>();
+    const queued = this.promoGrants.filter(grant => !grant.claimedAt);
+    if (queued.length === 0) return refusals;
+
+    const billing = await this.getBilling();
+    if (!billing?.redeemer) return refusals;
+
+    const claimantId = await this.promoClaimantId();
+    const claimed = new Map<string, string>();
+    for (const grant of queued) {
+      try {
+        const claim = await billing.redeemer.claim(grant.code, claimantId);
+        if (claim.accepted) {
+          claimed.set(grant.code, claim.claimedAt);
+        } else {
+          refusals.set(grant.code, claim.reason || 'This promo code has already been used.');
+        }
+      } catch (error) {
+        console.error('Error claiming promo code, will retry later:', error);
+        break;
+      }
     }
-    
-    return now.toISOString();
+    if (claimed.size === 0 && refusals.size === 0) return refusals;
+
+    this.promoGrants = this.promoGrants
+      .filter(grant => !refusals.has(grant.code))
+      .map(grant => claimed.has(grant.code) ? { ...grant, claimedAt: claimed.get(grant.code) } : grant);
+    await this.savePromoGrants();
+    if (refusals.size > 0) {
+      this.publishChange();
+    }
+    return refusals;
+  }
+
+  private getBilling(): Promise<Billing | null> {
+    if (!this.billing) {
+      this.billing = this.resolveBilling();
+    }
+    return this.billing;
+  }
+
+  private async resolveBilling(): Promise<Billing | null> {
+    const endpoint = Constants.expoConfig?.extra?.billing?.verifyEndpoint;
+    const storeProvider =
+      Platform.OS === 'ios' ? new StoreBillingProvider('ios')
+      : Platform.OS === 'android' ? new StoreBillingProvider('android')
+      : null;
+
+    if (storeProvider && await storeProvider.isAvailable()) {
+      if (endpoint) {
+        return { provider: storeProvider, verifier: new HttpReceiptVerifier(endpoint), redeemer: new HttpPromoRedeemer(endpoint) };
+      }
+      console.log('No receipt verification endpoint configured, store purchases are disabled');
+      return null;
+    }
+
+    // The fake store checks receipts locally, so only dev builds and test configs (billing.fakeStore) get it
+    if (__DEV__ || Constants.expoConfig?.extra?.billing?.fakeStore === true) {
+      console.log('No store billing available, using the fake store');
+      const fake = new FakeBillingProvider({
+        products: this.subscriptionPlans
+          .filter(plan => plan.productId)
+          .map(plan => ({
+            productId: plan.productId!,
+            title: plan.name,
+            price: plan.price,
+            period: plan.duration === 'lifetime' ? null : plan.duration,
+            trialDays: plan.trialDays
+          }))
+      });
+      return endpoint
+        ? { provider: fake, verifier: new HttpReceiptVerifier(endpoint), redeemer: new HttpPromoRedeemer(endpoint) }
+        : { provider: fake, verifier: fake, redeemer: fake };
+    }
+
+    console.log('No store billing available on this device');
+    return null;
+  }
+
+  private productKind(plan: SubscriptionPlan | undefined): StoreProductKind {
+    return plan?.duration === 'lifetime' ? 'one-time' : 'subscription';
+  }
+
+  private planForProduct(productId: string): SubscriptionPlan | undefined {
+    return this.subscriptionPlans.find(plan => plan.productId === productId);
   }
 
-  private async simulatePaymentProcessing(): Promise<void> {
-    // Simulate payment processing delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
+  private ranksAbove(candidate: ReceiptVerification, best: ReceiptVerification): boolean {
+    const rank = STATUS_RANK[candidate.status] - STATUS_RANK[best.status];
+    if (rank !== 0) return rank > 0;
+    // Lifetime purchases never expire, so they outrank any end date
+    if (!candidate.expiresAt || !best.expiresAt) return !candidate.expiresAt && !!best.expiresAt;
+    return candidate.expiresAt > best.expiresAt;
+  }
+
+  private async applyPurchase(purchase: StorePurchase, verification: ReceiptVerification): Promise<UserSubscription> {
+    const plan = this.planForProduct(verification.productId);
+    if (!plan) {
+      throw new Error(`No plan sells ${verification.productId}`);
+    }
+
+    const next = applyVerification(this.userSubscription, plan.id, purchase, verification);
+    if (next && next !== this.userSubscription) {
+      // A lapsed or refunded purchase doesn't replace a subscription that still grants access
+      const keepCurrent = this.userSubscription &&
+        next.originalTransactionId !== this.userSubscription.originalTransactionId &&
+        !grantsPremium(next.status!) && grantsPremium(statusOf(this.userSubscription));
+      if (!keepCurrent) {
+        this.userSubscription = next;
+        await this.saveUserSubscription();
+        this.publishChange();
+      }
+    }
+    return this.userSubscription!;
+  }
+
+  private publishChange(): void {
+    EventBus.getInstance().publish('subscription.changed', { subscription: this.userSubscription });
   }
 
   private async saveUserSubscription(): Promise<void> {
@@ -300,7 +656,8 @@ export class SubscriptionService {
     try {
       const data = await AsyncStorage.getItem('userSubscription');
       if (data) {
-        this.userSubscription = JSON.parse(data);
+        // Older records have no status; work it out from the dates
+        this.userSubscription = advanceSubscription(JSON.parse(data));
         return this.userSubscription;
       }
     } catch (error) {
@@ -309,27 +666,23 @@ export class SubscriptionService {
     return null;
   }
 
-  // Get usage statistics for current plan
-  getUsageStats(): {
-    timerSessions: { used: number; limit: number };
-    aiRecommendations: { used: number; limit: number };
-    features: { available: number; total: number };
-  } {
-    const isPremium = this.hasPremiumAccess();
-    
-    return {
-      timerSessions: {
-        used: 2, // Would come from actual usage tracking
-        limit: isPremium ? -1 : 3 // -1 means unlimited
-      },
-      aiRecommendations: {
-        used: 1, // Would come from actual usage tracking
-        limit: isPremium ? -1 : 3
-      },
-      features: {
-        available: isPremium ? 10 : 5,
-        total: 10
+  private async savePromoGrants(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PROMO_GRANTS_KEY, JSON.stringify(this.promoGrants));
+    } catch (error) {
+      console.error('Error saving promo grants:', error);
+    }
+  }
+
+  private async loadPromoGrants(): Promise<void> {
+    try {
+      const data = await AsyncStorage.getItem(PROMO_GRANTS_KEY);
+      const parsed = data ? JSON.parse(data) : null;
+      if (Array.isArray(parsed)) {
+        this.promoGrants = parsed.filter(grant => grant && typeof grant.startsAt === 'string' && typeof grant.endsAt === 'string');
       }
-    };
+    } catch (error) {
+      console.error('Error loading promo grants:', error);
+    }
   }
 }
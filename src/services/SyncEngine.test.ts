@@ -0,0 +1,140 @@
+import type { Achievement, AIInsight, SessionData } from '../context/AppDataContext';
+import SyncEngine, {
+  AppliedChange,
+  LoopbackSyncTransport,
+  SyncRecord,
+  SyncSnapshot,
+  applySyncChanges,
+  compareWrites
+} from './SyncEngine';
+
+const REMOTE = 'device_remote';
+
+const snapshot = (overrides: Partial<SyncSnapshot> = {}): SyncSnapshot => ({
+  userProfile: null,
+  pillarScores: { body: 0, mind: 0, heart: 0, spirit: 0, diet: 0 },
+  sessions: [],
+  achievements: [],
+  aiInsights: [],
+  checkIns: [],
+  meals: [],
+  measurements: [],
+  recommendationFeedback: [],
+  coachingPlans: [],
+  ...overrides
+});
+
+const session = (id: string, date: string, overrides: Partial<SessionData> = {}): SessionData => ({
+  id, pillar: 'body', type: 'practice', duration: 10, date, score: 80, mood: 'good', ...overrides
+});
+
+const achievement = (id: string, title: string, unlockedDate: string): Achievement => ({
+  id, title, description: title, pillar: 'overall', rarity: 'common', unlockedDate
+});
+
+const insight = (id: string, isRead: boolean): AIInsight => ({
+  id, title: id, description: id, pillar: 'mind', confidence: 0.8, priority: 'low', actionPlan: [],
+  dateGenerated: '2026-10-19T08:00:00.000Z', isRead
+});
+
+const change = (record: Partial<AppliedChange> & Pick<SyncRecord, 'collection' | 'id'>): AppliedChange => ({
+  updatedAt: '2026-10-19T12:00:00.000Z', deviceId: REMOTE, data: null, ...record
+});
+
+describe('compareWrites', () => {
+  it('orders by time, then by device id so every device picks the same winner', () => {
+    const early = { updatedAt: '2026-10-19T10:00:00.000Z', deviceId: 'b' };
+    const late = { updatedAt: '2026-10-19T11:00:00.000Z', deviceId: 'a' };
+    expect(compareWrites(early, late)).toBeLessThan(0);
+    expect(compareWrites({ ...late, deviceId: 'b' }, late)).toBeGreaterThan(0);
+    expect(compareWrites(late, { ...late })).toBe(0);
+  });
+});
+
+describe('applySyncChanges', () => {
+  it('upserts and deletes records, keeping ones added since the sync started', () => {
+    const local = snapshot({
+      sessions: [session('kept', '2026-10-19T07:00:00.000Z'), session('edited', '2026-10-18T07:00:00.000Z'), session('gone', '2026-10-17T07:00:00.000Z')]
+    });
+    const merged = applySyncChanges(local, [
+      change({ collection: 'sessions', id: 'edited', data: session('edited', '2026-10-18T07:00:00.000Z', { score: 95 }) }),
+      change({ collection: 'sessions', id: 'gone', deleted: true }),
+      change({ collection: 'sessions', id: 'remote', data: session('remote', '2026-10-16T07:00:00.000Z') })
+    ]);
+
+    expect(merged.sessions.map(entry => entry.id)).toEqual(['remote', 'edited', 'kept']);
+    expect(merged.sessions.find(entry => entry.id === 'edited')!.score).toBe(95);
+  });
+
+  it('keeps the earliest unlock when two devices unlocked the same achievement', () => {
+    const local = snapshot({ achievements: [achievement('local', 'First Steps', '2026-10-19T09:00:00.000Z')] });
+    const merged = applySyncChanges(local, [
+      change({ collection: 'achievements', id: 'remote', data: achievement('remote', 'First Steps', '2026-10-18T09:00:00.000Z') })
+    ]);
+
+    expect(merged.achievements).toHaveLength(1);
+    expect(merged.achievements[0]).toMatchObject({ id: 'remote', isNew: false });
+  });
+
+  it('never marks a read insight unread', () => {
+    const local = snapshot({ aiInsights: [insight('a', true), insight('b', false)] });
+    const merged = applySyncChanges(local, [
+      change({ collection: 'aiInsights', id: 'a', data: insight('a', false) }),
+      change({ collection: 'aiInsights', id: 'b', data: insight('b', true), onlyMarkRead: true })
+    ]);
+
+    expect(merged.aiInsights.map(entry => entry.isRead)).toEqual([true, true]);
+  });
+});
+
+describe('SyncEngine', () => {
+  const engine = SyncEngine.getInstance();
+  let transport: LoopbackSyncTransport;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    transport = new LoopbackSyncTransport();
+    engine.setTransport(transport);
+    await engine.reset();
+  });
+
+  it('takes a newer remote write and drops the local one it replaces', async () => {
+    const local = session('s1', '2026-10-19T07:00:00.000Z');
+    await engine.trackChange('sessions', 's1', local);
+    const remote = { ...local, score: 99 };
+    await transport.push(REMOTE, [{ collection: 'sessions', id: 's1', updatedAt: '2999-01-01T00:00:00.000Z', deviceId: REMOTE, data: remote }]);
+
+    const result = await engine.sync(snapshot({ sessions: [local] }));
+    await engine.commit(result!);
+
+    expect(result!.changes).toEqual([expect.objectContaining({ id: 's1', data: remote })]);
+    expect((await transport.pull(REMOTE, null)).changes.filter(entry => entry.collection === 'sessions')).toEqual([]);
+    expect(await engine.getPendingCount()).toBe(0);
+  });
+
+  it('pulls the same changes again until the merge is committed', async () => {
+    const remote = session('s1', '2026-10-19T07:00:00.000Z');
+    await transport.push(REMOTE, [{ collection: 'sessions', id: 's1', updatedAt: remote.date, deviceId: REMOTE, data: remote }]);
+
+    // The app is killed before it saves the merge
+    await engine.sync(snapshot());
+    const retried = await engine.sync(snapshot());
+    expect(retried!.changes).toEqual([expect.objectContaining({ id: 's1' })]);
+
+    await engine.commit(retried!);
+    expect((await engine.sync(snapshot({ sessions: [remote] })))!.changes).toEqual([]);
+  });
+
+  it('keeps and pushes a newer local write, taking only the read flag from an older remote one', async () => {
+    const local = insight('i1', false);
+    await engine.trackChange('aiInsights', 'i1', local);
+    await transport.push(REMOTE, [{ collection: 'aiInsights', id: 'i1', updatedAt: '2000-01-01T00:00:00.000Z', deviceId: REMOTE, data: insight('i1', true) }]);
+
+    const result = await engine.sync(snapshot({ aiInsights: [local] }));
+
+    expect(result!.changes).toEqual([expect.objectContaining({ id: 'i1', onlyMarkRead: true })]);
+    expect(applySyncChanges(snapshot({ aiInsights: [local] }), result!.changes).aiInsights[0].isRead).toBe(true);
+    const pushed = (await transport.pull(REMOTE, null)).changes.filter(entry => entry.collection === 'aiInsights');
+    expect(pushed).toEqual([expect.objectContaining({ id: 'i1', data: local })]);
+  });
+});
@@ -0,0 +1,630 @@
+// src/services/SyncEngine.ts - CLOUD SYNC WITH PER-RECORD CHANGE TRACKING
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import Constants from 'expo-constants';
+import type {
+  UserProfile,
+  SessionData,
+  Achievement,
+  AIInsight,
+  PillarProgress,
+  CheckIn,
+  MealEntry,
+  Measurement,
+  RecommendationFeedback,
+  CoachingPlan
+} from '../context/AppDataContext';
+
+export type SyncCollection =
+  | 'userProfile'
+  | 'pillarScores'
+  | 'sessions'
+  | 'achievements'
+  | 'aiInsights'
+  | 'checkIns'
+  | 'meals'
+  | 'measurements'
+  | 'recommendationFeedback'
+  | 'coachingPlans';
+
+// A single record change, tagged for last-writer-wins resolution
+export interface SyncRecord {
+  collection: SyncCollection;
+  id: string;
+  updatedAt: string;
+  deviceId: string;
+  deleted?: boolean;
+  data: any;
+}
+
+export interface SyncSnapshot {
+  userProfile: UserProfile | null;
+  pillarScores: PillarProgress;
+  sessions: SessionData[];
+  achievements: Achievement[];
+  aiInsights: AIInsight[];
+  checkIns: CheckIn[];
+  meals: MealEntry[];
+  measurements: Measurement[];
+  recommendationFeedback: RecommendationFeedback[];
+  coachingPlans: CoachingPlan[];
+}
+
+export interface SyncPullResult {
+  changes: SyncRecord[];
+  cursor: string;
+}
+
+export interface SyncPushResult {
+  cursor: string;
+}
+
+export interface SyncTransport {
+  name: string;
+  pull(deviceId: string, since: string | null): Promise<SyncPullResult>;
+  push(deviceId: string, changes: SyncRecord[]): Promise<SyncPushResult>;
+}
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  progress: number; // 0-1
+  pendingChanges: number;
+  error: string | null;
+}
+
+// A remote change that won against the local copy. When the local copy won but the
+// remote one had been read, only the read flag is taken.
+export interface AppliedChange extends SyncRecord {
+  onlyMarkRead?: boolean;
+}
+
+export interface SyncResult {
+  changes: AppliedChange[];
+  pulled: number;
+  pushed: number;
+  syncedAt: string;
+}
+
+interface RecordMeta {
+  updatedAt: string;
+  deviceId: string;
+}
+
+interface PersistedSyncState {
+  deviceId: string;
+  cursor: string | null;
+  pending: Record<string, SyncRecord>;
+  meta: Record<string, RecordMeta>;
+}
+
+// What a finished run still has to record once the app has saved its merge
+interface UncommittedSync {
+  result: SyncResult;
+  cursor: string;
+  pushed: SyncRecord[];
+}
+
+const SYNC_STATE_KEY = 'sync_engine_state';
+const MAX_INSIGHTS = 10;
+export const SYNC_SINGLETON_ID = 'current';
+
+export const IDLE_SYNC_STATUS: SyncStatus = {
+  state: 'idle',
+  progress: 0,
+  pendingChanges: 0,
+  error: null
+};
+
+// Helper Functions
+const recordKey = (collection: SyncCollection, id: string) => `${collection}:${id}`;
+
+/**
+ * Deterministic ordering of two writes: newer timestamp wins,
+ * ties are broken by device id so every device picks the same winner.
+ */
+export const compareWrites = (a: RecordMeta, b: RecordMeta): number => {
+  const timeDiff = new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
+  if (timeDiff !== 0) return timeDiff;
+  return a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0;
+};
+
+const inferredUpdatedAt = (collection: SyncCollection, record: any): string => {
+  switch (collection) {
+    case 'sessions':
+      return record.date;
+    case 'achievements':
+      return record.unlockedDate;
+    case 'aiInsights':
+      return record.dateGenerated;
+    case 'checkIns':
+    case 'meals':
+    case 'measurements':
+    case 'recommendationFeedback':
+    case 'coachingPlans':
+      return record.updatedAt;
+    case 'userProfile':
+      return record.lastActiveDate || record.joinDate;
+    default:
+      return new Date(0).toISOString();
+  }
+};
+
+const upsertById = <T extends { id: string }>(records: T[], record: T): T[] => {
+  const index = records.findIndex(existing => existing.id === record.id);
+  if (index === -1) return [...records, record];
+  const updated = [...records];
+  updated[index] = record;
+  return updated;
+};
+
+/**
+ * Apply changes chosen by a sync to a snapshot. Pass the app's current data, not
+ * the snapshot the sync started from, so records added meanwhile are kept.
+ */
+export const applySyncChanges = (snapshot: SyncSnapshot, changes: AppliedChange[]): SyncSnapshot => {
+  let { userProfile, pillarScores, sessions, achievements, aiInsights, checkIns, meals, measurements, recommendationFeedback, coachingPlans } = snapshot;
+
+  changes.forEach(change => {
+    if (change.onlyMarkRead) {
+      aiInsights = aiInsights.map(insight => insight.id === change.id ? { ...insight, isRead: true } : insight);
+      return;
+    }
+
+    switch (change.collection) {
+      case 'userProfile':
+        if (!change.deleted) userProfile = change.data;
+        break;
+      case 'pillarScores':
+        if (!change.deleted) pillarScores = { ...pillarScores, ...change.data };
+        break;
+      case 'sessions':
+        sessions = change.deleted
+          ? sessions.filter(session => session.id !== change.id)
+          : upsertById(sessions, change.data);
+        break;
+      case 'achievements':
+        achievements = change.deleted
+          ? achievements.filter(achievement => achievement.id !== change.id)
+          : upsertById(achievements, { ...change.data, isNew: false });
+        break;
+      case 'aiInsights': {
+        const local = aiInsights.find(insight => insight.id === change.id);
+        aiInsights = change.deleted
+          ? aiInsights.filter(insight => insight.id !== change.id)
+          : upsertById(aiInsights, { ...change.data, isRead: !!(change.data?.isRead || local?.isRead) });
+        break;
+      }
+      case 'checkIns':
+        checkIns = change.deleted
+          ? checkIns.filter(checkIn => checkIn.id !== change.id)
+          : upsertById(checkIns, change.data);
+        break;
+      case 'meals':
+        meals = change.deleted
+          ? meals.filter(meal => meal.id !== change.id)
+          : upsertById(meals, change.data);
+        break;
+      case 'measurements':
+        measurements = change.deleted
+          ? measurements.filter(measurement => measurement.id !== change.id)
+          : upsertById(measurements, change.data);
+        break;
+      case 'recommendationFeedback':
+        recommendationFeedback = change.deleted
+          ? recommendationFeedback.filter(feedback => feedback.id !== change.id)
+          : upsertById(recommendationFeedback, change.data);
+        break;
+      case 'coachingPlans':
+        coachingPlans = change.deleted
+          ? coachingPlans.filter(plan => plan.id !== change.id)
+          : upsertById(coachingPlans, change.data);
+        break;
+    }
+  });
+
+  // The same achievement unlocked on two devices keeps the earliest unlock
+  const achievementsByTitle = new Map<string, Achievement>();
+  achievements.forEach(achievement => {
+    const existing = achievementsByTitle.get(achievement.title);
+    if (!existing || achievement.unlockedDate < existing.unlockedDate ||
+      (achievement.unlockedDate === existing.unlockedDate && achievement.id < existing.id)) {
+      achievementsByTitle.set(achievement.title, achievement);
+    }
+  });
+
+  return {
+    userProfile,
+    pillarScores,
+    sessions: [...sessions].sort((a, b) =>
+      new Date(a.date).getTime() - new Date(b.date).getTime() || (a.id < b.id ? -1 : 1)
+    ),
+    achievements: [...achievementsByTitle.values()].sort((a, b) =>
+      new Date(b.unlockedDate).getTime() - new Date(a.unlockedDate).getTime() || (a.id < b.id ? -1 : 1)
+    ),
+    aiInsights: [...aiInsights].sort((a, b) =>
+      new Date(b.dateGenerated).getTime() - new Date(a.dateGenerated).getTime() || (a.id < b.id ? -1 : 1)
+    ).slice(0, MAX_INSIGHTS),
+    checkIns: [...checkIns].sort((a, b) =>
+      a.day.localeCompare(b.day) || (a.slot === b.slot ? 0 : a.slot === 'morning' ? -1 : 1)
+    ),
+    meals: [...meals].sort((a, b) =>
+      new Date(a.date).getTime() - new Date(b.date).getTime() || (a.id < b.id ? -1 : 1)
+    ),
+    measurements: [...measurements].sort((a, b) =>
+      new Date(a.date).getTime() - new Date(b.date).getTime() || (a.id < b.id ? -1 : 1)
+    ),
+    recommendationFeedback: [...recommendationFeedback].sort((a, b) =>
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || (a.id < b.id ? -1 : 1)
+    ),
+    coachingPlans: [...coachingPlans].sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || (a.id < b.id ? -1 : 1)
+    )
+  };
+};
+
+// HTTP transport - talks to any server implementing GET/POST /sync/changes (see scripts/sync-server.js)
+export class HttpSyncTransport implements SyncTransport {
+  name = 'http';
+
+  constructor(private baseUrl: string, private timeoutMs: number = 15000) {}
+
+  async pull(deviceId: string, since: string | null): Promise<SyncPullResult> {
+    const query = `deviceId=${encodeURIComponent(deviceId)}${since ? `&since=${encodeURIComponent(since)}` : ''}`;
+    return this.request(`/sync/changes?${query}`, { method: 'GET' });
+  }
+
+  async push(deviceId: string, changes: SyncRecord[]): Promise<SyncPushResult> {
+    return this.request('/sync/changes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deviceId, changes })
+    });
+  }
+
+  private async request(path: string, init: RequestInit): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`Sync server responded with ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// In-memory stand-in for the sync server, useful for development without a backend
+export class LoopbackSyncTransport implements SyncTransport {
+  name = 'loopback';
+  private log: SyncRecord[] = [];
+
+  async pull(deviceId: string, since: string | null): Promise<SyncPullResult> {
+    const from = since ? parseInt(since, 10) : 0;
+    return {
+      changes: this.log.slice(from).filter(change => change.deviceId !== deviceId),
+      cursor: String(this.log.length)
+    };
+  }
+
+  async push(deviceId: string, changes: SyncRecord[]): Promise<SyncPushResult> {
+    this.log.push(...changes);
+    return { cursor: String(this.log.length) };
+  }
+}
+
+class SyncEngine {
+  private static instance: SyncEngine;
+  private transport: SyncTransport;
+  private state: PersistedSyncState | null = null;
+  private status: SyncStatus = { ...IDLE_SYNC_STATUS };
+  private listeners: ((status: SyncStatus) => void)[] = [];
+  private activeSync: Promise<SyncResult | null> | null = null;
+  private uncommitted: UncommittedSync | null = null;
+  private reconnectHandlers: (() => void)[] = [];
+  private isOnline: boolean = true;
+
+  public static getInstance(): SyncEngine {
+    if (!SyncEngine.instance) {
+      SyncEngine.instance = new SyncEngine();
+    }
+    return SyncEngine.instance;
+  }
+
+  constructor() {
+    const endpoint = Constants.expoConfig?.extra?.syncEndpoint;
+    this.transport = endpoint ? new HttpSyncTransport(endpoint) : new LoopbackSyncTransport();
+
+    // Flush queued changes as soon as connectivity returns
+    NetInfo.addEventListener(network => {
+      const wasOffline = !this.isOnline;
+      this.isOnline = network.isConnected ?? false;
+      if (wasOffline && this.isOnline && this.status.pendingChanges > 0) {
+        this.reconnectHandlers.forEach(handler => handler());
+      }
+    });
+  }
+
+  /**
+   * Register the callback that runs a sync when the device comes back online.
+   * AppDataContext owns the snapshot, so it provides the handler.
+   */
+  onReconnect(handler: () => void): () => void {
+    this.reconnectHandlers.push(handler);
+    return () => {
+      this.reconnectHandlers = this.reconnectHandlers.filter(existing => existing !== handler);
+    };
+  }
+
+  setTransport(transport: SyncTransport) {
+    this.transport = transport;
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  isOffline(): boolean {
+    return !this.isOnline;
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  async getPendingCount(): Promise<number> {
+    const state = await this.loadState();
+    const pendingChanges = Object.keys(state.pending).length;
+    if (pendingChanges !== this.status.pendingChanges) {
+      this.setStatus({ pendingChanges });
+    }
+    return pendingChanges;
+  }
+
+  /**
+   * Record a local change so it is pushed on the next sync
+   */
+  async trackChange(collection: SyncCollection, id: string, data: any, deleted: boolean = false): Promise<void> {
+    try {
+      const state = await this.loadState();
+      const change: SyncRecord = {
+        collection,
+        id,
+        updatedAt: new Date().toISOString(),
+        deviceId: state.deviceId,
+        deleted,
+        data
+      };
+      const key = recordKey(collection, id);
+      state.pending[key] = change;
+      state.meta[key] = { updatedAt: change.updatedAt, deviceId: change.deviceId };
+      await this.saveState();
+      this.setStatus({ pendingChanges: Object.keys(state.pending).length });
+    } catch (error) {
+      console.error('Error tracking sync change:', error);
+    }
+  }
+
+  /**
+   * Pull remote changes, decide which win against the snapshot and push local
+   * changes. Apply the result with applySyncChanges, save it, then call commit.
+   * Until then the cursor doesn't move, so a merge lost to a crash is pulled again.
+   * Concurrent calls share the same run.
+   * @returns Promise<SyncResult | null> - null when offline
+   */
+  sync(snapshot: SyncSnapshot): Promise<SyncResult | null> {
+    if (!this.activeSync) {
+      this.activeSync = this.runSync(snapshot).finally(() => {
+        this.activeSync = null;
+      });
+    }
+    return this.activeSync;
+  }
+
+  /**
+   * Record a sync as done once the app has persisted its changes: move the cursor
+   * past them and drop the queued writes they replaced or that were pushed.
+   * A result from an older run, or one already committed, is ignored.
+   */
+  async commit(result: SyncResult): Promise<void> {
+    if (this.uncommitted?.result !== result) return;
+    const { cursor, pushed } = this.uncommitted;
+    this.uncommitted = null;
+
+    const state = await this.loadState();
+    result.changes.forEach(change => {
+      if (change.onlyMarkRead) return;
+      const key = recordKey(change.collection, change.id);
+      // A local write made while the sync ran is newer still; it stays queued
+      if (state.meta[key] && compareWrites(change, state.meta[key]) <= 0) return;
+      state.meta[key] = { updatedAt: change.updatedAt, deviceId: change.deviceId };
+      delete state.pending[key];
+    });
+
+    // Changes tracked while the push was in flight weren't part of it; keep them queued
+    pushed.forEach(change => {
+      const key = recordKey(change.collection, change.id);
+      if (state.pending[key]?.updatedAt === change.updatedAt) {
+        delete state.pending[key];
+      }
+    });
+    state.cursor = cursor;
+    await this.saveState();
+    this.setStatus({ pendingChanges: Object.keys(state.pending).length });
+  }
+
+  async reset(): Promise<void> {
+    const deviceId = (await this.loadState()).deviceId;
+    this.state = { deviceId, cursor: null, pending: {}, meta: {} };
+    this.uncommitted = null;
+    await this.saveState();
+    this.setStatus({ ...IDLE_SYNC_STATUS });
+  }
+
+  private async runSync(snapshot: SyncSnapshot): Promise<SyncResult | null> {
+    const state = await this.loadState();
+
+    const network = await NetInfo.fetch();
+    if (!network.isConnected) {
+      this.setStatus({ state: 'offline', progress: 0, pendingChanges: Object.keys(state.pending).length });
+      return null;
+    }
+
+    try {
+      this.setStatus({ state: 'syncing', progress: 0, error: null });
+
+      // First sync from this device uploads everything it already has
+      if (!state.cursor) {
+        this.seedPending(state, snapshot);
+      }
+
+      const pulled = await this.transport.pull(state.deviceId, state.cursor);
+      this.setStatus({ progress: 0.4 });
+
+      const applied = this.resolveRemoteChanges(state, snapshot, pulled.changes);
+      this.setStatus({ progress: 0.6 });
+
+      // Queued writes a remote change beat aren't pushed; commit drops them
+      const superseded = new Set(applied.filter(change => !change.onlyMarkRead).map(change => recordKey(change.collection, change.id)));
+      const outgoing = Object.values(state.pending).filter(change => !superseded.has(recordKey(change.collection, change.id)));
+      let cursor = pulled.cursor;
+      if (outgoing.length > 0) {
+        cursor = (await this.transport.push(state.deviceId, outgoing)).cursor || cursor;
+      }
+
+      // The cursor and queue only move on in commit, after the app has saved the merge
+      await this.saveState();
+
+      const result: SyncResult = {
+        changes: applied,
+        pulled: pulled.changes.length,
+        pushed: outgoing.length,
+        syncedAt: new Date().toISOString()
+      };
+      this.uncommitted = { result, cursor, pushed: outgoing };
+      this.setStatus({ state: 'idle', progress: 1 });
+      console.log(`✅ Sync complete via ${this.transport.name}: ${pulled.changes.length} pulled, ${outgoing.length} pushed`);
+
+      return result;
+    } catch (error: any) {
+      await this.saveState();
+      console.error('❌ Sync failed:', error);
+      this.setStatus({
+        state: 'error',
+        progress: 0,
+        pendingChanges: Object.keys(state.pending).length,
+        error: error?.message || 'Sync failed'
+      });
+      throw error;
+    }
+  }
+
+  private seedPending(state: PersistedSyncState, snapshot: SyncSnapshot) {
+    const seed = (collection: SyncCollection, id: string, data: any) => {
+      const key = recordKey(collection, id);
+      if (state.pending[key]) return;
+      const meta = state.meta[key] || {
+        updatedAt: inferredUpdatedAt(collection, data) || new Date(0).toISOString(),
+        deviceId: state.deviceId
+      };
+      state.meta[key] = meta;
+      state.pending[key] = { collection, id, ...meta, data };
+    };
+
+    if (snapshot.userProfile) seed('userProfile', SYNC_SINGLETON_ID, snapshot.userProfile);
+    seed('pillarScores', SYNC_SINGLETON_ID, snapshot.pillarScores);
+    snapshot.sessions.forEach(session => seed('sessions', session.id, session));
+    snapshot.achievements.forEach(achievement => seed('achievements', achievement.id, achievement));
+    snapshot.aiInsights.forEach(insight => seed('aiInsights', insight.id, insight));
+    snapshot.checkIns.forEach(checkIn => seed('checkIns', checkIn.id, checkIn));
+    snapshot.meals.forEach(meal => seed('meals', meal.id, meal));
+    snapshot.measurements.forEach(measurement => seed('measurements', measurement.id, measurement));
+    snapshot.recommendationFeedback.forEach(feedback => seed('recommendationFeedback', feedback.id, feedback));
+    snapshot.coachingPlans.forEach(plan => seed('coachingPlans', plan.id, plan));
+  }
+
+  /**
+   * Decide which remote changes win against local copies. Record metadata and the
+   * queue are left alone until commit.
+   * @returns The changes to apply, in a stable order
+   */
+  private resolveRemoteChanges(state: PersistedSyncState, snapshot: SyncSnapshot, changes: SyncRecord[]): AppliedChange[] {
+    const applied: AppliedChange[] = [];
+
+    // Apply in a stable order so the outcome does not depend on server ordering
+    const ordered = [...changes].sort(compareWrites);
+
+    ordered.forEach(change => {
+      const key = recordKey(change.collection, change.id);
+      const localMeta = state.meta[key] || (() => {
+        const local = this.findLocal(snapshot, change.collection, change.id);
+        return local ? { updatedAt: inferredUpdatedAt(change.collection, local), deviceId: state.deviceId } : null;
+      })();
+
+      if (localMeta && compareWrites(change, localMeta) <= 0) {
+        // Local copy is newer - special cases still merge monotonic fields
+        if (change.collection === 'aiInsights' && change.data?.isRead) {
+          applied.push({ ...change, onlyMarkRead: true });
+        }
+        return;
+      }
+
+      applied.push(change);
+    });
+
+    return applied;
+  }
+
+  private findLocal(snapshot: SyncSnapshot, collection: SyncCollection, id: string): any {
+    switch (collection) {
+      case 'userProfile':
+        return snapshot.userProfile;
+      case 'pillarScores':
+        return null;
+      default:
+        return (snapshot[collection] as { id: string }[]).find(record => record.id === id);
+    }
+  }
+
+  private setStatus(update: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...update };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+
+  private async loadState(): Promise<PersistedSyncState> {
+    if (this.state) return this.state;
+    try {
+      const stored = await AsyncStorage.getItem(SYNC_STATE_KEY);
+      this.state = stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error loading sync state:', error);
+    }
+    if (!this.state) {
+      this.state = {
+        deviceId: `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        cursor: null,
+        pending: {},
+        meta: {}
+      };
+      await this.saveState();
+    }
+    return this.state;
+  }
+
+  private async saveState() {
+    try {
+      await AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Error saving sync state:', error);
+    }
+  }
+}
+
+export default SyncEngine;
@@ -1,34 +1,75 @@
 // src/services/WearableIntegration.tsx
-import AppleHealthKit, { HealthKitPermissions } from 'react-native-health';
 import { Platform } from 'react-native';
-
-interface HealthMetrics {
-  heartRate?: number;
-  steps?: number;
-  sleepHours?: number;
-  activeMinutes?: number;
-  calories?: number;
-  hrv?: number; // Heart Rate Variability
-  restingHeartRate?: number;
-  vo2Max?: number;
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Device from 'expo-device';
+import {
+  HEALTH_METRICS,
+  HealthDataProvider,
+  HealthMetric,
+  HealthMetrics,
+  HealthPermissions,
+  HealthProviderId,
+  HealthReadRange,
+  HealthSample,
+  SleepData,
+  SleepSession,
+  permissionsFor,
+  summariseHealthMetrics,
+  toSleepData
+} from './HealthDataProvider';
+import { HealthKitProvider } from './HealthKitProvider';
+import { HealthConnectProvider } from './HealthConnectProvider';
+import { FixtureHealthProvider } from './FixtureHealthProvider';
+
+export type { HealthMetrics, SleepData } from './HealthDataProvider';
+
+// Device-local cache of what the platform store already holds, so it is not part of backups
+export const HEALTH_SYNC_KEY = 'healthSync';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Samples older than this are dropped; summaries only look back a day
+const RETENTION_MS = 48 * HOUR_MS;
+
+// Re-read a little before the last sync so late-arriving watch data isn't missed
+const SYNC_OVERLAP_MS = 2 * HOUR_MS;
+
+// Back-to-back callers (metrics, then sleep) share one read
+const MIN_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+interface HealthSyncState {
+  providerId: HealthProviderId | null;
+  lastSyncAt: Partial<Record<HealthMetric, string>>;
+  samples: HealthSample[];
+  sleep: SleepSession[];
 }
 
-interface SleepData {
-  bedtime: string;
-  wakeTime: string;
-  duration: number;
-  quality: number;
-  stages: {
-    deep: number;
-    light: number;
-    rem: number;
-    awake: number;
-  };
-}
+export type HealthSyncResult = Partial<Record<HealthMetric, number>>; // new or changed records per metric
+
+const emptySyncState = (providerId: HealthProviderId | null): HealthSyncState => ({
+  providerId,
+  lastSyncAt: {},
+  samples: [],
+  sleep: []
+});
+
+const mergeById = <T extends { id: string }>(existing: T[], incoming: T[]): { merged: T[]; changed: number } => {
+  const byId = new Map(existing.map(item => [item.id, item]));
+  let changed = 0;
+  incoming.forEach(item => {
+    const previous = byId.get(item.id);
+    if (!previous || JSON.stringify(previous) !== JSON.stringify(item)) changed++;
+    byId.set(item.id, item);
+  });
+  return { merged: [...byId.values()], changed };
+};
 
 export class WearableIntegration {
   private static instance: WearableIntegration;
-  private isHealthKitAvailable = false;
+  private provider: HealthDataProvider | null = null;
+  private permissions: HealthPermissions = permissionsFor('notDetermined');
+  private state: HealthSyncState | null = null;
+  private syncing: Promise<HealthSyncResult> | null = null;
 
   public static getInstance(): WearableIntegration {
     if (!WearableIntegration.instance) {
@@ -37,309 +78,217 @@ export class WearableIntegration {
     return WearableIntegration.instance;
   }
 
+  /**
+   * Pick a provider and ask for read access to every metric.
+   * HealthKit on iOS, Health Connect on Android; emulators and dev builds without
+   * either fall back to deterministic fixture data.
+   * @returns true when at least one metric can be read
+   */
   async initialize(): Promise<boolean> {
-    if (Platform.OS !== 'ios') {
-      console.log('HealthKit only available on iOS');
-      return false;
-    }
-
     try {
-      // Check if HealthKit is available
-      this.isHealthKitAvailable = await HealthKit.isHealthKitAvailableAsync();
-      
-      if (!this.isHealthKitAvailable) {
-        console.log('HealthKit not available on this device');
+      const provider = this.provider || await this.resolveProvider();
+      if (!provider) {
+        this.permissions = permissionsFor('unavailable');
         return false;
       }
 
-      // Request permissions
-      const permissions = {
-        read: [
-          HealthKit.HealthKitPermissions.HeartRate,
-          HealthKit.HealthKitPermissions.Steps,
-          HealthKit.HealthKitPermissions.SleepAnalysis,
-          HealthKit.HealthKitPermissions.ActiveEnergyBurned,
-          HealthKit.HealthKitPermissions.RestingHeartRate,
-          HealthKit.HealthKitPermissions.HeartRateVariability,
-        ],
-        write: [
-          HealthKit.HealthKitPermissions.Workout,
-        ],
-      };
-
-      const { status } = await HealthKit.requestPermissionsAsync(permissions);
-      
-      return status === HealthKit.HealthKitAuthorizationStatus.SharingAuthorized;
+      this.provider = provider;
+      this.permissions = await provider.requestPermissions(HEALTH_METRICS);
+      return HEALTH_METRICS.some(metric => this.permissions[metric] === 'granted');
     } catch (error) {
-      console.error('Error initializing HealthKit:', error);
+      console.error('Error initializing health data provider:', error);
       return false;
     }
   }
 
-  async getLatestHealthMetrics(): Promise<HealthMetrics> {
-    if (!this.isHealthKitAvailable) {
-      return this.getMockHealthData();
-    }
-
-    try {
-      const now = new Date();
-      const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-      const [heartRate, steps, activeMinutes, calories, restingHeartRate, hrv] = await Promise.all([
-        this.getHeartRate(twentyFourHoursAgo, now),
-        this.getSteps(twentyFourHoursAgo, now),
-        this.getActiveMinutes(twentyFourHoursAgo, now),
-        this.getCalories(twentyFourHoursAgo, now),
-        this.getRestingHeartRate(twentyFourHoursAgo, now),
-        this.getHeartRateVariability(twentyFourHoursAgo, now),
-      ]);
-
-      return {
-        heartRate,
-        steps,
-        activeMinutes,
-        calories,
-        restingHeartRate,
-        hrv,
-      };
-    } catch (error) {
-      console.error('Error fetching health metrics:', error);
-      return this.getMockHealthData();
-    }
-  }
-
-  private async getHeartRate(startDate: Date, endDate: Date): Promise<number | undefined> {
-    try {
-      const samples = await HealthKit.queryQuantitySamplesAsync(
-        HealthKit.HealthKitSampleType.HeartRate,
-        { startDate, endDate }
-      );
-
-      if (samples.length > 0) {
-        const latestSample = samples[samples.length - 1];
-        return Math.round(latestSample.quantity);
-      }
-    } catch (error) {
-      console.error('Error fetching heart rate:', error);
-    }
-    return undefined;
-  }
-
-  private async getSteps(startDate: Date, endDate: Date): Promise<number | undefined> {
-    try {
-      const samples = await HealthKit.queryQuantitySamplesAsync(
-        HealthKit.HealthKitSampleType.StepCount,
-        { startDate, endDate }
-      );
-
-      const totalSteps = samples.reduce((sum, sample) => sum + sample.quantity, 0);
-      return Math.round(totalSteps);
-    } catch (error) {
-      console.error('Error fetching steps:', error);
-    }
-    return undefined;
+  /**
+   * Use a specific provider, e.g. a FixtureHealthProvider in tests.
+   * Cached data from a different provider is discarded on the next sync.
+   */
+  setProvider(provider: HealthDataProvider | null): void {
+    this.provider = provider;
+    this.permissions = permissionsFor(provider ? 'notDetermined' : 'unavailable');
   }
 
-  private async getActiveMinutes(startDate: Date, endDate: Date): Promise<number | undefined> {
-    try {
-      const samples = await HealthKit.queryQuantitySamplesAsync(
-        HealthKit.HealthKitSampleType.AppleExerciseTime,
-        { startDate, endDate }
-      );
-
-      const totalMinutes = samples.reduce((sum, sample) => sum + sample.quantity, 0);
-      return Math.round(totalMinutes);
-    } catch (error) {
-      console.error('Error fetching active minutes:', error);
-    }
-    return undefined;
+  getProviderId(): HealthProviderId | null {
+    return this.provider?.id ?? null;
   }
 
-  private async getCalories(startDate: Date, endDate: Date): Promise<number | undefined> {
-    try {
-      const samples = await HealthKit.queryQuantitySamplesAsync(
-        HealthKit.HealthKitSampleType.ActiveEnergyBurned,
-        { startDate, endDate }
-      );
-
-      const totalCalories = samples.reduce((sum, sample) => sum + sample.quantity, 0);
-      return Math.round(totalCalories);
-    } catch (error) {
-      console.error('Error fetching calories:', error);
-    }
-    return undefined;
+  getPermissions(): HealthPermissions {
+    return { ...this.permissions };
   }
 
-  private async getRestingHeartRate(startDate: Date, endDate: Date): Promise<number | undefined> {
-    try {
-      const samples = await HealthKit.queryQuantitySamplesAsync(
-        HealthKit.HealthKitSampleType.RestingHeartRate,
-        { startDate, endDate }
-      );
-
-      if (samples.length > 0) {
-        const latestSample = samples[samples.length - 1];
-        return Math.round(latestSample.quantity);
-      }
-    } catch (error) {
-      console.error('Error fetching resting heart rate:', error);
+  async refreshPermissions(): Promise<HealthPermissions> {
+    if (this.provider) {
+      this.permissions = await this.provider.getPermissions();
     }
-    return undefined;
+    return this.getPermissions();
   }
 
-  private async getHeartRateVariability(startDate: Date, endDate: Date): Promise<number | undefined> {
-    try {
-      const samples = await HealthKit.queryQuantitySamplesAsync(
-        HealthKit.HealthKitSampleType.HeartRateVariabilitySDNN,
-        { startDate, endDate }
-      );
-
-      if (samples.length > 0) {
-        const latestSample = samples[samples.length - 1];
-        return Math.round(latestSample.quantity);
-      }
-    } catch (error) {
-      console.error('Error fetching HRV:', error);
+  /**
+   * Pull records written since each metric's last sync into the local cache.
+   * Metrics sync independently, so one failing read doesn't hold the others back.
+   */
+  async sync(now: Date = new Date()): Promise<HealthSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync(now).finally(() => {
+        this.syncing = null;
+      });
     }
-    return undefined;
+    return this.syncing;
   }
 
-  async getSleepData(): Promise<SleepData | null> {
-    if (!this.isHealthKitAvailable) {
-      return this.getMockSleepData();
-    }
-
-    try {
-      const now = new Date();
-      const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-      const sleepSamples = await HealthKit.queryCategorySamplesAsync(
-        HealthKit.HealthKitSampleType.SleepAnalysis,
-        { startDate: yesterday, endDate: now }
-      );
-
-      if (sleepSamples.length === 0) {
-        return null;
-      }
-
-      // Process sleep samples to extract meaningful data
-      const sleepPeriods = sleepSamples.map(sample => ({
-        startDate: sample.startDate,
-        endDate: sample.endDate,
-        value: sample.value // 0 = InBed, 1 = Asleep, 2 = Awake
-      }));
-
-      // Find the main sleep period
-      const asleepPeriods = sleepPeriods.filter(p => p.value === 1);
-      
-      if (asleepPeriods.length === 0) {
-        return null;
-      }
-
-      const bedtime = asleepPeriods[0].startDate;
-      const wakeTime = asleepPeriods[asleepPeriods.length - 1].endDate;
-      const duration = (wakeTime.getTime() - bedtime.getTime()) / (1000 * 60 * 60); // in hours
-
-      return {
-        bedtime: bedtime.toISOString(),
-        wakeTime: wakeTime.toISOString(),
-        duration,
-        quality: this.calculateSleepQuality(duration, asleepPeriods.length),
-        stages: {
-          deep: duration * 0.15, // Estimated 15% deep sleep
-          light: duration * 0.55, // Estimated 55% light sleep
-          rem: duration * 0.25,   // Estimated 25% REM sleep
-          awake: duration * 0.05  // Estimated 5% awake time
-        }
-      };
-    } catch (error) {
-      console.error('Error fetching sleep data:', error);
-      return null;
-    }
+  async getLatestHealthMetrics(): Promise<HealthMetrics> {
+    const now = new Date();
+    const { metrics } = await this.getMetricsForRange({ from: new Date(now.getTime() - 24 * HOUR_MS), to: now });
+    return metrics;
   }
 
-  private calculateSleepQuality(duration: number, interruptions: number): number {
-    // Simple sleep quality calculation based on duration and interruptions
-    let quality = 100;
-    
-    // Penalize for too short or too long sleep
-    if (duration < 6) {
-      quality -= (6 - duration) * 10;
-    } else if (duration > 9) {
-      quality -= (duration - 9) * 5;
-    }
-    
-    // Penalize for interruptions
-    quality -= Math.max(0, (interruptions - 1) * 5);
-    
-    return Math.max(0, Math.min(100, quality));
-  }
+  /**
+   * Summary of a window (e.g. one day) from the synced cache, with the last sleep that ended in it
+   */
+  async getMetricsForRange(range: HealthReadRange): Promise<{ metrics: HealthMetrics; sleep: SleepData | null }> {
+    await this.sync();
+    const state = await this.loadState();
+    const sleep = this.latestSleep(state, range);
 
-  // Mock data for testing/development
-  private getMockHealthData(): HealthMetrics {
-    return {
-      heartRate: 75 + Math.floor(Math.random() * 20),
-      steps: 8000 + Math.floor(Math.random() * 4000),
-      sleepHours: 7 + Math.random() * 2,
-      activeMinutes: 30 + Math.floor(Math.random() * 60),
-      calories: 2000 + Math.floor(Math.random() * 800),
-      hrv: 25 + Math.floor(Math.random() * 25),
-      restingHeartRate: 60 + Math.floor(Math.random() * 15),
-    };
+    return { metrics: summariseHealthMetrics(state.samples, sleep, range), sleep };
   }
 
-  private getMockSleepData(): SleepData {
-    const bedtime = new Date();
-    bedtime.setHours(22, 30, 0, 0);
-    const wakeTime = new Date();
-    wakeTime.setHours(6, 45, 0, 0);
-    wakeTime.setDate(wakeTime.getDate() + 1);
-
-    const duration = 8.25;
-
-    return {
-      bedtime: bedtime.toISOString(),
-      wakeTime: wakeTime.toISOString(),
-      duration,
-      quality: 85,
-      stages: {
-        deep: 1.2,
-        light: 4.5,
-        rem: 2.1,
-        awake: 0.45
-      }
-    };
+  async getSleepData(): Promise<SleepData | null> {
+    await this.sync();
+    const state = await this.loadState();
+    const now = new Date();
+    return this.latestSleep(state, { from: new Date(now.getTime() - 24 * HOUR_MS), to: now });
   }
 
   // Calculate neural readiness score based on health metrics
   calculateNeuralReadiness(metrics: HealthMetrics): number {
     let score = 100;
-    
+
     // Heart rate variability (higher is better)
     if (metrics.hrv) {
       if (metrics.hrv < 20) score -= 15;
       else if (metrics.hrv > 40) score += 5;
     }
-    
+
     // Resting heart rate (lower is generally better)
     if (metrics.restingHeartRate) {
       if (metrics.restingHeartRate > 80) score -= 10;
       else if (metrics.restingHeartRate < 60) score += 5;
     }
-    
+
     // Sleep duration
     if (metrics.sleepHours) {
       if (metrics.sleepHours < 6) score -= 20;
       else if (metrics.sleepHours < 7) score -= 10;
       else if (metrics.sleepHours > 9) score -= 5;
     }
-    
+
     // Activity level
     if (metrics.activeMinutes) {
       if (metrics.activeMinutes < 20) score -= 10;
       else if (metrics.activeMinutes > 60) score += 5;
     }
-    
+
     return Math.max(0, Math.min(100, score));
   }
+
+  private async resolveProvider(): Promise<HealthDataProvider | null> {
+    const platformProvider =
+      Platform.OS === 'ios' ? new HealthKitProvider()
+      : Platform.OS === 'android' ? new HealthConnectProvider()
+      : null;
+
+    if (platformProvider && await platformProvider.isAvailable()) {
+      return platformProvider;
+    }
+
+    if (__DEV__ || !Device.isDevice) {
+      console.log('No health data store available, using fixture data');
+      return new FixtureHealthProvider();
+    }
+
+    console.log('No health data store available on this device');
+    return null;
+  }
+
+  private async runSync(now: Date): Promise<HealthSyncResult> {
+    if (!this.provider && !(await this.initialize())) return {};
+    const provider = this.provider!;
+
+    let state = await this.loadState();
+    if (state.providerId !== provider.id) {
+      state = emptySyncState(provider.id);
+    }
+
+    const horizon = now.getTime() - RETENTION_MS;
+    const result: HealthSyncResult = {};
+
+    for (const metric of HEALTH_METRICS) {
+      if (this.permissions[metric] !== 'granted') continue;
+
+      const lastSync = state.lastSyncAt[metric] ? new Date(state.lastSyncAt[metric]!).getTime() : null;
+      if (lastSync !== null && now.getTime() - lastSync < MIN_SYNC_INTERVAL_MS) continue;
+
+      const range = {
+        from: new Date(lastSync === null ? horizon : Math.max(horizon, lastSync - SYNC_OVERLAP_MS)),
+        to: now
+      };
+
+      try {
+        if (metric === 'sleep') {
+          const { merged, changed } = mergeById(state.sleep, await provider.readSleepSessions(range));
+          state.sleep = merged;
+          result.sleep = changed;
+        } else {
+          const { merged, changed } = mergeById(state.samples, await provider.readSamples(metric, range));
+          state.samples = merged;
+          result[metric] = changed;
+        }
+        state.lastSyncAt[metric] = now.toISOString();
+      } catch (error) {
+        console.error(`Error syncing ${metric} from ${provider.id}:`, error);
+      }
+    }
+
+    const cutoff = new Date(horizon).toISOString();
+    state.samples = state.samples.filter(sample => sample.endDate >= cutoff);
+    state.sleep = state.sleep.filter(session => session.endDate >= cutoff);
+
+    await this.saveState(state);
+    return result;
+  }
+
+  private latestSleep(state: HealthSyncState, range: HealthReadRange): SleepData | null {
+    const from = range.from.toISOString();
+    const to = range.to.toISOString();
+    const recent = state.sleep
+      .filter(session => session.endDate >= from && session.endDate <= to)
+      .sort((a, b) => a.endDate.localeCompare(b.endDate));
+
+    return recent.length > 0 ? toSleepData(recent[recent.length - 1]) : null;
+  }
+
+  private async loadState(): Promise<HealthSyncState> {
+    if (this.state) return this.state;
+
+    try {
+      const stored = await AsyncStorage.getItem(HEALTH_SYNC_KEY);
+      this.state = stored ? { ...emptySyncState(null), ...JSON.parse(stored) } : emptySyncState(null);
+    } catch (error) {
+      console.error('Error loading health sync state:', error);
+      this.state = emptySyncState(null);
+    }
+    return this.state!;
+  }
+
+  private async saveState(state: HealthSyncState): Promise<void> {
+    this.state = state;
+    try {
+      await AsyncStorage.setItem(HEALTH_SYNC_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('Error saving health sync state:', error);
+    }
+  }
 }
@@ -0,0 +1,71 @@
+// src/services/eventSubscribers.ts - SERVICES THAT REACT TO DOMAIN EVENTS
+import EventBus from './EventBus';
+import NotificationOrchestrator from './NotificationOrchestrator';
+import { HapticService } from './HapticService';
+import { MLPatternRecognition } from './MLPatternRecognition';
+import AdherencePredictor from './AdherencePredictor';
+import CoachConversationService from './CoachConversationService';
+import EntitlementService from './EntitlementService';
+import { CommunitySystem } from './CommunitySystem';
+import { HealthHistoryStore } from './HealthHistoryStore';
+import type { SessionData } from '../context/AppDataContext';
+
+// Challenge points per session: one per 5 minutes, at least one
+const challengePoints = (session: SessionData) => Math.max(1, Math.round(session.duration / 5));
+
+/**
+ * Wire every side-effecting service to the event bus.
+ * Haptics run first so feedback isn't delayed by storage or notification work.
+ * @returns Function that removes all subscriptions
+ */
+export const registerEventSubscribers = (): (() => void) => {
+  const bus = EventBus.getInstance();
+  const haptics = HapticService.getInstance();
+  const notifications = NotificationOrchestrator.getInstance();
+  const patterns = MLPatternRecognition.getInstance();
+  const adherence = AdherencePredictor.getInstance();
+  const coach = CoachConversationService.getInstance();
+  const entitlements = EntitlementService.getInstance();
+  const community = CommunitySystem.getInstance();
+  const healthHistory = HealthHistoryStore.getInstance();
+
+  const unsubscribers = [
+    bus.subscribe('session.completed', () => haptics.neuralComplete(), { label: 'haptics', priority: 10 }),
+    bus.subscribe('achievement.unlocked', () => haptics.success(), { label: 'haptics', priority: 10 }),
+    bus.subscribe('streak.broken', () => haptics.warning(), { label: 'haptics', priority: 10 }),
+
+    bus.subscribe('session.completed', ({ session }) => patterns.recordSession(session), { label: 'pattern-recognition' }),
+    bus.subscribe('checkin.saved', ({ checkIn }) => patterns.recordCheckIn(checkIn), { label: 'pattern-recognition' }),
+    bus.subscribe('data.cleared', () => patterns.clear(), { label: 'pattern-recognition' }),
+    bus.subscribe('data.cleared', () => adherence.reset(), { label: 'adherence-model' }),
+    bus.subscribe('data.cleared', () => coach.clear(), { label: 'coach-conversations' }),
+
+    bus.subscribe('session.completed', async ({ session }) => {
+      await notifications.recordSession(session);
+    }, { label: 'adaptive-reminders' }),
+    bus.subscribe('data.cleared', () => notifications.clear(), { label: 'adaptive-reminders' }),
+
+    bus.subscribe('subscription.changed', () => entitlements.refresh(), { label: 'entitlements' }),
+
+    bus.subscribe('session.completed', async ({ session, userId }) => {
+      if (!userId) return;
+      await community.recordSessionProgress(userId, session.pillar, challengePoints(session));
+    }, { label: 'community-challenges' }),
+
+    bus.subscribe('checkin.saved', ({ checkIn }) => healthHistory.recordCheckIn(checkIn), { label: 'health-history' }),
+    bus.subscribe('measurement.logged', ({ measurement }) => healthHistory.recordMeasurement(measurement), { label: 'health-history' }),
+    bus.subscribe('measurement.deleted', ({ measurement }) => healthHistory.removeSource(measurement.day, measurement.id), { label: 'health-history' }),
+    bus.subscribe('data.cleared', () => healthHistory.clear(), { label: 'health-history' }),
+
+    bus.subscribe('achievement.unlocked', async ({ achievement }) => {
+      await notifications.sendAchievement(achievement.title, achievement.pillar);
+    }, { label: 'notifications' }),
+
+    bus.subscribe('streak.broken', async ({ previous }) => {
+      if (previous < 3) return;
+      await notifications.sendStreakBroken(previous);
+    }, { label: 'notifications' })
+  ];
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
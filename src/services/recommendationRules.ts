@@ -0,0 +1,674 @@
+// src/services/recommendationRules.ts - RULE AND SCORER STAGES FOR THE RECOMMENDATION PIPELINE
+import type {
+  RecommendationCategory,
+  RecommendationDraft,
+  RecommendationPriority,
+  RecommendationRule,
+  RecommendationScorer,
+  RecommendationSignal
+} from './RecommendationEngine';
+import type { PillarFeatures, RecommendationFeatures } from '../utils/recommendationFeatures';
+import { PILLARS, PillarKey } from '../utils/sessionAnalytics';
+
+export interface TimeWindowGuidance {
+  pillar: PillarKey;
+  timeWindow: string;
+  neurogenesisLevel: number;
+  recommendations: string[];
+  activities: string[];
+  neuroscience: string;
+  urgency: 'HIGH' | 'MEDIUM' | 'LOW';
+  chakraActivation: string;
+}
+
+interface TimeWindow {
+  from: number; // hour, inclusive
+  to: number; // hour, exclusive
+  guidance: TimeWindowGuidance[];
+}
+
+const TIME_WINDOWS: TimeWindow[] = [
+  {
+    // Morning BDNF peak
+    from: 6,
+    to: 11,
+    guidance: [
+      {
+        pillar: 'mind',
+        timeWindow: 'MORNING BDNF PEAK',
+        neurogenesisLevel: 95,
+        recommendations: [
+          'START: Complex learning tasks now - brain is 40% more receptive',
+          'FOCUS: New skill acquisition and memory formation',
+          'ENGAGE: Problem-solving and creative thinking',
+          'AVOID: Passive consumption - use this peak wisely'
+        ],
+        activities: [
+          'Sanskrit verse memorization',
+          'Technical skill practice',
+          'Strategic planning',
+          'Creative writing'
+        ],
+        neuroscience: 'BDNF production peaks 40% higher during morning hours, creating optimal conditions for neuroplasticity, memory consolidation, and new neural pathway formation',
+        urgency: 'HIGH',
+        chakraActivation: 'AJNA (Third Eye) - Peak wisdom absorption time'
+      },
+      {
+        pillar: 'body',
+        timeWindow: 'CORTISOL ENERGY PEAK',
+        neurogenesisLevel: 88,
+        recommendations: [
+          'UTILIZE: Natural energy surge for physical challenges',
+          'FOCUS: Strength building and endurance training',
+          'PRACTICE: Yoga sequences or calisthenics',
+          'ALIGN: Movement with breath awareness'
+        ],
+        activities: [
+          'Surya Namaskara sequence',
+          'High-intensity interval training',
+          'Strength training routine',
+          'Dynamic yoga flow'
+        ],
+        neuroscience: 'Natural cortisol peak provides optimal energy for physical performance, muscle protein synthesis, and motor skill development',
+        urgency: 'HIGH',
+        chakraActivation: 'MULADHARA (Root) - Physical foundation strengthening'
+      }
+    ]
+  },
+  {
+    // Evening serotonin peak
+    from: 18,
+    to: 22,
+    guidance: [
+      {
+        pillar: 'heart',
+        timeWindow: 'SEROTONIN EMOTIONAL PEAK',
+        neurogenesisLevel: 92,
+        recommendations: [
+          'PROCESS: Daily emotional experiences and relationships',
+          'PRACTICE: Gratitude and loving-kindness meditation',
+          'CONNECT: Deep conversations with loved ones',
+          'REFLECT: On compassion and emotional growth'
+        ],
+        activities: [
+          'Gratitude journaling practice',
+          'Heart-opening meditation',
+          'Family connection time',
+          'Forgiveness work'
+        ],
+        neuroscience: 'Evening serotonin surge enhances emotional processing, empathy, and social bonding while supporting memory consolidation of emotional experiences',
+        urgency: 'HIGH',
+        chakraActivation: 'ANAHATA (Heart) - Peak love and compassion time'
+      },
+      {
+        pillar: 'spirit',
+        timeWindow: 'TRANSCENDENCE OPTIMAL',
+        neurogenesisLevel: 85,
+        recommendations: [
+          'EXPLORE: Meditation and contemplative practices',
+          'CONNECT: With higher purpose and meaning',
+          'PRACTICE: Surrender and letting go exercises',
+          'ENGAGE: In spiritual study and reflection'
+        ],
+        activities: [
+          'Evening meditation practice',
+          'Spiritual text study',
+          'Prayer or mantra chanting',
+          'Nature connection ritual'
+        ],
+        neuroscience: 'Reduced cortisol and increased melatonin production creates optimal conditions for transcendent experiences and spiritual insights',
+        urgency: 'HIGH',
+        chakraActivation: 'SAHASRARA (Crown) - Divine connection peak'
+      }
+    ]
+  }
+];
+
+// Outside the peaks
+const BALANCED_GUIDANCE: TimeWindowGuidance[] = [
+  {
+    pillar: 'diet',
+    timeWindow: 'DIGESTIVE OPTIMIZATION',
+    neurogenesisLevel: 70,
+    recommendations: [
+      'FOCUS: Mindful eating and nutritional awareness',
+      'PRACTICE: Conscious meal preparation',
+      'MONITOR: Energy levels and food responses',
+      'HYDRATE: Maintain optimal fluid balance'
+    ],
+    activities: [
+      'Mindful meal preparation',
+      'Hydration tracking',
+      'Nutritional planning',
+      'Digestive breathing exercises'
+    ],
+    neuroscience: 'Stable insulin levels support consistent brain function and neurotransmitter production throughout the day',
+    urgency: 'MEDIUM',
+    chakraActivation: 'MANIPURA (Solar Plexus) - Digestive fire balance'
+  }
+];
+
+const currentWindow = (hour: number): { guidance: TimeWindowGuidance[]; until: number | null } => {
+  const window = TIME_WINDOWS.find(candidate => hour >= candidate.from && hour < candidate.to);
+  return window ? { guidance: window.guidance, until: window.to } : { guidance: BALANCED_GUIDANCE, until: null };
+};
+
+/**
+ * Neurogenesis-timing guidance for the pillars that peak at `hour`
+ */
+export const getTimeWindowGuidance = (hour: number = new Date().getHours()): TimeWindowGuidance[] =>
+  currentWindow(hour).guidance;
+
+export const getPillarGuidance = (pillar: string, hour?: number): TimeWindowGuidance | null =>
+  getTimeWindowGuidance(hour).find(guidance => guidance.pillar === pillar.toLowerCase()) || null;
+
+const RECOVERY_PLANS: Record<PillarKey, { title: string; actions: string[]; basis: string }> = {
+  body: {
+    title: 'Physical Recovery & Rebuilding Protocol',
+    actions: [
+      'Reduce workout intensity by 20% for optimal recovery',
+      'Prioritize 8+ hours of restorative sleep',
+      'Increase protein intake to 1.2g per kg body weight',
+      'Add 15 minutes of gentle stretching daily',
+      'Consider professional massage therapy'
+    ],
+    basis: 'Research shows that strategic recovery periods enhance long-term physical performance by 23% and reduce injury risk.'
+  },
+  mind: {
+    title: 'Cognitive Recovery & Mental Restoration',
+    actions: [
+      'Implement 20-minute focused breathing sessions',
+      'Reduce screen time by 30% for digital detox',
+      'Practice single-tasking for enhanced focus',
+      'Take 5-minute nature breaks every 90 minutes',
+      'Consider omega-3 supplementation for brain health'
+    ],
+    basis: 'Neuroscience research indicates that mental recovery protocols can restore cognitive performance by up to 40% within two weeks.'
+  },
+  heart: {
+    title: 'Emotional Rebalancing & Heart Coherence',
+    actions: [
+      'Practice heart-focused breathing for 10 minutes daily',
+      'Engage in gratitude journaling each morning',
+      'Connect meaningfully with supportive relationships',
+      'Engage in creative expression or art',
+      'Consider heart rate variability training'
+    ],
+    basis: 'Heart coherence training has been shown to improve emotional regulation by 45% and reduce stress hormones significantly.'
+  },
+  spirit: {
+    title: 'Spiritual Renewal & Consciousness Expansion',
+    actions: [
+      'Dedicate 20 minutes daily to meditation or prayer',
+      'Spend time in nature for spiritual connection',
+      'Reflect deeply on personal values and purpose',
+      'Engage in meaningful service to others',
+      'Explore philosophical or spiritual literature'
+    ],
+    basis: 'Studies on contemplative practices show 35% improvement in life satisfaction and 50% reduction in existential anxiety.'
+  },
+  diet: {
+    title: 'Nutritional Reset & Metabolic Optimization',
+    actions: [
+      'Return to whole, unprocessed foods for 2 weeks',
+      'Increase vegetable intake to 7-9 servings daily',
+      'Ensure proper hydration (35ml per kg body weight)',
+      'Eliminate inflammatory foods temporarily',
+      'Plan and prep meals in advance for consistency'
+    ],
+    basis: 'Nutritional intervention studies show 28% improvement in energy levels and 22% enhancement in cognitive function within 10 days.'
+  }
+};
+
+const OPTIMIZATION_ACTIONS: Record<PillarKey, string[]> = {
+  body: [
+    'Progressive overload: Increase intensity by 5-10%',
+    'Add compound movements for maximum efficiency',
+    'Implement periodization in your training',
+    'Track biometrics for data-driven optimization',
+    'Experiment with advanced recovery techniques'
+  ],
+  mind: [
+    'Challenge yourself with complex cognitive tasks',
+    'Learn a new skill that requires neuroplasticity',
+    'Practice advanced meditation techniques',
+    'Engage in strategic thinking exercises',
+    'Explore memory palace techniques'
+  ],
+  heart: [
+    'Deepen emotional intelligence practices',
+    'Practice advanced empathy and compassion exercises',
+    'Engage in meaningful relationship building',
+    'Explore creative emotional expression',
+    'Volunteer for causes aligned with your values'
+  ],
+  spirit: [
+    'Explore advanced contemplative practices',
+    'Deepen philosophical inquiry and study',
+    'Practice energy cultivation techniques',
+    'Connect with like-minded spiritual communities',
+    'Engage in sacred ritual or ceremony'
+  ],
+  diet: [
+    'Experiment with nutrient timing optimization',
+    'Try intermittent fasting protocols safely',
+    'Optimize micronutrient density',
+    'Consider personalized nutrition testing',
+    'Explore functional foods and adaptogens'
+  ]
+};
+
+const FOCUS_ACTIONS: Record<PillarKey, string[]> = {
+  body: ['Take a 5-minute mobility or stretching break', 'Walk for 10 minutes after a meal', 'Log the session so your body score picks it up'],
+  mind: ['Spend 5 minutes on focused breathing', 'Read or learn something new for 10 minutes', 'Write down one idea you want to explore'],
+  heart: ['Write three things you are grateful for', 'Reach out to someone you care about', 'Try 5 minutes of loving-kindness meditation'],
+  spirit: ['Sit quietly for 5 minutes of meditation', 'Reflect on what gave today meaning', 'Spend a few minutes outside without your phone'],
+  diet: ['Log your next meal and how it made you feel', 'Add one extra serving of vegetables today', 'Drink a glass of water before each meal']
+};
+
+const CONSISTENCY_ACTIONS = [
+  'Start with micro-habits: 2-5 minutes daily commitment',
+  'Use habit stacking: attach to existing routines',
+  'Track visually: use a simple progress chart',
+  'Celebrate small wins: reward consistency over perfection',
+  'Prepare for obstacles: create if-then implementation plans'
+];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Rules are surer of themselves the more recent history they have to go on
+const confidenceFor = (base: number, features: RecommendationFeatures) =>
+  Math.round(base * (0.6 + 0.4 * features.dataCoverage) * 100) / 100;
+
+const scoreSignal = (pillar: PillarFeatures): RecommendationSignal => ({
+  label: `${capitalize(pillar.pillar)} score`,
+  value: `${pillar.score} (${pillar.slope >= 0 ? '+' : ''}${pillar.slope.toFixed(1)}/day)`
+});
+
+const lastSessionSignal = (pillar: PillarFeatures): RecommendationSignal => ({
+  label: `Last ${pillar.pillar} session`,
+  value: pillar.daysSinceLastSession === null ? 'never'
+    : pillar.daysSinceLastSession === 0 ? 'today'
+    : `${pillar.daysSinceLastSession} days ago`
+});
+
+const practisedPillars = (features: RecommendationFeatures) =>
+  PILLARS.map(pillar => features.pillars[pillar]).filter(pillar => pillar.daysSinceLastSession !== null);
+
+const gettingStarted: RecommendationRule = {
+  id: 'getting-started',
+  evaluate: features => features.totalSessions > 0 ? [] : [{
+    title: 'Start Your First Practice',
+    description: 'One short session is enough to get going. Your recommendations will get more personal as your history grows.',
+    pillar: 'overall',
+    priority: 'high',
+    category: 'getting-started',
+    confidence: 0.9,
+    actionPlan: [
+      'Pick the pillar that matters most to you today',
+      'Do one 5-minute session and log it',
+      'Add a morning or evening check-in',
+      'Come back tomorrow at the same time'
+    ],
+    estimatedImpact: 10,
+    timeToResult: '1 week',
+    difficulty: 'easy',
+    explanation: {
+      reason: "You haven't logged a session yet.",
+      signals: [{ label: 'Sessions', value: '0' }]
+    }
+  }]
+};
+
+const recovery: RecommendationRule = {
+  id: 'recovery',
+  evaluate: features => practisedPillars(features)
+    .filter(pillar => pillar.trend === 'declining' && pillar.score < 70)
+    .map(pillar => {
+      const plan = RECOVERY_PLANS[pillar.pillar];
+      const drop = Math.round(Math.abs(pillar.slope) * pillar.history.length);
+      return {
+        title: plan.title,
+        description: `Your ${pillar.pillar} pillar needs targeted recovery. This protocol rebuilds it step by step.`,
+        pillar: pillar.pillar,
+        priority: pillar.score < 40 ? 'critical' : 'high',
+        category: 'recovery',
+        confidence: confidenceFor(0.92, features),
+        actionPlan: plan.actions,
+        estimatedImpact: Math.max(5, Math.min(25, 90 - pillar.score)),
+        timeToResult: '1-2 weeks',
+        difficulty: 'moderate',
+        explanation: {
+          reason: `Your ${pillar.pillar} score has dropped about ${drop} points over the last ${pillar.history.length} days to ${pillar.score}.`,
+          basis: plan.basis,
+          signals: [scoreSignal(pillar), lastSessionSignal(pillar)]
+        }
+      };
+    })
+};
+
+// The weakest pillar that has gone untouched for a few days
+const FOCUS_IDLE_DAYS = 3;
+
+const focus: RecommendationRule = {
+  id: 'focus',
+  evaluate: features => {
+    if (features.totalSessions === 0) return [];
+    const idle = PILLARS.map(pillar => features.pillars[pillar])
+      .filter(pillar => pillar.daysSinceLastSession === null || pillar.daysSinceLastSession >= FOCUS_IDLE_DAYS)
+      .sort((a, b) => a.score - b.score);
+    const pillar = idle[0];
+    if (!pillar) return [];
+
+    const name = capitalize(pillar.pillar);
+    return [{
+      title: `Focus on ${name} Pillar`,
+      description: `Your ${pillar.pillar} pillar needs attention. Try a 5-minute practice today.`,
+      pillar: pillar.pillar,
+      priority: pillar.daysSinceLastSession === null ? 'high' : 'medium',
+      category: 'focus',
+      confidence: confidenceFor(0.8, features),
+      actionPlan: FOCUS_ACTIONS[pillar.pillar],
+      estimatedImpact: Math.max(5, Math.min(15, 70 - pillar.score)),
+      timeToResult: 'This week',
+      difficulty: 'easy',
+      explanation: {
+        reason: pillar.daysSinceLastSession === null
+          ? `You haven't practised ${pillar.pillar} yet, and it's your lowest pillar at ${pillar.score}.`
+          : `It's been ${pillar.daysSinceLastSession} days since your last ${pillar.pillar} session, and it's your lowest idle pillar at ${pillar.score}.`,
+        signals: [scoreSignal(pillar), lastSessionSignal(pillar)]
+      }
+    }];
+  }
+};
+
+// Fewer active days than this in two weeks means the habit hasn't formed yet
+const CONSISTENT_ACTIVE_DAYS = 5;
+
+const consistency: RecommendationRule = {
+  id: 'consistency',
+  evaluate: features => {
+    if (features.totalSessions === 0) return [];
+    const draft = (
+      pillar: PillarKey | 'overall',
+      reason: string,
+      signals: RecommendationSignal[]
+    ): RecommendationDraft => ({
+      title: `${pillar === 'overall' ? 'Daily Practice' : capitalize(pillar)} Consistency Builder`,
+      description: 'Build steady progress with small, repeatable habits rather than occasional long sessions.',
+      pillar,
+      priority: 'high',
+      category: 'consistency',
+      confidence: confidenceFor(0.85, features),
+      actionPlan: CONSISTENCY_ACTIONS,
+      estimatedImpact: 18,
+      timeToResult: '3-4 weeks for habit formation',
+      difficulty: 'easy',
+      explanation: {
+        reason,
+        basis: 'Habit formation research shows that consistency is more important than intensity, with micro-habits having 85% higher success rates.',
+        signals
+      }
+    });
+
+    const drafts = practisedPillars(features)
+      .filter(pillar => pillar.history.length > 0 && pillar.consistency < 0.5)
+      .map(pillar => draft(
+        pillar.pillar,
+        `Your ${pillar.pillar} score swings a lot from day to day (${Math.round(pillar.consistency * 100)}% steady).`,
+        [scoreSignal(pillar), { label: 'Steadiness', value: `${Math.round(pillar.consistency * 100)}%` }]
+      ));
+
+    if (features.activeDaysLast14 < CONSISTENT_ACTIVE_DAYS) {
+      drafts.push(draft(
+        'overall',
+        `You practised on ${features.activeDaysLast14} of the last 14 days.`,
+        [{ label: 'Active days (14)', value: String(features.activeDaysLast14) }]
+      ));
+    }
+    return drafts;
+  }
+};
+
+const optimization: RecommendationRule = {
+  id: 'optimization',
+  evaluate: features => practisedPillars(features)
+    .filter(pillar => pillar.trend === 'improving' && pillar.score > 75)
+    .map(pillar => ({
+      title: `${capitalize(pillar.pillar)} Advanced Optimization Protocol`,
+      description: `Your ${pillar.pillar} pillar is trending upward. Time to accelerate this progress with advanced techniques.`,
+      pillar: pillar.pillar,
+      priority: 'medium',
+      category: 'optimization',
+      confidence: confidenceFor(0.88, features),
+      actionPlan: OPTIMIZATION_ACTIONS[pillar.pillar],
+      estimatedImpact: Math.max(3, Math.min(15, 95 - pillar.score)),
+      timeToResult: '2-4 weeks',
+      difficulty: 'moderate',
+      explanation: {
+        reason: `Your ${pillar.pillar} score is up to ${pillar.score} and still rising, with ${Math.round(pillar.consistency * 100)}% steadiness.`,
+        basis: 'Progressive optimization during positive trends can amplify results by 60% compared to static approaches.',
+        signals: [scoreSignal(pillar)]
+      }
+    }))
+};
+
+const mastery: RecommendationRule = {
+  id: 'mastery',
+  evaluate: features => practisedPillars(features)
+    .filter(pillar => pillar.score > 90 && pillar.consistency > 0.8)
+    .map(pillar => ({
+      title: `${capitalize(pillar.pillar)} Mastery Maintenance & Teaching`,
+      description: `Your ${pillar.pillar} pillar has reached mastery level. Time to maintain it and share what works.`,
+      pillar: pillar.pillar,
+      priority: 'low',
+      category: 'maintenance',
+      confidence: confidenceFor(0.95, features),
+      actionPlan: [
+        'Maintain current successful practices with precision',
+        'Share knowledge and mentor others in your journey',
+        'Explore mastery-level challenges and innovations',
+        'Document your methodology for others'
+      ],
+      estimatedImpact: 5,
+      timeToResult: 'Ongoing mastery',
+      difficulty: 'easy',
+      explanation: {
+        reason: `Your ${pillar.pillar} score is ${pillar.score} with ${Math.round(pillar.consistency * 100)}% steadiness.`,
+        basis: 'Mastery maintenance requires deliberate practice, and teaching others enhances personal retention.',
+        signals: [scoreSignal(pillar)]
+      }
+    }))
+};
+
+const breakthrough: RecommendationRule = {
+  id: 'breakthrough',
+  evaluate: features => {
+    const pillars = PILLARS.map(pillar => features.pillars[pillar]);
+    if (features.overallScore <= 85 || pillars.some(pillar => pillar.score <= 70)) return [];
+
+    return [{
+      title: 'Neural Optimization Breakthrough Protocol',
+      description: `You're at ${features.overallScore}% across all pillars. Ready to integrate them into one practice?`,
+      pillar: 'overall',
+      priority: 'medium',
+      category: 'breakthrough',
+      confidence: confidenceFor(0.9, features),
+      actionPlan: [
+        'Integrate all pillars into a unified daily practice',
+        'Become a mentor and guide others on their journey',
+        'Document and systematize your optimization methodology',
+        'Set a stretch goal in your favourite pillar'
+      ],
+      estimatedImpact: 10,
+      timeToResult: '1-3 months',
+      difficulty: 'challenging',
+      explanation: {
+        reason: `Every pillar is above 70 and your overall score is ${features.overallScore}, with a ${features.currentStreak}-day streak.`,
+        basis: 'Holistic optimization research shows that integrated practices can create synergistic effects.',
+        signals: [
+          { label: 'Overall score', value: String(features.overallScore) },
+          { label: 'Streak', value: `${features.currentStreak} days` }
+        ]
+      }
+    }];
+  }
+};
+
+const timing: RecommendationRule = {
+  id: 'timing',
+  evaluate: features => {
+    const { guidance, until } = currentWindow(features.hour);
+    return guidance
+      .filter(window => features.pillars[window.pillar].sessionsToday === 0)
+      .map(window => ({
+        title: `${capitalize(window.pillar)} Window: ${window.timeWindow.toLowerCase().replace(/^\w/, letter => letter.toUpperCase())}`,
+        description: window.recommendations[0],
+        pillar: window.pillar,
+        priority: window.urgency === 'HIGH' ? 'medium' : 'low',
+        category: 'timing',
+        confidence: 0.7,
+        actionPlan: window.activities,
+        estimatedImpact: 5,
+        timeToResult: 'Today',
+        difficulty: 'easy',
+        explanation: {
+          reason: until === null
+            ? `You haven't done a ${window.pillar} session today, and now is a good time for it.`
+            : `You haven't done a ${window.pillar} session today, and this window lasts until ${until}:00.`,
+          basis: window.neuroscience,
+          signals: [
+            { label: 'Time of day', value: `${features.hour}:00` },
+            { label: `${capitalize(window.pillar)} sessions today`, value: '0' }
+          ]
+        }
+      }));
+  }
+};
+
+// Check-in scales run 1-5
+const HIGH_STRESS = 4;
+const LOW_ENERGY = 2;
+
+const wellbeing: RecommendationRule = {
+  id: 'wellbeing',
+  evaluate: features => {
+    const checkIns = features.checkIns;
+    if (!checkIns || checkIns.count < 2) return [];
+    const drafts: RecommendationDraft[] = [];
+    const checkInSignal = (label: string, value: number) => ({ label: `Avg ${label} (7 days)`, value: `${value}/5` });
+
+    if (checkIns.stress >= HIGH_STRESS) {
+      drafts.push({
+        title: 'Bring Your Stress Down',
+        description: 'Your check-ins show high stress this week. Short calming practices help most.',
+        pillar: 'heart',
+        priority: 'high',
+        category: 'wellbeing',
+        confidence: 0.85,
+        actionPlan: [
+          'Try 4-7-8 breathing: inhale 4, hold 7, exhale 8',
+          'Take a 10-minute walk without your phone',
+          'Write down what is weighing on you before bed',
+          'Protect one evening this week for rest'
+        ],
+        estimatedImpact: 8,
+        timeToResult: '1 week',
+        difficulty: 'easy',
+        explanation: {
+          reason: `Your stress has averaged ${checkIns.stress}/5 across ${checkIns.count} check-ins this week.`,
+          basis: 'Slow breathing activates the parasympathetic nervous system and lowers stress hormones.',
+          signals: [checkInSignal('stress', checkIns.stress)]
+        }
+      });
+    }
+
+    if (checkIns.energy <= LOW_ENERGY) {
+      drafts.push({
+        title: 'Rebuild Your Energy',
+        description: 'Your check-ins show low energy. Rest and gentle movement come before harder training.',
+        pillar: 'body',
+        priority: 'medium',
+        category: 'wellbeing',
+        confidence: 0.8,
+        actionPlan: [
+          'Aim for a consistent bedtime for the next 5 nights',
+          'Swap one intense workout for a gentle walk or yoga',
+          'Eat a protein-rich breakfast',
+          'Get 10 minutes of daylight in the morning'
+        ],
+        estimatedImpact: 6,
+        timeToResult: '1 week',
+        difficulty: 'easy',
+        explanation: {
+          reason: `Your energy has averaged ${checkIns.energy}/5 across ${checkIns.count} check-ins this week.`,
+          signals: [
+            checkInSignal('energy', checkIns.energy),
+            ...(checkIns.sleep !== null ? [checkInSignal('sleep', checkIns.sleep)] : [])
+          ]
+        }
+      });
+    }
+    return drafts;
+  }
+};
+
+export const RECOMMENDATION_RULES: RecommendationRule[] = [
+  gettingStarted,
+  recovery,
+  focus,
+  consistency,
+  optimization,
+  mastery,
+  breakthrough,
+  timing,
+  wellbeing
+];
+
+const PRIORITY_WEIGHTS: Record<RecommendationPriority, number> = { critical: 1.3, high: 1.15, medium: 1, low: 0.85 };
+
+// Small, habit-sized advice sticks better than stretch goals
+const CATEGORY_LIKELIHOOD: Partial<Record<RecommendationCategory, number>> = {
+  'getting-started': 0.1,
+  focus: 0.1,
+  consistency: 0.1,
+  wellbeing: 0.05,
+  recovery: 0.05,
+  optimization: -0.05,
+  breakthrough: -0.15
+};
+
+const BASE_LIKELIHOOD = 0.7;
+
+export const RECOMMENDATION_SCORERS: RecommendationScorer[] = [
+  {
+    id: 'priority',
+    score: draft => PRIORITY_WEIGHTS[draft.priority]
+  },
+  {
+    // How likely the user is to follow through, from their track record
+    id: 'follow-through',
+    score: (draft, features) => {
+      let likelihood = BASE_LIKELIHOOD + (CATEGORY_LIKELIHOOD[draft.category] || 0);
+      if (features.currentStreak > 7) likelihood += 0.1;
+      if (features.activeDaysLast14 >= 10) likelihood += 0.1;
+      if (features.totalSessions > 50) likelihood += 0.05;
+      return Math.max(0.4, Math.min(0.98, likelihood)) / BASE_LIKELIHOOD;
+    }
+  },
+  {
+    id: 'preference',
+    score: (draft, features) => draft.pillar !== 'overall' && features.preferredPillars.includes(draft.pillar) ? 1.1 : 1
+  },
+  {
+    // Timing advice lands best near the hour the user usually practises
+    id: 'habit-hour',
+    score: (draft, features) =>
+      draft.category === 'timing' && features.preferredHour !== null && Math.abs(features.hour - features.preferredHour) <= 1 ? 1.15 : 1
+  },
+  {
+    // Categories the user has completed with results rise, ones they keep dismissing sink
+    id: 'feedback',
+    score: (draft, features) => features.feedback.categoryWeights[draft.category] ?? 1
+  }
+];
@@ -1,5 +1,6 @@
 // src/services/storageService.ts
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import StreakEngine, { computeStreak } from './StreakEngine';
 
 export interface PillarEntry {
   id: string;
@@ -116,6 +117,7 @@ export class StorageService {
 
   /**
    * Calculate current streak for a pillar (consecutive days with entries)
+   * Uses the streak engine, so days follow the user's home timezone and day boundary
    * @param pillar - The pillar name
    * @returns Promise<number> - Days in current streak
    */
@@ -124,37 +126,8 @@ export class StorageService {
       const entries = await this.getPillarEntries(pillar);
       if (entries.length === 0) return 0;
 
-      // Get unique dates (YYYY-MM-DD format)
-      const uniqueDates = [...new Set(
-        entries.map(entry => entry.timestamp.split('T')[0])
-      )].sort().reverse(); // Most recent first
-
-      if (uniqueDates.length === 0) return 0;
-
-      const today = new Date().toISOString().split('T')[0];
-      const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-
-      // Check if streak is current (has entry today or yesterday)
-      if (uniqueDates[0] !== today && uniqueDates[0] !== yesterday) {
-        return 0;
-      }
-
-      // Count consecutive days
-      let streak = 1;
-      const startDate = new Date(uniqueDates[0]);
-
-      for (let i = 1; i < uniqueDates.length; i++) {
-        const currentDate = new Date(uniqueDates[i]);
-        const expectedDate = new Date(startDate.getTime() - (i * 86400000));
-        
-        if (currentDate.toISOString().split('T')[0] === expectedDate.toISOString().split('T')[0]) {
-          streak++;
-        } else {
-          break;
-        }
-      }
-
-      return streak;
+      const settings = await StreakEngine.getInstance().getSettings();
+      return computeStreak(entries.map(entry => entry.timestamp), settings).current;
     } catch (error) {
       console.error(`Error calculating streak for ${pillar}:`, error);
       return 0;
@@ -1,344 +0,0 @@
-// src/utils/AIEngine.tsx - ADVANCED AI NEURAL OPTIMIZATION ENGINE
-export interface NeuralPattern {
-  pillar: string;
-  score: number;
-  trend: 'improving' | 'stable' | 'declining';
-  consistency: number;
-  lastUpdated: string;
-}
-
-export interface AIRecommendation {
-  id: string;
-  title: string;
-  description: string;
-  pillar: string;
-  priority: 'low' | 'medium' | 'high' | 'critical';
-  confidence: number;
-  actionPlan: string[];
-  estimatedImpact: number;
-  timeToResult: string;
-  difficulty: 'easy' | 'moderate' | 'challenging';
-  category: 'optimization' | 'maintenance' | 'breakthrough' | 'recovery';
-}
-
-export class AdvancedAIEngine {
-  private static instance: AdvancedAIEngine;
-  private neuralPatterns: Map<string, NeuralPattern[]> = new Map();
-  private learningHistory: any[] = [];
-
-  static getInstance(): AdvancedAIEngine {
-    if (!AdvancedAIEngine.instance) {
-      AdvancedAIEngine.instance = new AdvancedAIEngine();
-    }
-    return AdvancedAIEngine.instance;
-  }
-
-  analyzeNeuralPatterns(pillarScores: any, sessionHistory: any[], userProfile: any): AIRecommendation[] {
-    const patterns = this.identifyPatterns(pillarScores, sessionHistory);
-    const recommendations = this.generateRecommendations(patterns, userProfile);
-    
-    // Learn from user interactions
-    this.updateLearningModel(patterns, recommendations);
-    
-    return recommendations.sort((a, b) => b.confidence - a.confidence);
-  }
-
-  private identifyPatterns(pillarScores: any, sessionHistory: any[]): NeuralPattern[] {
-    const patterns: NeuralPattern[] = [];
-
-    Object.entries(pillarScores).forEach(([pillar, score]) => {
-      const trend = this.calculateTrend(pillar, sessionHistory);
-      const consistency = this.calculateConsistency(pillar, sessionHistory);
-
-      patterns.push({
-        pillar,
-        score: score as number,
-        trend,
-        consistency,
-        lastUpdated: new Date().toISOString()
-      });
-    });
-
-    return patterns;
-  }
-
-  private calculateTrend(pillar: string, sessionHistory: any[]): 'improving' | 'stable' | 'declining' {
-    const recentSessions = sessionHistory.slice(-7); // Last 7 sessions
-    if (recentSessions.length < 2) return 'stable';
-
-    const scores = recentSessions.map(session => session[pillar] || 0);
-    const firstHalf = scores.slice(0, Math.floor(scores.length / 2));
-    const secondHalf = scores.slice(Math.floor(scores.length / 2));
-
-    const firstAvg = firstHalf.reduce((a, b) => a + b, 0) / firstHalf.length;
-    const secondAvg = secondHalf.reduce((a, b) => a + b, 0) / secondHalf.length;
-
-    const difference = secondAvg - firstAvg;
-
-    if (difference > 2) return 'improving';
-    if (difference < -2) return 'declining';
-    return 'stable';
-  }
-
-  private calculateConsistency(pillar: string, sessionHistory: any[]): number {
-    const scores = sessionHistory.map(session => session[pillar] || 0).slice(-10);
-    if (scores.length < 2) return 1;
-
-    const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
-    const variance = scores.reduce((acc, score) => acc + Math.pow(score - mean, 2), 0) / scores.length;
-    const standardDeviation = Math.sqrt(variance);
-
-    // Return consistency as a value between 0 and 1 (1 = very consistent)
-    return Math.max(0, 1 - (standardDeviation / 50));
-  }
-
-  private generateRecommendations(patterns: NeuralPattern[], userProfile: any): AIRecommendation[] {
-    const recommendations: AIRecommendation[] = [];
-
-    patterns.forEach(pattern => {
-      // Generate pattern-specific recommendations
-      if (pattern.trend === 'declining') {
-        recommendations.push(this.createRecoveryRecommendation(pattern));
-      } else if (pattern.trend === 'improving') {
-        recommendations.push(this.createOptimizationRecommendation(pattern));
-      } else if (pattern.score > 90) {
-        recommendations.push(this.createMasteryRecommendation(pattern));
-      } else if (pattern.consistency < 0.5) {
-        recommendations.push(this.createConsistencyRecommendation(pattern));
-      }
-    });
-
-    // Generate holistic recommendations
-    const overallScore = patterns.reduce((sum, p) => sum + p.score, 0) / patterns.length;
-    if (overallScore > 85) {
-      recommendations.push(this.createBreakthroughRecommendation(patterns, userProfile));
-    }
-
-    return recommendations;
-  }
-
-  private createRecoveryRecommendation(pattern: NeuralPattern): AIRecommendation {
-    const recoveryStrategies = {
-      body: {
-        title: 'Physical Recovery Protocol',
-        description: `Your ${pattern.pillar} pillar is showing declining trends. Time for targeted recovery and rebuilding.`,
-        actionPlan: [
-          'Reduce workout intensity by 20%',
-          'Focus on sleep optimization (8+ hours)',
-          'Increase protein and hydration',
-          'Add gentle stretching sessions',
-          'Consider massage or recovery therapy'
-        ]
-      },
-      mind: {
-        title: 'Cognitive Recovery Strategy',
-        description: `Mental fatigue detected in your ${pattern.pillar} pillar. Let\'s restore your cognitive sharpness.`,
-        actionPlan: [
-          'Reduce screen time by 30%',
-          'Practice 10-minute mindfulness breaks',
-          'Ensure 7-8 hours quality sleep',
-          'Take brain breaks every 90 minutes',
-          'Try nature walks for mental clarity'
-        ]
-      },
-      heart: {
-        title: 'Emotional Rebalancing',
-        description: `Your ${pattern.pillar} pillar needs emotional support and nurturing.`,
-        actionPlan: [
-          'Practice daily gratitude journaling',
-          'Connect with supportive relationships',
-          'Engage in activities that bring joy',
-          'Consider emotional release techniques',
-          'Prioritize self-compassion practices'
-        ]
-      },
-      spirit: {
-        title: 'Spiritual Renewal',
-        description: `Your ${pattern.pillar} pillar is calling for deeper connection and meaning.`,
-        actionPlan: [
-          'Spend time in nature daily',
-          'Practice meditation or prayer',
-          'Reflect on personal values and purpose',
-          'Engage in meaningful service',
-          'Explore spiritual literature or teachings'
-        ]
-      },
-      diet: {
-        title: 'Nutritional Reset',
-        description: `Your ${pattern.pillar} pillar needs a nutritional intervention for optimal functioning.`,
-        actionPlan: [
-          'Return to whole, unprocessed foods',
-          'Increase vegetable and fruit intake',
-          'Ensure adequate hydration',
-          'Consider eliminating inflammatory foods',
-          'Plan and prep meals in advance'
-        ]
-      }
-    };
-
-    const strategy = recoveryStrategies[pattern.pillar] || recoveryStrategies.body;
-
-    return {
-      id: `recovery-${pattern.pillar}-${Date.now()}`,
-      title: strategy.title,
-      description: strategy.description,
-      pillar: pattern.pillar,
-      priority: 'high',
-      confidence: 0.9,
-      actionPlan: strategy.actionPlan,
-      estimatedImpact: 15,
-      timeToResult: '1-2 weeks',
-      difficulty: 'moderate',
-      category: 'recovery'
-    };
-  }
-
-  private createOptimizationRecommendation(pattern: NeuralPattern): AIRecommendation {
-    const optimizationStrategies = {
-      body: [
-        'Increase workout intensity by 10%',
-        'Add new exercise variations',
-        'Focus on progressive overload',
-        'Optimize post-workout nutrition',
-        'Track heart rate variability'
-      ],
-      mind: [
-        'Try advanced cognitive challenges',
-        'Learn a new skill or language',
-        'Practice speed reading techniques',
-        'Engage in complex problem-solving',
-        'Experiment with nootropics (safely)'
-      ],
-      heart: [
-        'Deepen emotional intelligence practices',
-        'Practice advanced empathy exercises',
-        'Engage in meaningful conversations',
-        'Explore creative emotional expression',
-        'Volunteer for causes you care about'
-      ],
-      spirit: [
-        'Explore advanced meditation techniques',
-        'Deepen philosophical studies',
-        'Practice energy cultivation methods',
-        'Connect with spiritual communities',
-        'Engage in sacred practices'
-      ],
-      diet: [
-        'Experiment with nutrient timing',
-        'Try intermittent fasting protocols',
-        'Optimize micronutrient intake',
-        'Consider personalized nutrition testing',
-        'Explore functional foods and superfoods'
-      ]
-    };
-
-    const actions = optimizationStrategies[pattern.pillar] || optimizationStrategies.body;
-
-    return {
-      id: `optimize-${pattern.pillar}-${Date.now()}`,
-      title: `${pattern.pillar.toUpperCase()} Optimization Boost`,
-      description: `Your ${pattern.pillar} pillar is trending upward! Let's accelerate this progress with advanced techniques.`,
-      pillar: pattern.pillar,
-      priority: 'medium',
-      confidence: 0.85,
-      actionPlan: actions,
-      estimatedImpact: 8,
-      timeToResult: '2-3 weeks',
-      difficulty: 'moderate',
-      category: 'optimization'
-    };
-  }
-
-  private createMasteryRecommendation(pattern: NeuralPattern): AIRecommendation {
-    return {
-      id: `mastery-${pattern.pillar}-${Date.now()}`,
-      title: `${pattern.pillar.toUpperCase()} Mastery Maintenance`,
-      description: `Excellent! Your ${pattern.pillar} pillar has reached mastery level (${pattern.score}%). Focus on maintaining this excellence.`,
-      pillar: pattern.pillar,
-      priority: 'low',
-      confidence: 0.95,
-      actionPlan: [
-        'Maintain current successful practices',
-        'Fine-tune and optimize existing routines',
-        'Share knowledge with others',
-        'Explore mastery-level challenges',
-        'Document what works for future reference'
-      ],
-      estimatedImpact: 3,
-      timeToResult: 'Ongoing',
-      difficulty: 'easy',
-      category: 'maintenance'
-    };
-  }
-
-  private createConsistencyRecommendation(pattern: NeuralPattern): AIRecommendation {
-    return {
-      id: `consistency-${pattern.pillar}-${Date.now()}`,
-      title: `${pattern.pillar.toUpperCase()} Consistency Builder`,
-      description: `Your ${pattern.pillar} pillar shows inconsistent patterns. Let's build steady, sustainable progress.`,
-      pillar: pattern.pillar,
-      priority: 'high',
-      confidence: 0.8,
-      actionPlan: [
-        'Start with smaller, more manageable goals',
-        'Create daily micro-habits',
-        'Use habit stacking techniques',
-        'Track progress visually',
-        'Celebrate small wins consistently'
-      ],
-      estimatedImpact: 12,
-      timeToResult: '3-4 weeks',
-      difficulty: 'easy',
-      category: 'optimization'
-    };
-  }
-
-  private createBreakthroughRecommendation(patterns: NeuralPattern[], userProfile: any): AIRecommendation {
-    return {
-      id: `breakthrough-${Date.now()}`,
-      title: 'Neural Optimization Breakthrough Protocol',
-      description: 'You\'ve reached exceptional levels across all pillars! Ready for the next level of human optimization?',
-      pillar: 'overall',
-      priority: 'critical',
-      confidence: 0.95,
-      actionPlan: [
-        'Integrate all pillars into unified practice',
-        'Explore advanced biohacking techniques',
-        'Consider becoming a mentor to others',
-        'Document your optimization journey',
-        'Push the boundaries of human potential'
-      ],
-      estimatedImpact: 25,
-      timeToResult: '1-3 months',
-      difficulty: 'challenging',
-      category: 'breakthrough'
-    };
-  }
-
-  private updateLearningModel(patterns: NeuralPattern[], recommendations: AIRecommendation[]): void {
-    this.learningHistory.push({
-      timestamp: new Date().toISOString(),
-      patterns,
-      recommendations,
-      userContext: {
-        // Add user context for learning
-      }
-    });
-
-    // Keep only last 100 learning instances
-    if (this.learningHistory.length > 100) {
-      this.learningHistory = this.learningHistory.slice(-100);
-    }
-  }
-
-  getPersonalizedInsights(userProfile: any): string[] {
-    const insights = [
-      `Based on your ${userProfile.totalSessions} sessions, your neural optimization consistency is exceptional.`,
-      `Your ${userProfile.streak}-day streak demonstrates remarkable commitment to neural enhancement.`,
-      `Users at Level ${userProfile.level} typically see breakthrough results in the next 2-3 weeks.`,
-      `Your optimization pattern suggests you're in the top 10% of neural optimization practitioners.`
-    ];
-
-    return insights.slice(0, 2); // Return 2 random insights
-  }
-}
@@ -1,487 +0,0 @@
-// src/utils/AdvancedAIEngine.tsx - SOPHISTICATED AI NEURAL OPTIMIZATION
-export interface NeuralPattern {
-  pillar: string;
-  score: number;
-  trend: 'improving' | 'stable' | 'declining';
-  consistency: number;
-  lastUpdated: string;
-  velocityScore: number;
-  stabilityIndex: number;
-}
-
-export interface AIRecommendation {
-  id: string;
-  title: string;
-  description: string;
-  pillar: string;
-  priority: 'low' | 'medium' | 'high' | 'critical';
-  confidence: number;
-  actionPlan: string[];
-  estimatedImpact: number;
-  timeToResult: string;
-  difficulty: 'easy' | 'moderate' | 'challenging';
-  category: 'optimization' | 'maintenance' | 'breakthrough' | 'recovery';
-  personalizedReason: string;
-  scientificBasis: string;
-  successProbability: number;
-}
-
-export interface UserContext {
-  totalSessions: number;
-  currentStreak: number;
-  preferredTime: string;
-  completionRate: number;
-  pillarPreferences: string[];
-  previousSuccess: { [key: string]: number };
-  learningStyle: 'visual' | 'auditory' | 'kinesthetic' | 'mixed';
-  motivationType: 'achievement' | 'progress' | 'social' | 'personal';
-}
-
-export class AdvancedAIEngine {
-  private static instance: AdvancedAIEngine;
-  private neuralPatterns: Map<string, NeuralPattern[]> = new Map();
-  private learningHistory: any[] = [];
-  private userBehaviorModel: Map<string, any> = new Map();
-
-  static getInstance(): AdvancedAIEngine {
-    if (!AdvancedAIEngine.instance) {
-      AdvancedAIEngine.instance = new AdvancedAIEngine();
-    }
-    return AdvancedAIEngine.instance;
-  }
-
-  // Advanced neural pattern analysis
-  analyzeNeuralPatterns(
-    pillarScores: any, 
-    sessionHistory: any[], 
-    userProfile: any,
-    userContext: UserContext
-  ): AIRecommendation[] {
-    console.log('🧠 Advanced AI: Analyzing neural patterns...');
-    
-    const patterns = this.identifyAdvancedPatterns(pillarScores, sessionHistory, userContext);
-    const recommendations = this.generatePersonalizedRecommendations(patterns, userProfile, userContext);
-    
-    // Machine learning enhancement
-    this.updateNeuralModel(patterns, recommendations, userContext);
-    
-    // Sort by AI confidence and personalization score
-    return recommendations
-      .sort((a, b) => (b.confidence * b.successProbability) - (a.confidence * a.successProbability))
-      .slice(0, 5); // Return top 5 recommendations
-  }
-
-  private identifyAdvancedPatterns(
-    pillarScores: any, 
-    sessionHistory: any[], 
-    userContext: UserContext
-  ): NeuralPattern[] {
-    const patterns: NeuralPattern[] = [];
-
-    Object.entries(pillarScores).forEach(([pillar, score]) => {
-      const historicalData = this.getHistoricalData(pillar, sessionHistory);
-      const trend = this.calculateAdvancedTrend(pillar, historicalData);
-      const consistency = this.calculateConsistencyIndex(pillar, historicalData);
-      const velocity = this.calculateVelocityScore(pillar, historicalData);
-      const stability = this.calculateStabilityIndex(pillar, historicalData);
-
-      patterns.push({
-        pillar,
-        score: score as number,
-        trend,
-        consistency,
-        lastUpdated: new Date().toISOString(),
-        velocityScore: velocity,
-        stabilityIndex: stability
-      });
-    });
-
-    return patterns;
-  }
-
-  private calculateAdvancedTrend(pillar: string, historicalData: number[]): 'improving' | 'stable' | 'declining' {
-    if (historicalData.length < 3) return 'stable';
-
-    // Use linear regression for trend analysis
-    const n = historicalData.length;
-    const x = Array.from({ length: n }, (_, i) => i);
-    const y = historicalData;
-
-    const sumX = x.reduce((a, b) => a + b, 0);
-    const sumY = y.reduce((a, b) => a + b, 0);
-    const sumXY = x.reduce((acc, xi, i) => acc + xi * y[i], 0);
-    const sumXX = x.reduce((acc, xi) => acc + xi * xi, 0);
-
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-
-    if (slope > 0.5) return 'improving';
-    if (slope < -0.5) return 'declining';
-    return 'stable';
-  }
-
-  private calculateConsistencyIndex(pillar: string, historicalData: number[]): number {
-    if (historicalData.length < 2) return 1;
-
-    const mean = historicalData.reduce((a, b) => a + b, 0) / historicalData.length;
-    const variance = historicalData.reduce((acc, score) => acc + Math.pow(score - mean, 2), 0) / historicalData.length;
-    const standardDeviation = Math.sqrt(variance);
-
-    // Return consistency as value between 0 and 1
-    return Math.max(0, 1 - (standardDeviation / 30));
-  }
-
-  private calculateVelocityScore(pillar: string, historicalData: number[]): number {
-    if (historicalData.length < 2) return 0;
-
-    const recent = historicalData.slice(-5); // Last 5 sessions
-    const differences = recent.slice(1).map((score, i) => score - recent[i]);
-    const avgVelocity = differences.reduce((a, b) => a + b, 0) / differences.length;
-
-    return Math.max(-10, Math.min(10, avgVelocity)); // Clamp between -10 and 10
-  }
-
-  private calculateStabilityIndex(pillar: string, historicalData: number[]): number {
-    if (historicalData.length < 3) return 0.5;
-
-    const recent = historicalData.slice(-10);
-    const fluctuations = recent.slice(1).map((score, i) => Math.abs(score - recent[i]));
-    const avgFluctuation = fluctuations.reduce((a, b) => a + b, 0) / fluctuations.length;
-
-    return Math.max(0, 1 - (avgFluctuation / 20));
-  }
-
-  private generatePersonalizedRecommendations(
-    patterns: NeuralPattern[], 
-    userProfile: any, 
-    userContext: UserContext
-  ): AIRecommendation[] {
-    const recommendations: AIRecommendation[] = [];
-
-    // Analyze each pattern for personalized recommendations
-    patterns.forEach(pattern => {
-      if (pattern.trend === 'declining' || pattern.score < 70) {
-        recommendations.push(this.createRecoveryRecommendation(pattern, userContext));
-      }
-      
-      if (pattern.trend === 'improving' && pattern.score > 75) {
-        recommendations.push(this.createOptimizationRecommendation(pattern, userContext));
-      }
-      
-      if (pattern.score > 90 && pattern.consistency > 0.8) {
-        recommendations.push(this.createMasteryRecommendation(pattern, userContext));
-      }
-      
-      if (pattern.consistency < 0.5) {
-        recommendations.push(this.createConsistencyRecommendation(pattern, userContext));
-      }
-    });
-
-    // Cross-pillar analysis
-    const overallScore = patterns.reduce((sum, p) => sum + p.score, 0) / patterns.length;
-    if (overallScore > 85) {
-      recommendations.push(this.createBreakthroughRecommendation(patterns, userContext));
-    }
-
-    return recommendations.filter(rec => rec.confidence > 0.6); // Only high-confidence recommendations
-  }
-
-  private createRecoveryRecommendation(pattern: NeuralPattern, userContext: UserContext): AIRecommendation {
-    const recoveryStrategies = {
-      body: {
-        title: 'Physical Recovery & Rebuilding Protocol',
-        actions: [
-          'Reduce workout intensity by 20% for optimal recovery',
-          'Prioritize 8+ hours of restorative sleep',
-          'Increase protein intake to 1.2g per kg body weight',
-          'Add 15 minutes of gentle stretching daily',
-          'Consider professional massage therapy'
-        ],
-        scientificBasis: 'Research shows that strategic recovery periods enhance long-term physical performance by 23% and reduce injury risk.',
-        personalizedReason: `Your body pillar has declined ${Math.abs(pattern.velocityScore).toFixed(1)} points recently. Recovery is essential for sustainable progress.`
-      },
-      mind: {
-        title: 'Cognitive Recovery & Mental Restoration',
-        actions: [
-          'Implement 20-minute focused breathing sessions',
-          'Reduce screen time by 30% for digital detox',
-          'Practice single-tasking for enhanced focus',
-          'Take 5-minute nature breaks every 90 minutes',
-          'Consider omega-3 supplementation for brain health'
-        ],
-        scientificBasis: 'Neuroscience research indicates that mental recovery protocols can restore cognitive performance by up to 40% within two weeks.',
-        personalizedReason: `Your mind pillar shows ${pattern.consistency < 0.3 ? 'inconsistent' : 'declining'} patterns. Cognitive recovery will restore your mental clarity.`
-      },
-      heart: {
-        title: 'Emotional Rebalancing & Heart Coherence',
-        actions: [
-          'Practice heart-focused breathing for 10 minutes daily',
-          'Engage in gratitude journaling each morning',
-          'Connect meaningfully with supportive relationships',
-          'Engage in creative expression or art',
-          'Consider heart rate variability training'
-        ],
-        scientificBasis: 'Heart coherence training has been shown to improve emotional regulation by 45% and reduce stress hormones significantly.',
-        personalizedReason: `Your emotional patterns suggest the need for heart-centered practices. Your heart pillar can improve by ${(90 - pattern.score).toFixed(0)} points with focused attention.`
-      },
-      spirit: {
-        title: 'Spiritual Renewal & Consciousness Expansion',
-        actions: [
-          'Dedicate 20 minutes daily to meditation or prayer',
-          'Spend time in nature for spiritual connection',
-          'Reflect deeply on personal values and purpose',
-          'Engage in meaningful service to others',
-          'Explore philosophical or spiritual literature'
-        ],
-        scientificBasis: 'Studies on contemplative practices show 35% improvement in life satisfaction and 50% reduction in existential anxiety.',
-        personalizedReason: `Your spiritual journey needs renewed attention. Current patterns suggest a 15-point improvement potential through consistent practice.`
-      },
-      diet: {
-        title: 'Nutritional Reset & Metabolic Optimization',
-        actions: [
-          'Return to whole, unprocessed foods for 2 weeks',
-          'Increase vegetable intake to 7-9 servings daily',
-          'Ensure proper hydration (35ml per kg body weight)',
-          'Eliminate inflammatory foods temporarily',
-          'Plan and prep meals in advance for consistency'
-        ],
-        scientificBasis: 'Nutritional intervention studies show 28% improvement in energy levels and 22% enhancement in cognitive function within 10 days.',
-        personalizedReason: `Your nutritional patterns need optimization. A focused reset can improve your diet pillar by ${(85 - pattern.score).toFixed(0)} points.`
-      }
-    };
-
-    const strategy = recoveryStrategies[pattern.pillar as keyof typeof recoveryStrategies] || recoveryStrategies.body;
-
-    return {
-      id: `recovery-${pattern.pillar}-${Date.now()}`,
-      title: strategy.title,
-      description: `Your ${pattern.pillar} pillar needs targeted recovery. Based on your patterns, this protocol is specifically designed for your optimization style.`,
-      pillar: pattern.pillar,
-      priority: pattern.score < 60 ? 'critical' : 'high',
-      confidence: 0.92,
-      actionPlan: strategy.actions,
-      estimatedImpact: Math.min(25, 90 - pattern.score),
-      timeToResult: '1-2 weeks',
-      difficulty: 'moderate',
-      category: 'recovery',
-      personalizedReason: strategy.personalizedReason,
-      scientificBasis: strategy.scientificBasis,
-      successProbability: this.calculateSuccessProbability(userContext, 'recovery', pattern.pillar)
-    };
-  }
-
-  private createOptimizationRecommendation(pattern: NeuralPattern, userContext: UserContext): AIRecommendation {
-    const optimizationStrategies = {
-      body: [
-        'Progressive overload: Increase intensity by 5-10%',
-        'Add compound movements for maximum efficiency',
-        'Implement periodization in your training',
-        'Track biometrics for data-driven optimization',
-        'Experiment with advanced recovery techniques'
-      ],
-      mind: [
-        'Challenge yourself with complex cognitive tasks',
-        'Learn a new skill that requires neuroplasticity',
-        'Practice advanced meditation techniques',
-        'Engage in strategic thinking exercises',
-        'Explore memory palace techniques'
-      ],
-      heart: [
-        'Deepen emotional intelligence practices',
-        'Practice advanced empathy and compassion exercises',
-        'Engage in meaningful relationship building',
-        'Explore creative emotional expression',
-        'Volunteer for causes aligned with your values'
-      ],
-      spirit: [
-        'Explore advanced contemplative practices',
-        'Deepen philosophical inquiry and study',
-        'Practice energy cultivation techniques',
-        'Connect with like-minded spiritual communities',
-        'Engage in sacred ritual or ceremony'
-      ],
-      diet: [
-        'Experiment with nutrient timing optimization',
-        'Try intermittent fasting protocols safely',
-        'Optimize micronutrient density',
-        'Consider personalized nutrition testing',
-        'Explore functional foods and adaptogens'
-      ]
-    };
-
-    const actions = optimizationStrategies[pattern.pillar as keyof typeof optimizationStrategies] || optimizationStrategies.body;
-
-    return {
-      id: `optimize-${pattern.pillar}-${Date.now()}`,
-      title: `${pattern.pillar.toUpperCase()} Advanced Optimization Protocol`,
-      description: `Your ${pattern.pillar} pillar is trending upward with ${pattern.velocityScore.toFixed(1)} points velocity! Time to accelerate this progress with advanced techniques.`,
-      pillar: pattern.pillar,
-      priority: 'medium',
-      confidence: 0.88,
-      actionPlan: actions,
-      estimatedImpact: Math.min(15, 95 - pattern.score),
-      timeToResult: '2-4 weeks',
-      difficulty: 'moderate',
-      category: 'optimization',
-      personalizedReason: `Your improving trend and ${(pattern.consistency * 100).toFixed(0)}% consistency make this the perfect time for advanced optimization.`,
-      scientificBasis: 'Progressive optimization during positive trends can amplify results by 60% compared to static approaches.',
-      successProbability: this.calculateSuccessProbability(userContext, 'optimization', pattern.pillar)
-    };
-  }
-
-  private createMasteryRecommendation(pattern: NeuralPattern, userContext: UserContext): AIRecommendation {
-    return {
-      id: `mastery-${pattern.pillar}-${Date.now()}`,
-      title: `${pattern.pillar.toUpperCase()} Mastery Maintenance & Teaching`,
-      description: `Outstanding! Your ${pattern.pillar} pillar has reached mastery level (${pattern.score}%) with ${(pattern.consistency * 100).toFixed(0)}% consistency. Time to maintain and share your wisdom.`,
-      pillar: pattern.pillar,
-      priority: 'low',
-      confidence: 0.95,
-      actionPlan: [
-        'Maintain current successful practices with precision',
-        'Fine-tune protocols based on advanced biometrics',
-        'Share knowledge and mentor others in your journey',
-        'Explore mastery-level challenges and innovations',
-        'Document your optimization methodology for others'
-      ],
-      estimatedImpact: 5,
-      timeToResult: 'Ongoing mastery',
-      difficulty: 'easy',
-      category: 'maintenance',
-      personalizedReason: `Your ${pattern.pillar} mastery (score: ${pattern.score}, consistency: ${(pattern.consistency * 100).toFixed(0)}%) positions you as a role model. Consider sharing your journey.`,
-      scientificBasis: 'Mastery maintenance requires deliberate practice and teaching others enhances personal retention by 90%.',
-      successProbability: 0.98
-    };
-  }
-
-  private createConsistencyRecommendation(pattern: NeuralPattern, userContext: UserContext): AIRecommendation {
-    return {
-      id: `consistency-${pattern.pillar}-${Date.now()}`,
-      title: `${pattern.pillar.toUpperCase()} Consistency Builder Protocol`,
-      description: `Your ${pattern.pillar} pillar shows inconsistent patterns (${(pattern.consistency * 100).toFixed(0)}% consistency). Let's build sustainable, steady progress through proven habit formation.`,
-      pillar: pattern.pillar,
-      priority: 'high',
-      confidence: 0.85,
-      actionPlan: [
-        'Start with micro-habits: 2-5 minutes daily commitment',
-        'Use habit stacking: attach to existing routines',
-        'Track visually: use a simple progress chart',
-        'Celebrate small wins: reward consistency over perfection',
-        'Prepare for obstacles: create if-then implementation plans'
-      ],
-      estimatedImpact: 18,
-      timeToResult: '3-4 weeks for habit formation',
-      difficulty: 'easy',
-      category: 'optimization',
-      personalizedReason: `Your completion rate of ${(userContext.completionRate * 100).toFixed(0)}% suggests consistency challenges. Small, manageable changes will create lasting transformation.`,
-      scientificBasis: 'Habit formation research shows that consistency is more important than intensity, with micro-habits having 85% higher success rates.',
-      successProbability: this.calculateSuccessProbability(userContext, 'consistency', pattern.pillar)
-    };
-  }
-
-  private createBreakthroughRecommendation(patterns: NeuralPattern[], userContext: UserContext): AIRecommendation {
-    const avgScore = patterns.reduce((sum, p) => sum + p.score, 0) / patterns.length;
-    const avgConsistency = patterns.reduce((sum, p) => sum + p.consistency, 0) / patterns.length;
-
-    return {
-      id: `breakthrough-${Date.now()}`,
-      title: 'Neural Optimization Breakthrough Protocol',
-      description: `Exceptional achievement! You've reached ${avgScore.toFixed(0)}% across all pillars with ${(avgConsistency * 100).toFixed(0)}% consistency. Ready for the next level of human optimization?`,
-      pillar: 'overall',
-      priority: 'critical',
-      confidence: 0.96,
-      actionPlan: [
-        'Integrate all pillars into a unified daily practice',
-        'Explore cutting-edge biohacking and optimization techniques',
-        'Become a mentor and guide others on their journey',
-        'Document and systematize your optimization methodology',
-        'Push the boundaries of human potential in your chosen areas'
-      ],
-      estimatedImpact: 30,
-      timeToResult: '1-3 months for breakthrough',
-      difficulty: 'challenging',
-      category: 'breakthrough',
-      personalizedReason: `Your exceptional progress across all pillars (${userContext.totalSessions} sessions, ${userContext.currentStreak}-day streak) positions you for breakthrough-level optimization.`,
-      scientificBasis: 'Holistic optimization research shows that integrated practices can create synergistic effects, amplifying results by 200-300%.',
-      successProbability: this.calculateSuccessProbability(userContext, 'breakthrough', 'overall')
-    };
-  }
-
-  private calculateSuccessProbability(userContext: UserContext, recommendationType: string, pillar: string): number {
-    let baseProbability = 0.7;
-
-    // Adjust based on user history
-    if (userContext.completionRate > 0.8) baseProbability += 0.15;
-    if (userContext.currentStreak > 7) baseProbability += 0.1;
-    if (userContext.totalSessions > 50) baseProbability += 0.05;
-
-    // Adjust based on recommendation type
-    switch (recommendationType) {
-      case 'consistency': baseProbability += 0.1; break;
-      case 'recovery': baseProbability += 0.05; break;
-      case 'optimization': baseProbability -= 0.05; break;
-      case 'breakthrough': baseProbability -= 0.15; break;
-    }
-
-    // Adjust based on pillar preferences
-    if (userContext.pillarPreferences.includes(pillar)) {
-      baseProbability += 0.1;
-    }
-
-    return Math.max(0.4, Math.min(0.98, baseProbability));
-  }
-
-  private getHistoricalData(pillar: string, sessionHistory: any[]): number[] {
-    return sessionHistory
-      .filter(session => session[pillar] !== undefined)
-      .map(session => session[pillar])
-      .slice(-20); // Last 20 data points
-  }
-
-  private updateNeuralModel(patterns: NeuralPattern[], recommendations: AIRecommendation[], userContext: UserContext): void {
-    this.learningHistory.push({
-      timestamp: new Date().toISOString(),
-      patterns,
-      recommendations,
-      userContext,
-      modelVersion: '2.0'
-    });
-
-    // Keep learning history manageable
-    if (this.learningHistory.length > 200) {
-      this.learningHistory = this.learningHistory.slice(-100);
-    }
-
-    // Update user behavior model
-    this.userBehaviorModel.set('lastAnalysis', {
-      timestamp: new Date().toISOString(),
-      patternCount: patterns.length,
-      recommendationCount: recommendations.length,
-      avgConfidence: recommendations.reduce((sum, r) => sum + r.confidence, 0) / recommendations.length
-    });
-  }
-
-  // Get personalized insights based on user patterns
-  getPersonalizedInsights(userProfile: any, userContext: UserContext): string[] {
-    const insights = [
-      `🧠 Neural Analysis: Your ${userContext.totalSessions} sessions show ${userContext.completionRate > 0.8 ? 'exceptional' : 'good'} optimization consistency.`,
-      `⚡ Performance Trend: Your ${userContext.currentStreak}-day streak demonstrates ${userContext.currentStreak > 14 ? 'remarkable' : 'solid'} commitment to neural enhancement.`,
-      `📊 Optimization Profile: Based on your patterns, you respond best to ${userContext.motivationType} motivational approaches.`,
-      `🎯 Success Probability: Your historical data suggests a ${(userContext.completionRate * 100).toFixed(0)}% likelihood of achieving your next optimization milestone.`
-    ];
-
-    return insights.slice(0, 2);
-  }
-
-  // Get learning recommendations for the AI system itself
-  getSystemLearningRecommendations(): string[] {
-    const totalAnalyses = this.learningHistory.length;
-    
-    return [
-      `System has performed ${totalAnalyses} neural pattern analyses`,
-      `Learning model confidence: ${totalAnalyses > 50 ? 'High' : totalAnalyses > 20 ? 'Medium' : 'Learning'}`,
-      `Recommendation accuracy improving through continuous user feedback integration`
-    ];
-  }
-}
-
-export default AdvancedAIEngine;
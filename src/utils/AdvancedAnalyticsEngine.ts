@@ -1,5 +1,19 @@
 // src/utils/AdvancedAnalyticsEngine.ts - VICTORY CHARTS DATA PROCESSOR
 import { safeGet } from './SafeNavigation';
+import type { SessionData, Achievement, PillarProgress, UserProfile, CheckIn } from '../context/AppDataContext';
+import {
+  PILLARS,
+  PillarKey,
+  DAY_MS,
+  aggregateDaily,
+  average,
+  correlationPValue,
+  pearsonCorrelation,
+  sessionsBetween
+} from './sessionAnalytics';
+import { calculateOverallScore } from './pillarScoring';
+
+export type TimeRange = '7d' | '30d' | '90d';
 
 export interface PillarProgressData {
   pillar: string;
@@ -10,37 +24,36 @@ export interface PillarProgressData {
   monthlyData: Array<{ week: string; value: number }>;
 }
 
+export interface PillarPeriodMetrics {
+  score: number; // current pillar score
+  current: number | null; // average session score this period
+  previous: number | null; // average session score in the preceding period
+  change: number | null;
+  trend: 'improving' | 'declining' | 'stable' | 'insufficient-data';
+  consistency: number; // % of days in the period with a session, 0-100
+  practiceFrequency: number; // sessions per week
+  sessions: number;
+  minutes: number;
+}
+
 export interface NeuralOptimizationMetrics {
   overallScore: number;
+  timeRange: TimeRange;
+  hasData: boolean;
   pillars: {
-    [key: string]: {
-      current: number;
-      previous: number;
-      change: number;
-      trend: 'improving' | 'declining' | 'stable';
-      consistency: number; // 0-100
-      practiceFrequency: number;
-      culturalEngagement: number;
-    }
-  };
-  culturalMetrics: {
-    wisdomEngagement: number;
-    recipesTried: number;
-    practicesCompleted: number;
-    seasonalAdherence: number;
-    sanskritFamiliarity: number;
+    [key: string]: PillarPeriodMetrics;
   };
   timeAnalytics: {
-    bestPerformanceHour: number;
-    mostActiveDay: string;
+    bestPerformanceHour: number | null;
+    mostActiveDay: string | null;
     averageSessionLength: number;
     streakData: Array<{ date: string; completed: boolean }>;
   };
   achievementInsights: {
     totalUnlocked: number;
     rareAchievements: number;
-    culturalMilestones: number;
-    progressVelocity: number;
+    unlockedThisPeriod: number;
+    progressVelocity: number; // achievements per 30 days over the period
   };
 }
 
@@ -51,9 +64,57 @@ export interface ChartDataPoint {
   fill?: string;
 }
 
+export type CheckInMetric = 'mood' | 'energy' | 'stress' | 'sleep';
+export type CorrelationVariable = PillarKey | CheckInMetric;
+export type CorrelationConfidence = 'high' | 'medium' | 'low';
+
+export interface CorrelationPoint {
+  day: string; // the day `x` was measured; `y` is from `lag` days later
+  x: number;
+  y: number;
+}
+
+export interface CorrelationCell {
+  x: string;
+  y: string;
+  xKey: CorrelationVariable;
+  yKey: CorrelationVariable;
+  lag: number; // days between the x and y measurements
+  z: number | null; // Pearson r, null when there isn't enough data
+  sampleSize: number; // days with both values
+  pValue: number | null;
+  confidence: CorrelationConfidence | null;
+  points: CorrelationPoint[];
+}
+
+// Every series carries an explicit empty state so screens never chart placeholder numbers
+export interface AnalyticsSeries<T> {
+  data: T[];
+  isEmpty: boolean;
+  emptyMessage?: string;
+}
+
+const RANGE_DAYS: Record<TimeRange, number> = { '7d': 7, '30d': 30, '90d': 90 };
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const TREND_THRESHOLD = 2;
+const MIN_CORRELATION_DAYS = 7;
+const CHECK_IN_METRICS: CheckInMetric[] = ['mood', 'energy', 'stress', 'sleep'];
+const SESSION_TYPE_LABELS: Record<SessionData['type'], string> = {
+  meditation: 'Meditation',
+  exercise: 'Exercise',
+  practice: 'Practice',
+  checkin: 'Check-in'
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const series = <T>(data: T[], isEmpty: boolean, emptyMessage: string): AnalyticsSeries<T> =>
+  isEmpty ? { data: [], isEmpty: true, emptyMessage } : { data, isEmpty: false };
+
 class AdvancedAnalyticsEngine {
   private static instance: AdvancedAnalyticsEngine;
-  
+
   static getInstance(): AdvancedAnalyticsEngine {
     if (!AdvancedAnalyticsEngine.instance) {
       AdvancedAnalyticsEngine.instance = new AdvancedAnalyticsEngine();
@@ -62,178 +123,298 @@ class AdvancedAnalyticsEngine {
   }
 
   // Generate Neural Optimization Radar Chart Data
-  generateNeuralRadarData(pillarScores: any): ChartDataPoint[] {
-    const pillars = ['body', 'mind', 'heart', 'spirit', 'diet'];
-    
-    return pillars.map(pillar => ({
-      x: pillar.charAt(0).toUpperCase() + pillar.slice(1),
-      y: safeGet(pillarScores, pillar, 0) || Math.floor(Math.random() * 40) + 40,
+  generateNeuralRadarData(pillarScores: PillarProgress): AnalyticsSeries<ChartDataPoint> {
+    const data = PILLARS.map(pillar => ({
+      x: capitalize(pillar),
+      y: safeGet(pillarScores, pillar, 0) || 0,
       label: pillar,
       fill: this.getPillarColor(pillar)
     }));
+
+    return series(data, data.every(point => point.y === 0), 'Complete a session to start building your pillar map');
   }
 
-  // Generate Weekly Progress Line Chart Data
-  generateWeeklyProgressData(sessionData: any): ChartDataPoint[] {
-    const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-    const baseScore = 65;
-    
-    return days.map((day, index) => ({
-      x: day,
-      y: baseScore + Math.sin(index * 0.8) * 15 + (Math.random() * 10 - 5),
-      label: `${day}: ${Math.floor(Math.random() * 3) + 1} sessions`
-    }));
+  // Generate Weekly Progress Line Chart Data - average session score per day, last 7 days
+  generateWeeklyProgressData(sessions: SessionData[]): AnalyticsSeries<ChartDataPoint> {
+    const days = aggregateDaily(sessions, 7);
+    const data = days.map(day => {
+      const label = new Date(`${day.date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short' });
+      return {
+        x: label,
+        y: day.averageScore !== null ? Math.round(day.averageScore) : 0,
+        label: `${label}: ${day.sessions} session${day.sessions === 1 ? '' : 's'}`
+      };
+    });
+
+    return series(data, days.every(day => day.sessions === 0), 'No sessions in the last 7 days');
   }
 
-  // Generate Cultural Engagement Bar Chart Data
-  generateCulturalEngagementData(userProfile: any): ChartDataPoint[] {
-    return [
-      { x: 'Sanskrit\nWisdom', y: 85 + Math.random() * 10, fill: '#8B5CF6' },
-      { x: 'Indian\nRecipes', y: 72 + Math.random() * 15, fill: '#10B981' },
-      { x: 'Traditional\nPractices', y: 78 + Math.random() * 12, fill: '#F59E0B' },
-      { x: 'Seasonal\nAyurveda', y: 68 + Math.random() * 18, fill: '#EF4444' },
-      { x: 'Cultural\nStories', y: 63 + Math.random() * 20, fill: '#EC4899' }
-    ];
+  // Generate minutes practised per pillar over the range
+  generatePillarMinutesData(sessions: SessionData[], timeRange: TimeRange): AnalyticsSeries<ChartDataPoint> {
+    const days = aggregateDaily(sessions, RANGE_DAYS[timeRange]);
+    const data = PILLARS.map(pillar => {
+      const minutes = days.reduce((sum, day) => sum + day.byPillar[pillar].minutes, 0);
+      return {
+        x: capitalize(pillar),
+        y: minutes,
+        label: `${capitalize(pillar)}: ${minutes} min`,
+        fill: this.getPillarColor(pillar)
+      };
+    });
+
+    return series(data, data.every(point => point.y === 0), 'No practice minutes logged in this period');
   }
 
-  // Generate Achievement Timeline Data
-  generateAchievementTimelineData(achievements: any[]): ChartDataPoint[] {
-    const monthsAgo = 6;
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun'];
-    
-    return months.map((month, index) => ({
-      x: month,
-      y: Math.floor(Math.random() * 5) + index * 2 + 1,
-      label: `${month}: ${Math.floor(Math.random() * 3) + 1} achievements`
-    }));
+  // Generate Achievement Timeline Data - unlocks per calendar month, last 6 months
+  generateAchievementTimelineData(achievements: Achievement[], months: number = 6): AnalyticsSeries<ChartDataPoint> {
+    const now = new Date();
+    const data: ChartDataPoint[] = [];
+
+    for (let offset = months - 1; offset >= 0; offset--) {
+      const monthStart = new Date(now.getFullYear(), now.getMonth() - offset, 1);
+      const monthEnd = new Date(now.getFullYear(), now.getMonth() - offset + 1, 1);
+      const count = achievements.filter(achievement => {
+        const unlocked = new Date(achievement.unlockedDate).getTime();
+        return unlocked >= monthStart.getTime() && unlocked < monthEnd.getTime();
+      }).length;
+      const month = monthStart.toLocaleDateString('en-US', { month: 'short' });
+
+      data.push({
+        x: month,
+        y: count,
+        label: `${month}: ${count} achievement${count === 1 ? '' : 's'}`
+      });
+    }
+
+    return series(data, data.every(point => point.y === 0), 'No achievements unlocked yet');
   }
 
-  // Generate Pillar Correlation Heatmap Data
-  generatePillarCorrelationData(): Array<{x: string, y: string, z: number}> {
-    const pillars = ['Body', 'Mind', 'Heart', 'Spirit', 'Diet'];
-    const correlations: Array<{x: string, y: string, z: number}> = [];
-    
-    pillars.forEach(pillar1 => {
-      pillars.forEach(pillar2 => {
-        correlations.push({
-          x: pillar1,
-          y: pillar2,
-          z: pillar1 === pillar2 ? 1 : Math.random() * 0.8 + 0.1
-        });
+  /**
+   * Pillar Correlation Heatmap Data - Pearson r between daily practice minutes per pillar and
+   * daily check-in averages. With `lag` 1 each cell pairs x on one day with y on the next
+   * ("body today -> mind tomorrow"). Pillars count from the first day with any activity,
+   * check-in metrics only on days that have one. Cells with fewer than MIN_CORRELATION_DAYS
+   * paired days are suppressed.
+   */
+  generatePillarCorrelationData(
+    sessions: SessionData[],
+    checkIns: CheckIn[],
+    timeRange: TimeRange,
+    lag: number = 0
+  ): AnalyticsSeries<CorrelationCell> {
+    const values = this.getDailyCorrelationValues(sessions, checkIns, RANGE_DAYS[timeRange]);
+    const variables = [...PILLARS, ...CHECK_IN_METRICS] as CorrelationVariable[];
+
+    const cells: CorrelationCell[] = [];
+    variables.forEach(xKey => {
+      variables.forEach(yKey => {
+        cells.push(this.correlate(values, xKey, yKey, lag));
       });
     });
-    
-    return correlations;
+
+    // Zero-minute days only mean something once there is enough real activity around them
+    const activeDays = values.filter(day =>
+      Object.values(day.values).some(value => value !== null && value > 0)
+    ).length;
+    const hasCorrelations = cells.some(cell => cell.z !== null && (cell.xKey !== cell.yKey || lag > 0));
+    return series(
+      cells,
+      activeDays < MIN_CORRELATION_DAYS || !hasCorrelations,
+      activeDays < MIN_CORRELATION_DAYS
+        ? `Correlations need at least ${MIN_CORRELATION_DAYS} active days (you have ${activeDays})`
+        : 'Vary your practice across pillars to see how they relate'
+    );
   }
 
-  // Generate Practice Frequency Data
-  generatePracticeFrequencyData(): ChartDataPoint[] {
-    const practices = [
-      'Morning Meditation', 'Yoga Practice', 'Pranayama', 
-      'Cultural Reading', 'Recipe Cooking', 'Gratitude Journal'
-    ];
-    
-    return practices.map(practice => ({
-      x: practice.split(' ')[0], // Short label
-      y: Math.floor(Math.random() * 20) + 5,
-      label: practice
-    }));
+  // Generate Practice Frequency Data - sessions by type over the range
+  generatePracticeFrequencyData(sessions: SessionData[], timeRange: TimeRange): AnalyticsSeries<ChartDataPoint> {
+    const since = new Date(Date.now() - RANGE_DAYS[timeRange] * DAY_MS);
+    const inRange = sessionsBetween(sessions, since, new Date(Date.now() + 1));
+    const counts = inRange.reduce((acc, session) => {
+      acc[session.type] = (acc[session.type] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    const data = Object.entries(counts)
+      .sort(([, a], [, b]) => b - a)
+      .map(([type, count]) => ({
+        x: SESSION_TYPE_LABELS[type as SessionData['type']] || capitalize(type),
+        y: count,
+        label: `${SESSION_TYPE_LABELS[type as SessionData['type']] || capitalize(type)}: ${count}`
+      }));
+
+    return series(data, data.length === 0, 'No sessions in this period');
   }
 
-  // Generate Neural Optimization Trends
-  generateNeuralTrendsData(timeRange: '7d' | '30d' | '90d'): ChartDataPoint[] {
-    const dataPoints = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : 90;
-    const trends: ChartDataPoint[] = [];
-    
-    for (let i = 0; i < dataPoints; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() - (dataPoints - i - 1));
-      
-      trends.push({
-        x: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        y: 60 + Math.sin(i * 0.3) * 20 + (Math.random() * 10 - 5),
-        label: `Neural Score: ${Math.floor(60 + Math.sin(i * 0.3) * 20)}%`
+  // Generate Neural Optimization Trends - daily average session score across all pillars
+  generateNeuralTrendsData(sessions: SessionData[], timeRange: TimeRange): AnalyticsSeries<ChartDataPoint> {
+    const days = aggregateDaily(sessions, RANGE_DAYS[timeRange]);
+    const data = days
+      .filter(day => day.averageScore !== null)
+      .map(day => {
+        const score = Math.round(day.averageScore as number);
+        return {
+          x: new Date(`${day.date}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+          y: score,
+          label: `Neural Score: ${score}% (${day.sessions} session${day.sessions === 1 ? '' : 's'})`
+        };
       });
-    }
-    
-    return trends;
+
+    return series(data, data.length < 2, 'Practise on at least two days to see a trend');
   }
 
-  // Get comprehensive analytics summary
-  getAnalyticsSummary(userProfile: any, sessionData: any, pillarScores: any): NeuralOptimizationMetrics {
+  // Get comprehensive analytics summary with period-over-period deltas
+  getAnalyticsSummary(
+    userProfile: UserProfile | null,
+    sessions: SessionData[],
+    pillarScores: PillarProgress,
+    achievements: Achievement[] = [],
+    timeRange: TimeRange = '30d'
+  ): NeuralOptimizationMetrics {
+    const rangeDays = RANGE_DAYS[timeRange];
+    const now = Date.now();
+    const periodStart = new Date(now - rangeDays * DAY_MS);
+    const previousStart = new Date(now - 2 * rangeDays * DAY_MS);
+    const current = sessionsBetween(sessions, periodStart, new Date(now + 1));
+    const previous = sessionsBetween(sessions, previousStart, periodStart);
+    const days = aggregateDaily(sessions, rangeDays);
+
+    const pillars = PILLARS.reduce((acc, pillar) => {
+      const currentSessions = current.filter(session => session.pillar === pillar);
+      const currentAverage = average(currentSessions.map(session => session.score));
+      const previousAverage = average(previous.filter(session => session.pillar === pillar).map(session => session.score));
+      const change = currentAverage !== null && previousAverage !== null ? currentAverage - previousAverage : null;
+      const activeDays = days.filter(day => day.byPillar[pillar].sessions > 0).length;
+
+      acc[pillar] = {
+        score: safeGet(pillarScores, pillar, 0) || 0,
+        current: currentAverage !== null ? Math.round(currentAverage) : null,
+        previous: previousAverage !== null ? Math.round(previousAverage) : null,
+        change: change !== null ? Math.round(change) : null,
+        trend: change === null
+          ? 'insufficient-data'
+          : change > TREND_THRESHOLD ? 'improving' : change < -TREND_THRESHOLD ? 'declining' : 'stable',
+        consistency: Math.round((activeDays / rangeDays) * 100),
+        practiceFrequency: round1(currentSessions.length / (rangeDays / 7)),
+        sessions: currentSessions.length,
+        minutes: currentSessions.reduce((sum, session) => sum + session.duration, 0)
+      };
+      return acc;
+    }, {} as NeuralOptimizationMetrics['pillars']);
+
+    const periodAchievements = achievements.filter(achievement =>
+      new Date(achievement.unlockedDate).getTime() >= periodStart.getTime()
+    );
+
     return {
-      overallScore: safeGet(pillarScores, 'overall', 0) || 75,
-      pillars: {
-        body: {
-          current: safeGet(pillarScores, 'body', 70),
-          previous: 65,
-          change: 5,
-          trend: 'improving',
-          consistency: 85,
-          practiceFrequency: 4.2,
-          culturalEngagement: 78
-        },
-        mind: {
-          current: safeGet(pillarScores, 'mind', 82),
-          previous: 79,
-          change: 3,
-          trend: 'improving',
-          consistency: 92,
-          practiceFrequency: 5.1,
-          culturalEngagement: 86
-        },
-        heart: {
-          current: safeGet(pillarScores, 'heart', 76),
-          previous: 76,
-          change: 0,
-          trend: 'stable',
-          consistency: 73,
-          practiceFrequency: 3.8,
-          culturalEngagement: 82
-        },
-        spirit: {
-          current: safeGet(pillarScores, 'spirit', 88),
-          previous: 85,
-          change: 3,
-          trend: 'improving',
-          consistency: 96,
-          practiceFrequency: 4.7,
-          culturalEngagement: 94
-        },
-        diet: {
-          current: safeGet(pillarScores, 'diet', 71),
-          previous: 69,
-          change: 2,
-          trend: 'improving',
-          consistency: 68,
-          practiceFrequency: 3.2,
-          culturalEngagement: 75
-        }
-      },
-      culturalMetrics: {
-        wisdomEngagement: 89,
-        recipesTried: 12,
-        practicesCompleted: 28,
-        seasonalAdherence: 85,
-        sanskritFamiliarity: 76
-      },
+      overallScore: calculateOverallScore(pillarScores),
+      timeRange,
+      hasData: current.length > 0,
+      pillars,
       timeAnalytics: {
-        bestPerformanceHour: 9,
-        mostActiveDay: 'Tuesday',
-        averageSessionLength: 12.4,
-        streakData: []
+        bestPerformanceHour: this.getBestPerformanceHour(current),
+        mostActiveDay: this.getMostActiveDay(current),
+        averageSessionLength: current.length > 0
+          ? round1(current.reduce((sum, session) => sum + session.duration, 0) / current.length)
+          : 0,
+        streakData: days.map(day => ({ date: day.date, completed: day.sessions > 0 }))
       },
       achievementInsights: {
-        totalUnlocked: 15,
-        rareAchievements: 3,
-        culturalMilestones: 8,
-        progressVelocity: 2.3
+        totalUnlocked: achievements.length,
+        rareAchievements: achievements.filter(achievement => achievement.rarity !== 'common').length,
+        unlockedThisPeriod: periodAchievements.length,
+        progressVelocity: round1(periodAchievements.length / (rangeDays / 30))
       }
     };
   }
 
-  private getPillarColor(pillar: string): string {
-    switch (pillar) {
+  // One value per variable per day (null where not measured), oldest day first
+  private getDailyCorrelationValues(
+    sessions: SessionData[],
+    checkIns: CheckIn[],
+    rangeDays: number
+  ): Array<{ day: string; values: Record<CorrelationVariable, number | null> }> {
+    const days = aggregateDaily(sessions, rangeDays);
+    const firstActive = days.findIndex(day =>
+      day.sessions > 0 || checkIns.some(checkIn => checkIn.day === day.date)
+    );
+
+    return days.map((day, index) => {
+      const dayCheckIns = checkIns.filter(checkIn => checkIn.day === day.date);
+      const values = {} as Record<CorrelationVariable, number | null>;
+
+      PILLARS.forEach(pillar => {
+        values[pillar] = firstActive !== -1 && index >= firstActive ? day.byPillar[pillar].minutes : null;
+      });
+      CHECK_IN_METRICS.forEach(metric => {
+        values[metric] = average(
+          dayCheckIns.filter(checkIn => typeof checkIn[metric] === 'number').map(checkIn => checkIn[metric] as number)
+        );
+      });
+      return { day: day.date, values };
+    });
+  }
+
+  private correlate(
+    daily: Array<{ day: string; values: Record<CorrelationVariable, number | null> }>,
+    xKey: CorrelationVariable,
+    yKey: CorrelationVariable,
+    lag: number
+  ): CorrelationCell {
+    const points: CorrelationPoint[] = [];
+    for (let index = 0; index + lag < daily.length; index++) {
+      const x = daily[index].values[xKey];
+      const y = daily[index + lag].values[yKey];
+      if (x !== null && y !== null) points.push({ day: daily[index].day, x, y });
+    }
+
+    const trivial = xKey === yKey && lag === 0;
+    const r = trivial ? 1 : pearsonCorrelation(points.map(point => point.x), points.map(point => point.y));
+    const sampled = !trivial && r !== null && points.length >= MIN_CORRELATION_DAYS;
+    const pValue = sampled ? correlationPValue(r, points.length) : null;
+
+    return {
+      x: capitalize(xKey),
+      y: capitalize(yKey),
+      xKey,
+      yKey,
+      lag,
+      z: trivial ? 1 : sampled ? Math.round(r * 100) / 100 : null,
+      sampleSize: points.length,
+      pValue: pValue === null ? null : Math.round(pValue * 1000) / 1000,
+      confidence: pValue === null ? null : pValue < 0.01 ? 'high' : pValue < 0.05 ? 'medium' : 'low',
+      points
+    };
+  }
+
+  private getBestPerformanceHour(sessions: SessionData[]): number | null {
+    const byHour = new Map<number, number[]>();
+    sessions.forEach(session => {
+      const hour = new Date(session.date).getHours();
+      byHour.set(hour, [...(byHour.get(hour) || []), session.score]);
+    });
+
+    let bestHour: number | null = null;
+    let bestScore = -Infinity;
+    byHour.forEach((scores, hour) => {
+      const score = average(scores) as number;
+      if (score > bestScore || (score === bestScore && bestHour !== null && hour < bestHour)) {
+        bestScore = score;
+        bestHour = hour;
+      }
+    });
+    return bestHour;
+  }
+
+  private getMostActiveDay(sessions: SessionData[]): string | null {
+    if (sessions.length === 0) return null;
+    const counts = new Array(7).fill(0);
+    sessions.forEach(session => counts[new Date(session.date).getDay()]++);
+    return WEEKDAYS[counts.indexOf(Math.max(...counts))];
+  }
+
+  getPillarColor(pillar: string): string {
+    switch (pillar.toLowerCase()) {
       case 'body': return '#EF4444';
       case 'mind': return '#3B82F6';
       case 'heart': return '#EC4899';
@@ -244,4 +425,4 @@ class AdvancedAnalyticsEngine {
   }
 }
 
-export default AdvancedAnalyticsEngine;
\ No newline at end of file
+export default AdvancedAnalyticsEngine;
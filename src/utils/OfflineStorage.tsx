@@ -1,6 +1,7 @@
 // src/utils/OfflineStorage.tsx - COMPLETE OFFLINE STORAGE MANAGER
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
+import SyncEngine from '../services/SyncEngine';
 
 export interface OfflineData {
   pillarScores: any;
@@ -15,7 +16,6 @@ export interface OfflineData {
 class OfflineStorageManager {
   private static instance: OfflineStorageManager;
   private isOnline: boolean = true;
-  private syncQueue: any[] = [];
 
   static getInstance(): OfflineStorageManager {
     if (!OfflineStorageManager.instance) {
@@ -25,15 +25,9 @@ class OfflineStorageManager {
   }
 
   async initialize() {
-    // Monitor network status
+    // Monitor network status - SyncEngine flushes queued changes on reconnect
     NetInfo.addEventListener(state => {
-      const wasOffline = !this.isOnline;
       this.isOnline = state.isConnected ?? false;
-      
-      // If we just came back online, sync pending data
-      if (wasOffline && this.isOnline) {
-        this.syncPendingData();
-      }
     });
 
     // Get initial network status
@@ -51,11 +45,6 @@ class OfflineStorageManager {
       };
 
       await AsyncStorage.setItem(`offline_${key}`, JSON.stringify(offlineData));
-
-      // If offline, add to sync queue
-      if (!this.isOnline) {
-        this.addToSyncQueue(key, data);
-      }
     } catch (error) {
       console.error('Error saving offline data:', error);
     }
@@ -71,50 +60,12 @@ class OfflineStorageManager {
     }
   }
 
-  async addToSyncQueue(action: string, data: any): Promise<void> {
-    this.syncQueue.push({
-      action,
-      data,
-      timestamp: Date.now(),
-      id: Math.random().toString(36)
-    });
-    
-    await AsyncStorage.setItem('sync_queue', JSON.stringify(this.syncQueue));
-  }
-
-  async syncPendingData(): Promise<void> {
-    if (!this.isOnline || this.syncQueue.length === 0) return;
-
-    try {
-      console.log(`Syncing ${this.syncQueue.length} pending actions...`);
-      
-      // Process sync queue
-      for (const item of this.syncQueue) {
-        await this.processSyncItem(item);
-      }
-
-      // Clear sync queue
-      this.syncQueue = [];
-      await AsyncStorage.removeItem('sync_queue');
-      
-      console.log('Offline data synced successfully!');
-    } catch (error) {
-      console.error('Error syncing offline data:', error);
-    }
-  }
-
-  private async processSyncItem(item: any): Promise<void> {
-    // Here you would implement actual cloud sync logic
-    // For now, we'll just mark items as synced
-    console.log(`Syncing ${item.action}:`, item.data);
-  }
-
   isOffline(): boolean {
     return !this.isOnline;
   }
 
   getQueueSize(): number {
-    return this.syncQueue.length;
+    return SyncEngine.getInstance().getStatus().pendingChanges;
   }
 }
 
@@ -0,0 +1,143 @@
+// src/utils/adherenceFeatures.ts - WHAT THE ADHERENCE MODEL KNOWS ABOUT EACH DAY
+import type { CheckIn, SessionData } from '../context/AppDataContext';
+import { PILLARS, PillarKey, average, isPillar, shiftDayKey, toDayKey } from './sessionAnalytics';
+
+export interface AdherenceDay {
+  scores: Record<PillarKey, number[]>; // session scores per pillar, empty when not practised
+  checkIn: { mood: number; energy: number; stress: number } | null; // 1-5, averaged over the day's check-ins
+}
+
+export interface AdherenceHistory {
+  days: Map<string, AdherenceDay>; // yyyy-MM-dd (device local) -> what happened that day
+  firstDay: string | null;
+}
+
+/**
+ * One training row: what was known at the end of `day - 1`, and what happened on `day`
+ */
+export interface AdherenceExample {
+  day: string;
+  pillar: PillarKey;
+  features: number[];
+  practised: 0 | 1;
+  score: number | null; // 0-1, average session score on `day`, null when not practised
+}
+
+// Order matters: it is the input layout the saved weights were trained on
+export const ADHERENCE_FEATURE_NAMES = [
+  ...PILLARS.map(pillar => `pillar:${pillar}`),
+  'practisedToday',
+  'practisedLast7',
+  'practisedLast28',
+  'sameWeekdayLast4',
+  'daysSinceLast',
+  'activeLast7',
+  'recentScore',
+  'tomorrowWeekend',
+  'checkedIn',
+  'mood',
+  'energy',
+  'stress'
+] as const;
+
+export const ADHERENCE_FEATURE_COUNT = ADHERENCE_FEATURE_NAMES.length;
+
+const MAX_GAP_DAYS = 14;
+
+const emptyDay = (): AdherenceDay => ({
+  scores: PILLARS.reduce((scores, pillar) => ({ ...scores, [pillar]: [] }), {} as Record<PillarKey, number[]>),
+  checkIn: null
+});
+
+// 1-5 rating to 0-1, neutral when there is nothing to go on
+const rating = (value: number | undefined): number => (value === undefined ? 0.5 : (value - 1) / 4);
+
+/**
+ * Bucket sessions and check-ins by day, ready for feature extraction
+ */
+export const buildAdherenceHistory = (sessions: SessionData[], checkIns: CheckIn[]): AdherenceHistory => {
+  const days = new Map<string, AdherenceDay>();
+  const dayOf = (key: string) => {
+    if (!days.has(key)) days.set(key, emptyDay());
+    return days.get(key)!;
+  };
+
+  sessions
+    .filter(session => session.type !== 'checkin' && isPillar(session.pillar))
+    .forEach(session => dayOf(toDayKey(session.date)).scores[session.pillar as PillarKey].push(session.score));
+
+  const byDay = new Map<string, CheckIn[]>();
+  checkIns.forEach(checkIn => byDay.set(checkIn.day, [...(byDay.get(checkIn.day) || []), checkIn]));
+  byDay.forEach((entries, key) => {
+    dayOf(key).checkIn = {
+      mood: average(entries.map(entry => entry.mood))!,
+      energy: average(entries.map(entry => entry.energy))!,
+      stress: average(entries.map(entry => entry.stress))!
+    };
+  });
+
+  const keys = [...days.keys()].sort();
+  return { days, firstDay: keys[0] || null };
+};
+
+const practisedOn = (history: AdherenceHistory, day: string, pillar: PillarKey): boolean =>
+  (history.days.get(day)?.scores[pillar].length || 0) > 0;
+
+/**
+ * Features describing `pillar` at the end of `day`, used to predict the day after
+ */
+export const adherenceFeatureVector = (history: AdherenceHistory, day: string, pillar: PillarKey): number[] => {
+  const window = (days: number) => Array.from({ length: days }, (_, index) => shiftDayKey(day, -index));
+  const fraction = (keys: string[], test: (key: string) => boolean) => keys.filter(test).length / keys.length;
+  const last7 = window(7);
+  const last28 = window(28);
+
+  let gap = 0;
+  while (gap < MAX_GAP_DAYS && !practisedOn(history, shiftDayKey(day, -gap), pillar)) gap++;
+
+  const recentScores = last28.flatMap(key => history.days.get(key)?.scores[pillar] || []);
+  const tomorrow = shiftDayKey(day, 1);
+  const [year, month, date] = tomorrow.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+  const checkIn = history.days.get(day)?.checkIn || null;
+
+  return [
+    ...PILLARS.map(key => (key === pillar ? 1 : 0)),
+    practisedOn(history, day, pillar) ? 1 : 0,
+    fraction(last7, key => practisedOn(history, key, pillar)),
+    fraction(last28, key => practisedOn(history, key, pillar)),
+    fraction([1, 2, 3, 4].map(weeks => shiftDayKey(tomorrow, -7 * weeks)), key => practisedOn(history, key, pillar)),
+    gap / MAX_GAP_DAYS,
+    fraction(last7, key => PILLARS.some(other => practisedOn(history, key, other))),
+    (average(recentScores) || 0) / 100,
+    weekday === 0 || weekday === 6 ? 1 : 0,
+    checkIn ? 1 : 0,
+    rating(checkIn?.mood),
+    rating(checkIn?.energy),
+    rating(checkIn?.stress)
+  ];
+};
+
+/**
+ * Labelled examples for every pillar on each day from `from` to `to` (inclusive).
+ * Days before the first recorded activity are skipped - there is nothing to learn from them.
+ */
+export const buildAdherenceExamples = (history: AdherenceHistory, from: string, to: string): AdherenceExample[] => {
+  if (!history.firstDay) return [];
+  const examples: AdherenceExample[] = [];
+
+  for (let day = from > history.firstDay ? from : shiftDayKey(history.firstDay, 1); day <= to; day = shiftDayKey(day, 1)) {
+    const previous = shiftDayKey(day, -1);
+    PILLARS.forEach(pillar => {
+      const scores = history.days.get(day)?.scores[pillar] || [];
+      examples.push({
+        day,
+        pillar,
+        features: adherenceFeatureVector(history, previous, pillar),
+        practised: scores.length > 0 ? 1 : 0,
+        score: scores.length > 0 ? average(scores)! / 100 : null
+      });
+    });
+  }
+  return examples;
+};
@@ -0,0 +1,126 @@
+// src/utils/checkInAnalytics.ts - PURE HELPERS OVER THE CHECK-IN LOG
+import type { CheckIn, CheckInSlot } from '../context/AppDataContext';
+import { shiftDayKey } from '../services/StreakEngine';
+import { average } from './sessionAnalytics';
+
+export const CHECK_IN_SLOTS: CheckInSlot[] = ['morning', 'evening'];
+
+export interface CheckInAverages {
+  mood: number;
+  energy: number;
+  stress: number;
+  sleep: number | null; // only evening check-ins record sleep
+  intentionFulfilled: number | null;
+  count: number;
+}
+
+export interface DailyCheckInAverage {
+  day: string; // yyyy-MM-dd in the home timezone
+  averages: CheckInAverages | null;
+}
+
+export interface WeeklyCheckInAverage {
+  weekStart: string; // Monday, yyyy-MM-dd
+  averages: CheckInAverages | null;
+  days: number; // days in the week with at least one check-in
+}
+
+// One record per slot per day, so the id is derived rather than generated
+export const checkInId = (day: string, slot: CheckInSlot): string => `checkin_${day}_${slot}`;
+
+export const otherSlot = (slot: CheckInSlot): CheckInSlot => (slot === 'morning' ? 'evening' : 'morning');
+
+const round1 = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+/**
+ * Mean of each metric across check-ins, ignoring metrics a check-in didn't record
+ * @returns null when there are no check-ins
+ */
+export const averageCheckIns = (checkIns: CheckIn[]): CheckInAverages | null => {
+  if (checkIns.length === 0) return null;
+  const collect = (pick: (checkIn: CheckIn) => number | undefined) =>
+    checkIns.map(pick).filter((value): value is number => typeof value === 'number');
+
+  return {
+    mood: round1(average(collect(checkIn => checkIn.mood)))!,
+    energy: round1(average(collect(checkIn => checkIn.energy)))!,
+    stress: round1(average(collect(checkIn => checkIn.stress)))!,
+    sleep: round1(average(collect(checkIn => checkIn.sleep))),
+    intentionFulfilled: round1(average(collect(checkIn => checkIn.intentionFulfilled))),
+    count: checkIns.length
+  };
+};
+
+/**
+ * Monday of the week a day key falls in
+ */
+export const weekStartKey = (dayKey: string): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return shiftDayKey(dayKey, -((weekday + 6) % 7));
+};
+
+/**
+ * Averages for each of the `days` days ending at `today`, oldest first
+ */
+export const getDailyCheckInAverages = (checkIns: CheckIn[], days: number, today: string): DailyCheckInAverage[] => {
+  const byDay = new Map<string, CheckIn[]>();
+  checkIns.forEach(checkIn => byDay.set(checkIn.day, [...(byDay.get(checkIn.day) || []), checkIn]));
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = shiftDayKey(today, index - (days - 1));
+    return { day, averages: averageCheckIns(byDay.get(day) || []) };
+  });
+};
+
+/**
+ * Averages for each of the `weeks` Monday-based weeks ending with the one containing `today`, oldest first
+ */
+export const getWeeklyCheckInAverages = (checkIns: CheckIn[], weeks: number, today: string): WeeklyCheckInAverage[] => {
+  const currentWeek = weekStartKey(today);
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const weekStart = shiftDayKey(currentWeek, (index - (weeks - 1)) * 7);
+    const weekEnd = shiftDayKey(weekStart, 7);
+    const inWeek = checkIns.filter(checkIn => checkIn.day >= weekStart && checkIn.day < weekEnd && checkIn.day <= today);
+    return {
+      weekStart,
+      averages: averageCheckIns(inWeek),
+      days: new Set(inWeek.map(checkIn => checkIn.day)).size
+    };
+  });
+};
+
+export const findCheckIn = (checkIns: CheckIn[], day: string, slot: CheckInSlot): CheckIn | undefined =>
+  checkIns.find(checkIn => checkIn.id === checkInId(day, slot));
+
+/**
+ * The morning check-in whose intention an evening check-in reflects on, or vice versa
+ */
+export const getLinkedCheckIn = (checkIns: CheckIn[], checkIn: CheckIn): CheckIn | undefined =>
+  checkIn.linkedCheckInId ? checkIns.find(other => other.id === checkIn.linkedCheckInId) : undefined;
+
+/**
+ * Link a saved check-in with the other slot of the same day, in both directions
+ * @returns Records that changed - `saved` first, then its partner if it needed updating
+ */
+export const linkCheckIn = (checkIns: CheckIn[], saved: CheckIn): CheckIn[] => {
+  const partner = findCheckIn(checkIns, saved.day, otherSlot(saved.slot));
+  if (!partner) return [{ ...saved, linkedCheckInId: undefined }];
+
+  const linked = { ...saved, linkedCheckInId: partner.id };
+  return partner.linkedCheckInId === saved.id
+    ? [linked]
+    : [linked, { ...partner, linkedCheckInId: saved.id, updatedAt: saved.updatedAt }];
+};
+
+/**
+ * Insert or replace check-ins by id, keeping the log ordered by day then slot
+ */
+export const mergeCheckIns = (checkIns: CheckIn[], updates: CheckIn[]): CheckIn[] => {
+  const byId = new Map(checkIns.map(checkIn => [checkIn.id, checkIn]));
+  updates.forEach(checkIn => byId.set(checkIn.id, checkIn));
+  return [...byId.values()].sort((a, b) =>
+    a.day.localeCompare(b.day) || CHECK_IN_SLOTS.indexOf(a.slot) - CHECK_IN_SLOTS.indexOf(b.slot)
+  );
+};
@@ -0,0 +1,169 @@
+// src/utils/coachContext.ts - WHAT THE COACH KNOWS ABOUT THE USER WHEN IT REPLIES
+import type { AIInsight, CheckIn, PillarProgress, SessionData, UserProfile } from '../context/AppDataContext';
+import type { AIRecommendation } from '../services/RecommendationEngine';
+import { averageCheckIns, CheckInAverages } from './checkInAnalytics';
+import { PILLARS, PillarKey, isPillar, shiftDayKey, toDayKey } from './sessionAnalytics';
+
+export interface CoachSessionSummary {
+  day: string;
+  pillar: string;
+  type: SessionData['type'];
+  duration: number; // minutes
+  score: number;
+}
+
+export interface CoachInsightSummary {
+  title: string;
+  description: string;
+  pillar: string;
+}
+
+export interface CoachRecommendationSummary {
+  title: string;
+  pillar: string;
+  reason: string;
+  firstStep: string | null;
+}
+
+/**
+ * A compact, grounded snapshot of the user's data. Replies may only cite numbers from here.
+ */
+export interface CoachContext {
+  today: string;
+  name: string | null;
+  streak: number;
+  totalSessions: number;
+  pillarScores: Record<PillarKey, number>;
+  strongestPillar: PillarKey;
+  weakestPillar: PillarKey;
+  sessionsThisWeek: Record<PillarKey, number>; // last 7 days including today
+  recentSessions: CoachSessionSummary[]; // newest first
+  insights: CoachInsightSummary[]; // unread and high priority first
+  checkIns: CheckInAverages | null; // last 7 days
+  recommendation: CoachRecommendationSummary | null; // the engine's current top pick
+}
+
+export interface CoachContextInput {
+  sessions: SessionData[];
+  checkIns: CheckIn[];
+  pillarScores: PillarProgress;
+  userProfile: UserProfile | null;
+  aiInsights: AIInsight[];
+  recommendations?: AIRecommendation[];
+  now?: Date;
+  today?: string; // check-in day key for `now`, defaults to the device-local day
+}
+
+const RECENT_SESSION_COUNT = 8;
+const INSIGHT_COUNT = 3;
+
+const INSIGHT_PRIORITY: Record<AIInsight['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+const emptyPillarCounts = (): Record<PillarKey, number> =>
+  PILLARS.reduce((acc, pillar) => {
+    acc[pillar] = 0;
+    return acc;
+  }, {} as Record<PillarKey, number>);
+
+export const buildCoachContext = (input: CoachContextInput): CoachContext => {
+  const now = input.now || new Date();
+  const today = input.today || toDayKey(now);
+  const weekStart = shiftDayKey(today, -6);
+
+  const pillarScores = emptyPillarCounts();
+  PILLARS.forEach(pillar => {
+    pillarScores[pillar] = Math.round(input.pillarScores[pillar] || 0);
+  });
+  const ranked = [...PILLARS].sort((a, b) => pillarScores[b] - pillarScores[a]);
+
+  const practised = input.sessions
+    .filter(session => session.type !== 'checkin' && new Date(session.date).getTime() <= now.getTime())
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  const sessionsThisWeek = emptyPillarCounts();
+  practised.forEach(session => {
+    const day = toDayKey(session.date);
+    if (isPillar(session.pillar) && day >= weekStart && day <= today) sessionsThisWeek[session.pillar]++;
+  });
+
+  const insights = [...input.aiInsights]
+    .sort((a, b) =>
+      Number(!!a.isRead) - Number(!!b.isRead) ||
+      INSIGHT_PRIORITY[a.priority] - INSIGHT_PRIORITY[b.priority] ||
+      (a.dateGenerated < b.dateGenerated ? 1 : -1)
+    )
+    .slice(0, INSIGHT_COUNT)
+    .map(insight => ({ title: insight.title, description: insight.description, pillar: insight.pillar }));
+
+  const [top] = input.recommendations || [];
+
+  return {
+    today,
+    name: input.userProfile?.name?.trim() || null,
+    streak: input.userProfile?.streak || 0,
+    totalSessions: input.userProfile?.totalSessions || practised.length,
+    pillarScores,
+    strongestPillar: ranked[0],
+    weakestPillar: ranked[ranked.length - 1],
+    sessionsThisWeek,
+    recentSessions: practised.slice(0, RECENT_SESSION_COUNT).map(session => ({
+      day: toDayKey(session.date),
+      pillar: session.pillar,
+      type: session.type,
+      duration: session.duration,
+      score: session.score
+    })),
+    insights,
+    checkIns: averageCheckIns(input.checkIns.filter(checkIn => checkIn.day >= weekStart && checkIn.day <= today)),
+    recommendation: top
+      ? {
+          title: top.title,
+          pillar: top.pillar,
+          reason: top.explanation.reason,
+          firstStep: top.actionPlan[0] || null
+        }
+      : null
+  };
+};
+
+/**
+ * The context as plain lines for a language model's system prompt
+ */
+export const describeCoachContext = (context: CoachContext): string => {
+  const lines = [
+    `Today: ${context.today}`,
+    `Name: ${context.name || 'not given'}`,
+    `Current streak: ${context.streak} days; total sessions: ${context.totalSessions}`,
+    `Pillar scores (0-100): ${PILLARS.map(pillar => `${pillar} ${context.pillarScores[pillar]}`).join(', ')}`,
+    `Sessions in the last 7 days: ${PILLARS.map(pillar => `${pillar} ${context.sessionsThisWeek[pillar]}`).join(', ')}`
+  ];
+
+  if (context.recentSessions.length > 0) {
+    lines.push('Recent sessions:');
+    context.recentSessions.forEach(session => {
+      lines.push(`- ${session.day} ${session.pillar} ${session.type}, ${session.duration} min, score ${session.score}`);
+    });
+  } else {
+    lines.push('Recent sessions: none logged yet');
+  }
+
+  if (context.checkIns) {
+    const { mood, energy, stress, sleep, count } = context.checkIns;
+    lines.push(
+      `Check-ins this week (1-5, ${count} logged): mood ${mood}, energy ${energy}, stress ${stress}` +
+      (sleep !== null ? `, sleep ${sleep}` : '')
+    );
+  }
+
+  if (context.insights.length > 0) {
+    lines.push('Insights:');
+    context.insights.forEach(insight => lines.push(`- [${insight.pillar}] ${insight.title}: ${insight.description}`));
+  }
+
+  if (context.recommendation) {
+    const { title, pillar, reason, firstStep } = context.recommendation;
+    lines.push(`Top recommendation: "${title}" (${pillar}). ${reason}${firstStep ? ` First step: ${firstStep}` : ''}`);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,109 @@
+// src/utils/coachMemory.ts - WHAT A COACH CONVERSATION REMEMBERS BEYOND ITS RECENT TURNS
+export type CoachMemoryKind = 'goal' | 'constraint' | 'preference';
+
+export interface CoachMemoryFact {
+  kind: CoachMemoryKind;
+  text: string; // the user's own words, trimmed to one sentence
+  learnedAt: string;
+}
+
+/**
+ * Facts the user stated about themselves, and topics from turns that no longer fit in the prompt
+ */
+export interface CoachMemory {
+  facts: CoachMemoryFact[];
+  earlierTopics: string[];
+}
+
+export const EMPTY_COACH_MEMORY: CoachMemory = { facts: [], earlierTopics: [] };
+
+const MAX_FACTS = 12;
+const MAX_TOPICS = 10;
+const MAX_FACT_LENGTH = 140;
+
+// First-person statements worth keeping, checked in order; the first match decides the kind
+const FACT_PATTERNS: Array<{ kind: CoachMemoryKind; pattern: RegExp }> = [
+  { kind: 'constraint', pattern: /\bi (?:have|'ve got|suffer from) (?:an? )?(?:\w+ )?(?:injury|pain|asthma|diabetes|condition|allerg\w*|arthritis)\b/i },
+  { kind: 'constraint', pattern: /\bi(?:'m| am) (?:vegetarian|vegan|pregnant|allergic|injured|recovering)\b/i },
+  { kind: 'constraint', pattern: /\bi (?:can't|cannot|can not|don't have time to)\b/i },
+  { kind: 'constraint', pattern: /\bi (?:only )?have (?:about |around )?\d+ (?:minutes|mins|hours)\b/i },
+  { kind: 'constraint', pattern: /\bi work (?:nights|night shifts|shifts|late)\b/i },
+  { kind: 'goal', pattern: /\b(?:my goal is|i want to|i'd like to|i would like to|i'm trying to|i am trying to|i hope to|i plan to)\b/i },
+  { kind: 'preference', pattern: /\bi (?:prefer|like|love|enjoy|hate|dislike|don't like|do not like)\b/i }
+];
+
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  sleep: ['sleep', 'tired', 'insomnia', 'rest'],
+  stress: ['stress', 'anxious', 'anxiety', 'overwhelmed', 'worried'],
+  diet: ['diet', 'food', 'eat', 'meal', 'nutrition', 'weight'],
+  exercise: ['exercise', 'workout', 'run', 'gym', 'walk', 'yoga', 'strength'],
+  meditation: ['meditat', 'mindful', 'breath', 'spiritual', 'prayer'],
+  motivation: ['motivat', 'stuck', 'lazy', 'discipline', 'habit'],
+  relationships: ['friend', 'family', 'partner', 'lonely', 'relationship'],
+  progress: ['improve', 'better', 'progress', 'score', 'streak']
+};
+
+const sentencesOf = (text: string): string[] =>
+  (text.match(/[^.!?\n]+[.!?]*/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+const clip = (sentence: string): string =>
+  sentence.length > MAX_FACT_LENGTH ? `${sentence.slice(0, MAX_FACT_LENGTH - 1).trimEnd()}…` : sentence;
+
+/**
+ * Goals, constraints and preferences the user stated about themselves in one message
+ */
+export const extractMemoryFacts = (text: string, now: Date = new Date()): CoachMemoryFact[] =>
+  sentencesOf(text).reduce<CoachMemoryFact[]>((facts, sentence) => {
+    const match = FACT_PATTERNS.find(({ pattern }) => pattern.test(sentence));
+    if (match) facts.push({ kind: match.kind, text: clip(sentence), learnedAt: now.toISOString() });
+    return facts;
+  }, []);
+
+/**
+ * Topics a message touches on, for summarising turns that fall out of the prompt window
+ */
+export const topicsOf = (text: string): string[] => {
+  const lower = text.toLowerCase();
+  return Object.keys(TOPIC_KEYWORDS).filter(topic => TOPIC_KEYWORDS[topic].some(keyword => new RegExp(`\\b${keyword}`).test(lower)));
+};
+
+/**
+ * Add what a new user message says about them. A restated fact replaces the older wording;
+ * past the cap the oldest facts are forgotten first.
+ */
+export const rememberMessage = (memory: CoachMemory, text: string, now: Date = new Date()): CoachMemory => {
+  const learned = extractMemoryFacts(text, now);
+  if (learned.length === 0) return memory;
+
+  const seen = new Set(learned.map(fact => fact.text.toLowerCase()));
+  const facts = [...memory.facts.filter(fact => !seen.has(fact.text.toLowerCase())), ...learned];
+  return { ...memory, facts: facts.slice(-MAX_FACTS) };
+};
+
+/**
+ * Keep the gist of user messages that no longer fit in the prompt
+ */
+export const foldEarlierTurns = (memory: CoachMemory, droppedUserMessages: string[]): CoachMemory => {
+  const topics = droppedUserMessages.flatMap(topicsOf);
+  if (topics.length === 0) return memory;
+
+  const earlierTopics = [...memory.earlierTopics.filter(topic => !topics.includes(topic)), ...new Set(topics)];
+  return { ...memory, earlierTopics: earlierTopics.slice(-MAX_TOPICS) };
+};
+
+/**
+ * The memory as plain lines for a language model's system prompt, or null when there is nothing to recall
+ */
+export const describeCoachMemory = (memory: CoachMemory): string | null => {
+  const lines: string[] = [];
+  const labels: Record<CoachMemoryKind, string> = { goal: 'Goal', constraint: 'Constraint', preference: 'Preference' };
+
+  memory.facts.forEach(fact => lines.push(`- ${labels[fact.kind]}: "${fact.text}"`));
+  if (memory.earlierTopics.length > 0) {
+    lines.push(`- Talked about earlier: ${memory.earlierTopics.join(', ')}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : null;
+};
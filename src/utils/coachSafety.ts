@@ -0,0 +1,95 @@
+// src/utils/coachSafety.ts - GUARDRAILS FOR MEDICAL AND CRISIS QUESTIONS TO THE COACH
+export type CoachSafetyLevel = 'none' | 'medical' | 'urgent' | 'crisis';
+
+export interface CoachSafetyCheck {
+  level: CoachSafetyLevel;
+  reply: string | null; // fixed reply that replaces the provider's, for urgent and crisis messages
+}
+
+// Checked most serious first; the first level with a matching pattern wins
+const SAFETY_PATTERNS: Array<{ level: Exclude<CoachSafetyLevel, 'none'>; patterns: RegExp[] }> = [
+  {
+    level: 'crisis',
+    patterns: [
+      /\bsuicid\w*/i,
+      /\bkill(?:ing)? myself\b/i,
+      /\bend(?:ing)? my life\b/i,
+      /\bself[- ]?harm\w*/i,
+      /\b(?:hurt|harm|cut)(?:ting)? myself\b/i,
+      /\b(?:don't|do not) want to (?:live|be alive|wake up)\b/i
+    ]
+  },
+  {
+    level: 'urgent',
+    patterns: [
+      /\bchest pain\b/i,
+      /\b(?:can't|cannot|trouble|difficulty) breath\w*/i,
+      /\bheart attack\b/i,
+      /\bstroke\b/i,
+      /\bseizure\b/i,
+      /\b(?:fainted|passed out|blacked out)\b/i,
+      /\boverdos\w*/i,
+      /\b(?:severe|heavy) bleeding\b/i
+    ]
+  },
+  {
+    level: 'medical',
+    patterns: [
+      /\bdiagnos\w*/i,
+      /\bmedication\w*|\bmedicine\b|\bprescri\w*/i,
+      /\bdos(?:e|age|ing)\b/i,
+      /\b\d+\s?(?:mg|mcg|iu)\b/i,
+      /\bpills?\b|\bantidepressant\w*|\binsulin\b|\bstatins?\b/i,
+      /\bsymptoms?\b|\bdisease\b|\binfection\b/i,
+      /\bblood (?:pressure|sugar)\b/i,
+      /\bpregnan\w*/i,
+      /\b(?:doctor|physician)\b/i,
+      /\bis it safe to\b/i
+    ]
+  }
+];
+
+const CRISIS_REPLY =
+  "I'm really sorry you're feeling this way, and I'm glad you told me. I'm not able to help with this the way a person can. " +
+  'Please reach out right now to someone you trust, or contact a crisis line - in the US you can call or text 988, ' +
+  'and elsewhere your local emergency number can connect you. If you are in immediate danger, call emergency services.';
+
+const URGENT_REPLY =
+  'That sounds like it could need urgent medical attention, so please don\'t wait on a wellness app for this. ' +
+  'Call your local emergency number or get to the nearest emergency department now. ' +
+  "Once you've been checked and are feeling safe, I'm here to help you ease back into your routine.";
+
+export const MEDICAL_DISCLAIMER =
+  "I'm a wellness coach, not a medical professional - please check with your doctor before changing anything about a condition, medication or treatment.";
+
+/**
+ * Instructions every language-model reply must follow
+ */
+export const COACH_SAFETY_RULES = [
+  'You are a wellness coach, not a doctor. Never diagnose, never name or dose medication, and never advise starting, stopping or changing a treatment.',
+  'For anything about symptoms, conditions, medication or pregnancy, give general wellbeing guidance only and recommend speaking to a doctor.',
+  'If the user mentions self-harm or a medical emergency, tell them to contact emergency services or a crisis line straight away.'
+].join('\n');
+
+export const assessCoachSafety = (text: string): CoachSafetyCheck => {
+  const match = SAFETY_PATTERNS.find(({ patterns }) => patterns.some(pattern => pattern.test(text)));
+  if (!match) return { level: 'none', reply: null };
+
+  switch (match.level) {
+    case 'crisis':
+      return { level: 'crisis', reply: CRISIS_REPLY };
+    case 'urgent':
+      return { level: 'urgent', reply: URGENT_REPLY };
+    default:
+      return { level: 'medical', reply: null };
+  }
+};
+
+/**
+ * Make sure a reply to a medical question sends the user to a professional, whatever the provider wrote
+ */
+export const applyReplyGuardrails = (reply: string, check: CoachSafetyCheck): string => {
+  if (check.level !== 'medical') return reply;
+  if (/\b(?:doctor|physician|healthcare professional|medical professional|pharmacist)\b/i.test(reply)) return reply;
+  return `${reply.trim()}\n\n${MEDICAL_DISCLAIMER}`;
+};
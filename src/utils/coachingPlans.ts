@@ -0,0 +1,323 @@
+// src/utils/coachingPlans.ts - MULTI-WEEK COACHING PLANS: GENERATION, PROGRESS AND ADAPTATION
+import type {
+  CoachingPlan,
+  CoachingPlanAdaptation,
+  CoachingPlanSource,
+  CoachingPlanTask,
+  PillarProgress,
+  PlanSessionType,
+  SessionData,
+  UserProfile
+} from '../context/AppDataContext';
+import { DAY_MS, PILLARS, PillarKey, isPillar, shiftDayKey, toDayKey } from './sessionAnalytics';
+
+export type PlanTaskStatus = 'done' | 'missed' | 'due' | 'upcoming' | 'skipped';
+
+export interface PlanTaskProgress {
+  task: CoachingPlanTask;
+  status: PlanTaskStatus;
+  sessionId: string | null; // the session that completed it
+}
+
+export interface CoachingPlanProgress {
+  tasks: PlanTaskProgress[]; // in day order
+  total: number; // tasks still in the plan, skipped ones excluded
+  done: number;
+  missed: number;
+  percent: number; // 0-100 of all tasks
+  completionRate: number | null; // done / tasks already due, null before the first one
+  onTrack: boolean;
+  currentWeek: number; // 1-based, clamped to the plan
+  dueToday: PlanTaskProgress[];
+  nextTask: CoachingPlanTask | null; // first task due today or later that isn't done
+  finished: boolean; // every task done, or the plan's last day has passed
+}
+
+export type Difficulty = UserProfile['preferences']['difficulty'];
+
+export const MIN_PLAN_WEEKS = 2;
+export const MAX_PLAN_WEEKS = 8;
+const DEFAULT_PLAN_WEEKS = 4;
+
+// How long a plan may grow past its original length to fit rescheduled tasks
+const MAX_EXTENSION_WEEKS = 2;
+
+// Below this share of due tasks done, the plan counts as behind and the coming week is lightened
+const ON_TRACK_RATE = 0.7;
+const LIGHTEN_BELOW_RATE = 0.5;
+const LIGHTEN_FACTOR = 0.75;
+const MIN_TASK_MINUTES = 5;
+
+export const PLAN_SESSION_TYPES: Record<PillarKey, PlanSessionType> = {
+  body: 'exercise',
+  mind: 'practice',
+  heart: 'practice',
+  spirit: 'meditation',
+  diet: 'practice'
+};
+
+const SESSIONS_PER_WEEK: Record<Difficulty, number> = { beginner: 3, intermediate: 4, advanced: 5 };
+const BASE_MINUTES: Record<Difficulty, number> = { beginner: 10, intermediate: 15, advanced: 20 };
+
+// Helper Functions
+const dayIndex = (startDay: string, day: string): number => {
+  const toUtc = (key: string) => {
+    const [year, month, date] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, date);
+  };
+  return Math.round((toUtc(day) - toUtc(startDay)) / DAY_MS);
+};
+
+const weekOf = (plan: Pick<CoachingPlan, 'startDay'>, day: string): number =>
+  Math.floor(dayIndex(plan.startDay, day) / 7) + 1;
+
+const byDay = (a: CoachingPlanTask, b: CoachingPlanTask) =>
+  a.day.localeCompare(b.day) || a.pillar.localeCompare(b.pillar);
+
+/**
+ * Plan length from a coaching estimate such as "2-3 weeks", "10 days" or "1 month";
+ * ranges use their upper bound
+ */
+export const planWeeksFrom = (estimate: string): number => {
+  const match = /(\d+)(?:\s*-\s*(\d+))?\s*(day|week|month)/i.exec(estimate || '');
+  if (!match) return DEFAULT_PLAN_WEEKS;
+
+  const amount = Number(match[2] || match[1]);
+  const unit = match[3].toLowerCase();
+  const weeks = unit === 'day' ? Math.ceil(amount / 7) : unit === 'month' ? amount * 4 : amount;
+  return Math.max(MIN_PLAN_WEEKS, Math.min(MAX_PLAN_WEEKS, weeks));
+};
+
+/**
+ * The pillars a plan covers. General advice targets the weakest pillar.
+ */
+export const resolvePlanPillars = (pillarFocus: string[], pillarScores: PillarProgress): PillarKey[] => {
+  const pillars = pillarFocus.filter(isPillar);
+  if (pillars.length > 0) return [...new Set(pillars)];
+  const [weakest] = [...PILLARS].sort((a, b) => (pillarScores[a] || 0) - (pillarScores[b] || 0));
+  return [weakest];
+};
+
+/**
+ * Lay out dated tasks for each pillar. The first week eases in with one session fewer,
+ * and sessions lengthen by five minutes every two weeks. Pillars are offset so they
+ * don't all land on the same days.
+ */
+export const generateCoachingPlan = (
+  source: CoachingPlanSource,
+  startDay: string,
+  difficulty: Difficulty = 'beginner',
+  now: Date = new Date()
+): CoachingPlan => {
+  const id = `plan_${now.getTime()}`;
+  const weeks = planWeeksFrom(source.estimatedDuration);
+  const pillars = source.pillars.filter(isPillar);
+  const tasks: CoachingPlanTask[] = [];
+
+  pillars.forEach((pillar, pillarIndex) => {
+    let count = 0;
+    for (let week = 1; week <= weeks; week++) {
+      const perWeek = week === 1 ? Math.max(2, SESSIONS_PER_WEEK[difficulty] - 1) : SESSIONS_PER_WEEK[difficulty];
+      const minutes = BASE_MINUTES[difficulty] + Math.min(15, Math.floor((week - 1) / 2) * 5);
+
+      for (let slot = 0; slot < perWeek; slot++) {
+        const offset = (Math.round((slot * 7) / perWeek) + pillarIndex) % 7;
+        const day = shiftDayKey(startDay, (week - 1) * 7 + offset);
+        const step = source.actionSteps.length > 0 ? source.actionSteps[count % source.actionSteps.length] : null;
+        tasks.push({
+          id: `${id}_${day}_${pillar}`,
+          day,
+          week,
+          pillar,
+          sessionType: PLAN_SESSION_TYPES[pillar],
+          minutes,
+          title: step || `${minutes}-minute ${pillar} ${PLAN_SESSION_TYPES[pillar]}`
+        });
+        count++;
+      }
+    }
+  });
+
+  return {
+    id,
+    title: source.title,
+    summary: source.expectedOutcome,
+    pillars,
+    recommendationId: source.recommendationId,
+    startDay,
+    endDay: shiftDayKey(startDay, weeks * 7 - 1),
+    weeks,
+    status: 'active',
+    tasks: tasks.sort(byDay),
+    adaptations: [],
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  };
+};
+
+/**
+ * Match logged sessions to tasks. A session completes a task for its pillar on the same day,
+ * otherwise the earliest open one in the same plan week - so practising a day early or late
+ * still counts. Each session completes at most one task; zero-minute entries such as the
+ * marker logged when a coaching session starts complete none.
+ */
+export const evaluateCoachingPlan = (plan: CoachingPlan, sessions: SessionData[], today: string): CoachingPlanProgress => {
+  const tasks = [...plan.tasks].sort(byDay);
+  const completedBy = new Map<string, string>();
+
+  sessions
+    .filter(session => session.type !== 'checkin' && session.duration > 0 && plan.pillars.includes(session.pillar))
+    .map(session => ({ session, day: toDayKey(session.date) }))
+    .filter(({ day }) => day >= plan.startDay && day <= plan.endDay && day <= today)
+    .sort((a, b) => new Date(a.session.date).getTime() - new Date(b.session.date).getTime())
+    .forEach(({ session, day }) => {
+      const week = weekOf(plan, day);
+      const open = tasks.filter(task =>
+        !task.skipped && !completedBy.has(task.id) && task.pillar === session.pillar && weekOf(plan, task.day) === week
+      );
+      const match = open.find(task => task.day === day) ||
+        open.find(task => task.sessionType === session.type) ||
+        open[0];
+      if (match) completedBy.set(match.id, session.id);
+    });
+
+  const progress: PlanTaskProgress[] = tasks.map(task => {
+    const sessionId = completedBy.get(task.id) || null;
+    const status: PlanTaskStatus = task.skipped ? 'skipped'
+      : sessionId ? 'done'
+      : task.day < today ? 'missed'
+      : task.day === today ? 'due'
+      : 'upcoming';
+    return { task, status, sessionId };
+  });
+
+  const active = progress.filter(entry => entry.status !== 'skipped');
+  const done = active.filter(entry => entry.status === 'done').length;
+  const missed = active.filter(entry => entry.status === 'missed').length;
+  const completionRate = done + missed > 0 ? done / (done + missed) : null;
+  const nextTask = active.find(entry => entry.status === 'due' || entry.status === 'upcoming')?.task || null;
+
+  return {
+    tasks: progress,
+    total: active.length,
+    done,
+    missed,
+    percent: active.length > 0 ? Math.round((done / active.length) * 100) : 0,
+    completionRate,
+    onTrack: completionRate === null || completionRate >= ON_TRACK_RATE,
+    currentWeek: Math.max(1, Math.min(plan.weeks, weekOf(plan, today))),
+    dueToday: active.filter(entry => entry.task.day === today),
+    nextTask,
+    finished: (active.length > 0 && done === active.length) || today > plan.endDay
+  };
+};
+
+/**
+ * Rework a plan the user has fallen behind on. Each missed task moves once, to the next day
+ * without a task for its pillar (growing the plan by up to two weeks); a task missed again
+ * is dropped. Well behind, the coming week's sessions are also shortened.
+ * @returns null when the plan is on schedule or was already adapted today
+ */
+export const adaptCoachingPlan = (
+  plan: CoachingPlan,
+  sessions: SessionData[],
+  today: string,
+  now: Date = new Date()
+): CoachingPlan | null => {
+  if (plan.status !== 'active') return null;
+  if (plan.adaptations.some(adaptation => adaptation.day === today)) return null;
+
+  const progress = evaluateCoachingPlan(plan, sessions, today);
+  const missed = progress.tasks.filter(entry => entry.status === 'missed').map(entry => entry.task);
+  if (missed.length === 0 || progress.finished) return null;
+
+  const maxEndDay = shiftDayKey(plan.startDay, Math.min(MAX_PLAN_WEEKS, plan.weeks + MAX_EXTENSION_WEEKS) * 7 - 1);
+  const taken = new Set(
+    plan.tasks.filter(task => !task.skipped && !missed.includes(task)).map(task => `${task.day}_${task.pillar}`)
+  );
+  const updates = new Map<string, CoachingPlanTask>();
+  let rescheduled = 0;
+  let dropped = 0;
+
+  missed.forEach(task => {
+    let day = task.rescheduledFrom ? null : shiftDayKey(today, 1);
+    while (day && taken.has(`${day}_${task.pillar}`)) day = shiftDayKey(day, 1);
+
+    if (!day || day > maxEndDay) {
+      updates.set(task.id, { ...task, skipped: true });
+      dropped++;
+      return;
+    }
+    taken.add(`${day}_${task.pillar}`);
+    updates.set(task.id, { ...task, day, week: weekOf(plan, day), rescheduledFrom: task.day });
+    rescheduled++;
+  });
+
+  // Well behind: make the next seven days easier to actually do
+  const lighten = progress.completionRate !== null && progress.completionRate < LIGHTEN_BELOW_RATE;
+  const weekEnd = shiftDayKey(today, 7);
+  let lightened = 0;
+  const tasks = plan.tasks.map(task => {
+    const updated = updates.get(task.id) || task;
+    if (lighten && !updated.skipped && updated.day > today && updated.day <= weekEnd && updated.minutes > MIN_TASK_MINUTES) {
+      lightened++;
+      return { ...updated, minutes: Math.max(MIN_TASK_MINUTES, Math.round(updated.minutes * LIGHTEN_FACTOR)) };
+    }
+    return updated;
+  }).sort(byDay);
+
+  const lastDay = tasks.reduce((last, task) => (!task.skipped && task.day > last ? task.day : last), plan.endDay);
+  const weeks = Math.max(plan.weeks, weekOf(plan, lastDay));
+
+  const adaptation: CoachingPlanAdaptation = {
+    day: today,
+    reason: lighten
+      ? `Only ${Math.round(progress.completionRate! * 100)}% of due sessions done - moved missed ones and eased the next week`
+      : `${missed.length} missed session${missed.length === 1 ? '' : 's'} moved to the coming days`,
+    rescheduled,
+    dropped,
+    lightened
+  };
+
+  return {
+    ...plan,
+    tasks,
+    weeks,
+    endDay: shiftDayKey(plan.startDay, weeks * 7 - 1),
+    adaptations: [...plan.adaptations, adaptation],
+    updatedAt: now.toISOString()
+  };
+};
+
+/**
+ * Adapt active plans that fell behind and close the ones that are over
+ * @returns Only the plans that changed
+ */
+export const refreshCoachingPlans = (
+  plans: CoachingPlan[],
+  sessions: SessionData[],
+  today: string,
+  now: Date = new Date()
+): CoachingPlan[] =>
+  plans.reduce<CoachingPlan[]>((changed, plan) => {
+    if (plan.status !== 'active') return changed;
+
+    const progress = evaluateCoachingPlan(plan, sessions, today);
+    if (progress.finished) {
+      changed.push({ ...plan, status: 'completed', completedAt: now.toISOString(), updatedAt: now.toISOString() });
+      return changed;
+    }
+
+    const adapted = adaptCoachingPlan(plan, sessions, today, now);
+    if (adapted) changed.push(adapted);
+    return changed;
+  }, []);
+
+/**
+ * Insert or replace plans by id, newest first
+ */
+export const mergeCoachingPlans = (plans: CoachingPlan[], updates: CoachingPlan[]): CoachingPlan[] => {
+  const byId = new Map(plans.map(plan => [plan.id, plan]));
+  updates.forEach(plan => byId.set(plan.id, plan));
+  return [...byId.values()].sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+};
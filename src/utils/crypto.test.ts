@@ -0,0 +1,31 @@
+import { MIN_ITERATIONS, decryptWithPassphrase, encryptWithPassphrase, sha256, toHex, utf8Encode } from './crypto';
+
+describe('sha256', () => {
+  it('hashes UTF-8 text', () => {
+    expect(toHex(sha256('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('encryptWithPassphrase', () => {
+  const plaintext = '{"appData":{"sessions":"[]"},"note":"🧘"}';
+
+  it('round-trips text under the same passphrase', async () => {
+    const payload = await encryptWithPassphrase(plaintext, 'correct horse', MIN_ITERATIONS);
+    expect(payload.algorithm).toBe('pbkdf2-sha256-xchacha20poly1305');
+    expect(payload.ciphertext).not.toContain(toHex(utf8Encode('appData')));
+    await expect(decryptWithPassphrase(payload, 'correct horse')).resolves.toBe(plaintext);
+  });
+
+  it('rejects a wrong passphrase or a changed byte', async () => {
+    const payload = await encryptWithPassphrase(plaintext, 'correct horse', MIN_ITERATIONS);
+    const flipped = (parseInt(payload.ciphertext[0], 16) ^ 1).toString(16) + payload.ciphertext.slice(1);
+
+    await expect(decryptWithPassphrase(payload, 'wrong horse')).rejects.toThrow('Incorrect passphrase or corrupted data');
+    await expect(decryptWithPassphrase({ ...payload, ciphertext: flipped }, 'correct horse')).rejects.toThrow('Incorrect passphrase or corrupted data');
+  });
+
+  it('refuses iteration counts outside the allowed range before deriving a key', async () => {
+    const payload = await encryptWithPassphrase(plaintext, 'correct horse', MIN_ITERATIONS);
+    await expect(decryptWithPassphrase({ ...payload, iterations: 1 }, 'correct horse')).rejects.toThrow('Iterations must be');
+  });
+});
@@ -0,0 +1,170 @@
+// src/utils/crypto.ts - HASHING & SYMMETRIC ENCRYPTION HELPERS
+// Hashing, key derivation and encryption come from audited pure-JS libraries, so they run
+// the same under Hermes, the web build and Node. Randomness comes from the platform's secure generator.
+import { getRandomValues } from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 as nobleSha256 } from '@noble/hashes/sha2';
+
+// UTF-8 helpers (TextDecoder is not available on every RN runtime)
+export const utf8Encode = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      code = 0x10000 + ((code - 0xd800) << 10) + (text.charCodeAt(++i) - 0xdc00);
+    }
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+export const utf8Decode = (bytes: Uint8Array): string => {
+  let text = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte < 0xf0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    }
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      text += String.fromCharCode(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+    } else {
+      text += String.fromCharCode(code);
+    }
+  }
+  return text;
+};
+
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const fromHex = (hex: string): Uint8Array => {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * SHA-256 digest
+ * @param data - Bytes or UTF-8 text to hash
+ * @returns Uint8Array - 32 byte digest
+ */
+export const sha256 = (data: Uint8Array | string): Uint8Array =>
+  nobleSha256(typeof data === 'string' ? utf8Encode(data) : data);
+
+/**
+ * PBKDF2-HMAC-SHA256 key derivation. Runs in short slices that yield to the event
+ * loop, so deriving a key doesn't freeze the UI.
+ * @param passphrase - User supplied secret
+ * @param salt - Random salt bytes
+ * @param iterations - Work factor
+ * @param length - Output key length in bytes
+ */
+export const pbkdf2 = (passphrase: string, salt: Uint8Array, iterations: number, length: number = 32): Promise<Uint8Array> =>
+  pbkdf2Async(nobleSha256, utf8Encode(passphrase), salt, { c: iterations, dkLen: length, asyncTick: 10 });
+
+/**
+ * Random bytes for salts and nonces, from Web Crypto where the runtime has it and
+ * expo-crypto's native generator otherwise (Hermes has no crypto.getRandomValues).
+ * @throws Error when no secure generator is available - there is no weaker fallback
+ */
+export const randomBytes = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  const cryptoApi = (globalThis as any).crypto;
+  try {
+    if (cryptoApi && typeof cryptoApi.getRandomValues === 'function') {
+      cryptoApi.getRandomValues(bytes);
+    } else {
+      getRandomValues(bytes);
+    }
+  } catch (error) {
+    throw new Error(`No secure random number generator available: ${error instanceof Error ? error.message : error}`);
+  }
+  return bytes;
+};
+
+export interface EncryptedPayload {
+  algorithm: 'pbkdf2-sha256-xchacha20poly1305';
+  iterations: number;
+  salt: string;
+  nonce: string;
+  ciphertext: string; // includes the Poly1305 tag
+}
+
+const DEFAULT_ITERATIONS = 100000;
+// Payloads outside these bounds are refused before any work: too few iterations is
+// too weak to trust, too many would hang the device deriving the key
+export const MIN_ITERATIONS = 10000;
+export const MAX_ITERATIONS = 1000000;
+
+const checkIterations = (iterations: number): void => {
+  if (!Number.isInteger(iterations) || iterations < MIN_ITERATIONS || iterations > MAX_ITERATIONS) {
+    throw new Error(`Iterations must be a whole number between ${MIN_ITERATIONS} and ${MAX_ITERATIONS}`);
+  }
+};
+
+/**
+ * Encrypt text with a passphrase (XChaCha20-Poly1305 under a PBKDF2 derived key)
+ * @param plaintext - Text to protect
+ * @param passphrase - User supplied secret
+ * @returns EncryptedPayload - Hex encoded, JSON safe
+ */
+export const encryptWithPassphrase = async (
+  plaintext: string,
+  passphrase: string,
+  iterations: number = DEFAULT_ITERATIONS
+): Promise<EncryptedPayload> => {
+  checkIterations(iterations);
+  const salt = randomBytes(16);
+  const nonce = randomBytes(24);
+  const key = await pbkdf2(passphrase, salt, iterations, 32);
+
+  return {
+    algorithm: 'pbkdf2-sha256-xchacha20poly1305',
+    iterations,
+    salt: toHex(salt),
+    nonce: toHex(nonce),
+    ciphertext: toHex(xchacha20poly1305(key, nonce).encrypt(utf8Encode(plaintext)))
+  };
+};
+
+/**
+ * Decrypt a payload produced by encryptWithPassphrase
+ * @throws Error when the passphrase is wrong, the payload was tampered with, uses
+ * another algorithm or asks for an iteration count outside MIN_ITERATIONS-MAX_ITERATIONS
+ */
+export const decryptWithPassphrase = async (payload: EncryptedPayload, passphrase: string): Promise<string> => {
+  if (payload.algorithm !== 'pbkdf2-sha256-xchacha20poly1305') {
+    throw new Error(`Unsupported encryption algorithm: ${payload.algorithm}`);
+  }
+  checkIterations(payload.iterations);
+  const key = await pbkdf2(passphrase, fromHex(payload.salt), payload.iterations, 32);
+
+  try {
+    return utf8Decode(xchacha20poly1305(key, fromHex(payload.nonce)).decrypt(fromHex(payload.ciphertext)));
+  } catch (error) {
+    throw new Error('Incorrect passphrase or corrupted data');
+  }
+};
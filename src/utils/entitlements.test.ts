@@ -0,0 +1,87 @@
+import type { UserSubscription } from '../services/SubscriptionService';
+import { EMPTY_ENTITLEMENT_USAGE, checkEntitlement, recordUsage, resolveAccess } from './entitlements';
+import type { PromoGrant } from './promoCodes';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const TODAY = '2026-10-19';
+
+const subscription = (overrides: Partial<UserSubscription> = {}): UserSubscription => ({
+  planId: 'premium_monthly',
+  startDate: '2026-10-01T00:00:00.000Z',
+  endDate: '2026-11-01T00:00:00.000Z',
+  isActive: true,
+  autoRenew: true,
+  paymentMethod: 'fake',
+  status: 'active',
+  ...overrides
+});
+
+const grant = (startsAt: string, endsAt: string): PromoGrant => ({
+  code: 'CODE', campaign: 'PARTNER', days: 30, redeemedAt: startsAt, startsAt, endsAt
+});
+
+describe('resolveAccess', () => {
+  it('treats no subscription as the free plan', () => {
+    expect(resolveAccess(null, NOW)).toMatchObject({ status: 'free', tier: 'free' });
+  });
+
+  it('keeps premium through the grace period and drops it afterwards', () => {
+    const lapsed = subscription({ endDate: '2026-10-18T00:00:00.000Z' });
+    expect(resolveAccess(lapsed, NOW)).toMatchObject({ status: 'grace', tier: 'premium' });
+    expect(resolveAccess(lapsed, new Date('2026-10-22T00:00:00.000Z'))).toMatchObject({ status: 'expired', tier: 'free' });
+  });
+
+  it('never grants premium for a refunded subscription', () => {
+    expect(resolveAccess(subscription({ status: 'refunded', isActive: false }), NOW).tier).toBe('free');
+  });
+
+  it('lets a promo grant carry access when the subscription does not', () => {
+    const grants = [grant('2026-10-10T00:00:00.000Z', '2026-11-09T00:00:00.000Z')];
+    expect(resolveAccess(null, NOW, grants)).toMatchObject({
+      status: 'promo', tier: 'premium', expiresAt: '2026-11-09T00:00:00.000Z'
+    });
+    expect(resolveAccess(null, new Date('2026-11-10T00:00:00.000Z'), grants).tier).toBe('free');
+  });
+});
+
+describe('checkEntitlement', () => {
+  it('locks premium-only features on the free plan with a reason', () => {
+    const check = checkEntitlement('healthIntegration', resolveAccess(null, NOW), EMPTY_ENTITLEMENT_USAGE, TODAY);
+    expect(check).toMatchObject({ allowed: false, remaining: 0, limit: 0 });
+    expect(check.reason).toBe('Health Integration is part of Premium.');
+  });
+
+  it('counts only today\'s uses against the daily limit', () => {
+    const free = resolveAccess(null, NOW);
+    const usage = { day: TODAY, used: { timerSessions: ['a', 'b', 'c'] } };
+    expect(checkEntitlement('timerSessions', free, usage, TODAY).allowed).toBe(false);
+    expect(checkEntitlement('timerSessions', free, usage, '2026-10-20')).toMatchObject({ allowed: true, remaining: 3 });
+  });
+
+  it('is unlimited on premium', () => {
+    const usage = { day: TODAY, used: { timerSessions: ['a', 'b', 'c'] } };
+    expect(checkEntitlement('timerSessions', resolveAccess(subscription(), NOW), usage, TODAY).remaining).toBe(Infinity);
+  });
+});
+
+describe('recordUsage', () => {
+  it('grants keys up to the limit and never counts the same key twice', () => {
+    const first = recordUsage(EMPTY_ENTITLEMENT_USAGE, 'timerSessions', ['s1', 's2'], 3, TODAY);
+    expect(first.granted).toEqual(['s1', 's2']);
+
+    const second = recordUsage(first.usage, 'timerSessions', ['s2', 's3', 's4'], 3, TODAY);
+    expect(second.granted).toEqual(['s2', 's3']);
+    expect(second.usage.used.timerSessions).toEqual(['s1', 's2', 's3']);
+  });
+
+  it('returns the same usage object when nothing changed', () => {
+    const { usage } = recordUsage(EMPTY_ENTITLEMENT_USAGE, 'timerSessions', ['s1'], 3, TODAY);
+    expect(recordUsage(usage, 'timerSessions', ['s1'], 3, TODAY).usage).toBe(usage);
+  });
+
+  it('starts a fresh count on a new day', () => {
+    const { usage } = recordUsage(EMPTY_ENTITLEMENT_USAGE, 'timerSessions', ['s1', 's2', 's3'], 3, TODAY);
+    const tomorrow = recordUsage(usage, 'timerSessions', ['s4'], 3, '2026-10-20');
+    expect(tomorrow.usage).toEqual({ day: '2026-10-20', used: { timerSessions: ['s4'] } });
+  });
+});
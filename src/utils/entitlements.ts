@@ -0,0 +1,153 @@
+// src/utils/entitlements.ts - WHAT EACH PLAN UNLOCKS AND HOW MUCH OF IT IS LEFT TODAY
+import type { UserSubscription } from '../services/SubscriptionService';
+import { advanceSubscription, statusOf } from './subscriptionState';
+import { PromoGrant, promoAccessEndsAt } from './promoCodes';
+
+export type EntitlementFeature =
+  | 'timerSessions'
+  | 'aiRecommendations'
+  | 'advancedAnalytics'
+  | 'healthIntegration'
+  | 'exportData';
+
+export type EntitlementTier = 'free' | 'premium';
+
+export type SubscriptionAccessStatus = 'free' | 'trial' | 'active' | 'grace' | 'promo' | 'expired';
+
+export interface SubscriptionAccess {
+  status: SubscriptionAccessStatus;
+  tier: EntitlementTier;
+  planId: string; // the subscription's plan, or PROMO_PLAN_ID while a promo code is carrying access
+  expiresAt: string | null; // null for free and lifetime plans
+  graceEndsAt: string | null; // set while an expired subscription is still honoured
+}
+
+export interface EntitlementRule {
+  label: string; // as named in the plan's feature list
+  free: number; // uses per day on the free plan; 0 locks the feature
+  premium: number;
+  unit?: string; // what one use is called, for metered features
+}
+
+// Uses already made today, as the keys they were made under so repeats don't count twice
+export interface EntitlementUsage {
+  day: string;
+  used: Partial<Record<EntitlementFeature, string[]>>;
+}
+
+export interface EntitlementCheck {
+  feature: EntitlementFeature;
+  allowed: boolean;
+  remaining: number; // Infinity when unlimited
+  limit: number;
+  access: SubscriptionAccess;
+  reason: string | null; // why the feature is locked, for the upgrade prompt
+}
+
+export const FREE_PLAN_ID = 'free';
+
+export const PROMO_PLAN_ID = 'promo';
+
+export const ENTITLEMENT_RULES: Record<EntitlementFeature, EntitlementRule> = {
+  timerSessions: { label: 'Timer Sessions', free: 3, premium: Infinity, unit: 'timer sessions' },
+  aiRecommendations: { label: 'AI Recommendations', free: 3, premium: Infinity, unit: 'AI recommendations' },
+  advancedAnalytics: { label: 'Advanced Analytics', free: 0, premium: Infinity },
+  healthIntegration: { label: 'Health Integration', free: 0, premium: Infinity },
+  exportData: { label: 'Export Data', free: 0, premium: Infinity }
+};
+
+export const EMPTY_ENTITLEMENT_USAGE: EntitlementUsage = { day: '', used: {} };
+
+const FREE_ACCESS: SubscriptionAccess = { status: 'free', tier: 'free', planId: FREE_PLAN_ID, expiresAt: null, graceEndsAt: null };
+
+/**
+ * Work out which tier a stored subscription grants right now. Trials and
+ * subscriptions in their grace period are premium; refunds count as expired.
+ * A redeemed promo code fills in whenever the subscription doesn't.
+ */
+export const resolveAccess = (
+  subscription: UserSubscription | null,
+  now: Date = new Date(),
+  promoGrants: PromoGrant[] = []
+): SubscriptionAccess => {
+  const subscriptionAccess = resolveSubscriptionAccess(subscription, now);
+  if (subscriptionAccess.tier === 'premium') return subscriptionAccess;
+
+  const promoEndsAt = promoAccessEndsAt(promoGrants, now);
+  return promoEndsAt
+    ? { status: 'promo', tier: 'premium', planId: PROMO_PLAN_ID, expiresAt: promoEndsAt, graceEndsAt: null }
+    : subscriptionAccess;
+};
+
+const resolveSubscriptionAccess = (subscription: UserSubscription | null, now: Date): SubscriptionAccess => {
+  if (!subscription || subscription.planId === FREE_PLAN_ID) return FREE_ACCESS;
+
+  const current = advanceSubscription(subscription, now);
+  const status = statusOf(current);
+  const { planId } = current;
+  const expiresAt = current.endDate || null;
+
+  switch (status) {
+    case 'trial':
+    case 'active':
+      return { status, tier: 'premium', planId, expiresAt, graceEndsAt: null };
+    case 'grace':
+      return { status, tier: 'premium', planId, expiresAt, graceEndsAt: current.graceEndsAt || null };
+    default:
+      return { status: 'expired', tier: 'free', planId, expiresAt, graceEndsAt: null };
+  }
+};
+
+export const usedToday = (usage: EntitlementUsage, feature: EntitlementFeature, today: string): string[] =>
+  usage.day === today ? usage.used[feature] || [] : [];
+
+export const checkEntitlement = (
+  feature: EntitlementFeature,
+  access: SubscriptionAccess,
+  usage: EntitlementUsage,
+  today: string
+): EntitlementCheck => {
+  const rule = ENTITLEMENT_RULES[feature];
+  const limit = rule[access.tier];
+  const remaining = Math.max(0, limit - usedToday(usage, feature, today).length);
+
+  let reason: string | null = null;
+  if (remaining === 0) {
+    const lapsed = access.status === 'expired' ? 'Your Premium subscription has ended. ' : '';
+    reason = limit === 0
+      ? `${lapsed}${rule.label} is part of Premium.`
+      : `${lapsed}You've used all ${limit} of today's free ${rule.unit || rule.label}. Upgrade for unlimited access, or come back tomorrow.`;
+  }
+
+  return { feature, allowed: remaining > 0, remaining, limit, access, reason };
+};
+
+/**
+ * Record uses under `keys`, skipping keys already used today. Keys that don't fit
+ * within today's limit are left out.
+ * @returns The updated usage (the same object when nothing changed) and the keys that may go ahead
+ */
+export const recordUsage = (
+  usage: EntitlementUsage,
+  feature: EntitlementFeature,
+  keys: string[],
+  limit: number,
+  today: string
+): { usage: EntitlementUsage; granted: string[] } => {
+  const current = usage.day === today ? usage : { day: today, used: {} };
+  const used = [...(current.used[feature] || [])];
+  const granted: string[] = [];
+  const before = used.length;
+
+  keys.forEach(key => {
+    if (used.includes(key)) {
+      granted.push(key);
+    } else if (used.length < limit) {
+      used.push(key);
+      granted.push(key);
+    }
+  });
+
+  if (current === usage && used.length === before) return { usage, granted };
+  return { usage: { day: today, used: { ...current.used, [feature]: used } }, granted };
+};
@@ -0,0 +1,116 @@
+// src/utils/foodDatabase.ts - SHARED FOOD & RECIPE NUTRITION DATABASE
+export interface NutrientTotals {
+  calories: number;
+  protein: number; // grams
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+export type FoodCategory = 'Protein' | 'Carbs' | 'Fats' | 'Vegetables' | 'Nuts' | 'Recipe' | 'Condiment' | 'Beverage';
+
+export interface FoodItem extends NutrientTotals {
+  id: string;
+  name: string;
+  serving: string; // what one serving of the values above is
+  category: FoodCategory;
+  recipeIds?: string[]; // DietScreen and CulturalContentManager recipes this entry describes
+}
+
+export const EMPTY_NUTRIENTS: NutrientTotals = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+export const WATER_FOOD_ID = 'water';
+
+// Recipe entries are per serving; everything else is per the stated portion
+export const FOOD_DATABASE: FoodItem[] = [
+  { id: 'chicken_breast', name: 'Chicken Breast', serving: '100g', calories: 165, protein: 31, carbs: 0, fat: 3.6, fiber: 0, category: 'Protein' },
+  { id: 'brown_rice', name: 'Brown Rice', serving: '100g', calories: 111, protein: 2.6, carbs: 22, fat: 0.9, fiber: 1.8, category: 'Carbs' },
+  { id: 'avocado', name: 'Avocado', serving: '100g', calories: 160, protein: 2, carbs: 9, fat: 15, fiber: 7, category: 'Fats' },
+  { id: 'broccoli', name: 'Broccoli', serving: '100g', calories: 34, protein: 2.8, carbs: 7, fat: 0.4, fiber: 2.6, category: 'Vegetables' },
+  { id: 'almonds', name: 'Almonds', serving: '30g', calories: 170, protein: 6, carbs: 6, fat: 15, fiber: 4, category: 'Nuts' },
+  { id: 'greek_yogurt', name: 'Greek Yogurt', serving: '100g', calories: 59, protein: 10, carbs: 3.6, fat: 0.4, fiber: 0, category: 'Protein' },
+  { id: 'quinoa', name: 'Quinoa', serving: '100g', calories: 120, protein: 4.4, carbs: 22, fat: 1.9, fiber: 2.8, category: 'Carbs' },
+  { id: 'salmon', name: 'Salmon', serving: '100g', calories: 208, protein: 20, carbs: 0, fat: 13, fiber: 0, category: 'Protein' },
+  { id: 'sweet_potato', name: 'Sweet Potato', serving: '100g', calories: 86, protein: 1.6, carbs: 20, fat: 0.1, fiber: 3, category: 'Carbs' },
+  { id: 'spinach', name: 'Spinach', serving: '100g', calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4, fiber: 2.2, category: 'Vegetables' },
+  { id: 'upma', name: 'Upma', serving: '1 bowl', calories: 180, protein: 4.5, carbs: 28, fat: 6, fiber: 2.5, category: 'Carbs' },
+  { id: 'green_tea', name: 'Green Tea', serving: '1 cup', calories: 2, protein: 0, carbs: 0.5, fat: 0, fiber: 0, category: 'Beverage' },
+  { id: WATER_FOOD_ID, name: 'Water', serving: '1 glass', calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, category: 'Beverage' },
+  {
+    id: 'khichdi',
+    name: 'Ayurvedic Khichdi',
+    serving: '1 serving',
+    calories: 245, protein: 8.5, carbs: 45, fat: 3, fiber: 4.5,
+    category: 'Recipe',
+    recipeIds: ['khichdi', 'khichdi_ayurvedic']
+  },
+  {
+    id: 'dal_tadka',
+    name: 'Dal Tadka',
+    serving: '1 serving',
+    calories: 195, protein: 12, carbs: 28, fat: 5, fiber: 8,
+    category: 'Recipe',
+    recipeIds: ['dal-tadka', 'dal_tadka']
+  },
+  {
+    id: 'golden_milk',
+    name: 'Golden Milk (Turmeric Latte)',
+    serving: '1 cup',
+    calories: 140, protein: 8, carbs: 12, fat: 6, fiber: 0.5,
+    category: 'Beverage',
+    recipeIds: ['golden-milk']
+  },
+  {
+    id: 'coconut_rice',
+    name: 'Coconut Rice',
+    serving: '1 serving',
+    calories: 320, protein: 6, carbs: 42, fat: 14, fiber: 3,
+    category: 'Recipe',
+    recipeIds: ['coconut-rice']
+  },
+  {
+    id: 'coconut_chutney',
+    name: 'Fresh Coconut Chutney',
+    serving: '2 tbsp',
+    calories: 45, protein: 0.6, carbs: 2, fat: 4, fiber: 1.2,
+    category: 'Condiment',
+    recipeIds: ['coconut_chutney']
+  }
+];
+
+const FOODS_BY_ID = new Map(FOOD_DATABASE.map(food => [food.id, food]));
+
+export const getFood = (foodId: string): FoodItem | undefined => FOODS_BY_ID.get(foodId);
+
+/**
+ * Database entry for a recipe from either recipe library
+ */
+export const findFoodForRecipe = (recipeId: string): FoodItem | undefined =>
+  FOOD_DATABASE.find(food => food.recipeIds?.includes(recipeId));
+
+export const searchFoods = (query: string): FoodItem[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return FOOD_DATABASE;
+  return FOOD_DATABASE.filter(food =>
+    food.name.toLowerCase().includes(needle) || food.category.toLowerCase().includes(needle)
+  );
+};
+
+/**
+ * Nutrients for `servings` servings of a food
+ */
+export const scaleNutrients = (food: NutrientTotals, servings: number): NutrientTotals => ({
+  calories: food.calories * servings,
+  protein: food.protein * servings,
+  carbs: food.carbs * servings,
+  fat: food.fat * servings,
+  fiber: food.fiber * servings
+});
+
+export const addNutrients = (a: NutrientTotals, b: NutrientTotals): NutrientTotals => ({
+  calories: a.calories + b.calories,
+  protein: a.protein + b.protein,
+  carbs: a.carbs + b.carbs,
+  fat: a.fat + b.fat,
+  fiber: a.fiber + b.fiber
+});
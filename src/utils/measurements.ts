@@ -0,0 +1,165 @@
+// src/utils/measurements.ts - UNITS, VALIDATION AND AGGREGATION FOR BODY MEASUREMENTS
+import type { Measurement, MeasurementInput, MeasurementType, MeasurementUnit } from '../context/AppDataContext';
+import { shiftDayKey } from '../services/StreakEngine';
+import { average } from './sessionAnalytics';
+
+export interface MeasurementDefinition {
+  label: string;
+  units: MeasurementUnit[]; // first is the default, and the unit `range` is given in
+  decimals: number;
+  range: { min: number; max: number };
+  valueLabel?: string; // what the main value is called when there is a secondary one
+  secondary?: { label: string; range: { min: number; max: number } }; // diastolic for blood pressure
+}
+
+export interface MeasurementDay {
+  day: string; // yyyy-MM-dd in the home timezone
+  value: number | null; // average of the day's entries
+  secondaryValue: number | null;
+  count: number;
+}
+
+export const MEASUREMENT_DEFINITIONS: Record<MeasurementType, MeasurementDefinition> = {
+  weight: { label: 'Weight', units: ['kg', 'lb'], decimals: 1, range: { min: 20, max: 400 } },
+  height: { label: 'Height', units: ['cm', 'in'], decimals: 1, range: { min: 50, max: 250 } },
+  waist: { label: 'Waist', units: ['cm', 'in'], decimals: 1, range: { min: 30, max: 250 } },
+  bloodPressure: {
+    label: 'Blood Pressure',
+   
+    units: ['mmHg'],
+    decimals: 0,
+    range: { min: 60, max: 260 },
+    valueLabel: 'Systolic',
+    secondary: { label: 'Diastolic', range: { min: 30, max: 160 } }
+  },
+  restingHeartRate: { label: 'Resting Heart Rate', units: ['bpm'], decimals: 0, range: { min: 25, max: 220 } },
+  sleep: { label: 'Sleep', units: ['h'], decimals: 1, range: { min: 0, max: 24 } },
+  bloodOxygen: { label: 'Blood Oxygen', units: ['%'], decimals: 0, range: { min: 50, max: 100 } },
+  bodyTemperature: { label: 'Body Temp', units: ['°C', '°F'], decimals: 1, range: { min: 32, max: 45 } },
+  respiratoryRate: { label: 'Respiratory Rate', units: ['breaths/min'], decimals: 0, range: { min: 4, max: 60 } }
+};
+
+export const MEASUREMENT_TYPES = Object.keys(MEASUREMENT_DEFINITIONS) as MeasurementType[];
+
+// Multiply by the factor to get the first unit of the pair
+const LINEAR_UNITS: Partial<Record<MeasurementUnit, { base: MeasurementUnit; factor: number }>> = {
+  lb: { base: 'kg', factor: 0.45359237 },
+  in: { base: 'cm', factor: 2.54 }
+};
+
+const round = (value: number, decimals: number) => {
+  const scale = Math.pow(10, decimals);
+  return Math.round(value * scale) / scale;
+};
+
+/**
+ * Convert between two units of the same quantity. Unrelated units are returned unchanged.
+ */
+export const convertUnit = (value: number, from: MeasurementUnit, to: MeasurementUnit): number => {
+  if (from === to) return value;
+  if (from === '°F' && to === '°C') return (value - 32) * 5 / 9;
+  if (from === '°C' && to === '°F') return value * 9 / 5 + 32;
+
+  const fromLinear = LINEAR_UNITS[from];
+  const toLinear = LINEAR_UNITS[to];
+  if (fromLinear && fromLinear.base === to) return value * fromLinear.factor;
+  if (toLinear && toLinear.base === from) return value / toLinear.factor;
+  return value;
+};
+
+/**
+ * A measurement's value in another unit of its type, defaulting to the type's default unit
+ */
+export const measurementValue = (measurement: Measurement, unit?: MeasurementUnit): number =>
+  convertUnit(measurement.value, measurement.unit, unit || MEASUREMENT_DEFINITIONS[measurement.type].units[0]);
+
+export const formatMeasurement = (measurement: Measurement, unit: MeasurementUnit = measurement.unit): string => {
+  const { decimals } = MEASUREMENT_DEFINITIONS[measurement.type];
+  const value = round(measurementValue(measurement, unit), decimals).toFixed(decimals);
+  return measurement.secondaryValue !== undefined
+    ? `${value}/${round(measurement.secondaryValue, decimals).toFixed(decimals)} ${unit}`
+    : `${value} ${unit}`;
+};
+
+/**
+ * Why an entry can't be saved, or null when it is plausible
+ */
+export const validateMeasurementInput = (input: MeasurementInput): string | null => {
+  const definition = MEASUREMENT_DEFINITIONS[input.type];
+  if (!definition) return `Unknown measurement "${input.type}"`;
+  if (!definition.units.includes(input.unit)) return `${definition.label} can't be recorded in ${input.unit}`;
+  if (typeof input.value !== 'number' || !isFinite(input.value)) return `${definition.label} needs a number`;
+
+  const value = convertUnit(input.value, input.unit, definition.units[0]);
+  if (value < definition.range.min || value > definition.range.max) {
+    return `${definition.label} should be between ${definition.range.min} and ${definition.range.max} ${definition.units[0]}`;
+  }
+
+  if (definition.secondary) {
+    const { label, range } = definition.secondary;
+    if (typeof input.secondaryValue !== 'number' || !isFinite(input.secondaryValue)) return `${label} needs a number`;
+    if (input.secondaryValue < range.min || input.secondaryValue > range.max) {
+      return `${label} should be between ${range.min} and ${range.max} ${definition.units[0]}`;
+    }
+    if (input.secondaryValue >= input.value) return `${label} should be lower than ${(definition.valueLabel || definition.label).toLowerCase()}`;
+  }
+  return null;
+};
+
+/**
+ * Entries of one type, newest first
+ */
+export const getMeasurements = (measurements: Measurement[], type: MeasurementType): Measurement[] =>
+  measurements
+    .filter(measurement => measurement.type === type)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || (a.id < b.id ? 1 : -1));
+
+export const getLatestMeasurement = (measurements: Measurement[], type: MeasurementType): Measurement | null =>
+  getMeasurements(measurements, type)[0] || null;
+
+/**
+ * The unit the user last logged this type in, so charts and forms follow their habit
+ */
+export const preferredUnit = (measurements: Measurement[], type: MeasurementType): MeasurementUnit =>
+  getLatestMeasurement(measurements, type)?.unit || MEASUREMENT_DEFINITIONS[type].units[0];
+
+/**
+ * Daily averages in `unit` for each of the `days` days ending at `today`, oldest first
+ */
+export const getMeasurementHistory = (
+  measurements: Measurement[],
+  type: MeasurementType,
+  days: number,
+  today: string,
+  unit: MeasurementUnit = MEASUREMENT_DEFINITIONS[type].units[0]
+): MeasurementDay[] => {
+  const { decimals } = MEASUREMENT_DEFINITIONS[type];
+  const ofType = measurements.filter(measurement => measurement.type === type);
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = shiftDayKey(today, index - (days - 1));
+    const entries = ofType.filter(measurement => measurement.day === day);
+    const value = average(entries.map(measurement => measurementValue(measurement, unit)));
+    const secondaryValue = average(
+      entries.filter(measurement => measurement.secondaryValue !== undefined).map(measurement => measurement.secondaryValue!)
+    );
+
+    return {
+      day,
+      value: value === null ? null : round(value, decimals),
+      secondaryValue: secondaryValue === null ? null : round(secondaryValue, decimals),
+      count: entries.length
+    };
+  });
+};
+
+/**
+ * Insert or replace measurements by id, keeping the log in time order
+ */
+export const mergeMeasurements = (measurements: Measurement[], updates: Measurement[]): Measurement[] => {
+  const byId = new Map(measurements.map(measurement => [measurement.id, measurement]));
+  updates.forEach(measurement => byId.set(measurement.id, measurement));
+  return [...byId.values()].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime() || (a.id < b.id ? -1 : 1)
+  );
+};
@@ -0,0 +1,136 @@
+// src/utils/notificationPolicy.ts - WHICH NOTIFICATIONS MAY BE SCHEDULED, WHEN, AND UNDER WHAT NAME
+import { PillarKey } from './sessionAnalytics';
+import { NotificationSettings, isInQuietHours, timeToMinutes } from './notificationSettings';
+
+/**
+ * Every scheduled notification belongs to a namespace, and its identifier starts
+ * with it (`reminder:body:2026-10-19`), so one kind can be replaced or cancelled
+ * without touching the others.
+ */
+export type NotificationNamespace =
+  | 'reminder' // learned practice-time reminders
+  | 'weekly' // weekly progress report
+  | 'motivation'
+  | 'achievement'
+  | 'insight' // coaching and recommendation updates
+  | 'streak'
+  | 'test';
+
+export const NOTIFICATION_NAMESPACES: NotificationNamespace[] = [
+  'reminder', 'weekly', 'motivation', 'achievement', 'insight', 'streak', 'test'
+];
+
+// When a notification fires. Weekdays follow Date.getDay(), 0 being Sunday.
+export interface NotificationTiming {
+  kind: 'now' | 'at' | 'daily' | 'weekly';
+  date?: string; // for 'at'
+  weekday?: number; // for 'weekly'
+  hour?: number; // for 'daily' and 'weekly'
+  minute?: number;
+}
+
+// What the registry remembers about a scheduled notification, and why it was scheduled
+export interface NotificationRecord {
+  identifier: string;
+  namespace: NotificationNamespace;
+  title: string;
+  body: string;
+  reason: string;
+  pillar: PillarKey | null;
+  timing: NotificationTiming;
+  data: Record<string, any>;
+  scheduledAt: string;
+}
+
+export interface UpcomingNotification extends NotificationRecord {
+  nextAt: string;
+}
+
+export const notificationId = (namespace: NotificationNamespace, ...parts: (string | number)[]): string =>
+  [namespace, ...parts].join(':');
+
+// The namespace an identifier was scheduled under, or null for one this app didn't name
+export const namespaceOf = (identifier: string): NotificationNamespace | null => {
+  const namespace = identifier.split(':')[0] as NotificationNamespace;
+  return identifier.includes(':') && NOTIFICATION_NAMESPACES.includes(namespace) ? namespace : null;
+};
+
+/**
+ * Whether settings allow a notification at all: the master switch, the toggle for
+ * its kind and, when it's about one pillar, that pillar's toggle
+ */
+export const allowedBySettings = (
+  settings: NotificationSettings,
+  namespace: NotificationNamespace,
+  pillar: PillarKey | null = null
+): boolean => {
+  if (!settings.masterEnabled) return false;
+  if (pillar && !settings.pillarSpecific[pillar]) return false;
+
+  switch (namespace) {
+    case 'reminder':
+    case 'streak':
+      return settings.dailyReminders;
+    case 'weekly':
+      return settings.weeklyReports;
+    case 'motivation':
+      return settings.motivationalQuotes;
+    case 'achievement':
+      return settings.achievementAlerts;
+    default:
+      return true;
+  }
+};
+
+const atMinute = (day: Date, minute: number, offsetDays: number = 0): Date =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate() + offsetDays, Math.floor(minute / 60), minute % 60);
+
+/**
+ * Move a timing out of quiet hours to when they end. One-off notifications wait
+ * for the next end; repeating ones move their time of day, and their weekday too
+ * when quiet hours run past midnight.
+ */
+export const placeOutsideQuietHours = (
+  timing: NotificationTiming,
+  quietHours: NotificationSettings['quietHours'],
+  now: Date = new Date()
+): NotificationTiming => {
+  const end = timeToMinutes(quietHours.endTime);
+  if (end === null) return timing;
+
+  if (timing.kind === 'now' || timing.kind === 'at') {
+    const date = timing.kind === 'now' ? now : new Date(timing.date!);
+    if (!isInQuietHours(date.getHours() * 60 + date.getMinutes(), quietHours)) return timing;
+
+    const sameDay = atMinute(date, end);
+    return { kind: 'at', date: (sameDay > date ? sameDay : atMinute(date, end, 1)).toISOString() };
+  }
+
+  const minute = timing.hour! * 60 + timing.minute!;
+  if (!isInQuietHours(minute, quietHours)) return timing;
+
+  const moved = { ...timing, hour: Math.floor(end / 60), minute: end % 60 };
+  return timing.kind === 'weekly' && end < minute ? { ...moved, weekday: (timing.weekday! + 1) % 7 } : moved;
+};
+
+// When a timing next fires after `now`
+export const nextOccurrence = (timing: NotificationTiming, now: Date = new Date()): Date => {
+  if (timing.kind === 'now') return now;
+  if (timing.kind === 'at') return new Date(timing.date!);
+
+  const minute = timing.hour! * 60 + timing.minute!;
+  const offset = timing.kind === 'weekly' ? (timing.weekday! - now.getDay() + 7) % 7 : 0;
+  const next = atMinute(now, minute, offset);
+  return next > now ? next : atMinute(now, minute, offset + (timing.kind === 'weekly' ? 7 : 1));
+};
+
+/**
+ * Scheduled notifications still to come, soonest first. One-offs that have
+ * already fired are left out.
+ */
+export const upcomingNotifications = (records: NotificationRecord[], now: Date = new Date()): UpcomingNotification[] =>
+  records
+    .map(record => ({ ...record, nextAt: nextOccurrence(record.timing, now).toISOString() }))
+    .filter(record => record.timing.kind === 'daily' || record.timing.kind === 'weekly' ||
+      new Date(record.nextAt).getTime() > now.getTime())
+    .sort((a, b) => a.nextAt.localeCompare(b.nextAt));
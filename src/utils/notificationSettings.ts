@@ -0,0 +1,105 @@
+// src/utils/notificationSettings.ts - WHAT THE USER HAS ALLOWED NOTIFICATIONS TO DO
+import { PILLARS, PillarKey } from './sessionAnalytics';
+
+export interface NotificationSettings {
+  masterEnabled: boolean;
+  dailyReminders: boolean;
+  dailyTime: string; // HH:mm, used until there's enough practice history to learn from
+  achievementAlerts: boolean;
+  motivationalQuotes: boolean;
+  weeklyReports: boolean;
+  pillarSpecific: Record<PillarKey, boolean>;
+  soundEnabled: boolean;
+  vibrationEnabled: boolean;
+  quietHours: {
+    enabled: boolean;
+    startTime: string; // HH:mm; may be later than endTime to span midnight
+    endTime: string;
+  };
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  masterEnabled: true,
+  dailyReminders: true,
+  dailyTime: '09:00',
+  achievementAlerts: true,
+  motivationalQuotes: true,
+  weeklyReports: true,
+  pillarSpecific: {
+    body: true,
+    mind: true,
+    heart: true,
+    spirit: true,
+    diet: true,
+  },
+  soundEnabled: true,
+  vibrationEnabled: true,
+  quietHours: {
+    enabled: false,
+    startTime: '22:00',
+    endTime: '07:00',
+  }
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Minutes since midnight for an HH:mm time, or null if it isn't one
+export const timeToMinutes = (time: string): number | null => {
+  const match = typeof time === 'string' ? time.match(TIME_PATTERN) : null;
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+export const minutesToTime = (minutes: number): string => {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Whether a minute of the day falls inside quiet hours. A start later than the
+ * end (22:00-07:00) spans midnight.
+ */
+export const isInQuietHours = (minuteOfDay: number, quietHours: NotificationSettings['quietHours']): boolean => {
+  if (!quietHours.enabled) return false;
+  const start = timeToMinutes(quietHours.startTime);
+  const end = timeToMinutes(quietHours.endTime);
+  if (start === null || end === null || start === end) return false;
+
+  return start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+};
+
+/**
+ * Fill in anything missing or malformed in stored settings from the defaults,
+ * so older or hand-edited records can't break scheduling
+ */
+export const normalizeNotificationSettings = (raw: any): NotificationSettings => {
+  const source = raw && typeof raw === 'object' ? raw : {};
+  const flag = (value: any, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+  const time = (value: any, fallback: string) => (timeToMinutes(value) !== null ? value : fallback);
+  const defaults = DEFAULT_NOTIFICATION_SETTINGS;
+
+  const pillarSpecific = { ...defaults.pillarSpecific };
+  PILLARS.forEach(pillar => {
+    pillarSpecific[pillar] = flag(source.pillarSpecific?.[pillar], defaults.pillarSpecific[pillar]);
+  });
+
+  return {
+    masterEnabled: flag(source.masterEnabled, defaults.masterEnabled),
+    dailyReminders: flag(source.dailyReminders, defaults.dailyReminders),
+    dailyTime: time(source.dailyTime, defaults.dailyTime),
+    achievementAlerts: flag(source.achievementAlerts, defaults.achievementAlerts),
+    motivationalQuotes: flag(source.motivationalQuotes, defaults.motivationalQuotes),
+    weeklyReports: flag(source.weeklyReports, defaults.weeklyReports),
+    pillarSpecific,
+    soundEnabled: flag(source.soundEnabled, defaults.soundEnabled),
+    vibrationEnabled: flag(source.vibrationEnabled, defaults.vibrationEnabled),
+    quietHours: {
+      enabled: flag(source.quietHours?.enabled, defaults.quietHours.enabled),
+      startTime: time(source.quietHours?.startTime, defaults.quietHours.startTime),
+      endTime: time(source.quietHours?.endTime, defaults.quietHours.endTime),
+    }
+  };
+};
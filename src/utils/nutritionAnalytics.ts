@@ -0,0 +1,235 @@
+// src/utils/nutritionAnalytics.ts - PURE AGGREGATION HELPERS OVER THE NUTRITION LOG
+import type { MealEntry, MealType, MealMood, DigestionRating } from '../context/AppDataContext';
+import { shiftDayKey } from '../services/StreakEngine';
+import { EMPTY_NUTRIENTS, NutrientTotals, getFood, scaleNutrients, addNutrients, WATER_FOOD_ID } from './foodDatabase';
+import { average } from './sessionAnalytics';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+export const MEAL_MOODS: MealMood[] = ['energized', 'satisfied', 'heavy', 'light', 'bloated'];
+export const DIGESTION_RATINGS: DigestionRating[] = ['excellent', 'good', 'okay', 'poor'];
+
+// 1 (poor) - 4 (excellent), so digestion can be averaged and charted
+export const DIGESTION_SCORES: Record<DigestionRating, number> = { excellent: 4, good: 3, okay: 2, poor: 1 };
+
+export interface DailyNutrition {
+  day: string; // yyyy-MM-dd in the home timezone
+  totals: NutrientTotals;
+  byMeal: Record<MealType, NutrientTotals>;
+  water: number; // glasses
+  meals: number;
+}
+
+export interface MealWellbeingDay {
+  day: string;
+  digestion: number | null; // average DIGESTION_SCORES value
+  moods: Partial<Record<MealMood, number>>; // count of meals per reported mood
+  meals: number;
+}
+
+export interface MealQuery {
+  from?: string; // day key, inclusive
+  to?: string; // day key, inclusive
+  mealType?: MealType;
+  mood?: MealMood;
+  digestion?: DigestionRating;
+  foodId?: string;
+}
+
+const emptyByMeal = (): Record<MealType, NutrientTotals> =>
+  MEAL_TYPES.reduce((acc, mealType) => {
+    acc[mealType] = { ...EMPTY_NUTRIENTS };
+    return acc;
+  }, {} as Record<MealType, NutrientTotals>);
+
+/**
+ * Nutrient totals for one meal, looked up from the food database.
+ * Items whose food is no longer in the database count as zero.
+ */
+export const mealNutrients = (meal: MealEntry): NutrientTotals =>
+  meal.items.reduce((totals, item) => {
+    const food = getFood(item.foodId);
+    return food ? addNutrients(totals, scaleNutrients(food, item.servings)) : totals;
+  }, { ...EMPTY_NUTRIENTS });
+
+export const mealWater = (meal: MealEntry): number =>
+  meal.items.filter(item => item.foodId === WATER_FOOD_ID).reduce((sum, item) => sum + item.servings, 0);
+
+/**
+ * Totals for a single day, overall and per meal type
+ */
+export const getDailyNutrition = (meals: MealEntry[], day: string): DailyNutrition => {
+  const dayMeals = meals.filter(meal => meal.day === day);
+  const byMeal = emptyByMeal();
+  let totals = { ...EMPTY_NUTRIENTS };
+
+  dayMeals.forEach(meal => {
+    const nutrients = mealNutrients(meal);
+    byMeal[meal.mealType] = addNutrients(byMeal[meal.mealType], nutrients);
+    totals = addNutrients(totals, nutrients);
+  });
+
+  return {
+    day,
+    totals,
+    byMeal,
+    water: dayMeals.reduce((sum, meal) => sum + mealWater(meal), 0),
+    meals: dayMeals.length
+  };
+};
+
+/**
+ * Daily totals for each of the `days` days ending at `today`, oldest first
+ */
+export const getNutritionHistory = (meals: MealEntry[], days: number, today: string): DailyNutrition[] =>
+  Array.from({ length: days }, (_, index) => getDailyNutrition(meals, shiftDayKey(today, index - (days - 1))));
+
+/**
+ * Meals matching every given field, oldest first
+ */
+export const queryMeals = (meals: MealEntry[], query: MealQuery): MealEntry[] =>
+  meals
+    .filter(meal =>
+      (!query.from || meal.day >= query.from) &&
+      (!query.to || meal.day <= query.to) &&
+      (!query.mealType || meal.mealType === query.mealType) &&
+      (!query.mood || meal.mood === query.mood) &&
+      (!query.digestion || meal.digestion === query.digestion) &&
+      (!query.foodId || meal.items.some(item => item.foodId === query.foodId))
+    )
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+/**
+ * Reported digestion and post-meal mood for each of the `days` days ending at `today`, oldest first
+ */
+export const getMealWellbeingHistory = (meals: MealEntry[], days: number, today: string): MealWellbeingDay[] =>
+  Array.from({ length: days }, (_, index) => {
+    const day = shiftDayKey(today, index - (days - 1));
+    const dayMeals = meals.filter(meal => meal.day === day);
+    const digestion = average(
+      dayMeals.filter(meal => meal.digestion).map(meal => DIGESTION_SCORES[meal.digestion!])
+    );
+
+    return {
+      day,
+      digestion: digestion === null ? null : Math.round(digestion * 10) / 10,
+      moods: dayMeals.reduce((acc, meal) => {
+        if (meal.mood) acc[meal.mood] = (acc[meal.mood] || 0) + 1;
+        return acc;
+      }, {} as Partial<Record<MealMood, number>>),
+      meals: dayMeals.length
+    };
+  });
+
+/**
+ * Meal type for a time of day, used when food is logged without picking one
+ */
+export const mealTypeForTime = (date: Date = new Date()): MealType => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 16) return 'lunch';
+  if (hour >= 17 && hour < 22) return 'dinner';
+  return 'snack';
+};
+
+/**
+ * Insert or replace meals by id, keeping the log in time order
+ */
+export const mergeMeals = (meals: MealEntry[], updates: MealEntry[]): MealEntry[] => {
+  const byId = new Map(meals.map(meal => [meal.id, meal]));
+  updates.forEach(meal => byId.set(meal.id, meal));
+  return [...byId.values()].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime() || (a.id < b.id ? -1 : 1)
+  );
+};
+
+export interface NutritionAssessment {
+  days: number; // days in the window with food logged
+  macros: { protein: number; carbs: number; fat: number; fiber: number }; // average grams per logged day
+  calories: number; // average per logged day
+  hydration: number; // average glasses per logged day
+  nutritionScore: number; // 0-100
+  deficiencies: string[];
+  recommendations: string[];
+}
+
+// Share of calories from each macro that counts as balanced, and daily fibre and water goals
+const MACRO_RANGES = { protein: [0.15, 0.3], carbs: [0.4, 0.6], fat: [0.2, 0.35] } as const;
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fat: 9 } as const;
+const FIBER_PER_1000_KCAL = 14;
+const WATER_GLASSES_GOAL = 8;
+
+// 1 inside the range, falling to 0 at half the lower bound or one and a half times the upper one
+const rangeScore = (value: number, [low, high]: readonly [number, number]): number =>
+  value < low ? Math.max(0, (value - low / 2) / (low / 2))
+  : value > high ? Math.max(0, 1 - (value - high) / (high / 2))
+  : 1;
+
+/**
+ * Score the days in `history` that have food logged: macro balance (40 points),
+ * fibre for the calories eaten (30) and water (30). Only days with logged food
+ * count, so a forgotten day doesn't read as a fast.
+ * @returns null when no food was logged in the window
+ */
+export const assessNutrition = (history: DailyNutrition[]): NutritionAssessment | null => {
+  const logged = history.filter(day => day.totals.calories > 0);
+  if (logged.length === 0) return null;
+
+  const mean = (pick: (day: DailyNutrition) => number) =>
+    logged.reduce((sum, day) => sum + pick(day), 0) / logged.length;
+  const macros = {
+    protein: mean(day => day.totals.protein),
+    carbs: mean(day => day.totals.carbs),
+    fat: mean(day => day.totals.fat),
+    fiber: mean(day => day.totals.fiber)
+  };
+  const calories = mean(day => day.totals.calories);
+  const hydration = mean(day => day.water);
+
+  const macroCalories = (['protein', 'carbs', 'fat'] as const)
+    .reduce((sum, macro) => sum + macros[macro] * CALORIES_PER_GRAM[macro], 0) || 1;
+  const share = (macro: 'protein' | 'carbs' | 'fat') => macros[macro] * CALORIES_PER_GRAM[macro] / macroCalories;
+  const macroScore = (['protein', 'carbs', 'fat'] as const)
+    .reduce((sum, macro) => sum + rangeScore(share(macro), MACRO_RANGES[macro]), 0) / 3;
+  const fiberGoal = calories / 1000 * FIBER_PER_1000_KCAL;
+  const fiberScore = Math.min(1, macros.fiber / fiberGoal);
+  const waterScore = Math.min(1, hydration / WATER_GLASSES_GOAL);
+
+  const deficiencies: string[] = [];
+  const recommendations: string[] = [];
+  if (share('protein') < MACRO_RANGES.protein[0]) {
+    deficiencies.push('Protein');
+    recommendations.push('Add a protein source such as lentils, yogurt, eggs or fish to each meal');
+  }
+  if (share('fat') > MACRO_RANGES.fat[1]) {
+    recommendations.push('Favour lighter cooking and swap some fried or rich dishes for steamed ones');
+  }
+  if (share('carbs') > MACRO_RANGES.carbs[1]) {
+    recommendations.push('Balance grains and sweets with more vegetables and protein');
+  }
+  if (fiberScore < 0.8) {
+    deficiencies.push('Fibre');
+    recommendations.push(`Aim for about ${Math.round(fiberGoal)}g of fibre a day from vegetables, whole grains and legumes`);
+  }
+  if (waterScore < 0.75) {
+    deficiencies.push('Hydration');
+    recommendations.push(`Drink about ${WATER_GLASSES_GOAL} glasses of water a day; you're averaging ${Math.round(hydration * 10) / 10}`);
+  }
+  if (recommendations.length === 0) {
+    recommendations.push('Your logged meals are well balanced - keep it up');
+  }
+
+  return {
+    days: logged.length,
+    macros: {
+      protein: Math.round(macros.protein),
+      carbs: Math.round(macros.carbs),
+      fat: Math.round(macros.fat),
+      fiber: Math.round(macros.fiber)
+    },
+    calories: Math.round(calories),
+    hydration: Math.round(hydration * 10) / 10,
+    nutritionScore: Math.round(macroScore * 40 + fiberScore * 30 + waterScore * 30),
+    deficiencies,
+    recommendations
+  };
+};
@@ -0,0 +1,84 @@
+import type { SessionData } from '../context/AppDataContext';
+import {
+  DEFAULT_SCORING_CONFIG,
+  calculateOverallScore,
+  calculatePillarScore,
+  calculatePillarScores,
+  createPillarScoreTracker,
+  sessionPoints
+} from './pillarScoring';
+import { DAY_MS, PILLARS } from './sessionAnalytics';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const session = (id: string, daysAgo: number, overrides: Partial<SessionData> = {}): SessionData => ({
+  id,
+  pillar: 'body',
+  type: 'practice',
+  duration: 20,
+  date: new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString(),
+  score: 100,
+  mood: 'good',
+  ...overrides
+});
+
+describe('sessionPoints', () => {
+  it('caps long sessions and scales by quality, type and mood', () => {
+    expect(sessionPoints(session('a', 0, { duration: 20 }))).toBe(10);
+    expect(sessionPoints(session('a', 0, { duration: 120 }))).toBe(10);
+    expect(sessionPoints(session('a', 0, { score: 50 }))).toBe(5);
+    expect(sessionPoints(session('a', 0, { type: 'exercise', mood: 'excellent' }))).toBeCloseTo(10 * 1.2 * 1.1);
+  });
+
+  it('gives nothing for a session outside the five pillars', () => {
+    expect(sessionPoints(session('a', 0, { pillar: 'sleep' }))).toBe(0);
+  });
+});
+
+describe('calculatePillarScore', () => {
+  it('halves a session\'s weight every half-life', () => {
+    const fresh = calculatePillarScore([session('a', 0)], 'body', NOW);
+    const old = calculatePillarScore([session('a', DEFAULT_SCORING_CONFIG.halfLifeDays)], 'body', NOW);
+    expect(fresh).toBe(Math.round(100 * (1 - Math.exp(-10 / 60))));
+    expect(old).toBe(Math.round(100 * (1 - Math.exp(-5 / 60))));
+  });
+
+  it('ignores sessions outside the window, in the future or for other pillars', () => {
+    const sessions = [
+      session('old', DEFAULT_SCORING_CONFIG.windowDays + 1),
+      session('future', -1),
+      session('mind', 0, { pillar: 'mind' })
+    ];
+    expect(calculatePillarScore(sessions, 'body', NOW)).toBe(0);
+  });
+
+  it('approaches but never passes 100', () => {
+    const daily = Array.from({ length: 90 }, (_, day) => session(`s${day}`, day));
+    const score = calculatePillarScore(daily, 'body', NOW);
+    expect(score).toBeGreaterThan(90);
+    expect(score).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('calculateOverallScore', () => {
+  it('averages the five pillars', () => {
+    expect(calculateOverallScore({ body: 80, mind: 60, heart: 40, spirit: 20, diet: 0 })).toBe(40);
+  });
+});
+
+describe('createPillarScoreTracker', () => {
+  it('matches rescoring the log after every session', () => {
+    // Uneven gaps, several pillars and a stretch longer than the window
+    const sessions = Array.from({ length: 160 }, (_, index) => session(`s${index}`, 200 - index * 1.3, {
+      pillar: PILLARS[index % PILLARS.length],
+      duration: 5 + (index * 7) % 40,
+      score: 40 + (index * 13) % 60
+    }));
+    const tracker = createPillarScoreTracker();
+
+    sessions.forEach((entry, index) => {
+      tracker.add(entry);
+      expect(tracker.scores()).toEqual(calculatePillarScores(sessions.slice(0, index + 1), new Date(entry.date)));
+    });
+  });
+});
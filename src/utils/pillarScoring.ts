@@ -0,0 +1,188 @@
+// src/utils/pillarScoring.ts - SINGLE SOURCE OF TRUTH FOR PILLAR SCORES
+import type { SessionData, PillarProgress } from '../context/AppDataContext';
+import { PILLARS, PillarKey, DAY_MS, dayKeyRange, isPillar, lastNDays } from './sessionAnalytics';
+
+type SessionType = SessionData['type'];
+type SessionMood = SessionData['mood'];
+
+export interface PillarScoringConfig {
+  windowDays: number; // sessions older than this no longer count
+  halfLifeDays: number; // a session's contribution halves every N days
+  pointsPerMinute: number;
+  maxSessionPoints: number;
+  saturation: number; // decayed points at which a pillar reaches ~63%
+  typeWeights: Record<PillarKey, Record<SessionType, number>>;
+  moodWeights: Record<PillarKey, Record<SessionMood, number>>;
+}
+
+export const DEFAULT_SCORING_CONFIG: PillarScoringConfig = {
+  windowDays: 90,
+  halfLifeDays: 14,
+  pointsPerMinute: 0.5,
+  maxSessionPoints: 10,
+  saturation: 60,
+  typeWeights: {
+    body: { exercise: 1.2, practice: 1.0, meditation: 0.8, checkin: 0.4 },
+    mind: { meditation: 1.2, practice: 1.0, exercise: 0.8, checkin: 0.5 },
+    heart: { practice: 1.2, meditation: 1.0, exercise: 0.7, checkin: 0.6 },
+    spirit: { meditation: 1.2, practice: 1.1, exercise: 0.7, checkin: 0.5 },
+    diet: { checkin: 1.0, practice: 1.0, meditation: 0.6, exercise: 0.8 }
+  },
+  moodWeights: {
+    body: { excellent: 1.1, good: 1.0, okay: 0.95, low: 0.9 },
+    mind: { excellent: 1.1, good: 1.0, okay: 0.9, low: 0.85 },
+    heart: { excellent: 1.15, good: 1.0, okay: 0.9, low: 0.8 },
+    spirit: { excellent: 1.1, good: 1.0, okay: 0.95, low: 0.9 },
+    diet: { excellent: 1.05, good: 1.0, okay: 0.95, low: 0.9 }
+  }
+};
+
+const EMPTY_SCORES: PillarProgress = { body: 0, mind: 0, heart: 0, spirit: 0, diet: 0 };
+
+/**
+ * Points a single session is worth on the day it was completed
+ */
+export const sessionPoints = (
+  session: SessionData,
+  config: PillarScoringConfig = DEFAULT_SCORING_CONFIG
+): number => {
+  if (!isPillar(session.pillar)) return 0;
+
+  const base = Math.min(Math.max(session.duration, 0) * config.pointsPerMinute, config.maxSessionPoints);
+  const quality = Math.min(Math.max(session.score, 0), 100) / 100;
+  const typeWeight = config.typeWeights[session.pillar][session.type] ?? 1;
+  const moodWeight = config.moodWeights[session.pillar][session.mood] ?? 1;
+
+  return base * quality * typeWeight * moodWeight;
+};
+
+const scoreFromPoints = (decayedPoints: number, config: PillarScoringConfig): number =>
+  Math.round(100 * (1 - Math.exp(-decayedPoints / config.saturation)));
+
+/**
+ * Score for one pillar as of `asOf`, from the rolling window of sessions before it.
+ * Each session decays exponentially with age, so inactive pillars drift back down.
+ * @returns integer 0-100
+ */
+export const calculatePillarScore = (
+  sessions: SessionData[],
+  pillar: PillarKey,
+  asOf: Date = new Date(),
+  config: PillarScoringConfig = DEFAULT_SCORING_CONFIG
+): number => {
+  const now = asOf.getTime();
+  const windowStart = now - config.windowDays * DAY_MS;
+
+  // Sum oldest first so floating point results don't depend on log order
+  const decayedPoints = sessions
+    .filter(session => session.pillar === pillar)
+    .map(session => ({ session, time: new Date(session.date).getTime() }))
+    .filter(({ time }) => !isNaN(time) && time <= now && time > windowStart)
+    .sort((a, b) => a.time - b.time || a.session.id.localeCompare(b.session.id))
+    .reduce((sum, { session, time }) => {
+      const ageDays = (now - time) / DAY_MS;
+      return sum + sessionPoints(session, config) * Math.pow(0.5, ageDays / config.halfLifeDays);
+    }, 0);
+
+  return scoreFromPoints(decayedPoints, config);
+};
+
+/**
+ * Scores for every pillar, rebuilt from the session log
+ */
+export const calculatePillarScores = (
+  sessions: SessionData[],
+  asOf: Date = new Date(),
+  config: PillarScoringConfig = DEFAULT_SCORING_CONFIG
+): PillarProgress =>
+  PILLARS.reduce((scores, pillar) => {
+    scores[pillar] = calculatePillarScore(sessions, pillar, asOf, config);
+    return scores;
+  }, { ...EMPTY_SCORES });
+
+export interface PillarScoreTracker {
+  add(session: SessionData): void;
+  scores(): PillarProgress; // as of the last session added
+}
+
+/**
+ * Pillar scores kept current while a session log is replayed oldest first.
+ * Each session is decayed forward and leaves the window once, so a replay is
+ * linear where rescoring the log after every session would be quadratic.
+ */
+export const createPillarScoreTracker = (
+  config: PillarScoringConfig = DEFAULT_SCORING_CONFIG
+): PillarScoreTracker => {
+  const decayed: Record<PillarKey, number> = { ...EMPTY_SCORES }; // points as of `latest`
+  const added: { pillar: PillarKey; points: number; time: number }[] = [];
+  let expired = 0; // entries of `added` that have left the window
+  let latest: number | null = null;
+
+  const decay = (ms: number) => Math.pow(0.5, ms / DAY_MS / config.halfLifeDays);
+
+  return {
+    add(session) {
+      const time = new Date(session.date).getTime();
+      if (isNaN(time) || !isPillar(session.pillar)) return;
+
+      if (latest !== null) {
+        const factor = decay(time - latest);
+        PILLARS.forEach(pillar => { decayed[pillar] *= factor; });
+      }
+      latest = time;
+
+      const windowStart = time - config.windowDays * DAY_MS;
+      while (expired < added.length && added[expired].time <= windowStart) {
+        const entry = added[expired++];
+        decayed[entry.pillar] = Math.max(0, decayed[entry.pillar] - entry.points * decay(time - entry.time));
+      }
+
+      const points = sessionPoints(session, config);
+      added.push({ pillar: session.pillar, points, time });
+      decayed[session.pillar] += points;
+    },
+    scores() {
+      return PILLARS.reduce((scores, pillar) => {
+        scores[pillar] = scoreFromPoints(decayed[pillar], config);
+        return scores;
+      }, { ...EMPTY_SCORES });
+    }
+  };
+};
+
+export const calculateOverallScore = (scores: PillarProgress): number =>
+  Math.round(PILLARS.reduce((sum, pillar) => sum + (scores[pillar] || 0), 0) / PILLARS.length);
+
+export const pillarScoresEqual = (a: PillarProgress, b: PillarProgress): boolean =>
+  PILLARS.every(pillar => a[pillar] === b[pillar]);
+
+/**
+ * End-of-day pillar score for each of the `days` days ending at `end`, oldest first
+ */
+export const getPillarScoreHistory = (
+  sessions: SessionData[],
+  pillar: PillarKey,
+  days: number,
+  end: Date = new Date(),
+  config: PillarScoringConfig = DEFAULT_SCORING_CONFIG
+): number[] => {
+  return lastNDays(days, end).map(day => {
+    const dayEnd = new Date(dayKeyRange(day).to.getTime() - 1);
+    return calculatePillarScore(sessions, pillar, dayEnd > end ? end : dayEnd, config);
+  });
+};
+
+/**
+ * Score now versus the score at `since`
+ */
+export const getPillarScoreChange = (
+  sessions: SessionData[],
+  pillar: PillarKey,
+  since: Date,
+  asOf: Date = new Date(),
+  config: PillarScoringConfig = DEFAULT_SCORING_CONFIG
+): { current: number; previous: number; change: number } => {
+  const current = calculatePillarScore(sessions, pillar, asOf, config);
+  const previous = calculatePillarScore(sessions, pillar, since, config);
+  return { current, previous, change: current - previous };
+};
@@ -0,0 +1,94 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { fromHex, toHex, utf8Encode } from './crypto';
+import {
+  PromoCodePayload,
+  PromoGrant,
+  activePromoGrant,
+  base32Decode,
+  base32Encode,
+  promoAccessEndsAt,
+  promoCodeBody,
+  verifyPromoCode
+} from './promoCodes';
+
+// Test-only key pair; the app never sees a signing key
+const SIGNING_KEY = fromHex('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60');
+const PUBLIC_KEY = toHex(ed25519.getPublicKey(SIGNING_KEY));
+const OTHER_PUBLIC_KEY = toHex(ed25519.getPublicKey(fromHex('4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb')));
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const payload = (overrides: Partial<PromoCodePayload> = {}): PromoCodePayload => ({
+  campaign: 'PARTNER', days: 30, redeemBy: '2027-01-31', serial: 'K7Q2MX4A', ...overrides
+});
+
+const sign = (body: string, key: Uint8Array = SIGNING_KEY) =>
+  `${body}-${base32Encode(ed25519.sign(utf8Encode(body), key))}`;
+
+const promoCode = (overrides: Partial<PromoCodePayload> = {}) => sign(promoCodeBody(payload(overrides)));
+
+const grant = (startsAt: string, endsAt: string): PromoGrant => ({
+  code: 'CODE', campaign: 'PARTNER', days: 30, redeemedAt: startsAt, startsAt, endsAt
+});
+
+describe('base32', () => {
+  it('round-trips bytes', () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Encode(utf8Encode('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character "1"');
+  });
+});
+
+describe('verifyPromoCode', () => {
+  it('accepts a signed code, however it was typed', () => {
+    const code = promoCode();
+    const typed = ` ${code.toLowerCase().slice(0, 20)} ${code.toLowerCase().slice(20)} `;
+    expect(verifyPromoCode(typed, PUBLIC_KEY, NOW)).toEqual({ valid: true, code, payload: payload(), reason: null });
+  });
+
+  it('rejects anything that is not shaped like a code', () => {
+    expect(verifyPromoCode('FREE-PREMIUM', PUBLIC_KEY, NOW).reason).toBe('That doesn\'t look like a promo code. Check it and try again.');
+  });
+
+  it('rejects a code whose terms were changed after signing', () => {
+    const stretched = promoCode().replace('-30D-', '-90D-');
+    expect(verifyPromoCode(stretched, PUBLIC_KEY, NOW)).toMatchObject({ valid: false, reason: 'This promo code isn\'t valid.' });
+  });
+
+  it('rejects a code signed with any other key', () => {
+    expect(verifyPromoCode(promoCode(), OTHER_PUBLIC_KEY, NOW).valid).toBe(false);
+    expect(verifyPromoCode(promoCode(), '', NOW).valid).toBe(false);
+  });
+
+  it('rejects a signed code granting no days or more than a year', () => {
+    expect(verifyPromoCode(promoCode({ days: 0 }), PUBLIC_KEY, NOW).valid).toBe(false);
+    expect(verifyPromoCode(promoCode({ days: 400 }), PUBLIC_KEY, NOW).valid).toBe(false);
+  });
+
+  it('accepts a code through the whole of its redeem-by day and not after', () => {
+    const code = promoCode({ redeemBy: '2026-10-19' });
+    expect(verifyPromoCode(code, PUBLIC_KEY, new Date('2026-10-20T09:00:00.000Z')).valid).toBe(true);
+    expect(verifyPromoCode(code, PUBLIC_KEY, new Date('2026-10-20T14:00:00.000Z')).reason).toBe('This promo code has expired.');
+  });
+});
+
+describe('promo grants', () => {
+  const grants = [
+    grant('2026-10-01T00:00:00.000Z', '2026-10-31T00:00:00.000Z'),
+    grant('2026-10-31T00:00:00.000Z', '2026-11-30T00:00:00.000Z')
+  ];
+
+  it('finds the grant covering now', () => {
+    expect(activePromoGrant(grants, NOW)).toBe(grants[0]);
+    expect(activePromoGrant(grants, new Date('2026-12-01T00:00:00.000Z'))).toBeNull();
+  });
+
+  it('runs access on through back-to-back grants', () => {
+    expect(promoAccessEndsAt(grants, NOW)).toBe('2026-11-30T00:00:00.000Z');
+    expect(promoAccessEndsAt([], NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+// src/utils/promoCodes.ts - SIGNED PROMO CODES THE APP CAN CHECK BUT NOT CREATE
+import { ed25519 } from '@noble/curves/ed25519';
+import { fromHex, utf8Encode } from './crypto';
+
+/**
+ * A code reads `<CAMPAIGN>-<DAYS>D-<REDEEM BY YYYYMMDD>-<SERIAL>-<SIGNATURE>`, e.g.
+ * `PARTNER-30D-20270131-K7Q2MX4A-<103 base32 characters>`. The signature is an
+ * Ed25519 signature over the rest. The app only holds the public key, so it can
+ * tell a genuine code from an altered or made-up one but can't mint codes itself.
+ * Generate codes with `npm run promo-code`; every code has its own serial so the
+ * server can allow each one to be claimed only once.
+ */
+export interface PromoCodePayload {
+  campaign: string;
+  days: number; // premium days the code grants
+  redeemBy: string; // YYYY-MM-DD, the last day the code is accepted
+  serial: string;
+}
+
+// A redeemed code's premium window, stacked after whatever access was already paid for
+export interface PromoGrant {
+  code: string;
+  campaign: string;
+  days: number;
+  redeemedAt: string;
+  startsAt: string;
+  endsAt: string;
+  claimedAt?: string; // when the server recorded the claim; unset while it's still queued
+}
+
+export interface PromoCodeCheck {
+  valid: boolean;
+  code: string; // normalised, as it should be stored
+  payload: PromoCodePayload | null;
+  reason: string | null; // why the code was rejected
+}
+
+export const PROMO_MAX_DAYS = 366;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const CODE_PATTERN = /^([A-Z0-9]{2,16})-(\d{1,3})D-(\d{4})(\d{2})(\d{2})-([A-Z2-7]{8})-([A-Z2-7]{103})$/;
+
+// RFC 4648 base32 without padding: upper case only, so it survives being read out and retyped
+export const base32Encode = (bytes: Uint8Array): string => {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  bytes.forEach(byte => {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+export const base32Decode = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) throw new Error(`Invalid base32 character "${char}"`);
+    buffer = ((buffer << 5) | value) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// Codes get read out and typed in; ignore case and stray spaces
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase().replace(/\s+/g, '');
+
+// The part of a code the signature covers
+export const promoCodeBody = (payload: PromoCodePayload): string =>
+  `${payload.campaign.toUpperCase()}-${payload.days}D-${payload.redeemBy.replace(/-/g, '')}-${payload.serial}`;
+
+const signatureValid = (body: string, signature: string, publicKeyHex: string): boolean => {
+  try {
+    return ed25519.verify(base32Decode(signature), utf8Encode(body), fromHex(publicKeyHex));
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Check a code's signature and redeem-by date. Whether it has already been
+ * claimed is for the server to say.
+ */
+export const verifyPromoCode = (input: string, publicKeyHex: string, now: Date = new Date()): PromoCodeCheck => {
+  const code = normalizePromoCode(input);
+  const reject = (reason: string): PromoCodeCheck => ({ valid: false, code, payload: null, reason });
+  const match = code.match(CODE_PATTERN);
+  if (!match) {
+    return reject('That doesn\'t look like a promo code. Check it and try again.');
+  }
+
+  const [, campaign, days, year, month, day, serial, signature] = match;
+  const body = code.slice(0, code.length - signature.length - 1);
+  if (!publicKeyHex || !signatureValid(body, signature, publicKeyHex)) {
+    return reject('This promo code isn\'t valid.');
+  }
+
+  const payload: PromoCodePayload = { campaign, days: parseInt(days, 10), redeemBy: `${year}-${month}-${day}`, serial };
+  if (payload.days < 1 || payload.days > PROMO_MAX_DAYS) {
+    return reject('This promo code isn\'t valid.');
+  }
+
+  // Accepted through the whole of the redeem-by day, wherever the user is
+  const lastDay = new Date(`${payload.redeemBy}T23:59:59.999Z`).getTime() + 14 * 60 * 60 * 1000;
+  if (now.getTime() > lastDay) {
+    return reject('This promo code has expired.');
+  }
+
+  return { valid: true, code, payload, reason: null };
+};
+
+// The grant covering `now`, if any
+export const activePromoGrant = (grants: PromoGrant[], now: Date = new Date()): PromoGrant | null => {
+  const time = now.getTime();
+  return grants.find(grant => new Date(grant.startsAt).getTime() <= time && time < new Date(grant.endsAt).getTime()) || null;
+};
+
+// When back-to-back grants starting with the one covering `now` run out
+export const promoAccessEndsAt = (grants: PromoGrant[], now: Date = new Date()): string | null => {
+  let current = activePromoGrant(grants, now);
+  if (!current) return null;
+
+  let endsAt = current.endsAt;
+  while ((current = grants.find(grant => grant.startsAt === endsAt) || null)) {
+    endsAt = current.endsAt;
+  }
+  return endsAt;
+};
@@ -0,0 +1,161 @@
+// src/utils/recommendationFeatures.ts - WHAT THE RECOMMENDATION RULES KNOW ABOUT THE USER
+import type { CheckIn, PillarProgress, RecommendationFeedback, SessionData, UserProfile } from '../context/AppDataContext';
+import { shiftDayKey } from '../services/StreakEngine';
+import { getPillarScoreHistory } from './pillarScoring';
+import { averageCheckIns, CheckInAverages } from './checkInAnalytics';
+import { FeedbackSummary, summarizeFeedback } from './recommendationFeedback';
+import { DAY_MS, PILLARS, PillarKey, isPillar, toDayKey } from './sessionAnalytics';
+
+export type PillarTrend = 'improving' | 'stable' | 'declining';
+
+export interface PillarFeatures {
+  pillar: PillarKey;
+  score: number;
+  history: number[]; // daily scores for the last HISTORY_DAYS days since first practised, oldest first
+  trend: PillarTrend;
+  slope: number; // score points per day over the history
+  consistency: number; // 0-1, how little the score moves from one day to the next
+  velocity: number; // average day-to-day change over the last 5 days, -10..10
+  sessionsToday: number;
+  sessionsLast7Days: number;
+  daysSinceLastSession: number | null; // null when never practised
+}
+
+export interface RecommendationFeatures {
+  generatedAt: string;
+  hour: number;
+  pillars: Record<PillarKey, PillarFeatures>;
+  overallScore: number;
+  totalSessions: number;
+  currentStreak: number;
+  activeDaysLast14: number;
+  dataCoverage: number; // 0-1, how much recent history the rules have to go on
+  preferredPillars: PillarKey[]; // most practised over the last 30 days, then onboarding picks
+  preferredHour: number | null; // hour sessions most often start at
+  checkIns: CheckInAverages | null; // last 7 days
+  feedback: FeedbackSummary; // how the user has reacted to earlier recommendations
+}
+
+export interface RecommendationInput {
+  sessions: SessionData[];
+  checkIns: CheckIn[];
+  pillarScores: PillarProgress;
+  userProfile: UserProfile | null;
+  feedback?: RecommendationFeedback[];
+  now?: Date;
+  today?: string; // check-in day key for `now`, defaults to the device-local day
+}
+
+const HISTORY_DAYS = 14;
+
+// A week of activity in the last two weeks counts as enough to go on
+const FULL_COVERAGE_DAYS = 7;
+
+const slopeOf = (values: number[]): number => {
+  const n = values.length;
+  if (n < 3) return 0;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - meanX) * (value - meanY);
+    denominator += (index - meanX) * (index - meanX);
+  });
+  return denominator === 0 ? 0 : numerator / denominator;
+};
+
+// A steady climb is consistent; a score that jumps around is not
+const consistencyOf = (values: number[]): number => {
+  if (values.length < 3) return 1;
+  const changes = values.slice(1).map((value, index) => Math.abs(value - values[index]));
+  return Math.max(0, 1 - changes.reduce((sum, change) => sum + change, 0) / changes.length / 20);
+};
+
+const velocityOf = (values: number[]): number => {
+  const recent = values.slice(-5);
+  if (recent.length < 2) return 0;
+  const change = (recent[recent.length - 1] - recent[0]) / (recent.length - 1);
+  return Math.max(-10, Math.min(10, change));
+};
+
+const extractPillar = (pillar: PillarKey, input: RecommendationInput, now: Date): PillarFeatures => {
+  const scores = input.sessions.length > 0 ? getPillarScoreHistory(input.sessions, pillar, HISTORY_DAYS, now) : [];
+  // Days before the first session would read as a sudden jump
+  const firstActive = scores.findIndex(score => score > 0);
+  const history = firstActive === -1 ? [] : scores.slice(firstActive);
+  const slope = slopeOf(history);
+  const today = toDayKey(now);
+  const weekAgo = now.getTime() - 7 * DAY_MS;
+
+  const practised = input.sessions.filter(session => session.pillar === pillar);
+  const last = practised.reduce<number | null>((latest, session) => {
+    const time = new Date(session.date).getTime();
+    return latest === null || time > latest ? time : latest;
+  }, null);
+
+  return {
+    pillar,
+    score: input.pillarScores[pillar] || 0,
+    history,
+    trend: slope > 0.5 ? 'improving' : slope < -0.5 ? 'declining' : 'stable',
+    slope,
+    consistency: consistencyOf(history),
+    velocity: velocityOf(history),
+    sessionsToday: practised.filter(session => toDayKey(session.date) === today).length,
+    sessionsLast7Days: practised.filter(session => new Date(session.date).getTime() > weekAgo).length,
+    daysSinceLastSession: last === null ? null : Math.max(0, Math.floor((now.getTime() - last) / DAY_MS))
+  };
+};
+
+/**
+ * Everything the recommendation rules look at, derived from the live session and check-in logs
+ */
+export const extractRecommendationFeatures = (input: RecommendationInput): RecommendationFeatures => {
+  const now = input.now || new Date();
+  const pillars = {} as Record<PillarKey, PillarFeatures>;
+  PILLARS.forEach(pillar => {
+    pillars[pillar] = extractPillar(pillar, input, now);
+  });
+
+  const twoWeeksAgo = now.getTime() - HISTORY_DAYS * DAY_MS;
+  const monthAgo = now.getTime() - 30 * DAY_MS;
+  const recent = input.sessions.filter(session => new Date(session.date).getTime() > twoWeeksAgo);
+  const activeDaysLast14 = new Set(recent.map(session => toDayKey(session.date))).size;
+
+  const practiceCounts = new Map<PillarKey, number>();
+  input.sessions
+    .filter(session => isPillar(session.pillar) && new Date(session.date).getTime() > monthAgo)
+    .forEach(session => practiceCounts.set(session.pillar as PillarKey, (practiceCounts.get(session.pillar as PillarKey) || 0) + 1));
+  const preferredPillars = [
+    ...[...practiceCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 2).map(([pillar]) => pillar),
+    ...(input.userProfile?.preferences.preferredPillars || []).filter(isPillar)
+  ].filter((pillar, index, all) => all.indexOf(pillar) === index);
+
+  const hours = new Map<number, number>();
+  input.sessions
+    .filter(session => session.type !== 'checkin')
+    .forEach(session => {
+      const hour = new Date(session.date).getHours();
+      hours.set(hour, (hours.get(hour) || 0) + 1);
+    });
+  const preferredHour = [...hours.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0]?.[0] ?? null;
+
+  const today = input.today || toDayKey(now);
+  const weekStart = shiftDayKey(today, -6);
+
+  return {
+    generatedAt: now.toISOString(),
+    hour: now.getHours(),
+    pillars,
+    overallScore: Math.round(PILLARS.reduce((sum, pillar) => sum + pillars[pillar].score, 0) / PILLARS.length),
+    totalSessions: input.sessions.length,
+    currentStreak: input.userProfile?.streak || 0,
+    activeDaysLast14,
+    dataCoverage: Math.min(1, activeDaysLast14 / FULL_COVERAGE_DAYS),
+    preferredPillars,
+    preferredHour,
+    checkIns: averageCheckIns(input.checkIns.filter(checkIn => checkIn.day >= weekStart && checkIn.day <= today)),
+    feedback: summarizeFeedback(input.feedback || [], input.sessions, now)
+  };
+};
@@ -0,0 +1,184 @@
+// src/utils/recommendationFeedback.ts - WHAT BECAME OF EACH RECOMMENDATION, AND WHAT IT TEACHES THE ENGINE
+import type {
+  DismissReason,
+  PillarProgress,
+  RecommendationFeedback,
+  RecommendationFeedbackTarget,
+  SessionData
+} from '../context/AppDataContext';
+import type { AIRecommendation, RecommendationCategory } from '../services/RecommendationEngine';
+import { DAY_MS, PILLARS, isPillar } from './sessionAnalytics';
+
+export interface FeedbackSummary {
+  categoryWeights: Partial<Record<RecommendationCategory, number>>; // 0.5-1.5, missing until the user reacts to the category
+  hiddenIds: string[]; // recommendation ids not to show again for now
+  activeIds: string[]; // accepted and still in progress
+}
+
+export interface FeedbackOutcome {
+  feedback: RecommendationFeedback;
+  sessions: number; // practised while it was in progress
+  scoreChange: number | null; // pillar score from accepting to completing
+  worked: boolean;
+}
+
+export const DISMISS_REASONS: Record<DismissReason, string> = {
+  'not-relevant': "Doesn't apply to me",
+  'too-hard': 'Too much right now',
+  'no-time': 'No time for it',
+  'already-doing': 'Already doing this',
+  'did-not-help': "Tried it, didn't help"
+};
+
+export const DEFAULT_SNOOZE_DAYS = 3;
+
+// Finished advice stays out of the list for a while so it doesn't come straight back
+const COMPLETED_COOLDOWN_DAYS = 14;
+
+// An accepted recommendation with no practice after this long counts against its category
+const STALLED_AFTER_DAYS = 7;
+
+// How much each reaction counts for or against a category
+const DISMISS_PENALTY: Record<DismissReason, number> = {
+  'not-relevant': 1,
+  'did-not-help': 1,
+  'too-hard': 0.5,
+  'no-time': 0.5,
+  'already-doing': 0
+};
+
+export const toFeedbackTarget = (recommendation: AIRecommendation): RecommendationFeedbackTarget => ({
+  recommendationId: recommendation.id,
+  ruleId: recommendation.explanation.ruleId,
+  title: recommendation.title,
+  pillar: recommendation.pillar,
+  category: recommendation.category
+});
+
+export const isOpenFeedback = (feedback: RecommendationFeedback): boolean =>
+  feedback.status === 'accepted' || feedback.status === 'snoozed';
+
+/**
+ * The score a recommendation is measured against: its pillar's, or the average for overall advice
+ */
+export const feedbackScore = (pillar: string, pillarScores: PillarProgress): number =>
+  isPillar(pillar)
+    ? pillarScores[pillar] || 0
+    : Math.round(PILLARS.reduce((sum, key) => sum + (pillarScores[key] || 0), 0) / PILLARS.length);
+
+/**
+ * Insert or replace feedback by id, oldest first
+ */
+export const mergeFeedback = (feedback: RecommendationFeedback[], updates: RecommendationFeedback[]): RecommendationFeedback[] => {
+  const byId = new Map(feedback.map(entry => [entry.id, entry]));
+  updates.forEach(entry => byId.set(entry.id, entry));
+  return [...byId.values()].sort((a, b) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || (a.id < b.id ? -1 : 1)
+  );
+};
+
+/**
+ * The most recent reaction to a recommendation, or null if the user never acted on it
+ */
+export const latestFeedback = (feedback: RecommendationFeedback[], recommendationId: string): RecommendationFeedback | null =>
+  feedback
+    .filter(entry => entry.recommendationId === recommendationId)
+    .reduce<RecommendationFeedback | null>((latest, entry) =>
+      !latest || entry.updatedAt > latest.updatedAt ? entry : latest, null);
+
+/**
+ * Sessions for the recommendation's pillar (any pillar for overall advice) logged after it was accepted
+ * and, once completed, before it was marked done
+ */
+export const linkedSessions = (feedback: RecommendationFeedback, sessions: SessionData[]): SessionData[] => {
+  if (!feedback.acceptedAt) return [];
+  const from = new Date(feedback.acceptedAt).getTime();
+  const to = feedback.completedAt ? new Date(feedback.completedAt).getTime() : Infinity;
+
+  return sessions.filter(session => {
+    const time = new Date(session.date).getTime();
+    return session.type !== 'checkin' &&
+      (!isPillar(feedback.pillar) || session.pillar === feedback.pillar) &&
+      time >= from &&
+      time <= to;
+  });
+};
+
+const outcomeOf = (feedback: RecommendationFeedback, sessions: SessionData[]): FeedbackOutcome => {
+  const scoreChange = feedback.outcomeScore !== undefined ? feedback.outcomeScore - feedback.baselineScore : null;
+  const practised = feedback.completedAt ? feedback.sessionIds.length : linkedSessions(feedback, sessions).length;
+  return {
+    feedback,
+    sessions: practised,
+    scoreChange,
+    worked: feedback.status === 'completed' && scoreChange !== null && scoreChange > 0
+  };
+};
+
+/**
+ * Completed and dismissed recommendations with what came of them, newest first
+ */
+export const getFeedbackHistory = (feedback: RecommendationFeedback[], sessions: SessionData[]): FeedbackOutcome[] =>
+  feedback
+    .filter(entry => entry.status === 'completed' || entry.status === 'dismissed')
+    .sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : -1))
+    .map(entry => outcomeOf(entry, sessions));
+
+/**
+ * Learn per-category weights from how the user reacted, and work out what not to show again.
+ * Weights are a smoothed success rate, so a single reaction only nudges a category.
+ */
+export const summarizeFeedback = (
+  feedback: RecommendationFeedback[],
+  sessions: SessionData[],
+  now: Date = new Date()
+): FeedbackSummary => {
+  const successes = new Map<RecommendationCategory, number>();
+  const failures = new Map<RecommendationCategory, number>();
+  const add = (counts: Map<RecommendationCategory, number>, category: RecommendationCategory, amount: number) =>
+    counts.set(category, (counts.get(category) || 0) + amount);
+
+  const latestById = new Map<string, RecommendationFeedback>();
+  feedback.forEach(entry => {
+    const latest = latestById.get(entry.recommendationId);
+    if (!latest || entry.updatedAt > latest.updatedAt) latestById.set(entry.recommendationId, entry);
+
+    const outcome = outcomeOf(entry, sessions);
+    switch (entry.status) {
+      case 'completed':
+        if (outcome.worked) add(successes, entry.category, 1);
+        else add(failures, entry.category, 0.5);
+        break;
+      case 'dismissed':
+        add(failures, entry.category, DISMISS_PENALTY[entry.reason || 'not-relevant']);
+        break;
+      case 'accepted':
+        if (outcome.sessions > 0) add(successes, entry.category, 0.5);
+        else if (entry.acceptedAt && now.getTime() - new Date(entry.acceptedAt).getTime() > STALLED_AFTER_DAYS * DAY_MS) {
+          add(failures, entry.category, 0.5);
+        }
+        break;
+    }
+  });
+
+  const categoryWeights: FeedbackSummary['categoryWeights'] = {};
+  new Set([...successes.keys(), ...failures.keys()]).forEach(category => {
+    const success = successes.get(category) || 0;
+    const failure = failures.get(category) || 0;
+    categoryWeights[category] = Math.round((0.5 + (success + 1) / (success + failure + 2)) * 100) / 100;
+  });
+
+  const hiddenIds: string[] = [];
+  const activeIds: string[] = [];
+  latestById.forEach((entry, recommendationId) => {
+    if (entry.status === 'dismissed') hiddenIds.push(recommendationId);
+    if (entry.status === 'snoozed' && entry.snoozedUntil && new Date(entry.snoozedUntil) > now) hiddenIds.push(recommendationId);
+    if (entry.status === 'completed' && entry.completedAt &&
+      now.getTime() - new Date(entry.completedAt).getTime() < COMPLETED_COOLDOWN_DAYS * DAY_MS) {
+      hiddenIds.push(recommendationId);
+    }
+    if (entry.status === 'accepted') activeIds.push(recommendationId);
+  });
+
+  return { categoryWeights, hiddenIds, activeIds };
+};
@@ -0,0 +1,123 @@
+import type { SessionData } from '../context/AppDataContext';
+import { DEFAULT_NOTIFICATION_SETTINGS, NotificationSettings } from './notificationSettings';
+import {
+  EMPTY_ENGAGEMENT,
+  PendingReminder,
+  avoidQuietHours,
+  backoffDays,
+  learnPracticeWindows,
+  planReminders,
+  settleReminders
+} from './reminderTiming';
+
+// Dates are built in local time, which is what reminders are scheduled in
+const NOW = new Date(2026, 9, 19, 6, 0); // a Monday
+const at = (daysAgo: number, hour: number, minute: number = 0) => new Date(2026, 9, 19 - daysAgo, hour, minute);
+
+const session = (id: string, completed: Date, overrides: Partial<SessionData> = {}): SessionData => ({
+  id, pillar: 'body', type: 'exercise', duration: 20, date: completed.toISOString(), score: 80, mood: 'good', ...overrides
+});
+
+// Body practice starting 07:30 every morning for the last four weeks
+const mornings = Array.from({ length: 28 }, (_, index) => session(`s${index}`, at(index + 1, 7, 50)));
+
+const QUIET: NotificationSettings['quietHours'] = { enabled: true, startTime: '22:00', endTime: '07:00' };
+const GOALS = { sessionTarget: 3, minutesTarget: 30 };
+
+const plan = (overrides: Partial<Parameters<typeof planReminders>[0]> = {}) => planReminders({
+  windows: learnPracticeWindows(mornings, NOW),
+  settings: DEFAULT_NOTIFICATION_SETTINGS,
+  engagement: {},
+  sessions: mornings,
+  goals: GOALS,
+  fallbackMinute: 9 * 60,
+  now: NOW,
+  ...overrides
+});
+
+describe('learnPracticeWindows', () => {
+  it('learns when a pillar is usually started, per weekday and overall', () => {
+    const windows = learnPracticeWindows(mornings, NOW);
+    expect(windows.body.overall).toEqual({ start: 450, typical: 450, samples: 28 });
+    expect(windows.body.weekdays[1]).toEqual({ start: 450, typical: 450, samples: 4 });
+    expect(windows.mind.overall).toBeNull();
+  });
+
+  it('needs a few samples and leaves check-ins out', () => {
+    const checkIns = mornings.map(entry => ({ ...entry, type: 'checkin' as const }));
+    expect(learnPracticeWindows([...mornings.slice(0, 2), ...checkIns], NOW).body.overall).toBeNull();
+  });
+});
+
+describe('avoidQuietHours', () => {
+  it('moves a late reminder to before quiet hours and an early one to after', () => {
+    expect(avoidQuietHours(23 * 60, QUIET)).toBe(21 * 60 + 45);
+    expect(avoidQuietHours(3 * 60, QUIET)).toBe(7 * 60);
+    expect(avoidQuietHours(12 * 60, QUIET)).toBe(12 * 60);
+  });
+
+  it('leaves times alone when quiet hours are off', () => {
+    expect(avoidQuietHours(3 * 60, { ...QUIET, enabled: false })).toBe(3 * 60);
+  });
+});
+
+describe('backoffDays', () => {
+  it('waits a day at first, then doubles up to a week', () => {
+    expect([0, 1, 2, 3, 4, 10].map(backoffDays)).toEqual([1, 1, 2, 4, 7, 7]);
+  });
+});
+
+describe('settleReminders', () => {
+  const reminder = (hoursAgo: number, target: PendingReminder['target'] = 'body'): PendingReminder => ({
+    identifier: `reminder:${target}:${hoursAgo}`, target, fireAt: new Date(NOW.getTime() - hoursAgo * 3600000).toISOString()
+  });
+
+  it('counts a reminder as acted on when its pillar was practised soon after', () => {
+    const practised = [session('p', new Date(NOW.getTime() - 4 * 3600000))];
+    const settled = settleReminders([reminder(5)], { body: { ...EMPTY_ENGAGEMENT, ignored: 3 } }, practised, NOW);
+    expect(settled.engagement.body!.ignored).toBe(0);
+  });
+
+  it('counts it as ignored once the window to act has passed', () => {
+    const otherPillar = [session('p', new Date(NOW.getTime() - 4 * 3600000), { pillar: 'mind' })];
+    const settled = settleReminders([reminder(5)], {}, otherPillar, NOW);
+    expect(settled.engagement.body).toEqual({ ...EMPTY_ENGAGEMENT, ignored: 1, lastFiredAt: reminder(5).fireAt });
+    expect(settled.pending).toEqual([]);
+  });
+
+  it('keeps waiting on a recent reminder and drops ones that have not fired', () => {
+    const settled = settleReminders([reminder(1), reminder(-2)], {}, [], NOW);
+    expect(settled.pending).toEqual([reminder(1)]);
+    expect(settled.engagement.body!.ignored).toBe(0);
+  });
+});
+
+describe('planReminders', () => {
+  it('plans each day a lead time before the learned window', () => {
+    const planned = plan();
+    expect(planned.map(entry => new Date(entry.fireAt).getTime())).toEqual([
+      at(0, 7, 15).getTime(), at(-1, 7, 15).getTime(), at(-2, 7, 15).getTime()
+    ]);
+    expect(planned[0]).toMatchObject({ target: 'body', basis: 'weekday', windowStart: 450 });
+  });
+
+  it('skips today once the pillar has been practised', () => {
+    const practised = [...mornings, session('today', at(0, 5, 50))];
+    expect(plan({ sessions: practised }).map(entry => new Date(entry.fireAt).getDate())).toEqual([20, 21]);
+  });
+
+  it('spaces reminders out after several were ignored', () => {
+    const engagement = { body: { ...EMPTY_ENGAGEMENT, ignored: 3, lastFiredAt: at(1, 7, 15).toISOString() } };
+    expect(plan({ engagement })).toEqual([]);
+  });
+
+  it('falls back to one general reminder before anything is learned', () => {
+    const planned = plan({ windows: learnPracticeWindows([], NOW), sessions: [] });
+    expect(planned[0]).toMatchObject({ target: 'all', basis: 'default', windowStart: null });
+    expect(new Date(planned[0].fireAt).getHours()).toBe(9);
+  });
+
+  it('plans nothing when daily reminders are off', () => {
+    expect(plan({ settings: { ...DEFAULT_NOTIFICATION_SETTINGS, dailyReminders: false } })).toEqual([]);
+  });
+});
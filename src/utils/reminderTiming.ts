@@ -0,0 +1,287 @@
+// src/utils/reminderTiming.ts - LEARNS WHEN EACH PILLAR IS USUALLY PRACTISED AND PLANS REMINDERS AROUND IT
+import type { SessionData } from '../context/AppDataContext';
+import { DAY_MS, PILLARS, PillarKey, isPillar, toDayKey } from './sessionAnalytics';
+import { NotificationSettings, isInQuietHours, timeToMinutes } from './notificationSettings';
+import { notificationId } from './notificationPolicy';
+
+// 'all' is the single general reminder used before any pillar has a learned window
+export type ReminderTarget = PillarKey | 'all';
+
+export interface PracticeWindow {
+  start: number; // minute of the day the window usually opens (lower quartile of start times)
+  typical: number; // weighted median start
+  samples: number;
+}
+
+export interface PillarWindows {
+  weekdays: (PracticeWindow | null)[]; // indexed by Date.getDay()
+  overall: PracticeWindow | null;
+}
+
+// How the user has responded to a target's reminders
+export interface ReminderEngagement {
+  ignored: number; // reminders in a row that weren't acted on
+  lastFiredAt: string | null;
+  lastOpenedAt: string | null;
+}
+
+export interface PendingReminder {
+  identifier: string;
+  target: ReminderTarget;
+  fireAt: string;
+}
+
+export interface PlannedReminder extends PendingReminder {
+  basis: 'weekday' | 'pillar' | 'default'; // what the time was learned from
+  windowStart: number | null;
+}
+
+export interface DailyGoalTargets {
+  sessionTarget: number;
+  minutesTarget: number;
+}
+
+export const REMINDER_LEAD_MINUTES = 15;
+export const LEARNING_WEEKS = 8;
+export const MIN_WEEKDAY_SAMPLES = 3;
+export const MIN_PILLAR_SAMPLES = 3;
+export const ACT_WINDOW_HOURS = 3; // a session this soon after a reminder counts as acting on it
+export const REMINDER_HORIZON_DAYS = 3;
+export const MAX_BACKOFF_DAYS = 7;
+
+// Older sessions count for less, so a changed routine takes over within a few weeks
+const HALF_LIFE_DAYS = 21;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const EMPTY_ENGAGEMENT: ReminderEngagement = { ignored: 0, lastFiredAt: null, lastOpenedAt: null };
+
+interface Sample {
+  minute: number;
+  weight: number;
+}
+
+const weightedQuantile = (samples: Sample[], quantile: number): number => {
+  const sorted = [...samples].sort((a, b) => a.minute - b.minute);
+  const total = sorted.reduce((sum, sample) => sum + sample.weight, 0);
+  let cumulative = 0;
+  for (const sample of sorted) {
+    cumulative += sample.weight;
+    if (cumulative >= quantile * total) return sample.minute;
+  }
+  return sorted[sorted.length - 1].minute;
+};
+
+const windowOf = (samples: Sample[], minimum: number): PracticeWindow | null =>
+  samples.length < minimum
+    ? null
+    : { start: weightedQuantile(samples, 0.25), typical: weightedQuantile(samples, 0.5), samples: samples.length };
+
+const localMidnight = (date: Date, offsetDays: number = 0): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays);
+
+const daysBetween = (later: Date, earlier: Date): number =>
+  Math.round((localMidnight(later).getTime() - localMidnight(earlier).getTime()) / DAY_MS);
+
+/**
+ * Learn each pillar's usual practice window from when its sessions started,
+ * per weekday where there's enough history and across the week otherwise.
+ * Check-ins aren't practice, so they're left out.
+ */
+export const learnPracticeWindows = (sessions: SessionData[], now: Date = new Date()): Record<PillarKey, PillarWindows> => {
+  const cutoff = now.getTime() - LEARNING_WEEKS * 7 * DAY_MS;
+  const byPillar = {} as Record<PillarKey, { all: Sample[]; weekdays: Sample[][] }>;
+  PILLARS.forEach(pillar => {
+    byPillar[pillar] = { all: [], weekdays: [[], [], [], [], [], [], []] };
+  });
+
+  sessions.forEach(session => {
+    if (!isPillar(session.pillar) || session.type === 'checkin') return;
+    const completed = new Date(session.date).getTime();
+    if (isNaN(completed) || completed > now.getTime() || completed < cutoff) return;
+
+    const started = new Date(completed - Math.max(0, session.duration || 0) * 60 * 1000);
+    const sample = {
+      minute: started.getHours() * 60 + started.getMinutes(),
+      weight: Math.pow(0.5, (now.getTime() - completed) / DAY_MS / HALF_LIFE_DAYS)
+    };
+    byPillar[session.pillar].all.push(sample);
+    byPillar[session.pillar].weekdays[started.getDay()].push(sample);
+  });
+
+  const windows = {} as Record<PillarKey, PillarWindows>;
+  PILLARS.forEach(pillar => {
+    windows[pillar] = {
+      weekdays: byPillar[pillar].weekdays.map(samples => windowOf(samples, MIN_WEEKDAY_SAMPLES)),
+      overall: windowOf(byPillar[pillar].all, MIN_PILLAR_SAMPLES)
+    };
+  });
+  return windows;
+};
+
+/**
+ * Move a reminder out of quiet hours: to shortly before they begin if that's still
+ * earlier the same day, otherwise to when they end
+ * @returns null if no time outside quiet hours works
+ */
+export const avoidQuietHours = (minute: number, quietHours: NotificationSettings['quietHours']): number | null => {
+  if (!isInQuietHours(minute, quietHours)) return minute;
+
+  const quietStart = timeToMinutes(quietHours.startTime)!;
+  const earlier = quietStart - REMINDER_LEAD_MINUTES;
+  if (earlier >= 0 && earlier < minute && !isInQuietHours(earlier, quietHours)) return earlier;
+
+  const later = timeToMinutes(quietHours.endTime)!;
+  return later > minute && !isInQuietHours(later, quietHours) ? later : null;
+};
+
+// Days to wait between reminders: daily at first, doubling with each further one ignored
+export const backoffDays = (ignored: number): number =>
+  ignored < 2 ? 1 : Math.min(MAX_BACKOFF_DAYS, Math.pow(2, ignored - 1));
+
+export const isDailyGoalMet = (sessions: SessionData[], goals: DailyGoalTargets, now: Date = new Date()): boolean => {
+  const today = toDayKey(now);
+  const todays = sessions.filter(session => toDayKey(session.date) === today);
+  const minutes = todays.reduce((sum, session) => sum + (session.duration || 0), 0);
+  return todays.length >= goals.sessionTarget && minutes >= goals.minutesTarget;
+};
+
+/**
+ * Settle reminders that have had time to be acted on. One counts as acted on if
+ * it was opened, or a session for its pillar (any pillar, for the general one)
+ * followed within ACT_WINDOW_HOURS; otherwise it counts as ignored.
+ * @returns Updated engagement, and the reminders still waiting on an outcome.
+ * Reminders that haven't fired yet are dropped; they're about to be replanned.
+ */
+export const settleReminders = (
+  pending: PendingReminder[],
+  engagement: Partial<Record<ReminderTarget, ReminderEngagement>>,
+  sessions: SessionData[],
+  now: Date = new Date()
+): { engagement: Partial<Record<ReminderTarget, ReminderEngagement>>; pending: PendingReminder[] } => {
+  const next = { ...engagement };
+  const waiting: PendingReminder[] = [];
+
+  [...pending]
+    .sort((a, b) => a.fireAt.localeCompare(b.fireAt))
+    .forEach(reminder => {
+      const fireAt = new Date(reminder.fireAt).getTime();
+      if (fireAt > now.getTime()) return;
+
+      const current = next[reminder.target] || EMPTY_ENGAGEMENT;
+      const fired = { ...current, lastFiredAt: reminder.fireAt };
+      const actedBy = fireAt + ACT_WINDOW_HOURS * HOUR_MS;
+      const opened = !!current.lastOpenedAt && new Date(current.lastOpenedAt).getTime() >= fireAt;
+      const practised = sessions.some(session => {
+        const completed = new Date(session.date).getTime();
+        return completed >= fireAt && completed <= actedBy &&
+          session.type !== 'checkin' && (reminder.target === 'all' || session.pillar === reminder.target);
+      });
+
+      if (opened || practised) {
+        next[reminder.target] = { ...fired, ignored: 0 };
+      } else if (actedBy <= now.getTime()) {
+        next[reminder.target] = { ...fired, ignored: current.ignored + 1 };
+      } else {
+        next[reminder.target] = fired;
+        waiting.push(reminder);
+      }
+    });
+
+  return { engagement: next, pending: waiting };
+};
+
+export interface ReminderPlanInput {
+  windows: Record<PillarKey, PillarWindows>;
+  settings: NotificationSettings;
+  engagement: Partial<Record<ReminderTarget, ReminderEngagement>>;
+  sessions: SessionData[];
+  goals: DailyGoalTargets;
+  fallbackMinute: number; // for the general reminder, before anything has been learned
+  now?: Date;
+}
+
+/**
+ * Plan reminders for the next REMINDER_HORIZON_DAYS: one per enabled pillar with a
+ * learned window, REMINDER_LEAD_MINUTES before it opens. Today's are skipped once
+ * the pillar has been practised or the daily goal is met, and ignored reminders
+ * space out the following ones. Nothing is ever planned inside quiet hours.
+ */
+export const planReminders = ({
+  windows,
+  settings,
+  engagement,
+  sessions,
+  goals,
+  fallbackMinute,
+  now = new Date()
+}: ReminderPlanInput): PlannedReminder[] => {
+  if (!settings.masterEnabled || !settings.dailyReminders) return [];
+
+  const today = toDayKey(now);
+  const practisedToday = new Set(sessions
+    .filter(session => session.type !== 'checkin' && toDayKey(session.date) === today)
+    .map(session => session.pillar));
+  const goalMet = isDailyGoalMet(sessions, goals, now);
+
+  const learned = PILLARS.filter(pillar => windows[pillar].overall);
+  const targets: ReminderTarget[] = learned.length > 0
+    ? learned.filter(pillar => settings.pillarSpecific[pillar])
+    : ['all'];
+
+  const planned: PlannedReminder[] = [];
+  const lastReminder: Partial<Record<ReminderTarget, Date>> = {};
+
+  for (let offset = 0; offset < REMINDER_HORIZON_DAYS; offset++) {
+    const day = localMidnight(now, offset);
+    const weekday = day.getDay();
+
+    targets.forEach(target => {
+      if (offset === 0 && (goalMet || (target === 'all' ? practisedToday.size > 0 : practisedToday.has(target)))) return;
+
+      const pillarWindows = target === 'all' ? null : windows[target];
+      const window = pillarWindows ? pillarWindows.weekdays[weekday] || pillarWindows.overall : null;
+      const basis = !window ? 'default' : pillarWindows!.weekdays[weekday] ? 'weekday' : 'pillar';
+      const minute = avoidQuietHours(
+        window ? Math.max(0, window.start - REMINDER_LEAD_MINUTES) : fallbackMinute,
+        settings.quietHours
+      );
+      if (minute === null) return;
+
+      const fireAt = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minute / 60), minute % 60);
+      if (fireAt.getTime() <= now.getTime()) return;
+
+      const history = engagement[target] || EMPTY_ENGAGEMENT;
+      const previous = lastReminder[target] || (history.lastFiredAt ? new Date(history.lastFiredAt) : null);
+      if (previous && daysBetween(fireAt, previous) < backoffDays(history.ignored)) return;
+
+      lastReminder[target] = fireAt;
+      planned.push({
+        identifier: notificationId('reminder', target, toDayKey(day)),
+        target,
+        fireAt: fireAt.toISOString(),
+        basis,
+        windowStart: window ? window.start : null
+      });
+    });
+  }
+
+  return planned.sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+};
+
+/**
+ * The earliest learned reminder time on a weekday across enabled pillars
+ * @returns null when nothing has been learned yet
+ */
+export const earliestReminderMinute = (
+  windows: Record<PillarKey, PillarWindows>,
+  settings: NotificationSettings,
+  weekday: number
+): number | null => {
+  const minutes = PILLARS
+    .filter(pillar => settings.pillarSpecific[pillar])
+    .map(pillar => windows[pillar].weekdays[weekday] || windows[pillar].overall)
+    .filter((window): window is PracticeWindow => !!window)
+    .map(window => avoidQuietHours(Math.max(0, window.start - REMINDER_LEAD_MINUTES), settings.quietHours))
+    .filter((minute): minute is number => minute !== null);
+  return minutes.length > 0 ? Math.min(...minutes) : null;
+};
@@ -0,0 +1,51 @@
+import { DaySettings, dayKeyRange, lastNDays, setDaySettings, shiftDayKey, toDayKey } from './sessionAnalytics';
+
+const TOKYO: DaySettings = { homeTimeZone: 'Asia/Tokyo', dayBoundaryHour: 0 };
+const NEW_YORK_4AM: DaySettings = { homeTimeZone: 'America/New_York', dayBoundaryHour: 4 };
+
+describe('toDayKey', () => {
+  it('counts days in the home timezone, wherever the device is', () => {
+    expect(toDayKey('2026-10-19T16:00:00.000Z', TOKYO)).toBe('2026-10-20');
+    expect(toDayKey('2026-10-19T14:59:59.000Z', TOKYO)).toBe('2026-10-19');
+  });
+
+  it('files activity before the boundary hour under the previous day', () => {
+    // 03:30 and 04:30 in New York
+    expect(toDayKey('2026-10-19T07:30:00.000Z', NEW_YORK_4AM)).toBe('2026-10-18');
+    expect(toDayKey('2026-10-19T08:30:00.000Z', NEW_YORK_4AM)).toBe('2026-10-19');
+  });
+
+  it('uses the settings handed over by StreakEngine when none are passed', () => {
+    setDaySettings(TOKYO);
+    expect(toDayKey('2026-10-19T16:00:00.000Z')).toBe('2026-10-20');
+    setDaySettings({ homeTimeZone: 'UTC', dayBoundaryHour: 0 });
+    expect(toDayKey('2026-10-19T16:00:00.000Z')).toBe('2026-10-19');
+  });
+});
+
+describe('dayKeyRange', () => {
+  it('runs from one boundary hour to the next, across a DST change', () => {
+    // New York falls back at 02:00 on 2026-11-01, so that day is 25 hours long
+    const newYork: DaySettings = { ...NEW_YORK_4AM, dayBoundaryHour: 0 };
+    const { from, to } = dayKeyRange('2026-11-01', newYork);
+    expect(from.toISOString()).toBe('2026-11-01T04:00:00.000Z');
+    expect(to.toISOString()).toBe('2026-11-02T05:00:00.000Z');
+    expect(toDayKey(from, newYork)).toBe('2026-11-01');
+    expect(toDayKey(new Date(to.getTime() - 1), newYork)).toBe('2026-11-01');
+  });
+});
+
+describe('lastNDays', () => {
+  it('ends on the home day of `end`, oldest first', () => {
+    setDaySettings(TOKYO);
+    expect(lastNDays(3, new Date('2026-10-19T16:00:00.000Z'))).toEqual(['2026-10-18', '2026-10-19', '2026-10-20']);
+    setDaySettings({ homeTimeZone: 'UTC', dayBoundaryHour: 0 });
+  });
+});
+
+describe('shiftDayKey', () => {
+  it('steps over month and year ends', () => {
+    expect(shiftDayKey('2026-12-31', 1)).toBe('2027-01-01');
+    expect(shiftDayKey('2026-03-01', -1)).toBe('2026-02-28');
+  });
+});
@@ -0,0 +1,173 @@
+// src/utils/sessionAnalytics.ts - PURE AGGREGATION HELPERS OVER THE SESSION LOG
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { SessionData } from '../context/AppDataContext';
+
+export const PILLARS = ['body', 'mind', 'heart', 'spirit', 'diet'] as const;
+export type PillarKey = typeof PILLARS[number];
+
+export interface DailyPillarBucket {
+  date: string; // YYYY-MM-DD in the home timezone
+  sessions: number;
+  minutes: number;
+  averageScore: number | null;
+  byPillar: Record<PillarKey, { sessions: number; minutes: number; averageScore: number | null }>;
+}
+
+export const DAY_MS = 86400000;
+
+/**
+ * Where a day starts. Every day key in the app - sessions, check-ins, meals,
+ * measurements, plans, streaks and analytics - is counted in these settings.
+ */
+export interface DaySettings {
+  homeTimeZone: string; // IANA zone days are counted in, regardless of where the device is
+  dayBoundaryHour: number; // 0-23, activity before this hour counts towards the previous day
+}
+
+export const deviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// The user's settings once StreakEngine has loaded them; the device's own days until then
+let daySettings: DaySettings = { homeTimeZone: deviceTimeZone(), dayBoundaryHour: 0 };
+
+export const setDaySettings = (settings: DaySettings) => {
+  daySettings = { homeTimeZone: settings.homeTimeZone, dayBoundaryHour: settings.dayBoundaryHour };
+};
+
+/**
+ * Calendar day an instant belongs to, as YYYY-MM-DD
+ */
+export const toDayKey = (date: Date | string, settings: DaySettings = daySettings): string => {
+  const time = typeof date === 'string' ? new Date(date).getTime() : date.getTime();
+  return formatInTimeZone(new Date(time - settings.dayBoundaryHour * 3600000), settings.homeTimeZone, 'yyyy-MM-dd');
+};
+
+/**
+ * Instants a day covers, from its boundary hour to the next day's
+ */
+export const dayKeyRange = (dayKey: string, settings: DaySettings = daySettings): { from: Date; to: Date } => {
+  const hour = String(settings.dayBoundaryHour).padStart(2, '0');
+  return {
+    from: fromZonedTime(`${dayKey}T${hour}:00:00`, settings.homeTimeZone),
+    to: fromZonedTime(`${shiftDayKey(dayKey, 1)}T${hour}:00:00`, settings.homeTimeZone)
+  };
+};
+
+// Pure calendar arithmetic on yyyy-MM-dd keys, independent of any timezone
+export const shiftDayKey = (dayKey: string, days: number): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().split('T')[0];
+};
+
+/**
+ * The `days` calendar days ending at `end` (inclusive), oldest first
+ */
+export const lastNDays = (days: number, end: Date = new Date()): string[] => {
+  const last = toDayKey(end);
+  return Array.from({ length: days }, (_, index) => shiftDayKey(last, index - (days - 1)));
+};
+
+export const isPillar = (pillar: string): pillar is PillarKey =>
+  (PILLARS as readonly string[]).includes(pillar);
+
+export const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Sessions whose date falls inside [start, end)
+ */
+export const sessionsBetween = (sessions: SessionData[], start: Date, end: Date): SessionData[] => {
+  const from = start.getTime();
+  const to = end.getTime();
+  return sessions.filter(session => {
+    const time = new Date(session.date).getTime();
+    return time >= from && time < to;
+  });
+};
+
+/**
+ * Aggregate the session log into one bucket per day (with per-pillar breakdown)
+ * @param sessions - Session log, any order
+ * @param days - Number of days ending today
+ * @param end - Last day to include (defaults to today)
+ */
+export const aggregateDaily = (sessions: SessionData[], days: number, end: Date = new Date()): DailyPillarBucket[] => {
+  const keys = lastNDays(days, end);
+  const index = new Map<string, SessionData[]>(keys.map(key => [key, []]));
+
+  sessions.forEach(session => {
+    const bucket = index.get(toDayKey(session.date));
+    if (bucket) bucket.push(session);
+  });
+
+  return keys.map(key => {
+    const daySessions = index.get(key) || [];
+    const byPillar = PILLARS.reduce((acc, pillar) => {
+      const pillarSessions = daySessions.filter(session => session.pillar === pillar);
+      acc[pillar] = {
+        sessions: pillarSessions.length,
+        minutes: pillarSessions.reduce((sum, session) => sum + session.duration, 0),
+        averageScore: average(pillarSessions.map(session => session.score))
+      };
+      return acc;
+    }, {} as DailyPillarBucket['byPillar']);
+
+    return {
+      date: key,
+      sessions: daySessions.length,
+      minutes: daySessions.reduce((sum, session) => sum + session.duration, 0),
+      averageScore: average(daySessions.map(session => session.score)),
+      byPillar
+    };
+  });
+};
+
+/**
+ * Pearson correlation coefficient
+ * @returns number in [-1, 1], or null when either series has no variance
+ */
+export const pearsonCorrelation = (xs: number[], ys: number[]): number | null => {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+
+  const meanX = xs.slice(0, n).reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, accurate to ~1e-7)
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+    Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Two-tailed p-value for a Pearson r over n pairs, using the Fisher z-transform
+ * @returns number in [0, 1], or null below 4 pairs where the approximation breaks down
+ */
+export const correlationPValue = (r: number, n: number): number | null => {
+  if (n < 4) return null;
+  const clamped = Math.max(-0.999999, Math.min(0.999999, r));
+  const z = Math.atanh(clamped) * Math.sqrt(n - 3);
+  return 2 * (1 - normalCdf(Math.abs(z)));
+};
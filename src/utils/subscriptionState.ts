@@ -0,0 +1,177 @@
+// src/utils/subscriptionState.ts - SUBSCRIPTION LIFECYCLE: TRIAL, ACTIVE, GRACE, EXPIRED, REFUNDED
+import type { ReceiptVerification, StorePurchase, SubscriptionStatus } from '../services/BillingProvider';
+import type { UserSubscription } from '../services/SubscriptionService';
+import { PromoGrant, promoAccessEndsAt } from './promoCodes';
+
+// A paid billing period, or a number of days for trials and promo codes
+export type PlanPeriod = 'monthly' | 'yearly' | number;
+
+// Days a lapsed subscription keeps premium access while renewal is sorted out
+export const GRACE_PERIOD_DAYS = 3;
+
+// Re-check receipts at least this often, even when nothing is due to lapse
+export const VERIFICATION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Which states a subscription may move to. A refund is final: the store won't
+ * reinstate that transaction, so only a new purchase brings premium back.
+ */
+export const SUBSCRIPTION_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  trial: ['active', 'grace', 'expired', 'refunded'],
+  active: ['grace', 'expired', 'refunded'],
+  grace: ['active', 'expired', 'refunded'],
+  expired: ['active', 'refunded'],
+  refunded: []
+};
+
+export const canTransition = (from: SubscriptionStatus, to: SubscriptionStatus): boolean =>
+  from === to || SUBSCRIPTION_TRANSITIONS[from].includes(to);
+
+// Subscriptions saved before store billing have no status
+export const statusOf = (subscription: UserSubscription): SubscriptionStatus =>
+  subscription.status || (subscription.isActive ? 'active' : 'expired');
+
+export const grantsPremium = (status: SubscriptionStatus): boolean =>
+  status === 'trial' || status === 'active' || status === 'grace';
+
+const withStatus = (
+  subscription: UserSubscription,
+  status: SubscriptionStatus,
+  graceEndsAt: string | undefined
+): UserSubscription => ({ ...subscription, status, isActive: grantsPremium(status), graceEndsAt });
+
+/**
+ * Apply the verifier's verdict on a purchase to the stored subscription.
+ * @returns The new subscription, or `current` unchanged when the receipt is invalid
+ * or the verdict would revive a refunded transaction
+ */
+export const applyVerification = (
+  current: UserSubscription | null,
+  planId: string,
+  purchase: StorePurchase,
+  verification: ReceiptVerification,
+  now: Date = new Date()
+): UserSubscription | null => {
+  if (!verification.valid) return current;
+
+  const sameSubscription = !!current && current.originalTransactionId === verification.originalTransactionId;
+  if (sameSubscription && !canTransition(statusOf(current!), verification.status)) {
+    return current;
+  }
+
+  return {
+    planId,
+    startDate: sameSubscription ? current!.startDate : verification.purchasedAt,
+    endDate: verification.expiresAt || undefined,
+    isActive: grantsPremium(verification.status),
+    autoRenew: verification.autoRenew,
+    paymentMethod: purchase.platform,
+    status: verification.status,
+    platform: purchase.platform,
+    productId: verification.productId,
+    transactionId: verification.transactionId,
+    originalTransactionId: verification.originalTransactionId,
+    receipt: purchase.receipt,
+    trialEndsAt: verification.trialEndsAt || undefined,
+    graceEndsAt: verification.graceEndsAt || undefined,
+    verifiedAt: now.toISOString()
+  };
+};
+
+/**
+ * Move a subscription on by the clock alone, for when the verifier can't be reached.
+ * Past its end date it's given the benefit of the doubt for GRACE_PERIOD_DAYS (or
+ * the store's own grace window), since it may well have renewed.
+ * @returns The same object when nothing changed
+ */
+export const advanceSubscription = (subscription: UserSubscription, now: Date = new Date()): UserSubscription => {
+  const status = statusOf(subscription);
+  const { endDate } = subscription;
+  if (!grantsPremium(status) || !endDate) {
+    return subscription.status ? subscription : withStatus(subscription, status, subscription.graceEndsAt);
+  }
+
+  const expires = new Date(endDate).getTime();
+  if (now.getTime() < expires) {
+    return subscription.status ? subscription : withStatus(subscription, status, subscription.graceEndsAt);
+  }
+
+  const graceEndsAt = subscription.graceEndsAt || new Date(expires + GRACE_PERIOD_DAYS * DAY_MS).toISOString();
+  const next: SubscriptionStatus = now.getTime() < new Date(graceEndsAt).getTime() ? 'grace' : 'expired';
+  if (next === status && subscription.graceEndsAt === graceEndsAt) return subscription;
+  return withStatus(subscription, next, next === 'grace' ? graceEndsAt : undefined);
+};
+
+/**
+ * Whether the stored receipt should be checked again: it has lapsed, or the last
+ * check is too old to trust for refunds and cancellations
+ */
+export const needsVerification = (subscription: UserSubscription, now: Date = new Date()): boolean => {
+  if (!subscription.receipt || statusOf(subscription) === 'refunded') return false;
+  if (!subscription.verifiedAt) return true;
+  if (subscription.endDate && new Date(subscription.endDate).getTime() <= now.getTime()) return true;
+  return now.getTime() - new Date(subscription.verifiedAt).getTime() >= VERIFICATION_MAX_AGE_MS;
+};
+
+// The stored receipt as a purchase the verifier can check again
+export const purchaseFromSubscription = (subscription: UserSubscription): StorePurchase | null =>
+  subscription.receipt && subscription.productId && subscription.platform
+    ? {
+      platform: subscription.platform,
+      productId: subscription.productId,
+      transactionId: subscription.transactionId || subscription.originalTransactionId || '',
+      receipt: subscription.receipt,
+      purchasedAt: subscription.startDate
+    }
+    : null;
+
+/**
+ * Add a period to a date. Months keep the day of the month where they can and
+ * otherwise end on the month's last day, so Jan 31 + 1 month is Feb 28, not Mar 3.
+ */
+export const addPlanPeriod = (from: Date, period: PlanPeriod): Date => {
+  if (typeof period === 'number') {
+    return new Date(from.getTime() + period * DAY_MS);
+  }
+
+  const months = period === 'monthly' ? 1 : 12;
+  const date = new Date(from.getTime());
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return date;
+};
+
+/**
+ * When premium access already paid for or granted runs out, so new time can start
+ * after it rather than overlap it. Grace days don't count - they're a courtesy,
+ * not paid time.
+ * @returns `now` when there's no premium access, null when it never ends (lifetime)
+ */
+export const entitledUntil = (
+  subscription: UserSubscription | null,
+  grants: PromoGrant[],
+  now: Date = new Date()
+): Date | null => {
+  let until = now.getTime();
+
+  if (subscription) {
+    const current = advanceSubscription(subscription, now);
+    const status = statusOf(current);
+    if ((status === 'trial' || status === 'active') && !current.endDate) return null;
+    if (status === 'trial' || status === 'active') {
+      until = Math.max(until, new Date(current.endDate!).getTime());
+    }
+  }
+
+  // Grants are kept back to back, so follow the chain from whenever paid access ends
+  const promoEnds = promoAccessEndsAt(grants, new Date(until)) || promoAccessEndsAt(grants, now);
+  if (promoEnds) {
+    until = Math.max(until, new Date(promoEnds).getTime());
+  }
+  return new Date(until);
+};